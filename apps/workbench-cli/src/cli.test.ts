@@ -0,0 +1,335 @@
+// @vitest-environment node
+import { execFile } from 'node:child_process'
+import { appendFile, cp, mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { promisify } from 'node:util'
+import { afterEach, describe, expect, it } from 'vitest'
+import { SysmlApiStandIn } from '../../../packages/baseline-service/test-fixtures/sysml-api-stand-in.js'
+import { LspProcessAdapter } from '../../../packages/language-adapter/src/lsp-process-adapter.js'
+import { CLI_EXIT_CODES, runCli, type CliEnvironment } from './cli.js'
+
+const sampleRoot = resolve(
+  dirname(fileURLToPath(import.meta.url)),
+  '../../../fixtures/workspaces/phase1-sample',
+)
+const fakeServer = resolve(
+  dirname(fileURLToPath(import.meta.url)),
+  '../../../packages/language-adapter/test-fixtures/fake-lsp.mjs',
+)
+const temporaryDirectories: string[] = []
+const executeFile = promisify(execFile)
+
+afterEach(async () => {
+  await Promise.all(
+    temporaryDirectories.splice(0).map((directory) =>
+      rm(directory, { recursive: true, force: true }),
+    ),
+  )
+})
+
+describe('sysml-workbench CLI', () => {
+  it('checks diagnostics against a severity threshold as JSON and SARIF', async () => {
+    const root = await sampleCopy()
+    const passed = cliEnvironment(root)
+    await expect(runCli(['check'], passed)).resolves.toBe(CLI_EXIT_CODES.passed)
+    const report = JSON.parse(passed.output.stdout) as {
+      failed: boolean
+      diagnostics: Array<{ code: string; severity: string }>
+    }
+    expect(report).toMatchObject({ schemaVersion: 1, command: 'check', workspaceId: 'phase1-sample', failOn: 'error', failed: false })
+    expect(report.diagnostics).toHaveLength(3)
+    expect(report.diagnostics.every((item) => item.code === 'FAKE-001' && item.severity === 'warning')).toBe(true)
+
+    const failed = cliEnvironment(root)
+    await expect(runCli(
+      ['check', '--fail-on', 'warning', '--format', 'sarif', '--output', 'check.sarif'],
+      failed,
+    )).resolves.toBe(CLI_EXIT_CODES.gateFailed)
+    expect(failed.output.stdout).toBe('')
+    const sarif = JSON.parse(await readFile(join(root, 'check.sarif'), 'utf8')) as {
+      version: string
+      runs: Array<{
+        tool: { driver: { name: string; rules: Array<{ id: string }> } }
+        results: Array<{ level: string; locations: Array<{ physicalLocation: { artifactLocation: { uri: string; uriBaseId: string }; region: { startLine: number } } }> }>
+      }>
+    }
+    expect(sarif.version).toBe('2.1.0')
+    expect(sarif.runs[0]?.tool.driver).toMatchObject({ name: 'fake-lsp', rules: [{ id: 'FAKE-001' }] })
+    expect(sarif.runs[0]?.results).toHaveLength(3)
+    expect(sarif.runs[0]?.results[0]).toMatchObject({
+      level: 'warning',
+      locations: [{ physicalLocation: { artifactLocation: { uriBaseId: 'WORKSPACE' }, region: { startLine: 1 } } }],
+    })
+    expect(sarif.runs[0]?.results[0]?.locations[0]?.physicalLocation.artifactLocation.uri).toMatch(/^(model|libraries)\//)
+  })
+
+  it('evaluates assurance, records and compares baselines, and writes reports', async () => {
+    const root = await sampleCopy()
+    const at = '2026-08-01T12:00:00.000Z'
+
+    const assured = cliEnvironment(root, 'qualified')
+    await expect(runCli(['assure', '--fail-on', 'none'], assured)).resolves.toBe(CLI_EXIT_CODES.passed)
+    expect(JSON.parse(assured.output.stdout)).toMatchObject({
+      command: 'assure',
+      failOn: 'none',
+      failed: false,
+      evaluation: { schemaVersion: 1, rulePack: { version: '1.3.0' } },
+    })
+    const sarif = cliEnvironment(root, 'qualified')
+    await runCli(['assure', '--format', 'sarif'], sarif)
+    expect(JSON.parse(sarif.output.stdout)).toMatchObject({
+      version: '2.1.0',
+      runs: [{ tool: { driver: { version: '1.3.0' } } }],
+    })
+
+    // Opening the workspace records element identities, so commit afterwards.
+    await git(root, ['init'])
+    await git(root, ['config', 'user.email', 'test@example.invalid'])
+    await git(root, ['config', 'user.name', 'Workbench Test'])
+    await git(root, ['add', '.'])
+    await git(root, ['-c', 'commit.gpgsign=false', 'commit', '-m', 'baseline'])
+    const created = cliEnvironment(root, 'qualified')
+    await expect(runCli(
+      ['baseline', 'create', 'release-1', '--actor', 'engineer', '--at', at],
+      created,
+    )).resolves.toBe(CLI_EXIT_CODES.passed)
+    expect(JSON.parse(created.output.stdout)).toMatchObject({ id: 'release-1', createdBy: 'engineer', createdAt: at })
+    await git(root, ['add', 'baselines'])
+    await git(root, ['-c', 'commit.gpgsign=false', 'commit', '-m', 'record baseline'])
+    const compared = cliEnvironment(root, 'qualified')
+    await expect(runCli(['baseline', 'compare', 'release-1'], compared)).resolves.toBe(CLI_EXIT_CODES.passed)
+    expect(JSON.parse(compared.output.stdout)).toMatchObject({ baseline: { id: 'release-1' } })
+
+    const reported = cliEnvironment(root, 'qualified')
+    await expect(runCli(
+      ['report', 'workspace-health', '--id', 'ci-health', '--at', at, '--workspace', 'sysml-workspace.yaml'],
+      reported,
+    )).resolves.toBe(CLI_EXIT_CODES.passed)
+    const manifest = JSON.parse(reported.output.stdout) as { reportKind: string; artifacts: Array<{ path: string }> }
+    expect(manifest.reportKind).toBe('workspace-health')
+    await expect(readFile(join(root, 'generated/reports/ci-health/manifest.json'), 'utf8'))
+      .resolves.toContain('"reportKind": "workspace-health"')
+    expect(manifest.artifacts.map((artifact) => artifact.path)).toEqual(expect.arrayContaining([
+      'generated/reports/ci-health/ci-health.html',
+      'generated/reports/ci-health/ci-health.sarif',
+      'generated/reports/ci-health/ci-health.junit.xml',
+    ]))
+  })
+
+  it('publishes a baseline to a SysML v2 API repository and compares the remote commit', async () => {
+    const server = new SysmlApiStandIn({ token: 'ci-token' })
+    try {
+      const url = await server.start()
+      const { projectId } = server.createProject('Phase 1')
+      const root = await sampleCopy()
+      await appendFile(
+        join(root, 'sysml-workspace.yaml'),
+        `modelRepository:\n  url: ${url}\n  projectId: ${projectId}\n`,
+      )
+      // Opening the workspace records element identities, so commit afterwards.
+      await runCli(['export', 'sysml-api', '--output', 'model.json'], cliEnvironment(root, 'qualified'))
+      await git(root, ['init'])
+      await git(root, ['config', 'user.email', 'test@example.invalid'])
+      await git(root, ['config', 'user.name', 'Workbench Test'])
+      await git(root, ['add', '.'])
+      await git(root, ['-c', 'commit.gpgsign=false', 'commit', '-m', 'baseline'])
+      await expect(runCli(['baseline', 'create', 'release-1', '--actor', 'ci'], cliEnvironment(root, 'qualified')))
+        .resolves.toBe(CLI_EXIT_CODES.passed)
+
+      const unauthorized = cliEnvironment(root, 'qualified')
+      await expect(runCli(['baseline', 'publish', 'release-1'], unauthorized)).resolves.toBe(CLI_EXIT_CODES.error)
+      expect(unauthorized.output.stderr).toContain('Model repository returned HTTP 401')
+
+      const published = { ...cliEnvironment(root, 'qualified'), modelRepositoryToken: 'ci-token' }
+      await expect(runCli(['baseline', 'publish', 'release-1'], published)).resolves.toBe(CLI_EXIT_CODES.passed)
+      const commit = JSON.parse(published.output.stdout) as { '@id': string; description: string }
+      expect(commit.description).toBe(`Baseline release-1 of phase1-sample at ${(await gitOutput(root, ['rev-parse', 'HEAD'])).trim()}`)
+
+      const listed = { ...cliEnvironment(root, 'qualified'), modelRepositoryToken: 'ci-token' }
+      await runCli(['baseline', 'remote'], listed)
+      expect(JSON.parse(listed.output.stdout)).toEqual([expect.objectContaining({ '@id': commit['@id'] })])
+      const compared = { ...cliEnvironment(root, 'qualified'), modelRepositoryToken: 'ci-token' }
+      await expect(runCli(['baseline', 'compare-remote', commit['@id']], compared)).resolves.toBe(CLI_EXIT_CODES.passed)
+      expect(JSON.parse(compared.output.stdout)).toMatchObject({
+        remote: { projectId, commitId: commit['@id'] },
+        semanticDiff: { changes: [] },
+      })
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('exports SysML v2 API JSON and plans its import as reviewable commands', async () => {
+    const root = await sampleCopy()
+    const exported = cliEnvironment(root, 'qualified')
+    await expect(runCli(['export', 'sysml-api', '--output', 'model.json'], exported))
+      .resolves.toBe(CLI_EXIT_CODES.passed)
+    const elements = JSON.parse(await readFile(join(root, 'model.json'), 'utf8')) as Array<{
+      '@id': string
+      '@type': string
+      qualifiedName?: string
+    }>
+    expect(elements.length).toBeGreaterThan(0)
+    expect(elements.every((element) => element['@id'].startsWith('wb:') || element['@id'].startsWith('rel:'))).toBe(true)
+    expect(elements.some((element) => element['@type'] === 'Package' && element.qualifiedName === 'Fake')).toBe(true)
+
+    const imported = cliEnvironment(root, 'qualified')
+    await expect(runCli(['import', 'sysml-api', 'model.json'], imported)).resolves.toBe(CLI_EXIT_CODES.passed)
+    const plan = JSON.parse(imported.output.stdout) as {
+      format: string
+      proposals: unknown[]
+      matched: Array<{ sourceId: string; elementId: string }>
+    }
+    expect(plan).toMatchObject({ format: 'sysml-v2-api', proposals: [], skipped: [] })
+    expect(plan.matched.every((match) => match.sourceId === match.elementId)).toBe(true)
+
+    const usage = cliEnvironment(root)
+    await expect(runCli(['import', 'drawio', 'model.json'], usage)).resolves.toBe(CLI_EXIT_CODES.error)
+    expect(usage.output.stderr).toContain('Usage: sysml-workbench import sysml-api|reqif <file>')
+  })
+
+  it('exports ReqIF and plans a ReqIF import under the named owner', async () => {
+    const root = await sampleCopy()
+    const exported = cliEnvironment(root, 'qualified')
+    await expect(runCli(['export', 'reqif', '--at', '2026-10-01T00:00:00.000Z', '--output', 'requirements.reqif'], exported))
+      .resolves.toBe(CLI_EXIT_CODES.passed)
+    const reqif = await readFile(join(root, 'requirements.reqif'), 'utf8')
+    expect(reqif).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<REQ-IF /u)
+    expect(reqif).toContain('<CREATION-TIME>2026-10-01T00:00:00.000Z</CREATION-TIME>')
+
+    await writeFile(join(root, 'partner.reqif'), [
+      '<REQ-IF><CORE-CONTENT><REQ-IF-CONTENT>',
+      '<SPEC-TYPES><SPEC-OBJECT-TYPE IDENTIFIER="t" LONG-NAME="Requirement"><SPEC-ATTRIBUTES>',
+      '<ATTRIBUTE-DEFINITION-STRING IDENTIFIER="n" LONG-NAME="ReqIF.Name"/>',
+      '</SPEC-ATTRIBUTES></SPEC-OBJECT-TYPE></SPEC-TYPES>',
+      '<SPEC-OBJECTS><SPEC-OBJECT IDENTIFIER="DOORS-1"><TYPE><SPEC-OBJECT-TYPE-REF>t</SPEC-OBJECT-TYPE-REF></TYPE>',
+      '<VALUES><ATTRIBUTE-VALUE-STRING THE-VALUE="braking distance"><DEFINITION><ATTRIBUTE-DEFINITION-STRING-REF>n</ATTRIBUTE-DEFINITION-STRING-REF></DEFINITION></ATTRIBUTE-VALUE-STRING></VALUES>',
+      '</SPEC-OBJECT></SPEC-OBJECTS>',
+      '</REQ-IF-CONTENT></CORE-CONTENT></REQ-IF>',
+    ].join('\n'))
+    const imported = cliEnvironment(root, 'qualified')
+    await expect(runCli(['import', 'reqif', 'partner.reqif', '--owner', 'Fake'], imported))
+      .resolves.toBe(CLI_EXIT_CODES.passed)
+    expect(JSON.parse(imported.output.stdout)).toMatchObject({
+      format: 'reqif',
+      proposals: [{
+        sourceId: 'DOORS-1',
+        title: 'Create RequirementUsage Fake::braking_distance',
+        command: { kind: 'create-element', elementKind: 'RequirementUsage', name: 'braking_distance' },
+        externalAlias: { scheme: 'reqif', identifier: 'DOORS-1' },
+      }],
+    })
+
+    const missingOwner = cliEnvironment(root)
+    await expect(runCli(['import', 'reqif', 'partner.reqif'], missingOwner)).resolves.toBe(CLI_EXIT_CODES.error)
+    expect(missingOwner.output.stderr).toContain('import reqif requires --owner')
+  })
+
+  it('renders a saved view as SVG and deterministic PDF', async () => {
+    const root = await sampleCopy()
+    await mkdir(join(root, 'views'), { recursive: true })
+    await writeFile(join(root, 'views', 'structure.json'), JSON.stringify({
+      schemaVersion: 1,
+      id: 'structure',
+      name: 'Structure',
+      query: { mode: 'containment', depth: 5 },
+      notation: 'model-structure',
+      updatedAt: '2026-10-01T00:00:00.000Z',
+    }))
+    const svg = cliEnvironment(root, 'qualified')
+    await expect(runCli(['export', 'svg', 'structure', '--at', '2026-10-01T00:00:00.000Z'], svg))
+      .resolves.toBe(CLI_EXIT_CODES.passed)
+    expect(svg.output.stdout).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<svg /u)
+    expect(svg.output.stdout).toContain('generated 2026-10-01T00:00:00.000Z')
+
+    const pdfs: Buffer[] = []
+    for (const file of ['first.pdf', 'second.pdf']) {
+      await expect(runCli(['export', 'pdf', 'structure', '--at', '2026-10-01T00:00:00.000Z', '--output', file], cliEnvironment(root, 'qualified')))
+        .resolves.toBe(CLI_EXIT_CODES.passed)
+      pdfs.push(await readFile(join(root, file)))
+    }
+    expect(pdfs[0]!.subarray(0, 5).toString('latin1')).toBe('%PDF-')
+    expect(pdfs[0]).toEqual(pdfs[1])
+
+    const usage = cliEnvironment(root)
+    await expect(runCli(['export', 'pdf', 'structure'], usage)).resolves.toBe(CLI_EXIT_CODES.error)
+    expect(usage.output.stderr).toContain('export pdf requires --output')
+  })
+
+  it('reports usage and service errors with exit code 2', async () => {
+    const root = await sampleCopy()
+    const usage = cliEnvironment(root)
+    await expect(runCli(['report', 'unknown-kind'], usage)).resolves.toBe(CLI_EXIT_CODES.error)
+    expect(usage.output.stderr).toContain('Report kind must be one of')
+    expect(usage.output.stderr).toContain('Usage: sysml-workbench')
+    expect(usage.adapters).toBe(0)
+
+    const sarifBaseline = cliEnvironment(root)
+    await expect(runCli(['baseline', 'compare', 'x', '--format', 'sarif'], sarifBaseline))
+      .resolves.toBe(CLI_EXIT_CODES.error)
+    expect(sarifBaseline.output.stderr).toContain('only available for check and assure')
+
+    const missing = cliEnvironment(root)
+    await expect(runCli(['check', '--workspace', 'missing.yaml'], missing)).resolves.toBe(CLI_EXIT_CODES.error)
+    expect(missing.output.stderr).toMatch(/^sysml-workbench: Workbench request failed \(-32010\)/)
+  })
+})
+
+function cliEnvironment(
+  cwd: string,
+  qualificationStatus: 'qualified' | 'unqualified' = 'unqualified',
+): CliEnvironment & {
+  output: { stdout: string; stderr: string }
+  adapters: number
+} {
+  const environment = {
+    cwd,
+    output: { stdout: '', stderr: '' },
+    adapters: 0,
+    stdout: (text: string) => {
+      environment.output.stdout += text
+    },
+    stderr: (text: string) => {
+      environment.output.stderr += text
+    },
+    createAdapter: async () => {
+      environment.adapters += 1
+      return new LspProcessAdapter({
+        metadata: {
+          adapterId: 'test/fake-lsp',
+          adapterVersion: '0.1.0',
+          engineName: 'fake-lsp',
+          engineVersion: '1',
+          referenceRelease: 'test',
+          qualificationStatus,
+        },
+        command: process.execPath,
+        arguments: [fakeServer],
+        diagnosticSettleMs: 50,
+        semanticEvidenceMethod: 'sysml/semanticEvidence',
+      })
+    },
+  }
+  return environment
+}
+
+async function sampleCopy(): Promise<string> {
+  const root = await mkdtemp(join(tmpdir(), 'sysml-workbench-cli-'))
+  temporaryDirectories.push(root)
+  await cp(sampleRoot, root, { recursive: true })
+  return root
+}
+
+async function git(root: string, argumentsList: string[]): Promise<void> {
+  await gitOutput(root, argumentsList)
+}
+
+async function gitOutput(root: string, argumentsList: string[]): Promise<string> {
+  const { stdout } = await executeFile('git', ['-C', root, ...argumentsList], {
+    encoding: 'utf8',
+    maxBuffer: 4 * 1024 * 1024,
+  })
+  return stdout
+}
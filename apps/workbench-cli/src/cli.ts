@@ -0,0 +1,558 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import { dirname, resolve } from 'node:path'
+import type {
+  LanguageAdapter,
+  LanguageDiagnostic,
+} from '../../../packages/language-adapter/src/index.js'
+import type { JsonRpcRequest, JsonRpcResponse } from '../../../packages/workbench-protocol/src/index.js'
+import {
+  WorkbenchClient,
+  type WorkbenchTransport,
+} from '../../../packages/workbench-client-sdk/src/index.js'
+import {
+  assuranceToSarif,
+  diagnosticsToSarif,
+  type DiagramExportFormat,
+  type ReportKind,
+} from '../../../packages/report-engine/src/index.js'
+import type { AssuranceSeverity } from '../../../packages/rule-engine/src/index.js'
+import { WorkbenchService } from '../../../packages/workspace-service/src/service.js'
+
+export const CLI_NAME = 'sysml-workbench'
+export const CLI_VERSION = '0.1.0'
+
+export const CLI_EXIT_CODES = {
+  passed: 0,
+  gateFailed: 1,
+  error: 2,
+} as const
+
+const DIAGNOSTIC_SEVERITIES: ReadonlyArray<LanguageDiagnostic['severity']> = [
+  'error',
+  'warning',
+  'information',
+  'hint',
+]
+const FINDING_SEVERITIES: ReadonlyArray<AssuranceSeverity> = [
+  'critical',
+  'major',
+  'minor',
+  'advisory',
+]
+const REPORT_KINDS: ReadonlyArray<ReportKind> = [
+  'workspace-health',
+  'requirement-coverage',
+  'verification-readiness',
+  'interface-register',
+  'interface-quality',
+  'semantic-change-impact',
+  'review-findings',
+  'review-closure',
+  'baseline-manifest',
+]
+
+export const CLI_USAGE = `Usage: ${CLI_NAME} <command> [options]
+
+Commands:
+  check                         Report language diagnostics
+  assure                        Evaluate engineering assurance rules
+  baseline create <id>          Record a Git and semantic snapshot baseline
+  baseline compare <id>         Compare the workspace against a baseline
+  baseline publish <id>         Commit a baseline to the configured model
+                                repository (SYSML_WORKBENCH_REPOSITORY_TOKEN)
+  baseline remote               List the model repository's commits
+  baseline compare-remote <commit>
+                                Compare the workspace against a remote commit
+  report <kind>                 Write a report bundle under generated/reports
+  export sysml-api              Write the semantic model as SysML v2 API JSON
+  import sysml-api <file>       Plan commands that bring a SysML v2 API JSON
+                                file into the workspace, for review
+  export reqif                  Write requirements and their satisfy and verify
+                                links as ReqIF XML
+  import reqif <file> --owner <qualified-name>
+                                Plan commands that bring ReqIF requirements
+                                into the workspace, for review
+  export svg|pdf <view-id>      Render a saved view; pdf requires --output
+
+Options:
+  --workspace <file>            Workspace file (default ./sysml-workspace.yaml)
+  --format json|sarif           Output format; sarif for check and assure only
+  --output <file>               Write output to a file instead of stdout
+  --fail-on <severity>          check: error|warning|information|hint (default error)
+                                assure: critical|major|minor|advisory|none (default major)
+  --actor <name>                Baseline author (baseline create)
+  --at <timestamp>              ISO timestamp recorded for baselines and reports
+  --id <report-id>              Report id (default the report kind)
+  --baseline <id>               Baseline a report compares against
+  --exclude <text>              Report exclusion, repeatable
+  --owner <qualified-name>      Owner of imported top-level requirements
+  --candidate <id>              Use a candidate language engine
+  --qualified-runtime           Use the qualified hybrid language runtime
+  --candidate-manifest <file>   Candidate manifest override
+  --runtime-lock <file>         Runtime lock override
+
+Exit codes: 0 passed, 1 quality gate failed, 2 usage or service error.
+`
+
+export interface CliEngineOptions {
+  candidate?: string
+  qualifiedRuntime: boolean
+  candidateManifest?: string
+  runtimeLock?: string
+}
+
+export interface CliEnvironment {
+  cwd: string
+  stdout(text: string): void
+  stderr(text: string): void
+  createAdapter(engine: CliEngineOptions): Promise<LanguageAdapter>
+  now?(): Date
+  modelRepositoryToken?: string
+}
+
+type CliCommand =
+  | { kind: 'check'; failOn: LanguageDiagnostic['severity'] }
+  | { kind: 'assure'; failOn: AssuranceSeverity | 'none' }
+  | { kind: 'baseline-create'; baselineId: string; actor: string }
+  | { kind: 'baseline-compare'; baselineId: string }
+  | { kind: 'baseline-publish'; baselineId: string }
+  | { kind: 'baseline-remote' }
+  | { kind: 'baseline-compare-remote'; commitId: string }
+  | { kind: 'export-sysml-api' }
+  | { kind: 'import-sysml-api'; file: string }
+  | { kind: 'export-reqif' }
+  | { kind: 'import-reqif'; file: string; owner: string }
+  | { kind: 'export-view'; format: DiagramExportFormat; viewId: string }
+  | {
+      kind: 'report'
+      reportKind: ReportKind
+      reportId: string
+      baselineId?: string
+      exclusions: string[]
+    }
+
+interface CliOptions {
+  command: CliCommand
+  workspaceFile: string
+  format: 'json' | 'sarif'
+  output?: string
+  at?: string
+  engine: CliEngineOptions
+}
+
+interface CommandOutcome {
+  document: unknown
+  failed: boolean
+}
+
+export async function runCli(
+  argumentsList: string[],
+  environment: CliEnvironment,
+): Promise<number> {
+  if (argumentsList.includes('--help') || argumentsList.length === 0) {
+    environment.stdout(CLI_USAGE)
+    return argumentsList.length === 0 ? CLI_EXIT_CODES.error : CLI_EXIT_CODES.passed
+  }
+  let options: CliOptions
+  try {
+    options = parseArguments(argumentsList, environment.cwd)
+  } catch (error) {
+    environment.stderr(`${CLI_NAME}: ${errorMessage(error)}\n\n${CLI_USAGE}`)
+    return CLI_EXIT_CODES.error
+  }
+
+  let service: WorkbenchService | undefined
+  try {
+    service = new WorkbenchService({
+      adapter: await environment.createAdapter(options.engine),
+      allowedRoots: [dirname(options.workspaceFile)],
+      transport: { kind: 'stdio', secure: true },
+      ...(environment.modelRepositoryToken
+        ? { modelRepositoryToken: environment.modelRepositoryToken }
+        : {}),
+    })
+    const client = new WorkbenchClient(new ServiceTransport(service))
+    const outcome = await runCommand(client, options, environment)
+    // Exports in a non-JSON format come back as text or bytes and are
+    // written as is.
+    const content = typeof outcome.document === 'string' || outcome.document instanceof Uint8Array
+      ? outcome.document
+      : `${JSON.stringify(outcome.document, null, 2)}\n`
+    if (options.output) {
+      await writeFile(options.output, content)
+    } else if (typeof content === 'string') {
+      environment.stdout(content)
+    } else {
+      throw new Error('Binary output requires --output')
+    }
+    return outcome.failed ? CLI_EXIT_CODES.gateFailed : CLI_EXIT_CODES.passed
+  } catch (error) {
+    environment.stderr(`${CLI_NAME}: ${errorMessage(error)}\n`)
+    return CLI_EXIT_CODES.error
+  } finally {
+    await service?.dispose()
+  }
+}
+
+async function runCommand(
+  client: WorkbenchClient,
+  options: CliOptions,
+  environment: CliEnvironment,
+): Promise<CommandOutcome> {
+  const initialized = await client.initialize({ name: CLI_NAME, version: CLI_VERSION })
+  const status = await client.openWorkspace(options.workspaceFile)
+  const workspaceId = status.workspaceId
+  const at = options.at ?? (environment.now?.() ?? new Date()).toISOString()
+  const command = options.command
+  switch (command.kind) {
+    case 'check': {
+      const diagnostics = await client.diagnostics(workspaceId)
+      const threshold = DIAGNOSTIC_SEVERITIES.indexOf(command.failOn)
+      const failed = diagnostics.some(
+        (item) => DIAGNOSTIC_SEVERITIES.indexOf(item.severity) <= threshold,
+      )
+      if (options.format === 'sarif') {
+        const authority = initialized.languageAuthority
+        return {
+          failed,
+          document: diagnosticsToSarif(diagnostics, {
+            tool: { name: authority.engineName, version: authority.engineVersion },
+            rootUri: status.rootUri,
+          }),
+        }
+      }
+      return {
+        failed,
+        document: {
+          schemaVersion: 1,
+          command: 'check',
+          workspaceId,
+          indexState: status.indexState,
+          semanticAuthority: status.semanticAuthority,
+          failOn: command.failOn,
+          failed,
+          summary: status.diagnostics,
+          diagnostics,
+        },
+      }
+    }
+    case 'assure': {
+      const evaluation = await client.evaluateAssurance(workspaceId)
+      const threshold = command.failOn === 'none'
+        ? -1
+        : FINDING_SEVERITIES.indexOf(command.failOn)
+      const failed = evaluation.findings.some(
+        (finding) => FINDING_SEVERITIES.indexOf(finding.severity) <= threshold,
+      )
+      if (options.format === 'sarif') {
+        return {
+          failed,
+          document: assuranceToSarif(
+            evaluation,
+            await client.semanticSnapshot(workspaceId),
+            { tool: { name: evaluation.rulePack.id, version: evaluation.rulePack.version } },
+          ),
+        }
+      }
+      return {
+        failed,
+        document: {
+          schemaVersion: 1,
+          command: 'assure',
+          workspaceId,
+          failOn: command.failOn,
+          failed,
+          evaluation,
+        },
+      }
+    }
+    case 'baseline-create':
+      return {
+        failed: false,
+        document: await client.createBaseline(workspaceId, {
+          id: command.baselineId,
+          actor: command.actor,
+          at,
+        }),
+      }
+    case 'baseline-compare':
+      return {
+        failed: false,
+        document: await client.compareBaseline(workspaceId, command.baselineId),
+      }
+    case 'baseline-publish':
+      return {
+        failed: false,
+        document: await client.publishBaseline(workspaceId, command.baselineId),
+      }
+    case 'baseline-remote':
+      return { failed: false, document: await client.listRemoteBaselines(workspaceId) }
+    case 'baseline-compare-remote':
+      return {
+        failed: false,
+        document: await client.compareRemoteBaseline(workspaceId, command.commitId),
+      }
+    case 'export-sysml-api':
+      return { failed: false, document: await client.exportSysmlApi(workspaceId) }
+    case 'import-sysml-api': {
+      let elements: unknown
+      try {
+        elements = JSON.parse(await readFile(resolve(environment.cwd, command.file), 'utf8'))
+      } catch (error) {
+        throw new Error(
+          `Cannot read SysML v2 API file ${command.file}: ${errorMessage(error)}`,
+          { cause: error },
+        )
+      }
+      if (!Array.isArray(elements)) {
+        throw new Error('SysML v2 API import must be a JSON array of elements')
+      }
+      return { failed: false, document: await client.planSysmlApiImport(workspaceId, elements) }
+    }
+    case 'export-reqif':
+      return { failed: false, document: await client.exportReqif(workspaceId, at) }
+    case 'import-reqif': {
+      let reqif: string
+      try {
+        reqif = await readFile(resolve(environment.cwd, command.file), 'utf8')
+      } catch (error) {
+        throw new Error(
+          `Cannot read ReqIF file ${command.file}: ${errorMessage(error)}`,
+          { cause: error },
+        )
+      }
+      const snapshot = await client.semanticSnapshot(workspaceId)
+      const owner = snapshot.elements.find((element) =>
+        element.qualifiedName === command.owner || element.id === command.owner)
+      if (!owner) throw new Error(`Unknown --owner element: ${command.owner}`)
+      return { failed: false, document: await client.planReqifImport(workspaceId, reqif, owner.id) }
+    }
+    case 'export-view': {
+      const exported = await client.exportView(workspaceId, command.viewId, command.format, at)
+      return {
+        failed: false,
+        document: exported.encoding === 'base64'
+          ? Buffer.from(exported.content, 'base64')
+          : exported.content,
+      }
+    }
+    case 'report':
+      return {
+        failed: false,
+        document: await client.generateReport(workspaceId, {
+          reportId: command.reportId,
+          kind: command.reportKind,
+          at,
+          ...(command.baselineId ? { baselineId: command.baselineId } : {}),
+          ...(command.exclusions.length > 0 ? { exclusions: command.exclusions } : {}),
+        }),
+      }
+  }
+}
+
+// Drives the service through the same JSON-RPC envelope the stdio transport
+// carries, so the CLI exercises the request validation every client sees.
+class ServiceTransport implements WorkbenchTransport {
+  private nextId = 1
+
+  constructor(private readonly service: WorkbenchService) {}
+
+  async request<T>(method: string, params?: unknown): Promise<T> {
+    const request: JsonRpcRequest = {
+      jsonrpc: '2.0',
+      id: this.nextId++,
+      method,
+      ...(params === undefined ? {} : { params }),
+    }
+    const response: JsonRpcResponse = await this.service.handle(request)
+    if ('error' in response) {
+      throw new Error(
+        `Workbench request failed (${response.error.code}): ${response.error.message}`,
+      )
+    }
+    return response.result as T
+  }
+}
+
+function parseArguments(argumentsList: string[], cwd: string): CliOptions {
+  const positionals: string[] = []
+  let workspaceFile = resolve(cwd, 'sysml-workspace.yaml')
+  let format: CliOptions['format'] = 'json'
+  let output: string | undefined
+  let failOn: string | undefined
+  let actor: string | undefined
+  let at: string | undefined
+  let reportId: string | undefined
+  let baselineId: string | undefined
+  let owner: string | undefined
+  const exclusions: string[] = []
+  const engine: CliEngineOptions = { qualifiedRuntime: false }
+
+  for (let index = 0; index < argumentsList.length; index += 1) {
+    const argument = argumentsList[index]!
+    if (argument === '--workspace') {
+      workspaceFile = resolve(cwd, requireArgument(argumentsList, ++index, argument))
+    } else if (argument === '--format') {
+      const value = requireArgument(argumentsList, ++index, argument)
+      if (value !== 'json' && value !== 'sarif') {
+        throw new Error('--format must be json or sarif')
+      }
+      format = value
+    } else if (argument === '--output') {
+      output = resolve(cwd, requireArgument(argumentsList, ++index, argument))
+    } else if (argument === '--fail-on') {
+      failOn = requireArgument(argumentsList, ++index, argument)
+    } else if (argument === '--actor') {
+      actor = requireArgument(argumentsList, ++index, argument)
+    } else if (argument === '--at') {
+      at = requireArgument(argumentsList, ++index, argument)
+      if (Number.isNaN(Date.parse(at))) throw new Error('--at must be an ISO timestamp')
+    } else if (argument === '--id') {
+      reportId = requireArgument(argumentsList, ++index, argument)
+    } else if (argument === '--baseline') {
+      baselineId = requireArgument(argumentsList, ++index, argument)
+    } else if (argument === '--exclude') {
+      exclusions.push(requireArgument(argumentsList, ++index, argument))
+    } else if (argument === '--owner') {
+      owner = requireArgument(argumentsList, ++index, argument)
+    } else if (argument === '--candidate') {
+      engine.candidate = requireArgument(argumentsList, ++index, argument)
+    } else if (argument === '--qualified-runtime') {
+      engine.qualifiedRuntime = true
+    } else if (argument === '--candidate-manifest') {
+      engine.candidateManifest = resolve(cwd, requireArgument(argumentsList, ++index, argument))
+    } else if (argument === '--runtime-lock') {
+      engine.runtimeLock = resolve(cwd, requireArgument(argumentsList, ++index, argument))
+    } else if (argument.startsWith('--')) {
+      throw new Error(`Unknown argument: ${argument}`)
+    } else {
+      positionals.push(argument)
+    }
+  }
+  if (engine.candidate && engine.qualifiedRuntime) {
+    throw new Error('--candidate and --qualified-runtime are mutually exclusive')
+  }
+
+  const command = parseCommand(positionals, { failOn, actor, reportId, baselineId, owner, exclusions })
+  if (format === 'sarif' && command.kind !== 'check' && command.kind !== 'assure') {
+    throw new Error('--format sarif is only available for check and assure')
+  }
+  if (command.kind === 'export-view' && command.format === 'pdf' && !output) {
+    throw new Error('export pdf requires --output')
+  }
+  return {
+    command,
+    workspaceFile,
+    format,
+    ...(output ? { output } : {}),
+    ...(at ? { at } : {}),
+    engine,
+  }
+}
+
+function parseCommand(
+  positionals: string[],
+  flags: {
+    failOn?: string
+    actor?: string
+    reportId?: string
+    baselineId?: string
+    owner?: string
+    exclusions: string[]
+  },
+): CliCommand {
+  const [name, first, second] = positionals
+  const expectArguments = (count: number, usage: string) => {
+    if (positionals.length !== count) throw new Error(`Usage: ${CLI_NAME} ${usage}`)
+  }
+  if (flags.failOn !== undefined && name !== 'check' && name !== 'assure') {
+    throw new Error('--fail-on is only available for check and assure')
+  }
+  switch (name) {
+    case 'check': {
+      expectArguments(1, 'check [options]')
+      const failOn = flags.failOn ?? 'error'
+      if (!DIAGNOSTIC_SEVERITIES.includes(failOn as LanguageDiagnostic['severity'])) {
+        throw new Error(`--fail-on for check must be one of ${DIAGNOSTIC_SEVERITIES.join(', ')}`)
+      }
+      return { kind: 'check', failOn: failOn as LanguageDiagnostic['severity'] }
+    }
+    case 'assure': {
+      expectArguments(1, 'assure [options]')
+      const failOn = flags.failOn ?? 'major'
+      if (failOn !== 'none' && !FINDING_SEVERITIES.includes(failOn as AssuranceSeverity)) {
+        throw new Error(`--fail-on for assure must be one of ${FINDING_SEVERITIES.join(', ')}, none`)
+      }
+      return { kind: 'assure', failOn: failOn as AssuranceSeverity | 'none' }
+    }
+    case 'baseline':
+      if (first === 'create') {
+        expectArguments(3, 'baseline create <id> --actor <name>')
+        if (!flags.actor) throw new Error('baseline create requires --actor')
+        return { kind: 'baseline-create', baselineId: second!, actor: flags.actor }
+      }
+      if (first === 'compare') {
+        expectArguments(3, 'baseline compare <id>')
+        return { kind: 'baseline-compare', baselineId: second! }
+      }
+      if (first === 'publish') {
+        expectArguments(3, 'baseline publish <id>')
+        return { kind: 'baseline-publish', baselineId: second! }
+      }
+      if (first === 'remote') {
+        expectArguments(2, 'baseline remote')
+        return { kind: 'baseline-remote' }
+      }
+      if (first === 'compare-remote') {
+        expectArguments(3, 'baseline compare-remote <commit>')
+        return { kind: 'baseline-compare-remote', commitId: second! }
+      }
+      throw new Error(`Usage: ${CLI_NAME} baseline create|compare|publish|compare-remote <id> | remote`)
+    case 'export':
+      if (first === 'svg' || first === 'pdf') {
+        expectArguments(3, `export ${first} <view-id>`)
+        return { kind: 'export-view', format: first, viewId: second! }
+      }
+      expectArguments(2, 'export sysml-api|reqif|svg|pdf')
+      if (first === 'sysml-api') return { kind: 'export-sysml-api' }
+      if (first === 'reqif') return { kind: 'export-reqif' }
+      throw new Error(`Usage: ${CLI_NAME} export sysml-api|reqif|svg|pdf`)
+    case 'import':
+      expectArguments(3, 'import sysml-api|reqif <file>')
+      if (first === 'sysml-api') return { kind: 'import-sysml-api', file: second! }
+      if (first === 'reqif') {
+        if (!flags.owner) throw new Error('import reqif requires --owner')
+        return { kind: 'import-reqif', file: second!, owner: flags.owner }
+      }
+      throw new Error(`Usage: ${CLI_NAME} import sysml-api|reqif <file>`)
+    case 'report': {
+      expectArguments(2, 'report <kind> [--id <report-id>]')
+      if (!REPORT_KINDS.includes(first as ReportKind)) {
+        throw new Error(`Report kind must be one of ${REPORT_KINDS.join(', ')}`)
+      }
+      return {
+        kind: 'report',
+        reportKind: first as ReportKind,
+        reportId: flags.reportId ?? first!,
+        ...(flags.baselineId ? { baselineId: flags.baselineId } : {}),
+        exclusions: flags.exclusions,
+      }
+    }
+    default:
+      throw new Error(name ? `Unknown command: ${name}` : 'A command is required')
+  }
+}
+
+function requireArgument(
+  argumentsList: string[],
+  index: number,
+  flag: string,
+): string {
+  const value = argumentsList[index]
+  if (!value) throw new Error(`${flag} requires a value`)
+  return value
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,35 @@
+import { resolve } from 'node:path'
+import {
+  createCandidateAdapter,
+  createQualifiedHybridAdapter,
+  PreservationControlAdapter,
+} from '../../../packages/language-adapter/src/index.js'
+import { runCli } from './cli.js'
+
+const candidateManifest = resolve(
+  import.meta.dirname,
+  '../../../config/language-engine-candidates.json',
+)
+const runtimeLock = resolve(
+  import.meta.dirname,
+  '../../../config/language-engine-runtime-lock.json',
+)
+
+process.exitCode = await runCli(process.argv.slice(2), {
+  cwd: process.cwd(),
+  stdout: (text) => void process.stdout.write(text),
+  stderr: (text) => void process.stderr.write(text),
+  modelRepositoryToken: process.env.SYSML_WORKBENCH_REPOSITORY_TOKEN,
+  createAdapter: async (engine) =>
+    engine.qualifiedRuntime
+      ? await createQualifiedHybridAdapter(
+          engine.candidateManifest ?? candidateManifest,
+          engine.runtimeLock ?? runtimeLock,
+        )
+      : engine.candidate
+        ? await createCandidateAdapter(
+            engine.candidateManifest ?? candidateManifest,
+            engine.candidate,
+          )
+        : new PreservationControlAdapter(),
+})
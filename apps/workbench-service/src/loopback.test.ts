@@ -284,6 +284,60 @@ describe('authenticated loopback transport', () => {
     socket.close()
   })
 
+  it('pushes service notifications to every authenticated WebSocket', async () => {
+    const service = new WorkbenchService({
+      adapter: new PreservationControlAdapter(),
+      allowedRoots: [sampleRoot],
+      transport: { kind: 'loopback', secure: false },
+    })
+    const server = await createLoopbackServer({
+      service,
+      allowedOrigins: [origin],
+    })
+    resources.push({ server, service })
+    const base = `http://${server.address}:${server.port}`
+    const paired = await fetch(`${base}/pair`, {
+      method: 'POST',
+      headers: { Origin: origin, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ pairingCode: server.pairingCode }),
+    })
+    const session = (await paired.json()) as { token: string; csrf: string }
+    const rpc = (id: number, method: string, params?: unknown) =>
+      fetch(`${base}/rpc`, {
+        method: 'POST',
+        headers: {
+          Origin: origin,
+          Authorization: `Bearer ${session.token}`,
+          'Content-Type': 'application/json',
+          'X-Workbench-CSRF': session.csrf,
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id, method, params }),
+      })
+    await rpc(1, WORKBENCH_METHODS.initialize, {
+      protocolVersion: WORKBENCH_PROTOCOL_VERSION,
+      client: { name: 'loopback-test', version: '1' },
+    })
+    const sockets = await Promise.all([
+      connectWebSocket(`ws://${server.address}:${server.port}/rpc`, session.token),
+      connectWebSocket(`ws://${server.address}:${server.port}/rpc`, session.token),
+    ])
+    const received = sockets.map(nextMessage)
+
+    const opened = await rpc(2, WORKBENCH_METHODS.workspaceOpen, {
+      workspaceFile: resolve(sampleRoot, 'sysml-workspace.yaml'),
+    })
+    expect(opened.status).toBe(200)
+    for (const message of await Promise.all(received)) {
+      expect(message).toMatchObject({
+        jsonrpc: '2.0',
+        method: 'workspace/didChangeStatus',
+        params: { workspaceId: 'phase1-sample' },
+      })
+      expect(message).not.toHaveProperty('id')
+    }
+    for (const socket of sockets) socket.close()
+  })
+
   it('serves a local UI with strict CSP and rejects traversal', async () => {
     const staticRoot = await mkdtemp(joinPath('sysml-workbench-static-'))
     temporaryDirectories.push(staticRoot)
@@ -244,6 +244,13 @@ export async function createLoopbackServer(
     })
   })
 
+  const unsubscribe = options.service.subscribe((notification) => {
+    const message = JSON.stringify(notification)
+    for (const socket of sockets) {
+      if (socket.readyState === socket.OPEN) socket.send(message)
+    }
+  })
+
   webSockets.on('connection', (socket) => {
     sockets.add(socket)
     socket.on('close', () => sockets.delete(socket))
@@ -288,6 +295,7 @@ export async function createLoopbackServer(
     pairingCode,
     pairingExpiresAt: new Date(pairingExpiresAt).toISOString(),
     close: async () => {
+      unsubscribe()
       for (const socket of sockets) socket.close(1001, 'Service shutting down')
       await new Promise<void>((resolveClose, rejectClose) =>
         webSockets.close((webSocketError) => {
@@ -0,0 +1,375 @@
+// @vitest-environment node
+import { cp, mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join, resolve } from 'node:path'
+import { PassThrough } from 'node:stream'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { LspProcessAdapter } from '../../../packages/language-adapter/src/lsp-process-adapter.js'
+import type { SemanticElement, SemanticSnapshot } from '../../../packages/semantic-model/src/index.js'
+import { WorkbenchService } from '../../../packages/workspace-service/src/service.js'
+import { requirementCodeLenses, runLanguageServer } from './lsp.js'
+
+const sampleRoot = resolve(
+  dirname(fileURLToPath(import.meta.url)),
+  '../../../fixtures/workspaces/phase1-sample',
+)
+const fakeServer = resolve(
+  dirname(fileURLToPath(import.meta.url)),
+  '../../../packages/language-adapter/test-fixtures/fake-lsp.mjs',
+)
+const services: WorkbenchService[] = []
+const temporaryDirectories: string[] = []
+
+afterEach(async () => {
+  await Promise.all(services.splice(0).map((service) => service.dispose()))
+  await Promise.all(
+    temporaryDirectories.splice(0).map((directory) =>
+      rm(directory, { recursive: true, force: true }),
+    ),
+  )
+})
+
+describe('language server façade', () => {
+  it('serves workspace diagnostics, navigation and editor buffers over LSP framing', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'sysml-workbench-lsp-'))
+    temporaryDirectories.push(root)
+    await cp(sampleRoot, root, { recursive: true })
+    const service = new WorkbenchService({
+      adapter: createFakeLspAdapter(),
+      allowedRoots: [root],
+      transport: { kind: 'stdio', secure: true },
+    })
+    services.push(service)
+    const client = new LspTestClient()
+    const exited = runLanguageServer({ service, input: client.input, output: client.output, version: '1.2.3' })
+
+    await expect(client.request('textDocument/hover', {})).resolves.toMatchObject({ error: { code: -32002 } })
+    const initialized = await client.request('initialize', {
+      processId: null,
+      rootUri: null,
+      workspaceFolders: [{ uri: pathToFileURL(root).href, name: 'sample' }],
+      capabilities: {},
+    })
+    expect(initialized).toMatchObject({
+      result: {
+        serverInfo: { name: 'sysml-workbench', version: '1.2.3' },
+        capabilities: {
+          textDocumentSync: { openClose: true, change: 1 },
+          definitionProvider: true,
+          hoverProvider: true,
+          documentFormattingProvider: true,
+          semanticTokensProvider: { legend: { tokenTypes: ['namespace'] }, full: true },
+          codeLensProvider: { resolveProvider: false },
+        },
+      },
+    })
+    client.notify('initialized', {})
+    const [workspace] = service.workspaces.list()
+    const documents = service.workspaces.status(workspace!.workspaceId).documents
+    expect(documents).toHaveLength(3)
+    const published = await client.notification(
+      (message) => message.method === 'textDocument/publishDiagnostics',
+      3,
+    )
+    expect(published.map((message) => message.params?.uri).sort())
+      .toEqual(documents.map((document) => document.uri).sort())
+    expect(published[0]?.params?.diagnostics).toEqual([{
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+      severity: 2,
+      code: 'FAKE-001',
+      source: 'sysml-workbench',
+      message: 'deterministic fake diagnostic',
+    }])
+
+    const uri = documents[0]!.uri
+    const diskText = await readFile(fileURLToPath(uri), 'utf8')
+    client.notify('textDocument/didOpen', { textDocument: { uri, languageId: 'sysml', version: 1, text: diskText } })
+    client.notify('textDocument/didChange', {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: 'package BROKEN {}\n' }],
+    })
+    const [broken] = await client.notification(
+      (message) => message.method === 'textDocument/publishDiagnostics' && message.params?.uri === uri,
+    )
+    expect(broken?.params?.diagnostics).toMatchObject([{ severity: 1, code: 'FAKE-CHANGE-001' }])
+    expect(service.workspaces.readDocument(workspace!.workspaceId, uri).text).toBe('package BROKEN {}\n')
+
+    const position = { line: 0, character: 1 }
+    await expect(client.request('textDocument/hover', { textDocument: { uri }, position }))
+      .resolves.toMatchObject({ result: { contents: { kind: 'markdown', value: '**Fake** package' } } })
+    await expect(client.request('textDocument/definition', { textDocument: { uri }, position }))
+      .resolves.toMatchObject({ result: [{ range: { start: { line: 0, character: 0 } } }] })
+    await expect(client.request('textDocument/documentSymbol', { textDocument: { uri } }))
+      .resolves.toMatchObject({ result: [{ name: 'Fake', kind: 4, children: [] }] })
+    await expect(client.request('textDocument/completion', { textDocument: { uri }, position }))
+      .resolves.toMatchObject({ result: { isIncomplete: false, items: [{ label: 'package', kind: 14 }] } })
+    await expect(client.request('textDocument/formatting', { textDocument: { uri }, options: {} }))
+      .resolves.toMatchObject({ result: [{ newText: 'package Fake {}\\n' }] })
+    await expect(client.request('textDocument/codeLens', { textDocument: { uri } }))
+      .resolves.toEqual({ jsonrpc: '2.0', id: expect.any(Number), result: [] })
+    await expect(client.request('textDocument/hover', {
+      textDocument: { uri: pathToFileURL(join(root, 'scratch.sysml')).href },
+      position,
+    })).resolves.toMatchObject({ result: null })
+    await expect(client.request('workspace/executeCommand', { command: 'x' }))
+      .resolves.toMatchObject({ error: { code: -32601 } })
+
+    client.notify('textDocument/didClose', { textDocument: { uri } })
+    await client.notification(
+      (message) => message.method === 'textDocument/publishDiagnostics' &&
+        message.params?.uri === uri &&
+        message.params?.diagnostics.length === 0,
+    )
+    expect(service.workspaces.readDocument(workspace!.workspaceId, uri).text).toBe(diskText)
+
+    // The shell edited the document after the editor did, so closing keeps it.
+    client.notify('textDocument/didOpen', { textDocument: { uri, languageId: 'sysml', version: 1, text: diskText } })
+    client.notify('textDocument/didChange', {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: 'package Editor {}\n' }],
+    })
+    await client.request('textDocument/hover', { textDocument: { uri }, position })
+    const { version } = service.workspaces.readDocument(workspace!.workspaceId, uri)
+    await service.workspaces.changeDocument(workspace!.workspaceId, uri, version + 1, 'package Shell {}\n')
+    client.notify('textDocument/didClose', { textDocument: { uri } })
+    await client.request('textDocument/hover', { textDocument: { uri }, position })
+    expect(service.workspaces.readDocument(workspace!.workspaceId, uri).text).toBe('package Shell {}\n')
+
+    await expect(client.request('shutdown', null)).resolves.toMatchObject({ result: null })
+    await expect(client.request('textDocument/hover', { textDocument: { uri }, position }))
+      .resolves.toMatchObject({ error: { code: -32600 } })
+    client.notify('exit', null)
+    await expect(exited).resolves.toBe(0)
+  })
+
+  it('evaluates assurance findings once a burst of edits settles', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'sysml-workbench-lsp-'))
+    temporaryDirectories.push(root)
+    await cp(sampleRoot, root, { recursive: true })
+    const service = new WorkbenchService({
+      adapter: createFakeLspAdapter('qualified'),
+      allowedRoots: [root],
+      transport: { kind: 'stdio', secure: true },
+    })
+    services.push(service)
+    const evaluate = vi.spyOn(service.workspaces, 'evaluateAssurance')
+    const client = new LspTestClient()
+    const exited = runLanguageServer({ service, input: client.input, output: client.output })
+    await client.request('initialize', {
+      processId: null,
+      rootUri: pathToFileURL(root).href,
+      capabilities: {},
+    })
+    await vi.waitFor(() => expect(evaluate).toHaveBeenCalledTimes(1), { timeout: 5_000 })
+
+    const [workspace] = service.workspaces.list()
+    const uri = service.workspaces.status(workspace!.workspaceId).documents[0]!.uri
+    for (const version of [2, 3, 4]) {
+      client.notify('textDocument/didChange', {
+        textDocument: { uri, version },
+        contentChanges: [{ text: `package Edit${version} {}\n` }],
+      })
+    }
+    await client.notification(
+      (message) => message.method === 'textDocument/publishDiagnostics' && message.params?.uri === uri,
+    )
+    await vi.waitFor(() => expect(evaluate).toHaveBeenCalledTimes(2), { timeout: 5_000 })
+    await expect(client.request('shutdown', null)).resolves.toMatchObject({ result: null })
+    client.notify('exit', null)
+    await expect(exited).resolves.toBe(0)
+    expect(evaluate).toHaveBeenCalledTimes(2)
+  })
+
+  it('counts the satisfy and verify relationships that target each requirement', () => {
+    const lenses = requirementCodeLenses(snapshot(), 'file:///workspace/requirements.sysml')
+    expect(lenses).toEqual([
+      {
+        range: range(2),
+        command: { title: 'Satisfied by 2 · Verified by 1', command: '', arguments: ['voltage'] },
+      },
+      {
+        range: range(6),
+        command: { title: 'Satisfied by 0 · Verified by 0', command: '', arguments: ['current'] },
+      },
+    ])
+    expect(requirementCodeLenses(snapshot(), 'file:///workspace/design.sysml')).toEqual([])
+  })
+})
+
+interface ReceivedMessage {
+  id?: number
+  method?: string
+  params?: { uri: string; diagnostics: unknown[] }
+  result?: unknown
+  error?: { code: number; message: string }
+}
+
+class LspTestClient {
+  readonly input = new PassThrough()
+  readonly output = new PassThrough()
+  private readonly received: ReceivedMessage[] = []
+  private readonly waiters = new Set<() => void>()
+  private buffer = Buffer.alloc(0)
+  private nextId = 1
+
+  constructor() {
+    this.output.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk])
+      while (true) {
+        const headerEnd = this.buffer.indexOf('\r\n\r\n')
+        if (headerEnd < 0) break
+        const length = Number(/Content-Length: (\d+)/.exec(this.buffer.subarray(0, headerEnd).toString())?.[1])
+        if (this.buffer.byteLength < headerEnd + 4 + length) break
+        this.received.push(JSON.parse(this.buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString()))
+        this.buffer = this.buffer.subarray(headerEnd + 4 + length)
+      }
+      for (const waiter of this.waiters) waiter()
+    })
+  }
+
+  async request(method: string, params: unknown): Promise<ReceivedMessage> {
+    const id = this.nextId++
+    this.write({ jsonrpc: '2.0', id, method, params })
+    const [response] = await this.take((message) => message.id === id && message.method === undefined)
+    return response!
+  }
+
+  notify(method: string, params: unknown): void {
+    this.write({ jsonrpc: '2.0', method, params })
+  }
+
+  notification(
+    predicate: (message: ReceivedMessage) => boolean,
+    count = 1,
+  ): Promise<ReceivedMessage[]> {
+    return this.take((message) => message.id === undefined && predicate(message), count)
+  }
+
+  private take(predicate: (message: ReceivedMessage) => boolean, count = 1): Promise<ReceivedMessage[]> {
+    return new Promise((resolveTake, rejectTake) => {
+      const timeout = setTimeout(() => {
+        this.waiters.delete(check)
+        rejectTake(new Error('Timed out waiting for an LSP message'))
+      }, 5_000)
+      const check = () => {
+        const matches = this.received.filter(predicate)
+        if (matches.length < count) return
+        const taken = matches.slice(0, count)
+        for (const message of taken) this.received.splice(this.received.indexOf(message), 1)
+        clearTimeout(timeout)
+        this.waiters.delete(check)
+        resolveTake(taken)
+      }
+      this.waiters.add(check)
+      check()
+    })
+  }
+
+  private write(message: unknown): void {
+    const body = Buffer.from(JSON.stringify(message))
+    this.input.write(Buffer.concat([Buffer.from(`Content-Length: ${body.byteLength}\r\n\r\n`), body]))
+  }
+}
+
+function createFakeLspAdapter(
+  qualificationStatus: 'qualified' | 'unqualified' = 'unqualified',
+): LspProcessAdapter {
+  return new LspProcessAdapter({
+    metadata: {
+      adapterId: 'test/fake-lsp',
+      adapterVersion: '0.1.0',
+      engineName: 'fake-lsp',
+      engineVersion: '1',
+      referenceRelease: 'test',
+      qualificationStatus,
+    },
+    command: process.execPath,
+    arguments: [fakeServer],
+    diagnosticSettleMs: 50,
+    semanticEvidenceMethod: 'sysml/semanticEvidence',
+  })
+}
+
+function snapshot(): SemanticSnapshot {
+  return {
+    schemaVersion: 1,
+    snapshotSha256: 'snapshot',
+    workspace: { id: 'sample', rootUri: 'file:///workspace', configurationName: 'default' },
+    authority: {
+      adapterId: 'qualified',
+      adapterVersion: '1',
+      engineName: 'engine',
+      engineVersion: '1',
+      referenceRelease: 'test',
+      qualificationStatus: 'qualified',
+    },
+    freshness: 'current',
+    documents: [],
+    elements: [
+      element('current', 'RequirementUsage', 'requirements.sysml', 6),
+      element('voltage', 'RequirementDefinition', 'requirements.sysml', 2),
+      element('battery', 'PartUsage', 'design.sysml', 1),
+      element('charger', 'PartUsage', 'design.sysml', 4),
+      element('test', 'VerificationUsage', 'design.sysml', 8),
+    ],
+    relationships: [
+      relationship('satisfy-battery', 'satisfaction', 'battery', 'voltage'),
+      relationship('satisfy-charger', 'satisfaction', 'charger', 'voltage'),
+      relationship('verify-test', 'verification', 'test', 'voltage'),
+      relationship('contains-current', 'containment', 'voltage', 'current'),
+    ],
+  }
+}
+
+function element(
+  id: string,
+  kind: SemanticElement['kind'],
+  path: string,
+  line: number,
+): SemanticElement {
+  return {
+    id,
+    kind,
+    rawKind: kind,
+    name: id,
+    qualifiedName: `Sample::${id}`,
+    source: {
+      uri: `file:///workspace/${path}`,
+      workspacePath: path,
+      range: range(line),
+      documentSha256: 'document',
+    },
+    fingerprint: id,
+    provenance: {
+      authority: 'qualified-language-engine',
+      extraction: 'pilot-emf-semantic-evidence',
+      classification: 'engine-metaclass',
+      engineId: id,
+    },
+  }
+}
+
+function relationship(
+  id: string,
+  kind: SemanticSnapshot['relationships'][number]['kind'],
+  sourceId: string,
+  targetId: string,
+): SemanticSnapshot['relationships'][number] {
+  return {
+    id,
+    kind,
+    sourceId,
+    targetId,
+    provenance: {
+      authority: 'qualified-language-engine',
+      extraction: 'pilot-emf-explicit-reference',
+      engineMetaclass: kind,
+      features: [],
+    },
+  }
+}
+
+function range(line: number) {
+  return { start: { line, character: 2 }, end: { line, character: 9 } }
+}
@@ -0,0 +1,568 @@
+import { readFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+import type { Readable, Writable } from 'node:stream'
+import { fileURLToPath } from 'node:url'
+import type { LanguageDiagnostic } from '../../../packages/language-adapter/src/index.js'
+import type { AssuranceSeverity } from '../../../packages/rule-engine/src/index.js'
+import type { SemanticSnapshot } from '../../../packages/semantic-model/src/index.js'
+import {
+  failure,
+  JSON_RPC_ERRORS,
+  notification,
+  success,
+  WORKBENCH_NOTIFICATIONS,
+  type JsonRpcNotification,
+  type LanguageCapabilities,
+  type WorkbenchDocumentSymbol,
+  type WorkbenchRange,
+} from '../../../packages/workbench-protocol/src/index.js'
+import type { WorkbenchService } from '../../../packages/workspace-service/src/service.js'
+import type { WorkspaceManager } from '../../../packages/workspace-service/src/workspace.js'
+
+export const WORKBENCH_LSP_NAME = 'sysml-workbench'
+export const WORKSPACE_FILE_NAME = 'sysml-workspace.yaml'
+export const ASSURANCE_DIAGNOSTIC_SOURCE = 'sysml-workbench assurance'
+
+const MAX_HEADER_BYTES = 8_192
+const MAX_MESSAGE_BYTES = 64 * 1024 * 1024
+const ASSURANCE_DEBOUNCE_MS = 500
+const LSP_ERRORS = {
+  serverNotInitialized: -32002,
+  requestFailed: -32803,
+} as const
+// Index order is the LSP SymbolKind numbering the language adapter decodes.
+const SYMBOL_KINDS = [
+  'unknown', 'file', 'module', 'namespace', 'package', 'class', 'method',
+  'property', 'field', 'constructor', 'enum', 'interface', 'function',
+  'variable', 'constant', 'string', 'number', 'boolean', 'array', 'object',
+  'key', 'null', 'enumMember', 'struct', 'event', 'operator', 'typeParameter',
+]
+const DIAGNOSTIC_SEVERITIES: Record<LanguageDiagnostic['severity'], number> = {
+  error: 1,
+  warning: 2,
+  information: 3,
+  hint: 4,
+}
+const FINDING_SEVERITIES: Record<AssuranceSeverity, number> = {
+  critical: 1,
+  major: 2,
+  minor: 3,
+  advisory: 4,
+}
+
+export interface LanguageServerOptions {
+  service: WorkbenchService
+  input: Readable
+  output: Writable
+  version?: string
+}
+
+interface LspDiagnostic {
+  range: WorkbenchRange
+  severity: number
+  code: string
+  source: string
+  message: string
+}
+
+interface LspCodeLens {
+  range: WorkbenchRange
+  command: { title: string; command: string; arguments?: unknown[] }
+}
+
+// Serves the open workspaces to an editor over standard LSP framing. Editor
+// buffers are forwarded as full-text document changes, so diagnostics,
+// navigation and formatting come from the same qualified engine the shell uses.
+// Resolves with the process exit code LSP prescribes once the client exits.
+export function runLanguageServer(options: LanguageServerOptions): Promise<number> {
+  return new WorkbenchLanguageServer(options).run()
+}
+
+class WorkbenchLanguageServer {
+  private readonly manager: WorkspaceManager
+  private buffer = Buffer.alloc(0)
+  private queue: Promise<void> = Promise.resolve()
+  private initialized = false
+  private shutdownRequested = false
+  private readonly published = new Map<string, Set<string>>()
+  private readonly publishing = new Map<string, Promise<void>>()
+  private readonly engineDiagnostics = new Map<string, Map<string, LspDiagnostic[]>>()
+  private readonly findingDiagnostics = new Map<string, Map<string, LspDiagnostic[]>>()
+  private readonly assuranceTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  // The document version each editor buffer last produced, by uri.
+  private readonly written = new Map<string, number>()
+
+  constructor(private readonly options: LanguageServerOptions) {
+    this.manager = options.service.workspaces
+  }
+
+  run(): Promise<number> {
+    const unsubscribe = this.options.service.subscribe((message) =>
+      this.onServiceNotification(message),
+    )
+    return new Promise<number>((resolveRun) => {
+      const finish = () => {
+        unsubscribe()
+        for (const timer of this.assuranceTimers.values()) clearTimeout(timer)
+        this.assuranceTimers.clear()
+        this.options.input.off('data', onData)
+        resolveRun(this.shutdownRequested ? 0 : 1)
+      }
+      const onData = (chunk: Buffer) => {
+        this.buffer = Buffer.concat([this.buffer, chunk])
+        this.consume(finish)
+      }
+      this.options.input.on('data', onData)
+      this.options.input.once('end', () => {
+        void this.queue.then(finish)
+      })
+    })
+  }
+
+  private consume(finish: () => void): void {
+    while (true) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n')
+      if (headerEnd < 0) {
+        if (this.buffer.byteLength > MAX_HEADER_BYTES) this.rejectStream('Oversized LSP header', finish)
+        return
+      }
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii')
+      const match = /(?:^|\r\n)Content-Length:\s*(\d+)(?:\r\n|$)/i.exec(header)
+      if (headerEnd > MAX_HEADER_BYTES || !match?.[1]) {
+        this.rejectStream('Invalid LSP header', finish)
+        return
+      }
+      const length = Number.parseInt(match[1], 10)
+      if (length > MAX_MESSAGE_BYTES) {
+        this.rejectStream('Oversized LSP message', finish)
+        return
+      }
+      const bodyStart = headerEnd + 4
+      if (this.buffer.byteLength < bodyStart + length) return
+      const body = this.buffer.subarray(bodyStart, bodyStart + length).toString('utf8')
+      this.buffer = this.buffer.subarray(bodyStart + length)
+      let message: unknown
+      try {
+        message = JSON.parse(body)
+      } catch {
+        this.send(failure(null, JSON_RPC_ERRORS.parseError, 'LSP message body must be JSON'))
+        continue
+      }
+      // Messages are handled in arrival order so a request always sees the
+      // document changes the editor sent before it.
+      this.queue = this.queue.then(() => this.dispatch(message, finish))
+    }
+  }
+
+  private rejectStream(reason: string, finish: () => void): void {
+    this.send(failure(null, JSON_RPC_ERRORS.parseError, reason))
+    this.buffer = Buffer.alloc(0)
+    finish()
+  }
+
+  private async dispatch(message: unknown, finish: () => void): Promise<void> {
+    if (!isRecord(message) || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+      // The façade sends no requests, so client responses are ignored.
+      if (!isRecord(message) || !('result' in message || 'error' in message)) {
+        this.send(failure(null, JSON_RPC_ERRORS.invalidRequest, 'Invalid LSP message'))
+      }
+      return
+    }
+    const params = isRecord(message.params) ? message.params : {}
+    const id = typeof message.id === 'string' || typeof message.id === 'number'
+      ? message.id
+      : undefined
+    if (id === undefined) {
+      if (message.method === 'exit') {
+        finish()
+        return
+      }
+      if (!this.initialized || this.shutdownRequested) return
+      await this.handleNotification(message.method, params).catch((error: unknown) => {
+        this.log(1, `${message.method} failed: ${errorMessage(error)}`)
+      })
+      return
+    }
+    if (message.method !== 'initialize' && !this.initialized) {
+      this.send(failure(id, LSP_ERRORS.serverNotInitialized, 'initialize must be called before this method'))
+      return
+    }
+    if (this.shutdownRequested && message.method !== 'shutdown') {
+      this.send(failure(id, JSON_RPC_ERRORS.invalidRequest, 'The server is shutting down'))
+      return
+    }
+    try {
+      this.send(success(id, await this.handleRequest(message.method, params)))
+    } catch (error) {
+      if (error instanceof MethodNotFoundError) {
+        this.send(failure(id, JSON_RPC_ERRORS.methodNotFound, error.message))
+      } else {
+        this.send(failure(id, LSP_ERRORS.requestFailed, errorMessage(error)))
+      }
+    }
+  }
+
+  private async handleRequest(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case 'initialize':
+        return this.initialize(params)
+      case 'shutdown':
+        this.shutdownRequested = true
+        return null
+      case 'textDocument/documentSymbol': {
+        const target = this.documentTarget(params)
+        return target ? (await this.manager.documentSymbols(target.workspaceId, target.uri)).map(lspSymbol) : null
+      }
+      case 'textDocument/definition': {
+        const target = this.positionTarget(params)
+        return target ? this.manager.definition(target.workspaceId, target.uri, target.position) : null
+      }
+      case 'textDocument/references': {
+        const target = this.positionTarget(params)
+        return target ? this.manager.references(target.workspaceId, target.uri, target.position) : null
+      }
+      case 'textDocument/hover': {
+        const target = this.positionTarget(params)
+        const hover = target ? await this.manager.hover(target.workspaceId, target.uri, target.position) : null
+        if (!hover) return null
+        return {
+          contents: { kind: hover.format, value: hover.value },
+          ...(hover.range ? { range: hover.range } : {}),
+        }
+      }
+      case 'textDocument/completion': {
+        const target = this.positionTarget(params)
+        if (!target) return null
+        const items = await this.manager.completion(target.workspaceId, target.uri, target.position)
+        return {
+          isIncomplete: false,
+          items: items.map((item) => ({
+            label: item.label,
+            ...(item.detail === undefined ? {} : { detail: item.detail }),
+            ...(item.documentation === undefined ? {} : { documentation: item.documentation }),
+            ...(item.kind === undefined ? {} : { kind: symbolKindNumber(item.kind) }),
+            ...(item.insertText === undefined ? {} : { insertText: item.insertText }),
+          })),
+        }
+      }
+      case 'textDocument/semanticTokens/full': {
+        const target = this.documentTarget(params)
+        return target
+          ? { data: (await this.manager.semanticTokens(target.workspaceId, target.uri)).data }
+          : null
+      }
+      case 'textDocument/rename': {
+        const target = this.positionTarget(params)
+        if (!target) return null
+        if (typeof params.newName !== 'string') throw new Error('rename requires newName')
+        return this.manager.rename(target.workspaceId, target.uri, target.position, params.newName)
+      }
+      case 'textDocument/formatting': {
+        const target = this.documentTarget(params)
+        return target ? this.manager.formatting(target.workspaceId, target.uri) : null
+      }
+      case 'textDocument/codeLens': {
+        const target = this.documentTarget(params)
+        if (!target || this.manager.status(target.workspaceId).semanticAuthority !== 'qualified-engine') return []
+        return requirementCodeLenses(await this.manager.semanticSnapshot(target.workspaceId), target.uri)
+      }
+      default:
+        throw new MethodNotFoundError(`Unsupported LSP method: ${method}`)
+    }
+  }
+
+  private async initialize(params: Record<string, unknown>): Promise<unknown> {
+    if (this.initialized) throw new Error('initialize may only be sent once')
+    await this.manager.initialize()
+    for (const workspaceFile of workspaceFiles(params)) {
+      try {
+        const status = await this.manager.open(workspaceFile)
+        this.schedulePublish(status.workspaceId)
+      } catch (error) {
+        this.log(1, `Workspace ${workspaceFile} was not opened: ${errorMessage(error)}`)
+      }
+    }
+    this.initialized = true
+    return {
+      capabilities: await this.capabilities(),
+      serverInfo: {
+        name: WORKBENCH_LSP_NAME,
+        ...(this.options.version ? { version: this.options.version } : {}),
+      },
+    }
+  }
+
+  // Advertises only what every open workspace's engine can answer. The token
+  // legend is fixed at initialization, so it is read from the first document.
+  private async capabilities(): Promise<Record<string, unknown>> {
+    const workspaces = this.manager.list().map(({ workspaceId }) => this.manager.status(workspaceId))
+    const supported = (capability: keyof LanguageCapabilities) =>
+      workspaces.length > 0 && workspaces.every((status) => status.languageCapabilities[capability])
+    let legend: { tokenTypes: string[]; tokenModifiers: string[] } | undefined
+    const first = workspaces[0]
+    if (supported('semanticTokens') && first?.documents[0]) {
+      legend = await this.manager
+        .semanticTokens(first.workspaceId, first.documents[0].uri)
+        .then((tokens) => tokens.legend, () => undefined)
+    }
+    return {
+      textDocumentSync: { openClose: true, change: 1, save: false },
+      ...(supported('documentSymbols') ? { documentSymbolProvider: true } : {}),
+      ...(supported('definitions') ? { definitionProvider: true } : {}),
+      ...(supported('references') ? { referencesProvider: true } : {}),
+      ...(supported('hover') ? { hoverProvider: true } : {}),
+      ...(supported('completion') ? { completionProvider: {} } : {}),
+      ...(supported('rename') ? { renameProvider: true } : {}),
+      ...(supported('formatting') ? { documentFormattingProvider: true } : {}),
+      ...(legend ? { semanticTokensProvider: { legend, full: true } } : {}),
+      codeLensProvider: { resolveProvider: false },
+    }
+  }
+
+  private async handleNotification(method: string, params: Record<string, unknown>): Promise<void> {
+    const document = isRecord(params.textDocument) ? params.textDocument : {}
+    const uri = typeof document.uri === 'string' ? document.uri : undefined
+    const workspaceId = uri ? this.workspaceFor(uri) : undefined
+    if (!uri || !workspaceId) return
+    if (method === 'textDocument/didOpen' && typeof document.text === 'string') {
+      await this.applyEditorText(workspaceId, uri, document.text)
+    } else if (method === 'textDocument/didChange' && Array.isArray(params.contentChanges)) {
+      const change = params.contentChanges.findLast(
+        (item): item is { text: string } => isRecord(item) && typeof item.text === 'string' && item.range === undefined,
+      )
+      if (!change) throw new Error('Only full document synchronization is supported')
+      await this.applyEditorText(workspaceId, uri, change.text)
+    } else if (method === 'textDocument/didClose') {
+      // An unsaved buffer must not outlive its editor: fall back to disk,
+      // unless the shell has edited the document since the editor did.
+      const written = this.written.get(uri)
+      this.written.delete(uri)
+      if (written !== this.manager.readDocument(workspaceId, uri).version) return
+      await this.applyEditorText(workspaceId, uri, await readFile(fileURLToPath(uri), 'utf8'))
+      this.written.delete(uri)
+    }
+  }
+
+  private async applyEditorText(workspaceId: string, uri: string, text: string): Promise<void> {
+    const current = this.manager.readDocument(workspaceId, uri)
+    if (current.text === text) return
+    await this.manager.changeDocument(workspaceId, uri, current.version + 1, text)
+    this.written.set(uri, current.version + 1)
+  }
+
+  private onServiceNotification(message: JsonRpcNotification): void {
+    if (
+      !this.initialized ||
+      message.method !== WORKBENCH_NOTIFICATIONS.languagePublishDiagnostics ||
+      !isRecord(message.params) ||
+      typeof message.params.workspaceId !== 'string'
+    ) {
+      return
+    }
+    this.schedulePublish(message.params.workspaceId)
+  }
+
+  // Coalesces bursts of service notifications into one publish per workspace.
+  private schedulePublish(workspaceId: string): void {
+    if (this.publishing.has(workspaceId)) return
+    const publish = Promise.resolve()
+      .then(() => {
+        this.publishing.delete(workspaceId)
+        return this.publishDiagnostics(workspaceId)
+      })
+      .catch((error: unknown) => this.log(2, `Diagnostics for ${workspaceId} were not published: ${errorMessage(error)}`))
+    this.publishing.set(workspaceId, publish)
+  }
+
+  private async publishDiagnostics(workspaceId: string): Promise<void> {
+    if (!this.manager.list().some((workspace) => workspace.workspaceId === workspaceId)) return
+    const byUri = new Map<string, LspDiagnostic[]>()
+    for (const item of this.manager.diagnostics(workspaceId)) {
+      byUri.set(item.uri, [...(byUri.get(item.uri) ?? []), {
+        range: item.range ?? { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+        severity: DIAGNOSTIC_SEVERITIES[item.severity],
+        code: item.code,
+        source: WORKBENCH_LSP_NAME,
+        message: item.message,
+      }])
+    }
+    this.engineDiagnostics.set(workspaceId, byUri)
+    this.sendDiagnostics(workspaceId)
+    if (this.manager.status(workspaceId).semanticAuthority === 'qualified-engine') {
+      this.scheduleAssurance(workspaceId)
+    }
+  }
+
+  // Findings need a rebuilt snapshot and a run of every rule, so they follow
+  // a burst of edits once it settles rather than each keystroke. Until then
+  // the editor keeps the findings of the last evaluation.
+  private scheduleAssurance(workspaceId: string): void {
+    clearTimeout(this.assuranceTimers.get(workspaceId))
+    const timer = setTimeout(() => {
+      this.assuranceTimers.delete(workspaceId)
+      this.publishAssurance(workspaceId).catch((error: unknown) =>
+        this.log(2, `Findings for ${workspaceId} were not published: ${errorMessage(error)}`))
+    }, ASSURANCE_DEBOUNCE_MS)
+    timer.unref()
+    this.assuranceTimers.set(workspaceId, timer)
+  }
+
+  private async publishAssurance(workspaceId: string): Promise<void> {
+    if (!this.manager.list().some((workspace) => workspace.workspaceId === workspaceId)) return
+    const snapshot = await this.manager.semanticSnapshot(workspaceId)
+    const elements = new Map(snapshot.elements.map((element) => [element.id, element]))
+    const byUri = new Map<string, LspDiagnostic[]>()
+    for (const finding of (await this.manager.evaluateAssurance(workspaceId)).findings) {
+      for (const elementId of finding.elementIds) {
+        const source = elements.get(elementId)?.source
+        if (!source) continue
+        byUri.set(source.uri, [...(byUri.get(source.uri) ?? []), {
+          range: source.range,
+          severity: FINDING_SEVERITIES[finding.severity],
+          code: finding.ruleId,
+          source: ASSURANCE_DIAGNOSTIC_SOURCE,
+          message: `${finding.statement}\n${finding.remediation}`,
+        }])
+      }
+    }
+    this.findingDiagnostics.set(workspaceId, byUri)
+    this.sendDiagnostics(workspaceId)
+  }
+
+  private sendDiagnostics(workspaceId: string): void {
+    const byUri = new Map<string, LspDiagnostic[]>()
+    for (const diagnostics of [
+      this.engineDiagnostics.get(workspaceId),
+      this.findingDiagnostics.get(workspaceId),
+    ]) {
+      for (const [uri, items] of diagnostics ?? []) {
+        byUri.set(uri, [...(byUri.get(uri) ?? []), ...items])
+      }
+    }
+    const previous = this.published.get(workspaceId) ?? new Set<string>()
+    for (const uri of new Set([...previous, ...byUri.keys()])) {
+      this.send(notification('textDocument/publishDiagnostics', {
+        uri,
+        diagnostics: byUri.get(uri) ?? [],
+      }))
+    }
+    this.published.set(workspaceId, new Set(byUri.keys()))
+  }
+
+  private documentTarget(params: Record<string, unknown>): { workspaceId: string; uri: string } | undefined {
+    const document = isRecord(params.textDocument) ? params.textDocument : {}
+    if (typeof document.uri !== 'string') throw new Error('textDocument.uri is required')
+    const workspaceId = this.workspaceFor(document.uri)
+    return workspaceId ? { workspaceId, uri: document.uri } : undefined
+  }
+
+  private positionTarget(params: Record<string, unknown>) {
+    const target = this.documentTarget(params)
+    const position = params.position
+    if (
+      !isRecord(position) ||
+      !Number.isInteger(position.line) ||
+      !Number.isInteger(position.character)
+    ) {
+      throw new Error('position is required')
+    }
+    return target
+      ? { ...target, position: { line: position.line as number, character: position.character as number } }
+      : undefined
+  }
+
+  // Documents outside every open workspace (scratch files, libraries of other
+  // projects) get empty answers rather than errors, as editors expect.
+  private workspaceFor(uri: string): string | undefined {
+    return this.manager.list().find(({ workspaceId }) =>
+      this.manager.status(workspaceId).documents.some((document) => document.uri === uri),
+    )?.workspaceId
+  }
+
+  private log(type: 1 | 2 | 3 | 4, message: string): void {
+    this.send(notification('window/logMessage', { type, message }))
+  }
+
+  private send(message: unknown): void {
+    const payload = Buffer.from(JSON.stringify(message), 'utf8')
+    this.options.output.write(
+      Buffer.concat([
+        Buffer.from(`Content-Length: ${payload.byteLength}\r\n\r\n`, 'ascii'),
+        payload,
+      ]),
+    )
+  }
+}
+
+class MethodNotFoundError extends Error {}
+
+// Requirements carry a lens with the satisfy and verify relationships that
+// target them in the current semantic snapshot.
+export function requirementCodeLenses(snapshot: SemanticSnapshot, uri: string): LspCodeLens[] {
+  const counts = new Map<string, { satisfaction: number; verification: number }>()
+  for (const relationship of snapshot.relationships) {
+    if (relationship.kind !== 'satisfaction' && relationship.kind !== 'verification') continue
+    const count = counts.get(relationship.targetId) ?? { satisfaction: 0, verification: 0 }
+    count[relationship.kind] += 1
+    counts.set(relationship.targetId, count)
+  }
+  return snapshot.elements
+    .filter((element) =>
+      element.source.uri === uri &&
+      (element.kind === 'RequirementUsage' || element.kind === 'RequirementDefinition'))
+    .sort((left, right) =>
+      left.source.range.start.line - right.source.range.start.line ||
+      left.source.range.start.character - right.source.range.start.character)
+    .map((element) => {
+      const count = counts.get(element.id) ?? { satisfaction: 0, verification: 0 }
+      return {
+        range: element.source.range,
+        command: {
+          title: `Satisfied by ${count.satisfaction} · Verified by ${count.verification}`,
+          command: '',
+          arguments: [element.id],
+        },
+      }
+    })
+}
+
+function workspaceFiles(params: Record<string, unknown>): string[] {
+  const options = isRecord(params.initializationOptions) ? params.initializationOptions : {}
+  const configured = options.workspaceFiles ?? options.workspaceFile
+  if (typeof configured === 'string') return [configured]
+  if (Array.isArray(configured)) return configured.filter((item): item is string => typeof item === 'string')
+  const folders = Array.isArray(params.workspaceFolders)
+    ? params.workspaceFolders
+      .map((folder) => (isRecord(folder) ? folder.uri : undefined))
+      .filter((uri): uri is string => typeof uri === 'string')
+    : typeof params.rootUri === 'string'
+      ? [params.rootUri]
+      : []
+  return folders
+    .filter((uri) => uri.startsWith('file:'))
+    .map((uri) => resolve(fileURLToPath(uri), WORKSPACE_FILE_NAME))
+}
+
+function lspSymbol(symbol: WorkbenchDocumentSymbol): unknown {
+  return {
+    name: symbol.name,
+    ...(symbol.detail === undefined ? {} : { detail: symbol.detail }),
+    kind: symbolKindNumber(symbol.kind),
+    range: symbol.range,
+    selectionRange: symbol.selectionRange,
+    children: symbol.children.map(lspSymbol),
+  }
+}
+
+function symbolKindNumber(kind: string): number {
+  const index = SYMBOL_KINDS.indexOf(kind)
+  return index > 0 ? index : 13
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -6,12 +6,18 @@ import {
   PreservationControlAdapter,
   type LanguageAdapter,
 } from '../../../packages/language-adapter/src/index.js'
+import {
+  ChatCompletionsAiProvider,
+  LocalDeterministicAiProvider,
+} from '../../../packages/ai-orchestrator/src/index.js'
 import { WorkbenchService } from '../../../packages/workspace-service/src/service.js'
 import { createLoopbackServer } from './loopback.js'
+import { runLanguageServer } from './lsp.js'
+import { runMcpServer } from './mcp.js'
 import { runStdio } from './stdio.js'
 
 interface CliOptions {
-  transport: 'stdio' | 'loopback'
+  transport: 'stdio' | 'loopback' | 'lsp' | 'mcp'
   workspaceRoots: string[]
   origins: string[]
   address: '127.0.0.1' | '::1'
@@ -22,6 +28,9 @@ interface CliOptions {
   runtimeLock: string
   staticRoot?: string
   bootstrapWorkspaceFile?: string
+  aiEndpoint?: string
+  aiModel?: string
+  allowNetworkAi: boolean
 }
 
 const options = parseArguments(process.argv.slice(2))
@@ -42,20 +51,38 @@ if (options.bootstrapWorkspaceFile) {
   }
   options.bootstrapWorkspaceFile = workspaceFile
 }
-const adapter: LanguageAdapter = options.qualifiedRuntime
-  ? await createQualifiedHybridAdapter(
-      options.candidateManifest,
-      options.runtimeLock,
-    )
-  : options.candidate
-    ? await createCandidateAdapter(options.candidateManifest, options.candidate)
-    : new PreservationControlAdapter()
+const createAdapter = async (): Promise<LanguageAdapter> =>
+  options.qualifiedRuntime
+    ? await createQualifiedHybridAdapter(
+        options.candidateManifest,
+        options.runtimeLock,
+      )
+    : options.candidate
+      ? await createCandidateAdapter(options.candidateManifest, options.candidate)
+      : new PreservationControlAdapter()
+// The API key is read from the environment so it never shows in process lists.
+const aiProviders = options.aiEndpoint && options.aiModel
+  ? [
+      new LocalDeterministicAiProvider(),
+      new ChatCompletionsAiProvider({
+        id: 'chat-completions',
+        displayName: `Chat endpoint (${new URL(options.aiEndpoint).host})`,
+        endpoint: options.aiEndpoint,
+        model: options.aiModel,
+        apiKey: process.env.SYSML_WORKBENCH_AI_API_KEY,
+      }),
+    ]
+  : undefined
 const service = new WorkbenchService({
-  adapter,
+  adapter: await createAdapter(),
+  createAdapter,
   allowedRoots: options.workspaceRoots,
+  aiProviders,
+  allowNetworkAi: options.allowNetworkAi,
+  modelRepositoryToken: process.env.SYSML_WORKBENCH_REPOSITORY_TOKEN,
   transport: {
-    kind: options.transport,
-    secure: options.transport === 'stdio',
+    kind: options.transport === 'loopback' ? 'loopback' : 'stdio',
+    secure: options.transport !== 'loopback',
   },
 })
 
@@ -72,6 +99,22 @@ process.once('SIGTERM', () => void shutdown().finally(() => process.exit(0)))
 if (options.transport === 'stdio') {
   await runStdio(service)
   await shutdown()
+} else if (options.transport === 'lsp') {
+  const exitCode = await runLanguageServer({
+    service,
+    input: process.stdin,
+    output: process.stdout,
+  })
+  await shutdown()
+  process.exit(exitCode)
+} else if (options.transport === 'mcp') {
+  await runMcpServer({
+    service,
+    input: process.stdin,
+    output: process.stdout,
+    workspaceFiles: options.bootstrapWorkspaceFile ? [options.bootstrapWorkspaceFile] : [],
+  })
+  await shutdown()
 } else {
   const server = await createLoopbackServer({
     service,
@@ -111,6 +154,9 @@ function parseArguments(argumentsList: string[]): CliOptions {
   )
   let staticRoot: string | undefined
   let bootstrapWorkspaceFile: string | undefined
+  let aiEndpoint: string | undefined
+  let aiModel: string | undefined
+  let allowNetworkAi = false
   const workspaceRoots: string[] = []
   const origins: string[] = []
 
@@ -118,6 +164,8 @@ function parseArguments(argumentsList: string[]): CliOptions {
     const argument = argumentsList[index]
     if (argument === '--stdio') transport = 'stdio'
     else if (argument === '--loopback') transport = 'loopback'
+    else if (argument === '--lsp') transport = 'lsp'
+    else if (argument === '--mcp') transport = 'mcp'
     else if (argument === '--workspace-root') {
       workspaceRoots.push(resolve(requireArgument(argumentsList, ++index, argument)))
     } else if (argument === '--origin') {
@@ -151,6 +199,12 @@ function parseArguments(argumentsList: string[]): CliOptions {
       bootstrapWorkspaceFile = resolve(
         requireArgument(argumentsList, ++index, argument),
       )
+    } else if (argument === '--ai-endpoint') {
+      aiEndpoint = requireArgument(argumentsList, ++index, argument)
+    } else if (argument === '--ai-model') {
+      aiModel = requireArgument(argumentsList, ++index, argument)
+    } else if (argument === '--allow-network-ai') {
+      allowNetworkAi = true
     } else {
       throw new Error(`Unknown argument: ${argument}`)
     }
@@ -162,6 +216,12 @@ function parseArguments(argumentsList: string[]): CliOptions {
   if (candidate && qualifiedRuntime) {
     throw new Error('--candidate and --qualified-runtime are mutually exclusive')
   }
+  if (Boolean(aiEndpoint) !== Boolean(aiModel)) {
+    throw new Error('--ai-endpoint and --ai-model must be given together')
+  }
+  if (transport === 'mcp' && !bootstrapWorkspaceFile) {
+    throw new Error('MCP transport requires --workspace-file')
+  }
   if (transport === 'loopback' && origins.length === 0) {
     throw new Error('Loopback transport requires at least one exact --origin')
   }
@@ -177,6 +237,9 @@ function parseArguments(argumentsList: string[]): CliOptions {
     runtimeLock,
     staticRoot,
     bootstrapWorkspaceFile,
+    aiEndpoint,
+    aiModel,
+    allowNetworkAi,
   }
 }
 
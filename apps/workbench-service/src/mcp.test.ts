@@ -0,0 +1,204 @@
+// @vitest-environment node
+import { cp, mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join, resolve } from 'node:path'
+import { PassThrough } from 'node:stream'
+import { fileURLToPath } from 'node:url'
+import { afterEach, describe, expect, it } from 'vitest'
+import { AI_TOOL_NAMES } from '../../../packages/ai-orchestrator/src/index.js'
+import { LspProcessAdapter } from '../../../packages/language-adapter/src/lsp-process-adapter.js'
+import type { SemanticElement } from '../../../packages/semantic-model/src/index.js'
+import { WorkbenchService } from '../../../packages/workspace-service/src/service.js'
+import { runMcpServer } from './mcp.js'
+
+const sampleRoot = resolve(
+  dirname(fileURLToPath(import.meta.url)),
+  '../../../fixtures/workspaces/phase1-sample',
+)
+const fakeServer = resolve(
+  dirname(fileURLToPath(import.meta.url)),
+  '../../../packages/language-adapter/test-fixtures/fake-lsp.mjs',
+)
+const services: WorkbenchService[] = []
+const temporaryDirectories: string[] = []
+
+afterEach(async () => {
+  await Promise.all(services.splice(0).map((service) => service.dispose()))
+  await Promise.all(
+    temporaryDirectories.splice(0).map((directory) =>
+      rm(directory, { recursive: true, force: true }),
+    ),
+  )
+})
+
+describe('MCP server', () => {
+  it('serves the controlled AI tools and records submitted answers for user approval', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'sysml-workbench-mcp-'))
+    temporaryDirectories.push(root)
+    await cp(sampleRoot, root, { recursive: true })
+    const service = new WorkbenchService({
+      adapter: createFakeLspAdapter(),
+      allowedRoots: [root],
+      transport: { kind: 'stdio', secure: true },
+    })
+    services.push(service)
+    const client = new McpTestClient()
+    const finished = runMcpServer({
+      service,
+      input: client.input,
+      output: client.output,
+      workspaceFiles: [resolve(root, 'sysml-workspace.yaml')],
+      version: '1.2.3',
+    })
+
+    await expect(client.request('tools/list', {})).resolves.toMatchObject({ error: { code: -32002 } })
+    await expect(client.request('ping', {})).resolves.toMatchObject({ result: {} })
+    await expect(client.request('initialize', {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'agent-test', version: '9' },
+    })).resolves.toMatchObject({
+      result: {
+        protocolVersion: '2025-03-26',
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: { name: 'sysml-workbench', version: '1.2.3' },
+      },
+    })
+    client.notify('notifications/initialized')
+
+    const listed = await client.request('tools/list', {})
+    const tools = (listed.result as { tools: Array<{ name: string; inputSchema: { type: string }; annotations: { readOnlyHint: boolean } }> }).tools
+    expect(tools.map((tool) => tool.name)).toEqual([...AI_TOOL_NAMES])
+    expect(tools.every((tool) => tool.inputSchema.type === 'object')).toBe(true)
+    expect(tools.filter((tool) => !tool.annotations.readOnlyHint).map((tool) => tool.name))
+      .toEqual(['apply_approved_commands'])
+
+    const found = await client.callTool('search_elements', { nameContains: 'fake', maxResults: 5 })
+    expect(found.isError).toBeUndefined()
+    const elements = JSON.parse(found.content[0]!.text) as SemanticElement[]
+    expect(elements.length).toBeGreaterThan(0)
+    expect(elements.every((element) => element.name === 'Fake')).toBe(true)
+    await expect(client.callTool('search_elements', { maxResults: 501 })).resolves.toMatchObject({
+      isError: true,
+      content: [{ text: 'AI tool field maxResults must be an integer from 1 to 500' }],
+    })
+    await expect(client.callTool('apply_approved_commands', { operationId: 'AI-1' })).resolves.toMatchObject({
+      isError: true,
+      content: [{ text: 'Mutating AI tools require a separate explicit user approval operation.' }],
+    })
+    await expect(client.callTool('get_diagnostics', { workspaceId: 'elsewhere' })).resolves.toMatchObject({
+      isError: true,
+      content: [{ text: 'Workspace is not open: elsewhere' }],
+    })
+    await expect(client.request('tools/call', { name: 'write_file', arguments: {} }))
+      .resolves.toMatchObject({ error: { code: -32602, message: 'Unknown tool: write_file' } })
+
+    const hallucinated = await client.callTool('propose_commands', {
+      message: 'Fake depends on a missing element.',
+      citedElementIds: [elements[0]!.id, 'wb:missing'],
+      commands: [],
+    })
+    expect(hallucinated.isError).toBe(true)
+    expect(JSON.parse(hallucinated.content[0]!.text)).toMatchObject({
+      state: 'rejected',
+      reasons: ['Provider cited unknown model identities: wb:missing'],
+    })
+    const grounded = await client.callTool('propose_commands', {
+      userRequest: 'Which packages exist?',
+      message: 'The workspace declares the Fake package.',
+      citedElementIds: [elements[0]!.id],
+      assumptions: ['Search results are complete.'],
+      commands: [],
+    })
+    expect(JSON.parse(grounded.content[0]!.text)).toMatchObject({
+      state: 'proposed',
+      accepted: true,
+      citedElementIds: [elements[0]!.id],
+      approvalRequired: false,
+    })
+
+    const audit = await service.workspaces.listAiAudit('phase1-sample')
+    expect(audit.map((record) => [record.provider.id, record.request.requestedBy, record.state])).toEqual([
+      ['mcp:agent-test', 'mcp:agent-test', 'rejected'],
+      ['mcp:agent-test', 'mcp:agent-test', 'proposed'],
+    ])
+    // The calls made before an answer are audited with it.
+    expect(audit[0]!.toolCalls.map((call) => [call.name, call.outcome])).toEqual([
+      ['search_elements', 'success'],
+      ['search_elements', 'failed'],
+      ['apply_approved_commands', 'rejected'],
+    ])
+    expect(audit[1]!.toolCalls).toEqual([])
+
+    client.input.end()
+    await finished
+  })
+})
+
+interface ReceivedMessage {
+  id?: number
+  result?: unknown
+  error?: { code: number; message: string }
+}
+
+interface ToolResult {
+  content: Array<{ type: string; text: string }>
+  isError?: boolean
+}
+
+class McpTestClient {
+  readonly input = new PassThrough()
+  readonly output = new PassThrough()
+  private nextId = 1
+  private buffer = ''
+  private readonly pending = new Map<number, (message: ReceivedMessage) => void>()
+
+  constructor() {
+    this.output.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8')
+      let lineEnd = this.buffer.indexOf('\n')
+      while (lineEnd >= 0) {
+        const message = JSON.parse(this.buffer.slice(0, lineEnd)) as ReceivedMessage
+        this.buffer = this.buffer.slice(lineEnd + 1)
+        if (message.id !== undefined) this.pending.get(message.id)?.(message)
+        lineEnd = this.buffer.indexOf('\n')
+      }
+    })
+  }
+
+  request(method: string, params: unknown): Promise<ReceivedMessage> {
+    const id = this.nextId++
+    const response = new Promise<ReceivedMessage>((resolveResponse) => {
+      this.pending.set(id, resolveResponse)
+    })
+    this.input.write(`${JSON.stringify({ jsonrpc: '2.0', id, method, params })}\n`)
+    return response
+  }
+
+  async callTool(name: string, input: Record<string, unknown>): Promise<ToolResult> {
+    const response = await this.request('tools/call', { name, arguments: input })
+    if (!response.result) throw new Error(`tools/call ${name} failed: ${response.error?.message}`)
+    return response.result as ToolResult
+  }
+
+  notify(method: string): void {
+    this.input.write(`${JSON.stringify({ jsonrpc: '2.0', method })}\n`)
+  }
+}
+
+function createFakeLspAdapter(): LspProcessAdapter {
+  return new LspProcessAdapter({
+    metadata: {
+      adapterId: 'test/fake-lsp',
+      adapterVersion: '0.1.0',
+      engineName: 'fake-lsp',
+      engineVersion: '1',
+      referenceRelease: 'test',
+      qualificationStatus: 'qualified',
+    },
+    command: process.execPath,
+    arguments: [fakeServer],
+    diagnosticSettleMs: 50,
+    semanticEvidenceMethod: 'sysml/semanticEvidence',
+  })
+}
@@ -0,0 +1,382 @@
+import { randomUUID } from 'node:crypto'
+import type { Readable, Writable } from 'node:stream'
+import {
+  AI_PROPOSAL_SCHEMA,
+  AI_TOOL_DEFINITIONS,
+  type AiJsonSchema,
+  type AiOperationRecord,
+  type AiToolName,
+  type AiToolSession,
+} from '../../../packages/ai-orchestrator/src/index.js'
+import type { WorkbenchCommand } from '../../../packages/command-engine/src/index.js'
+import {
+  failure,
+  JSON_RPC_ERRORS,
+  success,
+} from '../../../packages/workbench-protocol/src/index.js'
+import type { WorkbenchService } from '../../../packages/workspace-service/src/service.js'
+import type { WorkspaceManager } from '../../../packages/workspace-service/src/workspace.js'
+
+export const WORKBENCH_MCP_NAME = 'sysml-workbench'
+// Newest first; a client asking for another revision is offered the newest.
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'] as const
+
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024
+const MCP_INSTRUCTIONS =
+  'Read the open SysML v2 workspace through bounded semantic tools. ' +
+  'propose_commands records an audited AI operation; it changes nothing until a ' +
+  'user approves it in the workbench, so apply_approved_commands is always refused here.'
+
+const WORKSPACE_ID_SCHEMA: AiJsonSchema = {
+  type: 'string',
+  description: 'Open workspace to use. Optional when exactly one workspace is open.',
+}
+
+// Tools whose MCP inputs differ from the provider-facing ones: the answer is
+// submitted by the client, and operation identities are assigned here.
+const MCP_INPUT_SCHEMAS: Partial<Record<AiToolName, AiJsonSchema>> = {
+  propose_commands: {
+    ...AI_PROPOSAL_SCHEMA,
+    properties: {
+      userRequest: { type: 'string', maxLength: 20_000 },
+      ...(AI_PROPOSAL_SCHEMA.properties as AiJsonSchema),
+    },
+  },
+  validate_commands: {
+    type: 'object',
+    properties: {
+      commands: (AI_PROPOSAL_SCHEMA.properties as AiJsonSchema).commands,
+    },
+    required: ['commands'],
+    additionalProperties: false,
+  },
+  apply_approved_commands: {
+    type: 'object',
+    properties: { operationId: { type: 'string' } },
+    additionalProperties: false,
+  },
+}
+
+const TOOL_DESCRIPTIONS: Partial<Record<AiToolName, string>> = {
+  propose_commands:
+    'Submit an answer with cited model identities and at most one typed command. ' +
+    'Citations and the command are validated and recorded as an AI operation that a user must approve in the workbench.',
+  validate_commands:
+    'Generate source edits and authoritative validation for typed commands without recording or applying them.',
+  apply_approved_commands:
+    'Always refused over MCP: approved operations are applied only by a user in the workbench.',
+}
+
+export interface McpServerOptions {
+  service: WorkbenchService
+  input: Readable
+  output: Writable
+  workspaceFiles?: string[]
+  version?: string
+  // Tool calls each workspace session keeps for the next propose_commands;
+  // older ones roll off.
+  recordedToolCalls?: number
+}
+
+interface McpToolResult {
+  content: Array<{ type: 'text'; text: string }>
+  isError?: boolean
+}
+
+// Exposes the controlled AI tools to local agent clients over the MCP stdio
+// transport. Calls go through the same audited session a provider gets, and
+// answers submitted by the client become ordinary AI operations, so nothing
+// reaches the model sources without a separate user approval.
+// Resolves once the client closes the input stream.
+export function runMcpServer(options: McpServerOptions): Promise<void> {
+  return new WorkbenchMcpServer(options).run()
+}
+
+class WorkbenchMcpServer {
+  private readonly manager: WorkspaceManager
+  private readonly sessions = new Map<string, AiToolSession>()
+  private buffer = Buffer.alloc(0)
+  private queue: Promise<void> = Promise.resolve()
+  private initialized = false
+  private clientName = 'mcp-client'
+  private clientVersion = 'unknown'
+
+  constructor(private readonly options: McpServerOptions) {
+    this.manager = options.service.workspaces
+  }
+
+  run(): Promise<void> {
+    return new Promise<void>((resolveRun) => {
+      const finish = () => {
+        this.options.input.off('data', onData)
+        resolveRun()
+      }
+      const onData = (chunk: Buffer) => {
+        this.buffer = Buffer.concat([this.buffer, chunk])
+        this.consume(finish)
+      }
+      this.options.input.on('data', onData)
+      this.options.input.once('end', () => {
+        void this.queue.then(finish)
+      })
+    })
+  }
+
+  private consume(finish: () => void): void {
+    while (true) {
+      const lineEnd = this.buffer.indexOf('\n')
+      if (lineEnd < 0) {
+        if (this.buffer.byteLength > MAX_MESSAGE_BYTES) {
+          this.send(failure(null, JSON_RPC_ERRORS.parseError, 'Oversized MCP message'))
+          this.buffer = Buffer.alloc(0)
+          finish()
+        }
+        return
+      }
+      const line = this.buffer.subarray(0, lineEnd).toString('utf8').trim()
+      this.buffer = this.buffer.subarray(lineEnd + 1)
+      if (line === '') continue
+      let message: unknown
+      try {
+        message = JSON.parse(line)
+      } catch {
+        this.send(failure(null, JSON_RPC_ERRORS.parseError, 'MCP messages must be one JSON object per line'))
+        continue
+      }
+      this.queue = this.queue.then(() => this.dispatch(message))
+    }
+  }
+
+  private async dispatch(message: unknown): Promise<void> {
+    if (!isRecord(message) || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+      // The server sends no requests, so client responses are ignored.
+      if (!isRecord(message) || !('result' in message || 'error' in message)) {
+        this.send(failure(null, JSON_RPC_ERRORS.invalidRequest, 'Invalid MCP message'))
+      }
+      return
+    }
+    const id = typeof message.id === 'string' || typeof message.id === 'number'
+      ? message.id
+      : undefined
+    // notifications/initialized, cancellations and progress need no answer.
+    if (id === undefined) return
+    const params = isRecord(message.params) ? message.params : {}
+    if (message.method !== 'initialize' && message.method !== 'ping' && !this.initialized) {
+      this.send(failure(id, JSON_RPC_ERRORS.notInitialized, 'initialize must be called before this method'))
+      return
+    }
+    try {
+      switch (message.method) {
+        case 'initialize':
+          this.send(success(id, await this.initialize(params)))
+          return
+        case 'ping':
+          this.send(success(id, {}))
+          return
+        case 'tools/list':
+          this.send(success(id, { tools: mcpTools() }))
+          return
+        case 'tools/call': {
+          const name = params.name
+          if (typeof name !== 'string' || !AI_TOOL_DEFINITIONS.some((tool) => tool.name === name)) {
+            this.send(failure(id, JSON_RPC_ERRORS.invalidParams, `Unknown tool: ${String(name)}`))
+            return
+          }
+          if (params.arguments !== undefined && !isRecord(params.arguments)) {
+            this.send(failure(id, JSON_RPC_ERRORS.invalidParams, 'Tool arguments must be an object'))
+            return
+          }
+          this.send(success(id, await this.callTool(name as AiToolName, params.arguments ?? {})))
+          return
+        }
+        default:
+          this.send(failure(id, JSON_RPC_ERRORS.methodNotFound, `Unsupported MCP method: ${message.method}`))
+      }
+    } catch (error) {
+      this.send(failure(id, JSON_RPC_ERRORS.internalError, errorMessage(error)))
+    }
+  }
+
+  private async initialize(params: Record<string, unknown>): Promise<unknown> {
+    if (this.initialized) throw new Error('initialize may only be sent once')
+    const clientInfo = isRecord(params.clientInfo) ? params.clientInfo : {}
+    if (typeof clientInfo.name === 'string' && clientInfo.name.trim()) {
+      this.clientName = clientInfo.name.trim().slice(0, 128)
+    }
+    if (typeof clientInfo.version === 'string' && clientInfo.version.trim()) {
+      this.clientVersion = clientInfo.version.trim().slice(0, 128)
+    }
+    await this.manager.initialize()
+    for (const workspaceFile of this.options.workspaceFiles ?? []) {
+      await this.manager.open(workspaceFile)
+    }
+    this.initialized = true
+    const requested = params.protocolVersion
+    return {
+      protocolVersion: MCP_PROTOCOL_VERSIONS.find((version) => version === requested) ??
+        MCP_PROTOCOL_VERSIONS[0],
+      capabilities: { tools: { listChanged: false } },
+      serverInfo: {
+        name: WORKBENCH_MCP_NAME,
+        version: this.options.version ?? '0.0.0',
+      },
+      instructions: MCP_INSTRUCTIONS,
+    }
+  }
+
+  // Tool failures are results, not protocol errors, so the client's model
+  // sees the policy message and can correct its next call.
+  private async callTool(name: AiToolName, input: Record<string, unknown>): Promise<McpToolResult> {
+    try {
+      const { workspaceId: requestedWorkspace, ...toolInput } = input
+      const workspaceId = this.resolveWorkspace(requestedWorkspace)
+      const session = this.session(workspaceId)
+      switch (name) {
+        case 'propose_commands': {
+          const record = await this.submit(workspaceId, session, toolInput)
+          return toolResult(operationSummary(record), record.state === 'rejected')
+        }
+        case 'validate_commands':
+          return toolResult(await session.call(name, {
+            operationId: `MCP-${randomUUID()}`,
+            requestedBy: this.requestedBy(),
+            commands: toolInput.commands,
+          }))
+        default:
+          return toolResult(await session.call(name, toolInput))
+      }
+    } catch (error) {
+      return toolResult(errorMessage(error), true)
+    }
+  }
+
+  private async submit(
+    workspaceId: string,
+    session: AiToolSession,
+    input: Record<string, unknown>,
+  ): Promise<AiOperationRecord> {
+    const message = typeof input.message === 'string' ? input.message : ''
+    return this.manager.submitAi(
+      workspaceId,
+      {
+        schemaVersion: 1,
+        operationId: `MCP-${randomUUID()}`,
+        workspaceId,
+        userRequest: typeof input.userRequest === 'string' && input.userRequest.trim()
+          ? input.userRequest
+          : message.slice(0, 20_000),
+        requestedBy: this.requestedBy(),
+        at: new Date().toISOString(),
+      },
+      {
+        agent: {
+          id: `mcp:${this.clientName}`,
+          displayName: `${this.clientName} (MCP client)`,
+          model: this.clientVersion,
+        },
+        proposal: {
+          message,
+          citedElementIds: input.citedElementIds as string[],
+          assumptions: (input.assumptions ?? []) as string[],
+          commands: input.commands as WorkbenchCommand[],
+        },
+        toolCalls: session.takeToolCalls(),
+      },
+    )
+  }
+
+  private resolveWorkspace(requested: unknown): string {
+    const open = this.manager.list().map((workspace) => workspace.workspaceId)
+    if (requested !== undefined) {
+      if (typeof requested !== 'string' || !open.includes(requested)) {
+        throw new Error(`Workspace is not open: ${String(requested)}`)
+      }
+      return requested
+    }
+    if (open.length === 1) return open[0]!
+    throw new Error(
+      open.length === 0
+        ? 'No workspace is open'
+        : `workspaceId is required when several workspaces are open: ${open.join(', ')}`,
+    )
+  }
+
+  private session(workspaceId: string): AiToolSession {
+    let session = this.sessions.get(workspaceId)
+    if (!session) {
+      session = this.manager.aiToolSession(
+        workspaceId,
+        this.options.recordedToolCalls === undefined
+          ? {}
+          : { recordedCalls: this.options.recordedToolCalls },
+      )
+      this.sessions.set(workspaceId, session)
+    }
+    return session
+  }
+
+  private requestedBy(): string {
+    return `mcp:${this.clientName}`
+  }
+
+  private send(message: unknown): void {
+    this.options.output.write(`${JSON.stringify(message)}\n`)
+  }
+}
+
+export function mcpTools(): Array<{
+  name: AiToolName
+  description: string
+  inputSchema: AiJsonSchema
+  annotations: { readOnlyHint: boolean }
+}> {
+  return AI_TOOL_DEFINITIONS.map((tool) => ({
+    name: tool.name,
+    description: TOOL_DESCRIPTIONS[tool.name] ?? tool.description,
+    inputSchema: withWorkspaceId(MCP_INPUT_SCHEMAS[tool.name] ?? tool.inputSchema),
+    annotations: { readOnlyHint: !tool.mutating },
+  }))
+}
+
+function withWorkspaceId(schema: AiJsonSchema): AiJsonSchema {
+  return {
+    ...schema,
+    properties: { workspaceId: WORKSPACE_ID_SCHEMA, ...(schema.properties as AiJsonSchema) },
+  }
+}
+
+function operationSummary(record: AiOperationRecord): unknown {
+  return {
+    operationId: record.operationId,
+    state: record.state,
+    accepted: record.validation.accepted,
+    reasons: record.validation.reasons,
+    citedElementIds: record.citations.map((citation) => citation.id),
+    proposals: record.proposals.map((proposal) => ({
+      proposalId: proposal.proposalId,
+      command: proposal.envelope.command,
+      validation: proposal.validation.state,
+      affectedElementIds: proposal.affectedElementIds,
+    })),
+    approvalRequired: record.approval.required,
+    auditPath: record.audit.path,
+  }
+}
+
+function toolResult(value: unknown, isError = false): McpToolResult {
+  return {
+    content: [{
+      type: 'text',
+      text: typeof value === 'string' ? value : JSON.stringify(value),
+    }],
+    ...(isError ? { isError: true } : {}),
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -19,6 +19,22 @@ public class SemanticEvidenceModel {
         public String qualifiedName;
         public String ownerEngineId;
         public Range range;
+        public String direction;
+        public MultiplicityEvidence multiplicity;
+        public FeatureValueEvidence value;
+        public String unit;
+    }
+
+    public static class MultiplicityEvidence {
+        public long lower;
+        /** A non-negative bound, or the string {@code "*"} when unbounded. */
+        public Object upper;
+    }
+
+    public static class FeatureValueEvidence {
+        public String kind;
+        public String text;
+        public Object literal;
     }
 
     public static class RelationshipEvidence {
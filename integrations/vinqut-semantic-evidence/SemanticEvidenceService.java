@@ -19,6 +19,19 @@ import org.eclipse.xtext.ide.server.ILanguageServerAccess;
 import org.eclipse.xtext.nodemodel.INode;
 import org.eclipse.xtext.nodemodel.util.NodeModelUtils;
 import org.omg.sysml.lang.sysml.Element;
+import org.omg.sysml.lang.sysml.Expression;
+import org.omg.sysml.lang.sysml.Feature;
+import org.omg.sysml.lang.sysml.FeatureReferenceExpression;
+import org.omg.sysml.lang.sysml.FeatureValue;
+import org.omg.sysml.lang.sysml.LiteralBoolean;
+import org.omg.sysml.lang.sysml.LiteralInfinity;
+import org.omg.sysml.lang.sysml.LiteralInteger;
+import org.omg.sysml.lang.sysml.LiteralRational;
+import org.omg.sysml.lang.sysml.LiteralString;
+import org.omg.sysml.lang.sysml.Membership;
+import org.omg.sysml.lang.sysml.Multiplicity;
+import org.omg.sysml.lang.sysml.MultiplicityRange;
+import org.omg.sysml.lang.sysml.OperatorExpression;
 
 /** Read-only semantic evidence endpoint over the resolved OMG Pilot EMF model. */
 public class SemanticEvidenceService {
@@ -56,6 +69,9 @@ public class SemanticEvidenceService {
             evidence.qualifiedName = element.getQualifiedName();
             evidence.ownerEngineId = owningElementId(element);
             evidence.range = rangeOf(element, text);
+            if (element instanceof Feature) {
+                appendFeatureEvidence(evidence, (Feature) element);
+            }
             model.elements.add(evidence);
         }
 
@@ -126,6 +142,105 @@ public class SemanticEvidenceService {
         model.relationships.add(evidence);
     }
 
+    private void appendFeatureEvidence(
+            SemanticEvidenceModel.ElementEvidence evidence,
+            Feature feature) {
+        if (feature.getDirection() != null) {
+            evidence.direction = feature.getDirection().getLiteral();
+        }
+        Multiplicity multiplicity = feature.getMultiplicity();
+        if (multiplicity instanceof MultiplicityRange
+                && multiplicity.getOwningNamespace() == feature) {
+            evidence.multiplicity = multiplicityOf((MultiplicityRange) multiplicity);
+        }
+        for (Membership membership : feature.getOwnedMembership()) {
+            if (!(membership instanceof FeatureValue)) {
+                continue;
+            }
+            Expression expression = ((FeatureValue) membership).getValue();
+            if (expression == null) {
+                continue;
+            }
+            Expression quantity = expression;
+            if (expression instanceof OperatorExpression
+                    && "[".equals(((OperatorExpression) expression).getOperator())
+                    && ((OperatorExpression) expression).getArgument().size() == 2) {
+                OperatorExpression measured = (OperatorExpression) expression;
+                quantity = measured.getArgument().get(0);
+                evidence.unit = unitOf(measured.getArgument().get(1));
+            }
+            evidence.value = valueOf(quantity, sourceText(expression));
+            break;
+        }
+    }
+
+    private SemanticEvidenceModel.MultiplicityEvidence multiplicityOf(MultiplicityRange range) {
+        Long upper = boundOf(range.getUpperBound());
+        boolean unbounded = range.getUpperBound() instanceof LiteralInfinity;
+        if (upper == null && !unbounded) {
+            return null;
+        }
+        Long lower = range.getLowerBound() == null
+                ? (unbounded ? Long.valueOf(0) : upper)
+                : boundOf(range.getLowerBound());
+        if (lower == null || lower < 0 || (!unbounded && upper < lower)) {
+            return null;
+        }
+        SemanticEvidenceModel.MultiplicityEvidence evidence =
+                new SemanticEvidenceModel.MultiplicityEvidence();
+        evidence.lower = lower;
+        evidence.upper = unbounded ? "*" : upper;
+        return evidence;
+    }
+
+    private Long boundOf(Expression bound) {
+        return bound instanceof LiteralInteger
+                ? Long.valueOf(((LiteralInteger) bound).getValue())
+                : null;
+    }
+
+    private SemanticEvidenceModel.FeatureValueEvidence valueOf(Expression expression, String text) {
+        if (text == null || text.isBlank()) {
+            return null;
+        }
+        SemanticEvidenceModel.FeatureValueEvidence value =
+                new SemanticEvidenceModel.FeatureValueEvidence();
+        value.text = text.strip();
+        if (expression instanceof LiteralInteger) {
+            value.kind = "integer";
+            value.literal = ((LiteralInteger) expression).getValue();
+        } else if (expression instanceof LiteralRational
+                && Double.isFinite(((LiteralRational) expression).getValue())) {
+            value.kind = "real";
+            value.literal = ((LiteralRational) expression).getValue();
+        } else if (expression instanceof LiteralString) {
+            value.kind = "string";
+            value.literal = ((LiteralString) expression).getValue();
+        } else if (expression instanceof LiteralBoolean) {
+            value.kind = "boolean";
+            value.literal = ((LiteralBoolean) expression).isValue();
+        } else {
+            value.kind = "expression";
+        }
+        return value;
+    }
+
+    private String unitOf(Expression expression) {
+        if (!(expression instanceof FeatureReferenceExpression)) {
+            return null;
+        }
+        Feature unit = ((FeatureReferenceExpression) expression).getReferent();
+        if (unit == null || unit.eIsProxy()) {
+            return null;
+        }
+        return unit.getShortName() != null ? unit.getShortName() : unit.getName();
+    }
+
+    private String sourceText(EObject object) {
+        INode node = NodeModelUtils.findActualNodeFor(object);
+        return node == null ? null : NodeModelUtils.getTokenText(node);
+    }
+
     private List<Element> sourceElements(Resource resource) {
         LinkedHashMap<String, Element> result = new LinkedHashMap<>();
         for (EObject root : resource.getContents()) {
@@ -0,0 +1,260 @@
+// @vitest-environment node
+import { spawn, type ChildProcess } from 'node:child_process'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join, resolve } from 'node:path'
+import { createInterface } from 'node:readline'
+import { fileURLToPath } from 'node:url'
+import { afterEach, describe, expect, it } from 'vitest'
+import type { SemanticSnapshot } from '../../semantic-model/src/index.js'
+import {
+  AiAuditRepository,
+  AiOrchestrator,
+  ChatCompletionsAiProvider,
+  LocalDeterministicAiProvider,
+  type AiAssistantRequest,
+  type AiWorkspaceToolHost,
+} from './index.js'
+
+const fixtures = resolve(dirname(fileURLToPath(import.meta.url)), '../test-fixtures')
+const servers: ChildProcess[] = []
+const temporaryDirectories: string[] = []
+
+afterEach(async () => {
+  for (const server of servers.splice(0)) server.kill()
+  await Promise.all(
+    temporaryDirectories.splice(0).map((directory) =>
+      rm(directory, { recursive: true, force: true }),
+    ),
+  )
+})
+
+describe('ChatCompletionsAiProvider', () => {
+  it('routes model tool calls through the audited executor and submits a grounded proposal', async () => {
+    const endpoint = await startMockEndpoint('rename.json')
+    const { host, audit, validated } = await createFixture()
+    const provider = new ChatCompletionsAiProvider({
+      id: 'fixture-chat',
+      displayName: 'Fixture chat endpoint',
+      endpoint: `${endpoint}/v1/`,
+      model: 'fixture-model',
+      apiKey: 'fixture-key',
+    })
+    const orchestrator = new AiOrchestrator({
+      providers: [new LocalDeterministicAiProvider(), provider],
+      defaultProviderId: 'local-deterministic',
+      networkProvidersEnabled: true,
+    })
+    expect(orchestrator.status().providers).toContainEqual({
+      id: 'fixture-chat',
+      displayName: 'Fixture chat endpoint',
+      model: 'fixture-model',
+      networkAccess: true,
+      enabled: true,
+    })
+
+    const record = await orchestrator.request(request('fixture-chat'), host, audit)
+
+    expect(record).toMatchObject({
+      state: 'proposed',
+      provider: { id: 'fixture-chat', model: 'fixture-model', networkAccess: true },
+      answer: 'Rename System::Controller to PrimaryController.',
+      citations: [{ id: 'wb:fixture:controller' }],
+      assumptions: ['Controller is the only controller.'],
+      commands: [{ kind: 'rename-element', targetId: 'wb:fixture:controller', newName: 'PrimaryController' }],
+      approval: { required: true, approved: false },
+    })
+    expect(record.toolCalls.map((call) => [call.sequence, call.name, call.outcome])).toEqual([
+      [1, 'search_elements', 'success'],
+      [2, 'validate_commands', 'success'],
+    ])
+    expect(validated).toHaveLength(1)
+    const requests = await (await fetch(`${endpoint}/requests`)).json() as Array<{
+      model: string
+      messages: Array<{ role: string }>
+    }>
+    expect(requests.map((item) => item.messages.map((message) => message.role))).toEqual([
+      ['system', 'user'],
+      ['system', 'user', 'assistant', 'tool'],
+    ])
+    expect(requests[0]!.model).toBe('fixture-model')
+  })
+
+  it('keeps network providers disabled and rejects attempts to apply', async () => {
+    const endpoint = await startMockEndpoint('apply-attempt.json')
+    const { host, audit, validated } = await createFixture()
+    const provider = new ChatCompletionsAiProvider({
+      id: 'fixture-chat',
+      displayName: 'Fixture chat endpoint',
+      endpoint: `${endpoint}/v1`,
+      model: 'fixture-model',
+    })
+    const offline = new AiOrchestrator({ providers: [provider], defaultProviderId: 'fixture-chat' })
+    expect(offline.status().providers[0]).toMatchObject({ networkAccess: true, enabled: false })
+    await expect(offline.request(request('fixture-chat', 'AI-offline'), host, audit)).resolves.toMatchObject({
+      state: 'rejected',
+      validation: { reasons: ['External AI provider is disabled by policy: fixture-chat'] },
+    })
+    await expect((await fetch(`${endpoint}/requests`)).json()).resolves.toEqual([])
+
+    const online = new AiOrchestrator({
+      providers: [provider],
+      defaultProviderId: 'fixture-chat',
+      networkProvidersEnabled: true,
+    })
+    const record = await online.request(request('fixture-chat'), host, audit)
+    expect(record.state).toBe('rejected')
+    expect(record.validation.reasons).toEqual([
+      'Mutating AI tools require a separate explicit user approval operation.',
+    ])
+    expect(record.toolCalls).toEqual([
+      expect.objectContaining({ name: 'apply_approved_commands', outcome: 'rejected' }),
+    ])
+    expect(validated).toHaveLength(0)
+
+    expect(() => new ChatCompletionsAiProvider({
+      id: 'remote',
+      displayName: 'Remote',
+      endpoint: 'http://models.example.com/v1',
+      model: 'm',
+    })).toThrow('must use https unless it is on loopback')
+  })
+
+  it('reports a failed status before the body and stops reading an oversize reply', async () => {
+    const { host, audit } = await createFixture()
+    const orchestrator = (respond: typeof fetch) => new AiOrchestrator({
+      providers: [new ChatCompletionsAiProvider({
+        id: 'fixture-chat',
+        displayName: 'Fixture chat endpoint',
+        endpoint: 'https://models.example.com/v1',
+        model: 'fixture-model',
+        fetch: respond,
+      })],
+      defaultProviderId: 'fixture-chat',
+      networkProvidersEnabled: true,
+    })
+    let pulls = 0
+    const endless = () => new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls += 1
+        controller.enqueue(new Uint8Array(64 * 1024).fill(0x20))
+      },
+    })
+    await expect(orchestrator(async () => new Response(endless(), { status: 502 }))
+      .request(request('fixture-chat', 'AI-status'), host, audit))
+      .resolves.toMatchObject({
+        state: 'rejected',
+        validation: { reasons: ['AI provider endpoint returned HTTP 502'] },
+      })
+    await expect(orchestrator(async () => new Response(endless()))
+      .request(request('fixture-chat', 'AI-oversize'), host, audit))
+      .resolves.toMatchObject({
+        state: 'rejected',
+        validation: { reasons: ['AI provider response exceeds the size limit'] },
+      })
+    expect(pulls).toBeLessThan(80)
+  })
+})
+
+async function startMockEndpoint(fixture: string): Promise<string> {
+  const server = spawn(
+    process.execPath,
+    [join(fixtures, 'mock-chat-completions.mjs'), join(fixtures, 'chat-completions', fixture)],
+    { stdio: ['ignore', 'pipe', 'inherit'] },
+  )
+  servers.push(server)
+  const lines = createInterface({ input: server.stdout! })
+  for await (const line of lines) {
+    const { port } = JSON.parse(line) as { port: number }
+    lines.close()
+    return `http://127.0.0.1:${port}`
+  }
+  throw new Error('Mock chat endpoint exited before it was ready')
+}
+
+async function createFixture() {
+  const root = await mkdtemp(join(tmpdir(), 'sysml-workbench-ai-http-'))
+  temporaryDirectories.push(root)
+  const snapshot = semanticSnapshot()
+  const validated: unknown[] = []
+  const host: AiWorkspaceToolHost = {
+    async snapshot() {
+      return snapshot
+    },
+    async executeTool(name, input) {
+      switch (name) {
+        case 'search_elements':
+          return snapshot.elements.filter((element) =>
+            element.name.toLowerCase().includes(
+              String((input as { nameContains?: string }).nameContains ?? '').toLowerCase(),
+            ))
+        case 'validate_commands':
+          validated.push(input)
+          return {
+            proposals: [{
+              proposalId: 'proposal:ai-http',
+              validation: { state: 'validated' },
+              conflicts: [],
+              diagnosticsBefore: [],
+              diagnosticsAfter: [],
+              affectedElementIds: ['wb:fixture:controller'],
+            }],
+          }
+        default:
+          throw new Error(`Unexpected tool ${name}`)
+      }
+    },
+  }
+  return { host, validated, audit: new AiAuditRepository(root, 'fixture') }
+}
+
+function request(providerId: string, operationId = 'AI-HTTP-001'): AiAssistantRequest {
+  return {
+    schemaVersion: 1,
+    operationId,
+    workspaceId: 'fixture',
+    userRequest: 'Rename the controller to PrimaryController',
+    requestedBy: 'engineer',
+    providerId,
+    at: '2026-07-25T22:00:00.000Z',
+  }
+}
+
+function semanticSnapshot(): SemanticSnapshot {
+  return {
+    schemaVersion: 1,
+    snapshotSha256: 'a'.repeat(64),
+    workspace: { id: 'fixture', rootUri: 'file:///fixture', configurationName: 'default' },
+    authority: {
+      adapterId: 'test',
+      adapterVersion: '1.0.0',
+      engineName: 'test',
+      engineVersion: '1.0.0',
+      referenceRelease: 'test',
+      qualificationStatus: 'qualified',
+    },
+    freshness: 'current',
+    documents: [],
+    elements: [{
+      id: 'wb:fixture:controller',
+      kind: 'PartDefinition',
+      rawKind: 'PartDefinition',
+      name: 'Controller',
+      qualifiedName: 'System::Controller',
+      source: {
+        uri: 'file:///fixture/model.sysml',
+        workspacePath: 'model.sysml',
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 20 } },
+        documentSha256: 'b'.repeat(64),
+      },
+      fingerprint: 'c'.repeat(64),
+      provenance: {
+        authority: 'qualified-language-engine',
+        extraction: 'pilot-emf-semantic-evidence',
+        classification: 'engine-metaclass',
+        engineId: 'controller',
+      },
+    }],
+    relationships: [],
+  }
+}
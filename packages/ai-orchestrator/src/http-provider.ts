@@ -0,0 +1,242 @@
+import { fetchRemoteJson, remoteServiceUrl } from '../../remote-json/src/index.js'
+import {
+  AI_PROPOSAL_SCHEMA,
+  AiPolicyError,
+  type AiProvider,
+  type AiProviderContext,
+  type AiProviderProposal,
+  type AiToolExecutor,
+  type AiToolName,
+} from './index.js'
+
+export const DEFAULT_CHAT_PROVIDER_MAX_TURNS = 8
+export const MAX_CHAT_PROVIDER_TURNS = 50
+export const DEFAULT_CHAT_PROVIDER_TIMEOUT_MS = 60_000
+
+const SUBMIT_ANSWER_TOOL = 'submit_answer'
+const MAX_RESPONSE_BYTES = 4 * 1024 * 1024
+const MAX_TOOL_RESULT_LENGTH = 200_000
+// The orchestrator validates the final commands itself, and the apply tool
+// needs a user approval, so neither is offered to the model.
+const MODEL_TOOL_EXCLUSIONS = new Set<AiToolName>([
+  'validate_commands',
+  'apply_approved_commands',
+])
+
+export interface ChatCompletionsProviderOptions {
+  id: string
+  displayName: string
+  // Base URL of an OpenAI-compatible API, e.g. https://host/v1. Requests go to
+  // `${endpoint}/chat/completions`. Plain http is accepted only on loopback.
+  endpoint: string
+  model: string
+  apiKey?: string
+  maxTurns?: number
+  timeoutMs?: number
+  fetch?: typeof fetch
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string | null
+  tool_calls?: ChatToolCall[]
+  tool_call_id?: string
+}
+
+interface ChatToolCall {
+  id: string
+  type: 'function'
+  function: { name: string; arguments: string }
+}
+
+// Speaks the chat/tool-calling protocol of OpenAI-compatible endpoints. Each
+// tool call the model makes goes through the orchestrator's audited executor,
+// so it is bounded and recorded like any provider's; the model finishes by
+// calling submit_answer with an AiProviderProposal.
+export class ChatCompletionsAiProvider implements AiProvider {
+  readonly id: string
+  readonly displayName: string
+  readonly model: string
+  // Always true: the endpoint may be remote, so the network policy decides.
+  readonly networkAccess = true
+  private readonly endpoint: URL
+  private readonly maxTurns: number
+
+  constructor(private readonly options: ChatCompletionsProviderOptions) {
+    this.id = options.id
+    this.displayName = options.displayName
+    this.model = options.model
+    this.endpoint = chatCompletionsUrl(options.endpoint)
+    this.maxTurns = options.maxTurns ?? DEFAULT_CHAT_PROVIDER_MAX_TURNS
+    if (
+      !Number.isInteger(this.maxTurns) ||
+      this.maxTurns < 1 ||
+      this.maxTurns > MAX_CHAT_PROVIDER_TURNS
+    ) {
+      throw new AiPolicyError(
+        `AI provider maxTurns must be an integer from 1 to ${MAX_CHAT_PROVIDER_TURNS}`,
+      )
+    }
+  }
+
+  async propose(
+    context: AiProviderContext,
+    tools: AiToolExecutor,
+  ): Promise<AiProviderProposal> {
+    const modelTools = [
+      ...context.toolDefinitions
+        .filter((tool) => !tool.mutating && !MODEL_TOOL_EXCLUSIONS.has(tool.name))
+        .map((tool) => functionTool(tool.name, tool.description, tool.inputSchema)),
+      functionTool(
+        SUBMIT_ANSWER_TOOL,
+        'Finish with the answer, every model identity it relies on, assumptions, and at most one typed command.',
+        AI_PROPOSAL_SCHEMA,
+      ),
+    ]
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt(context) },
+      { role: 'user', content: context.userRequest },
+    ]
+    for (let turn = 0; turn < this.maxTurns; turn += 1) {
+      const reply = await this.complete(messages, modelTools)
+      messages.push(reply)
+      if (!reply.tool_calls?.length) {
+        throw new AiPolicyError(`AI provider answered without calling ${SUBMIT_ANSWER_TOOL}`)
+      }
+      for (const call of reply.tool_calls) {
+        const input = parseArguments(call)
+        if (call.function.name === SUBMIT_ANSWER_TOOL) {
+          return input as unknown as AiProviderProposal
+        }
+        if (!context.toolDefinitions.some((tool) => tool.name === call.function.name)) {
+          throw new AiPolicyError(`AI provider called an unknown tool: ${call.function.name}`)
+        }
+        messages.push({
+          role: 'tool',
+          tool_call_id: call.id,
+          content: await toolContent(tools, call.function.name as AiToolName, input),
+        })
+      }
+    }
+    throw new AiPolicyError(
+      `AI provider did not submit an answer within ${this.maxTurns} turns`,
+    )
+  }
+
+  private async complete(
+    messages: ChatMessage[],
+    tools: unknown[],
+  ): Promise<ChatMessage> {
+    const { body } = await fetchRemoteJson(this.endpoint, {
+      init: {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(this.options.apiKey ? { authorization: `Bearer ${this.options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages,
+          tools,
+          tool_choice: 'auto',
+        }),
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_CHAT_PROVIDER_TIMEOUT_MS),
+      },
+      maxBytes: MAX_RESPONSE_BYTES,
+      error: (problem, status) =>
+        problem === 'status'
+          ? new Error(`AI provider endpoint returned HTTP ${status}`)
+          : new AiPolicyError(problem === 'too-large'
+            ? 'AI provider response exceeds the size limit'
+            : problem === 'redirect'
+              ? 'AI provider endpoint redirected to another origin'
+              : 'AI provider returned a response that is not JSON'),
+      ...(this.options.fetch ? { fetch: this.options.fetch } : {}),
+    })
+    const message = isRecord(body) && Array.isArray(body.choices) && isRecord(body.choices[0])
+      ? body.choices[0].message
+      : undefined
+    if (!isRecord(message) || message.role !== 'assistant') {
+      throw new AiPolicyError('AI provider returned no assistant message')
+    }
+    const toolCalls = message.tool_calls
+    if (
+      toolCalls !== undefined &&
+      toolCalls !== null &&
+      (!Array.isArray(toolCalls) || !toolCalls.every(isToolCall))
+    ) {
+      throw new AiPolicyError('AI provider returned malformed tool calls')
+    }
+    return {
+      role: 'assistant',
+      content: typeof message.content === 'string' ? message.content : null,
+      ...(Array.isArray(toolCalls) && toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+    }
+  }
+}
+
+// Tool failures other than policy rejections go back to the model so it can
+// correct its next call; policy rejections end the operation.
+async function toolContent(
+  tools: AiToolExecutor,
+  name: AiToolName,
+  input: Record<string, unknown>,
+): Promise<string> {
+  let content: string
+  try {
+    content = JSON.stringify(await tools.call(name, input))
+  } catch (error) {
+    if (error instanceof AiPolicyError) throw error
+    return JSON.stringify({ error: error instanceof Error ? error.message : String(error) })
+  }
+  return content.length > MAX_TOOL_RESULT_LENGTH
+    ? JSON.stringify({ error: 'Tool result is too large; narrow the request or lower maxResults.' })
+    : content
+}
+
+function systemPrompt(context: AiProviderContext): string {
+  return [
+    'You answer questions about one SysML v2 workspace using only the provided tools.',
+    'You cannot read files. Cite the stable identity of every model element your answer relies on.',
+    `Workspace ${context.workspaceId}, semantic snapshot ${context.snapshotSha256}` +
+      (context.baselineId ? `, baseline ${context.baselineId}.` : '.'),
+    'Model changes are typed commands that a user reviews and approves later; propose at most one.',
+    `Always finish by calling ${SUBMIT_ANSWER_TOOL}.`,
+  ].join('\n')
+}
+
+function functionTool(name: string, description: string, parameters: unknown) {
+  return { type: 'function', function: { name, description, parameters } }
+}
+
+function parseArguments(call: ChatToolCall): Record<string, unknown> {
+  let input: unknown
+  try {
+    input = JSON.parse(call.function.arguments || '{}')
+  } catch {
+    throw new AiPolicyError(`AI provider sent invalid arguments for ${call.function.name}`)
+  }
+  if (!isRecord(input)) {
+    throw new AiPolicyError(`AI provider sent invalid arguments for ${call.function.name}`)
+  }
+  return input
+}
+
+function chatCompletionsUrl(endpoint: string): URL {
+  const url = remoteServiceUrl(endpoint, 'AI provider endpoint', (message) => new AiPolicyError(message))
+  url.pathname = `${url.pathname.replace(/\/+$/, '')}/chat/completions`
+  return url
+}
+
+function isToolCall(value: unknown): value is ChatToolCall {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    value.type === 'function' &&
+    isRecord(value.function) &&
+    typeof value.function.name === 'string' &&
+    typeof value.function.arguments === 'string'
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
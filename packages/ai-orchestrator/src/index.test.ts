@@ -7,10 +7,12 @@ import type {
   AppliedCommandReceipt,
   CommandProposal,
 } from '../../command-engine/src/index.js'
+import { executeModelQuery, type ModelQuery } from '../../query-engine/src/index.js'
 import type { SemanticSnapshot } from '../../semantic-model/src/index.js'
 import {
   AiAuditRepository,
   AiOrchestrator,
+  AiToolSession,
   LocalDeterministicAiProvider,
   type AiProvider,
   type AiProviderProposal,
@@ -155,6 +157,75 @@ describe('AiOrchestrator', () => {
     expect(fixture.applied).toHaveLength(0)
   })
 
+  it('holds an external agent session and its submitted answer to the provider policy', async () => {
+    const fixture = await createFixture()
+    const session = new AiToolSession(fixture.host)
+    await session.call('search_elements', { nameContains: 'controller' })
+    await expect(session.call('apply_approved_commands', {}))
+      .rejects.toThrow('separate explicit user approval')
+    const orchestrator = createOrchestrator(new LocalDeterministicAiProvider())
+
+    const submitted = await orchestrator.submit(
+      request(),
+      {
+        agent: { id: 'mcp:agent', displayName: 'Agent (MCP client)', model: '1.0' },
+        proposal: {
+          message: 'Rename the controller.',
+          citedElementIds: ['wb:fixture:controller'],
+          assumptions: [],
+          commands: [{ kind: 'rename-element', targetId: 'wb:fixture:controller', newName: 'Primary' }],
+        },
+        toolCalls: session.takeToolCalls(),
+      },
+      fixture.host,
+      fixture.audit,
+    )
+    expect(submitted).toMatchObject({
+      state: 'proposed',
+      provider: { id: 'mcp:agent', networkAccess: false },
+      approval: { required: true, approved: false },
+    })
+    expect(submitted.toolCalls.map((call) => [call.name, call.outcome])).toEqual([
+      ['search_elements', 'success'],
+      ['apply_approved_commands', 'rejected'],
+      ['validate_commands', 'success'],
+    ])
+    expect(session.takeToolCalls()).toEqual([])
+    expect(fixture.applied).toHaveLength(0)
+  })
+
+  it('keeps only the latest session calls instead of locking a reading client out', async () => {
+    const fixture = await createFixture()
+    const session = new AiToolSession(fixture.host, { recordedCalls: 3 })
+    for (let index = 0; index < 250; index += 1) {
+      await session.call('search_elements', { nameContains: `controller-${index}` })
+    }
+    expect(session.takeToolCalls().map((call) => call.sequence)).toEqual([248, 249, 250])
+
+    await session.call('search_elements', { nameContains: 'controller' })
+    const submitted = await createOrchestrator(new LocalDeterministicAiProvider()).submit(
+      request(),
+      {
+        agent: { id: 'mcp:agent', displayName: 'Agent (MCP client)', model: '1.0' },
+        proposal: {
+          message: 'Rename the controller.',
+          citedElementIds: ['wb:fixture:controller'],
+          assumptions: [],
+          commands: [{ kind: 'rename-element', targetId: 'wb:fixture:controller', newName: 'Primary' }],
+        },
+        toolCalls: session.takeToolCalls(),
+      },
+      fixture.host,
+      fixture.audit,
+    )
+    expect(submitted.toolCalls.map((call) => [call.sequence, call.name])).toEqual([
+      [1, 'search_elements'],
+      [2, 'validate_commands'],
+    ])
+    expect(() => new AiToolSession(fixture.host, { recordedCalls: 101 }))
+      .toThrow('AI tool session must record 1 to 100 calls')
+  })
+
   it('disables network providers even when registered', async () => {
     const fixture = await createFixture()
     const provider = {
@@ -201,6 +272,23 @@ describe('AiOrchestrator', () => {
       'wb:fixture:controller',
     ])
 
+    const query = await orchestrator.request(
+      {
+        ...request(),
+        operationId: 'AI-003',
+        userRequest: 'query PartDefinition where name ~ "contr*"',
+      },
+      fixture.host,
+      fixture.audit,
+    )
+    expect(query).toMatchObject({
+      answer: 'The query matched 1 grounded model element(s).',
+      toolCalls: [expect.objectContaining({ name: 'run_model_query' })],
+    })
+    expect(query.citations.map((element) => element.id)).toEqual([
+      'wb:fixture:controller',
+    ])
+
     const rename = await orchestrator.request(
       {
         ...request(),
@@ -317,6 +405,8 @@ async function createFixture() {
                 .toLowerCase(),
             ),
           )
+        case 'run_model_query':
+          return executeModelQuery(snapshot, (input as { query: ModelQuery }).query)
         case 'get_element':
           return snapshot.elements.find(
             (element) =>
@@ -44,81 +44,199 @@ export const AI_TOOL_NAMES = [
 
 export type AiToolName = (typeof AI_TOOL_NAMES)[number]
 
+const OPERATION_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/
+const MAX_USER_REQUEST_LENGTH = 20_000
+const MAX_MESSAGE_LENGTH = 40_000
+const MAX_ASSUMPTIONS = 100
+const MAX_CITATIONS = 500
+const MAX_TOOL_CALLS = 200
+// Leaves room for the validation the orchestrator adds to a submission.
+export const MAX_SESSION_TOOL_CALLS = 100
+const WORKSPACE_PROJECTION_INPUT: AiJsonSchema = {
+  type: 'object',
+  properties: {
+    depth: { type: 'integer', minimum: 0, maximum: 20 },
+    maxResults: { type: 'integer', minimum: 1, maximum: 5_000 },
+  },
+  additionalProperties: false,
+}
+const COMMANDS_INPUT: AiJsonSchema = {
+  type: 'array',
+  maxItems: 1,
+  items: {
+    type: 'object',
+    properties: { kind: { type: 'string' } },
+    required: ['kind'],
+  },
+  description: 'Typed workbench commands, such as {"kind":"rename-element","targetId":"wb:…","newName":"Name"}.',
+}
+
+// The shape of AiProviderProposal, for agents that submit their answer as a
+// tool call rather than through AiProvider.propose.
+export const AI_PROPOSAL_SCHEMA: AiJsonSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string', maxLength: MAX_MESSAGE_LENGTH },
+    citedElementIds: { type: 'array', items: { type: 'string' }, maxItems: MAX_CITATIONS },
+    assumptions: {
+      type: 'array',
+      items: { type: 'string', maxLength: 2_000 },
+      maxItems: MAX_ASSUMPTIONS,
+    },
+    commands: COMMANDS_INPUT,
+  },
+  required: ['message', 'citedElementIds', 'commands'],
+  additionalProperties: false,
+}
+
+// Input schemas repeat the bounds the tool host enforces, so a model learns
+// them up front instead of from a rejected call.
 export const AI_TOOL_DEFINITIONS: readonly AiToolDefinition[] = [
   {
     name: 'search_elements',
     description: 'Search bounded semantic element metadata by name and kind.',
     mutating: false,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        nameContains: { type: 'string' },
+        includeKinds: { type: 'array', items: { type: 'string' }, maxItems: 100 },
+        maxResults: { type: 'integer', minimum: 1, maximum: 500 },
+      },
+      additionalProperties: false,
+    },
   },
   {
     name: 'get_element',
     description: 'Read one semantic element by stable model identity.',
     mutating: false,
+    inputSchema: {
+      type: 'object',
+      properties: { elementId: { type: 'string' } },
+      required: ['elementId'],
+      additionalProperties: false,
+    },
   },
   {
     name: 'get_relationships',
     description: 'Read bounded normalized relationships for one element.',
     mutating: false,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        elementId: { type: 'string' },
+        direction: { enum: ['inbound', 'outbound', 'both'] },
+      },
+      required: ['elementId'],
+      additionalProperties: false,
+    },
   },
   {
     name: 'get_requirements',
     description: 'Read the bounded requirements projection.',
     mutating: false,
+    inputSchema: WORKSPACE_PROJECTION_INPUT,
   },
   {
     name: 'get_verification',
     description: 'Read the bounded verification projection.',
     mutating: false,
+    inputSchema: WORKSPACE_PROJECTION_INPUT,
   },
   {
     name: 'get_interfaces',
     description: 'Read the bounded interface projection.',
     mutating: false,
+    inputSchema: WORKSPACE_PROJECTION_INPUT,
   },
   {
     name: 'get_diagnostics',
     description: 'Read deterministic language diagnostics.',
     mutating: false,
+    inputSchema: { type: 'object', properties: {}, additionalProperties: false },
   },
   {
     name: 'run_model_query',
-    description: 'Run one validated bounded model query.',
+    description: 'Run one validated bounded model query or query expression.',
     mutating: false,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'object',
+          properties: {
+            schemaVersion: { const: 1 },
+            expression: { type: 'string' },
+            maxResults: { type: 'integer', minimum: 1 },
+          },
+          required: ['schemaVersion'],
+        },
+      },
+      required: ['query'],
+      additionalProperties: false,
+    },
   },
   {
     name: 'compare_baselines',
     description: 'Compare one named baseline with the current semantic snapshot.',
     mutating: false,
+    inputSchema: {
+      type: 'object',
+      properties: { baselineId: { type: 'string' } },
+      required: ['baselineId'],
+      additionalProperties: false,
+    },
   },
   {
     name: 'propose_commands',
     description: 'Check typed commands against the AI command policy.',
     mutating: false,
+    inputSchema: {
+      type: 'object',
+      properties: { commands: COMMANDS_INPUT },
+      required: ['commands'],
+      additionalProperties: false,
+    },
   },
   {
     name: 'validate_commands',
     description: 'Generate source edits and authoritative validation without applying.',
     mutating: false,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        operationId: { type: 'string' },
+        requestedBy: { type: 'string' },
+        commands: COMMANDS_INPUT,
+      },
+      required: ['operationId', 'requestedBy', 'commands'],
+      additionalProperties: false,
+    },
   },
   {
     name: 'apply_approved_commands',
     description: 'Apply prior validated proposals only with a separate user approval.',
     mutating: true,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        operation: { type: 'object' },
+        approvals: { type: 'array', items: { type: 'object' } },
+      },
+      required: ['operation', 'approvals'],
+    },
   },
 ] as const
 
+export type AiJsonSchema = Record<string, unknown>
+
 const TOOL_NAME_SET = new Set<string>(AI_TOOL_NAMES)
-const OPERATION_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/
-const MAX_USER_REQUEST_LENGTH = 20_000
-const MAX_MESSAGE_LENGTH = 40_000
-const MAX_ASSUMPTIONS = 100
-const MAX_CITATIONS = 500
-const MAX_TOOL_CALLS = 200
 
 export interface AiToolDefinition {
   name: AiToolName
   description: string
   mutating: boolean
+  inputSchema: AiJsonSchema
 }
 
 export interface AiAssistantRequest {
@@ -275,6 +393,16 @@ export interface AiAuditStore {
   list(): Promise<AiOperationRecord[]>
 }
 
+export interface AiAgentSubmission {
+  agent: {
+    id: string
+    displayName: string
+    model: string
+  }
+  proposal: AiProviderProposal
+  toolCalls: readonly AiToolCallRecord[]
+}
+
 export interface AiOrchestratorOptions {
   providers: AiProvider[]
   defaultProviderId: string
@@ -333,14 +461,49 @@ export class AiOrchestrator {
     audit: AiAuditStore,
   ): Promise<AiOperationRecord> {
     validateRequest(request)
+    return this.run(
+      request,
+      () => this.requireProvider(request.providerId ?? this.options.defaultProviderId),
+      [],
+      host,
+      audit,
+    )
+  }
+
+  // External agents, such as MCP clients, call the tools themselves and submit
+  // only their final answer. It is held to the same citation, command and
+  // validation policy as a registered provider's proposal.
+  async submit(
+    request: AiAssistantRequest,
+    submission: AiAgentSubmission,
+    host: AiWorkspaceToolHost,
+    audit: AiAuditStore,
+  ): Promise<AiOperationRecord> {
+    validateRequest(request)
+    if (submission.toolCalls.length > MAX_TOOL_CALLS) {
+      throw new AiPolicyError('AI tool-call limit exceeded')
+    }
+    return this.run(
+      request,
+      () => new SubmittedProposalProvider(submission),
+      submission.toolCalls.map((record) => ({ ...record })),
+      host,
+      audit,
+    )
+  }
+
+  private async run(
+    request: AiAssistantRequest,
+    resolveProvider: () => AiProvider,
+    toolCalls: AiToolCallRecord[],
+    host: AiWorkspaceToolHost,
+    audit: AiAuditStore,
+  ): Promise<AiOperationRecord> {
     const snapshot = await host.snapshot()
     if (snapshot.workspace.id !== request.workspaceId) {
       throw new AiPolicyError('AI request workspace does not match the tool host')
     }
-    const provider = this.requireProvider(
-      request.providerId ?? this.options.defaultProviderId,
-    )
-    const toolCalls: AiToolCallRecord[] = []
+    const provider = resolveProvider()
     if (
       provider.networkAccess &&
       this.options.networkProvidersEnabled !== true
@@ -554,7 +717,7 @@ export class AiOrchestrator {
 export class LocalDeterministicAiProvider implements AiProvider {
   readonly id = 'local-deterministic'
   readonly displayName = 'Local deterministic assistant'
-  readonly model = 'bounded-rules-1.0.0'
+  readonly model = 'bounded-rules-1.1.0'
   readonly networkAccess = false
 
   async propose(
@@ -593,6 +756,28 @@ export class LocalDeterministicAiProvider implements AiProvider {
       }
     }
 
+    const expression = context.userRequest.match(/^query\s+(.+)$/is)
+    if (expression) {
+      const result = await tools.call<ModelQueryResult>('run_model_query', {
+        query: {
+          schemaVersion: 1,
+          expression: expression[1]!.trim(),
+          maxResults: 20,
+        },
+      })
+      return {
+        message:
+          result.elements.length > 0
+            ? `The query matched ${result.elements.length}${result.truncated ? '+' : ''} grounded model element(s).`
+            : 'The query matched no model elements.',
+        citedElementIds: result.elements.map((element) => element.id),
+        assumptions: [
+          'The request is treated as a model query expression.',
+        ],
+        commands: [],
+      }
+    }
+
     const queryText = context.userRequest.replace(/^find\s+/i, '').trim()
     const elements = await tools.call<SemanticElement[]>('search_elements', {
       nameContains: queryText,
@@ -612,6 +797,75 @@ export class LocalDeterministicAiProvider implements AiProvider {
   }
 }
 
+// Holds an agent's submitted answer so it passes through the same pipeline
+// as a provider. The workbench makes no network call on the agent's behalf.
+class SubmittedProposalProvider implements AiProvider {
+  readonly id: string
+  readonly displayName: string
+  readonly model: string
+  readonly networkAccess = false
+
+  constructor(private readonly submission: AiAgentSubmission) {
+    this.id = submission.agent.id
+    this.displayName = submission.agent.displayName
+    this.model = submission.agent.model
+  }
+
+  async propose(): Promise<AiProviderProposal> {
+    return structuredClone(this.submission.proposal)
+  }
+}
+
+// Lets an external agent drive the tools directly under the limits a provider
+// gets: bounded, hashed tool calls and no mutating tool.
+export interface AiToolSessionOptions {
+  // Calls kept for the next submitted operation, at most
+  // MAX_SESSION_TOOL_CALLS. Older calls roll off, so a client that only reads
+  // is never locked out; their sequence numbers show the gap.
+  recordedCalls?: number
+}
+
+export class AiToolSession implements AiToolExecutor {
+  private readonly records: AiToolCallRecord[] = []
+  private readonly executor: AiToolExecutor
+  private readonly recordedCalls: number
+  private calls = 0
+
+  constructor(host: AiWorkspaceToolHost, options: AiToolSessionOptions = {}) {
+    const recordedCalls = options.recordedCalls ?? MAX_SESSION_TOOL_CALLS
+    if (
+      !Number.isInteger(recordedCalls) ||
+      recordedCalls < 1 ||
+      recordedCalls > MAX_SESSION_TOOL_CALLS
+    ) {
+      throw new AiPolicyError(
+        `AI tool session must record 1 to ${MAX_SESSION_TOOL_CALLS} calls`,
+      )
+    }
+    this.recordedCalls = recordedCalls
+    this.executor = createAuditedToolExecutor(
+      host,
+      this.records,
+      false,
+      () => ++this.calls,
+    )
+  }
+
+  call<T = unknown>(name: AiToolName, input: unknown): Promise<T> {
+    if (this.records.length >= this.recordedCalls) {
+      this.records.splice(0, this.records.length - this.recordedCalls + 1)
+    }
+    return this.executor.call<T>(name, input)
+  }
+
+  // Hands the calls recorded since the last submission to the next submitted
+  // operation and starts counting again for the one after it.
+  takeToolCalls(): AiToolCallRecord[] {
+    this.calls = 0
+    return this.records.splice(0)
+  }
+}
+
 export class AiAuditRepository implements AiAuditStore {
   constructor(
     private readonly workspaceRoot: string,
@@ -730,6 +984,7 @@ function createAuditedToolExecutor(
   host: AiWorkspaceToolHost,
   records: AiToolCallRecord[],
   allowMutating: boolean,
+  nextSequence = () => (records.at(-1)?.sequence ?? 0) + 1,
 ): AiToolExecutor {
   return {
     async call<T>(name: AiToolName, input: unknown): Promise<T> {
@@ -741,7 +996,7 @@ function createAuditedToolExecutor(
       }
       const definition = AI_TOOL_DEFINITIONS.find((item) => item.name === name)!
       const record: AiToolCallRecord = {
-        sequence: records.length + 1,
+        sequence: nextSequence(),
         name,
         inputSha256: sha256(canonicalJson(input)),
         outcome: 'failed',
@@ -976,3 +1231,5 @@ function isWithin(root: string, candidate: string): boolean {
   const path = relative(root, candidate)
   return path === '' || (!path.startsWith(`..${sep}`) && path !== '..')
 }
+
+export * from './http-provider.js'
@@ -0,0 +1,86 @@
+import { readFileSync } from 'node:fs'
+import { createServer } from 'node:http'
+
+// Replays the assistant turns of a fixture file as an OpenAI-compatible
+// /v1/chat/completions endpoint on loopback and prints {"port":N} once ready.
+// A turn may state what the preceding request must contain; a mismatch is
+// answered with HTTP 400 so the test sees a failed operation.
+const fixture = JSON.parse(readFileSync(process.argv[2], 'utf8'))
+const requests = []
+let next = 0
+
+const server = createServer((request, response) => {
+  let body = ''
+  request.setEncoding('utf8')
+  request.on('data', (chunk) => {
+    body += chunk
+  })
+  request.on('end', () => {
+    if (request.method === 'GET' && request.url === '/requests') {
+      reply(response, 200, requests)
+      return
+    }
+    if (request.method !== 'POST' || request.url !== '/v1/chat/completions') {
+      reply(response, 404, { error: { message: 'Not found' } })
+      return
+    }
+    if (fixture.apiKey && request.headers.authorization !== `Bearer ${fixture.apiKey}`) {
+      reply(response, 401, { error: { message: 'Invalid API key' } })
+      return
+    }
+    const completion = JSON.parse(body)
+    requests.push(completion)
+    const turn = fixture.turns[next++]
+    if (!turn) {
+      reply(response, 500, { error: { message: 'Fixture has no more turns' } })
+      return
+    }
+    const mismatch = unmet(turn.expect ?? {}, completion)
+    if (mismatch) {
+      reply(response, 400, { error: { message: mismatch } })
+      return
+    }
+    if (turn.status) {
+      reply(response, turn.status, { error: { message: 'Scripted failure' } })
+      return
+    }
+    reply(response, 200, {
+      id: `chatcmpl-${next}`,
+      object: 'chat.completion',
+      model: completion.model,
+      choices: [{
+        index: 0,
+        message: turn.message,
+        finish_reason: turn.message.tool_calls ? 'tool_calls' : 'stop'
+      }]
+    })
+  })
+})
+
+function unmet(expect, completion) {
+  const offered = completion.tools.map((tool) => tool.function.name)
+  for (const name of expect.tools ?? []) {
+    if (!offered.includes(name)) return `Tool ${name} was not offered`
+  }
+  for (const name of expect.withheldTools ?? []) {
+    if (offered.includes(name)) return `Tool ${name} must not be offered`
+  }
+  if (expect.toolResult) {
+    const result = completion.messages.find((message) =>
+      message.role === 'tool' && message.tool_call_id === expect.toolResult.id)
+    if (!result) return `No result for tool call ${expect.toolResult.id}`
+    if (!result.content.includes(expect.toolResult.includes)) {
+      return `Result of ${expect.toolResult.id} lacks ${expect.toolResult.includes}`
+    }
+  }
+  return undefined
+}
+
+function reply(response, status, value) {
+  response.writeHead(status, { 'content-type': 'application/json' })
+  response.end(JSON.stringify(value))
+}
+
+server.listen(0, '127.0.0.1', () => {
+  process.stdout.write(`${JSON.stringify({ port: server.address().port })}\n`)
+})
@@ -215,3 +215,5 @@ async function assertNoSymlinkSegments(root: string, target: string): Promise<vo
   }
 }
 function isWithin(root: string, target: string): boolean { const path = relative(root, target); return path === '' || (!path.startsWith('..') && !path.startsWith('/') && !path.startsWith('\\')) }
+
+export * from './sysml-api-repository.js'
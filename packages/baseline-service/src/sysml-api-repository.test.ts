@@ -0,0 +1,170 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from 'vitest'
+import type { SemanticElement, SemanticSnapshot } from '../../semantic-model/src/index.js'
+import { SysmlApiStandIn } from '../test-fixtures/sysml-api-stand-in.js'
+import { ModelRepositoryClient, type BaselineManifest } from './index.js'
+
+const servers: SysmlApiStandIn[] = []
+afterEach(async () => Promise.all(servers.splice(0).map((server) => server.close())))
+
+describe('SysML v2 API model repository', () => {
+  it('publishes baselines as commits of changed elements and compares a remote commit', async () => {
+    const server = new SysmlApiStandIn({ token: 'repository-token' })
+    servers.push(server)
+    const url = await server.start()
+    const { projectId } = server.createProject('Pilot')
+    const client = new ModelRepositoryClient({ url, projectId, token: 'repository-token' })
+
+    const first = await client.publishBaseline(manifest('design-review', [
+      element('wb:pilot:system', 'Package', 'System'),
+      element('wb:pilot:engine', 'PartDefinition', 'Engine', 'wb:pilot:system'),
+      element('wb:pilot:pump', 'PartDefinition', 'Pump', 'wb:pilot:system'),
+    ]))
+    expect(first).toMatchObject({ '@type': 'Commit', description: 'Baseline design-review of pilot at abc123', previousCommit: [] })
+    const current = snapshot([
+      element('wb:pilot:system', 'Package', 'System'),
+      element('wb:pilot:engine', 'PartDefinition', 'Motor', 'wb:pilot:system'),
+      element('wb:pilot:valve', 'PartDefinition', 'Valve', 'wb:pilot:system'),
+    ])
+    const second = await client.publishBaseline({ ...manifest('release-1', []), snapshot: current })
+    expect(second.previousCommit).toEqual([{ '@id': first['@id'] }])
+    expect((await client.listCommits()).map((commit) => commit['@id'])).toEqual([first['@id'], second['@id']])
+    expect((await client.commitElements(second['@id'])).map((item) => item['@id']).sort()).toEqual([
+      'wb:pilot:engine',
+      'wb:pilot:system',
+      'wb:pilot:valve',
+    ])
+
+    const unchanged = await client.compareCommit(second['@id'], current)
+    expect(unchanged.semanticDiff.changes).toEqual([])
+    const comparison = await client.compareCommit(first['@id'], current)
+    expect(comparison).toMatchObject({
+      schemaVersion: 1,
+      remote: { projectId, commitId: first['@id'] },
+      current: { snapshotSha256: current.snapshotSha256 },
+    })
+    expect(comparison.semanticDiff.changes.map((change) => [change.kind, change.elementId])).toEqual([
+      ['element-renamed', 'wb:pilot:engine'],
+      ['element-deleted', 'wb:pilot:pump'],
+      ['element-created', 'wb:pilot:valve'],
+    ])
+  })
+
+  it('pages remote elements and refuses unsafe or unauthorized repositories', async () => {
+    const server = new SysmlApiStandIn({ token: 'repository-token' })
+    servers.push(server)
+    const url = await server.start()
+    const { projectId, branchId } = server.createProject('Large')
+    const client = new ModelRepositoryClient({ url, projectId, branchId, token: 'repository-token' })
+    const elements = Array.from({ length: 1_205 }, (_, index) =>
+      element(`wb:large:${String(index).padStart(4, '0')}`, 'PartDefinition', `Part${index}`))
+    const commit = await client.publishBaseline({ ...manifest('large', []), snapshot: snapshot(elements) })
+    await expect(client.commitElements(commit['@id'])).resolves.toHaveLength(1_205)
+    expect(server.requests.filter((request) => request.path.endsWith('/elements'))).toHaveLength(2)
+
+    await expect(new ModelRepositoryClient({ url, projectId }).listCommits())
+      .rejects.toThrow(`Model repository returned HTTP 401 for GET /projects/${projectId}/commits`)
+    await expect(new ModelRepositoryClient({ url, projectId: 'missing', token: 'repository-token' }).listCommits())
+      .rejects.toThrow('HTTP 404')
+    expect(() => new ModelRepositoryClient({ url: 'http://models.example.com/api', projectId }))
+      .toThrow('must use https unless it is on loopback')
+    expect(() => new ModelRepositoryClient({ url, projectId: '../admin' }))
+      .toThrow('Model repository projectId is invalid: ../admin')
+  })
+
+  it('stops following element pages that loop or never end', async () => {
+    const pages = (link: (page: number) => string) => {
+      let page = 0
+      return async () => {
+        page += 1
+        return new Response('[]', { headers: { link: `<${link(page)}>; rel="next"` } })
+      }
+    }
+    const options = { url: 'https://models.example.com/api', projectId: 'pilot' }
+    const looping = new ModelRepositoryClient({
+      ...options,
+      fetch: pages((page) => `elements?page=${page % 2}`),
+    })
+    await expect(looping.commitElements('head'))
+      .rejects.toThrow('Model repository element pages link back to an earlier page')
+    const endless = new ModelRepositoryClient({
+      ...options,
+      fetch: pages((page) => `elements?page=${page}`),
+    })
+    await expect(endless.commitElements('head'))
+      .rejects.toThrow('Remote commit exceeds 10000 element pages')
+  })
+
+  it('refuses elements with non-text names and redirects out of the repository', async () => {
+    const options = { url: 'https://models.example.com/api', projectId: 'pilot', token: 'repository-token' }
+    const named = (name: unknown) => new ModelRepositoryClient({
+      ...options,
+      fetch: async () => Response.json([{ '@id': 'a', '@type': 'PartDefinition', elementId: 'a', name }]),
+    })
+    await expect(named(null).commitElements('head')).resolves.toHaveLength(1)
+    await expect(named({ toString: 'x' }).commitElements('head'))
+      .rejects.toThrow('Model repository returned malformed elements')
+
+    const requested: string[] = []
+    const redirected = new ModelRepositoryClient({
+      ...options,
+      fetch: async (target) => {
+        requested.push(String(target))
+        return new Response(null, { status: 307, headers: { location: 'https://models.example.com/other/elements' } })
+      },
+    })
+    await expect(redirected.commitElements('head'))
+      .rejects.toThrow('Model repository redirected outside the configured repository')
+    expect(requested).toHaveLength(1)
+  })
+})
+
+function manifest(id: string, elements: SemanticElement[]): BaselineManifest {
+  const captured = snapshot(elements)
+  return {
+    schemaVersion: 1,
+    id,
+    workspaceId: 'pilot',
+    commit: 'abc123',
+    branch: 'main',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    createdBy: 'configuration-manager',
+    workbenchVersion: '0.5.0',
+    rulePackVersion: '1.0.0',
+    languageAuthority: captured.authority,
+    snapshot: captured,
+    diagnostics: [],
+  }
+}
+
+function snapshot(elements: SemanticElement[]): SemanticSnapshot {
+  return {
+    schemaVersion: 1,
+    snapshotSha256: `sha-${elements.map((item) => item.name).join('-')}`,
+    workspace: { id: 'pilot', rootUri: 'file:///pilot', configurationName: 'default' },
+    authority: { adapterId: 'qualified', adapterVersion: '1', engineName: 'engine', engineVersion: '1', referenceRelease: '2026-05', qualificationStatus: 'qualified' },
+    freshness: 'current',
+    documents: [],
+    elements,
+    relationships: [],
+  }
+}
+
+function element(
+  id: string,
+  kind: SemanticElement['kind'],
+  name: string,
+  ownerId?: string,
+): SemanticElement {
+  return {
+    id,
+    kind,
+    rawKind: kind,
+    name,
+    qualifiedName: ownerId ? `System::${name}` : name,
+    ...(ownerId ? { ownerId } : {}),
+    source: { uri: 'file:///pilot/model.sysml', workspacePath: 'model.sysml', range: { start: { line: 0, character: 0 }, end: { line: 0, character: 4 } }, documentSha256: 'doc' },
+    fingerprint: `fingerprint-${name}`,
+    provenance: { authority: 'qualified-language-engine', extraction: 'pilot-emf-semantic-evidence', classification: 'engine-metaclass', engineId: id },
+  }
+}
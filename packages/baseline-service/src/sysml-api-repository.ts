@@ -0,0 +1,379 @@
+import { createHash } from 'node:crypto'
+import {
+  NORMALIZED_ELEMENT_KINDS,
+  type NormalizedElementKind,
+  type SemanticSnapshot,
+} from '../../semantic-model/src/index.js'
+import {
+  exportSysmlApiElements,
+  sysmlApiRelationshipKind,
+  type SysmlApiElement,
+  type SysmlApiReference,
+} from '../../model-exchange/src/index.js'
+import { compareSemanticSnapshots, type SemanticDiff } from '../../semantic-diff/src/index.js'
+import { fetchRemoteJson, remoteServiceUrl } from '../../remote-json/src/index.js'
+import type { BaselineManifest } from './index.js'
+
+export const DEFAULT_MODEL_REPOSITORY_TIMEOUT_MS = 60_000
+
+const ELEMENT_PAGE_SIZE = 1_000
+const MAX_REMOTE_ELEMENTS = 1_100_000
+// Servers may page below the requested size; this still bounds a server that
+// returns empty or tiny pages forever.
+const MAX_REMOTE_PAGES = 10_000
+const MAX_RESPONSE_BYTES = 64 * 1024 * 1024
+const SEGMENT_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._:-]{0,127}$/
+// The element properties the workbench writes; servers may add others.
+const PUBLISHED_FIELDS = [
+  '@id',
+  '@type',
+  'elementId',
+  'declaredName',
+  'name',
+  'qualifiedName',
+  'owner',
+  'direction',
+  'isConjugated',
+  'source',
+  'target',
+] as const
+const NAME_FIELDS = ['declaredName', 'name', 'qualifiedName'] as const
+
+export interface ModelRepositoryOptions {
+  // Base URL of a SysML v2 API/Services implementation; paths such as
+  // `/projects/{projectId}/commits` are resolved against it.
+  url: string
+  projectId: string
+  // The project's default branch when omitted.
+  branchId?: string
+  token?: string
+  timeoutMs?: number
+  fetch?: typeof fetch
+}
+
+export interface SysmlApiCommit {
+  '@id': string
+  '@type': 'Commit'
+  created?: string
+  description?: string
+  owningProject?: SysmlApiReference
+  previousCommit?: SysmlApiReference[]
+}
+
+export interface SysmlApiBranch {
+  '@id': string
+  '@type': 'Branch'
+  name?: string
+  head?: SysmlApiReference | null
+}
+
+export interface RemoteBaselineComparison {
+  schemaVersion: 1
+  remote: { projectId: string; commitId: string; snapshotSha256: string }
+  current: { snapshotSha256: string }
+  // Both sides are compared as the API model represents them, so changes the
+  // API cannot carry (source layout, declaration bodies) do not appear.
+  semanticDiff: SemanticDiff
+}
+
+interface DataVersion {
+  '@type': 'DataVersion'
+  identity: SysmlApiReference
+  payload: SysmlApiElement | null
+}
+
+export class ModelRepositoryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ModelRepositoryError'
+  }
+}
+
+// Publishes baselines to and reads commits from a SysML v2 API repository.
+// A baseline becomes one commit on the branch whose changes are the element
+// versions that differ from the branch head, so unchanged elements keep their
+// history on the server.
+export class ModelRepositoryClient {
+  private readonly base: URL
+
+  constructor(private readonly options: ModelRepositoryOptions) {
+    this.base = repositoryUrl(options.url)
+    requireSegment(options.projectId, 'projectId')
+    if (options.branchId !== undefined) requireSegment(options.branchId, 'branchId')
+  }
+
+  async listCommits(): Promise<SysmlApiCommit[]> {
+    const commits = await this.request('GET', this.projectPath('commits'))
+    if (!Array.isArray(commits) || !commits.every(isCommit)) {
+      throw new ModelRepositoryError('Model repository returned malformed commits')
+    }
+    return commits
+  }
+
+  async publishBaseline(manifest: BaselineManifest): Promise<SysmlApiCommit> {
+    const branch = await this.branch()
+    const headId = branch.head?.['@id']
+    const previous = new Map(
+      (headId ? await this.commitElements(headId) : []).map((element) => [element['@id'], element]),
+    )
+    const change: DataVersion[] = []
+    for (const element of exportSysmlApiElements(manifest.snapshot)) {
+      const prior = previous.get(element['@id'])
+      previous.delete(element['@id'])
+      if (prior && canonicalJson(publishedFields(prior)) === canonicalJson(element)) continue
+      change.push({ '@type': 'DataVersion', identity: { '@id': element['@id'] }, payload: element })
+    }
+    for (const id of [...previous.keys()].sort()) {
+      change.push({ '@type': 'DataVersion', identity: { '@id': id }, payload: null })
+    }
+    const commit = await this.request(
+      'POST',
+      `${this.projectPath('commits')}?branchId=${encodeURIComponent(branch['@id'])}`,
+      {
+        '@type': 'Commit',
+        description: `Baseline ${manifest.id} of ${manifest.workspaceId} at ${manifest.commit}`,
+        change,
+        ...(headId ? { previousCommit: { '@id': headId } } : {}),
+      },
+    )
+    if (!isCommit(commit)) {
+      throw new ModelRepositoryError('Model repository returned a malformed commit')
+    }
+    return commit
+  }
+
+  async commitElements(commitId: string): Promise<SysmlApiElement[]> {
+    requireSegment(commitId, 'commitId')
+    const elements: SysmlApiElement[] = []
+    const visited = new Set<string>()
+    let path: string | undefined =
+      `${this.projectPath('commits', commitId, 'elements')}?page%5Bsize%5D=${ELEMENT_PAGE_SIZE}`
+    while (path) {
+      const page = new URL(path, this.base).href
+      if (visited.has(page)) {
+        throw new ModelRepositoryError('Model repository element pages link back to an earlier page')
+      }
+      if (visited.size === MAX_REMOTE_PAGES) {
+        throw new ModelRepositoryError(`Remote commit exceeds ${MAX_REMOTE_PAGES} element pages`)
+      }
+      visited.add(page)
+      const { body, next }: { body: unknown; next?: string } = await this.requestPage(path)
+      if (!Array.isArray(body) || !body.every(isElement)) {
+        throw new ModelRepositoryError('Model repository returned malformed elements')
+      }
+      elements.push(...body)
+      if (elements.length > MAX_REMOTE_ELEMENTS) {
+        throw new ModelRepositoryError(`Remote commit exceeds ${MAX_REMOTE_ELEMENTS} elements`)
+      }
+      path = next
+    }
+    return elements
+  }
+
+  async compareCommit(
+    commitId: string,
+    snapshot: SemanticSnapshot,
+  ): Promise<RemoteBaselineComparison> {
+    const remote = apiModelSnapshot(await this.commitElements(commitId), snapshot)
+    const current = apiModelSnapshot(exportSysmlApiElements(snapshot), snapshot)
+    return {
+      schemaVersion: 1,
+      remote: { projectId: this.options.projectId, commitId, snapshotSha256: remote.snapshotSha256 },
+      current: { snapshotSha256: snapshot.snapshotSha256 },
+      semanticDiff: compareSemanticSnapshots(remote, current),
+    }
+  }
+
+  private async branch(): Promise<SysmlApiBranch> {
+    let branchId = this.options.branchId
+    if (!branchId) {
+      const project = await this.request('GET', this.projectPath())
+      const defaultBranch = isRecord(project) ? reference(project.defaultBranch) : undefined
+      if (!defaultBranch) {
+        throw new ModelRepositoryError('Model repository project has no default branch')
+      }
+      requireSegment(defaultBranch, 'defaultBranch')
+      branchId = defaultBranch
+    }
+    const branch = await this.request('GET', this.projectPath('branches', branchId))
+    if (
+      !isRecord(branch) ||
+      branch['@id'] !== branchId ||
+      (branch.head !== undefined && branch.head !== null && !reference(branch.head))
+    ) {
+      throw new ModelRepositoryError('Model repository returned a malformed branch')
+    }
+    return branch as unknown as SysmlApiBranch
+  }
+
+  private projectPath(...segments: string[]): string {
+    return ['projects', this.options.projectId, ...segments]
+      .map((segment) => encodeURIComponent(segment))
+      .join('/')
+  }
+
+  private async request(method: 'GET' | 'POST', path: string, body?: unknown): Promise<unknown> {
+    return (await this.requestPage(path, method, body)).body
+  }
+
+  private async requestPage(
+    path: string,
+    method: 'GET' | 'POST' = 'GET',
+    body?: unknown,
+  ): Promise<{ body: unknown; next?: string }> {
+    const url = new URL(path, this.base)
+    if (!this.contains(url)) {
+      throw new ModelRepositoryError('Model repository link leaves the configured repository')
+    }
+    const response = await fetchRemoteJson(url, {
+      init: {
+        method,
+        headers: {
+          accept: 'application/json',
+          ...(body === undefined ? {} : { 'content-type': 'application/json' }),
+          ...(this.options.token ? { authorization: `Bearer ${this.options.token}` } : {}),
+        },
+        ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_MODEL_REPOSITORY_TIMEOUT_MS),
+      },
+      maxBytes: MAX_RESPONSE_BYTES,
+      error: (problem, status) => new ModelRepositoryError(
+        problem === 'status'
+          ? `Model repository returned HTTP ${status} for ${method} /${url.pathname.slice(this.base.pathname.length)}`
+          : problem === 'too-large'
+            ? 'Model repository response exceeds the size limit'
+            : problem === 'redirect'
+              ? 'Model repository redirected outside the configured repository'
+              : 'Model repository returned a response that is not JSON',
+      ),
+      allowRedirect: (target) => this.contains(target),
+      ...(this.options.fetch ? { fetch: this.options.fetch } : {}),
+    })
+    const next = nextLink(response.headers.get('link'))
+    return { body: response.body, ...(next ? { next: new URL(next, url).href } : {}) }
+  }
+
+  private contains(url: URL): boolean {
+    return url.origin === this.base.origin && url.pathname.startsWith(this.base.pathname)
+  }
+}
+
+// Rebuilds the part of a semantic snapshot the API model carries, so a
+// remote commit and the current workspace compare on equal terms.
+function apiModelSnapshot(
+  elements: SysmlApiElement[],
+  workspace: SemanticSnapshot,
+): SemanticSnapshot {
+  const source = {
+    uri: workspace.workspace.rootUri,
+    workspacePath: '',
+    range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+    documentSha256: '',
+  }
+  const sorted = [...elements].sort((left, right) => left['@id'].localeCompare(right['@id']))
+  const snapshot: SemanticSnapshot = {
+    ...workspace,
+    snapshotSha256: createHash('sha256').update(canonicalJson(sorted)).digest('hex'),
+    documents: [],
+    elements: [],
+    relationships: [],
+  }
+  for (const element of sorted) {
+    const sourceId = reference(element.source?.[0])
+    const targetId = reference(element.target?.[0])
+    if (element.source !== undefined || element.target !== undefined) {
+      const kind = sysmlApiRelationshipKind(element['@type'])
+      if (!kind || !sourceId || !targetId) continue
+      snapshot.relationships.push({
+        id: element['@id'],
+        kind,
+        sourceId,
+        targetId,
+        provenance: {
+          authority: 'qualified-language-engine',
+          extraction: 'pilot-emf-explicit-reference',
+          engineMetaclass: element['@type'],
+          features: [],
+        },
+      })
+      continue
+    }
+    const normalized = NORMALIZED_ELEMENT_KINDS.includes(element['@type'] as NormalizedElementKind)
+    const name = element.declaredName ?? element.name ?? ''
+    const ownerId = reference(element.owner)
+    snapshot.elements.push({
+      id: element['@id'],
+      kind: normalized ? element['@type'] as NormalizedElementKind : 'OpaqueElement',
+      rawKind: element['@type'],
+      name,
+      qualifiedName: element.qualifiedName ?? name,
+      ...(ownerId ? { ownerId } : {}),
+      source,
+      fingerprint: canonicalJson([element['@type'], element.direction ?? null, element.isConjugated === true]),
+      provenance: {
+        authority: 'qualified-language-engine',
+        extraction: 'pilot-emf-semantic-evidence',
+        classification: normalized ? 'engine-metaclass' : 'opaque',
+        engineId: element['@id'],
+      },
+    })
+  }
+  return snapshot
+}
+
+function publishedFields(element: SysmlApiElement): Partial<SysmlApiElement> {
+  return Object.fromEntries(
+    PUBLISHED_FIELDS.filter((field) => element[field] !== undefined)
+      .map((field) => [field, element[field]]),
+  )
+}
+
+function repositoryUrl(value: string): URL {
+  const url = remoteServiceUrl(value, 'Model repository url', (message) => new ModelRepositoryError(message))
+  url.search = ''
+  url.hash = ''
+  url.pathname = `${url.pathname.replace(/\/+$/, '')}/`
+  return url
+}
+
+function nextLink(header: string | null): string | undefined {
+  for (const part of header?.split(',') ?? []) {
+    const match = /^\s*<([^>]+)>\s*;(.*)$/.exec(part)
+    if (match && /\brel="?next"?/.test(match[2]!)) return match[1]
+  }
+  return undefined
+}
+
+function requireSegment(value: string, field: string): void {
+  if (!SEGMENT_PATTERN.test(value)) {
+    throw new ModelRepositoryError(`Model repository ${field} is invalid: ${value}`)
+  }
+}
+
+function isCommit(value: unknown): value is SysmlApiCommit {
+  return isRecord(value) && typeof value['@id'] === 'string' && value['@type'] === 'Commit'
+}
+
+// Names become snapshot text, so a server sending other values for them is
+// refused rather than trusted; null stands for an absent name.
+function isElement(value: unknown): value is SysmlApiElement {
+  return isRecord(value) &&
+    typeof value['@id'] === 'string' &&
+    typeof value['@type'] === 'string' &&
+    NAME_FIELDS.every((field) => value[field] === undefined || value[field] === null || typeof value[field] === 'string')
+}
+
+function reference(value: unknown): string | undefined {
+  return isRecord(value) && typeof value['@id'] === 'string' ? value['@id'] : undefined
+}
+
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) =>
+    isRecord(item)
+      ? Object.fromEntries(Object.entries(item).sort(([left], [right]) => left.localeCompare(right)))
+      : item)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
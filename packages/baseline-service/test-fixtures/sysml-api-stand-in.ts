@@ -0,0 +1,151 @@
+import { randomUUID } from 'node:crypto'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+// An in-memory SysML v2 API/Services repository with the project, branch,
+// commit and element endpoints the model repository client uses. Commits are
+// deltas of DataVersions applied on top of the previous commit.
+
+interface Reference {
+  '@id': string
+}
+
+interface StandInProject {
+  project: Record<string, unknown> & { '@id': string }
+  branches: Map<string, { '@id': string; '@type': 'Branch'; name: string; head: Reference | null }>
+  commits: Map<string, { commit: Record<string, unknown>; elements: Map<string, Record<string, unknown>> }>
+  order: string[]
+}
+
+export class SysmlApiStandIn {
+  readonly requests: Array<{ method: string; path: string }> = []
+  private readonly projects = new Map<string, StandInProject>()
+  private server?: Server
+
+  constructor(private readonly options: { token?: string } = {}) {}
+
+  createProject(name: string): { projectId: string; branchId: string } {
+    const projectId = randomUUID()
+    const branchId = randomUUID()
+    this.projects.set(projectId, {
+      project: {
+        '@id': projectId,
+        '@type': 'Project',
+        name,
+        defaultBranch: { '@id': branchId },
+      },
+      branches: new Map([[branchId, { '@id': branchId, '@type': 'Branch', name: 'main', head: null }]]),
+      commits: new Map(),
+      order: [],
+    })
+    return { projectId, branchId }
+  }
+
+  async start(): Promise<string> {
+    this.server = createServer((request, response) => {
+      void this.handle(request, response).catch((error: unknown) => {
+        send(response, 500, { error: error instanceof Error ? error.message : String(error) })
+      })
+    })
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve))
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/api`
+  }
+
+  async close(): Promise<void> {
+    if (!this.server) return
+    this.server.closeAllConnections()
+    await new Promise<void>((resolve, reject) =>
+      this.server!.close((error) => (error ? reject(error) : resolve())))
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://stand-in')
+    const method = request.method ?? 'GET'
+    this.requests.push({ method, path: url.pathname })
+    if (this.options.token && request.headers.authorization !== `Bearer ${this.options.token}`) {
+      return send(response, 401, { error: 'Unauthorized' })
+    }
+    const segments = url.pathname.split('/').slice(1).map(decodeURIComponent)
+    if (segments[0] !== 'api' || segments[1] !== 'projects') return send(response, 404, {})
+    if (segments.length === 2 && method === 'GET') {
+      return send(response, 200, [...this.projects.values()].map((project) => project.project))
+    }
+    const project = this.projects.get(segments[2] ?? '')
+    if (!project) return send(response, 404, { error: 'Unknown project' })
+    const [, , , collection, id, child] = segments
+    if (!collection && method === 'GET') return send(response, 200, project.project)
+    if (collection === 'branches' && method === 'GET') {
+      if (!id) return send(response, 200, [...project.branches.values()])
+      const branch = project.branches.get(id)
+      return branch ? send(response, 200, branch) : send(response, 404, { error: 'Unknown branch' })
+    }
+    if (collection !== 'commits') return send(response, 404, {})
+    if (!id && method === 'GET') {
+      return send(response, 200, project.order.map((commitId) => project.commits.get(commitId)!.commit))
+    }
+    if (!id && method === 'POST') {
+      return this.commit(project, url.searchParams.get('branchId'), await readJson(request), response)
+    }
+    const commit = project.commits.get(id ?? '')
+    if (!commit || method !== 'GET') return send(response, 404, { error: 'Unknown commit' })
+    if (!child) return send(response, 200, commit.commit)
+    if (child !== 'elements') return send(response, 404, {})
+    const elements = [...commit.elements.values()]
+    const size = Number(url.searchParams.get('page[size]') ?? elements.length)
+    const after = url.searchParams.get('page[after]')
+    const start = after ? elements.findIndex((element) => element['@id'] === after) + 1 : 0
+    const page = elements.slice(start, start + size)
+    if (start + size < elements.length) {
+      const next = new URL(url)
+      next.searchParams.set('page[after]', String(page.at(-1)!['@id']))
+      response.setHeader('link', `<${next.pathname}${next.search}>; rel="next"`)
+    }
+    return send(response, 200, page)
+  }
+
+  private commit(
+    project: StandInProject,
+    branchId: string | null,
+    body: unknown,
+    response: ServerResponse,
+  ): void {
+    const branch = project.branches.get(branchId ?? '')
+    if (!branch) return send(response, 400, { error: 'Unknown branch' })
+    const input = body as { change?: Array<{ identity?: Reference; payload?: Record<string, unknown> | null }>; previousCommit?: Reference; description?: string }
+    if (!Array.isArray(input.change)) return send(response, 400, { error: 'Commit change is required' })
+    if ((input.previousCommit?.['@id'] ?? null) !== (branch.head?.['@id'] ?? null)) {
+      return send(response, 409, { error: 'previousCommit is not the branch head' })
+    }
+    const elements = new Map(branch.head ? project.commits.get(branch.head['@id'])!.elements : [])
+    for (const version of input.change) {
+      const id = version.identity?.['@id']
+      if (!id) return send(response, 400, { error: 'DataVersion identity is required' })
+      if (version.payload) elements.set(id, version.payload)
+      else elements.delete(id)
+    }
+    const commitId = randomUUID()
+    const commit = {
+      '@id': commitId,
+      '@type': 'Commit',
+      created: new Date().toISOString(),
+      description: input.description ?? '',
+      owningProject: { '@id': project.project['@id'] },
+      previousCommit: branch.head ? [branch.head] : [],
+    }
+    project.commits.set(commitId, { commit, elements })
+    project.order.push(commitId)
+    branch.head = { '@id': commitId }
+    send(response, 201, commit)
+  }
+}
+
+async function readJson(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  for await (const chunk of request) chunks.push(chunk as Buffer)
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'))
+}
+
+function send(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'content-type': 'application/json' })
+  response.end(JSON.stringify(body))
+}
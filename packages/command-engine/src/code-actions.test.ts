@@ -0,0 +1,222 @@
+// @vitest-environment node
+import { createHash } from 'node:crypto'
+import { describe, expect, it } from 'vitest'
+import type {
+  NormalizedElementKind,
+  SemanticElement,
+  SemanticSnapshot,
+} from '../../semantic-model/src/index.js'
+import type { AssuranceFinding } from '../../rule-engine/src/index.js'
+import { applySourceEdits, type CommandWorkspaceDocument } from './index.js'
+import {
+  CodeActionModel,
+  codeActionsForDiagnostic,
+  codeActionsForFinding,
+  resolveCodeActionCommand,
+} from './code-actions.js'
+import { planStructuredSourceEdits } from './structured-source-edits.js'
+
+const uri = 'file:///workspace/model/system.sysml'
+const source = `package System {
+    part def Controller;
+    port def CommandPort;
+    part controller : Controller;
+    port commandPort;
+    requirement rateLimit;
+    verification rateTest;
+    part gateway : MissingGateway;
+}
+
+interface telemetry;
+`
+const document: CommandWorkspaceDocument = {
+  uri,
+  workspacePath: 'model/system.sysml',
+  text: source,
+  sha256: digest(source),
+  version: 1,
+}
+const snapshot: SemanticSnapshot = {
+  schemaVersion: 1,
+  snapshotSha256: 'snapshot',
+  workspace: { id: 'workspace', rootUri: 'file:///workspace', configurationName: 'default' },
+  authority: {
+    adapterId: 'test',
+    adapterVersion: '1',
+    engineName: 'test',
+    engineVersion: '1',
+    referenceRelease: 'test',
+    qualificationStatus: 'qualified',
+  },
+  freshness: 'current',
+  documents: [{ uri, languageId: 'sysml', sha256: document.sha256, byteLength: source.length }],
+  elements: [
+    element('system', 'Package', 'System', 'package System {', source.indexOf('\n\ninterface')),
+    element('controller-def', 'PartDefinition', 'Controller', 'part def Controller;', undefined, 'system'),
+    element('port-def', 'PortDefinition', 'CommandPort', 'port def CommandPort;', undefined, 'system'),
+    element('controller', 'PartUsage', 'controller', 'part controller : Controller;', undefined, 'system'),
+    element('command-port', 'PortUsage', 'commandPort', 'port commandPort;', undefined, 'system'),
+    element('rate-limit', 'RequirementUsage', 'rateLimit', 'requirement rateLimit;', undefined, 'system'),
+    element('rate-test', 'VerificationUsage', 'rateTest', 'verification rateTest;', undefined, 'system'),
+    element('gateway', 'PartUsage', 'gateway', 'part gateway : MissingGateway;', undefined, 'system'),
+    element('telemetry', 'InterfaceUsage', 'telemetry', 'interface telemetry;'),
+  ],
+  relationships: [],
+}
+
+describe('quick fix code actions', () => {
+  it('offers a satisfy relationship with selectable satisfier and owner', () => {
+    const [action] = codeActionsForFinding(finding('REQ-UNSATISFIED', ['rate-limit']), snapshot)
+    expect(action).toMatchObject({
+      id: 'quickfix:finding:REQ-UNSATISFIED',
+      title: 'Satisfy System::rateLimit by…',
+      source: { kind: 'assurance-finding', ruleId: 'REQ-UNSATISFIED' },
+      command: { kind: 'create-relationship', relationshipKind: 'satisfaction', ownerId: 'system', targetId: 'rate-limit' },
+    })
+    expect(action!.parameters.map((parameter) => parameter.field)).toEqual(['sourceId', 'ownerId'])
+    expect(action!.parameters[0]!.choices.map((choice) => choice.label)).toEqual([
+      'System::commandPort',
+      'System::CommandPort',
+      'System::controller',
+      'System::Controller',
+      'System::gateway',
+      'telemetry',
+    ].sort((left, right) => left.localeCompare(right)))
+
+    const command = resolveCodeActionCommand(action!, { sourceId: 'controller' })
+    const edited = applySourceEdits(
+      [document],
+      planStructuredSourceEdits(command, snapshot, [document]).edits,
+    ).documents[0]!.text
+    expect(edited).toContain('    satisfy requirement System::rateLimit by System::controller;\n}')
+    expect(() => resolveCodeActionCommand(action!, { sourceId: 'rate-test' }))
+      .toThrow('Satisfied by must be one of the offered choices')
+    expect(() => resolveCodeActionCommand(action!, { newOwnerId: 'system' }))
+      .toThrow('has no newOwnerId parameter')
+  })
+
+  it('maps interface findings to move, type and trace commands', () => {
+    expect(codeActionsForFinding(finding('IF-MISSING-OWNER', ['telemetry']), snapshot)[0]?.command)
+      .toEqual({ kind: 'move-element', targetId: 'telemetry', newOwnerId: 'system' })
+    const [typed] = codeActionsForFinding(finding('IF-UNTYPED-ENDPOINT', ['telemetry', 'command-port']), snapshot)
+    expect(typed?.command).toEqual({ kind: 'change-type', targetId: 'command-port', typeQualifiedName: 'System::CommandPort' })
+    expect(typed?.parameters[0]?.choices).toEqual([{ value: 'System::CommandPort', label: 'System::CommandPort' }])
+    expect(codeActionsForFinding(finding('IF-NO-REQUIREMENT-BASIS', ['telemetry']), snapshot)[0]?.command)
+      .toMatchObject({ relationshipKind: 'satisfaction', sourceId: 'telemetry', targetId: 'rate-limit' })
+    // Verification needs a governing requirement, which telemetry lacks.
+    expect(codeActionsForFinding(finding('IF-NO-VERIFICATION', ['telemetry']), snapshot)).toEqual([])
+    expect(codeActionsForFinding(finding('IF-INCOMPATIBLE-ENDPOINTS', ['telemetry']), snapshot)).toEqual([])
+  })
+
+  it('builds each choice list once for the actions drawn from one model', () => {
+    const model = new CodeActionModel(snapshot)
+    const [satisfy] = codeActionsForFinding(finding('REQ-UNSATISFIED', ['rate-limit']), model)
+    const [trace] = codeActionsForFinding(finding('IF-NO-REQUIREMENT-BASIS', ['telemetry']), model)
+    expect(trace!.parameters[1]!.choices).toBe(satisfy!.parameters[1]!.choices)
+    expect(codeActionsForFinding(finding('REQ-UNSATISFIED', ['rate-limit']), snapshot))
+      .toEqual([satisfy])
+  })
+
+  it('never offers an element it owns as the new owner of a moved element', () => {
+    const nested: SemanticSnapshot = {
+      ...snapshot,
+      elements: [
+        ...snapshot.elements,
+        { ...element('probe', 'PartUsage', 'probe', 'interface telemetry;'), qualifiedName: 'telemetry::probe', ownerId: 'telemetry' },
+        { ...element('sensor', 'PartUsage', 'sensor', 'interface telemetry;'), qualifiedName: 'telemetry::probe::sensor', ownerId: 'probe' },
+      ],
+    }
+    const [move] = codeActionsForFinding(finding('IF-MISSING-OWNER', ['telemetry']), nested)
+    expect(move?.parameters[0]?.choices.map((choice) => choice.value)).toEqual([
+      'system',
+      'controller',
+      'controller-def',
+      'gateway',
+    ])
+    expect(codeActionsForFinding(finding('IF-MISSING-OWNER', ['system']), snapshot)).toEqual([])
+  })
+
+  it('offers a type change for unresolved references inside a usage', () => {
+    const line = source.split('\n').findIndex((text) => text.includes('MissingGateway'))
+    const [action] = codeActionsForDiagnostic({
+      uri,
+      severity: 'error',
+      code: 'linking',
+      message: "Couldn't resolve reference to PartDefinition 'MissingGateway'.",
+      range: { start: { line, character: 19 }, end: { line, character: 33 } },
+    }, snapshot)
+    expect(action).toMatchObject({
+      title: 'Change type of System::gateway to…',
+      elementIds: ['gateway'],
+      command: { kind: 'change-type', targetId: 'gateway', typeQualifiedName: 'System::Controller' },
+    })
+    expect(codeActionsForDiagnostic({
+      uri,
+      severity: 'warning',
+      code: 'style',
+      message: 'Name should be capitalised',
+      range: { start: { line, character: 9 }, end: { line, character: 16 } },
+    }, snapshot)).toEqual([])
+  })
+})
+
+function finding(ruleId: string, elementIds: string[]): AssuranceFinding {
+  return {
+    id: `finding:${ruleId}`,
+    ruleId,
+    ruleVersion: '1.0.0',
+    domain: ruleId.startsWith('REQ-') ? 'requirement' : 'interface',
+    severity: 'major',
+    statement: ruleId,
+    elementIds,
+    relationshipIds: [],
+    evidence: [],
+    remediation: 'Fix it.',
+  }
+}
+
+function element(
+  id: string,
+  kind: NormalizedElementKind,
+  name: string,
+  startToken: string,
+  explicitEnd?: number,
+  ownerId?: string,
+): SemanticElement {
+  const start = source.indexOf(startToken)
+  const end = explicitEnd ?? start + startToken.length
+  return {
+    id,
+    kind,
+    rawKind: kind,
+    name,
+    qualifiedName: ownerId ? `System::${name}` : name,
+    ...(ownerId ? { ownerId } : {}),
+    source: {
+      uri,
+      workspacePath: 'model/system.sysml',
+      range: range(source, start, end),
+      documentSha256: document.sha256,
+    },
+    fingerprint: `fingerprint-${id}`,
+    provenance: {
+      authority: 'qualified-language-engine',
+      extraction: 'pilot-emf-semantic-evidence',
+      classification: 'engine-metaclass',
+      engineId: `engine-${id}`,
+    },
+  }
+}
+
+function range(text: string, start: number, end: number) {
+  return { start: position(text, start), end: position(text, end) }
+}
+
+function position(text: string, offset: number) {
+  const lines = text.slice(0, offset).split('\n')
+  return { line: lines.length - 1, character: lines.at(-1)!.length }
+}
+
+function digest(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
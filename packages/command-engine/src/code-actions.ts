@@ -0,0 +1,335 @@
+import type { WorkbenchRange } from '../../workbench-protocol/src/index.js'
+import type {
+  NormalizedElementKind,
+  SemanticElement,
+  SemanticSnapshot,
+} from '../../semantic-model/src/index.js'
+import type { LanguageDiagnostic } from '../../language-adapter/src/index.js'
+import type { AssuranceFinding } from '../../rule-engine/src/index.js'
+import type { WorkbenchCommand } from './index.js'
+
+// This module stays free of Node built-ins so the shell can resolve the
+// user's choices with the same validation the service applies.
+
+export type CodeActionCommand = Extract<
+  WorkbenchCommand,
+  { kind: 'create-relationship' | 'change-type' | 'move-element' }
+>
+
+export type CodeActionField =
+  | 'ownerId'
+  | 'sourceId'
+  | 'targetId'
+  | 'newOwnerId'
+  | 'typeQualifiedName'
+
+export interface CodeActionParameter {
+  field: CodeActionField
+  label: string
+  choices: Array<{ value: string; label: string }>
+}
+
+export interface CodeAction {
+  id: string
+  title: string
+  source:
+    | { kind: 'assurance-finding'; findingId: string; ruleId: string }
+    | { kind: 'diagnostic'; code: string; uri: string; range?: WorkbenchRange }
+  elementIds: string[]
+  // The command carries the default choice for every parameter, so an action
+  // can be proposed unchanged or after the user picks other choices.
+  command: CodeActionCommand
+  parameters: CodeActionParameter[]
+}
+
+export class CodeActionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CodeActionError'
+  }
+}
+
+const SATISFYING_KINDS = new Set<NormalizedElementKind>([
+  'PartDefinition',
+  'PartUsage',
+  'PortDefinition',
+  'PortUsage',
+  'InterfaceDefinition',
+  'InterfaceUsage',
+  'ConnectionDefinition',
+  'ConnectionUsage',
+  'ActionDefinition',
+  'ActionUsage',
+  'StateDefinition',
+  'StateUsage',
+  'UseCaseDefinition',
+  'UseCaseUsage',
+])
+const VERIFYING_KINDS = new Set<NormalizedElementKind>(['VerificationDefinition', 'VerificationUsage'])
+const REQUIREMENT_KINDS = new Set<NormalizedElementKind>(['RequirementDefinition', 'RequirementUsage'])
+const OWNER_KINDS = new Set<NormalizedElementKind>(['Package', 'PartDefinition', 'PartUsage'])
+const UNRESOLVED_DIAGNOSTIC = /unresolved|(?:could ?n[o']t|cannot|unable to) resolve/i
+
+// Callers offering actions for many findings pass one CodeActionModel, so
+// the snapshot is indexed and each choice list is built once between them.
+export function codeActionsForFinding(
+  finding: AssuranceFinding,
+  source: SemanticSnapshot | CodeActionModel,
+): CodeAction[] {
+  const model = codeActionModel(source)
+  const subject = model.get(finding.elementIds[0])
+  if (!subject) return []
+  const from = { kind: 'assurance-finding' as const, findingId: finding.id, ruleId: finding.ruleId }
+  const action = (
+    title: string,
+    command: CodeActionCommand,
+    parameters: CodeActionParameter[],
+  ) => codeAction(`quickfix:${finding.id}`, title, from, finding.elementIds, command, parameters)
+  switch (finding.ruleId) {
+    case 'REQ-UNSATISFIED':
+    case 'REQ-UNVERIFIED': {
+      const verification = finding.ruleId === 'REQ-UNVERIFIED'
+      const owners = model.choices(OWNER_KINDS)
+      const sources = model.choices(verification ? VERIFYING_KINDS : SATISFYING_KINDS)
+      return action(
+        `${verification ? 'Verify' : 'Satisfy'} ${subject.qualifiedName} by…`,
+        {
+          kind: 'create-relationship',
+          ownerId: model.defaultOwner(subject, owners),
+          relationshipKind: verification ? 'verification' : 'satisfaction',
+          sourceId: sources[0]?.value ?? '',
+          targetId: subject.id,
+        },
+        [
+          { field: 'sourceId', label: verification ? 'Verified by' : 'Satisfied by', choices: sources },
+          { field: 'ownerId', label: 'Declared in', choices: owners },
+        ],
+      )
+    }
+    case 'IF-MISSING-OWNER': {
+      const owners = model.choices(OWNER_KINDS, subject.id)
+      return action(
+        `Move ${subject.qualifiedName} into…`,
+        { kind: 'move-element', targetId: subject.id, newOwnerId: owners[0]?.value ?? '' },
+        [{ field: 'newOwnerId', label: 'New owner', choices: owners }],
+      )
+    }
+    case 'IF-UNTYPED-ENDPOINT': {
+      const endpoint = model.get(finding.elementIds[1])
+      const definitionKind = endpoint && definitionKindFor(endpoint.kind)
+      if (!endpoint || !definitionKind) return []
+      const types = model.typeChoices(definitionKind)
+      return action(
+        `Type ${endpoint.qualifiedName} as…`,
+        { kind: 'change-type', targetId: endpoint.id, typeQualifiedName: types[0]?.value ?? '' },
+        [{ field: 'typeQualifiedName', label: 'Type', choices: types }],
+      )
+    }
+    case 'IF-NO-REQUIREMENT-BASIS': {
+      const owners = model.choices(OWNER_KINDS)
+      const requirements = model.choices(REQUIREMENT_KINDS)
+      return action(
+        `Trace ${subject.qualifiedName} to a governing requirement`,
+        {
+          kind: 'create-relationship',
+          ownerId: model.defaultOwner(subject, owners),
+          relationshipKind: 'satisfaction',
+          sourceId: subject.id,
+          targetId: requirements[0]?.value ?? '',
+        },
+        [
+          { field: 'targetId', label: 'Requirement', choices: requirements },
+          { field: 'ownerId', label: 'Declared in', choices: owners },
+        ],
+      )
+    }
+    case 'IF-NO-VERIFICATION': {
+      const governing = model.satisfiedBy(subject.id)
+      const owners = model.choices(OWNER_KINDS)
+      const requirements = model.choices(REQUIREMENT_KINDS).filter((choice) => governing.has(choice.value))
+      const sources = model.choices(VERIFYING_KINDS)
+      return action(
+        `Verify a requirement governing ${subject.qualifiedName}`,
+        {
+          kind: 'create-relationship',
+          ownerId: model.defaultOwner(subject, owners),
+          relationshipKind: 'verification',
+          sourceId: sources[0]?.value ?? '',
+          targetId: requirements[0]?.value ?? '',
+        },
+        [
+          { field: 'sourceId', label: 'Verified by', choices: sources },
+          { field: 'targetId', label: 'Requirement', choices: requirements },
+          { field: 'ownerId', label: 'Declared in', choices: owners },
+        ],
+      )
+    }
+    default:
+      return []
+  }
+}
+
+// Engines word unresolved references differently, so any diagnostic that
+// reports one inside a typed usage is offered a type change.
+export function codeActionsForDiagnostic(
+  diagnostic: LanguageDiagnostic,
+  source: SemanticSnapshot | CodeActionModel,
+): CodeAction[] {
+  if (!diagnostic.range || !UNRESOLVED_DIAGNOSTIC.test(`${diagnostic.code} ${diagnostic.message}`)) {
+    return []
+  }
+  const model = codeActionModel(source)
+  const target = model.innermostAt(diagnostic.uri, diagnostic.range.start)
+  const definitionKind = target && definitionKindFor(target.kind)
+  if (!target || !definitionKind) return []
+  const types = model.typeChoices(definitionKind)
+  const missing = /['"`]([^'"`]+)['"`]/.exec(diagnostic.message)?.[1]?.split('::').at(-1)?.toLocaleLowerCase()
+  const preferred = types.find((choice) => choice.value.split('::').at(-1)?.toLocaleLowerCase() === missing)
+  const { start } = diagnostic.range
+  return codeAction(
+    `quickfix:diagnostic:${diagnostic.uri}:${start.line}:${start.character}:${diagnostic.code}`,
+    `Change type of ${target.qualifiedName} to…`,
+    { kind: 'diagnostic', code: diagnostic.code, uri: diagnostic.uri, range: diagnostic.range },
+    [target.id],
+    { kind: 'change-type', targetId: target.id, typeQualifiedName: (preferred ?? types[0])?.value ?? '' },
+    [{ field: 'typeQualifiedName', label: 'Type', choices: types }],
+  )
+}
+
+export function resolveCodeActionCommand(
+  action: CodeAction,
+  selections: Partial<Record<CodeActionField, string>> = {},
+): CodeActionCommand {
+  const command: Record<string, unknown> = { ...action.command }
+  for (const [field, value] of Object.entries(selections)) {
+    const parameter = action.parameters.find((candidate) => candidate.field === field)
+    if (!parameter) {
+      throw new CodeActionError(`Quick fix ${action.id} has no ${field} parameter`)
+    }
+    if (!parameter.choices.some((choice) => choice.value === value)) {
+      throw new CodeActionError(`${parameter.label} must be one of the offered choices`)
+    }
+    command[field] = value
+  }
+  return command as CodeActionCommand
+}
+
+export function codeActionDefault(action: CodeAction, field: CodeActionField): string {
+  const value = (action.command as Record<string, unknown>)[field]
+  return typeof value === 'string' ? value : ''
+}
+
+function codeAction(
+  id: string,
+  title: string,
+  source: CodeAction['source'],
+  elementIds: string[],
+  command: CodeActionCommand,
+  parameters: CodeActionParameter[],
+): CodeAction[] {
+  // An action is only offered when every parameter has something to choose.
+  if (parameters.some((parameter) => parameter.choices.length === 0)) return []
+  return [{ id, title, source, elementIds: [...elementIds], command, parameters }]
+}
+
+// Kinds without a definition counterpart simply find no type choices.
+function definitionKindFor(kind: NormalizedElementKind): NormalizedElementKind | undefined {
+  return kind.endsWith('Usage')
+    ? kind.replace(/Usage$/, 'Definition') as NormalizedElementKind
+    : undefined
+}
+
+function codeActionModel(source: SemanticSnapshot | CodeActionModel): CodeActionModel {
+  return source instanceof CodeActionModel ? source : new CodeActionModel(source)
+}
+
+// Choice lists are shared between the actions built from one model; they
+// must not be modified.
+export class CodeActionModel {
+  private readonly byId: Map<string, SemanticElement>
+  private readonly editable: SemanticElement[]
+  private readonly satisfactions = new Map<string, Set<string>>()
+  private readonly choiceLists = new Map<string, CodeActionParameter['choices']>()
+
+  constructor(snapshot: SemanticSnapshot) {
+    this.byId = new Map(snapshot.elements.map((element) => [element.id, element]))
+    this.editable = snapshot.elements
+      .filter((element) => element.kind !== 'OpaqueElement' && element.provenance.classification !== 'opaque')
+      .sort((left, right) => left.qualifiedName.localeCompare(right.qualifiedName))
+    for (const relationship of snapshot.relationships) {
+      if (relationship.kind !== 'satisfaction') continue
+      const targets = this.satisfactions.get(relationship.sourceId) ?? new Set()
+      targets.add(relationship.targetId)
+      this.satisfactions.set(relationship.sourceId, targets)
+    }
+  }
+
+  get(id: string | undefined): SemanticElement | undefined {
+    return id === undefined ? undefined : this.byId.get(id)
+  }
+
+  // `excludeId` drops that element and everything it owns, which a move of
+  // the element could not target without an ownership cycle.
+  choices(kinds: ReadonlySet<NormalizedElementKind>, excludeId?: string): CodeActionParameter['choices'] {
+    return this.cached(`choices:${[...kinds].join(',')}:${excludeId ?? ''}`, () => this.editable
+      .filter((element) => kinds.has(element.kind) && !this.within(element, excludeId))
+      .map((element) => ({ value: element.id, label: element.qualifiedName })))
+  }
+
+  typeChoices(kind: NormalizedElementKind): CodeActionParameter['choices'] {
+    return this.cached(`types:${kind}`, () => this.editable
+      .filter((element) => element.kind === kind)
+      .map((element) => ({ value: element.qualifiedName, label: element.qualifiedName })))
+  }
+
+  satisfiedBy(sourceId: string): ReadonlySet<string> {
+    return this.satisfactions.get(sourceId) ?? new Set()
+  }
+
+  // Relationships default to the nearest owner of the subject that can hold
+  // declarations, so the new line lands next to the model it completes.
+  defaultOwner(subject: SemanticElement, owners: CodeActionParameter['choices']): string {
+    const ids = new Set(owners.map((owner) => owner.value))
+    for (let current = this.get(subject.ownerId); current; current = this.get(current.ownerId)) {
+      if (ids.has(current.id)) return current.id
+    }
+    return owners[0]?.value ?? ''
+  }
+
+  innermostAt(uri: string, position: WorkbenchRange['start']): SemanticElement | undefined {
+    return this.editable
+      .filter((element) => element.source.uri === uri && contains(element.source.range, position))
+      .sort((left, right) => span(left.source.range) - span(right.source.range))[0]
+  }
+
+  private cached(
+    key: string,
+    build: () => CodeActionParameter['choices'],
+  ): CodeActionParameter['choices'] {
+    const cached = this.choiceLists.get(key)
+    if (cached) return cached
+    const choices = build()
+    this.choiceLists.set(key, choices)
+    return choices
+  }
+
+  private within(element: SemanticElement, ancestorId: string | undefined): boolean {
+    if (ancestorId === undefined) return false
+    for (let current: SemanticElement | undefined = element; current; current = this.get(current.ownerId)) {
+      if (current.id === ancestorId) return true
+    }
+    return false
+  }
+}
+
+function contains(range: WorkbenchRange, position: WorkbenchRange['start']): boolean {
+  const after = position.line > range.start.line ||
+    (position.line === range.start.line && position.character >= range.start.character)
+  const before = position.line < range.end.line ||
+    (position.line === range.end.line && position.character <= range.end.character)
+  return after && before
+}
+
+function span(range: WorkbenchRange): number {
+  return (range.end.line - range.start.line) * 10_000 + range.end.character - range.start.character
+}
@@ -0,0 +1,274 @@
+import type {
+  WorkbenchPosition,
+  WorkbenchTextEdit,
+  WorkbenchWorkspaceEdit,
+} from '../../workbench-protocol/src/index.js'
+import type { SemanticSnapshot } from '../../semantic-model/src/index.js'
+import {
+  applySourceEdits,
+  CommandValidationError,
+  type CommandBatchStep,
+  type CommandBatchStepCommand,
+  type CommandWorkspaceDocument,
+} from './index.js'
+import { planStructuredSourceEdits } from './structured-source-edits.js'
+
+export const COMMAND_BATCH_STEP_KINDS = [
+  'create-element',
+  'create-relationship',
+  'update-documentation',
+] as const
+
+export const MAX_COMMAND_BATCH_STEPS = 1_000
+
+export interface CommandBatchPlan {
+  edits: WorkbenchWorkspaceEdit
+  affectedElementIds: string[]
+  // Identity each step created, or null for steps that create nothing.
+  createdElementIds: Array<string | null>
+}
+
+const STEP_REFERENCE = /^step:(\d+)$/u
+
+export function batchStepReference(index: number): string {
+  return `step:${index}`
+}
+
+export function validateCommandBatch(steps: readonly CommandBatchStep[]): void {
+  if (
+    !Array.isArray(steps) ||
+    steps.length === 0 ||
+    steps.length > MAX_COMMAND_BATCH_STEPS
+  ) {
+    throw new CommandValidationError(
+      `Command batch must have 1 to ${MAX_COMMAND_BATCH_STEPS} steps`,
+    )
+  }
+  steps.forEach((step, index) => {
+    const kind = (step as Partial<CommandBatchStep> | null)?.command?.kind
+    if (!COMMAND_BATCH_STEP_KINDS.includes(kind as CommandBatchStepCommand['kind'])) {
+      throw new CommandValidationError(
+        `Command batch step ${index} cannot be ${String(kind)}`,
+      )
+    }
+    for (const id of stepIds(step.command)) {
+      const reference = referencedStep(id)
+      if (reference === undefined) continue
+      if (reference >= index || steps[reference]!.command.kind !== 'create-element') {
+        throw new CommandValidationError(
+          `Command batch step ${index} refers to ${id}, which is not an earlier create-element step`,
+        )
+      }
+    }
+  })
+}
+
+// Plans the steps in order. Each step sees the source the earlier steps
+// produced: the authoritative snapshot is rebuilt only after a creation a later
+// step refers to, and element ranges are moved past the edits in between.
+// Creations nothing refers to are identified by one rebuild at the end.
+export async function planCommandBatch(
+  steps: readonly CommandBatchStep[],
+  snapshot: SemanticSnapshot,
+  documents: CommandWorkspaceDocument[],
+  overlaySnapshot: (documents: CommandWorkspaceDocument[]) => Promise<SemanticSnapshot>,
+): Promise<CommandBatchPlan> {
+  const baseIds = new Set(snapshot.elements.map((element) => element.id))
+  const referenced = new Set(
+    steps.flatMap((step) => stepIds(step.command).map(referencedStep))
+      .filter((reference) => reference !== undefined),
+  )
+  const affectedElementIds = new Set<string>()
+  const createdElementIds: Array<string | null> = []
+  const unresolved: Array<{ index: number; ownerId: string; name: string }> = []
+  const assigned = new Set<string>()
+  let stepSnapshot = snapshot
+  let stepDocuments = documents
+  const identifyCreated = () => {
+    for (const { index, ownerId, name } of unresolved.splice(0)) {
+      const created = stepSnapshot.elements.find((element) =>
+        !baseIds.has(element.id) &&
+        !assigned.has(element.id) &&
+        element.ownerId === ownerId &&
+        element.name === name)
+      if (!created) {
+        throw new CommandValidationError(
+          `Command batch step ${index} did not create ${name}`,
+        )
+      }
+      assigned.add(created.id)
+      createdElementIds[index] = created.id
+    }
+  }
+  for (const [index, step] of steps.entries()) {
+    const command = resolveStepReferences(step.command, createdElementIds)
+    const planned = planStructuredSourceEdits(command, stepSnapshot, stepDocuments)
+    for (const id of planned.affectedElementIds) {
+      if (baseIds.has(id)) affectedElementIds.add(id)
+    }
+    stepDocuments = applySourceEdits(stepDocuments, planned.edits).documents
+    createdElementIds.push(null)
+    if (command.kind === 'create-element') {
+      unresolved.push({ index, ownerId: command.ownerId, name: command.name })
+    }
+    if (referenced.has(index)) {
+      stepSnapshot = await overlaySnapshot(stepDocuments)
+      identifyCreated()
+    } else if (index < steps.length - 1) {
+      stepSnapshot = rebaseSnapshot(stepSnapshot, planned.edits, stepDocuments)
+    }
+  }
+  if (unresolved.length > 0) {
+    stepSnapshot = await overlaySnapshot(stepDocuments)
+    identifyCreated()
+  }
+  return {
+    edits: documentChanges(documents, stepDocuments),
+    affectedElementIds: [...affectedElementIds],
+    createdElementIds,
+  }
+}
+
+// The snapshot with element ranges moved past the edits, as the engine would
+// report them for the edited text. Edits insert within an owner's body or
+// replace text inside a declaration, so a range that starts or ends at an
+// edit's start stays before it.
+function rebaseSnapshot(
+  snapshot: SemanticSnapshot,
+  edits: WorkbenchWorkspaceEdit,
+  documents: readonly CommandWorkspaceDocument[],
+): SemanticSnapshot {
+  const descending = new Map(
+    Object.entries(edits.changes)
+      .filter(([, changes]) => changes.length > 0)
+      .map(([uri, changes]) => [
+        uri,
+        [...changes].sort((left, right) => comparePositions(right.range.start, left.range.start)),
+      ]),
+  )
+  if (descending.size === 0) return snapshot
+  const hashes = new Map(documents.map((document) => [document.uri, document.sha256]))
+  return {
+    ...snapshot,
+    elements: snapshot.elements.map((element) => {
+      const changes = descending.get(element.source.uri)
+      if (!changes) return element
+      const move = (position: WorkbenchPosition) =>
+        changes.reduce((moved, edit) => movePosition(moved, edit), position)
+      return {
+        ...element,
+        source: {
+          ...element.source,
+          range: { start: move(element.source.range.start), end: move(element.source.range.end) },
+          documentSha256: hashes.get(element.source.uri) ?? element.source.documentSha256,
+        },
+      }
+    }),
+  }
+}
+
+function movePosition(position: WorkbenchPosition, edit: WorkbenchTextEdit): WorkbenchPosition {
+  const { start, end } = edit.range
+  if (comparePositions(position, start) <= 0) return position
+  const lines = edit.newText.split('\n')
+  const inserted: WorkbenchPosition = {
+    line: start.line + lines.length - 1,
+    character: (lines.length === 1 ? start.character : 0) + lines.at(-1)!.length,
+  }
+  if (comparePositions(position, end) < 0) return inserted
+  return position.line === end.line
+    ? { line: inserted.line, character: inserted.character + position.character - end.character }
+    : { line: position.line + inserted.line - end.line, character: position.character }
+}
+
+function comparePositions(left: WorkbenchPosition, right: WorkbenchPosition): number {
+  return left.line - right.line || left.character - right.character
+}
+
+function resolveStepReferences(
+  command: CommandBatchStepCommand,
+  createdElementIds: readonly (string | null)[],
+): CommandBatchStepCommand {
+  const resolve = (id: string) => {
+    const reference = referencedStep(id)
+    if (reference === undefined) return id
+    const created = createdElementIds[reference]
+    if (!created) {
+      throw new CommandValidationError(`Command batch reference ${id} created nothing`)
+    }
+    return created
+  }
+  switch (command.kind) {
+    case 'create-element':
+      return { ...command, ownerId: resolve(command.ownerId) }
+    case 'create-relationship':
+      return {
+        ...command,
+        ownerId: resolve(command.ownerId),
+        sourceId: resolve(command.sourceId),
+        targetId: resolve(command.targetId),
+      }
+    case 'update-documentation':
+      return { ...command, targetId: resolve(command.targetId) }
+  }
+}
+
+function stepIds(command: CommandBatchStepCommand): string[] {
+  switch (command.kind) {
+    case 'create-element':
+      return [command.ownerId]
+    case 'create-relationship':
+      return [command.ownerId, command.sourceId, command.targetId]
+    case 'update-documentation':
+      return [command.targetId]
+  }
+}
+
+function referencedStep(id: string): number | undefined {
+  const match = STEP_REFERENCE.exec(id)
+  return match ? Number(match[1]) : undefined
+}
+
+// One edit per changed document, spanning the text the batch changed.
+function documentChanges(
+  before: readonly CommandWorkspaceDocument[],
+  after: readonly CommandWorkspaceDocument[],
+): WorkbenchWorkspaceEdit {
+  const changes: WorkbenchWorkspaceEdit['changes'] = {}
+  for (const document of before) {
+    const next = after.find((candidate) => candidate.uri === document.uri)
+    if (!next || next.text === document.text) continue
+    let start = 0
+    while (
+      start < document.text.length &&
+      start < next.text.length &&
+      document.text[start] === next.text[start]
+    ) {
+      start += 1
+    }
+    let end = 0
+    while (
+      end < document.text.length - start &&
+      end < next.text.length - start &&
+      document.text[document.text.length - 1 - end] === next.text[next.text.length - 1 - end]
+    ) {
+      end += 1
+    }
+    // Keep a CRLF line break whole on either side of the edit.
+    if (start > 0 && document.text[start - 1] === '\r') start -= 1
+    if (end > 0 && document.text[document.text.length - end - 1] === '\r') end -= 1
+    changes[document.uri] = [{
+      range: {
+        start: positionAt(document.text, start),
+        end: positionAt(document.text, document.text.length - end),
+      },
+      newText: next.text.slice(start, next.text.length - end),
+    }]
+  }
+  return { changes }
+}
+
+function positionAt(text: string, offset: number): WorkbenchPosition {
+  const lines = text.slice(0, offset).split('\n')
+  return { line: lines.length - 1, character: lines.at(-1)!.length }
+}
@@ -8,6 +8,7 @@ import {
   planCommand,
   SourceEditConflictError,
   type CommandEnvelope,
+  type InternalCommandProposal,
   type CommandWorkspaceDocument,
 } from './index.js'
 
@@ -90,6 +91,7 @@ describe('command registry', () => {
       'replace-document',
       'undo-command',
       'redo-command',
+      'command-batch',
     ])
   })
 })
@@ -424,6 +426,166 @@ describe('command planning', () => {
   })
 })
 
+describe('command batches', () => {
+  const envelope = (command: CommandEnvelope['command']): CommandEnvelope => ({
+    schemaVersion: 1,
+    commandId: 'batch-1',
+    workspaceId: 'vehicle',
+    baseSnapshotSha256: snapshot.snapshotSha256,
+    baseDocuments: { [uri]: document.sha256 },
+    requestedBy: { kind: 'user', id: 'engineer' },
+    command,
+  })
+
+  it('plans each step against the source the earlier steps produced', async () => {
+    const overlays: string[] = []
+    const proposal: InternalCommandProposal = await planCommand({
+      envelope: envelope({
+        kind: 'command-batch',
+        steps: [
+          {
+            command: {
+              kind: 'create-element',
+              ownerId: 'element-engine',
+              elementKind: 'RequirementUsage',
+              name: 'torque',
+            },
+            externalAlias: { scheme: 'requirement-table', identifier: 'REQ-1' },
+          },
+          {
+            command: {
+              kind: 'update-documentation',
+              targetId: 'step:0',
+              documentation: 'Deliver rated torque.',
+            },
+          },
+        ],
+      }),
+      snapshot,
+      documents: [document],
+      renameProvider: async () => ({ changes: {} }),
+      overlaySnapshotProvider: async (documents) => {
+        overlays.push(documents[0]!.text)
+        return overlaySnapshot(documents[0]!.text)
+      },
+    })
+
+    expect(overlays).toEqual([
+      'package Vehicle {\n  part def Engine {\n      requirement torque;\n  }\n}\n',
+    ])
+    const after = applySourceEdits([document], proposal.edits).documents[0]!.text
+    expect(after).toBe(
+      'package Vehicle {\n  part def Engine {\n      requirement torque {\n          doc /* Deliver rated torque. */\n      }\n  }\n}\n',
+    )
+    expect(proposal.edits.changes[uri]).toHaveLength(1)
+    expect(proposal.batchElementIds).toEqual(['element-torque', null])
+    expect(proposal.affectedElementIds).toEqual(['element-engine'])
+    expect(proposal.editProfile.id).toBe('structured-source-edits')
+    expect(
+      applySourceEdits([{ ...document, text: after, sha256: digest(after) }], proposal.undo)
+        .documents[0]!.text,
+    ).toBe(source)
+  })
+
+  it('rebuilds the snapshot only to identify what the steps created', async () => {
+    const overlays: string[] = []
+    const proposal = await planCommand({
+      envelope: envelope({
+        kind: 'command-batch',
+        steps: [
+          {
+            command: {
+              kind: 'update-documentation',
+              targetId: 'element-engine',
+              documentation: 'Propulsion.',
+            },
+          },
+          {
+            command: {
+              kind: 'create-element',
+              ownerId: 'element-engine',
+              elementKind: 'RequirementUsage',
+              name: 'torque',
+            },
+          },
+        ],
+      }),
+      snapshot,
+      documents: [document],
+      renameProvider: async () => ({ changes: {} }),
+      overlaySnapshotProvider: async (documents) => {
+        overlays.push(documents[0]!.text)
+        return overlaySnapshot(documents[0]!.text)
+      },
+    })
+
+    const after = applySourceEdits([document], proposal.edits).documents[0]!.text
+    expect(after).toBe(
+      'package Vehicle {\n  part def Engine {\n      doc /* Propulsion. */\n      requirement torque;\n  }\n}\n',
+    )
+    expect(overlays).toEqual([after])
+    expect(proposal.batchElementIds).toEqual([null, 'element-torque'])
+  })
+
+  it('rejects forward references, unsupported steps, and missing overlays', async () => {
+    const plan = (command: CommandEnvelope['command'], withOverlay = true) => planCommand({
+      envelope: envelope(command),
+      snapshot,
+      documents: [document],
+      renameProvider: async () => ({ changes: {} }),
+      ...(withOverlay
+        ? { overlaySnapshotProvider: async () => overlaySnapshot(source) }
+        : {}),
+    })
+    await expect(plan({
+      kind: 'command-batch',
+      steps: [{ command: { kind: 'update-documentation', targetId: 'step:1', documentation: 'x' } }],
+    })).rejects.toThrow('refers to step:1, which is not an earlier create-element step')
+    await expect(plan({
+      kind: 'command-batch',
+      steps: [{ command: { kind: 'delete-element', targetId: 'element-engine' } as never }],
+    })).rejects.toThrow('Command batch step 0 cannot be delete-element')
+    await expect(plan({ kind: 'command-batch', steps: [] }))
+      .rejects.toThrow('Command batch must have 1 to 1000 steps')
+    await expect(plan({
+      kind: 'command-batch',
+      steps: [{ command: { kind: 'update-documentation', targetId: 'element-engine', documentation: 'x' } }],
+    }, false)).rejects.toThrow('Command batches require authoritative overlay snapshots')
+  })
+})
+
+// Locates the declarations the batch test creates, as the engine would.
+function overlaySnapshot(text: string): SemanticSnapshot {
+  const located = (pattern: RegExp) => {
+    const match = pattern.exec(text)
+    return match
+      ? { start: testPosition(text, match.index), end: testPosition(text, match.index + match[0].length) }
+      : undefined
+  }
+  const engine = snapshot.elements[0]!
+  const engineRange = located(/part def Engine(?: \{[\s\S]*?\n {2}\}|;)/u)!
+  const torqueRange = located(/requirement torque(?: \{[\s\S]*?\n {6}\}|;)/u)
+  return {
+    ...snapshot,
+    snapshotSha256: digest(text),
+    elements: [
+      { ...engine, source: { ...engine.source, range: engineRange } },
+      ...(torqueRange
+        ? [{
+            ...engine,
+            id: 'element-torque',
+            kind: 'RequirementUsage' as const,
+            rawKind: 'RequirementUsage',
+            name: 'torque',
+            qualifiedName: 'Vehicle::Engine::torque',
+            ownerId: 'element-engine',
+            source: { ...engine.source, range: torqueRange },
+          }]
+        : []),
+    ],
+  }
+}
+
 function digest(value: string): string {
   return createHash('sha256').update(value).digest('hex')
 }
@@ -17,6 +17,10 @@ import type { WorkspaceTransactionReceipt } from './file-transaction.js'
 import {
   planStructuredSourceEdits,
 } from './structured-source-edits.js'
+import {
+  planCommandBatch,
+  validateCommandBatch,
+} from './command-batch.js'
 
 export const COMMAND_KINDS = [
   'create-element',
@@ -32,6 +36,7 @@ export const COMMAND_KINDS = [
   'replace-document',
   'undo-command',
   'redo-command',
+  'command-batch',
 ] as const
 
 export type CommandKind = (typeof COMMAND_KINDS)[number]
@@ -92,6 +97,19 @@ export type WorkbenchCommand =
   | { kind: 'replace-document'; documentUri: string; text: string }
   | { kind: 'undo-command'; appliedProposalId: string }
   | { kind: 'redo-command'; appliedProposalId: string }
+  | { kind: 'command-batch'; steps: CommandBatchStep[] }
+
+export type CommandBatchStepCommand = Extract<
+  WorkbenchCommand,
+  { kind: 'create-element' | 'create-relationship' | 'update-documentation' }
+>
+
+// One command of a batch. Its ids may name the element an earlier
+// create-element step creates as `step:<index>`.
+export interface CommandBatchStep {
+  command: CommandBatchStepCommand
+  externalAlias?: CommandExternalAlias
+}
 
 export interface CommandEnvelope {
   schemaVersion: 1
@@ -104,6 +122,14 @@ export interface CommandEnvelope {
     id: string
   }
   command: WorkbenchCommand
+  // Identifier another tool uses for the created or targeted element. Applying
+  // the command records it in the identity registry.
+  externalAlias?: CommandExternalAlias
+}
+
+export interface CommandExternalAlias {
+  scheme: string
+  identifier: string
 }
 
 export interface CommandWorkspaceDocument {
@@ -149,6 +175,8 @@ export interface CommandProposal {
 export interface InternalCommandProposal extends CommandProposal {
   overlayDocuments: CommandWorkspaceDocument[]
   validatedAfterSnapshot?: SemanticSnapshot
+  // Identity each command-batch step created, or null for other steps.
+  batchElementIds?: Array<string | null>
 }
 
 export interface CommandValidationEvidence {
@@ -214,6 +242,11 @@ export interface PlanCommandInput {
     target: SemanticElement,
     newName: string,
   ) => Promise<WorkbenchWorkspaceEdit>
+  // Authoritative snapshot of intermediate documents, so each command-batch
+  // step is planned against the source the earlier steps produced.
+  overlaySnapshotProvider?: (
+    documents: CommandWorkspaceDocument[],
+  ) => Promise<SemanticSnapshot>
 }
 
 export interface PlanExplicitSourceEditInput {
@@ -258,6 +291,29 @@ export async function planCommand(
     const edits = await input.renameProvider(target, envelope.command.newName)
     return createProposal(envelope, snapshot, documents, edits, [target.id])
   }
+  if (envelope.command.kind === 'command-batch') {
+    if (!input.overlaySnapshotProvider) {
+      throw new CommandValidationError(
+        'Command batches require authoritative overlay snapshots',
+      )
+    }
+    const batch = await planCommandBatch(
+      envelope.command.steps,
+      snapshot,
+      documents,
+      input.overlaySnapshotProvider,
+    )
+    return {
+      ...createProposal(
+        envelope,
+        snapshot,
+        documents,
+        batch.edits,
+        batch.affectedElementIds,
+      ),
+      batchElementIds: batch.createdElementIds,
+    }
+  }
   if (envelope.command.kind === 'replace-document') {
     const command = envelope.command
     const document = documents.find(
@@ -428,9 +484,11 @@ export function toPublicCommandProposal(
   const publicProposal = structuredClone(proposal) as CommandProposal & {
     overlayDocuments?: CommandWorkspaceDocument[]
     validatedAfterSnapshot?: SemanticSnapshot
+    batchElementIds?: Array<string | null>
   }
   delete publicProposal.overlayDocuments
   delete publicProposal.validatedAfterSnapshot
+  delete publicProposal.batchElementIds
   return publicProposal
 }
 
@@ -560,6 +618,38 @@ function validateEnvelope(envelope: CommandEnvelope): void {
   ) {
     throw new CommandValidationError('Rename target must be a SysML identifier')
   }
+  if (envelope.externalAlias !== undefined) {
+    validateExternalAlias(envelope.externalAlias, envelope.command)
+  }
+  if (envelope.command.kind === 'command-batch') {
+    validateCommandBatch(envelope.command.steps)
+    for (const step of envelope.command.steps) {
+      if (step.externalAlias !== undefined) {
+        validateExternalAlias(step.externalAlias, step.command)
+      }
+    }
+  }
+}
+
+function validateExternalAlias(
+  alias: CommandExternalAlias,
+  command: WorkbenchCommand,
+): void {
+  const { scheme, identifier } = (alias ?? {}) as Partial<CommandExternalAlias>
+  if (
+    typeof scheme !== 'string' ||
+    !/^[a-z][a-z0-9-]{0,31}$/u.test(scheme) ||
+    typeof identifier !== 'string' ||
+    !identifier ||
+    identifier.length > 512
+  ) {
+    throw new CommandValidationError('Command externalAlias is invalid')
+  }
+  if (command.kind !== 'create-element' && !('targetId' in command)) {
+    throw new CommandValidationError(
+      `Command ${command.kind} cannot carry an externalAlias`,
+    )
+  }
 }
 
 function fullDocumentRange(text: string): {
@@ -686,4 +776,6 @@ function digest(value: string): string {
   return createHash('sha256').update(value).digest('hex')
 }
 
+export * from './code-actions.js'
+export * from './command-batch.js'
 export * from './file-transaction.js'
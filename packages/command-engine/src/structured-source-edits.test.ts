@@ -90,6 +90,22 @@ describe('structured source edit profile', () => {
     expect(relationship).toContain(
       'connection link connect System::left to System::right;',
     )
+
+    const useCase = apply(planStructuredSourceEdits({
+      kind: 'create-element',
+      ownerId: 'system',
+      elementKind: 'UseCaseDefinition',
+      name: 'DriveVehicle',
+    }, snapshot, [document]))
+    expect(useCase).toContain('use case def DriveVehicle {\n')
+    const concern = apply(planStructuredSourceEdits({
+      kind: 'create-element',
+      ownerId: 'system',
+      elementKind: 'ConcernUsage',
+      name: 'safety',
+      typeQualifiedName: 'Stakeholders::Safety',
+    }, snapshot, [document]))
+    expect(concern).toContain('concern safety : Stakeholders::Safety;')
   })
 
   it('changes type and multiplicity and updates source-backed properties', () => {
@@ -114,6 +130,12 @@ describe('structured source edit profile', () => {
       documentation: 'Reviewed engine definition.',
     }, snapshot, [document]))
     expect(documentation).toContain('doc /* Reviewed engine definition. */')
+    const bodiless = apply(planStructuredSourceEdits({
+      kind: 'update-documentation',
+      targetId: 'left',
+      documentation: 'Left command port.',
+    }, snapshot, [document]))
+    expect(bodiless).toContain('    port left {\n        doc /* Left command port. */\n    }\n    port right;')
 
     const property = apply(planStructuredSourceEdits({
       kind: 'set-property',
@@ -26,7 +26,7 @@ export class StructuredSourceEditError extends Error {
 }
 
 export function planStructuredSourceEdits(
-  command: Exclude<WorkbenchCommand, { kind: 'rename-element' | 'replace-document' | 'undo-command' | 'redo-command' }>,
+  command: Exclude<WorkbenchCommand, { kind: 'rename-element' | 'replace-document' | 'undo-command' | 'redo-command' | 'command-batch' }>,
   snapshot: SemanticSnapshot,
   documents: CommandWorkspaceDocument[],
 ): StructuredSourceEditPlan {
@@ -135,19 +135,28 @@ class SourceContext {
   ): StructuredSourceEditPlan {
     const source = this.declaration(owner)
     const block = findBlock(source.text)
-    if (!block) {
-      throw new StructuredSourceEditError(
-        `Command owner has no editable body: ${owner.id}`,
-      )
-    }
-    const closingLineStart = source.text.lastIndexOf('\n', block.close) + 1
-    const closingIndent = source.text.slice(closingLineStart, block.close)
     const ownerIndent = lineIndent(source.document.text, source.start)
     const childIndent = `${ownerIndent}    `
     const rendered = declaration
       .split('\n')
       .map((line) => `${childIndent}${line}`)
       .join('\n')
+    if (!block) {
+      // A bodiless declaration such as `requirement r;` gains a body for its
+      // first member.
+      const terminator = source.text.trimEnd().length - 1
+      if (source.text[terminator] !== ';') {
+        throw new StructuredSourceEditError(
+          `Command owner has no editable body: ${owner.id}`,
+        )
+      }
+      const offset = source.start + terminator
+      return plan(source.document.uri, [
+        editAt(source.document.text, offset, offset + 1, ` {\n${rendered}\n${ownerIndent}}`),
+      ], affectedElementIds)
+    }
+    const closingLineStart = source.text.lastIndexOf('\n', block.close) + 1
+    const closingIndent = source.text.slice(closingLineStart, block.close)
     const insertionOffset = closingLineStart > block.open
       ? source.start + closingLineStart
       : source.start + block.close
@@ -363,6 +372,22 @@ function declarationPrefix(kind: NormalizedElementKind): string {
     AnalysisUsage: 'analysis',
     MetadataDefinition: 'metadata def',
     MetadataUsage: 'metadata',
+    UseCaseDefinition: 'use case def',
+    UseCaseUsage: 'use case',
+    EnumerationDefinition: 'enum def',
+    EnumerationUsage: 'enum',
+    CalculationDefinition: 'calc def',
+    CalculationUsage: 'calc',
+    ConcernDefinition: 'concern def',
+    ConcernUsage: 'concern',
+    ViewDefinition: 'view def',
+    ViewUsage: 'view',
+    ViewpointDefinition: 'viewpoint def',
+    ViewpointUsage: 'viewpoint',
+    AllocationDefinition: 'allocation def',
+    AllocationUsage: 'allocation',
+    OccurrenceDefinition: 'occurrence def',
+    OccurrenceUsage: 'occurrence',
   }
   if (kind === 'OpaqueElement') {
     throw new StructuredSourceEditError('Opaque declarations are not editable')
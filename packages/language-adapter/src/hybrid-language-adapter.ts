@@ -7,6 +7,7 @@ import type {
   WorkbenchSemanticTokens,
   WorkbenchTextEdit,
   WorkbenchWorkspaceEdit,
+  WorkbenchWorkspaceSymbol,
 } from '../../workbench-protocol/src/index.js'
 import type {
   AdapterWorkspace,
@@ -123,6 +124,13 @@ export class HybridLanguageAdapter implements LanguageAdapter {
     ).call(this.semantic, uri)
   }
 
+  workspaceSymbols(query: string): Promise<WorkbenchWorkspaceSymbol[]> {
+    return this.requireOperation(
+      this.semantic.workspaceSymbols,
+      'semantic workspace symbols',
+    ).call(this.semantic, query)
+  }
+
   definition(
     uri: string,
     position: WorkbenchPosition,
@@ -9,6 +9,7 @@ import type {
   WorkbenchSemanticTokens,
   WorkbenchTextEdit,
   WorkbenchWorkspaceEdit,
+  WorkbenchWorkspaceSymbol,
   WorkspaceStatusResult,
 } from '../../workbench-protocol/src/index.js'
 
@@ -48,6 +49,21 @@ export interface LanguageAdapterMetadata {
   qualificationStatus: 'qualified' | 'unqualified' | 'control-only'
 }
 
+export type EngineFeatureDirection = 'in' | 'out' | 'inout'
+
+export interface EngineMultiplicityEvidence {
+  lower: number
+  upper: number | '*'
+}
+
+export interface EngineFeatureValueEvidence {
+  kind: 'integer' | 'real' | 'string' | 'boolean' | 'expression'
+  text: string
+  literal?: number | string | boolean
+  // Set when the text was cut to its limit; a cut string has no literal.
+  truncated?: true
+}
+
 export interface EngineSemanticElementEvidence {
   engineId: string
   metaclass: string
@@ -55,6 +71,10 @@ export interface EngineSemanticElementEvidence {
   qualifiedName?: string
   ownerEngineId?: string
   range?: WorkbenchRange
+  direction?: EngineFeatureDirection
+  multiplicity?: EngineMultiplicityEvidence
+  value?: EngineFeatureValueEvidence
+  unit?: string
 }
 
 export interface EngineSemanticRelationshipEvidence {
@@ -85,6 +105,7 @@ export interface LanguageAdapter {
   closeWorkspace(workspaceId: string): Promise<void>
   dispose(): Promise<void>
   documentSymbols?(uri: string): Promise<WorkbenchDocumentSymbol[]>
+  workspaceSymbols?(query: string): Promise<WorkbenchWorkspaceSymbol[]>
   definition?(
     uri: string,
     position: WorkbenchPosition,
@@ -148,6 +148,64 @@ describe('LspProcessAdapter', () => {
     ).rejects.toThrow('Document version must increase')
   })
 
+  it('normalizes typed feature evidence, truncates long values, and rejects malformed ones', async () => {
+    const open = async (mode: string) => {
+      const adapter = new LspProcessAdapter({
+        metadata: {
+          adapterId: `test/fake-lsp-feature-${mode}`,
+          adapterVersion: '0.1.0',
+          engineName: 'fake-lsp',
+          engineVersion: '1',
+          referenceRelease: 'test',
+          qualificationStatus: 'unqualified',
+        },
+        command: process.execPath,
+        arguments: [
+          resolve(currentDirectory, '../test-fixtures/fake-lsp.mjs'),
+        ],
+        environment: { FAKE_LSP_FEATURE_EVIDENCE: mode },
+        diagnosticSettleMs: 10,
+        requestTimeoutMs: 2_000,
+        semanticEvidenceMethod: 'sysml/semanticEvidence',
+      })
+      adapters.push(adapter)
+      const filePath = resolve(currentDirectory, `feature-${mode}.sysml`)
+      const documentUri = pathToFileURL(filePath).href
+      await adapter.openWorkspace({
+        workspaceId: `fake-feature-${mode}`,
+        rootUri: pathToFileURL(currentDirectory).href,
+        configurationName: 'test',
+        documents: [{
+          uri: documentUri,
+          absolutePath: filePath,
+          languageId: 'sysml',
+          version: 1,
+          text: 'package Fake { attribute mass = 1200.5 [kg]; }',
+          sha256: 'test',
+        }],
+      })
+      return { adapter, documentUri }
+    }
+
+    const valid = await open('valid')
+    const evidence = await valid.adapter.semanticEvidence(valid.documentUri)
+    expect(evidence.elements[1]).toMatchObject({
+      metaclass: 'AttributeUsage',
+      direction: 'out',
+      multiplicity: { lower: 1, upper: '*' },
+      value: { kind: 'real', text: '1200.5 [kg]', literal: 1200.5 },
+      unit: 'kg',
+    })
+
+    const long = await open('long')
+    const { value } = (await long.adapter.semanticEvidence(long.documentUri)).elements[1]!
+    expect(value).toEqual({ kind: 'string', text: `"${'x'.repeat(4_095)}`, truncated: true })
+
+    const invalid = await open('invalid')
+    await expect(invalid.adapter.semanticEvidence(invalid.documentUri))
+      .rejects.toThrow('invalid feature direction')
+  })
+
   it('cancels a request that exceeds its bounded timeout', async () => {
     const adapter = new LspProcessAdapter({
       metadata: {
@@ -11,18 +11,23 @@ import type {
   WorkbenchSemanticTokens,
   WorkbenchTextEdit,
   WorkbenchWorkspaceEdit,
+  WorkbenchWorkspaceSymbol,
 } from '../../workbench-protocol/src/index.js'
 import type {
   AdapterWorkspace,
   LanguageAdapter,
   LanguageAdapterMetadata,
   LanguageDiagnostic,
+  EngineFeatureDirection,
+  EngineFeatureValueEvidence,
+  EngineMultiplicityEvidence,
   EngineSemanticEvidence,
 } from './index.js'
 
 const MAX_CAPTURE_BYTES = 16 * 1024 * 1024
 const MAX_SEMANTIC_EVIDENCE_ELEMENTS = 100_000
 const MAX_SEMANTIC_EVIDENCE_RELATIONSHIPS = 1_000_000
+const MAX_FEATURE_VALUE_TEXT = 4_096
 
 interface PendingRequest {
   resolve(value: unknown): void
@@ -160,6 +165,7 @@ export class LspProcessAdapter implements LanguageAdapter {
         workspace: {
           workspaceFolders: true,
           configuration: true,
+          symbol: {},
         },
         textDocument: {
           publishDiagnostics: {
@@ -317,6 +323,24 @@ export class LspProcessAdapter implements LanguageAdapter {
       )
   }
 
+  async workspaceSymbols(query: string): Promise<WorkbenchWorkspaceSymbol[]> {
+    if (!this.activeWorkspace) {
+      throw new Error('No workspace is open in the language engine')
+    }
+    if (this.healthState.state !== 'ready') {
+      throw new Error(
+        this.healthState.message ?? 'Language engine is not ready',
+      )
+    }
+    const value = await this.request('workspace/symbol', { query })
+    if (!Array.isArray(value)) return []
+    return value
+      .map(normalizeWorkspaceSymbol)
+      .filter(
+        (symbol): symbol is WorkbenchWorkspaceSymbol => symbol !== undefined,
+      )
+  }
+
   async definition(
     uri: string,
     position: WorkbenchPosition,
@@ -850,6 +874,10 @@ function normalizeSemanticEvidence(
       qualifiedName: optionalString(item.qualifiedName),
       ownerEngineId: optionalString(item.ownerEngineId),
       range: optionalRange(item.range),
+      direction: optionalDirection(item.direction),
+      multiplicity: optionalMultiplicity(item.multiplicity),
+      value: optionalFeatureValue(item.value),
+      unit: optionalString(item.unit),
     }
   })
   const relationships = value.relationships.map((item) => {
@@ -889,6 +917,70 @@ function optionalString(value: unknown): string | undefined {
   return typeof value === 'string' && value.length > 0 ? value : undefined
 }
 
+function optionalDirection(
+  value: unknown,
+): EngineFeatureDirection | undefined {
+  if (value === undefined || value === null) return undefined
+  if (value !== 'in' && value !== 'out' && value !== 'inout') {
+    throw new Error('Language engine returned an invalid feature direction')
+  }
+  return value
+}
+
+function optionalMultiplicity(
+  value: unknown,
+): EngineMultiplicityEvidence | undefined {
+  if (value === undefined || value === null) return undefined
+  if (
+    !isRecord(value) ||
+    !Number.isSafeInteger(value.lower) ||
+    (value.lower as number) < 0 ||
+    (value.upper !== '*' &&
+      (!Number.isSafeInteger(value.upper) || (value.upper as number) < (value.lower as number)))
+  ) {
+    throw new Error('Language engine returned an invalid feature multiplicity')
+  }
+  return { lower: value.lower as number, upper: value.upper as number | '*' }
+}
+
+function optionalFeatureValue(
+  value: unknown,
+): EngineFeatureValueEvidence | undefined {
+  if (value === undefined || value === null) return undefined
+  if (!isRecord(value) || typeof value.text !== 'string' || value.text.length === 0) {
+    throw new Error('Language engine returned an invalid feature value')
+  }
+  const literal = value.literal
+  const valid =
+    (value.kind === 'integer' && Number.isSafeInteger(literal)) ||
+    (value.kind === 'real' && typeof literal === 'number' && Number.isFinite(literal)) ||
+    (value.kind === 'string' && typeof literal === 'string') ||
+    (value.kind === 'boolean' && typeof literal === 'boolean') ||
+    (value.kind === 'expression' && literal === undefined)
+  if (!valid) {
+    throw new Error('Language engine returned an invalid feature value')
+  }
+  // A long value, such as a large string literal or expression, is kept cut
+  // to its limit rather than failing the whole document's evidence.
+  if (value.text.length > MAX_FEATURE_VALUE_TEXT) {
+    return {
+      kind: value.kind as EngineFeatureValueEvidence['kind'],
+      text: value.text.slice(0, MAX_FEATURE_VALUE_TEXT).replace(/[\uD800-\uDBFF]$/u, ''),
+      ...(typeof literal === 'string' || literal === undefined
+        ? {}
+        : { literal: literal as number | boolean }),
+      truncated: true,
+    }
+  }
+  return literal === undefined
+    ? { kind: value.kind as 'expression', text: value.text }
+    : {
+        kind: value.kind as EngineFeatureValueEvidence['kind'],
+        text: value.text,
+        literal: literal as number | string | boolean,
+      }
+}
+
 function optionalRange(value: unknown): WorkbenchRange | undefined {
   if (value === undefined || value === null) return undefined
   const range = normalizeWorkbenchRange(value)
@@ -966,6 +1058,30 @@ function normalizeDocumentSymbol(
   }
 }
 
+// Engines may answer with SymbolInformation or with WorkspaceSymbol, whose
+// location can omit the range until resolved; those point at the file start.
+function normalizeWorkspaceSymbol(
+  value: unknown,
+): WorkbenchWorkspaceSymbol | undefined {
+  if (!isRecord(value) || typeof value.name !== 'string') return undefined
+  if (!isRecord(value.location) || typeof value.location.uri !== 'string') {
+    return undefined
+  }
+  const range = normalizeWorkbenchRange(value.location.range) ?? {
+    start: { line: 0, character: 0 },
+    end: { line: 0, character: 0 },
+  }
+  return {
+    name: value.name,
+    kind: symbolKind(value.kind),
+    ...(typeof value.containerName === 'string' && value.containerName
+      ? { containerName: value.containerName }
+      : {}),
+    location: { uri: value.location.uri, range },
+    score: 0,
+  }
+}
+
 function normalizeLocations(value: unknown): WorkbenchLocation[] {
   const values = Array.isArray(value) ? value : value ? [value] : []
   return values
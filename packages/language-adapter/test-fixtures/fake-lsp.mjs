@@ -56,7 +56,10 @@ function handle(message) {
             full: true
           },
           renameProvider: true,
-          documentFormattingProvider: true
+          documentFormattingProvider: true,
+          ...(process.env.FAKE_LSP_WORKSPACE_SYMBOLS === '1'
+            ? { workspaceSymbolProvider: true }
+            : {})
         }
       }
     })
@@ -123,6 +126,15 @@ function handle(message) {
     const delay = Number(process.env.FAKE_LSP_SYMBOL_DELAY_MS ?? 0)
     if (delay > 0) setTimeout(() => send(response), delay)
     else send(response)
+  } else if (message.method === 'workspace/symbol') {
+    const query = String(message.params.query ?? '').toLowerCase()
+    send({
+      jsonrpc: '2.0',
+      id: message.id,
+      result: [...documentTexts.keys()]
+        .filter(() => 'fake'.includes(query))
+        .map((uri) => ({ name: 'Fake', kind: 4, location: { uri, range: range() } }))
+    })
   } else if (message.method === 'textDocument/definition') {
     send({
       jsonrpc: '2.0',
@@ -216,7 +228,7 @@ function handle(message) {
                 }
               }
             : range())
-        }],
+        }, ...featureEvidence(message.params.uri)],
         relationships: []
       }
     }
@@ -232,6 +244,25 @@ function handle(message) {
   }
 }
 
+function featureEvidence(uri) {
+  const mode = process.env.FAKE_LSP_FEATURE_EVIDENCE
+  if (!mode) return []
+  return [{
+    engineId: `fake-attribute:${uri}`,
+    metaclass: 'AttributeUsage',
+    name: 'mass',
+    qualifiedName: 'Fake::mass',
+    ownerEngineId: `fake-package:${uri}`,
+    range: range(),
+    direction: mode === 'invalid' ? 'sideways' : 'out',
+    multiplicity: { lower: 1, upper: '*' },
+    value: mode === 'long'
+      ? { kind: 'string', text: `"${'x'.repeat(5000)}"`, literal: 'x'.repeat(5000) }
+      : { kind: 'real', text: '1200.5 [kg]', literal: 1200.5 },
+    unit: 'kg'
+  }]
+}
+
 function range() {
   return {
     start: { line: 0, character: 0 },
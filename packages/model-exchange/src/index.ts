@@ -0,0 +1,80 @@
+import type {
+  CommandExternalAlias,
+  WorkbenchCommand,
+} from '../../command-engine/src/index.js'
+import type {
+  SemanticRelationship,
+  SemanticRelationshipKind,
+  SemanticSnapshot,
+} from '../../semantic-model/src/index.js'
+
+// Importers never write source. They turn a foreign file into typed commands
+// that go through command/propose and an explicit approval like any edit.
+
+export interface ModelImportProposal {
+  // Identifier of the imported item in the foreign file.
+  sourceId: string
+  title: string
+  command: WorkbenchCommand
+  // Copied into the command envelope, so applying the command keeps the
+  // foreign identifier as an alias in the identity registry.
+  externalAlias?: CommandExternalAlias
+}
+
+export interface ModelImportMatch {
+  sourceId: string
+  elementId: string
+}
+
+export interface ModelImportSkip {
+  sourceId: string
+  reason: string
+}
+
+export interface ModelImportPlan {
+  schemaVersion: 1
+  format: 'sysml-v2-api' | 'reqif' | 'requirement-table'
+  baseSnapshotSha256: string
+  proposals: ModelImportProposal[]
+  // Items that already exist in the workspace, by stable identity or
+  // qualified name.
+  matched: ModelImportMatch[]
+  skipped: ModelImportSkip[]
+  // Set when proposals target what earlier proposals create. The batch holds
+  // them all, so they are reviewed and applied as one transaction.
+  batch?: Extract<WorkbenchCommand, { kind: 'command-batch' }>
+}
+
+export class ModelExchangeError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'ModelExchangeError'
+  }
+}
+
+// Foreign names are free text; SysML names here are plain identifiers.
+export function sysmlName(value: string): string {
+  const name = value.trim().replace(/[^\p{L}\p{N}_]+/gu, '_').replace(/^_+|_+$/gu, '')
+  return /^[\p{L}_]/u.test(name) ? name : `_${name}`
+}
+
+export type RelationshipFinder = (
+  kind: SemanticRelationshipKind,
+  sourceId: string,
+  targetId: string,
+) => SemanticRelationship | undefined
+
+// Finds a workspace relationship by kind and endpoints. Importers build one
+// per plan instead of scanning the snapshot for every imported link.
+export function relationshipFinder(snapshot: SemanticSnapshot): RelationshipFinder {
+  const byEndpoints = new Map<string, SemanticRelationship>()
+  for (const relationship of snapshot.relationships) {
+    const key = JSON.stringify([relationship.kind, relationship.sourceId, relationship.targetId])
+    if (!byEndpoints.has(key)) byEndpoints.set(key, relationship)
+  }
+  return (kind, sourceId, targetId) => byEndpoints.get(JSON.stringify([kind, sourceId, targetId]))
+}
+
+export * from './reqif.js'
+export * from './requirement-table.js'
+export * from './sysml-api.js'
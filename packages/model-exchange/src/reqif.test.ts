@@ -0,0 +1,322 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import type { RequirementCoverageRow } from '../../rule-engine/src/index.js'
+import type {
+  NormalizedElementKind,
+  SemanticElement,
+  SemanticRelationship,
+  SemanticSnapshot,
+} from '../../semantic-model/src/index.js'
+import { exportReqif, planReqifImport } from './index.js'
+
+const source = [
+  'package System {',
+  '  requirement maxSpeed { doc /* The vehicle shall not',
+  '     * exceed 120 km/h. */',
+  '    requirement cruise;',
+  '  }',
+  '}',
+].join('\n')
+const documents = [{ uri: 'file:///workspace/model.sysml', text: source }]
+
+const snapshot = semanticSnapshot(
+  [
+    element('wb:s:system', 'Package', 'System', undefined, [0, 0, 5, 1]),
+    element('wb:s:max', 'RequirementUsage', 'maxSpeed', 'wb:s:system', [1, 2, 4, 3]),
+    element('wb:s:cruise', 'RequirementUsage', 'cruise', 'wb:s:max', [3, 4, 3, 23]),
+    element('wb:s:controller', 'PartUsage', 'controller', 'wb:s:system'),
+    element('wb:s:speed-test', 'VerificationUsage', 'speedTest', 'wb:s:system'),
+  ],
+  [
+    relationship('rel:sat', 'satisfaction', 'wb:s:controller', 'wb:s:max'),
+    relationship('rel:ver', 'verification', 'wb:s:speed-test', 'wb:s:max'),
+  ],
+)
+const coverage: RequirementCoverageRow[] = [
+  coverageRow('wb:s:cruise', 'System::maxSpeed::cruise', [], []),
+  coverageRow('wb:s:max', 'System::maxSpeed', ['wb:s:controller'], ['wb:s:speed-test']),
+]
+
+describe('ReqIF exchange', () => {
+  it('exports requirements with their links and round-trips them by identity', () => {
+    const options = {
+      createdAt: '2026-10-01T00:00:00.000Z',
+      documents,
+      aliases: new Map([['wb:s:max', 'DOORS-7']]),
+    }
+    const reqif = exportReqif(snapshot, coverage, options)
+    expect(exportReqif(snapshot, coverage, options)).toBe(reqif)
+    expect(reqif).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<REQ-IF xmlns=/u)
+    expect(reqif).toContain('<SPEC-OBJECT IDENTIFIER="DOORS-7" LAST-CHANGE="2026-10-01T00:00:00.000Z" LONG-NAME="maxSpeed">')
+    expect(reqif).toContain('<xhtml:div>The vehicle shall not exceed 120 km/h.</xhtml:div>')
+    expect(reqif).toContain('<SPEC-OBJECT IDENTIFIER="wb.s.controller"')
+    expect(reqif.replace(/\n\s*/gu, '')).toContain([
+      '<SPEC-RELATION IDENTIFIER="rel.sat" LAST-CHANGE="2026-10-01T00:00:00.000Z">',
+      '<TYPE><SPEC-RELATION-TYPE-REF>wb.type.satisfy</SPEC-RELATION-TYPE-REF></TYPE>',
+      '<SOURCE><SPEC-OBJECT-REF>wb.s.controller</SPEC-OBJECT-REF></SOURCE>',
+      '<TARGET><SPEC-OBJECT-REF>DOORS-7</SPEC-OBJECT-REF></TARGET>',
+    ].join(''))
+    expect(reqif.indexOf('<SPEC-OBJECT-REF>wb.s.cruise</SPEC-OBJECT-REF>'))
+      .toBeGreaterThan(reqif.indexOf('<SPEC-HIERARCHY IDENTIFIER="hierarchy.DOORS-7"'))
+
+    const plan = planReqifImport(reqif, snapshot, {
+      ownerId: 'wb:s:system',
+      documents,
+      resolveAlias: (identifier) => (identifier === 'DOORS-7' ? 'wb:s:max' : undefined),
+    })
+    expect(plan).toMatchObject({ schemaVersion: 1, format: 'reqif', baseSnapshotSha256: 'a'.repeat(64) })
+    expect(plan.proposals).toEqual([])
+    expect(plan.skipped).toEqual([])
+    expect(plan.matched).toEqual([
+      { sourceId: 'DOORS-7', elementId: 'wb:s:max' },
+      { sourceId: 'wb.s.cruise', elementId: 'wb:s:cruise' },
+      { sourceId: 'wb.s.controller', elementId: 'wb:s:controller' },
+      { sourceId: 'wb.s.speed-test', elementId: 'wb:s:speed-test' },
+      { sourceId: 'rel.sat', elementId: 'rel:sat' },
+      { sourceId: 'rel.ver', elementId: 'rel:ver' },
+    ])
+  })
+
+  it('proposes creates and updates for a partner ReqIF file and keeps its identifiers', () => {
+    const reqif = partnerReqif(
+      [
+        specObject('REQ-3', 'req', { name: 'Gust response' }),
+        specObject('REQ-1', 'req', { name: 'Top speed', text: '<xhtml:p>The vehicle shall not exceed</xhtml:p><xhtml:p>130 km/h.</xhtml:p>' }),
+        specObject('REQ-2', 'req', { name: 'Cruise hold', text: 'Hold the set speed.' }),
+        specObject('REQ-4', 'req', { name: '4 wheel drive', text: 'Drive all */ wheels.' }),
+        specObject('EL-1', 'element', { elementId: 'wb:s:controller', kind: 'PartUsage' }),
+        specObject('EL-2', 'element', { kind: 'PartUsage', name: 'brake' }),
+      ],
+      [
+        specRelation('LINK-1', 'verifies', 'EL-1', 'REQ-1'),
+        specRelation('LINK-2', 'satisfies', 'EL-1', 'REQ-2'),
+        specRelation('LINK-3', 'refines', 'REQ-2', 'REQ-1'),
+        specRelation('LINK-4', 'satisfies', 'EL-1', 'REQ-9'),
+      ],
+      '<SPEC-HIERARCHY IDENTIFIER="h-1"><OBJECT><SPEC-OBJECT-REF>REQ-1</SPEC-OBJECT-REF></OBJECT><CHILDREN>' +
+        '<SPEC-HIERARCHY IDENTIFIER="h-2"><OBJECT><SPEC-OBJECT-REF>REQ-2</SPEC-OBJECT-REF></OBJECT><CHILDREN>' +
+        '<SPEC-HIERARCHY IDENTIFIER="h-3"><OBJECT><SPEC-OBJECT-REF>REQ-3</SPEC-OBJECT-REF></OBJECT></SPEC-HIERARCHY>' +
+        '</CHILDREN></SPEC-HIERARCHY></CHILDREN></SPEC-HIERARCHY>' +
+        '<SPEC-HIERARCHY IDENTIFIER="h-4"><OBJECT><SPEC-OBJECT-REF>REQ-4</SPEC-OBJECT-REF></OBJECT></SPEC-HIERARCHY>',
+    )
+    const plan = planReqifImport(reqif, snapshot, {
+      ownerId: 'wb:s:system',
+      documents,
+      resolveAlias: (identifier) => (identifier === 'REQ-1' ? 'wb:s:max' : undefined),
+    })
+    expect(plan.proposals).toEqual([
+      {
+        sourceId: 'REQ-1',
+        title: 'Rename System::maxSpeed to Top_speed',
+        command: { kind: 'rename-element', targetId: 'wb:s:max', newName: 'Top_speed' },
+      },
+      {
+        sourceId: 'REQ-1',
+        title: 'Update documentation of System::maxSpeed',
+        command: {
+          kind: 'update-documentation',
+          targetId: 'wb:s:max',
+          documentation: 'The vehicle shall not exceed 130 km/h.',
+        },
+      },
+      {
+        sourceId: 'REQ-2',
+        title: 'Create RequirementDefinition System::maxSpeed::Cruise_hold',
+        command: {
+          kind: 'command-batch',
+          steps: [
+            {
+              command: { kind: 'create-element', ownerId: 'wb:s:max', elementKind: 'RequirementDefinition', name: 'Cruise_hold' },
+              externalAlias: { scheme: 'reqif', identifier: 'REQ-2' },
+            },
+            { command: { kind: 'update-documentation', targetId: 'step:0', documentation: 'Hold the set speed.' } },
+          ],
+        },
+      },
+      {
+        sourceId: 'REQ-4',
+        title: 'Create RequirementDefinition System::_4_wheel_drive',
+        command: { kind: 'create-element', ownerId: 'wb:s:system', elementKind: 'RequirementDefinition', name: '_4_wheel_drive' },
+        externalAlias: { scheme: 'reqif', identifier: 'REQ-4' },
+      },
+      {
+        sourceId: 'LINK-1',
+        title: 'Create verification from System::controller to System::maxSpeed',
+        command: {
+          kind: 'create-relationship',
+          ownerId: 'wb:s:system',
+          relationshipKind: 'verification',
+          sourceId: 'wb:s:controller',
+          targetId: 'wb:s:max',
+        },
+      },
+    ])
+    expect(plan.matched).toEqual([
+      { sourceId: 'REQ-1', elementId: 'wb:s:max' },
+      { sourceId: 'EL-1', elementId: 'wb:s:controller' },
+    ])
+    expect(plan.skipped).toEqual([
+      { sourceId: 'REQ-3', reason: 'Owner REQ-2 is not in the workspace yet; import again after applying its proposal' },
+      { sourceId: 'REQ-4', reason: 'Text contains a block-comment terminator' },
+      { sourceId: 'EL-2', reason: 'PartUsage brake is not in the workspace; only requirements are created from ReqIF' },
+      { sourceId: 'LINK-2', reason: 'Endpoint REQ-2 is not in the workspace yet; import again after applying its proposal' },
+      { sourceId: 'LINK-3', reason: 'Relation type refines is not a satisfy or verify link' },
+      { sourceId: 'LINK-4', reason: 'Endpoint REQ-9 is not in the file' },
+    ])
+  })
+
+  it('rejects ReqIF documents that are unsafe or not well-formed', () => {
+    const options = { ownerId: 'wb:s:system', documents }
+    expect(() => planReqifImport('<!DOCTYPE x [<!ENTITY e SYSTEM "file:///etc/passwd">]><REQ-IF/>', snapshot, options))
+      .toThrow('ReqIF import documents with a DOCTYPE are not accepted')
+    expect(() => planReqifImport('<REQ-IF><CORE-CONTENT></REQ-IF>', snapshot, options))
+      .toThrow('ReqIF import is not well-formed XML: unexpected </REQ-IF>')
+    expect(() => planReqifImport('<SPECIFICATION/>', snapshot, options))
+      .toThrow('ReqIF import must be a REQ-IF document')
+    expect(() => planReqifImport(partnerReqif([specObject('A', 'req', {}), specObject('A', 'req', {})], [], ''), snapshot, options))
+      .toThrow('ReqIF import repeats IDENTIFIER A')
+    expect(() => planReqifImport(partnerReqif([], [], ''), snapshot, { ...options, ownerId: 'wb:s:missing' }))
+      .toThrow('Unknown ReqIF import owner: wb:s:missing')
+  })
+})
+
+function partnerReqif(objects: string[], relations: string[], hierarchy: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<REQ-IF xmlns="http://www.omg.org/spec/ReqIF/20110401/reqif.xsd" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+  <CORE-CONTENT><REQ-IF-CONTENT>
+    <SPEC-TYPES>
+      <SPEC-OBJECT-TYPE IDENTIFIER="req" LONG-NAME="System Requirement Definition"><SPEC-ATTRIBUTES>
+        <ATTRIBUTE-DEFINITION-STRING IDENTIFIER="req-name" LONG-NAME="ReqIF.Name"/>
+        <ATTRIBUTE-DEFINITION-XHTML IDENTIFIER="req-text" LONG-NAME="ReqIF.Text"/>
+      </SPEC-ATTRIBUTES></SPEC-OBJECT-TYPE>
+      <SPEC-OBJECT-TYPE IDENTIFIER="element" LONG-NAME="Model element"><SPEC-ATTRIBUTES>
+        <ATTRIBUTE-DEFINITION-STRING IDENTIFIER="element-name" LONG-NAME="ReqIF.Name"/>
+        <ATTRIBUTE-DEFINITION-STRING IDENTIFIER="element-id" LONG-NAME="SysML.ElementId"/>
+        <ATTRIBUTE-DEFINITION-STRING IDENTIFIER="element-kind" LONG-NAME="SysML.Kind"/>
+      </SPEC-ATTRIBUTES></SPEC-OBJECT-TYPE>
+      <SPEC-RELATION-TYPE IDENTIFIER="verifies" LONG-NAME="verifies"/>
+      <SPEC-RELATION-TYPE IDENTIFIER="satisfies" LONG-NAME="satisfies"/>
+      <SPEC-RELATION-TYPE IDENTIFIER="refines" LONG-NAME="refines"/>
+    </SPEC-TYPES>
+    <SPEC-OBJECTS>${objects.join('')}</SPEC-OBJECTS>
+    <SPEC-RELATIONS>${relations.join('')}</SPEC-RELATIONS>
+    <SPECIFICATIONS><SPECIFICATION IDENTIFIER="spec"><CHILDREN>${hierarchy}</CHILDREN></SPECIFICATION></SPECIFICATIONS>
+  </REQ-IF-CONTENT></CORE-CONTENT>
+</REQ-IF>
+`
+}
+
+function specObject(
+  identifier: string,
+  type: 'req' | 'element',
+  values: { name?: string; text?: string; elementId?: string; kind?: string },
+): string {
+  const string = (definition: string, value: string | undefined) => value === undefined
+    ? ''
+    : `<ATTRIBUTE-VALUE-STRING THE-VALUE="${value}"><DEFINITION><ATTRIBUTE-DEFINITION-STRING-REF>${definition}</ATTRIBUTE-DEFINITION-STRING-REF></DEFINITION></ATTRIBUTE-VALUE-STRING>`
+  const text = values.text === undefined
+    ? ''
+    : `<ATTRIBUTE-VALUE-XHTML><DEFINITION><ATTRIBUTE-DEFINITION-XHTML-REF>${type}-text</ATTRIBUTE-DEFINITION-XHTML-REF></DEFINITION><THE-VALUE><xhtml:div>${values.text}</xhtml:div></THE-VALUE></ATTRIBUTE-VALUE-XHTML>`
+  return `<SPEC-OBJECT IDENTIFIER="${identifier}" LAST-CHANGE="2026-09-01T00:00:00Z"><TYPE><SPEC-OBJECT-TYPE-REF>${type}</SPEC-OBJECT-TYPE-REF></TYPE><VALUES>${
+    string(`${type}-name`, values.name)}${text}${string('element-id', values.elementId)}${string('element-kind', values.kind)
+  }</VALUES></SPEC-OBJECT>`
+}
+
+function specRelation(identifier: string, type: string, sourceId: string, targetId: string): string {
+  return `<SPEC-RELATION IDENTIFIER="${identifier}"><TYPE><SPEC-RELATION-TYPE-REF>${type}</SPEC-RELATION-TYPE-REF></TYPE><SOURCE><SPEC-OBJECT-REF>${sourceId}</SPEC-OBJECT-REF></SOURCE><TARGET><SPEC-OBJECT-REF>${targetId}</SPEC-OBJECT-REF></TARGET></SPEC-RELATION>`
+}
+
+function semanticSnapshot(
+  elements: SemanticElement[],
+  relationships: SemanticRelationship[],
+): SemanticSnapshot {
+  return {
+    schemaVersion: 1,
+    snapshotSha256: 'a'.repeat(64),
+    workspace: { id: 's', rootUri: 'file:///workspace', configurationName: 'default' },
+    authority: {
+      adapterId: 'test',
+      adapterVersion: '1',
+      engineName: 'test',
+      engineVersion: '1',
+      referenceRelease: 'test',
+      qualificationStatus: 'qualified',
+    },
+    freshness: 'current',
+    documents: [],
+    elements,
+    relationships,
+  }
+}
+
+function element(
+  id: string,
+  kind: NormalizedElementKind,
+  name: string,
+  ownerId?: string,
+  range: [number, number, number, number] = [0, 0, 0, 1],
+): SemanticElement {
+  const qualifiedNames: Record<string, string> = {
+    'wb:s:system': 'System',
+    'wb:s:max': 'System::maxSpeed',
+  }
+  return {
+    id,
+    kind,
+    rawKind: kind,
+    name,
+    qualifiedName: ownerId ? `${qualifiedNames[ownerId]}::${name}` : name,
+    ...(ownerId ? { ownerId } : {}),
+    source: {
+      uri: 'file:///workspace/model.sysml',
+      workspacePath: 'model.sysml',
+      range: { start: { line: range[0], character: range[1] }, end: { line: range[2], character: range[3] } },
+      documentSha256: 'b'.repeat(64),
+    },
+    fingerprint: `fingerprint-${id}`,
+    provenance: {
+      authority: 'qualified-language-engine',
+      extraction: 'pilot-emf-semantic-evidence',
+      classification: 'engine-metaclass',
+      engineId: `engine-${id}`,
+    },
+  }
+}
+
+function relationship(
+  id: string,
+  kind: 'satisfaction' | 'verification',
+  sourceId: string,
+  targetId: string,
+): SemanticRelationship {
+  return {
+    id,
+    kind,
+    sourceId,
+    targetId,
+    provenance: {
+      authority: 'qualified-language-engine',
+      extraction: 'pilot-emf-explicit-reference',
+      engineMetaclass: kind === 'satisfaction' ? 'SatisfyRequirementUsage' : 'RequirementVerificationMembership',
+      features: [],
+    },
+  }
+}
+
+function coverageRow(
+  requirementId: string,
+  qualifiedName: string,
+  satisfyingElementIds: string[],
+  verificationElementIds: string[],
+): RequirementCoverageRow {
+  return {
+    requirementId,
+    qualifiedName,
+    satisfyingElementIds,
+    verificationElementIds,
+    satisfaction: satisfyingElementIds.length > 0 ? 'direct' : 'none',
+    verification: verificationElementIds.length > 0 ? 'direct' : 'none',
+    satisfactionPath: [],
+    verificationPath: [],
+  }
+}
@@ -0,0 +1,582 @@
+import {
+  batchStepReference,
+  type CommandExternalAlias,
+} from '../../command-engine/src/index.js'
+import type { RequirementCoverageRow } from '../../rule-engine/src/index.js'
+import type {
+  SemanticElement,
+  SemanticRelationship,
+  SemanticSnapshot,
+} from '../../semantic-model/src/index.js'
+import {
+  ModelExchangeError,
+  relationshipFinder,
+  sysmlName,
+  type ModelImportMatch,
+  type ModelImportPlan,
+  type ModelImportProposal,
+  type ModelImportSkip,
+} from './index.js'
+import {
+  child,
+  children,
+  parseXml,
+  renderXml,
+  textContent,
+  type XmlElement,
+  type XmlNode,
+} from './xml.js'
+
+// The identity registry scheme under which ReqIF SpecObject IDENTIFIERs are
+// kept as aliases of workbench identities.
+export const REQIF_ALIAS_SCHEME = 'reqif'
+export const MAX_REQIF_IMPORT_LENGTH = 64 * 1024 * 1024
+
+const TOOL_ID = 'SysML Engineering Workbench'
+const REQUIREMENT_KINDS = new Set(['RequirementDefinition', 'RequirementUsage'])
+
+// Attribute names follow the ReqIF Implementation Guide where it has one;
+// the SysML attributes let an unchanged round-trip match without aliases.
+const ATTRIBUTES = {
+  name: 'ReqIF.Name',
+  text: 'ReqIF.Text',
+  elementId: 'SysML.ElementId',
+  qualifiedName: 'SysML.QualifiedName',
+  kind: 'SysML.Kind',
+} as const
+
+export interface ReqifSourceDocument {
+  uri: string
+  text: string
+}
+
+export interface ReqifExportOptions {
+  // Recorded as the header CREATION-TIME and every LAST-CHANGE, so the same
+  // snapshot and time give the same bytes.
+  createdAt: string
+  // Source text the requirement `doc` comments are read from.
+  documents: readonly ReqifSourceDocument[]
+  // ReqIF identifiers already bound to workspace elements, by element id.
+  aliases?: ReadonlyMap<string, string>
+}
+
+export interface ReqifImportOptions {
+  // Owner of SpecObjects that are not nested under another requirement.
+  ownerId: string
+  documents: readonly ReqifSourceDocument[]
+  resolveAlias?: (identifier: string) => string | undefined
+}
+
+export function exportReqif(
+  snapshot: SemanticSnapshot,
+  requirementCoverage: readonly RequirementCoverageRow[],
+  options: ReqifExportOptions,
+): string {
+  const elements = new Map(snapshot.elements.map((element) => [element.id, element]))
+  const requirementIds = new Set(requirementCoverage.map((row) => row.requirementId))
+  const links = requirementCoverage.flatMap((row) => [
+    ...linksOf(snapshot, row.requirementId, 'satisfaction', row.satisfyingElementIds),
+    ...linksOf(snapshot, row.requirementId, 'verification', row.verificationElementIds),
+  ])
+  const linkedIds = [...new Set(links.map((link) => link.sourceId))]
+    .filter((id) => !requirementIds.has(id))
+    .sort()
+  const identifier = (id: string) => options.aliases?.get(id) ?? reqifIdentifier(id)
+  const lastChange = options.createdAt
+
+  const specObject = (element: SemanticElement, type: 'requirement' | 'element'): XmlNode => {
+    const documentation = elementDocumentation(element, options.documents)
+    const value = (attribute: keyof typeof ATTRIBUTES, theValue: string): XmlNode => ({
+      name: 'ATTRIBUTE-VALUE-STRING',
+      attributes: { 'THE-VALUE': theValue },
+      children: [definitionRef('STRING', `wb.attribute.${type}.${attribute}`)],
+    })
+    return {
+      name: 'SPEC-OBJECT',
+      attributes: { IDENTIFIER: identifier(element.id), 'LAST-CHANGE': lastChange, 'LONG-NAME': element.name },
+      children: [
+        { name: 'TYPE', children: [{ name: 'SPEC-OBJECT-TYPE-REF', text: `wb.type.${type}` }] },
+        {
+          name: 'VALUES',
+          children: [
+            value('name', element.name),
+            ...(documentation === undefined
+              ? []
+              : [{
+                  name: 'ATTRIBUTE-VALUE-XHTML',
+                  children: [
+                    definitionRef('XHTML', `wb.attribute.${type}.text`),
+                    { name: 'THE-VALUE', children: [{ name: 'xhtml:div', text: documentation }] },
+                  ],
+                }]),
+            value('elementId', element.id),
+            value('qualifiedName', element.qualifiedName),
+            value('kind', element.kind),
+          ],
+        },
+      ],
+    }
+  }
+
+  // Requirements nest under the requirement that owns them.
+  const nestedRows = new Map<string, RequirementCoverageRow[]>()
+  for (const row of requirementCoverage) {
+    const ownerId = elements.get(row.requirementId)?.ownerId
+    const key = ownerId && requirementIds.has(ownerId) ? ownerId : ''
+    nestedRows.set(key, [...nestedRows.get(key) ?? [], row])
+  }
+  const hierarchy = (parentId: string): XmlNode[] =>
+    (nestedRows.get(parentId) ?? [])
+      .map((row) => {
+        const nested = hierarchy(row.requirementId)
+        return {
+          name: 'SPEC-HIERARCHY',
+          attributes: { IDENTIFIER: `hierarchy.${identifier(row.requirementId)}`, 'LAST-CHANGE': lastChange },
+          children: [
+            { name: 'OBJECT', children: [{ name: 'SPEC-OBJECT-REF', text: identifier(row.requirementId) }] },
+            ...(nested.length > 0 ? [{ name: 'CHILDREN', children: nested }] : []),
+          ],
+        }
+      })
+
+  const requirements = requirementCoverage
+    .map((row) => elements.get(row.requirementId))
+    .filter((element): element is SemanticElement => element !== undefined)
+  const linked = linkedIds
+    .map((id) => elements.get(id))
+    .filter((element): element is SemanticElement => element !== undefined)
+  const topLevel = hierarchy('')
+
+  return renderXml({
+    name: 'REQ-IF',
+    attributes: {
+      xmlns: 'http://www.omg.org/spec/ReqIF/20110401/reqif.xsd',
+      'xmlns:xhtml': 'http://www.w3.org/1999/xhtml',
+    },
+    children: [
+      {
+        name: 'THE-HEADER',
+        children: [{
+          name: 'REQ-IF-HEADER',
+          attributes: { IDENTIFIER: `header.${snapshot.snapshotSha256.slice(0, 32)}` },
+          children: [
+            { name: 'COMMENT', text: `Semantic snapshot ${snapshot.snapshotSha256}` },
+            { name: 'CREATION-TIME', text: lastChange },
+            { name: 'REQ-IF-TOOL-ID', text: TOOL_ID },
+            { name: 'REQ-IF-VERSION', text: '1.0' },
+            { name: 'SOURCE-TOOL-ID', text: TOOL_ID },
+            { name: 'TITLE', text: snapshot.workspace.id },
+          ],
+        }],
+      },
+      {
+        name: 'CORE-CONTENT',
+        children: [{
+          name: 'REQ-IF-CONTENT',
+          children: [
+            {
+              name: 'DATATYPES',
+              children: [
+                { name: 'DATATYPE-DEFINITION-STRING', attributes: { IDENTIFIER: 'wb.datatype.string', 'LAST-CHANGE': lastChange, 'LONG-NAME': 'String', 'MAX-LENGTH': '4096' } },
+                { name: 'DATATYPE-DEFINITION-XHTML', attributes: { IDENTIFIER: 'wb.datatype.xhtml', 'LAST-CHANGE': lastChange, 'LONG-NAME': 'XHTML' } },
+              ],
+            },
+            {
+              name: 'SPEC-TYPES',
+              children: [
+                specObjectType('requirement', 'Requirement', lastChange),
+                specObjectType('element', 'Model element', lastChange),
+                { name: 'SPEC-RELATION-TYPE', attributes: { IDENTIFIER: 'wb.type.satisfy', 'LAST-CHANGE': lastChange, 'LONG-NAME': 'Satisfy' } },
+                { name: 'SPEC-RELATION-TYPE', attributes: { IDENTIFIER: 'wb.type.verify', 'LAST-CHANGE': lastChange, 'LONG-NAME': 'Verify' } },
+                { name: 'SPECIFICATION-TYPE', attributes: { IDENTIFIER: 'wb.type.specification', 'LAST-CHANGE': lastChange, 'LONG-NAME': 'Requirements' } },
+              ],
+            },
+            {
+              name: 'SPEC-OBJECTS',
+              children: [
+                ...requirements.map((element) => specObject(element, 'requirement')),
+                ...linked.map((element) => specObject(element, 'element')),
+              ],
+            },
+            {
+              name: 'SPEC-RELATIONS',
+              children: links.map((link) => ({
+                name: 'SPEC-RELATION',
+                attributes: { IDENTIFIER: reqifIdentifier(link.id), 'LAST-CHANGE': lastChange },
+                children: [
+                  { name: 'TYPE', children: [{ name: 'SPEC-RELATION-TYPE-REF', text: link.kind === 'satisfaction' ? 'wb.type.satisfy' : 'wb.type.verify' }] },
+                  { name: 'SOURCE', children: [{ name: 'SPEC-OBJECT-REF', text: identifier(link.sourceId) }] },
+                  { name: 'TARGET', children: [{ name: 'SPEC-OBJECT-REF', text: identifier(link.targetId) }] },
+                ],
+              })),
+            },
+            {
+              name: 'SPECIFICATIONS',
+              children: [{
+                name: 'SPECIFICATION',
+                attributes: { IDENTIFIER: `specification.${reqifIdentifier(snapshot.workspace.id)}`, 'LAST-CHANGE': lastChange, 'LONG-NAME': snapshot.workspace.id },
+                children: [
+                  { name: 'TYPE', children: [{ name: 'SPECIFICATION-TYPE-REF', text: 'wb.type.specification' }] },
+                  ...(topLevel.length > 0 ? [{ name: 'CHILDREN', children: topLevel }] : []),
+                ],
+              }],
+            },
+          ],
+        }],
+      },
+    ],
+  })
+}
+
+// The IDENTIFIER an element is exported under when no ReqIF tool has given
+// it one. ReqIF identifiers are xsd:ID values, which cannot contain colons.
+export function reqifIdentifier(id: string): string {
+  return id.replaceAll(':', '.')
+}
+
+export function planReqifImport(
+  document: string,
+  snapshot: SemanticSnapshot,
+  options: ReqifImportOptions,
+): ModelImportPlan {
+  if (document.length > MAX_REQIF_IMPORT_LENGTH) {
+    throw new ModelExchangeError(`ReqIF import exceeds ${MAX_REQIF_IMPORT_LENGTH} characters`)
+  }
+  const elements = new Map(snapshot.elements.map((element) => [element.id, element]))
+  const rootOwner = elements.get(options.ownerId)
+  if (!rootOwner) throw new ModelExchangeError(`Unknown ReqIF import owner: ${options.ownerId}`)
+  const content = readContent(document)
+  const byQualifiedName = new Map<string, SemanticElement>()
+  for (const element of snapshot.elements) {
+    if (!byQualifiedName.has(element.qualifiedName)) byQualifiedName.set(element.qualifiedName, element)
+  }
+  const findRelationship = relationshipFinder(snapshot)
+  const proposals: ModelImportProposal[] = []
+  const matched: ModelImportMatch[] = []
+  const skipped: ModelImportSkip[] = []
+  const skip = (sourceId: string, reason: string) => skipped.push({ sourceId, reason })
+  // The workspace element each SpecObject denotes, or why there is none.
+  const resolved = new Map<string, SemanticElement | string>()
+
+  // Parents come before their children, so owners resolve first.
+  for (const object of content.objects) {
+    const sourceId = object.identifier
+    const name = sysmlName(object.values.get(ATTRIBUTES.name) ?? object.longName ?? sourceId)
+    const parentId = content.parents.get(sourceId)
+    const parent = parentId === undefined ? rootOwner : resolved.get(parentId)
+    const aliased = options.resolveAlias?.(sourceId)
+    const elementId = object.values.get(ATTRIBUTES.elementId)
+    const qualifiedName = object.values.get(ATTRIBUTES.qualifiedName) ??
+      (typeof parent === 'object' ? `${parent.qualifiedName}::${name}` : undefined)
+    const existing = (aliased === undefined ? undefined : elements.get(aliased)) ??
+      (elementId === undefined ? undefined : elements.get(elementId)) ??
+      (qualifiedName === undefined ? undefined : byQualifiedName.get(qualifiedName))
+    const kind = requirementKind(object)
+    if (!existing) {
+      if (!kind) {
+        const reason = `${object.values.get(ATTRIBUTES.kind)} ${name} is not in the workspace; only requirements are created from ReqIF`
+        resolved.set(sourceId, `${sourceId} is not in the workspace`)
+        skip(sourceId, reason)
+        continue
+      }
+      if (typeof parent !== 'object') {
+        const reason = `Owner ${parent ?? `${parentId} is not in the file`}`
+        resolved.set(sourceId, `${sourceId} is not in the workspace yet; import again after applying its proposal`)
+        skip(sourceId, reason)
+        continue
+      }
+      resolved.set(sourceId, `${sourceId} is not in the workspace yet; import again after applying its proposal`)
+      const title = `Create ${kind} ${parent.qualifiedName}::${name}`
+      const create = { kind: 'create-element' as const, ownerId: parent.id, elementKind: kind, name }
+      const text = object.values.get(ATTRIBUTES.text)
+      if (text?.includes('*/')) skip(sourceId, 'Text contains a block-comment terminator')
+      // The text is written in the same transaction as the requirement it
+      // documents, which has no identity to target until the batch plans it.
+      proposals.push(text && !text.includes('*/')
+        ? {
+            sourceId,
+            title,
+            command: {
+              kind: 'command-batch',
+              steps: [
+                { command: create, externalAlias: reqifAlias(sourceId) },
+                {
+                  command: {
+                    kind: 'update-documentation',
+                    targetId: batchStepReference(0),
+                    documentation: text,
+                  },
+                },
+              ],
+            },
+          }
+        : { sourceId, title, command: create, externalAlias: reqifAlias(sourceId) })
+      continue
+    }
+    resolved.set(sourceId, existing)
+    matched.push({ sourceId, elementId: existing.id })
+    // An identifier the workbench minted itself needs no alias.
+    const externalAlias = aliased === existing.id || sourceId === reqifIdentifier(existing.id)
+      ? {}
+      : { externalAlias: reqifAlias(sourceId) }
+    if (kind && name !== existing.name) {
+      proposals.push({
+        sourceId,
+        title: `Rename ${existing.qualifiedName} to ${name}`,
+        command: { kind: 'rename-element', targetId: existing.id, newName: name },
+        ...externalAlias,
+      })
+    }
+    const text = object.values.get(ATTRIBUTES.text)
+    if (!kind || text === undefined || text === (elementDocumentation(existing, options.documents) ?? '')) {
+      continue
+    }
+    if (text.includes('*/')) {
+      skip(sourceId, 'Text contains a block-comment terminator')
+      continue
+    }
+    proposals.push({
+      sourceId,
+      title: `Update documentation of ${existing.qualifiedName}`,
+      command: { kind: 'update-documentation', targetId: existing.id, documentation: text },
+      ...externalAlias,
+    })
+  }
+
+  for (const relation of content.relations) {
+    const sourceId = relation.identifier
+    const kind = /satisf/iu.test(relation.typeName)
+      ? 'satisfaction' as const
+      : /verif/iu.test(relation.typeName) ? 'verification' as const : undefined
+    if (!kind) {
+      skip(sourceId, `Relation type ${relation.typeName} is not a satisfy or verify link`)
+      continue
+    }
+    const source = resolved.get(relation.sourceId) ?? `${relation.sourceId} is not in the file`
+    const target = resolved.get(relation.targetId) ?? `${relation.targetId} is not in the file`
+    if (typeof source === 'string' || typeof target === 'string') {
+      skip(sourceId, `Endpoint ${typeof source === 'string' ? source : target}`)
+      continue
+    }
+    const existing = findRelationship(kind, source.id, target.id)
+    if (existing) {
+      matched.push({ sourceId, elementId: existing.id })
+      continue
+    }
+    const owner = elements.get(source.ownerId ?? '') ?? elements.get(target.ownerId ?? '')
+    if (!owner) {
+      skip(sourceId, 'Owner of the relationship is unknown')
+      continue
+    }
+    proposals.push({
+      sourceId,
+      title: `Create ${kind} from ${source.qualifiedName} to ${target.qualifiedName}`,
+      command: {
+        kind: 'create-relationship',
+        ownerId: owner.id,
+        relationshipKind: kind,
+        sourceId: source.id,
+        targetId: target.id,
+      },
+    })
+  }
+
+  return {
+    schemaVersion: 1,
+    format: 'reqif',
+    baseSnapshotSha256: snapshot.snapshotSha256,
+    proposals,
+    matched,
+    skipped,
+  }
+}
+
+// The first `doc` comment of the element's declaration, as plain text.
+export function elementDocumentation(
+  element: SemanticElement,
+  documents: readonly ReqifSourceDocument[],
+): string | undefined {
+  const document = documents.find((candidate) => candidate.uri === element.source.uri)
+  if (!document) return undefined
+  const start = offsetAt(document.text, element.source.range.start)
+  const end = offsetAt(document.text, element.source.range.end)
+  const comment = /\bdoc\s*\/\*([\s\S]*?)\*\//u.exec(document.text.slice(start, end))
+  if (!comment) return undefined
+  return comment[1]!
+    .split('\n')
+    .map((line) => line.replace(/^\s*\*(?!\/)/u, ''))
+    .join(' ')
+    .replace(/\s+/gu, ' ')
+    .trim()
+}
+
+interface ReqifObject {
+  identifier: string
+  longName?: string
+  typeName: string
+  values: Map<string, string>
+}
+
+interface ReqifRelation {
+  identifier: string
+  typeName: string
+  sourceId: string
+  targetId: string
+}
+
+function readContent(document: string): {
+  objects: ReqifObject[]
+  relations: ReqifRelation[]
+  parents: Map<string, string>
+} {
+  const root = parseXml(document, 'ReqIF import')
+  if (root.name !== 'REQ-IF') {
+    throw new ModelExchangeError('ReqIF import must be a REQ-IF document')
+  }
+  const content = child(child(root, 'CORE-CONTENT'), 'REQ-IF-CONTENT')
+  if (!content) throw new ModelExchangeError('ReqIF import has no REQ-IF-CONTENT')
+  const longNames = new Map<string, string>()
+  const collect = (element: XmlElement) => {
+    if (element.attributes.IDENTIFIER && element.attributes['LONG-NAME'] !== undefined) {
+      longNames.set(element.attributes.IDENTIFIER, element.attributes['LONG-NAME'])
+    }
+    element.children.forEach(collect)
+  }
+  collect(child(content, 'SPEC-TYPES') ?? content)
+  const reference = (element: XmlElement | undefined, container: string) => {
+    const ref = child(element, container)?.children[0]
+    return ref ? ref.text.trim() : undefined
+  }
+
+  const seen = new Set<string>()
+  const identifierOf = (element: XmlElement, label: string) => {
+    const identifier = element.attributes.IDENTIFIER
+    if (!identifier) throw new ModelExchangeError(`ReqIF ${label} has no IDENTIFIER`)
+    if (seen.has(identifier)) throw new ModelExchangeError(`ReqIF import repeats IDENTIFIER ${identifier}`)
+    seen.add(identifier)
+    return identifier
+  }
+  const objects = children(child(content, 'SPEC-OBJECTS'), 'SPEC-OBJECT').map((element) => {
+    const identifier = identifierOf(element, 'SPEC-OBJECT')
+    const values = new Map<string, string>()
+    for (const value of children(child(element, 'VALUES'))) {
+      const definition = reference(value, 'DEFINITION')
+      const name = definition === undefined ? undefined : longNames.get(definition)
+      if (!name) continue
+      const theValue = value.attributes['THE-VALUE'] ??
+        (child(value, 'THE-VALUE') ? textContent(child(value, 'THE-VALUE')!) : undefined)
+      if (theValue !== undefined) values.set(name, theValue)
+    }
+    return {
+      identifier,
+      ...(element.attributes['LONG-NAME'] ? { longName: element.attributes['LONG-NAME'] } : {}),
+      typeName: longNames.get(reference(element, 'TYPE') ?? '') ?? '',
+      values,
+    }
+  })
+  const relations = children(child(content, 'SPEC-RELATIONS'), 'SPEC-RELATION').map((element) => {
+    const identifier = identifierOf(element, 'SPEC-RELATION')
+    const sourceId = reference(element, 'SOURCE')
+    const targetId = reference(element, 'TARGET')
+    if (!sourceId || !targetId) {
+      throw new ModelExchangeError(`ReqIF SPEC-RELATION ${identifier} needs a SOURCE and TARGET`)
+    }
+    return {
+      identifier,
+      typeName: longNames.get(reference(element, 'TYPE') ?? '') ?? '',
+      sourceId,
+      targetId,
+    }
+  })
+
+  const parents = new Map<string, string>()
+  const order = new Map<string, number>()
+  const walk = (hierarchy: XmlElement, parentId: string | undefined) => {
+    const objectId = reference(hierarchy, 'OBJECT')
+    if (objectId && !order.has(objectId)) {
+      order.set(objectId, order.size)
+      if (parentId !== undefined) parents.set(objectId, parentId)
+    }
+    for (const nested of children(child(hierarchy, 'CHILDREN'), 'SPEC-HIERARCHY')) {
+      walk(nested, objectId ?? parentId)
+    }
+  }
+  for (const specification of children(child(content, 'SPECIFICATIONS'), 'SPECIFICATION')) {
+    for (const hierarchy of children(child(specification, 'CHILDREN'), 'SPEC-HIERARCHY')) {
+      walk(hierarchy, undefined)
+    }
+  }
+  objects.sort((left, right) =>
+    (order.get(left.identifier) ?? order.size) - (order.get(right.identifier) ?? order.size))
+  return { objects, relations, parents }
+}
+
+function linksOf(
+  snapshot: SemanticSnapshot,
+  requirementId: string,
+  kind: 'satisfaction' | 'verification',
+  sourceIds: readonly string[],
+): SemanticRelationship[] {
+  return snapshot.relationships
+    .filter((relationship) =>
+      relationship.kind === kind &&
+      relationship.targetId === requirementId &&
+      sourceIds.includes(relationship.sourceId))
+    .sort((left, right) => left.id.localeCompare(right.id))
+}
+
+function specObjectType(type: 'requirement' | 'element', longName: string, lastChange: string): XmlNode {
+  const attribute = (key: keyof typeof ATTRIBUTES, datatype: 'STRING' | 'XHTML'): XmlNode => ({
+    name: `ATTRIBUTE-DEFINITION-${datatype}`,
+    attributes: { IDENTIFIER: `wb.attribute.${type}.${key}`, 'LAST-CHANGE': lastChange, 'LONG-NAME': ATTRIBUTES[key] },
+    children: [{
+      name: 'TYPE',
+      children: [{ name: `DATATYPE-DEFINITION-${datatype}-REF`, text: `wb.datatype.${datatype.toLowerCase()}` }],
+    }],
+  })
+  return {
+    name: 'SPEC-OBJECT-TYPE',
+    attributes: { IDENTIFIER: `wb.type.${type}`, 'LAST-CHANGE': lastChange, 'LONG-NAME': longName },
+    children: [{
+      name: 'SPEC-ATTRIBUTES',
+      children: [
+        attribute('name', 'STRING'),
+        attribute('text', 'XHTML'),
+        attribute('elementId', 'STRING'),
+        attribute('qualifiedName', 'STRING'),
+        attribute('kind', 'STRING'),
+      ],
+    }],
+  }
+}
+
+function definitionRef(datatype: 'STRING' | 'XHTML', identifier: string): XmlNode {
+  return {
+    name: 'DEFINITION',
+    children: [{ name: `ATTRIBUTE-DEFINITION-${datatype}-REF`, text: identifier }],
+  }
+}
+
+// SpecObjects without a SysML kind are requirements; a requirement
+// definition is recognised by its SpecObjectType name.
+function requirementKind(object: ReqifObject): 'RequirementDefinition' | 'RequirementUsage' | undefined {
+  const kind = object.values.get(ATTRIBUTES.kind)
+  if (kind !== undefined) {
+    return REQUIREMENT_KINDS.has(kind) ? kind as 'RequirementDefinition' | 'RequirementUsage' : undefined
+  }
+  return /definition/iu.test(object.typeName) ? 'RequirementDefinition' : 'RequirementUsage'
+}
+
+function reqifAlias(identifier: string): CommandExternalAlias {
+  return { scheme: REQIF_ALIAS_SCHEME, identifier }
+}
+
+function offsetAt(text: string, position: { line: number; character: number }): number {
+  let offset = 0
+  for (let line = 0; line < position.line; line += 1) {
+    const next = text.indexOf('\n', offset)
+    if (next < 0) return text.length
+    offset = next + 1
+  }
+  return Math.min(text.length, offset + position.character)
+}
@@ -0,0 +1,270 @@
+// @vitest-environment node
+import { deflateRawSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import type {
+  NormalizedElementKind,
+  SemanticElement,
+  SemanticSnapshot,
+} from '../../semantic-model/src/index.js'
+import {
+  planRequirementTableImport,
+  readRequirementTable,
+  type RequirementTable,
+} from './index.js'
+
+const source = [
+  'package System {',
+  '  requirement maxSpeed { doc /* The vehicle shall not exceed 120 km/h. */ }',
+  '  part controller;',
+  '}',
+].join('\n')
+const documents = [{ uri: 'file:///workspace/model.sysml', text: source }]
+
+const snapshot: SemanticSnapshot = {
+  schemaVersion: 1,
+  snapshotSha256: 'a'.repeat(64),
+  workspace: { id: 's', rootUri: 'file:///workspace', configurationName: 'default' },
+  authority: {
+    adapterId: 'test',
+    adapterVersion: '1',
+    engineName: 'test',
+    engineVersion: '1',
+    referenceRelease: 'test',
+    qualificationStatus: 'qualified',
+  },
+  freshness: 'current',
+  documents: [],
+  elements: [
+    element('wb:s:system', 'Package', 'System', undefined, [0, 0, 3, 1]),
+    element('wb:s:max', 'RequirementUsage', 'maxSpeed', 'wb:s:system', [1, 2, 1, 76]),
+    element('wb:s:controller', 'PartUsage', 'controller', 'wb:s:system', [2, 2, 2, 18]),
+  ],
+  relationships: [],
+}
+
+describe('requirement table import', () => {
+  it('reads CSV and XLSX sheets into the same table', () => {
+    const csv = readRequirementTable('requirements.csv', new TextEncoder().encode(
+      '﻿ID;Name;Text;Name\r\nREQ-1;Top speed;"Shall not exceed; ""130"" km/h.\nAt any load.";x\r\n;;;\r\nREQ-2;Cruise hold\r\n',
+    ))
+    const expected: RequirementTable = {
+      columns: ['ID', 'Name', 'Text', 'Name (2)'],
+      rows: [
+        ['REQ-1', 'Top speed', 'Shall not exceed; "130" km/h.\nAt any load.', 'x'],
+        ['REQ-2', 'Cruise hold', '', ''],
+      ],
+    }
+    expect(csv).toEqual(expected)
+
+    const xlsx = readRequirementTable('Requirements.XLSX', zip({
+      'xl/workbook.xml': '<workbook xmlns:r="urn:r"><sheets><sheet name="Reqs" sheetId="1" r:id="rId7"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId7" Target="worksheets/reqs.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>ID</t></si><si><t>Name</t></si><si><r><t>Te</t></r><r><t>xt</t></r></si><si><t>REQ-1</t></si></sst>',
+      'xl/worksheets/reqs.xml': [
+        '<worksheet><sheetData>',
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c><c r="D1" t="str"><v>Name</v></c></row>',
+        '<row r="2"><c r="A2" t="s"><v>3</v></c><c r="B2" t="inlineStr"><is><t>Top speed</t></is></c>',
+        '<c r="C2" t="inlineStr"><is><t>Shall not exceed; "130" km/h.\nAt any load.</t></is></c><c r="D2" t="str"><v>x</v></c></row>',
+        '<row r="4"><c r="A4" t="inlineStr"><is><t>REQ-2</t></is></c><c r="B4" t="inlineStr"><is><t>Cruise hold</t></is></c></row>',
+        '</sheetData></worksheet>',
+      ].join(''),
+    }))
+    expect(xlsx).toEqual(expected)
+  })
+
+  it('plans one batch that creates, documents, and links the rows', () => {
+    const table = readRequirementTable('requirements.csv', new TextEncoder().encode([
+      'ID,Name,Text,Parent,Satisfied by',
+      'REQ-1,Top speed,The vehicle shall not exceed 130 km/h.,,System::controller',
+      'REQ-2,Cruise hold,"Hold the   set speed.",REQ-1,controller; brake',
+      'REQ-3,maxSpeed,The vehicle shall not exceed 125 km/h.,,',
+      'REQ-4,Loop a,,REQ-5,',
+      'REQ-5,Loop b,,REQ-4,',
+    ].join('\n')))
+    const plan = planRequirementTableImport(table, {
+      id: 'ID',
+      name: 'Name',
+      text: 'Text',
+      parent: 'Parent',
+      satisfiedBy: 'Satisfied by',
+    }, snapshot, { ownerId: 'wb:s:system', documents })
+
+    expect(plan).toMatchObject({ schemaVersion: 1, format: 'requirement-table', baseSnapshotSha256: 'a'.repeat(64) })
+    expect(plan.batch).toEqual({
+      kind: 'command-batch',
+      steps: [
+        {
+          command: { kind: 'create-element', ownerId: 'wb:s:system', elementKind: 'RequirementUsage', name: 'Top_speed' },
+          externalAlias: { scheme: 'requirement-table', identifier: 'REQ-1' },
+        },
+        { command: { kind: 'update-documentation', targetId: 'step:0', documentation: 'The vehicle shall not exceed 130 km/h.' } },
+        {
+          command: {
+            kind: 'create-relationship',
+            ownerId: 'wb:s:system',
+            relationshipKind: 'satisfaction',
+            sourceId: 'wb:s:controller',
+            targetId: 'step:0',
+          },
+        },
+        {
+          command: { kind: 'update-documentation', targetId: 'wb:s:max', documentation: 'The vehicle shall not exceed 125 km/h.' },
+          externalAlias: { scheme: 'requirement-table', identifier: 'REQ-3' },
+        },
+        {
+          command: { kind: 'create-element', ownerId: 'step:0', elementKind: 'RequirementUsage', name: 'Cruise_hold' },
+          externalAlias: { scheme: 'requirement-table', identifier: 'REQ-2' },
+        },
+        { command: { kind: 'update-documentation', targetId: 'step:4', documentation: 'Hold the set speed.' } },
+        {
+          command: {
+            kind: 'create-relationship',
+            ownerId: 'wb:s:system',
+            relationshipKind: 'satisfaction',
+            sourceId: 'wb:s:controller',
+            targetId: 'step:4',
+          },
+        },
+      ],
+    })
+    expect(plan.proposals.map((proposal) => proposal.title)).toEqual([
+      'Create RequirementUsage System::Top_speed',
+      'Document System::Top_speed',
+      'Satisfy System::Top_speed by System::controller',
+      'Update documentation of System::maxSpeed',
+      'Create RequirementUsage System::Top_speed::Cruise_hold',
+      'Document System::Top_speed::Cruise_hold',
+      'Satisfy System::Top_speed::Cruise_hold by System::controller',
+    ])
+    expect(plan.matched).toEqual([{ sourceId: 'REQ-3', elementId: 'wb:s:max' }])
+    expect(plan.skipped).toEqual([
+      { sourceId: 'REQ-4', reason: 'Row is part of a parent cycle' },
+      { sourceId: 'REQ-5', reason: 'Row is part of a parent cycle' },
+      { sourceId: 'REQ-2', reason: 'Satisfier brake is not in the workspace' },
+    ])
+
+    const again = planRequirementTableImport(
+      { columns: ['Key', 'Title'], rows: [['REQ-3', 'Renamed'], ['REQ-1', 'Top speed']] },
+      { id: 'Key', name: 'Title' },
+      snapshot,
+      {
+        ownerId: 'wb:s:system',
+        documents,
+        resolveAlias: (identifier) => (identifier === 'REQ-3' ? 'wb:s:max' : undefined),
+      },
+    )
+    expect(again.matched).toEqual([{ sourceId: 'REQ-3', elementId: 'wb:s:max' }])
+    expect(again.proposals.map((proposal) => proposal.title)).toEqual(['Create RequirementUsage System::Top_speed'])
+  })
+
+  it('rejects unknown columns, repeated ids, unknown owners, and unreadable files', () => {
+    const table = { columns: ['ID', 'Name'], rows: [['R-1', 'a'], ['R-1', 'b']] }
+    const options = { ownerId: 'wb:s:system', documents }
+    expect(() => planRequirementTableImport(table, { name: 'Title' }, snapshot, options))
+      .toThrow('Requirement table has no column Title for name')
+    expect(() => planRequirementTableImport(table, { name: 'Name', id: 'ID' }, snapshot, options))
+      .toThrow('Requirement table repeats id R-1')
+    expect(() => planRequirementTableImport(table, { name: 'Name' }, snapshot, { ...options, ownerId: 'wb:s:missing' }))
+      .toThrow('Unknown requirement table import owner: wb:s:missing')
+    expect(() => planRequirementTableImport({ columns: ['Name'], rows: [['a', 'b']] }, { name: 'Name' }, snapshot, options))
+      .toThrow('rows of the same width')
+    expect(() => readRequirementTable('requirements.docx', new Uint8Array(4)))
+      .toThrow('Requirement tables must be .csv or .xlsx files')
+    expect(() => readRequirementTable('requirements.xlsx', new TextEncoder().encode('ID,Name\n')))
+      .toThrow('Requirement workbook is not a readable ZIP archive: no end of central directory')
+    expect(() => readRequirementTable('requirements.csv', new TextEncoder().encode('ID,Name\n"R-1,a\n')))
+      .toThrow('unterminated quoted field')
+  })
+
+  it('refuses a table whose commands exceed one batch', () => {
+    const documented = Array.from({ length: 500 }, (_, index) => [`r${index}`, `Text ${index}.`])
+    const options = { ownerId: 'wb:s:system', documents }
+    const plan = planRequirementTableImport(
+      { columns: ['Name', 'Text'], rows: documented },
+      { name: 'Name', text: 'Text' },
+      snapshot,
+      options,
+    )
+    expect(plan.batch?.steps).toHaveLength(1_000)
+    expect(() => planRequirementTableImport(
+      { columns: ['Name', 'Text'], rows: [...documented, ['extra', '']] },
+      { name: 'Name', text: 'Text' },
+      snapshot,
+      options,
+    )).toThrow('Requirement table import needs 1001 commands, more than the 1000 one batch can hold; split the table')
+  })
+
+  it('counts only filled rows against the row limit', () => {
+    const rows = (count: number) => Array.from({ length: count }, (_, index) => `R-${index},r${index}`)
+    const csv = (lines: string[]) => new TextEncoder().encode(['ID,Name', ...lines].join('\n'))
+    expect(readRequirementTable('requirements.csv', csv([...Array(9_000).fill(''), ...rows(2_000)])).rows)
+      .toHaveLength(2_000)
+    expect(() => readRequirementTable('requirements.csv', csv([...Array(9_000).fill(' , '), ...rows(10_001)])))
+      .toThrow('Requirement table has more than 10000 rows')
+  })
+})
+
+// A minimal deflated ZIP archive, as office applications write them.
+function zip(entries: Record<string, string>): Uint8Array {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+  for (const [name, text] of Object.entries(entries)) {
+    const nameBytes = Buffer.from(name)
+    const data = deflateRawSync(Buffer.from(text))
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(Buffer.byteLength(text), 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(Buffer.byteLength(text), 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+    locals.push(local, nameBytes, data)
+    centrals.push(central, nameBytes)
+    offset += local.length + nameBytes.length + data.length
+  }
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(entries).length, 8)
+  end.writeUInt16LE(Object.keys(entries).length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return new Uint8Array(Buffer.concat([...locals, directory, end]))
+}
+
+function element(
+  id: string,
+  kind: NormalizedElementKind,
+  name: string,
+  ownerId: string | undefined,
+  range: [number, number, number, number],
+): SemanticElement {
+  return {
+    id,
+    kind,
+    rawKind: kind,
+    name,
+    qualifiedName: ownerId ? `System::${name}` : name,
+    ...(ownerId ? { ownerId } : {}),
+    source: {
+      uri: 'file:///workspace/model.sysml',
+      workspacePath: 'model.sysml',
+      range: { start: { line: range[0], character: range[1] }, end: { line: range[2], character: range[3] } },
+      documentSha256: 'b'.repeat(64),
+    },
+    fingerprint: `fingerprint-${id}`,
+    provenance: {
+      authority: 'qualified-language-engine',
+      extraction: 'pilot-emf-semantic-evidence',
+      classification: 'engine-metaclass',
+      engineId: `engine-${id}`,
+    },
+  }
+}
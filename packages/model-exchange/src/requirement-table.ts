@@ -0,0 +1,434 @@
+import {
+  batchStepReference,
+  MAX_COMMAND_BATCH_STEPS,
+  type CommandBatchStep,
+  type CommandBatchStepCommand,
+  type CommandExternalAlias,
+} from '../../command-engine/src/index.js'
+import type {
+  SemanticElement,
+  SemanticSnapshot,
+} from '../../semantic-model/src/index.js'
+import {
+  ModelExchangeError,
+  relationshipFinder,
+  sysmlName,
+  type ModelImportMatch,
+  type ModelImportPlan,
+  type ModelImportProposal,
+  type ModelImportSkip,
+} from './index.js'
+import { elementDocumentation, type ReqifSourceDocument } from './reqif.js'
+import { child, children, parseXml, type XmlElement } from './xml.js'
+import { openZip, type ZipArchive } from './zip.js'
+
+// The identity registry scheme under which spreadsheet requirement ids are
+// kept as aliases of workbench identities.
+export const REQUIREMENT_TABLE_ALIAS_SCHEME = 'requirement-table'
+export const MAX_REQUIREMENT_TABLE_BYTES = 16 * 1024 * 1024
+export const MAX_REQUIREMENT_TABLE_ROWS = 10_000
+export const MAX_REQUIREMENT_TABLE_COLUMNS = 256
+
+// A spreadsheet read as text: the header row names the columns, and every
+// other non-blank row is one requirement.
+export interface RequirementTable {
+  columns: string[]
+  rows: string[][]
+}
+
+// Column names for each requirement field. Only name is required.
+export interface RequirementTableMapping {
+  name: string
+  id?: string
+  text?: string
+  // Id or name of another row, or the qualified name of a workspace element.
+  parent?: string
+  // Qualified names of the elements that satisfy the requirement, separated
+  // by semicolons, commas, or line breaks.
+  satisfiedBy?: string
+}
+
+export interface RequirementTableImportOptions {
+  // Owner of rows that have no parent.
+  ownerId: string
+  elementKind?: 'RequirementDefinition' | 'RequirementUsage'
+  documents: readonly ReqifSourceDocument[]
+  resolveAlias?: (identifier: string) => string | undefined
+}
+
+const MAPPING_FIELDS = ['name', 'id', 'text', 'parent', 'satisfiedBy'] as const
+
+export function readRequirementTable(
+  fileName: string,
+  content: Uint8Array,
+): RequirementTable {
+  if (content.byteLength > MAX_REQUIREMENT_TABLE_BYTES) {
+    throw new ModelExchangeError(
+      `Requirement table exceeds ${MAX_REQUIREMENT_TABLE_BYTES} bytes`,
+    )
+  }
+  const extension = /\.([^./\\]+)$/u.exec(fileName)?.[1]?.toLowerCase()
+  const cells = extension === 'xlsx'
+    ? readXlsx(openZip(content, 'Requirement workbook'))
+    : extension === 'csv' || extension === 'tsv' || extension === 'txt'
+      ? readCsv(new TextDecoder('utf-8').decode(content).replace(/^\uFEFF/u, ''))
+      : fail('Requirement tables must be .csv or .xlsx files')
+  const [header = [], ...rows] = cells.filter((row) => !blankRow(row))
+  const width = Math.max(header.length, ...rows.map((row) => row.length))
+  const seen = new Map<string, number>()
+  const columns = Array.from({ length: width }, (_, index) => {
+    const base = header[index]?.trim() || `Column ${index + 1}`
+    const count = (seen.get(base) ?? 0) + 1
+    seen.set(base, count)
+    return count === 1 ? base : `${base} (${count})`
+  })
+  const table = {
+    columns,
+    rows: rows.map((row) => columns.map((_, index) => row[index] ?? '')),
+  }
+  validateTable(table)
+  return table
+}
+
+export function planRequirementTableImport(
+  table: RequirementTable,
+  mapping: RequirementTableMapping,
+  snapshot: SemanticSnapshot,
+  options: RequirementTableImportOptions,
+): ModelImportPlan {
+  validateTable(table)
+  const columnOf = (field: (typeof MAPPING_FIELDS)[number]) => {
+    const column = mapping[field]
+    if (column === undefined || column === '') return -1
+    const index = table.columns.indexOf(column)
+    if (index < 0) fail(`Requirement table has no column ${column} for ${field}`)
+    return index
+  }
+  if (!mapping.name) fail('Requirement table mapping needs a name column')
+  const columns = Object.fromEntries(MAPPING_FIELDS.map((field) => [field, columnOf(field)])) as
+    Record<(typeof MAPPING_FIELDS)[number], number>
+  const elements = new Map(snapshot.elements.map((element) => [element.id, element]))
+  const rootOwner = elements.get(options.ownerId) ??
+    fail(`Unknown requirement table import owner: ${options.ownerId}`)
+  const byQualifiedName = new Map<string, SemanticElement>()
+  const byName = new Map<string, SemanticElement | null>()
+  for (const element of snapshot.elements) {
+    if (!byQualifiedName.has(element.qualifiedName)) byQualifiedName.set(element.qualifiedName, element)
+    byName.set(element.name, byName.has(element.name) ? null : element)
+  }
+  const findElement = (reference: string) =>
+    elements.get(reference) ??
+    byQualifiedName.get(reference) ??
+    byName.get(reference) ??
+    undefined
+
+  const rows = table.rows.map((cells, index) => {
+    const cell = (column: number) => column < 0 ? '' : cells[column]!.trim()
+    const id = cell(columns.id)
+    return {
+      sourceId: id || `row ${index + 2}`,
+      id,
+      name: cell(columns.name),
+      text: cell(columns.text).replace(/\s+/gu, ' '),
+      parent: cell(columns.parent),
+      satisfiedBy: cell(columns.satisfiedBy),
+    }
+  })
+  type Row = (typeof rows)[number]
+  const rowsById = new Map<string, Row>()
+  const rowsByName = new Map<string, Row | null>()
+  for (const row of rows) {
+    if (row.id) {
+      if (rowsById.has(row.id)) fail(`Requirement table repeats id ${row.id}`)
+      rowsById.set(row.id, row)
+    }
+    if (row.name) rowsByName.set(row.name, rowsByName.has(row.name) ? null : row)
+  }
+  const parentRow = (row: Row) =>
+    row.parent ? rowsById.get(row.parent) ?? rowsByName.get(row.parent) ?? undefined : undefined
+
+  const findRelationship = relationshipFinder(snapshot)
+  const proposals: ModelImportProposal[] = []
+  const steps: CommandBatchStep[] = []
+  const matched: ModelImportMatch[] = []
+  const skipped: ModelImportSkip[] = []
+  const skip = (sourceId: string, reason: string) => skipped.push({ sourceId, reason })
+  const propose = (
+    sourceId: string,
+    title: string,
+    command: CommandBatchStepCommand,
+    externalAlias?: CommandExternalAlias,
+  ) => {
+    proposals.push({ sourceId, title, command, ...(externalAlias ? { externalAlias } : {}) })
+    steps.push({ command, ...(externalAlias ? { externalAlias } : {}) })
+    return batchStepReference(steps.length - 1)
+  }
+  // The element each row denotes, existing or created by an earlier step,
+  // or why there is none.
+  const resolved = new Map<Row, { id: string; qualifiedName: string; ownerId?: string } | string>()
+
+  // Parents come before their children, so owners resolve first.
+  const ordered: Row[] = []
+  const pending = new Set(rows.filter((row) => {
+    if (!row.name) skip(row.sourceId, 'Row has no name')
+    return Boolean(row.name)
+  }))
+  while (pending.size > 0) {
+    const ready = [...pending].filter((row) => {
+      const parent = parentRow(row)
+      return !parent || parent === row || !pending.has(parent)
+    })
+    if (ready.length === 0) {
+      for (const row of pending) skip(row.sourceId, 'Row is part of a parent cycle')
+      break
+    }
+    ordered.push(...ready)
+    for (const row of ready) pending.delete(row)
+  }
+
+  for (const row of ordered) {
+    const name = sysmlName(row.name)
+    const fromRow = parentRow(row)
+    const parent = fromRow && fromRow !== row
+      ? resolved.get(fromRow) ?? `${fromRow.sourceId} was skipped`
+      : row.parent
+        ? findElement(row.parent) ?? `${row.parent} is not in the table or the workspace`
+        : rootOwner
+    if (typeof parent === 'string') {
+      resolved.set(row, `${row.sourceId} has no owner`)
+      skip(row.sourceId, `Parent ${parent}`)
+      continue
+    }
+    const aliased = row.id ? options.resolveAlias?.(row.id) : undefined
+    const existing = (aliased === undefined ? undefined : elements.get(aliased)) ??
+      (row.id ? elements.get(row.id) : undefined) ??
+      byQualifiedName.get(`${parent.qualifiedName}::${name}`)
+    const externalAlias = row.id && (!existing || (aliased !== existing.id && row.id !== existing.id))
+      ? tableAlias(row.id)
+      : undefined
+    let target: { id: string; qualifiedName: string; ownerId?: string }
+    if (existing) {
+      matched.push({ sourceId: row.sourceId, elementId: existing.id })
+      target = existing
+      if (row.text && row.text !== (elementDocumentation(existing, options.documents) ?? '')) {
+        if (row.text.includes('*/')) {
+          skip(row.sourceId, 'Text contains a block-comment terminator')
+        } else {
+          propose(
+            row.sourceId,
+            `Update documentation of ${existing.qualifiedName}`,
+            { kind: 'update-documentation', targetId: existing.id, documentation: row.text },
+            externalAlias,
+          )
+        }
+      }
+    } else {
+      const elementKind = options.elementKind ?? 'RequirementUsage'
+      const qualifiedName = `${parent.qualifiedName}::${name}`
+      target = {
+        id: propose(
+          row.sourceId,
+          `Create ${elementKind} ${qualifiedName}`,
+          { kind: 'create-element', ownerId: parent.id, elementKind, name },
+          externalAlias,
+        ),
+        qualifiedName,
+        ownerId: parent.id,
+      }
+      if (row.text.includes('*/')) {
+        skip(row.sourceId, 'Text contains a block-comment terminator')
+      } else if (row.text) {
+        propose(
+          row.sourceId,
+          `Document ${qualifiedName}`,
+          { kind: 'update-documentation', targetId: target.id, documentation: row.text },
+        )
+      }
+    }
+    resolved.set(row, target)
+
+    const satisfiers = new Set(row.satisfiedBy.split(/[;,\n]/u).map((value) => value.trim()).filter(Boolean))
+    for (const reference of satisfiers) {
+      const satisfier = findElement(reference)
+      if (!satisfier) {
+        skip(row.sourceId, `Satisfier ${reference} is not in the workspace`)
+        continue
+      }
+      const link = findRelationship('satisfaction', satisfier.id, target.id)
+      if (link) {
+        matched.push({ sourceId: row.sourceId, elementId: link.id })
+        continue
+      }
+      const ownerId = satisfier.ownerId ?? target.ownerId
+      if (!ownerId) {
+        skip(row.sourceId, `Owner of the satisfy link from ${satisfier.qualifiedName} is unknown`)
+        continue
+      }
+      propose(
+        row.sourceId,
+        `Satisfy ${target.qualifiedName} by ${satisfier.qualifiedName}`,
+        {
+          kind: 'create-relationship',
+          ownerId,
+          relationshipKind: 'satisfaction',
+          sourceId: satisfier.id,
+          targetId: target.id,
+        },
+      )
+    }
+  }
+
+  // The batch is approved as one transaction, so a table that needs more
+  // steps than a batch holds is refused here rather than at proposal.
+  if (steps.length > MAX_COMMAND_BATCH_STEPS) {
+    fail(
+      `Requirement table import needs ${steps.length} commands, more than the ` +
+      `${MAX_COMMAND_BATCH_STEPS} one batch can hold; split the table`,
+    )
+  }
+  return {
+    schemaVersion: 1,
+    format: 'requirement-table',
+    baseSnapshotSha256: snapshot.snapshotSha256,
+    proposals,
+    matched,
+    skipped,
+    ...(steps.length > 0 ? { batch: { kind: 'command-batch' as const, steps } } : {}),
+  }
+}
+
+function validateTable(table: RequirementTable): void {
+  if (
+    !Array.isArray(table?.columns) ||
+    !Array.isArray(table.rows) ||
+    !table.columns.every((column) => typeof column === 'string') ||
+    !table.rows.every((row) =>
+      Array.isArray(row) &&
+      row.length === table.columns.length &&
+      row.every((cell) => typeof cell === 'string'))
+  ) {
+    fail('Requirement table must have string columns and rows of the same width')
+  }
+  if (table.columns.length > MAX_REQUIREMENT_TABLE_COLUMNS) {
+    fail(`Requirement table has more than ${MAX_REQUIREMENT_TABLE_COLUMNS} columns`)
+  }
+  if (table.rows.length > MAX_REQUIREMENT_TABLE_ROWS) {
+    fail(`Requirement table has more than ${MAX_REQUIREMENT_TABLE_ROWS} rows`)
+  }
+}
+
+// RFC 4180 fields, separated by whichever of comma, semicolon, or tab the
+// header line uses most.
+function readCsv(text: string): string[][] {
+  const headerLine = text.slice(0, text.search(/\r?\n|$/u))
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best)
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const pushRow = (cells: string[]) => {
+    if (blankRow(cells)) return
+    rows.push(cells)
+    if (rows.length > MAX_REQUIREMENT_TABLE_ROWS + 1) {
+      fail(`Requirement table has more than ${MAX_REQUIREMENT_TABLE_ROWS} rows`)
+    }
+  }
+  for (let index = 0; index < text.length; index += 1) {
+    const current = text[index]!
+    if (quoted) {
+      if (current === '"' && text[index + 1] === '"') {
+        field += '"'
+        index += 1
+      } else if (current === '"') {
+        quoted = false
+      } else {
+        field += current
+      }
+    } else if (current === '"' && field === '') {
+      quoted = true
+    } else if (current === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (current === '\n' || current === '\r') {
+      if (current === '\r' && text[index + 1] === '\n') index += 1
+      pushRow([...row, field])
+      row = []
+      field = ''
+    } else {
+      field += current
+    }
+  }
+  if (quoted) fail('Requirement table has an unterminated quoted field')
+  if (field || row.length > 0) pushRow([...row, field])
+  return rows
+}
+
+// The first worksheet of an Office Open XML workbook, with shared and inline
+// strings resolved. Numbers and dates are kept as their stored text.
+function readXlsx(archive: ZipArchive): string[][] {
+  const xml = (path: string) => {
+    const bytes = archive.read(path)
+    return bytes ? parseXml(new TextDecoder('utf-8').decode(bytes), 'Requirement workbook') : undefined
+  }
+  const workbook = xml('xl/workbook.xml') ?? fail('Requirement workbook has no xl/workbook.xml')
+  const sheet = children(child(workbook, 'sheets'), 'sheet')[0] ??
+    fail('Requirement workbook has no worksheet')
+  const relationships = children(xml('xl/_rels/workbook.xml.rels'), 'Relationship')
+  const target = relationships.find((relationship) => relationship.attributes.Id === sheet.attributes.id)
+    ?.attributes.Target ?? 'worksheets/sheet1.xml'
+  const worksheet = xml(target.startsWith('/') ? target.slice(1) : `xl/${target}`) ??
+    fail(`Requirement workbook has no ${target}`)
+  const shared = children(xml('xl/sharedStrings.xml'), 'si').map(stringItem)
+
+  const rows: string[][] = []
+  for (const rowElement of children(child(worksheet, 'sheetData'), 'row')) {
+    const row: string[] = []
+    for (const cell of children(rowElement, 'c')) {
+      const column = columnIndex(cell.attributes.r) ?? row.length
+      if (column >= MAX_REQUIREMENT_TABLE_COLUMNS) {
+        fail(`Requirement table has more than ${MAX_REQUIREMENT_TABLE_COLUMNS} columns`)
+      }
+      const value = child(cell, 'v')?.text ?? ''
+      const type = cell.attributes.t
+      row[column] = type === 's'
+        ? shared[Number(value)] ?? ''
+        : type === 'inlineStr'
+          ? stringItem(child(cell, 'is'))
+          : type === 'b' ? (value === '1' ? 'TRUE' : 'FALSE') : value
+    }
+    const cells = Array.from(row, (cell) => cell ?? '')
+    if (blankRow(cells)) continue
+    rows.push(cells)
+    if (rows.length > MAX_REQUIREMENT_TABLE_ROWS + 1) {
+      fail(`Requirement table has more than ${MAX_REQUIREMENT_TABLE_ROWS} rows`)
+    }
+  }
+  return rows
+}
+
+function blankRow(cells: readonly string[]): boolean {
+  return !cells.some((cell) => cell.trim())
+}
+
+// Plain and rich text runs of a string item; phonetic runs are left out.
+function stringItem(item: XmlElement | undefined): string {
+  if (!item) return ''
+  return [child(item, 't'), ...children(item, 'r').map((run) => child(run, 't'))]
+    .map((text) => text?.text ?? '')
+    .join('')
+}
+
+function columnIndex(reference: string | undefined): number | undefined {
+  const letters = reference ? /^([A-Z]+)\d*$/u.exec(reference)?.[1] : undefined
+  if (!letters) return undefined
+  return [...letters].reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+function tableAlias(identifier: string): CommandExternalAlias {
+  return { scheme: REQUIREMENT_TABLE_ALIAS_SCHEME, identifier }
+}
+
+function fail(message: string): never {
+  throw new ModelExchangeError(message)
+}
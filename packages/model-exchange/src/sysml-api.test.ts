@@ -0,0 +1,207 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import type {
+  NormalizedElementKind,
+  SemanticElement,
+  SemanticRelationship,
+  SemanticRelationshipKind,
+  SemanticSnapshot,
+} from '../../semantic-model/src/index.js'
+import {
+  exportSysmlApiElements,
+  planSysmlApiImport,
+  type SysmlApiElement,
+} from './index.js'
+
+const snapshot = semanticSnapshot(
+  [
+    element('wb:s:system', 'Package', 'System'),
+    element('wb:s:controller-def', 'PartDefinition', 'Controller', 'wb:s:system'),
+    element('wb:s:controller', 'PartUsage', 'controller', 'wb:s:system'),
+    element('wb:s:command', 'PortUsage', 'command', 'wb:s:controller', { direction: 'in' }),
+    element('wb:s:command-out', 'PortUsage', 'commandOut', 'wb:s:controller', { direction: 'out' }),
+    element('wb:s:rate', 'RequirementUsage', 'rateLimit', 'wb:s:system'),
+    element('wb:s:comment', 'OpaqueElement', 'note', 'wb:s:system'),
+  ],
+  [
+    relationship('containment', 'wb:s:system', 'wb:s:controller', 'OwningMembership'),
+    relationship('typing', 'wb:s:controller', 'wb:s:controller-def', 'FeatureTyping'),
+    relationship('satisfaction', 'wb:s:controller', 'wb:s:rate', 'SatisfyRequirementUsage'),
+    relationship('connection', 'wb:s:command', 'wb:s:command-out', 'InterfaceUsage'),
+  ],
+)
+
+describe('SysML v2 API exchange', () => {
+  it('exports elements and relationships with stable identities as @id', () => {
+    const exported = exportSysmlApiElements(snapshot)
+    expect(exported).toHaveLength(11)
+    expect(exported[3]).toEqual({
+      '@id': 'wb:s:command',
+      '@type': 'PortUsage',
+      elementId: 'wb:s:command',
+      declaredName: 'command',
+      name: 'command',
+      qualifiedName: 'System::controller::command',
+      owner: { '@id': 'wb:s:controller' },
+      direction: 'in',
+    })
+    expect(exported[0]!.owner).toBeNull()
+    expect(exported[6]!['@type']).toBe('Comment')
+    expect(exported.slice(7).map((item) => [item['@type'], item.source, item.target])).toEqual([
+      ['OwningMembership', [{ '@id': 'wb:s:system' }], [{ '@id': 'wb:s:controller' }]],
+      ['FeatureTyping', [{ '@id': 'wb:s:controller' }], [{ '@id': 'wb:s:controller-def' }]],
+      ['SatisfyRequirementUsage', [{ '@id': 'wb:s:controller' }], [{ '@id': 'wb:s:rate' }]],
+      ['InterfaceUsage', [{ '@id': 'wb:s:command' }], [{ '@id': 'wb:s:command-out' }]],
+    ])
+  })
+
+  it('matches what the workspace already holds and proposes commands for the rest', () => {
+    const exported = exportSysmlApiElements(snapshot)
+    const unchanged = planSysmlApiImport(exported, snapshot)
+    expect(unchanged.proposals).toEqual([])
+    expect(unchanged.skipped).toEqual([])
+    expect(unchanged.matched.map((match) => match.sourceId)).toEqual(
+      exported
+        .filter((item) => !['OwningMembership', 'FeatureTyping'].includes(item['@type']))
+        .map((item) => item['@id']),
+    )
+
+    // A partner tool's own identities resolve by qualified name.
+    const partner: SysmlApiElement[] = [
+      { '@id': 'p-1', '@type': 'Package', elementId: 'p-1', declaredName: 'System', owner: null },
+      { '@id': 'p-2', '@type': 'PartUsage', elementId: 'p-2', declaredName: 'sensor', owner: { '@id': 'p-1' } },
+      { '@id': 'p-3', '@type': 'PortUsage', elementId: 'p-3', declaredName: 'reading', owner: { '@id': 'p-2' } },
+      { '@id': 'p-4', '@type': 'RequirementUsage', elementId: 'p-4', declaredName: 'accuracy', qualifiedName: 'Elsewhere::accuracy', owner: { '@id': 'p-9' } },
+      { '@id': 'p-5', '@type': 'FeatureTyping', elementId: 'p-5', source: [{ '@id': 'p-2' }], target: [{ '@id': 'wb:s:controller-def' }] },
+      { '@id': 'p-6', '@type': 'SatisfyRequirementUsage', elementId: 'p-6', source: [{ '@id': 'wb:s:controller' }], target: [{ '@id': 'p-4' }] },
+      { '@id': 'p-7', '@type': 'RequirementVerificationMembership', elementId: 'p-7', source: [{ '@id': 'wb:s:command' }], target: [{ '@id': 'wb:s:rate' }] },
+      { '@id': 'p-8', '@type': 'Redefinition', elementId: 'p-8', source: [{ '@id': 'wb:s:command' }], target: [{ '@id': 'wb:s:rate' }] },
+      { '@id': 'p-10', '@type': 'Comment', elementId: 'p-10', declaredName: 'note2', owner: { '@id': 'p-1' } },
+    ]
+    const plan = planSysmlApiImport(partner, snapshot)
+    expect(plan).toMatchObject({ schemaVersion: 1, format: 'sysml-v2-api', baseSnapshotSha256: 'a'.repeat(64) })
+    expect(plan.matched).toEqual([{ sourceId: 'p-1', elementId: 'wb:s:system' }])
+    expect(plan.proposals).toEqual([
+      {
+        sourceId: 'p-2',
+        title: 'Create PartUsage System::sensor',
+        command: {
+          kind: 'create-element',
+          ownerId: 'wb:s:system',
+          elementKind: 'PartUsage',
+          name: 'sensor',
+          typeQualifiedName: 'System::Controller',
+        },
+      },
+      {
+        sourceId: 'p-7',
+        title: 'Create verification from System::controller::command to System::rateLimit',
+        command: {
+          kind: 'create-relationship',
+          ownerId: 'wb:s:controller',
+          relationshipKind: 'verification',
+          sourceId: 'wb:s:command',
+          targetId: 'wb:s:rate',
+        },
+      },
+    ])
+    expect(plan.skipped).toEqual([
+      { sourceId: 'p-3', reason: 'Owner p-2 is not in the workspace yet; import again after applying its proposal' },
+      { sourceId: 'p-4', reason: 'Owner p-9 is not in the file or the workspace' },
+      { sourceId: 'p-10', reason: 'Element type Comment cannot be created by a command' },
+      { sourceId: 'p-6', reason: 'Endpoint p-4 is not in the workspace yet; import again after applying its proposal' },
+      { sourceId: 'p-8', reason: 'Relationship type Redefinition cannot be created by a command' },
+    ])
+  })
+
+  it('rejects documents that are not SysML v2 API element arrays', () => {
+    expect(() => planSysmlApiImport({ elements: [] }, snapshot))
+      .toThrow('SysML v2 API import must be a JSON array of elements')
+    expect(() => planSysmlApiImport([{ '@id': 'x' }], snapshot))
+      .toThrow('SysML v2 API element 0 needs a string @id and @type')
+    expect(() => planSysmlApiImport([
+      { '@id': 'x', '@type': 'Package' },
+      { '@id': 'x', '@type': 'Package' },
+    ], snapshot)).toThrow('SysML v2 API import repeats @id x')
+    expect(() => planSysmlApiImport([{ '@id': 'x', '@type': 'Dependency', source: 'a' }], snapshot))
+      .toThrow('SysML v2 API element x has a non-array source')
+  })
+})
+
+function semanticSnapshot(
+  elements: SemanticElement[],
+  relationships: SemanticRelationship[],
+): SemanticSnapshot {
+  return {
+    schemaVersion: 1,
+    snapshotSha256: 'a'.repeat(64),
+    workspace: { id: 's', rootUri: 'file:///workspace', configurationName: 'default' },
+    authority: {
+      adapterId: 'test',
+      adapterVersion: '1',
+      engineName: 'test',
+      engineVersion: '1',
+      referenceRelease: 'test',
+      qualificationStatus: 'qualified',
+    },
+    freshness: 'current',
+    documents: [],
+    elements,
+    relationships,
+  }
+}
+
+function element(
+  id: string,
+  kind: NormalizedElementKind,
+  name: string,
+  ownerId?: string,
+  feature?: SemanticElement['feature'],
+): SemanticElement {
+  const qualifiedNames: Record<string, string> = {
+    'wb:s:system': 'System',
+    'wb:s:controller': 'System::controller',
+  }
+  return {
+    id,
+    kind,
+    rawKind: kind === 'OpaqueElement' ? 'Comment' : kind,
+    name,
+    qualifiedName: ownerId ? `${qualifiedNames[ownerId]}::${name}` : name,
+    ...(ownerId ? { ownerId } : {}),
+    source: {
+      uri: 'file:///workspace/model.sysml',
+      workspacePath: 'model.sysml',
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+      documentSha256: 'b'.repeat(64),
+    },
+    fingerprint: `fingerprint-${id}`,
+    ...(feature ? { feature } : {}),
+    provenance: {
+      authority: 'qualified-language-engine',
+      extraction: 'pilot-emf-semantic-evidence',
+      classification: kind === 'OpaqueElement' ? 'opaque' : 'engine-metaclass',
+      engineId: `engine-${id}`,
+    },
+  }
+}
+
+function relationship(
+  kind: SemanticRelationshipKind,
+  sourceId: string,
+  targetId: string,
+  engineMetaclass: string,
+): SemanticRelationship {
+  return {
+    id: `rel:${kind}:${sourceId}`,
+    kind,
+    sourceId,
+    targetId,
+    provenance: {
+      authority: 'qualified-language-engine',
+      extraction: 'pilot-emf-explicit-reference',
+      engineMetaclass,
+      features: [],
+    },
+  }
+}
@@ -0,0 +1,383 @@
+import type {
+  CreatableElementKind,
+  CreatableRelationshipKind,
+} from '../../command-engine/src/index.js'
+import type { EngineFeatureDirection } from '../../language-adapter/src/index.js'
+import {
+  NORMALIZED_ELEMENT_KINDS,
+  type NormalizedElementKind,
+  type SemanticElement,
+  type SemanticRelationship,
+  type SemanticRelationshipKind,
+  type SemanticSnapshot,
+} from '../../semantic-model/src/index.js'
+import {
+  ModelExchangeError,
+  relationshipFinder,
+  type ModelImportMatch,
+  type ModelImportPlan,
+  type ModelImportProposal,
+  type ModelImportSkip,
+} from './index.js'
+
+export const MAX_SYSML_API_IMPORT_ITEMS = 100_000
+
+export interface SysmlApiReference {
+  '@id': string
+}
+
+// The subset of the SysML v2 API/Services element serialization the workbench
+// reads and writes. Relationships carry `source` and `target`; other
+// properties of the API schema are accepted on import and ignored.
+export interface SysmlApiElement {
+  '@id': string
+  '@type': string
+  elementId: string
+  declaredName?: string
+  name?: string
+  qualifiedName?: string
+  owner?: SysmlApiReference | null
+  direction?: EngineFeatureDirection
+  isConjugated?: boolean
+  source?: SysmlApiReference[]
+  target?: SysmlApiReference[]
+}
+
+const RELATIONSHIP_TYPES: Record<SemanticRelationshipKind, string> = {
+  containment: 'OwningMembership',
+  typing: 'FeatureTyping',
+  dependency: 'Dependency',
+  satisfaction: 'SatisfyRequirementUsage',
+  verification: 'RequirementVerificationMembership',
+  connection: 'ConnectionUsage',
+  flow: 'FlowUsage',
+  interface: 'EndFeatureMembership',
+  specialization: 'Subclassification',
+  redefinition: 'Redefinition',
+  subsetting: 'Subsetting',
+  allocation: 'AllocationUsage',
+  binding: 'BindingConnectorAsUsage',
+}
+
+// Relationship types a command can recreate, with the semantic relationship
+// the engine derives from the created declaration.
+const CREATABLE_RELATIONSHIP_TYPES = new Map<string, {
+  kind: SemanticRelationshipKind
+  command: CreatableRelationshipKind
+}>([
+  ['ConnectionUsage', { kind: 'connection', command: 'connection' }],
+  ['InterfaceUsage', { kind: 'connection', command: 'interface' }],
+  ['FlowUsage', { kind: 'flow', command: 'flow' }],
+  ['SatisfyRequirementUsage', { kind: 'satisfaction', command: 'satisfaction' }],
+  ['RequirementVerificationMembership', { kind: 'verification', command: 'verification' }],
+])
+
+const SEMANTIC_RELATIONSHIP_TYPES = new Map(
+  Object.entries(RELATIONSHIP_TYPES).map(([kind, type]) => [type, kind as SemanticRelationshipKind]),
+)
+const NOT_CREATABLE = new Set<NormalizedElementKind>(['OpaqueElement', 'TransitionUsage'])
+
+export function exportSysmlApiElements(snapshot: SemanticSnapshot): SysmlApiElement[] {
+  return [
+    ...snapshot.elements.map(exportElement),
+    ...snapshot.relationships.map(exportRelationship),
+  ]
+}
+
+// The semantic relationship an API relationship type denotes, if any.
+export function sysmlApiRelationshipKind(type: string): SemanticRelationshipKind | undefined {
+  return CREATABLE_RELATIONSHIP_TYPES.get(type)?.kind ?? SEMANTIC_RELATIONSHIP_TYPES.get(type)
+}
+
+export function planSysmlApiImport(
+  document: unknown,
+  snapshot: SemanticSnapshot,
+): ModelImportPlan {
+  const items = readItems(document)
+  const model = new ImportModel(items, snapshot)
+  const findRelationship = relationshipFinder(snapshot)
+  const proposals: ModelImportProposal[] = []
+  const matched: ModelImportMatch[] = []
+  const skipped: ModelImportSkip[] = []
+  const skip = (sourceId: string, reason: string) => skipped.push({ sourceId, reason })
+
+  for (const item of items.filter((candidate) => !isRelationship(candidate))) {
+    const sourceId = item['@id']
+    const existing = model.existing(sourceId)
+    if (existing) {
+      matched.push({ sourceId, elementId: existing.id })
+      continue
+    }
+    const kind = item['@type'] as NormalizedElementKind
+    if (!NORMALIZED_ELEMENT_KINDS.includes(kind) || NOT_CREATABLE.has(kind)) {
+      skip(sourceId, `Element type ${item['@type']} cannot be created by a command`)
+      continue
+    }
+    const name = declaredName(item)
+    if (!name) {
+      skip(sourceId, 'Element has no name')
+      continue
+    }
+    const ownerId = reference(item.owner)
+    if (!ownerId) {
+      skip(sourceId, 'Element has no owner; root packages are created in source')
+      continue
+    }
+    const owner = model.resolve(ownerId)
+    if (typeof owner === 'string') {
+      skip(sourceId, `Owner ${owner}`)
+      continue
+    }
+    const typeQualifiedName = kind === 'Package' || kind.endsWith('Definition')
+      ? undefined
+      : model.typeOf(sourceId)
+    proposals.push({
+      sourceId,
+      title: `Create ${kind} ${owner.qualifiedName}::${name}`,
+      command: {
+        kind: 'create-element',
+        ownerId: owner.id,
+        elementKind: kind as CreatableElementKind,
+        name,
+        ...(typeQualifiedName ? { typeQualifiedName } : {}),
+      },
+    })
+  }
+
+  for (const item of items.filter(isRelationship)) {
+    const sourceId = item['@id']
+    const type = item['@type']
+    // Ownership and typing travel with the element proposals.
+    if (type === RELATIONSHIP_TYPES.containment || type === RELATIONSHIP_TYPES.typing) continue
+    const creatable = CREATABLE_RELATIONSHIP_TYPES.get(type)
+    const kind = sysmlApiRelationshipKind(type)
+    if (!kind) {
+      skip(sourceId, `Relationship type ${type} is not supported`)
+      continue
+    }
+    const source = model.resolve(reference(item.source?.[0]))
+    const target = model.resolve(reference(item.target?.[0]))
+    if (typeof source === 'string' || typeof target === 'string') {
+      skip(sourceId, `Endpoint ${typeof source === 'string' ? source : target}`)
+      continue
+    }
+    const existing = findRelationship(kind, source.id, target.id)
+    if (existing) {
+      matched.push({ sourceId, elementId: existing.id })
+      continue
+    }
+    if (!creatable) {
+      skip(sourceId, `Relationship type ${type} cannot be created by a command`)
+      continue
+    }
+    const explicitOwnerId = reference(item.owner)
+    const owner = explicitOwnerId
+      ? model.resolve(explicitOwnerId)
+      : model.element(source.ownerId) ?? model.element(target.ownerId) ?? 'of the relationship is unknown'
+    if (typeof owner === 'string') {
+      skip(sourceId, `Owner ${owner}`)
+      continue
+    }
+    const itemQualifiedName = creatable.command === 'flow'
+      ? model.qualifiedNameOf(reference(item.itemType?.[0]))
+      : undefined
+    if (creatable.command === 'flow' && !itemQualifiedName) {
+      skip(sourceId, 'Flow has no item type')
+      continue
+    }
+    const name = creatable.command === 'satisfaction' || creatable.command === 'verification'
+      ? undefined
+      : declaredName(item)
+    proposals.push({
+      sourceId,
+      title: `Create ${creatable.command} from ${source.qualifiedName} to ${target.qualifiedName}`,
+      command: {
+        kind: 'create-relationship',
+        ownerId: owner.id,
+        relationshipKind: creatable.command,
+        sourceId: source.id,
+        targetId: target.id,
+        ...(name ? { name } : {}),
+        ...(itemQualifiedName ? { itemQualifiedName } : {}),
+      },
+    })
+  }
+
+  return {
+    schemaVersion: 1,
+    format: 'sysml-v2-api',
+    baseSnapshotSha256: snapshot.snapshotSha256,
+    proposals,
+    matched,
+    skipped,
+  }
+}
+
+function exportElement(element: SemanticElement): SysmlApiElement {
+  return {
+    '@id': element.id,
+    // Opaque elements keep the engine metaclass, which is the API type.
+    '@type': element.kind === 'OpaqueElement' ? element.rawKind : element.kind,
+    elementId: element.id,
+    declaredName: element.name,
+    name: element.name,
+    qualifiedName: element.qualifiedName,
+    owner: element.ownerId ? { '@id': element.ownerId } : null,
+    ...(element.feature?.direction ? { direction: element.feature.direction } : {}),
+    ...(element.feature?.conjugated ? { isConjugated: true } : {}),
+  }
+}
+
+function exportRelationship(relationship: SemanticRelationship): SysmlApiElement {
+  return {
+    '@id': relationship.id,
+    // Interfaces are connections the engine declared with `interface`.
+    '@type': relationship.kind === 'connection' &&
+        relationship.provenance.engineMetaclass === 'InterfaceUsage'
+      ? 'InterfaceUsage'
+      : RELATIONSHIP_TYPES[relationship.kind],
+    elementId: relationship.id,
+    source: [{ '@id': relationship.sourceId }],
+    target: [{ '@id': relationship.targetId }],
+  }
+}
+
+interface ImportItem {
+  '@id': string
+  '@type': string
+  declaredName?: unknown
+  name?: unknown
+  qualifiedName?: unknown
+  owner?: unknown
+  source?: unknown[]
+  target?: unknown[]
+  itemType?: unknown[]
+}
+
+class ImportModel {
+  private readonly items: Map<string, ImportItem>
+  private readonly elements: Map<string, SemanticElement>
+  private readonly byQualifiedName = new Map<string, SemanticElement>()
+  private readonly types = new Map<string, string>()
+  private readonly qualifiedNames = new Map<string, string | undefined>()
+
+  constructor(items: ImportItem[], snapshot: SemanticSnapshot) {
+    this.items = new Map(items.map((item) => [item['@id'], item]))
+    this.elements = new Map(snapshot.elements.map((element) => [element.id, element]))
+    for (const element of snapshot.elements) {
+      if (!this.byQualifiedName.has(element.qualifiedName)) {
+        this.byQualifiedName.set(element.qualifiedName, element)
+      }
+    }
+    for (const item of items) {
+      if (item['@type'] !== RELATIONSHIP_TYPES.typing || !isRelationship(item)) continue
+      const typedId = reference(item.source[0])
+      const typeId = reference(item.target[0])
+      if (typedId && typeId && !this.types.has(typedId)) this.types.set(typedId, typeId)
+    }
+  }
+
+  element(id: string | undefined): SemanticElement | undefined {
+    return id === undefined ? undefined : this.elements.get(id)
+  }
+
+  existing(id: string): SemanticElement | undefined {
+    const qualifiedName = this.qualifiedNameOfItem(id)
+    return this.elements.get(id) ??
+      (qualifiedName === undefined ? undefined : this.byQualifiedName.get(qualifiedName))
+  }
+
+  // The workspace element an imported reference denotes, or why there is none.
+  resolve(id: string | undefined): SemanticElement | string {
+    if (id === undefined) return 'reference is missing'
+    const existing = this.existing(id)
+    if (existing) return existing
+    return this.items.has(id)
+      ? `${id} is not in the workspace yet; import again after applying its proposal`
+      : `${id} is not in the file or the workspace`
+  }
+
+  typeOf(id: string): string | undefined {
+    return this.qualifiedNameOf(this.types.get(id))
+  }
+
+  qualifiedNameOf(id: string | undefined): string | undefined {
+    if (id === undefined) return undefined
+    return this.elements.get(id)?.qualifiedName ?? this.qualifiedNameOfItem(id)
+  }
+
+  private qualifiedNameOfItem(id: string, visiting = new Set<string>()): string | undefined {
+    if (this.qualifiedNames.has(id)) return this.qualifiedNames.get(id)
+    const item = this.items.get(id)
+    let qualifiedName: string | undefined
+    if (item && typeof item.qualifiedName === 'string' && item.qualifiedName) {
+      qualifiedName = item.qualifiedName
+    } else if (item && !visiting.has(id)) {
+      visiting.add(id)
+      const name = declaredName(item)
+      const ownerId = reference(item.owner)
+      const owner = ownerId === undefined
+        ? undefined
+        : this.elements.get(ownerId)?.qualifiedName ?? this.qualifiedNameOfItem(ownerId, visiting)
+      qualifiedName = name && (owner || ownerId === undefined)
+        ? owner ? `${owner}::${name}` : name
+        : undefined
+    }
+    this.qualifiedNames.set(id, qualifiedName)
+    return qualifiedName
+  }
+}
+
+function readItems(document: unknown): ImportItem[] {
+  if (!Array.isArray(document)) {
+    throw new ModelExchangeError('SysML v2 API import must be a JSON array of elements')
+  }
+  if (document.length > MAX_SYSML_API_IMPORT_ITEMS) {
+    throw new ModelExchangeError(
+      `SysML v2 API import exceeds ${MAX_SYSML_API_IMPORT_ITEMS} elements`,
+    )
+  }
+  const seen = new Set<string>()
+  return document.map((value, index) => {
+    if (
+      !isRecord(value) ||
+      typeof value['@id'] !== 'string' ||
+      !value['@id'] ||
+      typeof value['@type'] !== 'string' ||
+      !value['@type']
+    ) {
+      throw new ModelExchangeError(`SysML v2 API element ${index} needs a string @id and @type`)
+    }
+    if (seen.has(value['@id'])) {
+      throw new ModelExchangeError(`SysML v2 API import repeats @id ${value['@id']}`)
+    }
+    seen.add(value['@id'])
+    for (const field of ['source', 'target', 'itemType']) {
+      if (value[field] !== undefined && !Array.isArray(value[field])) {
+        throw new ModelExchangeError(`SysML v2 API element ${value['@id']} has a non-array ${field}`)
+      }
+    }
+    return value as unknown as ImportItem
+  })
+}
+
+function isRelationship(
+  item: ImportItem,
+): item is ImportItem & { source: unknown[]; target: unknown[] } {
+  return Array.isArray(item.source) && Array.isArray(item.target)
+}
+
+function declaredName(item: ImportItem): string | undefined {
+  const name = typeof item.declaredName === 'string' ? item.declaredName : item.name
+  return typeof name === 'string' && name.trim() ? name.trim() : undefined
+}
+
+function reference(value: unknown): string | undefined {
+  return isRecord(value) && typeof value['@id'] === 'string' && value['@id']
+    ? value['@id']
+    : undefined
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
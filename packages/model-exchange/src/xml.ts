@@ -0,0 +1,172 @@
+import { ModelExchangeError } from './index.js'
+
+// A small, bounded XML reader and writer for the exchange formats. It keeps
+// local names only, decodes the predefined and numeric entities, and refuses
+// DOCTYPE declarations so no external entity is ever resolved.
+
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+  text: string
+}
+
+export interface XmlNode {
+  name: string
+  attributes?: Record<string, string | undefined>
+  children?: XmlNode[]
+  text?: string
+}
+
+const MAX_XML_DEPTH = 256
+const MAX_XML_ELEMENTS = 1_000_000
+const START_TAG = /<([A-Za-z_][\w.:-]*)((?:\s+[A-Za-z_][\w.:-]*\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y
+const END_TAG = /<\/([A-Za-z_][\w.:-]*)\s*>/y
+const ATTRIBUTE = /([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }
+
+export function parseXml(text: string, format: string): XmlElement {
+  const stack: XmlElement[] = []
+  let root: XmlElement | undefined
+  let count = 0
+  let index = 0
+  const fail = (message: string): never => {
+    throw new ModelExchangeError(`${format} is not well-formed XML: ${message}`)
+  }
+  while (index < text.length) {
+    const open = text.indexOf('<', index)
+    const end = open < 0 ? text.length : open
+    if (end > index) {
+      const content = decodeEntities(text.slice(index, end), fail)
+      if (stack.length > 0) stack.at(-1)!.text += content
+      else if (content.trim()) fail('text outside the root element')
+      index = end
+      continue
+    }
+    if (text.startsWith('<?', index)) {
+      index = skipPast(text, index, '?>', fail)
+    } else if (text.startsWith('<!--', index)) {
+      index = skipPast(text, index, '-->', fail)
+    } else if (text.startsWith('<![CDATA[', index)) {
+      const close = skipPast(text, index, ']]>', fail)
+      if (stack.length === 0) fail('CDATA outside the root element')
+      stack.at(-1)!.text += text.slice(index + 9, close - 3)
+      index = close
+    } else if (text.startsWith('<!', index)) {
+      throw new ModelExchangeError(`${format} documents with a DOCTYPE are not accepted`)
+    } else if (text.startsWith('</', index)) {
+      END_TAG.lastIndex = index
+      const match = END_TAG.exec(text) ?? fail(`malformed end tag at offset ${index}`)
+      const element = stack.pop()
+      if (!element || element.name !== localName(match[1]!)) {
+        fail(`unexpected </${match[1]}> at offset ${index}`)
+      }
+      index = END_TAG.lastIndex
+    } else {
+      START_TAG.lastIndex = index
+      const match = START_TAG.exec(text) ?? fail(`malformed start tag at offset ${index}`)
+      if (++count > MAX_XML_ELEMENTS) fail(`more than ${MAX_XML_ELEMENTS} elements`)
+      if (stack.length === 0 && root) fail('more than one root element')
+      const element: XmlElement = {
+        name: localName(match[1]!),
+        attributes: readAttributes(match[2]!, fail),
+        children: [],
+        text: '',
+      }
+      if (stack.length > 0) stack.at(-1)!.children.push(element)
+      else root = element
+      if (!match[3]) {
+        if (stack.length >= MAX_XML_DEPTH) fail(`nesting deeper than ${MAX_XML_DEPTH}`)
+        stack.push(element)
+      }
+      index = START_TAG.lastIndex
+    }
+  }
+  if (stack.length > 0) fail(`<${stack.at(-1)!.name}> is not closed`)
+  return root ?? fail('no root element')
+}
+
+export function child(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find((candidate) => candidate.name === name)
+}
+
+export function children(element: XmlElement | undefined, name?: string): XmlElement[] {
+  return element?.children.filter((candidate) => name === undefined || candidate.name === name) ?? []
+}
+
+// All text below the element, with whitespace runs collapsed.
+export function textContent(element: XmlElement): string {
+  const collect = (node: XmlElement): string =>
+    [node.text, ...node.children.map(collect)].join(' ')
+  return collect(element).replace(/\s+/gu, ' ').trim()
+}
+
+export function renderXml(root: XmlNode): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderNode(root, 0)}`
+}
+
+function renderNode(node: XmlNode, depth: number): string {
+  const indent = '  '.repeat(depth)
+  const attributes = Object.entries(node.attributes ?? {})
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join('')
+  if (node.children?.length) {
+    return `${indent}<${node.name}${attributes}>\n${node.children
+      .map((nested) => renderNode(nested, depth + 1))
+      .join('')}${indent}</${node.name}>\n`
+  }
+  if (node.text !== undefined) {
+    return `${indent}<${node.name}${attributes}>${escapeXml(node.text)}</${node.name}>\n`
+  }
+  return `${indent}<${node.name}${attributes}/>\n`
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+}
+
+function readAttributes(
+  source: string,
+  fail: (message: string) => never,
+): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = localName(match[1]!)
+    if (match[1]!.startsWith('xmlns')) continue
+    if (name in attributes) fail(`repeated attribute ${name}`)
+    attributes[name] = decodeEntities(match[2] ?? match[3] ?? '', fail)
+  }
+  return attributes
+}
+
+function decodeEntities(value: string, fail: (message: string) => never): string {
+  return value.replace(/&([^;\s&]*);?/gu, (whole, entity: string) => {
+    if (!whole.endsWith(';')) fail(`unterminated entity &${entity}`)
+    if (entity in ENTITIES) return ENTITIES[entity]!
+    const code = /^#x[0-9a-f]+$/iu.test(entity)
+      ? Number.parseInt(entity.slice(2), 16)
+      : /^#\d+$/u.test(entity) ? Number(entity.slice(1)) : Number.NaN
+    if (!Number.isInteger(code) || code > 0x10ffff) fail(`unknown entity &${entity};`)
+    return String.fromCodePoint(code)
+  })
+}
+
+function skipPast(
+  text: string,
+  index: number,
+  terminator: string,
+  fail: (message: string) => never,
+): number {
+  const close = text.indexOf(terminator, index)
+  if (close < 0) fail(`missing ${terminator}`)
+  return close + terminator.length
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1)
+}
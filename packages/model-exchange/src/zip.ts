@@ -0,0 +1,87 @@
+import { inflateRawSync } from 'node:zlib'
+import { ModelExchangeError } from './index.js'
+
+// A small, bounded ZIP reader for office documents. It reads the central
+// directory, accepts stored and deflated entries only, and refuses ZIP64,
+// encrypted entries, and entries that inflate past the limit.
+
+export interface ZipArchive {
+  names: string[]
+  read(name: string): Uint8Array | undefined
+}
+
+const MAX_ZIP_ENTRIES = 10_000
+const MAX_ZIP_ENTRY_BYTES = 64 * 1024 * 1024
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+interface ZipEntry {
+  method: number
+  compressedSize: number
+  size: number
+  localOffset: number
+}
+
+export function openZip(bytes: Uint8Array, format: string): ZipArchive {
+  const fail = (message: string): never => {
+    throw new ModelExchangeError(`${format} is not a readable ZIP archive: ${message}`)
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const u16 = (offset: number) => offset + 2 <= bytes.length ? view.getUint16(offset, true) : fail('truncated')
+  const u32 = (offset: number) => offset + 4 <= bytes.length ? view.getUint32(offset, true) : fail('truncated')
+
+  let end = -1
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 22 - 0xffff); offset -= 1) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset
+      break
+    }
+  }
+  if (end < 0) fail('no end of central directory')
+  const count = u16(end + 10)
+  let offset = u32(end + 16)
+  if (count === 0xffff || offset === 0xffffffff) fail('ZIP64 archives are not supported')
+  if (count > MAX_ZIP_ENTRIES) fail(`more than ${MAX_ZIP_ENTRIES} entries`)
+
+  const entries = new Map<string, ZipEntry>()
+  const decoder = new TextDecoder('utf-8', { fatal: false })
+  for (let index = 0; index < count; index += 1) {
+    if (u32(offset) !== CENTRAL_DIRECTORY_HEADER) fail('malformed central directory')
+    const flags = u16(offset + 8)
+    const nameLength = u16(offset + 28)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    if (flags & 1) fail(`${name} is encrypted`)
+    entries.set(name, {
+      method: u16(offset + 10),
+      compressedSize: u32(offset + 20),
+      size: u32(offset + 24),
+      localOffset: u32(offset + 42),
+    })
+    offset += 46 + nameLength + u16(offset + 30) + u16(offset + 32)
+  }
+
+  return {
+    names: [...entries.keys()],
+    read(name) {
+      const entry = entries.get(name)
+      if (!entry) return undefined
+      if (entry.size > MAX_ZIP_ENTRY_BYTES) fail(`${name} is larger than ${MAX_ZIP_ENTRY_BYTES} bytes`)
+      const local = entry.localOffset
+      if (u32(local) !== LOCAL_FILE_HEADER) fail(`${name} has no local header`)
+      const start = local + 30 + u16(local + 26) + u16(local + 28)
+      if (start + entry.compressedSize > bytes.length) fail(`${name} is truncated`)
+      const data = bytes.subarray(start, start + entry.compressedSize)
+      if (entry.method === 0) return data
+      if (entry.method !== 8) fail(`${name} uses unsupported compression method ${entry.method}`)
+      try {
+        return inflateRawSync(data, { maxOutputLength: MAX_ZIP_ENTRY_BYTES })
+      } catch (error) {
+        throw new ModelExchangeError(
+          `${format} is not a readable ZIP archive: ${name} does not inflate`,
+          { cause: error },
+        )
+      }
+    },
+  }
+}
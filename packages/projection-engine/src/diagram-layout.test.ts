@@ -0,0 +1,204 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import type { ModelQueryResult } from '../../query-engine/src/index.js'
+import type {
+  NormalizedElementKind,
+  SemanticRelationshipKind,
+} from '../../semantic-model/src/index.js'
+import {
+  layoutDiagram,
+  layoutPositions,
+  moveDiagramNode,
+  RELATIONSHIP_EDGE_STYLES,
+} from './diagram-layout.js'
+
+describe('layered diagram layout', () => {
+  it('ranks containment layers and routes typed orthogonal edges', () => {
+    const layout = layoutDiagram(result())
+    const byId = new Map(layout.nodes.map((node) => [node.id, node]))
+    expect(layout.direction).toBe('TB')
+    expect(byId.get('package')!.y).toBeLessThan(byId.get('vehicle')!.y)
+    expect(byId.get('vehicle')!.y).toBeLessThan(byId.get('engine')!.y)
+    expect(layout.edges.map((edge) => edge.kind)).toEqual(['containment', 'containment', 'typing'])
+    expect(layout.edges.find((edge) => edge.kind === 'typing')!.style).toBe(RELATIONSHIP_EDGE_STYLES.typing)
+    for (const edge of layout.edges) {
+      for (const [index, point] of edge.points.slice(1).entries()) {
+        const previous = edge.points[index]!
+        expect(point.x === previous.x || point.y === previous.y).toBe(true)
+      }
+    }
+  })
+
+  it('keeps saved positions keyed by stable identity and is deterministic', () => {
+    const first = layoutDiagram(result())
+    const positions = layoutPositions(first)
+    positions.vehicle = { x: 900, y: 40, width: 200, height: 90 }
+    const second = layoutDiagram(result(), { positions })
+    expect(second.nodes.find((node) => node.id === 'vehicle')).toMatchObject({
+      x: 900, y: 40, width: 200, height: 90, pinned: true,
+    })
+    expect(layoutDiagram(result(), { positions })).toEqual(second)
+    expect(second.width).toBeGreaterThanOrEqual(1100)
+  })
+
+  it('discloses elements beyond the node bound', () => {
+    const layout = layoutDiagram(result(), { maxNodes: 2 })
+    expect(layout.nodes.map((node) => node.id)).toEqual(['engine', 'package'])
+    expect(layout.omittedElementIds).toEqual(['vehicle'])
+    expect(() => layoutDiagram(result(), { maxNodes: 0 })).toThrow('maxNodes')
+  })
+
+  it('nests parts and places ports on the part boundary for interconnection', () => {
+    const layout = layoutDiagram(notationResult(), { notation: 'interconnection' })
+    const byId = new Map(layout.nodes.map((node) => [node.id, node]))
+    const vehicle = byId.get('vehicle')!
+    const engine = byId.get('engine')!
+    const wheel = byId.get('wheel')!
+    expect(layout.direction).toBe('LR')
+    expect(engine.parentId).toBe('vehicle')
+    expect(engine.x).toBeGreaterThan(vehicle.x)
+    expect(engine.y + engine.height).toBeLessThan(vehicle.y + vehicle.height)
+    expect(byId.get('engine-port')).toMatchObject({ shape: 'port', parentId: 'engine', x: engine.x + engine.width - 7 })
+    expect(byId.get('wheel-port')).toMatchObject({ shape: 'port', parentId: 'wheel', x: wheel.x - 7 })
+    expect(layout.edges.map((edge) => [edge.kind, edge.sourceId, edge.targetId])).toEqual([
+      ['connection', 'engine-port', 'wheel-port'],
+    ])
+    expect(layout.omittedElementIds).toContain('requirement')
+  })
+
+  it('draws requirement, satisfier and verifier lanes for traceability', () => {
+    const layout = layoutDiagram(notationResult(), { notation: 'traceability' })
+    expect(layout.lanes.map((lane) => lane.id)).toEqual(['requirements', 'satisfied-by', 'verified-by'])
+    const [requirements, satisfiers, verifiers] = layout.lanes
+    const inLane = (identity: string, lane: typeof requirements) => {
+      const node = layout.nodes.find((candidate) => candidate.id === identity)!
+      return node.x >= lane!.x && node.x + node.width <= lane!.x + lane!.width
+    }
+    expect(inLane('requirement', requirements)).toBe(true)
+    expect(inLane('vehicle', satisfiers)).toBe(true)
+    expect(inLane('verification', verifiers)).toBe(true)
+    expect(layout.nodes.find((node) => node.id === 'requirement')!.shape).toBe('requirement')
+    expect(layout.edges.map((edge) => edge.kind).sort()).toEqual(['satisfaction', 'verification'])
+  })
+
+  it('orders action swimlanes by flow and discloses unrouted transitions', () => {
+    const actions = layoutDiagram(notationResult(), { notation: 'action-flow' })
+    const byId = new Map(actions.nodes.map((node) => [node.id, node]))
+    expect(actions.lanes.map((lane) => lane.label)).toEqual(['vehicle'])
+    expect(byId.get('drive')!.x).toBeLessThan(byId.get('brake')!.x)
+    expect(actions.edges).toMatchObject([{ kind: 'flow', sourceId: 'drive', targetId: 'brake' }])
+    expect(actions.warnings).toEqual([])
+
+    const states = layoutDiagram(notationResult(), { notation: 'state-transition' })
+    expect(states.nodes.find((node) => node.id === 'switch')).toMatchObject({ shape: 'transition', parentId: 'modes' })
+    expect(states.nodes.find((node) => node.id === 'off')).toMatchObject({ shape: 'state', parentId: 'modes' })
+    expect(states.warnings).toEqual([expect.stringContaining('1 transitions')])
+  })
+
+  it('moves nested children and ports with their container', () => {
+    const layout = layoutDiagram(notationResult(), { notation: 'interconnection' })
+    const vehicle = layout.nodes.find((node) => node.id === 'vehicle')!
+    const positions = moveDiagramNode(layout, {}, 'vehicle', { x: vehicle.x + 100, y: vehicle.y + 40 })
+    expect(Object.keys(positions).sort()).toEqual(['engine', 'engine-port', 'vehicle', 'wheel', 'wheel-port'])
+    const moved = layoutDiagram(notationResult(), { notation: 'interconnection', positions })
+    for (const node of layout.nodes) {
+      expect(moved.nodes.find((candidate) => candidate.id === node.id)).toMatchObject({
+        x: node.x + 100,
+        y: node.y + 40,
+      })
+    }
+    expect(() => moveDiagramNode(layout, {}, 'missing', { x: 0, y: 0 })).toThrow('not part of the layout')
+  })
+})
+
+function result(): ModelQueryResult {
+  return {
+    schemaVersion: 1,
+    snapshotSha256: 'snapshot',
+    resolvedRoots: ['package'],
+    elements: [
+      element('vehicle', 'PartDefinition', 'package'),
+      element('package', 'Package'),
+      element('engine', 'PartUsage', 'vehicle'),
+    ],
+    relationships: [
+      relationship('rel-a', 'containment', 'package', 'vehicle'),
+      relationship('rel-b', 'containment', 'vehicle', 'engine'),
+      relationship('rel-c', 'typing', 'engine', 'vehicle'),
+    ],
+    truncated: false,
+    warnings: [],
+  }
+}
+
+function notationResult(): ModelQueryResult {
+  return {
+    schemaVersion: 1,
+    snapshotSha256: 'snapshot',
+    resolvedRoots: ['package'],
+    elements: [
+      element('package', 'Package'),
+      element('vehicle', 'PartDefinition', 'package'),
+      element('engine', 'PartUsage', 'vehicle'),
+      element('wheel', 'PartUsage', 'vehicle'),
+      element('engine-port', 'PortUsage', 'engine'),
+      element('wheel-port', 'PortUsage', 'wheel'),
+      element('requirement', 'RequirementUsage', 'package'),
+      element('verification', 'VerificationUsage', 'package'),
+      element('drive', 'ActionUsage', 'vehicle'),
+      element('brake', 'ActionUsage', 'vehicle'),
+      element('torque-out', 'ItemUsage', 'drive'),
+      element('torque-in', 'ItemUsage', 'brake'),
+      element('modes', 'StateDefinition', 'package'),
+      element('off', 'StateUsage', 'modes'),
+      element('switch', 'TransitionUsage', 'modes'),
+    ],
+    relationships: [
+      relationship('rel-connect', 'connection', 'engine-port', 'wheel-port'),
+      relationship('rel-flow', 'flow', 'torque-out', 'torque-in'),
+      relationship('rel-satisfy', 'satisfaction', 'vehicle', 'requirement'),
+      relationship('rel-verify', 'verification', 'verification', 'requirement'),
+    ],
+    truncated: false,
+    warnings: [],
+  }
+}
+
+function element(id: string, kind: NormalizedElementKind, ownerId?: string) {
+  return {
+    id,
+    kind,
+    rawKind: kind,
+    name: id,
+    qualifiedName: ownerId ? `System::${id}` : id,
+    ownerId,
+    source: {
+      uri: 'file:///workspace/model.sysml',
+      workspacePath: 'model.sysml',
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+      documentSha256: 'document',
+    },
+    fingerprint: id,
+    provenance: {
+      authority: 'qualified-language-engine' as const,
+      extraction: 'pilot-emf-semantic-evidence' as const,
+      classification: 'engine-metaclass' as const,
+      engineId: id,
+    },
+  }
+}
+
+function relationship(id: string, kind: SemanticRelationshipKind, sourceId: string, targetId: string) {
+  return {
+    id,
+    kind,
+    sourceId,
+    targetId,
+    provenance: {
+      authority: 'qualified-language-engine' as const,
+      extraction: 'pilot-emf-explicit-reference' as const,
+      engineMetaclass: 'OwningMembership',
+      features: [],
+    },
+  }
+}
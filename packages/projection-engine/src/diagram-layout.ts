@@ -0,0 +1,773 @@
+import dagre from '@dagrejs/dagre'
+import type { ModelQueryResult } from '../../query-engine/src/index.js'
+import type {
+  NormalizedElementKind,
+  SemanticElement,
+  SemanticRelationship,
+  SemanticRelationshipKind,
+} from '../../semantic-model/src/index.js'
+import type { SavedWorkbenchView } from '../../workbench-protocol/src/index.js'
+
+export const DIAGRAM_LAYOUT_VERSION = '2.0.0'
+const DEFAULT_MAX_LAYOUT_NODES = 500
+const NODE_WIDTH = 184
+const NODE_HEIGHT = 76
+const DIAGRAM_MARGIN = 28
+const PARALLEL_EDGE_SPACING = 8
+const CONTAINER_HEADER = 34
+const CONTAINER_PADDING = 20
+const NESTED_GAP = 48
+const PORT_SIZE = 14
+const PORT_TOP = 40
+const PORT_SPACING = 24
+const TRANSITION_WIDTH = 132
+const TRANSITION_HEIGHT = 28
+const LANE_HEADER = 32
+const LANE_PADDING = 24
+const LANE_GAP = 96
+const LANE_LABEL_WIDTH = 132
+const ROW_GAP = 24
+const RANK_GAP = 72
+
+const STRUCTURE_KINDS = new Set<NormalizedElementKind>(['PartDefinition', 'PartUsage'])
+const CONNECTOR_KINDS = new Set<SemanticRelationshipKind>(['connection', 'flow'])
+const REQUIREMENT_KINDS = new Set<NormalizedElementKind>(['RequirementDefinition', 'RequirementUsage'])
+const VERIFICATION_KINDS = new Set<NormalizedElementKind>(['VerificationDefinition', 'VerificationUsage'])
+const ACTION_KINDS = new Set<NormalizedElementKind>(['ActionDefinition', 'ActionUsage'])
+const STATE_KINDS = new Set<NormalizedElementKind>(['StateDefinition', 'StateUsage'])
+
+export type DiagramLayoutDirection = 'TB' | 'LR'
+export type DiagramNotation = SavedWorkbenchView['notation']
+export type DiagramLayoutPositions = NonNullable<SavedWorkbenchView['layout']>['positions']
+export type DiagramNodeShape =
+  | 'block'
+  | 'port'
+  | 'requirement'
+  | 'verification'
+  | 'action'
+  | 'state'
+  | 'transition'
+
+export interface DiagramEdgeStyle {
+  line: 'solid' | 'dashed'
+  sourceMarker: 'none' | 'diamond'
+  targetMarker: 'none' | 'arrow' | 'open-arrow' | 'triangle'
+  label?: string
+}
+
+export const RELATIONSHIP_EDGE_STYLES: Readonly<Record<SemanticRelationshipKind, DiagramEdgeStyle>> = {
+  containment: { line: 'solid', sourceMarker: 'diamond', targetMarker: 'none' },
+  typing: { line: 'dashed', sourceMarker: 'none', targetMarker: 'triangle', label: 'defined by' },
+  dependency: { line: 'dashed', sourceMarker: 'none', targetMarker: 'open-arrow', label: '«import»' },
+  satisfaction: { line: 'dashed', sourceMarker: 'none', targetMarker: 'open-arrow', label: '«satisfy»' },
+  verification: { line: 'dashed', sourceMarker: 'none', targetMarker: 'open-arrow', label: '«verify»' },
+  connection: { line: 'solid', sourceMarker: 'none', targetMarker: 'none', label: 'connect' },
+  flow: { line: 'solid', sourceMarker: 'none', targetMarker: 'arrow', label: 'flow' },
+  interface: { line: 'solid', sourceMarker: 'none', targetMarker: 'none', label: 'interface' },
+  specialization: { line: 'solid', sourceMarker: 'none', targetMarker: 'triangle' },
+  redefinition: { line: 'dashed', sourceMarker: 'none', targetMarker: 'triangle', label: '«redefines»' },
+  subsetting: { line: 'dashed', sourceMarker: 'none', targetMarker: 'open-arrow', label: '«subsets»' },
+  allocation: { line: 'dashed', sourceMarker: 'none', targetMarker: 'open-arrow', label: '«allocate»' },
+  binding: { line: 'solid', sourceMarker: 'none', targetMarker: 'none', label: '=' },
+}
+
+export interface DiagramLayoutOptions {
+  notation?: DiagramNotation
+  direction?: DiagramLayoutDirection
+  positions?: DiagramLayoutPositions
+  maxNodes?: number
+}
+
+export interface DiagramPoint {
+  x: number
+  y: number
+}
+
+export interface DiagramLayoutNode {
+  id: string
+  label: string
+  qualifiedName: string
+  kind: NormalizedElementKind
+  shape: DiagramNodeShape
+  parentId?: string
+  x: number
+  y: number
+  width: number
+  height: number
+  pinned: boolean
+}
+
+export interface DiagramLayoutEdge {
+  id: string
+  kind: SemanticRelationshipKind
+  sourceId: string
+  targetId: string
+  points: DiagramPoint[]
+  style: DiagramEdgeStyle
+}
+
+export interface DiagramLane {
+  id: string
+  label: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface DiagramLayout {
+  schemaVersion: 1
+  layoutVersion: string
+  snapshotSha256: string
+  notation: DiagramNotation
+  direction: DiagramLayoutDirection
+  width: number
+  height: number
+  lanes: DiagramLane[]
+  nodes: DiagramLayoutNode[]
+  edges: DiagramLayoutEdge[]
+  omittedElementIds: string[]
+  warnings: string[]
+}
+
+interface NotationInput {
+  elements: SemanticElement[]
+  relationships: SemanticRelationship[]
+  byId: Map<string, SemanticElement>
+  direction: DiagramLayoutDirection
+  maxNodes: number
+  saved: DiagramLayoutPositions
+}
+
+interface NotationDraft {
+  nodes: DiagramLayoutNode[]
+  lanes: DiagramLane[]
+  edges: Array<{ relationship: SemanticRelationship; sourceId: string; targetId: string }>
+  warnings: string[]
+}
+
+const NOTATION_LAYOUTS: Readonly<Record<DiagramNotation, (input: NotationInput) => NotationDraft>> = {
+  'model-structure': layeredLayout,
+  interconnection: interconnectionLayout,
+  traceability: traceabilityLayout,
+  'action-flow': actionFlowLayout,
+  'state-transition': stateTransitionLayout,
+  'verification-context': verificationContextLayout,
+  table: layeredLayout,
+}
+
+export function layoutDiagram(
+  result: Pick<ModelQueryResult, 'snapshotSha256' | 'elements' | 'relationships'>,
+  options: DiagramLayoutOptions = {},
+): DiagramLayout {
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_LAYOUT_NODES
+  if (!Number.isInteger(maxNodes) || maxNodes < 1 || maxNodes > 5_000) {
+    throw new Error('Diagram layout maxNodes must be an integer from 1 to 5000')
+  }
+  const notation = options.notation ?? 'model-structure'
+  const layout = NOTATION_LAYOUTS[notation]
+  if (!layout) throw new Error(`Unsupported diagram notation: ${String(notation)}`)
+  const direction = options.direction ?? directionForNotation(notation)
+  const elements = [...result.elements].sort((left, right) => left.id.localeCompare(right.id))
+  const saved = options.positions ?? {}
+  const draft = layout({
+    elements,
+    relationships: [...result.relationships].sort((left, right) => left.id.localeCompare(right.id)),
+    byId: new Map(elements.map((element) => [element.id, element])),
+    direction,
+    maxNodes,
+    saved,
+  })
+
+  const nodes = pinNodes(draft.nodes, saved)
+  const byId = new Map(nodes.map((node) => [node.id, node]))
+  const parallel = new Map<string, number>()
+  const edges = draft.edges
+    .filter((edge) => edge.sourceId !== edge.targetId && byId.has(edge.sourceId) && byId.has(edge.targetId))
+    .map((edge) => {
+      const pairKey = [edge.sourceId, edge.targetId].sort().join('\u0000')
+      const index = parallel.get(pairKey) ?? 0
+      parallel.set(pairKey, index + 1)
+      return {
+        id: edge.relationship.id,
+        kind: edge.relationship.kind,
+        sourceId: edge.sourceId,
+        targetId: edge.targetId,
+        points: orthogonalRoute(
+          byId.get(edge.sourceId)!,
+          byId.get(edge.targetId)!,
+          direction,
+          parallelOffset(index),
+        ),
+        style: RELATIONSHIP_EDGE_STYLES[edge.relationship.kind],
+      }
+    })
+  const extent = [
+    ...nodes.map((node) => ({ x: node.x + node.width, y: node.y + node.height })),
+    ...draft.lanes.map((lane) => ({ x: lane.x + lane.width, y: lane.y + lane.height })),
+    ...edges.flatMap((edge) => edge.points),
+  ]
+  return {
+    schemaVersion: 1,
+    layoutVersion: DIAGRAM_LAYOUT_VERSION,
+    snapshotSha256: result.snapshotSha256,
+    notation,
+    direction,
+    width: Math.max(0, ...extent.map((point) => point.x)) + DIAGRAM_MARGIN,
+    height: Math.max(0, ...extent.map((point) => point.y)) + DIAGRAM_MARGIN,
+    lanes: draft.lanes,
+    nodes,
+    edges,
+    omittedElementIds: elements
+      .filter((element) => !byId.has(element.id))
+      .map((element) => element.id),
+    warnings: draft.warnings,
+  }
+}
+
+export function layoutPositions(layout: DiagramLayout): DiagramLayoutPositions {
+  return Object.fromEntries(layout.nodes.map((node) => [
+    node.id,
+    { x: node.x, y: node.y, width: node.width, height: node.height },
+  ]))
+}
+
+export function directionForNotation(
+  notation: SavedWorkbenchView['notation'] | undefined,
+): DiagramLayoutDirection {
+  return notation === 'interconnection' || notation === 'action-flow' ? 'LR' : 'TB'
+}
+
+export function moveDiagramNode(
+  layout: DiagramLayout,
+  positions: DiagramLayoutPositions,
+  identity: string,
+  position: DiagramPoint,
+): DiagramLayoutPositions {
+  const node = layout.nodes.find((candidate) => candidate.id === identity)
+  if (!node) throw new Error(`Diagram node is not part of the layout: ${identity}`)
+  const dx = Math.round(position.x) - node.x
+  const dy = Math.round(position.y) - node.y
+  const moved = new Set([identity])
+  for (const candidate of layout.nodes) {
+    if (candidate.parentId && moved.has(candidate.parentId)) moved.add(candidate.id)
+  }
+  const next = { ...positions }
+  for (const candidate of layout.nodes) {
+    if (!moved.has(candidate.id)) continue
+    next[candidate.id] = {
+      x: candidate.x + dx,
+      y: candidate.y + dy,
+      width: candidate.width,
+      height: candidate.height,
+    }
+  }
+  return next
+}
+
+function layeredLayout(input: NotationInput): NotationDraft {
+  const included = input.elements.slice(0, input.maxNodes)
+  const includedIds = new Set(included.map((element) => element.id))
+  const relationships = input.relationships.filter((relationship) =>
+    includedIds.has(relationship.sourceId) && includedIds.has(relationship.targetId),
+  )
+  const graph = new dagre.graphlib.Graph({ multigraph: true })
+  graph.setDefaultEdgeLabel(() => ({}))
+  graph.setGraph({
+    rankdir: input.direction,
+    nodesep: input.direction === 'LR' ? 36 : 48,
+    ranksep: input.direction === 'LR' ? 120 : 88,
+    marginx: DIAGRAM_MARGIN,
+    marginy: DIAGRAM_MARGIN,
+  })
+  for (const element of included) {
+    const pinned = input.saved[element.id]
+    graph.setNode(element.id, {
+      width: pinned?.width ?? NODE_WIDTH,
+      height: pinned?.height ?? NODE_HEIGHT,
+    })
+  }
+  const ranking = relationships.some((relationship) => relationship.kind === 'containment')
+    ? relationships.filter((relationship) => relationship.kind === 'containment')
+    : relationships
+  for (const relationship of ranking) {
+    if (relationship.sourceId === relationship.targetId) continue
+    graph.setEdge(relationship.sourceId, relationship.targetId, {}, relationship.id)
+  }
+  dagre.layout(graph)
+  return {
+    nodes: included.map((element) => {
+      const computed = graph.node(element.id)
+      const width = Math.round(computed?.width ?? NODE_WIDTH)
+      const height = Math.round(computed?.height ?? NODE_HEIGHT)
+      return {
+        ...diagramNode(element, 'block', width, height),
+        x: Math.round((computed?.x ?? 0) - width / 2),
+        y: Math.round((computed?.y ?? 0) - height / 2),
+      }
+    }),
+    lanes: [],
+    edges: relationships.map(edgeFor),
+    warnings: [],
+  }
+}
+
+function interconnectionLayout(input: NotationInput): NotationDraft {
+  const blocks = input.elements
+    .filter((element) => STRUCTURE_KINDS.has(element.kind))
+    .slice(0, input.maxNodes)
+  const blockIds = new Set(blocks.map((element) => element.id))
+  const ports = input.elements
+    .filter((element) => element.kind === 'PortUsage' && element.ownerId && blockIds.has(element.ownerId))
+    .slice(0, input.maxNodes - blocks.length)
+  const drawn = new Set([...blockIds, ...ports.map((element) => element.id)])
+  const connectors = input.relationships.filter((relationship) =>
+    CONNECTOR_KINDS.has(relationship.kind) &&
+    drawn.has(relationship.sourceId) &&
+    drawn.has(relationship.targetId),
+  )
+  const outbound = new Set(connectors.map((relationship) => relationship.sourceId))
+  const inbound = new Set(connectors.map((relationship) => relationship.targetId))
+  const sides = new Map<string, { left: SemanticElement[]; right: SemanticElement[] }>()
+  for (const port of ports) {
+    const owner = sides.get(port.ownerId!) ?? { left: [], right: [] }
+    const right = outbound.has(port.id) && !inbound.has(port.id)
+      ? true
+      : inbound.has(port.id) && !outbound.has(port.id)
+        ? false
+        : owner.right.length < owner.left.length
+    owner[right ? 'right' : 'left'].push(port)
+    sides.set(port.ownerId!, owner)
+  }
+  const nodes = nestedBoxes(blocks, input.byId, (element) => {
+    const owned = sides.get(element.id)
+    const count = Math.max(owned?.left.length ?? 0, owned?.right.length ?? 0)
+    return { width: NODE_WIDTH, height: Math.max(NODE_HEIGHT, PORT_TOP + count * PORT_SPACING) }
+  }, () => 'block')
+  const boxes = new Map(nodes.map((node) => [node.id, node]))
+  for (const [ownerId, owned] of sides) {
+    const box = boxes.get(ownerId)!
+    for (const [side, members] of [['left', owned.left], ['right', owned.right]] as const) {
+      for (const [index, port] of members.entries()) {
+        nodes.push({
+          ...diagramNode(port, 'port', PORT_SIZE, PORT_SIZE),
+          parentId: ownerId,
+          x: side === 'left' ? box.x - PORT_SIZE / 2 : box.x + box.width - PORT_SIZE / 2,
+          y: box.y + PORT_TOP + index * PORT_SPACING,
+        })
+      }
+    }
+  }
+  return { nodes, lanes: [], edges: connectors.map(edgeFor), warnings: [] }
+}
+
+function traceabilityLayout(input: NotationInput): NotationDraft {
+  const requirements = input.elements
+    .filter((element) => REQUIREMENT_KINDS.has(element.kind))
+    .slice(0, input.maxNodes)
+  const requirementIds = new Set(requirements.map((element) => element.id))
+  const links = input.relationships.filter((relationship) =>
+    (relationship.kind === 'satisfaction' || relationship.kind === 'verification') &&
+    requirementIds.has(relationship.targetId) &&
+    !requirementIds.has(relationship.sourceId),
+  )
+  const placed = new Set(requirementIds)
+  const sourcesOf = (kind: SemanticRelationshipKind, limit: number) => {
+    const sources: SemanticElement[] = []
+    for (const relationship of links) {
+      const source = input.byId.get(relationship.sourceId)
+      if (relationship.kind !== kind || !source || placed.has(source.id) || sources.length >= limit) continue
+      placed.add(source.id)
+      sources.push(source)
+    }
+    return sources
+  }
+  const satisfiers = sourcesOf('satisfaction', input.maxNodes - placed.size)
+  const verifiers = sourcesOf('verification', input.maxNodes - placed.size)
+  return laneColumns([
+    { id: 'requirements', label: 'Requirements', shape: 'requirement', elements: byQualifiedName(requirements) },
+    { id: 'satisfied-by', label: 'Satisfied by', shape: 'block', elements: satisfiers },
+    { id: 'verified-by', label: 'Verified by', shape: 'verification', elements: verifiers },
+  ], links)
+}
+
+function verificationContextLayout(input: NotationInput): NotationDraft {
+  const cases = input.elements
+    .filter((element) => VERIFICATION_KINDS.has(element.kind))
+    .slice(0, input.maxNodes)
+  const caseIds = new Set(cases.map((element) => element.id))
+  const verifies = input.relationships.filter((relationship) =>
+    relationship.kind === 'verification' && caseIds.has(relationship.sourceId),
+  )
+  const placed = new Set(caseIds)
+  const take = (ids: string[]) => {
+    const taken: SemanticElement[] = []
+    for (const id of ids) {
+      const element = input.byId.get(id)
+      if (!element || placed.has(id) || placed.size >= input.maxNodes) continue
+      placed.add(id)
+      taken.push(element)
+    }
+    return taken
+  }
+  const requirements = take(verifies.map((relationship) => relationship.targetId))
+  const requirementIds = new Set(requirements.map((element) => element.id))
+  const satisfies = input.relationships.filter((relationship) =>
+    relationship.kind === 'satisfaction' && requirementIds.has(relationship.targetId),
+  )
+  const subjects = take(satisfies.map((relationship) => relationship.sourceId))
+  return laneColumns([
+    { id: 'verification-cases', label: 'Verification cases', shape: 'verification', elements: byQualifiedName(cases) },
+    { id: 'requirements', label: 'Requirements verified', shape: 'requirement', elements: requirements },
+    { id: 'subjects', label: 'Design subjects', shape: 'block', elements: subjects },
+  ], [...verifies, ...satisfies])
+}
+
+function actionFlowLayout(input: NotationInput): NotationDraft {
+  const actions = input.elements
+    .filter((element) => ACTION_KINDS.has(element.kind))
+    .slice(0, input.maxNodes)
+  const actionIds = new Set(actions.map((element) => element.id))
+  const actionFor = (identity: string) => ancestorWithin(identity, actionIds, input.byId)
+  const edges = input.relationships.flatMap((relationship) => {
+    if (relationship.kind !== 'flow') return []
+    const sourceId = actionFor(relationship.sourceId)
+    const targetId = actionFor(relationship.targetId)
+    return sourceId && targetId && sourceId !== targetId ? [{ relationship, sourceId, targetId }] : []
+  })
+  const rank = new Map(actions.map((element) => [element.id, 0]))
+  for (let pass = 0; pass < actions.length; pass += 1) {
+    let changed = false
+    for (const edge of edges) {
+      const next = rank.get(edge.sourceId)! + 1
+      if (next > rank.get(edge.targetId)! && next < actions.length) {
+        rank.set(edge.targetId, next)
+        changed = true
+      }
+    }
+    if (!changed) break
+  }
+  const lanes = new Map<string, SemanticElement[]>()
+  for (const action of actions) {
+    let laneId = action.ownerId
+    while (laneId && input.byId.get(laneId)?.kind === 'ActionUsage') laneId = input.byId.get(laneId)!.ownerId
+    const key = laneId && input.byId.has(laneId) ? laneId : ''
+    lanes.set(key, [...lanes.get(key) ?? [], action])
+  }
+  const laneOrder = [...lanes.keys()].sort((left, right) =>
+    laneLabel(left, input.byId).localeCompare(laneLabel(right, input.byId)) || left.localeCompare(right),
+  )
+  const columns = (members: SemanticElement[]) => {
+    const ordered = [...members].sort(bySourcePosition)
+    return edges.length
+      ? ordered.map((element) => rank.get(element.id)!)
+      : ordered.map((_element, index) => index)
+  }
+  const width = DIAGRAM_MARGIN + LANE_LABEL_WIDTH + (Math.max(1, ...laneOrder.map((key) =>
+    Math.max(0, ...columns(lanes.get(key)!)) + 1,
+  )) * (NODE_WIDTH + RANK_GAP))
+  const nodes: DiagramLayoutNode[] = []
+  const drawnLanes: DiagramLane[] = []
+  let y = DIAGRAM_MARGIN
+  for (const key of laneOrder) {
+    const members = [...lanes.get(key)!].sort(bySourcePosition)
+    const memberColumns = columns(members)
+    const stacked = new Map<number, number>()
+    for (const [index, element] of members.entries()) {
+      const column = memberColumns[index]!
+      const row = stacked.get(column) ?? 0
+      stacked.set(column, row + 1)
+      nodes.push({
+        ...diagramNode(element, 'action', NODE_WIDTH, NODE_HEIGHT),
+        x: DIAGRAM_MARGIN + LANE_LABEL_WIDTH + RANK_GAP / 2 + column * (NODE_WIDTH + RANK_GAP),
+        y: y + LANE_PADDING + row * (NODE_HEIGHT + ROW_GAP),
+      })
+    }
+    const rows = Math.max(1, ...stacked.values())
+    const height = LANE_PADDING * 2 + rows * NODE_HEIGHT + (rows - 1) * ROW_GAP
+    drawnLanes.push({ id: key || 'unowned', label: laneLabel(key, input.byId), x: DIAGRAM_MARGIN, y, width: width - DIAGRAM_MARGIN, height })
+    y += height
+  }
+  return {
+    nodes,
+    lanes: drawnLanes,
+    edges,
+    warnings: actions.length > 1 && edges.length === 0
+      ? ['No flows connect the drawn actions; each swimlane is ordered by source position.']
+      : [],
+  }
+}
+
+function stateTransitionLayout(input: NotationInput): NotationDraft {
+  const states = input.elements
+    .filter((element) => STATE_KINDS.has(element.kind))
+    .slice(0, input.maxNodes)
+  const stateIds = new Set(states.map((element) => element.id))
+  const transitions = input.elements
+    .filter((element) => element.kind === 'TransitionUsage' && ancestorWithin(element.id, stateIds, input.byId))
+    .slice(0, input.maxNodes - states.length)
+  const nodes = nestedBoxes([...states, ...transitions], input.byId, (element) =>
+    element.kind === 'TransitionUsage'
+      ? { width: TRANSITION_WIDTH, height: TRANSITION_HEIGHT }
+      : { width: NODE_WIDTH, height: NODE_HEIGHT },
+  (element) => element.kind === 'TransitionUsage' ? 'transition' : 'state')
+  const edges = input.relationships
+    .filter((relationship) =>
+      relationship.kind !== 'containment' &&
+      stateIds.has(relationship.sourceId) &&
+      stateIds.has(relationship.targetId),
+    )
+    .map(edgeFor)
+  return {
+    nodes,
+    lanes: [],
+    edges,
+    warnings: transitions.length
+      ? [`${transitions.length} transitions have no source or target state in the semantic snapshot; they are shown inside their owning state without routes.`]
+      : [],
+  }
+}
+
+function nestedBoxes(
+  elements: SemanticElement[],
+  byId: Map<string, SemanticElement>,
+  minimumSize: (element: SemanticElement) => { width: number; height: number },
+  shapeFor: (element: SemanticElement) => DiagramNodeShape,
+): DiagramLayoutNode[] {
+  const ids = new Set(elements.map((element) => element.id))
+  const children = new Map<string, SemanticElement[]>()
+  const roots: SemanticElement[] = []
+  for (const element of elements) {
+    const parentId = element.ownerId ? ancestorWithin(element.ownerId, ids, byId) : undefined
+    if (parentId) children.set(parentId, [...children.get(parentId) ?? [], element])
+    else roots.push(element)
+  }
+  const sizes = new Map<string, { width: number; height: number }>()
+  const measure = (element: SemanticElement): { width: number; height: number } => {
+    const own = minimumSize(element)
+    const members = children.get(element.id) ?? []
+    const grid = members.length ? gridOf(members.map(measure)) : undefined
+    const size = grid
+      ? {
+          width: Math.max(own.width, grid.width + CONTAINER_PADDING * 2),
+          height: Math.max(own.height, CONTAINER_HEADER + grid.height + CONTAINER_PADDING),
+        }
+      : own
+    sizes.set(element.id, size)
+    return size
+  }
+  const nodes: DiagramLayoutNode[] = []
+  const place = (element: SemanticElement, x: number, y: number, parentId: string | undefined) => {
+    const size = sizes.get(element.id)!
+    nodes.push({ ...diagramNode(element, shapeFor(element), size.width, size.height), parentId, x, y })
+    const members = children.get(element.id) ?? []
+    const grid = gridOf(members.map((member) => sizes.get(member.id)!))
+    for (const [index, member] of members.entries()) {
+      const offset = grid.offsets[index]!
+      place(member, x + CONTAINER_PADDING + offset.x, y + CONTAINER_HEADER + offset.y, element.id)
+    }
+  }
+  const rootGrid = gridOf(roots.map(measure))
+  for (const [index, root] of roots.entries()) {
+    const offset = rootGrid.offsets[index]!
+    place(root, DIAGRAM_MARGIN + offset.x, DIAGRAM_MARGIN + offset.y, undefined)
+  }
+  return nodes
+}
+
+function gridOf(sizes: Array<{ width: number; height: number }>) {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(sizes.length)))
+  const widths: number[] = []
+  const heights: number[] = []
+  for (const [index, size] of sizes.entries()) {
+    const column = index % columns
+    const row = Math.floor(index / columns)
+    widths[column] = Math.max(widths[column] ?? 0, size.width)
+    heights[row] = Math.max(heights[row] ?? 0, size.height)
+  }
+  const offsets = sizes.map((_size, index) => ({
+    x: widths.slice(0, index % columns).reduce((total, width) => total + width + NESTED_GAP, 0),
+    y: heights.slice(0, Math.floor(index / columns)).reduce((total, height) => total + height + NESTED_GAP, 0),
+  }))
+  const total = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) + Math.max(0, values.length - 1) * NESTED_GAP
+  return { width: total(widths), height: total(heights), offsets }
+}
+
+function laneColumns(
+  columns: Array<{ id: string; label: string; shape: DiagramNodeShape; elements: SemanticElement[] }>,
+  relationships: SemanticRelationship[],
+): NotationDraft {
+  const centres = new Map<string, number>()
+  const neighbours = new Map<string, string[]>()
+  for (const relationship of relationships) {
+    neighbours.set(relationship.sourceId, [...neighbours.get(relationship.sourceId) ?? [], relationship.targetId])
+    neighbours.set(relationship.targetId, [...neighbours.get(relationship.targetId) ?? [], relationship.sourceId])
+  }
+  const nodes: DiagramLayoutNode[] = []
+  const lanes: DiagramLane[] = []
+  const top = DIAGRAM_MARGIN + LANE_HEADER + LANE_PADDING
+  for (const [index, column] of columns.entries()) {
+    const desired = (element: SemanticElement) => {
+      const linked = (neighbours.get(element.id) ?? [])
+        .map((identity) => centres.get(identity))
+        .filter((centre): centre is number => centre !== undefined)
+      return linked.length
+        ? linked.reduce((sum, centre) => sum + centre, 0) / linked.length - NODE_HEIGHT / 2
+        : Number.POSITIVE_INFINITY
+    }
+    const ordered = index === 0
+      ? column.elements
+      : [...column.elements].sort((left, right) =>
+          desired(left) - desired(right) || left.qualifiedName.localeCompare(right.qualifiedName),
+        )
+    const x = DIAGRAM_MARGIN + index * (NODE_WIDTH + LANE_PADDING * 2 + LANE_GAP)
+    let next = top
+    for (const element of ordered) {
+      const wanted = desired(element)
+      const y = Math.round(Number.isFinite(wanted) ? Math.max(next, wanted) : next)
+      nodes.push({ ...diagramNode(element, column.shape, NODE_WIDTH, NODE_HEIGHT), x: x + LANE_PADDING, y })
+      centres.set(element.id, y + NODE_HEIGHT / 2)
+      next = y + NODE_HEIGHT + ROW_GAP
+    }
+    lanes.push({ id: column.id, label: column.label, x, y: DIAGRAM_MARGIN, width: NODE_WIDTH + LANE_PADDING * 2, height: 0 })
+  }
+  const bottom = Math.max(top, ...nodes.map((node) => node.y + node.height)) + LANE_PADDING
+  return {
+    nodes,
+    lanes: lanes.map((lane) => ({ ...lane, height: bottom - DIAGRAM_MARGIN })),
+    edges: relationships.map(edgeFor),
+    warnings: [],
+  }
+}
+
+function pinNodes(nodes: DiagramLayoutNode[], saved: DiagramLayoutPositions): DiagramLayoutNode[] {
+  const children = new Map<string, string[]>()
+  for (const node of nodes) {
+    if (node.parentId) children.set(node.parentId, [...children.get(node.parentId) ?? [], node.id])
+  }
+  const byId = new Map(nodes.map((node) => [node.id, { ...node }]))
+  const translate = (identity: string, dx: number, dy: number) => {
+    const node = byId.get(identity)!
+    node.x += dx
+    node.y += dy
+    for (const child of children.get(identity) ?? []) translate(child, dx, dy)
+  }
+  for (const node of nodes) {
+    const pinned = saved[node.id]
+    if (!pinned) continue
+    const current = byId.get(node.id)!
+    current.pinned = true
+    if (!children.has(node.id) && node.shape !== 'port') {
+      current.width = Math.round(pinned.width ?? current.width)
+      current.height = Math.round(pinned.height ?? current.height)
+    }
+    translate(node.id, Math.round(pinned.x) - current.x, Math.round(pinned.y) - current.y)
+  }
+  return nodes.map((node) => byId.get(node.id)!)
+}
+
+function diagramNode(
+  element: SemanticElement,
+  shape: DiagramNodeShape,
+  width: number,
+  height: number,
+): DiagramLayoutNode {
+  return {
+    id: element.id,
+    label: element.name,
+    qualifiedName: element.qualifiedName,
+    kind: element.kind,
+    shape,
+    x: 0,
+    y: 0,
+    width,
+    height,
+    pinned: false,
+  }
+}
+
+function edgeFor(relationship: SemanticRelationship) {
+  return { relationship, sourceId: relationship.sourceId, targetId: relationship.targetId }
+}
+
+function ancestorWithin(
+  identity: string,
+  ids: Set<string>,
+  byId: Map<string, SemanticElement>,
+): string | undefined {
+  const seen = new Set<string>()
+  let current: string | undefined = identity
+  while (current && !seen.has(current)) {
+    if (ids.has(current)) return current
+    seen.add(current)
+    current = byId.get(current)?.ownerId
+  }
+  return undefined
+}
+
+function laneLabel(identity: string, byId: Map<string, SemanticElement>): string {
+  return identity ? byId.get(identity)?.name ?? identity : 'Unowned actions'
+}
+
+function byQualifiedName(elements: SemanticElement[]): SemanticElement[] {
+  return [...elements].sort((left, right) =>
+    left.qualifiedName.localeCompare(right.qualifiedName) || left.id.localeCompare(right.id),
+  )
+}
+
+function bySourcePosition(left: SemanticElement, right: SemanticElement): number {
+  return left.source.workspacePath.localeCompare(right.source.workspacePath) ||
+    left.source.range.start.line - right.source.range.start.line ||
+    left.source.range.start.character - right.source.range.start.character ||
+    left.id.localeCompare(right.id)
+}
+
+function orthogonalRoute(
+  source: DiagramLayoutNode,
+  target: DiagramLayoutNode,
+  direction: DiagramLayoutDirection,
+  offset: number,
+): DiagramPoint[] {
+  const sourceCentre = centre(source)
+  const targetCentre = centre(target)
+  const overlapsVertically =
+    source.y < target.y + target.height && target.y < source.y + source.height
+  const overlapsHorizontally =
+    source.x < target.x + target.width && target.x < source.x + source.width
+  const horizontal = direction === 'LR'
+    ? !overlapsHorizontally || overlapsVertically
+    : overlapsVertically && !overlapsHorizontally
+  if (horizontal) {
+    const forward = targetCentre.x >= sourceCentre.x
+    const start = { x: forward ? source.x + source.width : source.x, y: sourceCentre.y + offset }
+    const end = { x: forward ? target.x : target.x + target.width, y: targetCentre.y + offset }
+    const middle = Math.round((start.x + end.x) / 2)
+    return simplify([start, { x: middle, y: start.y }, { x: middle, y: end.y }, end])
+  }
+  const downward = targetCentre.y >= sourceCentre.y
+  const start = { x: sourceCentre.x + offset, y: downward ? source.y + source.height : source.y }
+  const end = { x: targetCentre.x + offset, y: downward ? target.y : target.y + target.height }
+  const middle = Math.round((start.y + end.y) / 2)
+  return simplify([start, { x: start.x, y: middle }, { x: end.x, y: middle }, end])
+}
+
+function centre(node: DiagramLayoutNode): DiagramPoint {
+  return {
+    x: Math.round(node.x + node.width / 2),
+    y: Math.round(node.y + node.height / 2),
+  }
+}
+
+function parallelOffset(index: number): number {
+  if (index === 0) return 0
+  const step = Math.ceil(index / 2) * PARALLEL_EDGE_SPACING
+  return index % 2 === 1 ? step : -step
+}
+
+function simplify(points: DiagramPoint[]): DiagramPoint[] {
+  return points.filter((point, index) => {
+    const previous = points[index - 1]
+    return !previous || previous.x !== point.x || previous.y !== point.y
+  })
+}
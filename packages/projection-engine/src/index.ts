@@ -63,3 +63,5 @@ export function buildExplorerProjection(
     truncated: result.truncated,
   }
 }
+
+export * from './diagram-layout.js'
@@ -0,0 +1,88 @@
+// Name patterns shared by model queries and workspace rule packs. `*` matches
+// any text, `?` one character, and `[...]` one character of a set such as
+// `[A-Z_]`, or outside it with `[!...]`. A pattern matches the whole value.
+// Matching falls back only to the last `*`, so its cost is bounded by the
+// product of pattern and value lengths however the pattern is written.
+
+export type GlobMatcher = (value: string) => boolean
+
+type GlobToken = { type: 'star' } | { type: 'character'; test: (character: string) => boolean }
+
+export interface GlobOptions {
+  // Model queries ignore case; rule packs enforce naming standards with it.
+  caseSensitive?: boolean
+}
+
+export function compileGlob(pattern: string, options: GlobOptions = {}): GlobMatcher {
+  const fold = (text: string) => (options.caseSensitive ? text : text.toLowerCase())
+  const tokens = parseGlob([...fold(pattern)])
+  return (value) => matchTokens(tokens, [...fold(value)])
+}
+
+function parseGlob(pattern: string[]): GlobToken[] {
+  const tokens: GlobToken[] = []
+  for (let index = 0; index < pattern.length; index += 1) {
+    const character = pattern[index]!
+    if (character === '*') {
+      if (tokens.at(-1)?.type !== 'star') tokens.push({ type: 'star' })
+    } else if (character === '?') {
+      tokens.push({ type: 'character', test: () => true })
+    } else if (character === '[') {
+      const end = pattern.indexOf(']', index + 2)
+      if (end < 0) throw new Error(`Glob has an unterminated [ at ${index}`)
+      tokens.push({ type: 'character', test: characterClass(pattern.slice(index + 1, end), index) })
+      index = end
+    } else {
+      tokens.push({ type: 'character', test: (candidate) => candidate === character })
+    }
+  }
+  return tokens
+}
+
+// The first member may be `]` itself, as in `[]a]`.
+function characterClass(members: string[], offset: number): (character: string) => boolean {
+  const negated = members[0] === '!' && members.length > 1
+  const body = negated ? members.slice(1) : members
+  const ranges: Array<[string, string]> = []
+  for (let index = 0; index < body.length; index += 1) {
+    const low = body[index]!
+    if (body[index + 1] === '-' && index + 2 < body.length) {
+      const high = body[index + 2]!
+      if (low.codePointAt(0)! > high.codePointAt(0)!) {
+        throw new Error(`Glob has a reversed range ${low}-${high} at ${offset}`)
+      }
+      ranges.push([low, high])
+      index += 2
+    } else {
+      ranges.push([low, low])
+    }
+  }
+  return (character) =>
+    negated !== ranges.some(([low, high]) => character >= low && character <= high)
+}
+
+function matchTokens(tokens: GlobToken[], text: string[]): boolean {
+  let textIndex = 0
+  let tokenIndex = 0
+  let starIndex = -1
+  let starText = 0
+  while (textIndex < text.length) {
+    const token = tokens[tokenIndex]
+    if (token?.type === 'star') {
+      starIndex = tokenIndex
+      starText = textIndex
+      tokenIndex += 1
+    } else if (token?.test(text[textIndex]!)) {
+      tokenIndex += 1
+      textIndex += 1
+    } else if (starIndex >= 0) {
+      tokenIndex = starIndex + 1
+      starText += 1
+      textIndex = starText
+    } else {
+      return false
+    }
+  }
+  while (tokens[tokenIndex]?.type === 'star') tokenIndex += 1
+  return tokenIndex === tokens.length
+}
@@ -4,7 +4,11 @@ import type {
   SemanticElement,
   SemanticSnapshot,
 } from '../../semantic-model/src/index.js'
-import { executeModelQuery } from './index.js'
+import {
+  executeModelQuery,
+  executeModelQueryWithReach,
+  isModelQueryAffected,
+} from './index.js'
 
 describe('bounded model query', () => {
   it('traverses containment by stable identity and filters deterministically', () => {
@@ -110,6 +114,79 @@ describe('bounded model query', () => {
       })).not.toThrow()
     }
   })
+
+  it('traverses allocation and inheritance modes without crossing unrelated kinds', () => {
+    const value = snapshot()
+    value.elements.push(
+      { ...element('logical', 'PartUsage', 'logical'), ownerId: 'system' },
+      { ...element('base', 'PartDefinition', 'Base'), ownerId: 'system' },
+    )
+    value.relationships.push(
+      typedRelationship('allocate', 'logical', 'vehicle', 'allocation'),
+      typedRelationship('specialize', 'vehicle', 'base', 'specialization'),
+      typedRelationship('bind', 'logical', 'command-port', 'binding'),
+    )
+    const allocation = executeModelQuery(value, {
+      schemaVersion: 1,
+      roots: ['logical'],
+      mode: 'allocation',
+      depth: 1,
+    })
+    expect(allocation.relationships.map((relationship) => relationship.id)).toEqual(['allocate'])
+    expect(allocation.elements.map((element) => element.id)).toEqual(['logical', 'vehicle'])
+
+    const inheritance = executeModelQuery(value, {
+      schemaVersion: 1,
+      roots: ['vehicle'],
+      mode: 'inheritance',
+      depth: 2,
+    })
+    expect(inheritance.elements.map((element) => element.id)).toEqual(['base', 'vehicle'])
+    expect(inheritance.relationships.map((relationship) => relationship.kind)).toEqual(['specialization'])
+
+    const interfaces = executeModelQuery(value, {
+      schemaVersion: 1,
+      roots: ['logical'],
+      mode: 'interfaces',
+      direction: 'outbound',
+      depth: 1,
+    })
+    expect(interfaces.relationships.map((relationship) => relationship.kind)).toEqual(['binding'])
+  })
+
+  it('reports the elements a result reaches for cache invalidation', () => {
+    const { result, reach } = executeModelQueryWithReach(snapshot(), {
+      schemaVersion: 1,
+      roots: ['System::Vehicle'],
+      depth: 1,
+    })
+    expect(result).toEqual(
+      executeModelQuery(snapshot(), {
+        schemaVersion: 1,
+        roots: ['System::Vehicle'],
+        depth: 1,
+      }),
+    )
+    expect([...reach.elementIds].sort()).toEqual(['command-port', 'vehicle'])
+    const change = (elementIds: string[], qualifiedNames: string[] = []) => ({
+      elementIds: new Set(elementIds),
+      qualifiedNames: new Set(qualifiedNames),
+      topLevel: false,
+    })
+    expect(isModelQueryAffected(reach, change(['system'], ['System']))).toBe(false)
+    expect(isModelQueryAffected(reach, change(['command-port']))).toBe(true)
+
+    expect(isModelQueryAffected(reach, change(['other-vehicle'], ['System::Vehicle']))).toBe(true)
+    const topLevel = executeModelQueryWithReach(snapshot(), { schemaVersion: 1 }).reach
+    expect(isModelQueryAffected(topLevel, { ...change([]), topLevel: true })).toBe(true)
+    const expression = executeModelQueryWithReach(snapshot(), {
+      schemaVersion: 1,
+      roots: ['System::Vehicle'],
+      expression: 'PortUsage',
+    }).reach
+    expect(isModelQueryAffected(expression, change(['system']))).toBe(true)
+    expect(isModelQueryAffected(expression, change([]))).toBe(false)
+  })
 })
 
 function snapshot(): SemanticSnapshot {
@@ -4,11 +4,33 @@ import type {
   SemanticRelationship,
   SemanticRelationshipKind,
   SemanticSnapshot,
+  SnapshotChange,
 } from '../../semantic-model/src/index.js'
 import {
   NORMALIZED_ELEMENT_KINDS,
   SEMANTIC_RELATIONSHIP_KINDS,
 } from '../../semantic-model/src/index.js'
+import {
+  aggregateQueryExpression,
+  createQueryContext,
+  MAX_QUERY_EXPRESSION_LENGTH,
+  matchesQueryExpression,
+  parseModelQueryExpression,
+  type QueryAggregate,
+} from './query-language.js'
+
+export { compileGlob, type GlobMatcher, type GlobOptions } from './glob.js'
+export {
+  parseModelQueryExpression,
+  QUERY_ATTRIBUTES,
+  type QueryAggregate,
+  type QueryAttributeName,
+  type QueryComparisonOperator,
+  type QueryExpression,
+  type QueryOperand,
+  type QueryPathStep,
+  type QueryPredicate,
+} from './query-language.js'
 
 export const MODEL_QUERY_SCHEMA_VERSION = 1
 const MAX_QUERY_ROOTS = 100
@@ -25,15 +47,19 @@ export type ModelQueryMode =
   | 'requirements'
   | 'verification'
   | 'interfaces'
+  | 'inheritance'
+  | 'allocation'
 
 const MODE_RELATIONSHIPS: Readonly<Record<ModelQueryMode, SemanticRelationshipKind[]>> = {
   containment: ['containment'],
-  'type-hierarchy': ['typing'],
+  'type-hierarchy': ['typing', 'specialization'],
   dependency: ['dependency'],
   neighbourhood: [...SEMANTIC_RELATIONSHIP_KINDS],
   requirements: ['containment', 'satisfaction'],
   verification: ['containment', 'satisfaction', 'verification'],
-  interfaces: ['containment', 'typing', 'dependency', 'connection', 'flow', 'interface'],
+  interfaces: ['containment', 'typing', 'dependency', 'connection', 'flow', 'interface', 'binding'],
+  inheritance: ['specialization', 'redefinition', 'subsetting'],
+  allocation: ['containment', 'allocation'],
 }
 
 export interface ModelQuery {
@@ -48,6 +74,7 @@ export interface ModelQuery {
     excludeKinds?: NormalizedElementKind[]
     nameContains?: string
   }
+  expression?: string
   maxResults?: number
 }
 
@@ -57,15 +84,48 @@ export interface ModelQueryResult {
   resolvedRoots: string[]
   elements: SemanticElement[]
   relationships: SemanticRelationship[]
+  aggregates?: QueryAggregate[]
   truncated: boolean
   warnings: string[]
 }
 
+// The part of a snapshot a result depends on: every traversed element, roots
+// named by qualified name, and whether the roots are the top-level elements.
+// Expressions can read beyond the traversal, so they depend on every element.
+export interface ModelQueryReach {
+  elementIds: Set<string>
+  rootNames: string[]
+  topLevelRoots: boolean
+  everyElement: boolean
+}
+
 export function executeModelQuery(
   snapshot: SemanticSnapshot,
   query: ModelQuery,
 ): ModelQueryResult {
+  return executeModelQueryWithReach(snapshot, query).result
+}
+
+export function isModelQueryAffected(
+  reach: ModelQueryReach,
+  change: SnapshotChange,
+): boolean {
+  if (reach.everyElement) return change.elementIds.size > 0 || change.topLevel
+  return (
+    (reach.topLevelRoots && change.topLevel) ||
+    reach.rootNames.some((name) => change.qualifiedNames.has(name)) ||
+    [...change.elementIds].some((id) => reach.elementIds.has(id))
+  )
+}
+
+export function executeModelQueryWithReach(
+  snapshot: SemanticSnapshot,
+  query: ModelQuery,
+): { result: ModelQueryResult; reach: ModelQueryReach } {
   validateQuery(query)
+  const expression = query.expression === undefined
+    ? undefined
+    : parseModelQueryExpression(query.expression)
   const depth = query.depth ?? 3
   const maxResults = query.maxResults ?? 1_000
   const mode = query.mode ?? 'containment'
@@ -83,10 +143,13 @@ export function executeModelQuery(
     },
     new Map<string, SemanticElement[]>(),
   )
+  // An expression without roots selects from the whole snapshot rather than
+  // from a traversal of the top-level elements.
+  const selectsAll = expression !== undefined && !query.roots?.length
   const resolvedRoots =
     query.roots && query.roots.length > 0
       ? query.roots.map((root) => resolveRoot(root, byId, byQualifiedName))
-      : snapshot.elements.filter((element) => !element.ownerId)
+      : selectsAll ? [] : snapshot.elements.filter((element) => !element.ownerId)
   const roots = [
     ...new Map(resolvedRoots.map((element) => [element.id, element])).values(),
   ]
@@ -144,11 +207,15 @@ export function executeModelQuery(
     }
   }
 
-  const matching = [...visited]
-    .map((id) => byId.get(id))
+  const context = expression ? createQueryContext(snapshot) : undefined
+  const matching = (selectsAll ? snapshot.elements : [...visited].map((id) => byId.get(id)))
     .filter((element): element is SemanticElement => element !== undefined)
     .filter((element) => matchesFilters(element, query.filters))
+    .filter((element) => !expression || matchesQueryExpression(expression, element, context!))
     .sort((left, right) => left.id.localeCompare(right.id))
+  const aggregates = expression
+    ? aggregateQueryExpression(expression, matching, context!)
+    : undefined
   const truncated = matching.length > maxResults
   const elements = matching.slice(0, maxResults)
   const included = new Set(elements.map((element) => element.id))
@@ -161,17 +228,27 @@ export function executeModelQuery(
     )
     .sort((left, right) => left.id.localeCompare(right.id))
 
-  return {
+  const result: ModelQueryResult = {
     schemaVersion: MODEL_QUERY_SCHEMA_VERSION,
     snapshotSha256: snapshot.snapshotSha256,
     resolvedRoots: roots.map((element) => element.id),
     elements,
     relationships,
+    ...(aggregates ? { aggregates } : {}),
     truncated,
     warnings: truncated
       ? [`Result exceeded maxResults=${maxResults}; output was truncated`]
       : [],
   }
+  return {
+    result,
+    reach: {
+      elementIds: visited,
+      rootNames: (query.roots ?? []).filter((root) => !byId.has(root)),
+      topLevelRoots: !selectsAll && !query.roots?.length,
+      everyElement: expression !== undefined,
+    },
+  }
 }
 
 function resolveRoot(
@@ -276,6 +353,15 @@ function validateQuery(query: ModelQuery): void {
   ) {
     throw new Error('Model query contains an unsupported relationship kind')
   }
+  if (
+    query.expression !== undefined &&
+    (typeof query.expression !== 'string' ||
+      query.expression.length > MAX_QUERY_EXPRESSION_LENGTH)
+  ) {
+    throw new Error(
+      `Model query expression must be a string of at most ${MAX_QUERY_EXPRESSION_LENGTH} characters`,
+    )
+  }
   if (query.filters !== undefined) {
     if (!isRecord(query.filters)) {
       throw new Error('Model query filters must be an object')
@@ -0,0 +1,190 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import type {
+  SemanticElement,
+  SemanticRelationshipKind,
+  SemanticSnapshot,
+} from '../../semantic-model/src/index.js'
+import { executeModelQuery, parseModelQueryExpression } from './index.js'
+
+describe('model query expressions', () => {
+  it('selects unsatisfied requirements by path and owner attribute', () => {
+    const result = executeModelQuery(snapshot(), {
+      schemaVersion: 1,
+      expression: 'RequirementUsage where not exists <-satisfaction- and owner.name ~ "Power*"',
+    })
+    expect(result.resolvedRoots).toEqual([])
+    expect(result.elements.map((element) => element.id)).toEqual(['voltage'])
+    expect(result).not.toHaveProperty('aggregates')
+  })
+
+  it('combines kind unions, filtered paths, counts, and feature attributes', () => {
+    const ids = (expression: string) =>
+      executeModelQuery(snapshot(), { schemaVersion: 1, expression })
+        .elements.map((element) => element.id)
+    expect(ids('RequirementUsage where exists <-satisfaction-[kind = "PartUsage"]')).toEqual(['current'])
+    expect(ids('PartUsage | PortUsage where count(-satisfaction->) >= 1 or direction = "out"')).toEqual(['battery', 'outlet'])
+    expect(ids('* where exists <-containment-<-containment-[name = "System"]')).toEqual(['battery', 'current', 'outlet', 'voltage'])
+    expect(ids('where unit = "V" and value > 11.5')).toEqual(['voltage'])
+    expect(ids('PortUsage where conjugated = false and not (path !~ "*.sysml")')).toEqual(['outlet'])
+  })
+
+  it('matches name patterns in linear time', () => {
+    const base = snapshot()
+    const long = { ...base, elements: [...base.elements, element('long', 'PartUsage', `System::${'a'.repeat(40)}`, 'system')] }
+    const ids = (expression: string) =>
+      executeModelQuery(long, { schemaVersion: 1, expression }).elements.map((element) => element.id)
+    const started = performance.now()
+    expect(ids('* where name ~ "*a*a*a*a*a*a*a*a*a*a*a*a*b"')).toEqual([])
+    expect(performance.now() - started).toBeLessThan(1_000)
+    expect(ids('PartUsage where name ~ "*a*a*a*a*a*a*a*a*a*a*a*a*"')).toEqual(['long'])
+    expect(ids('* where name ~ "s?STEM"')).toEqual(['system'])
+    expect(ids('PortUsage | PartUsage where name !~ "*a**"')).toEqual(['outlet'])
+    expect(ids('* where name ~ "[pv]o*"')).toEqual(['power', 'voltage'])
+    expect(ids('PartUsage | PortUsage where name ~ "[!a-c]*"')).toEqual(['outlet'])
+    expect(() => parseModelQueryExpression('* where name ~ "[a-"')).toThrow('invalid pattern (Glob has an unterminated [ at 0) at 15')
+  })
+
+  it('evaluates nested path filters once per step and element', () => {
+    const base = snapshot()
+    const ids = Array.from({ length: 120 }, (_, index) => `node-${index}`)
+    const dense = {
+      ...base,
+      elements: ids.map((id) => element(id, 'PartUsage', `System::${id}`, 'system')),
+      relationships: ids.flatMap((source) => ids
+        .filter((target) => target !== source)
+        .map((target) => relationship(`${source}-${target}`, 'dependency', source, target))),
+    }
+    const started = performance.now()
+    const result = executeModelQuery(dense, {
+      schemaVersion: 1,
+      expression: '* where exists -*->[exists -*->[exists -*->[name = "missing"]]]',
+    })
+    expect(performance.now() - started).toBeLessThan(1_000)
+    expect(result.elements).toEqual([])
+    expect(() => parseModelQueryExpression('* where exists -*->[exists -*->[exists -*->[exists -*->[name = "x"]]]]'))
+      .toThrow('nests path filters deeper than 3 levels at 55')
+  })
+
+  it('aggregates matches and keeps traversal roots when they are given', () => {
+    const grouped = executeModelQuery(snapshot(), {
+      schemaVersion: 1,
+      expression: '* group by kind',
+    })
+    expect(grouped.aggregates).toEqual([
+      { key: 'Package', count: 1 },
+      { key: 'PartDefinition', count: 1 },
+      { key: 'PartUsage', count: 1 },
+      { key: 'PortUsage', count: 1 },
+      { key: 'RequirementDefinition', count: 1 },
+      { key: 'RequirementUsage', count: 2 },
+    ])
+    const rooted = executeModelQuery(snapshot(), {
+      schemaVersion: 1,
+      roots: ['System::Power'],
+      depth: 1,
+      expression: 'RequirementUsage group by owner.qualifiedName',
+      maxResults: 1,
+    })
+    expect(rooted.resolvedRoots).toEqual(['power'])
+    expect(rooted.elements.map((element) => element.id)).toEqual(['current'])
+    expect(rooted.aggregates).toEqual([{ key: 'System::Power', count: 2 }])
+    expect(rooted.truncated).toBe(true)
+  })
+
+  it('rejects unknown kinds, attributes, relationships, and malformed syntax with a position', () => {
+    expect(() => parseModelQueryExpression('Widget')).toThrow('unsupported element kind Widget at 0')
+    expect(() => parseModelQueryExpression('* where colour = "red"')).toThrow('unsupported attribute colour at 8')
+    expect(() => parseModelQueryExpression('* where exists <-owns-')).toThrow('unsupported relationship kind owns')
+    expect(() => parseModelQueryExpression('* where name ~ 3')).toThrow('string pattern')
+    expect(() => parseModelQueryExpression('* where (name = "a"')).toThrow('expected )')
+    expect(() => parseModelQueryExpression('* where name = "a')).toThrow('unterminated string')
+    expect(() => parseModelQueryExpression('* where exists')).toThrow('expected a path')
+    expect(() => parseModelQueryExpression(`* where ${'not '.repeat(40)}name = "a"`)).toThrow('nests deeper')
+    expect(() => parseModelQueryExpression(' ')).toThrow('non-empty')
+    expect(() => executeModelQuery(snapshot(), { schemaVersion: 1, expression: 'x'.repeat(2_049) })).toThrow('at most 2048')
+  })
+})
+
+function snapshot(): SemanticSnapshot {
+  return {
+    schemaVersion: 1,
+    snapshotSha256: 'snapshot',
+    workspace: { id: 'sample', rootUri: 'file:///workspace', configurationName: 'default' },
+    authority: {
+      adapterId: 'qualified',
+      adapterVersion: '1',
+      engineName: 'engine',
+      engineVersion: '1',
+      referenceRelease: 'test',
+      qualificationStatus: 'qualified',
+    },
+    freshness: 'current',
+    documents: [],
+    elements: [
+      element('system', 'Package', 'System'),
+      element('power', 'RequirementDefinition', 'System::Power', 'system'),
+      element('voltage', 'RequirementUsage', 'System::Power::voltage', 'power', { unit: 'V', value: { kind: 'real', text: '12 [V]', literal: 12 } }),
+      element('current', 'RequirementUsage', 'System::Power::current', 'power'),
+      element('supply', 'PartDefinition', 'System::Supply', 'system'),
+      element('battery', 'PartUsage', 'System::Supply::battery', 'supply'),
+      element('outlet', 'PortUsage', 'System::Supply::outlet', 'supply', { direction: 'out' }),
+    ],
+    relationships: [
+      relationship('contains-power', 'containment', 'system', 'power'),
+      relationship('contains-voltage', 'containment', 'power', 'voltage'),
+      relationship('contains-current', 'containment', 'power', 'current'),
+      relationship('contains-supply', 'containment', 'system', 'supply'),
+      relationship('contains-battery', 'containment', 'supply', 'battery'),
+      relationship('contains-outlet', 'containment', 'supply', 'outlet'),
+      relationship('satisfy-current', 'satisfaction', 'battery', 'current'),
+      relationship('satisfy-power', 'satisfaction', 'supply', 'power'),
+    ],
+  }
+}
+
+function element(
+  id: string,
+  kind: SemanticElement['kind'],
+  qualifiedName: string,
+  ownerId?: string,
+  feature?: SemanticElement['feature'],
+): SemanticElement {
+  return {
+    id,
+    kind,
+    rawKind: kind,
+    name: qualifiedName.split('::').at(-1)!,
+    qualifiedName,
+    ...(ownerId ? { ownerId } : {}),
+    source: {
+      uri: 'file:///workspace/model.sysml',
+      workspacePath: 'model.sysml',
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+      documentSha256: 'document',
+    },
+    fingerprint: id,
+    ...(feature ? { feature } : {}),
+    provenance: {
+      authority: 'qualified-language-engine',
+      extraction: 'pilot-emf-semantic-evidence',
+      classification: 'engine-metaclass',
+      engineId: id,
+    },
+  }
+}
+
+function relationship(id: string, kind: SemanticRelationshipKind, sourceId: string, targetId: string) {
+  return {
+    id,
+    kind,
+    sourceId,
+    targetId,
+    provenance: {
+      authority: 'qualified-language-engine' as const,
+      extraction: 'pilot-emf-explicit-reference' as const,
+      engineMetaclass: kind,
+      features: [],
+    },
+  }
+}
@@ -0,0 +1,518 @@
+import type {
+  NormalizedElementKind,
+  SemanticElement,
+  SemanticRelationship,
+  SemanticRelationshipKind,
+  SemanticSnapshot,
+} from '../../semantic-model/src/index.js'
+import {
+  NORMALIZED_ELEMENT_KINDS,
+  SEMANTIC_RELATIONSHIP_KINDS,
+} from '../../semantic-model/src/index.js'
+import { compileGlob, type GlobMatcher } from './glob.js'
+
+export const MAX_QUERY_EXPRESSION_LENGTH = 2_048
+const MAX_EXPRESSION_NESTING = 32
+// Each `[predicate]` on a path step filters what the step reaches with its own
+// paths; results are cached per step and element, and nesting stays shallow.
+const MAX_PATH_NESTING = 3
+const MAX_PATH_STEPS = 8
+const MAX_OWNER_HOPS = 8
+const NORMALIZED_KINDS = new Set<string>(NORMALIZED_ELEMENT_KINDS)
+const RELATIONSHIP_KINDS = new Set<string>(SEMANTIC_RELATIONSHIP_KINDS)
+const KEYWORDS = new Set([
+  'where', 'and', 'or', 'not', 'exists', 'count', 'group', 'by', 'true', 'false',
+])
+
+export const QUERY_ATTRIBUTES = [
+  'id',
+  'name',
+  'qualifiedName',
+  'kind',
+  'rawKind',
+  'path',
+  'direction',
+  'unit',
+  'value',
+  'conjugated',
+] as const
+
+export type QueryAttributeName = (typeof QUERY_ATTRIBUTES)[number]
+export type QueryComparisonOperator = '=' | '!=' | '~' | '!~' | '<' | '<=' | '>' | '>='
+export type QueryValue = string | number | boolean
+
+export interface QueryPathStep {
+  relationship: SemanticRelationshipKind | '*'
+  direction: 'outbound' | 'inbound'
+  where?: QueryPredicate
+}
+
+export type QueryOperand =
+  | { type: 'attribute'; ownerHops: number; attribute: QueryAttributeName }
+  | { type: 'count'; path: QueryPathStep[] }
+  | { type: 'literal'; value: QueryValue }
+
+export type QueryPredicate =
+  | { type: 'and' | 'or'; left: QueryPredicate; right: QueryPredicate }
+  | { type: 'not'; operand: QueryPredicate }
+  | { type: 'exists'; path: QueryPathStep[] }
+  | {
+      type: 'compare'
+      operator: QueryComparisonOperator
+      left: QueryOperand
+      right: QueryOperand
+    }
+
+export interface QueryExpression {
+  kinds?: NormalizedElementKind[]
+  where?: QueryPredicate
+  groupBy?: Extract<QueryOperand, { type: 'attribute' }>
+}
+
+export interface QueryAggregate {
+  key: string
+  count: number
+}
+
+type Token =
+  | { type: 'identifier' | 'string' | 'symbol'; value: string; offset: number }
+  | { type: 'number'; value: number; offset: number }
+  | { type: 'end'; offset: number }
+
+const SYMBOLS = ['<-', '->', '!=', '!~', '<=', '>=', '(', ')', '[', ']', '|', '.', '*', '-', '=', '~', '<', '>']
+
+/**
+ * Parses a model query expression such as
+ * `RequirementUsage where not exists <-satisfaction- and owner.name ~ "Power*"`.
+ * The parsed form is validated against the normalized schema, so evaluation
+ * never meets an unknown kind or attribute.
+ */
+export function parseModelQueryExpression(text: string): QueryExpression {
+  if (
+    typeof text !== 'string' ||
+    text.trim().length === 0 ||
+    text.length > MAX_QUERY_EXPRESSION_LENGTH
+  ) {
+    throw new Error(
+      `Model query expression must be a non-empty string of at most ${MAX_QUERY_EXPRESSION_LENGTH} characters`,
+    )
+  }
+  return new ExpressionParser(tokenize(text)).parse()
+}
+
+export function matchesQueryExpression(
+  expression: QueryExpression,
+  element: SemanticElement,
+  context: QueryContext,
+): boolean {
+  if (expression.kinds && !expression.kinds.includes(element.kind)) return false
+  return !expression.where || evaluatePredicate(expression.where, element, context)
+}
+
+export function aggregateQueryExpression(
+  expression: QueryExpression,
+  elements: SemanticElement[],
+  context: QueryContext,
+): QueryAggregate[] | undefined {
+  if (!expression.groupBy) return undefined
+  const counts = new Map<string, number>()
+  for (const element of elements) {
+    const value = operandValue(expression.groupBy, element, context)
+    const key = value === undefined ? '' : String(value)
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+  return [...counts]
+    .map(([key, count]) => ({ key, count }))
+    .sort((left, right) => left.key.localeCompare(right.key))
+}
+
+export interface QueryContext {
+  byId: Map<string, SemanticElement>
+  outgoing: Map<string, SemanticRelationship[]>
+  incoming: Map<string, SemanticRelationship[]>
+  globs: Map<string, GlobMatcher>
+  // Filter results of path steps, by step and then by reached element id.
+  stepResults: Map<QueryPathStep, Map<string, boolean>>
+}
+
+export function createQueryContext(snapshot: SemanticSnapshot): QueryContext {
+  const outgoing = new Map<string, SemanticRelationship[]>()
+  const incoming = new Map<string, SemanticRelationship[]>()
+  for (const relationship of snapshot.relationships) {
+    if (!outgoing.has(relationship.sourceId)) outgoing.set(relationship.sourceId, [])
+    outgoing.get(relationship.sourceId)!.push(relationship)
+    if (!incoming.has(relationship.targetId)) incoming.set(relationship.targetId, [])
+    incoming.get(relationship.targetId)!.push(relationship)
+  }
+  return {
+    byId: new Map(snapshot.elements.map((element) => [element.id, element])),
+    outgoing,
+    incoming,
+    globs: new Map(),
+    stepResults: new Map(),
+  }
+}
+
+function evaluatePredicate(
+  predicate: QueryPredicate,
+  element: SemanticElement,
+  context: QueryContext,
+): boolean {
+  switch (predicate.type) {
+    case 'and':
+      return evaluatePredicate(predicate.left, element, context) &&
+        evaluatePredicate(predicate.right, element, context)
+    case 'or':
+      return evaluatePredicate(predicate.left, element, context) ||
+        evaluatePredicate(predicate.right, element, context)
+    case 'not':
+      return !evaluatePredicate(predicate.operand, element, context)
+    case 'exists':
+      return followPath(predicate.path, element, context).size > 0
+    case 'compare':
+      return compare(
+        predicate.operator,
+        operandValue(predicate.left, element, context),
+        operandValue(predicate.right, element, context),
+        context,
+      )
+  }
+}
+
+function followPath(
+  path: QueryPathStep[],
+  element: SemanticElement,
+  context: QueryContext,
+): Set<string> {
+  let current = new Set([element.id])
+  for (const step of path) {
+    const next = new Set<string>()
+    for (const id of current) {
+      const relationships = step.direction === 'outbound'
+        ? context.outgoing.get(id) ?? []
+        : context.incoming.get(id) ?? []
+      for (const relationship of relationships) {
+        if (step.relationship !== '*' && relationship.kind !== step.relationship) continue
+        const reachedId = step.direction === 'outbound' ? relationship.targetId : relationship.sourceId
+        const reached = context.byId.get(reachedId)
+        if (reached && stepAccepts(step, reached, context)) {
+          next.add(reachedId)
+        }
+      }
+    }
+    current = next
+  }
+  return current
+}
+
+function stepAccepts(
+  step: QueryPathStep,
+  element: SemanticElement,
+  context: QueryContext,
+): boolean {
+  if (!step.where) return true
+  let results = context.stepResults.get(step)
+  if (!results) {
+    results = new Map()
+    context.stepResults.set(step, results)
+  }
+  let accepted = results.get(element.id)
+  if (accepted === undefined) {
+    accepted = evaluatePredicate(step.where, element, context)
+    results.set(element.id, accepted)
+  }
+  return accepted
+}
+
+function operandValue(
+  operand: QueryOperand,
+  element: SemanticElement,
+  context: QueryContext,
+): QueryValue | undefined {
+  if (operand.type === 'literal') return operand.value
+  if (operand.type === 'count') return followPath(operand.path, element, context).size
+  let target: SemanticElement | undefined = element
+  for (let hop = 0; hop < operand.ownerHops && target; hop += 1) {
+    target = target.ownerId ? context.byId.get(target.ownerId) : undefined
+  }
+  if (!target) return undefined
+  switch (operand.attribute) {
+    case 'path':
+      return target.source.workspacePath
+    case 'direction':
+      return target.feature?.direction
+    case 'unit':
+      return target.feature?.unit
+    case 'value':
+      return target.feature?.value?.literal ?? target.feature?.value?.text
+    case 'conjugated':
+      return target.feature?.conjugated ?? false
+    default:
+      return target[operand.attribute]
+  }
+}
+
+// A comparison with a missing attribute is false, so `not` selects elements
+// that lack it. Ordering operators compare numbers only.
+function compare(
+  operator: QueryComparisonOperator,
+  left: QueryValue | undefined,
+  right: QueryValue | undefined,
+  context: QueryContext,
+): boolean {
+  if (left === undefined || right === undefined) return false
+  switch (operator) {
+    case '=':
+      return left === right
+    case '!=':
+      return left !== right
+    case '~':
+      return glob(String(right), context)(String(left))
+    case '!~':
+      return !glob(String(right), context)(String(left))
+    default:
+      if (typeof left !== 'number' || typeof right !== 'number') return false
+      return operator === '<' ? left < right
+        : operator === '<=' ? left <= right
+          : operator === '>' ? left > right
+            : left >= right
+  }
+}
+
+function glob(pattern: string, context: QueryContext): GlobMatcher {
+  let matcher = context.globs.get(pattern)
+  if (!matcher) {
+    matcher = compileGlob(pattern)
+    context.globs.set(pattern, matcher)
+  }
+  return matcher
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let offset = 0
+  while (offset < text.length) {
+    const character = text[offset]!
+    if (/\s/.test(character)) {
+      offset += 1
+    } else if (/[A-Za-z_]/.test(character)) {
+      const value = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(offset))![0]
+      tokens.push({ type: 'identifier', value, offset })
+      offset += value.length
+    } else if (/[0-9]/.test(character) || (character === '-' && /[0-9]/.test(text[offset + 1] ?? ''))) {
+      const value = /^-?[0-9]+(?:\.[0-9]+)?/.exec(text.slice(offset))![0]
+      tokens.push({ type: 'number', value: Number(value), offset })
+      offset += value.length
+    } else if (character === '"') {
+      let value = ''
+      let index = offset + 1
+      for (; index < text.length && text[index] !== '"'; index += 1) {
+        if (text[index] === '\\' && index + 1 < text.length) index += 1
+        value += text[index]
+      }
+      if (index >= text.length) {
+        throw new Error(`Model query expression has an unterminated string at ${offset}`)
+      }
+      tokens.push({ type: 'string', value, offset })
+      offset = index + 1
+    } else {
+      const symbol = SYMBOLS.find((candidate) => text.startsWith(candidate, offset))
+      if (!symbol) {
+        throw new Error(`Model query expression has an unexpected character ${JSON.stringify(character)} at ${offset}`)
+      }
+      tokens.push({ type: 'symbol', value: symbol, offset })
+      offset += symbol.length
+    }
+  }
+  tokens.push({ type: 'end', offset: text.length })
+  return tokens
+}
+
+class ExpressionParser {
+  private index = 0
+  private nesting = 0
+  private pathNesting = 0
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): QueryExpression {
+    const expression: QueryExpression = {}
+    if (this.isSymbol('*')) {
+      this.index += 1
+    } else if (this.peek().type === 'identifier' && !this.isKeyword()) {
+      expression.kinds = this.parseKinds()
+    }
+    if (this.acceptKeyword('where')) expression.where = this.parseOr()
+    if (this.acceptKeyword('group')) {
+      this.expectKeyword('by')
+      expression.groupBy = this.parseAttribute()
+    }
+    if (this.peek().type !== 'end') this.fail('expected where, group by, or the end of the expression')
+    return expression
+  }
+
+  private parseKinds(): NormalizedElementKind[] {
+    const kinds: NormalizedElementKind[] = []
+    do {
+      const token = this.expectIdentifier('an element kind')
+      if (!NORMALIZED_KINDS.has(token)) {
+        this.fail(`uses unsupported element kind ${token}`, -1)
+      }
+      kinds.push(token as NormalizedElementKind)
+    } while (this.acceptSymbol('|'))
+    return [...new Set(kinds)]
+  }
+
+  private parseOr(): QueryPredicate {
+    let left = this.parseAnd()
+    while (this.acceptKeyword('or')) left = { type: 'or', left, right: this.parseAnd() }
+    return left
+  }
+
+  private parseAnd(): QueryPredicate {
+    let left = this.parseUnary()
+    while (this.acceptKeyword('and')) left = { type: 'and', left, right: this.parseUnary() }
+    return left
+  }
+
+  private parseUnary(): QueryPredicate {
+    this.nesting += 1
+    if (this.nesting > MAX_EXPRESSION_NESTING) {
+      this.fail(`nests deeper than ${MAX_EXPRESSION_NESTING} levels`)
+    }
+    try {
+      if (this.acceptKeyword('not')) return { type: 'not', operand: this.parseUnary() }
+      if (this.acceptKeyword('exists')) return { type: 'exists', path: this.parsePath() }
+      if (this.acceptSymbol('(')) {
+        const predicate = this.parseOr()
+        this.expectSymbol(')')
+        return predicate
+      }
+      const left = this.parseOperand()
+      const operator = this.peek()
+      if (operator.type !== 'symbol' || !['=', '!=', '~', '!~', '<', '<=', '>', '>='].includes(operator.value)) {
+        this.fail('expected a comparison operator')
+      }
+      this.index += 1
+      const right = this.parseOperand()
+      if (operator.value === '~' || operator.value === '!~') {
+        if (right.type !== 'literal' || typeof right.value !== 'string') {
+          this.fail('pattern matches need a string pattern', -1)
+        }
+        try {
+          compileGlob(right.value)
+        } catch (error) {
+          this.fail(`has an invalid pattern (${(error as Error).message})`, -1)
+        }
+      }
+      return { type: 'compare', operator: operator.value as QueryComparisonOperator, left, right }
+    } finally {
+      this.nesting -= 1
+    }
+  }
+
+  private parseOperand(): QueryOperand {
+    const token = this.peek()
+    if (token.type === 'string' || token.type === 'number') {
+      this.index += 1
+      return { type: 'literal', value: token.value }
+    }
+    if (this.acceptKeyword('true')) return { type: 'literal', value: true }
+    if (this.acceptKeyword('false')) return { type: 'literal', value: false }
+    if (this.acceptKeyword('count')) {
+      this.expectSymbol('(')
+      const path = this.parsePath()
+      this.expectSymbol(')')
+      return { type: 'count', path }
+    }
+    return this.parseAttribute()
+  }
+
+  private parseAttribute(): Extract<QueryOperand, { type: 'attribute' }> {
+    let ownerHops = 0
+    let name = this.expectIdentifier('an attribute')
+    while (name === 'owner' && this.acceptSymbol('.')) {
+      ownerHops += 1
+      if (ownerHops > MAX_OWNER_HOPS) this.fail(`navigates more than ${MAX_OWNER_HOPS} owners`)
+      name = this.expectIdentifier('an attribute')
+    }
+    if (!(QUERY_ATTRIBUTES as readonly string[]).includes(name)) {
+      this.fail(`uses unsupported attribute ${name}`, -1)
+    }
+    return { type: 'attribute', ownerHops, attribute: name as QueryAttributeName }
+  }
+
+  private parsePath(): QueryPathStep[] {
+    const path: QueryPathStep[] = []
+    while (this.isSymbol('<-') || this.isSymbol('-')) {
+      const direction = this.isSymbol('<-') ? 'inbound' : 'outbound'
+      this.index += 1
+      const relationship = this.acceptSymbol('*') ? '*' : this.expectIdentifier('a relationship kind')
+      if (relationship !== '*' && !RELATIONSHIP_KINDS.has(relationship)) {
+        this.fail(`uses unsupported relationship kind ${relationship}`, -1)
+      }
+      this.expectSymbol(direction === 'inbound' ? '-' : '->')
+      const step: QueryPathStep = { relationship: relationship as QueryPathStep['relationship'], direction }
+      if (this.acceptSymbol('[')) {
+        this.pathNesting += 1
+        if (this.pathNesting > MAX_PATH_NESTING) {
+          this.fail(`nests path filters deeper than ${MAX_PATH_NESTING} levels`, -1)
+        }
+        step.where = this.parseOr()
+        this.expectSymbol(']')
+        this.pathNesting -= 1
+      }
+      path.push(step)
+      if (path.length > MAX_PATH_STEPS) this.fail(`path exceeds ${MAX_PATH_STEPS} steps`)
+    }
+    if (path.length === 0) this.fail('expected a path such as <-satisfaction- or -typing->')
+    return path
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!
+  }
+
+  private isSymbol(value: string): boolean {
+    const token = this.peek()
+    return token.type === 'symbol' && token.value === value
+  }
+
+  private isKeyword(value?: string): boolean {
+    const token = this.peek()
+    return token.type === 'identifier' &&
+      (value === undefined ? KEYWORDS.has(token.value) : token.value === value)
+  }
+
+  private acceptSymbol(value: string): boolean {
+    if (!this.isSymbol(value)) return false
+    this.index += 1
+    return true
+  }
+
+  private acceptKeyword(value: string): boolean {
+    if (!this.isKeyword(value)) return false
+    this.index += 1
+    return true
+  }
+
+  private expectSymbol(value: string): void {
+    if (!this.acceptSymbol(value)) this.fail(`expected ${value}`)
+  }
+
+  private expectKeyword(value: string): void {
+    if (!this.acceptKeyword(value)) this.fail(`expected ${value}`)
+  }
+
+  private expectIdentifier(description: string): string {
+    const token = this.peek()
+    if (token.type !== 'identifier' || KEYWORDS.has(token.value)) this.fail(`expected ${description}`)
+    this.index += 1
+    return (token as { value: string }).value
+  }
+
+  private fail(message: string, relative = 0): never {
+    const token = this.tokens[Math.max(0, this.index + relative)]!
+    throw new Error(`Model query expression ${message} at ${token.offset}`)
+  }
+}
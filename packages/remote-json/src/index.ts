@@ -0,0 +1,121 @@
+// JSON over HTTP with services the workbench does not control, such as model
+// repositories and AI endpoints. A response body is read in chunks and the
+// request is cancelled as soon as it passes the byte limit, so a broken or
+// hostile server cannot make the service buffer an unbounded response.
+// Redirects are followed only where the caller allows, since the request
+// headers may carry its credentials.
+
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]'])
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308])
+const MAX_REDIRECTS = 5
+
+export type RemoteJsonProblem = 'status' | 'too-large' | 'not-json' | 'redirect'
+
+export interface RemoteJsonRequest {
+  init: RequestInit
+  maxBytes: number
+  // Builds the caller's own error, so each client keeps its messages.
+  error: (problem: RemoteJsonProblem, status: number) => Error
+  // Whether a redirect to `target` may be followed; by default only one that
+  // stays on the origin of the request.
+  allowRedirect?: (target: URL) => boolean
+  fetch?: typeof fetch
+}
+
+export interface RemoteJsonResponse {
+  body: unknown
+  headers: Headers
+}
+
+export async function fetchRemoteJson(
+  url: URL,
+  request: RemoteJsonRequest,
+): Promise<RemoteJsonResponse> {
+  const response = await fetchFollowingAllowedRedirects(url, request)
+  const reject = async (problem: RemoteJsonProblem): Promise<Error> => {
+    await response.body?.cancel().catch(() => undefined)
+    return request.error(problem, response.status)
+  }
+  if (!response.ok) throw await reject('status')
+  if (Number(response.headers.get('content-length')) > request.maxBytes) {
+    throw await reject('too-large')
+  }
+  const chunks: Uint8Array[] = []
+  let byteLength = 0
+  const reader = response.body?.getReader()
+  if (reader) {
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      byteLength += chunk.value.byteLength
+      if (byteLength > request.maxBytes) {
+        await reader.cancel().catch(() => undefined)
+        throw request.error('too-large', response.status)
+      }
+      chunks.push(chunk.value)
+    }
+  }
+  try {
+    return {
+      body: JSON.parse(Buffer.concat(chunks).toString('utf8')),
+      headers: response.headers,
+    }
+  } catch {
+    throw request.error('not-json', response.status)
+  }
+}
+
+async function fetchFollowingAllowedRedirects(
+  url: URL,
+  request: RemoteJsonRequest,
+): Promise<Response> {
+  const allowed = request.allowRedirect ?? ((target: URL) => target.origin === url.origin)
+  let target = url
+  let init: RequestInit = { ...request.init, redirect: 'manual' }
+  for (let redirects = 0; ; redirects += 1) {
+    const response = await (request.fetch ?? fetch)(target, init)
+    if (!REDIRECT_STATUSES.has(response.status)) return response
+    await response.body?.cancel().catch(() => undefined)
+    const next = redirectTarget(response.headers.get('location'), target)
+    if (!next || redirects === MAX_REDIRECTS || !allowed(next)) {
+      throw request.error('redirect', response.status)
+    }
+    // As browsers do, a See Other, or a moved POST, is fetched with GET.
+    if (response.status === 303 || (response.status <= 302 && init.method === 'POST')) {
+      init = { ...init, method: 'GET', body: null }
+    }
+    target = next
+  }
+}
+
+function redirectTarget(location: string | null, base: URL): URL | undefined {
+  if (location === null) return undefined
+  try {
+    return new URL(location, base)
+  } catch {
+    return undefined
+  }
+}
+
+// Parses the base URL of a remote service. Plain http is accepted only on
+// loopback, and credentials must not be embedded in the URL.
+export function remoteServiceUrl(
+  value: string,
+  label: string,
+  error: (message: string) => Error,
+): URL {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw error(`${label} is not a URL: ${value}`)
+  }
+  if (
+    url.protocol !== 'https:' &&
+    !(url.protocol === 'http:' && LOOPBACK_HOSTS.has(url.hostname))
+  ) {
+    throw error(`${label} must use https unless it is on loopback`)
+  }
+  if (url.username || url.password) {
+    throw error(`${label} must not embed credentials`)
+  }
+  return url
+}
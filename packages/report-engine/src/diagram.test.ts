@@ -0,0 +1,92 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import {
+  RELATIONSHIP_EDGE_STYLES,
+  type DiagramLayout,
+} from '../../projection-engine/src/index.js'
+import { renderDiagramPdf, renderDiagramSvg, type DiagramProvenance } from './diagram.js'
+
+const layout: DiagramLayout = {
+  schemaVersion: 1,
+  layoutVersion: '2.0.0',
+  snapshotSha256: 'c'.repeat(64),
+  notation: 'model-structure',
+  direction: 'TB',
+  width: 320,
+  height: 240,
+  lanes: [],
+  nodes: [
+    {
+      id: 'wb:s:vehicle',
+      label: 'Vehicle <main>',
+      qualifiedName: 'Pilot::Vehicle',
+      kind: 'PartDefinition',
+      shape: 'block',
+      x: 24,
+      y: 24,
+      width: 180,
+      height: 64,
+      pinned: false,
+    },
+    {
+      id: 'wb:s:req',
+      label: 'Maximum speed requirement with a very long name',
+      qualifiedName: 'Pilot::Maximum speed',
+      kind: 'RequirementUsage',
+      shape: 'requirement',
+      x: 24,
+      y: 150,
+      width: 180,
+      height: 64,
+      pinned: true,
+    },
+  ],
+  edges: [{
+    id: 'wb:s:satisfy',
+    kind: 'satisfaction',
+    sourceId: 'wb:s:vehicle',
+    targetId: 'wb:s:req',
+    points: [{ x: 114, y: 88 }, { x: 114, y: 119 }, { x: 114, y: 150 }],
+    style: RELATIONSHIP_EDGE_STYLES.satisfaction,
+  }],
+  omittedElementIds: [],
+  warnings: [],
+}
+
+const provenance: DiagramProvenance = {
+  workspace: { id: 'pilot', name: 'Pilot & partners' },
+  viewId: 'vehicle-context',
+  viewName: 'Vehicle context',
+  generatedAt: '2026-01-01T00:00:00.000Z',
+  workbenchVersion: '0.7.0',
+}
+
+describe('diagram export', () => {
+  it('renders escaped SVG with the view and snapshot in the footer', () => {
+    const svg = renderDiagramSvg(layout, provenance)
+    expect(svg.startsWith('<?xml')).toBe(true)
+    expect(svg).toContain('data-view-id="vehicle-context"')
+    expect(svg).toContain(`data-snapshot-sha256="${'c'.repeat(64)}"`)
+    expect(svg).toContain('<title>Vehicle context</title>')
+    expect(svg).toContain('Vehicle &lt;main&gt;')
+    expect(svg).not.toContain('<main>')
+    expect(svg).toContain('Maximum speed requir...')
+    expect(svg).toContain('«satisfy»')
+    expect(svg).toContain('Pilot &amp; partners | view vehicle-context: Vehicle context')
+    expect(svg).toContain(`snapshot ${'c'.repeat(64)} | generated 2026-01-01T00:00:00.000Z | workbench 0.7.0`)
+    expect(svg).toBe(renderDiagramSvg(layout, provenance))
+  })
+
+  it('generates byte-deterministic PDF', async () => {
+    const first = await renderDiagramPdf(layout, provenance)
+    const second = await renderDiagramPdf(layout, provenance)
+    expect(Buffer.from(first.subarray(0, 5)).toString('latin1')).toBe('%PDF-')
+    expect(Buffer.from(first)).toEqual(Buffer.from(second))
+    expect(Buffer.from(first)).not.toEqual(Buffer.from(await renderDiagramPdf(layout, { ...provenance, generatedAt: '2026-01-02T00:00:00.000Z' })))
+  })
+
+  it('rejects incomplete provenance', () => {
+    expect(() => renderDiagramSvg(layout, { ...provenance, viewId: '../views' })).toThrow('bounded lowercase slug')
+    expect(() => renderDiagramSvg(layout, { ...provenance, generatedAt: 'yesterday' })).toThrow('timestamp is invalid')
+  })
+})
@@ -0,0 +1,331 @@
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib'
+import type {
+  DiagramLayout,
+  DiagramLayoutEdge,
+  DiagramLayoutNode,
+  DiagramNodeShape,
+  DiagramPoint,
+} from '../../projection-engine/src/index.js'
+import { REPORT_ENGINE_VERSION } from './index.js'
+
+export type DiagramExportFormat = 'svg' | 'pdf'
+
+// What the footer of an exported diagram records, so a copy embedded in a
+// document can be traced back to its view and snapshot.
+export interface DiagramProvenance {
+  workspace: { id: string; name: string }
+  viewId: string
+  viewName: string
+  generatedAt: string
+  workbenchVersion: string
+}
+
+const FOOTER_HEIGHT = 40
+const FOOTER_SIZE = 8
+const MARGIN = 16
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif'
+const TEXT_COLOR = '#102a43'
+const MUTED_COLOR = '#627d98'
+
+const NODE_STYLES: Readonly<Record<DiagramNodeShape, { fill: string; stroke: string; radius: number }>> = {
+  block: { fill: '#eef4fb', stroke: '#2f80ed', radius: 7 },
+  port: { fill: '#ffffff', stroke: '#2f80ed', radius: 2 },
+  requirement: { fill: '#f8f0fc', stroke: '#9b51e0', radius: 7 },
+  verification: { fill: '#eef8ec', stroke: '#4f9a3a', radius: 7 },
+  action: { fill: '#eef4fb', stroke: '#486581', radius: 18 },
+  state: { fill: '#fdf6e6', stroke: '#c99a2e', radius: 14 },
+  transition: { fill: '#ffffff', stroke: '#829ab1', radius: 14 },
+}
+
+type Primitive =
+  | { kind: 'path'; d: string; fill?: string; stroke?: string; strokeWidth?: number; dash?: number[] }
+  | { kind: 'text'; x: number; y: number; text: string; size: number; color: string; bold?: boolean; middle?: boolean }
+
+interface DiagramDrawing {
+  width: number
+  height: number
+  primitives: Primitive[]
+}
+
+export function renderDiagramSvg(layout: DiagramLayout, provenance: DiagramProvenance): string {
+  const drawing = drawDiagram(layout, provenance)
+  const shapes = drawing.primitives.map((primitive) => {
+    if (primitive.kind === 'path') {
+      return `<path d="${primitive.d}" fill="${primitive.fill ?? 'none'}"${primitive.stroke ? ` stroke="${primitive.stroke}" stroke-width="${primitive.strokeWidth ?? 1}"` : ''}${primitive.dash ? ` stroke-dasharray="${primitive.dash.join(' ')}"` : ''}/>`
+    }
+    return `<text x="${number(primitive.x)}" y="${number(primitive.y)}" font-family="${FONT_FAMILY}" font-size="${primitive.size}"${primitive.bold ? ' font-weight="bold"' : ''}${primitive.middle ? ' text-anchor="middle"' : ''} fill="${primitive.color}">${escapeXml(primitive.text)}</text>`
+  })
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${drawing.width}" height="${drawing.height}" viewBox="0 0 ${drawing.width} ${drawing.height}"`,
+    ` data-view-id="${escapeXml(provenance.viewId)}" data-snapshot-sha256="${escapeXml(layout.snapshotSha256)}">\n`,
+    `<title>${escapeXml(provenance.viewName)}</title>\n`,
+    `<rect width="${drawing.width}" height="${drawing.height}" fill="#ffffff"/>\n`,
+    ...shapes.map((shape) => `${shape}\n`),
+    '</svg>\n',
+  ].join('')
+}
+
+// Fixed metadata dates and no object streams keep the bytes a function of
+// the layout and provenance alone.
+export async function renderDiagramPdf(layout: DiagramLayout, provenance: DiagramProvenance): Promise<Uint8Array> {
+  const drawing = drawDiagram(layout, provenance)
+  const document = await PDFDocument.create({ updateMetadata: false })
+  const fixedDate = new Date(provenance.generatedAt)
+  document.setTitle(pdfText(provenance.viewName))
+  document.setAuthor('SysML Engineering Workbench')
+  document.setSubject(`${provenance.workspace.id} view ${provenance.viewId}@${layout.snapshotSha256}`)
+  document.setCreator(`SysML Engineering Workbench report-engine ${REPORT_ENGINE_VERSION}`)
+  document.setProducer(`SysML Engineering Workbench report-engine ${REPORT_ENGINE_VERSION}`)
+  document.setCreationDate(fixedDate)
+  document.setModificationDate(fixedDate)
+  const font = await document.embedFont(StandardFonts.Helvetica)
+  const bold = await document.embedFont(StandardFonts.HelveticaBold)
+  const page = document.addPage([drawing.width, drawing.height])
+  for (const primitive of drawing.primitives) {
+    if (primitive.kind === 'path') {
+      page.drawSvgPath(primitive.d, {
+        x: 0,
+        y: drawing.height,
+        ...(primitive.fill ? { color: pdfColor(primitive.fill) } : {}),
+        ...(primitive.stroke ? { borderColor: pdfColor(primitive.stroke), borderWidth: primitive.strokeWidth ?? 1 } : {}),
+        ...(primitive.dash ? { borderDashArray: primitive.dash } : {}),
+      })
+      continue
+    }
+    const text = pdfText(primitive.text)
+    const face = primitive.bold ? bold : font
+    const offset = primitive.middle ? face.widthOfTextAtSize(text, primitive.size) / 2 : 0
+    page.drawText(text, {
+      x: primitive.x - offset,
+      y: drawing.height - primitive.y,
+      size: primitive.size,
+      font: face,
+      color: pdfColor(primitive.color),
+    })
+  }
+  return document.save({ useObjectStreams: false, addDefaultPage: false, objectsPerTick: Number.POSITIVE_INFINITY })
+}
+
+function drawDiagram(layout: DiagramLayout, provenance: DiagramProvenance): DiagramDrawing {
+  validateProvenance(provenance)
+  const footer = [
+    `${provenance.workspace.name} | view ${provenance.viewId}: ${provenance.viewName}`,
+    `snapshot ${layout.snapshotSha256} | generated ${provenance.generatedAt} | workbench ${provenance.workbenchVersion}`,
+  ]
+  const width = Math.ceil(Math.max(layout.width, ...footer.map((line) => textWidth(line, FOOTER_SIZE) + 2 * MARGIN)))
+  const height = Math.ceil(layout.height + FOOTER_HEIGHT)
+  const primitives: Primitive[] = []
+
+  for (const lane of layout.lanes) {
+    primitives.push(
+      { kind: 'path', d: rectangle(lane.x, lane.y, lane.width, lane.height, 6), fill: '#f4f7fa', stroke: '#9fb3c8', dash: [4, 3] },
+      {
+        kind: 'text',
+        x: lane.x + 10,
+        y: layout.notation === 'action-flow' ? lane.y + lane.height / 2 + 4 : lane.y + 18,
+        text: fit(lane.label, lane.width - 20, 10),
+        size: 10,
+        color: MUTED_COLOR,
+        bold: true,
+      },
+    )
+  }
+
+  const byId = new Map(layout.nodes.map((node) => [node.id, node]))
+  const containers = new Set(layout.nodes.flatMap((node) => node.parentId && node.shape !== 'port' ? [node.parentId] : []))
+  const depth = (node: DiagramLayoutNode): number => {
+    let count = 0
+    for (let parent = node.parentId && byId.get(node.parentId); parent && count < layout.nodes.length; parent = parent.parentId && byId.get(parent.parentId)) {
+      count += 1
+    }
+    return count
+  }
+  const outer = layout.nodes
+    .filter((node) => containers.has(node.id))
+    .sort((left, right) => depth(left) - depth(right))
+  for (const node of outer) primitives.push(...drawNode(node, true))
+  for (const edge of layout.edges) primitives.push(...drawEdge(edge))
+  for (const node of layout.nodes) {
+    if (!containers.has(node.id) && node.shape !== 'port') primitives.push(...drawNode(node, false))
+  }
+  for (const node of layout.nodes) {
+    if (node.shape === 'port') primitives.push(...drawNode(node, false))
+  }
+
+  primitives.push(
+    { kind: 'path', d: `M${MARGIN},${number(layout.height + 4)} L${width - MARGIN},${number(layout.height + 4)}`, stroke: '#d9e2ec' },
+    ...footer.map((line, index): Primitive => ({
+      kind: 'text',
+      x: MARGIN,
+      y: layout.height + 17 + index * 12,
+      text: line,
+      size: FOOTER_SIZE,
+      color: MUTED_COLOR,
+    })),
+  )
+  return { width, height, primitives }
+}
+
+function drawNode(node: DiagramLayoutNode, container: boolean): Primitive[] {
+  const style = NODE_STYLES[node.shape]
+  const outline: Primitive = {
+    kind: 'path',
+    d: rectangle(node.x, node.y, node.width, node.height, style.radius),
+    fill: container ? '#fbfcfd' : style.fill,
+    stroke: style.stroke,
+    strokeWidth: container ? 1 : 1.4,
+  }
+  if (node.shape === 'port') {
+    return [outline, {
+      kind: 'text',
+      x: node.x + node.width + 4,
+      y: node.y + 10,
+      text: node.label,
+      size: 8,
+      color: MUTED_COLOR,
+    }]
+  }
+  if (node.shape === 'transition') {
+    return [outline, {
+      kind: 'text',
+      x: node.x + node.width / 2,
+      y: node.y + node.height / 2 + 4,
+      text: fit(node.label, node.width - 16, 10),
+      size: 10,
+      color: TEXT_COLOR,
+      bold: true,
+      middle: true,
+    }]
+  }
+  return [
+    outline,
+    { kind: 'text', x: node.x + 11, y: node.y + 19, text: fit(node.kind.toUpperCase(), node.width - 22, 8), size: 8, color: MUTED_COLOR },
+    { kind: 'text', x: node.x + 11, y: node.y + 37, text: fit(node.label, node.width - 22, 12), size: 12, color: TEXT_COLOR, bold: true },
+  ]
+}
+
+function drawEdge(edge: DiagramLayoutEdge): Primitive[] {
+  const points = edge.points
+  if (points.length < 2) return []
+  const stroke = edge.kind === 'satisfaction' || edge.kind === 'verification'
+    ? '#1f9d8b'
+    : edge.kind === 'flow' || edge.kind === 'interface' || edge.kind === 'connection'
+      ? '#2f80ed'
+      : MUTED_COLOR
+  const primitives: Primitive[] = [{
+    kind: 'path',
+    d: points.map((point, index) => `${index === 0 ? 'M' : 'L'}${number(point.x)},${number(point.y)}`).join(' '),
+    stroke,
+    strokeWidth: 1.4,
+    ...(edge.style.line === 'dashed' ? { dash: [6, 4] } : {}),
+  }]
+  if (edge.style.sourceMarker === 'diamond') {
+    const [tip, from] = [points[0]!, points[1]!]
+    const { along, across } = direction(from, tip)
+    primitives.push({
+      kind: 'path',
+      d: polygon([
+        tip,
+        offset(tip, along, -6, across, 4),
+        offset(tip, along, -12, across, 0),
+        offset(tip, along, -6, across, -4),
+      ], true),
+      fill: stroke,
+      stroke,
+    })
+  }
+  if (edge.style.targetMarker !== 'none') {
+    const [from, tip] = [points.at(-2)!, points.at(-1)!]
+    const { along, across } = direction(from, tip)
+    const wing = [offset(tip, along, -10, across, 5), offset(tip, along, -10, across, -5)] as const
+    primitives.push(edge.style.targetMarker === 'open-arrow'
+      ? { kind: 'path', d: polygon([wing[0], tip, wing[1]], false), stroke, strokeWidth: 1.4 }
+      : {
+          kind: 'path',
+          d: polygon([tip, wing[0], wing[1]], true),
+          fill: edge.style.targetMarker === 'triangle' ? '#ffffff' : stroke,
+          stroke,
+        })
+  }
+  if (edge.style.label) {
+    const middle = Math.floor((points.length - 1) / 2)
+    const from = points[middle]!
+    const to = points[middle + 1] ?? from
+    primitives.push({
+      kind: 'text',
+      x: Math.round((from.x + to.x) / 2),
+      y: Math.round((from.y + to.y) / 2) - 4,
+      text: edge.style.label,
+      size: 8,
+      color: MUTED_COLOR,
+      middle: true,
+    })
+  }
+  return primitives
+}
+
+function rectangle(x: number, y: number, width: number, height: number, radius: number): string {
+  const r = Math.min(radius, width / 2, height / 2)
+  const right = x + width
+  const bottom = y + height
+  return [
+    `M${number(x + r)},${number(y)}`,
+    `L${number(right - r)},${number(y)} Q${number(right)},${number(y)} ${number(right)},${number(y + r)}`,
+    `L${number(right)},${number(bottom - r)} Q${number(right)},${number(bottom)} ${number(right - r)},${number(bottom)}`,
+    `L${number(x + r)},${number(bottom)} Q${number(x)},${number(bottom)} ${number(x)},${number(bottom - r)}`,
+    `L${number(x)},${number(y + r)} Q${number(x)},${number(y)} ${number(x + r)},${number(y)} Z`,
+  ].join(' ')
+}
+
+function polygon(points: readonly DiagramPoint[], closed: boolean): string {
+  return `${points.map((point, index) => `${index === 0 ? 'M' : 'L'}${number(point.x)},${number(point.y)}`).join(' ')}${closed ? ' Z' : ''}`
+}
+
+function direction(from: DiagramPoint, to: DiagramPoint): { along: DiagramPoint; across: DiagramPoint } {
+  const length = Math.hypot(to.x - from.x, to.y - from.y) || 1
+  const along = { x: (to.x - from.x) / length, y: (to.y - from.y) / length }
+  return { along, across: { x: -along.y, y: along.x } }
+}
+
+function offset(point: DiagramPoint, along: DiagramPoint, alongBy: number, across: DiagramPoint, acrossBy: number): DiagramPoint {
+  return {
+    x: point.x + along.x * alongBy + across.x * acrossBy,
+    y: point.y + along.y * alongBy + across.y * acrossBy,
+  }
+}
+
+// Helvetica averages a little over half an em per character; labels are cut
+// to the same length in both formats.
+function textWidth(text: string, size: number): number {
+  return text.length * size * 0.56
+}
+
+function fit(text: string, width: number, size: number): string {
+  const limit = Math.max(4, Math.floor(width / (size * 0.56)))
+  return text.length <= limit ? text : `${text.slice(0, limit - 3)}...`
+}
+
+function number(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+function pdfColor(hex: string) {
+  const value = Number.parseInt(hex.slice(1), 16)
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255)
+}
+
+// The standard fonts encode WinAnsi only.
+function pdfText(value: string): string {
+  return value.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+}
+
+function escapeXml(value: string): string {
+  return value.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;').replaceAll('"', '&quot;')
+}
+
+function validateProvenance(provenance: DiagramProvenance): void {
+  if (!provenance.workspace.id || !provenance.workspace.name) throw new Error('Diagram workspace identity is required')
+  if (!/^[a-z0-9][a-z0-9-]{0,79}$/.test(provenance.viewId)) throw new Error('Diagram view id must be a bounded lowercase slug')
+  if (Number.isNaN(Date.parse(provenance.generatedAt))) throw new Error('Diagram generation timestamp is invalid')
+}
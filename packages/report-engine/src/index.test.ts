@@ -3,6 +3,7 @@ import { tmpdir } from 'node:os'
 import { join } from 'node:path'
 import { describe, expect, it } from 'vitest'
 import type { AssuranceEvaluation } from '../../rule-engine/src/index.js'
+import type { SemanticSnapshot } from '../../semantic-model/src/index.js'
 import { renderReport, writeReportBundle, type ReportRequest } from './index.js'
 
 const assurance: AssuranceEvaluation = {
@@ -10,6 +11,7 @@ const assurance: AssuranceEvaluation = {
   rulePack: { id: 'sysml-workbench/engineering-assurance', version: '1.0.0' },
   snapshotSha256: 'a'.repeat(64),
   resultSha256: 'b'.repeat(64),
+  coverage: 'indirect',
   findings: [{
     id: 'finding:1',
     ruleId: 'IF-NO-VERIFICATION',
@@ -29,6 +31,8 @@ const assurance: AssuranceEvaluation = {
     verificationElementIds: [],
     satisfaction: 'direct',
     verification: 'none',
+    satisfactionPath: ['rel:satisfy'],
+    verificationPath: [],
   }],
   interfaceRegister: [{
     interfaceId: 'element:interface',
@@ -40,6 +44,8 @@ const assurance: AssuranceEvaluation = {
     targetEndpointIds: ['element:target'],
     endpointTypeIds: ['element:type'],
     exchangedItemIds: [],
+    endpointDirections: [{ endpointId: 'element:source', direction: 'out' }],
+    units: [],
     requirementIds: ['element:req'],
     verificationIds: [],
     sourcePath: 'model/pilot.sysml',
@@ -97,4 +103,98 @@ describe('report engine', () => {
     expect(persisted).toEqual(manifest)
     expect(manifest.provenance.commitSha).toBe('a'.repeat(40))
   })
+
+  it('adds SARIF and JUnit exports for finding reports with a located snapshot', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'sysml-report-'))
+    const manifest = await writeReportBundle(root, 'health', {
+      ...request('workspace-health'),
+      diagnostics: [{
+        uri: 'file:///workspace/model/pilot.sysml',
+        severity: 'error',
+        code: 'E-PARSE',
+        message: 'Unexpected "&" token',
+        range: { start: { line: 2, character: 0 }, end: { line: 2, character: 1 } },
+      }],
+      snapshot: snapshot(),
+    })
+    expect(manifest.artifacts.map((artifact) => artifact.format)).toEqual(['html', 'pdf', 'sarif', 'junit'])
+    const sarif = JSON.parse(await readFile(join(root, 'generated/reports/health/health.sarif'), 'utf8'))
+    expect(sarif.runs.map((run: { tool: { driver: { name: string } } }) => run.tool.driver.name))
+      .toEqual(['engine', 'sysml-workbench/engineering-assurance'])
+    expect(sarif.runs[1].results[0].locations[0].physicalLocation.artifactLocation.uri).toBe('model/pilot.sysml')
+    const junit = await readFile(join(root, 'generated/reports/health/health.junit.xml'), 'utf8')
+    expect(junit).toContain('<testsuites name="pilot workspace-health" tests="2" failures="1" errors="0">')
+    expect(junit).toContain('<failure type="error" message="Unexpected &quot;&amp;&quot; token">')
+    expect(junit).toContain('classname="IF-NO-VERIFICATION" name="finding:1: &lt;script&gt;alert(&quot;unsafe&quot;)&lt;/script&gt;" file="model/pilot.sysml" line="5"')
+    expect(junit).toContain('<system-out>minor IF-NO-VERIFICATION (interface)')
+
+    const plain = await renderReport(request('interface-register'))
+    expect(plain.sarif).toBeUndefined()
+    expect(plain.junit).toBeUndefined()
+  })
+
+  it('exports the requirement findings of coverage and readiness reports', async () => {
+    const withRequirementFinding: AssuranceEvaluation = {
+      ...assurance,
+      findings: [...assurance.findings, {
+        id: 'finding:2',
+        ruleId: 'REQ-UNVERIFIED',
+        ruleVersion: '1.0.0',
+        domain: 'verification',
+        severity: 'major',
+        statement: 'Requirement Pilot::REQ-1 has no verification relationship.',
+        elementIds: ['element:req'],
+        relationshipIds: [],
+        evidence: [],
+        remediation: 'Add verification.',
+      }],
+    }
+    for (const kind of ['requirement-coverage', 'verification-readiness'] as const) {
+      const report = await renderReport({ ...request(kind), assurance: withRequirementFinding, snapshot: snapshot() })
+      expect(report.contentSha256.junit).toBeDefined()
+      expect(JSON.parse(report.sarif!).runs[0].results.map((result: { ruleId: string }) => result.ruleId))
+        .toEqual(['REQ-UNVERIFIED'])
+      expect(report.junit).toContain(`<testsuites name="pilot ${kind}" tests="1" failures="1" errors="0">`)
+      expect(report.junit).not.toContain('IF-NO-VERIFICATION')
+    }
+  })
 })
+
+function snapshot(): SemanticSnapshot {
+  return {
+    schemaVersion: 1,
+    snapshotSha256: 'a'.repeat(64),
+    workspace: { id: 'pilot', rootUri: 'file:///workspace', configurationName: 'default' },
+    authority: {
+      adapterId: 'qualified',
+      adapterVersion: '1',
+      engineName: 'engine',
+      engineVersion: '1',
+      referenceRelease: '2025-02',
+      qualificationStatus: 'qualified',
+    },
+    freshness: 'current',
+    documents: [],
+    elements: [{
+      id: 'element:interface',
+      kind: 'InterfaceUsage',
+      rawKind: 'InterfaceUsage',
+      name: 'Telemetry',
+      qualifiedName: 'Pilot::Telemetry',
+      source: {
+        uri: 'file:///workspace/model/pilot.sysml',
+        workspacePath: 'model/pilot.sysml',
+        range: { start: { line: 4, character: 2 }, end: { line: 4, character: 11 } },
+        documentSha256: 'b'.repeat(64),
+      },
+      fingerprint: 'interface',
+      provenance: {
+        authority: 'qualified-language-engine',
+        extraction: 'pilot-emf-semantic-evidence',
+        classification: 'engine-metaclass',
+        engineId: 'interface',
+      },
+    }],
+    relationships: [],
+  }
+}
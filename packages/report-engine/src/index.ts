@@ -5,7 +5,10 @@ import { PDFDocument, StandardFonts, rgb } from 'pdf-lib'
 import type { BaselineComparison, BaselineManifest, GitWorkspaceStatus } from '../../baseline-service/src/index.js'
 import type { LanguageDiagnostic } from '../../language-adapter/src/index.js'
 import type { ModelReview } from '../../review-service/src/index.js'
-import type { AssuranceEvaluation } from '../../rule-engine/src/index.js'
+import type { AssuranceDomain, AssuranceEvaluation } from '../../rule-engine/src/index.js'
+import type { SemanticSnapshot } from '../../semantic-model/src/index.js'
+import { assuranceToJunit, diagnosticsToJunit, renderJunit, type JunitTestSuite } from './junit.js'
+import { assuranceToSarif, diagnosticsToSarif, type SarifLog } from './sarif.js'
 
 export const REPORT_ENGINE_VERSION = '1.0.0'
 
@@ -42,6 +45,7 @@ export interface ReportRequest {
   baseline?: BaselineManifest
   comparison?: BaselineComparison
   reviews?: ModelReview[]
+  snapshot?: SemanticSnapshot
 }
 
 export interface GeneratedReport {
@@ -50,10 +54,14 @@ export interface GeneratedReport {
   html: string
   pdf: Uint8Array
   csv?: string
+  sarif?: string
+  junit?: string
   contentSha256: {
     html: string
     pdf: string
     csv?: string
+    sarif?: string
+    junit?: string
   }
 }
 
@@ -64,7 +72,7 @@ export interface ReportBundleManifest {
   title: string
   provenance: ReportProvenance
   artifacts: Array<{
-    format: 'html' | 'pdf' | 'csv'
+    format: 'html' | 'pdf' | 'csv' | 'sarif' | 'junit'
     path: string
     sha256: string
   }>
@@ -76,16 +84,19 @@ export function renderReport(request: ReportRequest): Promise<GeneratedReport> {
   const sections = buildSections(request)
   const html = renderHtml(title, request.provenance, sections)
   const csv = renderCsv(request)
+  const findings = renderFindingFormats(request)
   return renderPdf(title, request.provenance, sections).then((pdf) => ({
     kind: request.kind,
     title,
     html,
     pdf,
     csv,
+    ...findings,
     contentSha256: {
       html: sha256(html),
       pdf: sha256(pdf),
       ...(csv === undefined ? {} : { csv: sha256(csv) }),
+      ...(findings ? { sarif: sha256(findings.sarif), junit: sha256(findings.junit) } : {}),
     },
   }))
 }
@@ -111,6 +122,14 @@ export async function writeReportBundle(
     await atomicWrite(directory, `${reportId}.csv`, report.csv)
     artifacts.push({ format: 'csv', path: `generated/reports/${reportId}/${reportId}.csv`, sha256: report.contentSha256.csv })
   }
+  if (report.sarif !== undefined && report.contentSha256.sarif) {
+    await atomicWrite(directory, `${reportId}.sarif`, report.sarif)
+    artifacts.push({ format: 'sarif', path: `generated/reports/${reportId}/${reportId}.sarif`, sha256: report.contentSha256.sarif })
+  }
+  if (report.junit !== undefined && report.contentSha256.junit) {
+    await atomicWrite(directory, `${reportId}.junit.xml`, report.junit)
+    artifacts.push({ format: 'junit', path: `generated/reports/${reportId}/${reportId}.junit.xml`, sha256: report.contentSha256.junit })
+  }
   const manifest: ReportBundleManifest = {
     schemaVersion: 1,
     reportEngineVersion: REPORT_ENGINE_VERSION,
@@ -157,6 +176,8 @@ function buildSections(request: ReportRequest): ReportSection[] {
           satisfyingElements: row.satisfyingElementIds.join('; '),
           verification: row.verification,
           verificationElements: row.verificationElementIds.join('; '),
+          satisfactionPath: row.satisfactionPath.join('; '),
+          verificationPath: row.verificationPath.join('; '),
         })),
       }]
     case 'verification-readiness':
@@ -165,7 +186,7 @@ function buildSections(request: ReportRequest): ReportSection[] {
         heading: 'Verification readiness',
         rows: assurance.requirementCoverage.map((row) => ({
           requirement: row.qualifiedName,
-          ready: row.satisfaction === 'direct' && row.verification === 'direct',
+          ready: row.satisfaction !== 'none' && row.verification !== 'none',
           satisfaction: row.satisfaction,
           verification: row.verification,
         })),
@@ -200,6 +221,7 @@ function buildSections(request: ReportRequest): ReportSection[] {
             kind: change.kind,
             elementId: change.elementId ?? '',
             relationshipId: change.relationshipId ?? '',
+            relationshipKind: change.relationshipKind ?? '',
           })),
         },
       ]
@@ -282,6 +304,8 @@ function renderCsv(request: ReportRequest): string | undefined {
       verification: row.verification,
       satisfyingElementIds: row.satisfyingElementIds.join('; '),
       verificationElementIds: row.verificationElementIds.join('; '),
+      satisfactionPath: row.satisfactionPath.join('; '),
+      verificationPath: row.verificationPath.join('; '),
     }))
   } else if (request.kind === 'review-findings') {
     rows = [...(request.reviews ?? [])].sort((left, right) => left.id.localeCompare(right.id)).flatMap(reviewFindingRows)
@@ -292,6 +316,55 @@ function renderCsv(request: ReportRequest): string | undefined {
   return `${columns.map(csvCell).join(',')}\n${rows.map((row) => columns.map((column) => csvCell(String(row[column] ?? ''))).join(',')).join('\n')}\n`
 }
 
+// The assurance findings each report kind exports; workspace health exports
+// them all, and kinds not listed carry none.
+const FINDING_DOMAINS: Partial<Record<ReportKind, ReadonlySet<AssuranceDomain>>> = {
+  'requirement-coverage': new Set(['requirement', 'verification']),
+  'verification-readiness': new Set(['requirement', 'verification']),
+  'interface-quality': new Set(['interface']),
+}
+
+// Finding-bearing reports also export their diagnostics and findings for code
+// scanning and CI. Locating findings needs the snapshot the evaluation ran on,
+// so requests without one keep the human-readable formats only.
+function renderFindingFormats(request: ReportRequest): { sarif: string; junit: string } | undefined {
+  const snapshot = request.snapshot
+  if (!snapshot) return undefined
+  const rootUri = snapshot.workspace.rootUri
+  const logs: SarifLog[] = []
+  const suites: JunitTestSuite[] = []
+  const domains = FINDING_DOMAINS[request.kind]
+  if (request.kind === 'workspace-health') {
+    const diagnostics = [...(request.diagnostics ?? [])].sort(compareDiagnostics)
+    logs.push(diagnosticsToSarif(diagnostics, {
+      tool: { name: snapshot.authority.engineName, version: snapshot.authority.engineVersion },
+      rootUri,
+    }))
+    suites.push(diagnosticsToJunit(diagnostics, { rootUri }))
+  } else if (!domains) {
+    return undefined
+  }
+  if (request.assurance) {
+    const evaluation = {
+      ...request.assurance,
+      findings: request.assurance.findings
+        .filter((finding) => !domains || domains.has(finding.domain))
+        .sort((left, right) => left.id.localeCompare(right.id)),
+    }
+    logs.push(assuranceToSarif(evaluation, snapshot, {
+      tool: { name: evaluation.rulePack.id, version: evaluation.rulePack.version },
+    }))
+    suites.push(assuranceToJunit(evaluation, snapshot))
+  }
+  const [first, ...rest] = logs
+  if (!first) return undefined
+  const sarif: SarifLog = { ...first, runs: [...first.runs, ...rest.flatMap((log) => log.runs)] }
+  return {
+    sarif: `${JSON.stringify(sarif, null, 2)}\n`,
+    junit: renderJunit(`${request.provenance.workspace.id} ${request.kind}`, suites),
+  }
+}
+
 async function renderPdf(title: string, provenance: ReportProvenance, sections: ReportSection[]): Promise<Uint8Array> {
   const document = await PDFDocument.create({ updateMetadata: false })
   const fixedDate = new Date(provenance.generatedAt)
@@ -346,6 +419,9 @@ function interfaceRow(row: AssuranceEvaluation['interfaceRegister'][number]): Re
     targetEndpoints: row.targetEndpointIds.join('; '),
     endpointTypes: row.endpointTypeIds.join('; '),
     exchangedItems: row.exchangedItemIds.join('; '),
+    endpointDirections: row.endpointDirections.map((item) => `${item.endpointId}=${item.direction}`).join('; '),
+    units: row.units.join('; '),
+    unavailableAttributes: row.unavailableAttributes.join('; '),
     requirements: row.requirementIds.join('; '),
     verification: row.verificationIds.join('; '),
     openFindings: row.openFindingIds.length,
@@ -472,3 +548,7 @@ const REPORT_KINDS = new Set<ReportKind>([
   'review-closure',
   'baseline-manifest',
 ])
+
+export * from './junit.js'
+export * from './sarif.js'
+export * from './diagram.js'
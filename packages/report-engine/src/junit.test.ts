@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import type { LanguageDiagnostic } from '../../language-adapter/src/index.js'
+import type { AssuranceEvaluation } from '../../rule-engine/src/index.js'
+import type { SemanticSnapshot } from '../../semantic-model/src/index.js'
+import { assuranceToJunit, diagnosticsToJunit, renderJunit } from './junit.js'
+
+const range = { start: { line: 4, character: 2 }, end: { line: 4, character: 9 } }
+
+describe('JUnit export', () => {
+  it('fails only on errors and keeps other diagnostics as passing output', () => {
+    const diagnostics: LanguageDiagnostic[] = [
+      { uri: 'file:///workspace/model/a.sysml', range, severity: 'error', code: 'E1', message: 'broken' },
+      { uri: 'file:///elsewhere/b.sysml', severity: 'warning', code: '', message: 'consider' },
+    ]
+    const suite = diagnosticsToJunit(diagnostics, { rootUri: 'file:///workspace' })
+    expect(suite.name).toBe('language-diagnostics')
+    expect(suite.testcases).toEqual([
+      {
+        classname: 'E1',
+        name: 'model/a.sysml:5: broken',
+        file: 'model/a.sysml',
+        line: 5,
+        failure: { type: 'error', message: 'broken', text: 'error E1 at model/a.sysml:5\nbroken' },
+      },
+      {
+        classname: 'diagnostic',
+        name: 'file:///elsewhere/b.sysml: consider',
+        file: 'file:///elsewhere/b.sysml',
+        systemOut: 'warning diagnostic at file:///elsewhere/b.sysml\nconsider',
+      },
+    ])
+  })
+
+  it('locates findings at their first known element and fails critical and major ones', () => {
+    const [major, minor] = assuranceToJunit(evaluation(), snapshot()).testcases
+    expect(major).toMatchObject({
+      classname: 'IF-NO-VERIFICATION',
+      name: 'finding:1: Interface has no verification.',
+      file: 'model.sysml',
+      line: 5,
+      failure: { type: 'major', message: 'Interface has no verification.' },
+    })
+    expect(major!.failure!.text).toBe([
+      'major IF-NO-VERIFICATION (interface)',
+      'Interface has no verification.',
+      'Elements: element:removed, element:interface',
+      'Remediation: Add verification.',
+    ].join('\n'))
+    expect(minor).not.toHaveProperty('file')
+    expect(minor).not.toHaveProperty('failure')
+    expect(minor!.systemOut).toContain('minor IF-UNITS (interface)')
+  })
+
+  it('counts failures per suite and escapes text XML cannot carry', () => {
+    const xml = renderJunit('pilot <health>', [
+      { name: 'empty', testcases: [] },
+      {
+        name: 'cases',
+        testcases: [
+          { classname: 'PASS', name: 'clean' },
+          { classname: 'FAIL', name: 'a "quoted" & \u0001 name', failure: { type: 'error', message: 'm', text: '<t>' } },
+        ],
+      },
+    ])
+    expect(xml).toBe([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<testsuites name="pilot &lt;health&gt;" tests="2" failures="1" errors="0">',
+      '  <testsuite name="empty" tests="0" failures="0" errors="0" skipped="0">',
+      '  </testsuite>',
+      '  <testsuite name="cases" tests="2" failures="1" errors="0" skipped="0">',
+      '    <testcase classname="PASS" name="clean"/>',
+      '    <testcase classname="FAIL" name="a &quot;quoted&quot; &amp; \uFFFD name">',
+      '      <failure type="error" message="m">&lt;t&gt;</failure>',
+      '    </testcase>',
+      '  </testsuite>',
+      '</testsuites>',
+      '',
+    ].join('\n'))
+  })
+})
+
+function evaluation(): AssuranceEvaluation {
+  return {
+    schemaVersion: 1,
+    rulePack: { id: 'pack', version: '1.0.0' },
+    snapshotSha256: 'a'.repeat(64),
+    resultSha256: 'b'.repeat(64),
+    coverage: 'direct',
+    findings: [
+      {
+        id: 'finding:1',
+        ruleId: 'IF-NO-VERIFICATION',
+        ruleVersion: '1.0.0',
+        domain: 'interface',
+        severity: 'major',
+        statement: 'Interface has no verification.',
+        elementIds: ['element:removed', 'element:interface'],
+        relationshipIds: [],
+        evidence: [],
+        remediation: 'Add verification.',
+      },
+      {
+        id: 'finding:2',
+        ruleId: 'IF-UNITS',
+        ruleVersion: '1.0.0',
+        domain: 'interface',
+        severity: 'minor',
+        statement: 'Units are unavailable.',
+        elementIds: ['element:removed'],
+        relationshipIds: [],
+        evidence: [],
+        remediation: 'Declare units.',
+      },
+    ],
+    requirementCoverage: [],
+    interfaceRegister: [],
+    summary: { critical: 0, major: 1, minor: 1, advisory: 0, requirements: 0, interfaces: 0 },
+    limitations: [],
+  }
+}
+
+function snapshot(): SemanticSnapshot {
+  return {
+    schemaVersion: 1,
+    snapshotSha256: 'snapshot',
+    workspace: { id: 'sample', rootUri: 'file:///workspace', configurationName: 'default' },
+    authority: {
+      adapterId: 'qualified',
+      adapterVersion: '1',
+      engineName: 'engine',
+      engineVersion: '1',
+      referenceRelease: 'test',
+      qualificationStatus: 'qualified',
+    },
+    freshness: 'current',
+    documents: [],
+    elements: [{
+      id: 'element:interface',
+      kind: 'InterfaceUsage',
+      rawKind: 'InterfaceUsage',
+      name: 'Telemetry',
+      qualifiedName: 'Pilot::Telemetry',
+      source: {
+        uri: 'file:///workspace/model.sysml',
+        workspacePath: 'model.sysml',
+        range,
+        documentSha256: 'document',
+      },
+      fingerprint: 'interface',
+      provenance: {
+        authority: 'qualified-language-engine',
+        extraction: 'pilot-emf-semantic-evidence',
+        classification: 'engine-metaclass',
+        engineId: 'interface',
+      },
+    }],
+    relationships: [],
+  }
+}
@@ -0,0 +1,127 @@
+import type { LanguageDiagnostic } from '../../language-adapter/src/index.js'
+import type { SemanticSnapshot } from '../../semantic-model/src/index.js'
+import type { AssuranceEvaluation, AssuranceSeverity } from '../../rule-engine/src/index.js'
+
+export interface JunitTestCase {
+  classname: string
+  name: string
+  file?: string
+  line?: number
+  failure?: { type: string; message: string; text: string }
+  systemOut?: string
+}
+
+export interface JunitTestSuite {
+  name: string
+  testcases: JunitTestCase[]
+}
+
+// Only severities that should stop a pipeline become failures; lower ones are
+// kept as passing cases whose output carries the statement.
+const FAILING_DIAGNOSTICS: ReadonlySet<LanguageDiagnostic['severity']> = new Set(['error'])
+const FAILING_FINDINGS: ReadonlySet<AssuranceSeverity> = new Set(['critical', 'major'])
+
+export function diagnosticsToJunit(
+  diagnostics: LanguageDiagnostic[],
+  options: { rootUri: string },
+): JunitTestSuite {
+  return {
+    name: 'language-diagnostics',
+    testcases: diagnostics.map((item) => {
+      const file = workspacePath(item.uri, options.rootUri)
+      const line = item.range ? item.range.start.line + 1 : undefined
+      const text = `${item.severity} ${item.code || 'diagnostic'} at ${file}${line === undefined ? '' : `:${line}`}\n${item.message}`
+      return {
+        classname: item.code || 'diagnostic',
+        name: `${file}${line === undefined ? '' : `:${line}`}: ${item.message}`,
+        file,
+        ...(line === undefined ? {} : { line }),
+        ...(FAILING_DIAGNOSTICS.has(item.severity)
+          ? { failure: { type: item.severity, message: item.message, text } }
+          : { systemOut: text }),
+      }
+    }),
+  }
+}
+
+export function assuranceToJunit(
+  evaluation: AssuranceEvaluation,
+  snapshot: SemanticSnapshot,
+): JunitTestSuite {
+  const elements = new Map(snapshot.elements.map((element) => [element.id, element]))
+  return {
+    name: `assurance:${evaluation.rulePack.id}@${evaluation.rulePack.version}`,
+    testcases: evaluation.findings.map((finding) => {
+      const source = finding.elementIds
+        .map((elementId) => elements.get(elementId)?.source)
+        .find((candidate) => candidate !== undefined)
+      const text = [
+        `${finding.severity} ${finding.ruleId} (${finding.domain})`,
+        finding.statement,
+        `Elements: ${finding.elementIds.join(', ') || 'none'}`,
+        `Remediation: ${finding.remediation}`,
+      ].join('\n')
+      return {
+        classname: finding.ruleId,
+        name: `${finding.id}: ${finding.statement}`,
+        ...(source ? { file: source.workspacePath, line: source.range.start.line + 1 } : {}),
+        ...(FAILING_FINDINGS.has(finding.severity)
+          ? { failure: { type: finding.severity, message: finding.statement, text } }
+          : { systemOut: text }),
+      }
+    }),
+  }
+}
+
+export function renderJunit(name: string, suites: JunitTestSuite[]): string {
+  const failures = (suite: JunitTestSuite) =>
+    suite.testcases.filter((testcase) => testcase.failure).length
+  const tests = suites.reduce((total, suite) => total + suite.testcases.length, 0)
+  const failed = suites.reduce((total, suite) => total + failures(suite), 0)
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(name)}" tests="${tests}" failures="${failed}" errors="0">`,
+  ]
+  for (const suite of suites) {
+    lines.push(`  <testsuite name="${escapeXml(suite.name)}" tests="${suite.testcases.length}" failures="${failures(suite)}" errors="0" skipped="0">`)
+    for (const testcase of suite.testcases) {
+      const attributes = [
+        `classname="${escapeXml(testcase.classname)}"`,
+        `name="${escapeXml(testcase.name)}"`,
+        ...(testcase.file === undefined ? [] : [`file="${escapeXml(testcase.file)}"`]),
+        ...(testcase.line === undefined ? [] : [`line="${testcase.line}"`]),
+      ].join(' ')
+      if (!testcase.failure && testcase.systemOut === undefined) {
+        lines.push(`    <testcase ${attributes}/>`)
+        continue
+      }
+      lines.push(`    <testcase ${attributes}>`)
+      if (testcase.failure) {
+        lines.push(`      <failure type="${escapeXml(testcase.failure.type)}" message="${escapeXml(testcase.failure.message)}">${escapeXml(testcase.failure.text)}</failure>`)
+      }
+      if (testcase.systemOut !== undefined) {
+        lines.push(`      <system-out>${escapeXml(testcase.systemOut)}</system-out>`)
+      }
+      lines.push('    </testcase>')
+    }
+    lines.push('  </testsuite>')
+  }
+  lines.push('</testsuites>')
+  return `${lines.join('\n')}\n`
+}
+
+function workspacePath(uri: string, rootUri: string): string {
+  const base = rootUri.endsWith('/') ? rootUri : `${rootUri}/`
+  return uri.startsWith(base) ? uri.slice(base.length) : uri
+}
+
+// XML 1.0 cannot carry most control characters even when escaped.
+function escapeXml(value: string): string {
+  return value
+    .replace(/[^\t\n\r\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '\uFFFD')
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&apos;')
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import type { LanguageDiagnostic } from '../../language-adapter/src/index.js'
+import type { AssuranceEvaluation } from '../../rule-engine/src/index.js'
+import type { SemanticSnapshot } from '../../semantic-model/src/index.js'
+import { assuranceToSarif, diagnosticsToSarif, SARIF_VERSION } from './sarif.js'
+
+const range = { start: { line: 4, character: 2 }, end: { line: 4, character: 9 } }
+
+describe('SARIF export', () => {
+  it('maps diagnostics to workspace-relative results with one-based regions', () => {
+    const diagnostics: LanguageDiagnostic[] = [
+      { uri: 'file:///workspace/model/a.sysml', range, severity: 'error', code: 'E1', message: 'broken' },
+      { uri: 'file:///elsewhere/b.sysml', range, severity: 'hint', code: '', message: 'consider' },
+    ]
+    const log = diagnosticsToSarif(diagnostics, {
+      tool: { name: 'engine', version: '2' },
+      rootUri: 'file:///workspace',
+    })
+    expect(log.version).toBe(SARIF_VERSION)
+    const run = log.runs[0]!
+    expect(run.tool.driver).toEqual({ name: 'engine', version: '2', rules: [{ id: 'E1' }, { id: 'diagnostic' }] })
+    expect(run.originalUriBaseIds).toEqual({ WORKSPACE: { uri: 'file:///workspace/' } })
+    expect(run.results.map((result) => [result.ruleId, result.level])).toEqual([['E1', 'error'], ['diagnostic', 'note']])
+    expect(run.results[0]?.locations[0]?.physicalLocation).toEqual({
+      artifactLocation: { uri: 'model/a.sysml', uriBaseId: 'WORKSPACE' },
+      region: { startLine: 5, startColumn: 3, endLine: 5, endColumn: 10 },
+    })
+    expect(run.results[1]?.locations[0]?.physicalLocation?.artifactLocation).toEqual({ uri: 'file:///elsewhere/b.sysml' })
+  })
+
+  it('locates assurance findings at element sources and keeps finding ids as fingerprints', () => {
+    const log = assuranceToSarif(evaluation(), snapshot(), { tool: { name: 'pack', version: '1.0.0' } })
+    const run = log.runs[0]!
+    expect(run.tool.driver.rules).toEqual([{
+      id: 'IF-NO-VERIFICATION',
+      help: { text: 'Add verification.' },
+      properties: { domain: 'interface', ruleVersion: '1.0.0' },
+    }])
+    expect(run.results[0]).toMatchObject({
+      level: 'error',
+      partialFingerprints: { assuranceFinding: 'finding:1' },
+      locations: [
+        {
+          physicalLocation: { artifactLocation: { uri: 'model.sysml', uriBaseId: 'WORKSPACE' } },
+          logicalLocations: [{ fullyQualifiedName: 'Pilot::Telemetry', kind: 'InterfaceUsage' }],
+        },
+        { logicalLocations: [{ fullyQualifiedName: 'element:removed', kind: 'element' }] },
+      ],
+    })
+  })
+})
+
+function evaluation(): AssuranceEvaluation {
+  return {
+    schemaVersion: 1,
+    rulePack: { id: 'pack', version: '1.0.0' },
+    snapshotSha256: 'a'.repeat(64),
+    resultSha256: 'b'.repeat(64),
+    coverage: 'indirect',
+    findings: [{
+      id: 'finding:1',
+      ruleId: 'IF-NO-VERIFICATION',
+      ruleVersion: '1.0.0',
+      domain: 'interface',
+      severity: 'major',
+      statement: 'Interface has no verification.',
+      elementIds: ['element:interface', 'element:removed'],
+      relationshipIds: [],
+      evidence: [],
+      remediation: 'Add verification.',
+    }],
+    requirementCoverage: [],
+    interfaceRegister: [],
+    summary: { critical: 0, major: 1, minor: 0, advisory: 0, requirements: 0, interfaces: 0 },
+    limitations: [],
+  }
+}
+
+function snapshot(): SemanticSnapshot {
+  return {
+    schemaVersion: 1,
+    snapshotSha256: 'snapshot',
+    workspace: { id: 'sample', rootUri: 'file:///workspace', configurationName: 'default' },
+    authority: {
+      adapterId: 'qualified',
+      adapterVersion: '1',
+      engineName: 'engine',
+      engineVersion: '1',
+      referenceRelease: 'test',
+      qualificationStatus: 'qualified',
+    },
+    freshness: 'current',
+    documents: [],
+    elements: [{
+      id: 'element:interface',
+      kind: 'InterfaceUsage',
+      rawKind: 'InterfaceUsage',
+      name: 'Telemetry',
+      qualifiedName: 'Pilot::Telemetry',
+      source: {
+        uri: 'file:///workspace/model.sysml',
+        workspacePath: 'model.sysml',
+        range,
+        documentSha256: 'document',
+      },
+      fingerprint: 'interface',
+      provenance: {
+        authority: 'qualified-language-engine',
+        extraction: 'pilot-emf-semantic-evidence',
+        classification: 'engine-metaclass',
+        engineId: 'interface',
+      },
+    }],
+    relationships: [],
+  }
+}
@@ -0,0 +1,169 @@
+import type { LanguageDiagnostic } from '../../language-adapter/src/index.js'
+import type { SemanticSnapshot } from '../../semantic-model/src/index.js'
+import type { AssuranceEvaluation, AssuranceSeverity } from '../../rule-engine/src/index.js'
+
+export const SARIF_VERSION = '2.1.0'
+export const SARIF_SCHEMA_URI = 'https://docs.oasis-open.org/sarif/sarif/v2.1.0/errata01/os/schemas/sarif-schema-2.1.0.json'
+const WORKSPACE_BASE_ID = 'WORKSPACE'
+
+export type SarifLevel = 'error' | 'warning' | 'note'
+
+export interface SarifTool {
+  name: string
+  version: string
+}
+
+export interface SarifRegion {
+  startLine: number
+  startColumn: number
+  endLine: number
+  endColumn: number
+}
+
+export interface SarifLocation {
+  physicalLocation?: {
+    artifactLocation: { uri: string; uriBaseId?: string }
+    region?: SarifRegion
+  }
+  logicalLocations?: Array<{ fullyQualifiedName: string; kind: string }>
+}
+
+export interface SarifRule {
+  id: string
+  shortDescription?: { text: string }
+  help?: { text: string }
+  properties?: Record<string, string>
+}
+
+export interface SarifResult {
+  ruleId: string
+  level: SarifLevel
+  message: { text: string }
+  locations: SarifLocation[]
+  partialFingerprints?: Record<string, string>
+  properties?: Record<string, unknown>
+}
+
+export interface SarifLog {
+  $schema: string
+  version: typeof SARIF_VERSION
+  runs: Array<{
+    tool: { driver: SarifTool & { rules: SarifRule[] } }
+    originalUriBaseIds: Record<string, { uri: string }>
+    results: SarifResult[]
+  }>
+}
+
+const DIAGNOSTIC_LEVELS: Record<LanguageDiagnostic['severity'], SarifLevel> = {
+  error: 'error',
+  warning: 'warning',
+  information: 'note',
+  hint: 'note',
+}
+
+const FINDING_LEVELS: Record<AssuranceSeverity, SarifLevel> = {
+  critical: 'error',
+  major: 'error',
+  minor: 'warning',
+  advisory: 'note',
+}
+
+// Language diagnostics keep their engine codes as rule ids. Documents under
+// the workspace root are addressed relative to it so results survive checkout
+// into another directory.
+export function diagnosticsToSarif(
+  diagnostics: LanguageDiagnostic[],
+  options: { tool: SarifTool; rootUri: string },
+): SarifLog {
+  const ruleIds = [...new Set(diagnostics.map((item) => item.code || 'diagnostic'))].sort()
+  return sarifLog(options.tool, options.rootUri, ruleIds.map((id) => ({ id })), diagnostics.map((item) => ({
+    ruleId: item.code || 'diagnostic',
+    level: DIAGNOSTIC_LEVELS[item.severity],
+    message: { text: item.message },
+    locations: [{
+      physicalLocation: {
+        artifactLocation: artifactLocation(item.uri, options.rootUri),
+        ...(item.range ? { region: sarifRegion(item.range) } : {}),
+      },
+    }],
+    properties: { severity: item.severity },
+  })))
+}
+
+// Findings are located at the source of every element they name; elements the
+// snapshot no longer contains are reported by qualified id only.
+export function assuranceToSarif(
+  evaluation: AssuranceEvaluation,
+  snapshot: SemanticSnapshot,
+  options: { tool: SarifTool },
+): SarifLog {
+  const elements = new Map(snapshot.elements.map((element) => [element.id, element]))
+  const rules = new Map<string, SarifRule>()
+  for (const finding of evaluation.findings) {
+    if (rules.has(finding.ruleId)) continue
+    rules.set(finding.ruleId, {
+      id: finding.ruleId,
+      help: { text: finding.remediation },
+      properties: { domain: finding.domain, ruleVersion: finding.ruleVersion },
+    })
+  }
+  const rootUri = snapshot.workspace.rootUri
+  const results = evaluation.findings.map((finding): SarifResult => ({
+    ruleId: finding.ruleId,
+    level: FINDING_LEVELS[finding.severity],
+    message: { text: finding.statement },
+    locations: finding.elementIds.map((elementId) => {
+      const element = elements.get(elementId)
+      if (!element) return { logicalLocations: [{ fullyQualifiedName: elementId, kind: 'element' }] }
+      return {
+        physicalLocation: {
+          artifactLocation: artifactLocation(element.source.uri, rootUri),
+          region: sarifRegion(element.source.range),
+        },
+        logicalLocations: [{ fullyQualifiedName: element.qualifiedName, kind: element.kind }],
+      }
+    }),
+    partialFingerprints: { assuranceFinding: finding.id },
+    properties: {
+      severity: finding.severity,
+      domain: finding.domain,
+      remediation: finding.remediation,
+      evidence: finding.evidence,
+    },
+  }))
+  return sarifLog(
+    options.tool,
+    rootUri,
+    [...rules.values()].sort((left, right) => left.id.localeCompare(right.id)),
+    results,
+  )
+}
+
+function sarifLog(tool: SarifTool, rootUri: string, rules: SarifRule[], results: SarifResult[]): SarifLog {
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: SARIF_VERSION,
+    runs: [{
+      tool: { driver: { name: tool.name, version: tool.version, rules } },
+      originalUriBaseIds: { [WORKSPACE_BASE_ID]: { uri: rootUri.endsWith('/') ? rootUri : `${rootUri}/` } },
+      results,
+    }],
+  }
+}
+
+function artifactLocation(uri: string, rootUri: string): { uri: string; uriBaseId?: string } {
+  const base = rootUri.endsWith('/') ? rootUri : `${rootUri}/`
+  return uri.startsWith(base)
+    ? { uri: uri.slice(base.length), uriBaseId: WORKSPACE_BASE_ID }
+    : { uri }
+}
+
+// SARIF lines and columns are one-based; language ranges are zero-based.
+function sarifRegion(range: NonNullable<LanguageDiagnostic['range']>): SarifRegion {
+  return {
+    startLine: range.start.line + 1,
+    startColumn: range.start.character + 1,
+    endLine: range.end.line + 1,
+    endColumn: range.end.character + 1,
+  }
+}
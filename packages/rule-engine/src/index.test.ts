@@ -16,6 +16,115 @@ describe('engineering assurance rule pack', () => {
     expect(result.limitations[0]).toContain('not present')
   })
 
+  it('reports engine-supplied endpoint direction and units in the interface register', () => {
+    const base = snapshot()
+    const withFeatures: SemanticSnapshot = {
+      ...base,
+      elements: [
+        ...base.elements.map((element) =>
+          element.id === 'leftPort' ? { ...element, feature: { direction: 'out' as const } }
+            : element.id === 'rightPort' ? { ...element, feature: { direction: 'in' as const } }
+              : element),
+        { ...base.elements[0]!, id: 'voltage', kind: 'AttributeUsage', name: 'voltage', qualifiedName: 'Pilot::voltage', ownerId: 'rightPort', feature: { value: { kind: 'real', text: '12 [V]', literal: 12 }, unit: 'V' } },
+      ],
+    }
+    const row = evaluateAssurance(withFeatures).interfaceRegister[0]!
+    expect(row.endpointDirections).toEqual([
+      { endpointId: 'leftPort', direction: 'out' },
+      { endpointId: 'rightPort', direction: 'in' },
+    ])
+    expect(row.units).toEqual(['V'])
+    expect(row.unavailableAttributes).not.toContain('direction')
+    expect(row.unavailableAttributes).not.toContain('units')
+    expect(row.unavailableAttributes).toContain('protocol')
+  })
+
+  it('reports incompatible endpoints with the mismatching directed features as evidence', () => {
+    const base = snapshot()
+    const element = (id: string, kind: SemanticSnapshot['elements'][number]['kind'], ownerId: string, feature?: SemanticSnapshot['elements'][number]['feature']) =>
+      ({ ...base.elements[0]!, id, kind, name: id.split('.').at(-1)!, qualifiedName: `Pilot::${id}`, ownerId, ...(feature ? { feature } : {}) })
+    const link = (id: string, kind: SemanticSnapshot['relationships'][number]['kind'], sourceId: string, targetId: string) => ({
+      id, kind, sourceId, targetId,
+      provenance: { authority: 'qualified-language-engine' as const, extraction: 'pilot-emf-explicit-reference' as const, engineMetaclass: kind, features: [] },
+    })
+    const connected = (conjugated: boolean, rightType = 'Power'): SemanticSnapshot => ({
+      ...base,
+      elements: [
+        ...base.elements.map((item) => item.id === 'rightPort' && conjugated ? { ...item, feature: { conjugated: true as const } } : item),
+        element('Power', 'PortDefinition', 'package'),
+        element('Power.current', 'ItemUsage', 'Power', { direction: 'out', unit: 'A' }),
+        element('Power.ack', 'ItemUsage', 'Power', { direction: 'in' }),
+        element('Signal', 'PortDefinition', 'package'),
+        element('Signal.current', 'ItemUsage', 'Signal', { direction: 'in', unit: 'mA' }),
+        element('Signal.ack', 'ItemUsage', 'Signal', { direction: 'out' }),
+        element('Charge', 'ItemDefinition', 'package'),
+        element('Data', 'ItemDefinition', 'package'),
+      ],
+      relationships: [
+        ...base.relationships,
+        link('rel-left-type', 'typing', 'leftPort', 'Power'),
+        link('rel-right-type', 'typing', 'rightPort', rightType),
+        link('rel-power-current', 'typing', 'Power.current', 'Charge'),
+        link('rel-signal-current', 'typing', 'Signal.current', 'Data'),
+      ],
+    })
+    const incompatible = (value: SemanticSnapshot) => evaluateAssurance(value).findings.filter((item) => item.ruleId === 'IF-INCOMPATIBLE-ENDPOINTS')
+
+    expect(incompatible(connected(true))).toEqual([])
+    const unconjugated = incompatible(connected(false))
+    expect(unconjugated).toHaveLength(1)
+    expect(unconjugated[0]).toMatchObject({
+      severity: 'major',
+      elementIds: ['Power.ack', 'Power.current', 'interface', 'leftPort', 'rightPort'],
+      evidence: [{ key: 'ack.direction', value: 'in -> in' }, { key: 'current.direction', value: 'out -> out' }],
+    })
+    expect(incompatible(connected(false, 'Signal'))[0]!.evidence).toEqual([
+      { key: 'current.itemType', value: 'Pilot::Charge -> Pilot::Data' },
+      { key: 'current.unit', value: 'A -> mA' },
+    ])
+  })
+
+  it('claims indirect coverage through flowdown and typing with its relationship path', () => {
+    const base = snapshot()
+    const link = (id: string, kind: SemanticSnapshot['relationships'][number]['kind'], sourceId: string, targetId: string) => ({
+      id, kind, sourceId, targetId,
+      provenance: { authority: 'qualified-language-engine' as const, extraction: 'pilot-emf-explicit-reference' as const, engineMetaclass: kind, features: [] },
+    })
+    const requirement = (id: string, kind: 'RequirementDefinition' | 'RequirementUsage') => ({ ...base.elements[1]!, id, kind, name: id, qualifiedName: `Pilot::${id}` })
+    const tree: SemanticSnapshot = {
+      ...base,
+      elements: [...base.elements, requirement('child', 'RequirementUsage'), requirement('derived', 'RequirementUsage'), requirement('lower', 'RequirementUsage'), requirement('instance', 'RequirementUsage')],
+      relationships: [
+        ...base.relationships,
+        link('rel-contains-child', 'containment', 'requirement', 'child'),
+        link('rel-contains-derived', 'containment', 'requirement', 'derived'),
+        link('rel-derive', 'dependency', 'lower', 'derived'),
+        link('rel-type', 'typing', 'instance', 'requirement'),
+        link('rel-satisfy-child', 'satisfaction', 'leftPort', 'child'),
+        link('rel-satisfy-lower', 'satisfaction', 'rightPort', 'lower'),
+        link('rel-verify', 'verification', 'interface', 'requirement'),
+      ],
+    }
+    const indirect = evaluateAssurance(tree, { coverage: 'indirect' })
+    const rows = new Map(indirect.requirementCoverage.map((row) => [row.requirementId, row]))
+    // A verified parent does not verify the requirements nested in it.
+    expect(rows.get('child')).toMatchObject({ satisfaction: 'direct', satisfactionPath: ['rel-satisfy-child'], verification: 'none', verificationPath: [] })
+    expect(rows.get('derived')).toMatchObject({ satisfaction: 'indirect', satisfactionPath: ['rel-derive', 'rel-satisfy-lower'] })
+    expect(rows.get('requirement')).toMatchObject({
+      satisfaction: 'indirect',
+      satisfactionPath: ['rel-contains-child', 'rel-satisfy-child', 'rel-contains-derived', 'rel-derive', 'rel-satisfy-lower'],
+      verification: 'direct',
+    })
+    expect(rows.get('instance')).toMatchObject({ satisfaction: 'indirect', satisfactionPath: ['rel-type', 'rel-contains-child', 'rel-satisfy-child', 'rel-contains-derived', 'rel-derive', 'rel-satisfy-lower'] })
+    expect(indirect.findings.filter((finding) => finding.ruleId.startsWith('REQ-')).map((finding) => [finding.ruleId, finding.elementIds]))
+      .toEqual([['REQ-UNVERIFIED', ['derived']], ['REQ-UNVERIFIED', ['child']], ['REQ-UNVERIFIED', ['lower']]])
+
+    const direct = evaluateAssurance(tree)
+    expect(direct.coverage).toBe('direct')
+    expect(direct.requirementCoverage.find((row) => row.requirementId === 'requirement')).toMatchObject({ satisfaction: 'none', satisfactionPath: [] })
+    expect(direct.findings.find((finding) => finding.ruleId === 'REQ-UNSATISFIED')?.statement).toContain('no direct satisfying element')
+  })
+
   it('is byte-deterministic for the same semantic snapshot', () => {
     expect(evaluateAssurance(snapshot()).resultSha256).toBe(evaluateAssurance(snapshot()).resultSha256)
   })
@@ -1,11 +1,35 @@
 import { createHash } from 'node:crypto'
-import type { SemanticElement, SemanticSnapshot } from '../../semantic-model/src/index.js'
+import type { SemanticElement, SemanticFeature, SemanticSnapshot } from '../../semantic-model/src/index.js'
+import { evaluateRulePack, ruleStatement, type UserRulePack } from './rule-packs.js'
+
+export {
+  parseRulePack,
+  USER_RULE_PACK_SCHEMA_VERSION,
+  type RuleDirection,
+  type UserQueryPath,
+  type UserRelationshipCount,
+  type UserRule,
+  type UserRulePack,
+} from './rule-packs.js'
 
 export const RULE_PACK_ID = 'sysml-workbench/engineering-assurance'
-export const RULE_PACK_VERSION = '1.0.0'
+export const RULE_PACK_VERSION = '1.3.0'
 
 export type AssuranceSeverity = 'critical' | 'major' | 'minor' | 'advisory'
-export type AssuranceDomain = 'requirement' | 'verification' | 'interface' | 'dependency'
+export type AssuranceDomain = 'requirement' | 'verification' | 'interface' | 'dependency' | 'modeling'
+export type CoverageMode = 'direct' | 'indirect'
+export type CoverageState = 'direct' | 'indirect' | 'none'
+
+const BUILT_IN_RULE_IDS = new Set([
+  'REQ-UNSATISFIED',
+  'REQ-UNVERIFIED',
+  'IF-MISSING-OWNER',
+  'IF-INCOMPLETE-ENDPOINTS',
+  'IF-UNTYPED-ENDPOINT',
+  'IF-INCOMPATIBLE-ENDPOINTS',
+  'IF-NO-REQUIREMENT-BASIS',
+  'IF-NO-VERIFICATION',
+])
 
 export interface AssuranceFinding {
   id: string
@@ -25,8 +49,10 @@ export interface RequirementCoverageRow {
   qualifiedName: string
   satisfyingElementIds: string[]
   verificationElementIds: string[]
-  satisfaction: 'direct' | 'none'
-  verification: 'direct' | 'none'
+  satisfaction: CoverageState
+  verification: CoverageState
+  satisfactionPath: string[]
+  verificationPath: string[]
 }
 
 export interface InterfaceRegisterRow {
@@ -39,6 +65,8 @@ export interface InterfaceRegisterRow {
   targetEndpointIds: string[]
   endpointTypeIds: string[]
   exchangedItemIds: string[]
+  endpointDirections: Array<{ endpointId: string; direction: NonNullable<SemanticFeature['direction']> }>
+  units: string[]
   requirementIds: string[]
   verificationIds: string[]
   sourcePath: string
@@ -48,9 +76,14 @@ export interface InterfaceRegisterRow {
 
 export interface AssuranceEvaluation {
   schemaVersion: 1
-  rulePack: { id: string; version: string }
+  rulePack: {
+    id: string
+    version: string
+    userPacks?: Array<{ id: string; version: string; sha256: string }>
+  }
   snapshotSha256: string
   resultSha256: string
+  coverage: CoverageMode
   findings: AssuranceFinding[]
   requirementCoverage: RequirementCoverageRow[]
   interfaceRegister: InterfaceRegisterRow[]
@@ -65,22 +98,35 @@ export interface AssuranceEvaluation {
   limitations: string[]
 }
 
-export function evaluateAssurance(snapshot: SemanticSnapshot): AssuranceEvaluation {
+export interface AssuranceOptions {
+  rulePacks?: UserRulePack[]
+  coverage?: CoverageMode
+}
+
+export function evaluateAssurance(snapshot: SemanticSnapshot, options: AssuranceOptions = {}): AssuranceEvaluation {
   if (snapshot.freshness !== 'current' || snapshot.authority.qualificationStatus !== 'qualified') {
     throw new Error('Assurance evaluation requires a current qualified semantic snapshot')
   }
-  const requirementCoverage = buildRequirementCoverage(snapshot)
+  const userPacks = options.rulePacks ?? []
+  const coverage = options.coverage ?? 'direct'
+  if (coverage !== 'direct' && coverage !== 'indirect') {
+    throw new Error('Assurance coverage mode must be direct or indirect')
+  }
+  validateUserPacks(userPacks)
+  const requirementCoverage = buildRequirementCoverage(snapshot, coverage)
+  const scope = coverage === 'indirect' ? 'direct or indirect' : 'direct'
   const findings: AssuranceFinding[] = []
   for (const row of requirementCoverage) {
     if (row.satisfaction === 'none') {
-      findings.push(finding('REQ-UNSATISFIED', 'requirement', 'major', `Requirement ${row.qualifiedName} has no direct satisfying element.`, [row.requirementId], [], [['satisfyingElements', 0]], 'Create or correct an explicit satisfy relationship.'))
+      findings.push(finding('REQ-UNSATISFIED', 'requirement', 'major', `Requirement ${row.qualifiedName} has no ${scope} satisfying element.`, [row.requirementId], [], [['satisfyingElements', 0]], 'Create or correct an explicit satisfy relationship.'))
     }
     if (row.verification === 'none') {
-      findings.push(finding('REQ-UNVERIFIED', 'verification', 'major', `Requirement ${row.qualifiedName} has no direct verification relationship.`, [row.requirementId], [], [['verificationElements', 0]], 'Create or correct an explicit verification case relationship.'))
+      findings.push(finding('REQ-UNVERIFIED', 'verification', 'major', `Requirement ${row.qualifiedName} has no ${scope} verification relationship.`, [row.requirementId], [], [['verificationElements', 0]], 'Create or correct an explicit verification case relationship.'))
     }
   }
-  const interfaceRegister = buildInterfaceRegister(snapshot)
   const byId = new Map(snapshot.elements.map((element) => [element.id, element]))
+  const owned = ownedElements(snapshot)
+  const interfaceRegister = buildInterfaceRegister(snapshot, byId, owned)
   for (const row of interfaceRegister) {
     if (!row.ownerId) {
       findings.push(finding('IF-MISSING-OWNER', 'interface', 'major', `Interface element ${row.qualifiedName} has no semantic owner.`, [row.interfaceId], [], [], 'Assign the interface element to an owning package or part.'))
@@ -93,6 +139,12 @@ export function evaluateAssurance(snapshot: SemanticSnapshot): AssuranceEvaluati
     for (const endpointId of untyped) {
       findings.push(finding('IF-UNTYPED-ENDPOINT', 'interface', 'major', `Endpoint ${byId.get(endpointId)?.qualifiedName ?? endpointId} has no resolved type.`, [row.interfaceId, endpointId], [], [], 'Assign a compatible port or item type.'))
     }
+    if (endpointIds.length === 2) {
+      const mismatches = endpointMismatches(snapshot, byId, owned, endpointIds[0]!, endpointIds[1]!, byId.get(row.interfaceId)?.ownerId)
+      if (mismatches.length > 0) {
+        findings.push(finding('IF-INCOMPATIBLE-ENDPOINTS', 'interface', 'major', `Interface ${row.qualifiedName} connects endpoints whose directed features do not match.`, [row.interfaceId, ...endpointIds, ...mismatches.flatMap((item) => item.featureIds)], [], mismatches.map((item) => [item.key, item.value]), 'Conjugate one end, or align the directed features, item types, and units of both port definitions.'))
+      }
+    }
     if (row.requirementIds.length === 0) {
       findings.push(finding('IF-NO-REQUIREMENT-BASIS', 'interface', 'minor', `Interface ${row.qualifiedName} has no direct requirement basis.`, [row.interfaceId], [], [], 'Trace the interface or one of its endpoints to its governing requirement.'))
     }
@@ -100,14 +152,27 @@ export function evaluateAssurance(snapshot: SemanticSnapshot): AssuranceEvaluati
       findings.push(finding('IF-NO-VERIFICATION', 'interface', 'minor', `Interface ${row.qualifiedName} has no directly traceable verification.`, [row.interfaceId], [], [], 'Trace an applicable verification case through the governing requirement.'))
     }
   }
+  for (const pack of userPacks) {
+    for (const violation of evaluateRulePack(snapshot, pack)) {
+      const { rule, element } = violation
+      findings.push(finding(rule.id, rule.domain, rule.severity, ruleStatement(rule.statement, element), [element.id], violation.relationshipIds, violation.evidence, rule.remediation, pack.version))
+    }
+  }
   const sortedFindings = findings.sort((left, right) => left.id.localeCompare(right.id))
   for (const row of interfaceRegister) {
     row.openFindingIds = sortedFindings.filter((item) => item.elementIds.includes(row.interfaceId)).map((item) => item.id)
   }
   const resultWithoutHash = {
     schemaVersion: 1 as const,
-    rulePack: { id: RULE_PACK_ID, version: RULE_PACK_VERSION },
+    rulePack: {
+      id: RULE_PACK_ID,
+      version: RULE_PACK_VERSION,
+      ...(userPacks.length > 0
+        ? { userPacks: userPacks.map((pack) => ({ id: pack.id, version: pack.version, sha256: sha256(stableJson(pack)) })) }
+        : {}),
+    },
     snapshotSha256: snapshot.snapshotSha256,
+    coverage,
     findings: sortedFindings,
     requirementCoverage,
     interfaceRegister,
@@ -120,29 +185,86 @@ export function evaluateAssurance(snapshot: SemanticSnapshot): AssuranceEvaluati
       interfaces: interfaceRegister.length,
     },
     limitations: [
-      'Direction, units, protocol, capacity, timing, operating modes, failure behaviour, safety, security, status, and assumptions are not present in the normalized semantic profile and are reported as unavailable rather than inferred.',
-      'Coverage is direct semantic coverage; indirect satisfaction and verification paths are not claimed by this rule-pack version.',
+      'Protocol, capacity, timing, operating modes, failure behaviour, safety, security, status, and assumptions are not present in the normalized semantic profile and are reported as unavailable rather than inferred.',
+      'Direction and units are reported only where the language engine supplies them for an endpoint, endpoint type, exchanged item, or one of their owned features.',
+      coverage === 'indirect'
+        ? 'Indirect coverage follows requirement typing, and flows up from nested, connected, and dependent requirements that are all covered; it never passes down from a containing requirement. Each coverage row cites the relationship ids of its path.'
+        : 'Coverage is direct semantic coverage; indirect satisfaction and verification paths are not claimed by this evaluation.',
     ],
   }
   return { ...resultWithoutHash, resultSha256: sha256(stableJson(resultWithoutHash)) }
 }
 
-function buildRequirementCoverage(snapshot: SemanticSnapshot): RequirementCoverageRow[] {
-  return snapshot.elements
-    .filter((element) => element.kind === 'RequirementDefinition' || element.kind === 'RequirementUsage')
+function buildRequirementCoverage(snapshot: SemanticSnapshot, mode: CoverageMode): RequirementCoverageRow[] {
+  const requirements = snapshot.elements.filter((element) => element.kind === 'RequirementDefinition' || element.kind === 'RequirementUsage')
+  const satisfaction = coveragePaths(snapshot, requirements, 'satisfaction', mode)
+  const verification = coveragePaths(snapshot, requirements, 'verification', mode)
+  return requirements
     .map((requirement) => ({
       requirementId: requirement.id,
       qualifiedName: requirement.qualifiedName,
       satisfyingElementIds: incomingSources(snapshot, requirement.id, 'satisfaction'),
       verificationElementIds: incomingSources(snapshot, requirement.id, 'verification'),
-      satisfaction: incomingSources(snapshot, requirement.id, 'satisfaction').length ? 'direct' as const : 'none' as const,
-      verification: incomingSources(snapshot, requirement.id, 'verification').length ? 'direct' as const : 'none' as const,
+      satisfaction: satisfaction.get(requirement.id)?.state ?? 'none' as const,
+      verification: verification.get(requirement.id)?.state ?? 'none' as const,
+      satisfactionPath: satisfaction.get(requirement.id)?.path ?? [],
+      verificationPath: verification.get(requirement.id)?.path ?? [],
     }))
     .sort((left, right) => left.requirementId.localeCompare(right.requirementId))
 }
 
-function buildInterfaceRegister(snapshot: SemanticSnapshot): InterfaceRegisterRow[] {
-  const byId = new Map(snapshot.elements.map((element) => [element.id, element]))
+// A requirement is indirectly covered when its requirement definition is
+// covered, or when every requirement flowing down from it (nested, derived by
+// connection, or depending on it) is covered. Coverage of an owning
+// requirement does not pass down to what it contains.
+function coveragePaths(snapshot: SemanticSnapshot, requirements: SemanticElement[], kind: 'satisfaction' | 'verification', mode: CoverageMode): Map<string, { state: 'direct' | 'indirect'; path: string[] }> {
+  const ids = new Set(requirements.map((requirement) => requirement.id))
+  const result = new Map<string, { state: 'direct' | 'indirect'; path: string[] }>()
+  for (const requirement of requirements) {
+    const path = snapshot.relationships.filter((item) => item.kind === kind && item.targetId === requirement.id).map((item) => item.id).sort()
+    if (path.length > 0) result.set(requirement.id, { state: 'direct', path })
+  }
+  if (mode === 'direct') return result
+  const between = snapshot.relationships.filter((item) => ids.has(item.sourceId) && ids.has(item.targetId))
+  const inherited = between.flatMap((item) =>
+    item.kind === 'typing' ? [{ fromId: item.targetId, toId: item.sourceId, relationshipId: item.id }] : [])
+  const flowdown = new Map<string, Array<{ childId: string; relationshipId: string }>>()
+  for (const item of between) {
+    const [parentId, childId] = item.kind === 'containment' || item.kind === 'connection' ? [item.sourceId, item.targetId]
+      : item.kind === 'dependency' ? [item.targetId, item.sourceId]
+        : []
+    if (parentId && childId) flowdown.set(parentId, [...flowdown.get(parentId) ?? [], { childId, relationshipId: item.id }])
+  }
+  for (let changed = true; changed;) {
+    changed = false
+    for (const link of inherited) {
+      const from = result.get(link.fromId)
+      if (!from || result.has(link.toId)) continue
+      result.set(link.toId, { state: 'indirect', path: [link.relationshipId, ...from.path] })
+      changed = true
+    }
+    for (const [parentId, children] of flowdown) {
+      if (result.has(parentId) || !children.every((child) => result.has(child.childId))) continue
+      result.set(parentId, { state: 'indirect', path: [...new Set(children.flatMap((child) => [child.relationshipId, ...result.get(child.childId)!.path]))] })
+      changed = true
+    }
+  }
+  return result
+}
+
+// Owned elements by owner id, in snapshot order.
+function ownedElements(snapshot: SemanticSnapshot): Map<string, SemanticElement[]> {
+  const owned = new Map<string, SemanticElement[]>()
+  for (const element of snapshot.elements) {
+    if (!element.ownerId) continue
+    const siblings = owned.get(element.ownerId)
+    if (siblings) siblings.push(element)
+    else owned.set(element.ownerId, [element])
+  }
+  return owned
+}
+
+function buildInterfaceRegister(snapshot: SemanticSnapshot, byId: Map<string, SemanticElement>, owned: Map<string, SemanticElement[]>): InterfaceRegisterRow[] {
   const interfaceKinds = new Set<SemanticElement['kind']>(['InterfaceUsage', 'InterfaceDefinition', 'ConnectionUsage', 'ConnectionDefinition', 'FlowUsage', 'FlowDefinition'])
   return snapshot.elements.filter((element) => interfaceKinds.has(element.kind)).map((element) => {
     const interfaceLinks = snapshot.relationships.filter((relationship) => relationship.kind === 'interface' && relationship.sourceId === element.id)
@@ -158,6 +280,14 @@ function buildInterfaceRegister(snapshot: SemanticSnapshot): InterfaceRegisterRo
     ])].sort()
     const verificationIds = [...new Set(requirementIds.flatMap((id) => incomingSources(snapshot, id, 'verification')))].sort()
     const endpointTypeIds = [...new Set(endpointIds.flatMap((id) => outgoingTargets(snapshot, id, 'typing')))].sort()
+    const exchangedItemIds = [...new Set(flowLinks.flatMap((relationship) => [relationship.sourceId, relationship.targetId]).filter((id) => !endpointIds.includes(id)))].sort()
+    const endpointDirections = endpointIds.flatMap((endpointId) => {
+      const direction = byId.get(endpointId)?.feature?.direction
+      return direction ? [{ endpointId, direction }] : []
+    })
+    const units = [...new Set([...endpointIds, ...endpointTypeIds, ...exchangedItemIds]
+      .flatMap((id) => [byId.get(id), ...owned.get(id) ?? []])
+      .flatMap((item) => item?.feature?.unit ? [item.feature.unit] : []))].sort()
     return {
       interfaceId: element.id,
       qualifiedName: element.qualifiedName,
@@ -167,20 +297,97 @@ function buildInterfaceRegister(snapshot: SemanticSnapshot): InterfaceRegisterRo
       sourceEndpointIds: interfaceLinks.slice(0, 1).map((relationship) => relationship.targetId),
       targetEndpointIds: interfaceLinks.slice(1).map((relationship) => relationship.targetId),
       endpointTypeIds,
-      exchangedItemIds: [...new Set(flowLinks.flatMap((relationship) => [relationship.sourceId, relationship.targetId]).filter((id) => !endpointIds.includes(id)))].sort(),
+      exchangedItemIds,
+      endpointDirections,
+      units,
       requirementIds,
       verificationIds,
       sourcePath: element.source.workspacePath,
-      unavailableAttributes: ['direction', 'units', 'protocol', 'rateCapacity', 'timing', 'operatingModes', 'failureBehaviour', 'safety', 'security', 'status', 'assumptions'],
+      unavailableAttributes: [
+        ...endpointIds.length > 0 && endpointDirections.length === endpointIds.length ? [] : ['direction'],
+        ...units.length > 0 ? [] : ['units'],
+        'protocol', 'rateCapacity', 'timing', 'operatingModes', 'failureBehaviour', 'safety', 'security', 'status', 'assumptions',
+      ],
       openFindingIds: [],
     }
   }).sort((left, right) => left.interfaceId.localeCompare(right.interfaceId))
 }
 
-function finding(ruleId: string, domain: AssuranceDomain, severity: AssuranceSeverity, statement: string, elementIds: string[], relationshipIds: string[], evidenceEntries: Array<[string, string | number | boolean]>, remediation: string): AssuranceFinding {
+// Each end offers the directed features it owns or inherits from its port
+// definitions, by name; conjugation swaps in and out. Ends meeting across a
+// connection need opposite directions, while a delegation from a boundary port
+// (owned by the interface's owner) to a nested port keeps the same direction.
+function endpointMismatches(snapshot: SemanticSnapshot, byId: Map<string, SemanticElement>, owned: Map<string, SemanticElement[]>, sourceId: string, targetId: string, ownerId: string | undefined): Array<{ featureIds: string[]; key: string; value: string }> {
+  const source = directedFeatures(snapshot, byId, owned, sourceId)
+  const target = directedFeatures(snapshot, byId, owned, targetId)
+  const delegation = [sourceId, targetId].filter((id) => ownerId !== undefined && byId.get(id)?.ownerId === ownerId).length === 1
+  const mismatches: Array<{ featureIds: string[]; key: string; value: string }> = []
+  for (const name of [...new Set([...source.keys(), ...target.keys()])].sort()) {
+    const left = source.get(name)
+    const right = target.get(name)
+    const featureIds = [left?.element.id, right?.element.id].filter((id): id is string => id !== undefined)
+    if (!left || !right || (left.direction !== 'inout' && right.direction !== 'inout' && (left.direction === right.direction) !== delegation)) {
+      mismatches.push({ featureIds, key: `${name}.direction`, value: `${left?.direction ?? 'none'} -> ${right?.direction ?? 'none'}` })
+      continue
+    }
+    const leftTypes = outgoingTargets(snapshot, left.element.id, 'typing')
+    const rightTypes = outgoingTargets(snapshot, right.element.id, 'typing')
+    const conforms = leftTypes.some((leftType) => rightTypes.some((rightType) =>
+      supertypes(snapshot, leftType).has(rightType) || supertypes(snapshot, rightType).has(leftType)))
+    if (leftTypes.length > 0 && rightTypes.length > 0 && !conforms) {
+      const names = (ids: string[]) => ids.map((id) => byId.get(id)?.qualifiedName ?? id).join(', ')
+      mismatches.push({ featureIds, key: `${name}.itemType`, value: `${names(leftTypes)} -> ${names(rightTypes)}` })
+    }
+    const leftUnit = left.element.feature?.unit
+    const rightUnit = right.element.feature?.unit
+    if (leftUnit && rightUnit && leftUnit !== rightUnit) {
+      mismatches.push({ featureIds, key: `${name}.unit`, value: `${leftUnit} -> ${rightUnit}` })
+    }
+  }
+  return mismatches
+}
+
+function directedFeatures(snapshot: SemanticSnapshot, byId: Map<string, SemanticElement>, owned: Map<string, SemanticElement[]>, endpointId: string): Map<string, { element: SemanticElement; direction: 'in' | 'out' | 'inout' }> {
+  const endpoint = byId.get(endpointId)
+  const providers = [endpointId, ...outgoingTargets(snapshot, endpointId, 'typing').flatMap((typeId) => [...supertypes(snapshot, typeId)])]
+  const result = new Map<string, { element: SemanticElement; direction: 'in' | 'out' | 'inout' }>()
+  for (const providerId of providers) {
+    for (const element of owned.get(providerId) ?? []) {
+      const direction = element.feature?.direction
+      if (!direction || result.has(element.name)) continue
+      const effective = endpoint?.feature?.conjugated && direction !== 'inout' ? (direction === 'in' ? 'out' : 'in') : direction
+      result.set(element.name, { element, direction: effective })
+    }
+  }
+  return result
+}
+
+// The type itself first, then its specialization ancestors nearest first.
+function supertypes(snapshot: SemanticSnapshot, typeId: string): Set<string> {
+  const result = new Set([typeId])
+  for (const current of result) {
+    for (const general of outgoingTargets(snapshot, current, 'specialization')) result.add(general)
+  }
+  return result
+}
+
+function validateUserPacks(userPacks: UserRulePack[]): void {
+  const packIds = new Set([RULE_PACK_ID])
+  const ruleIds = new Set(BUILT_IN_RULE_IDS)
+  for (const pack of userPacks) {
+    if (packIds.has(pack.id)) throw new Error(`Rule pack ${pack.id} is loaded more than once`)
+    packIds.add(pack.id)
+    for (const rule of pack.rules) {
+      if (ruleIds.has(rule.id)) throw new Error(`Rule ${pack.id}/${rule.id} reuses an already loaded rule id`)
+      ruleIds.add(rule.id)
+    }
+  }
+}
+
+function finding(ruleId: string, domain: AssuranceDomain, severity: AssuranceSeverity, statement: string, elementIds: string[], relationshipIds: string[], evidenceEntries: Array<[string, string | number | boolean]>, remediation: string, ruleVersion = RULE_PACK_VERSION): AssuranceFinding {
   const evidence = evidenceEntries.map(([key, value]) => ({ key, value }))
   const identity = stableJson({ ruleId, elementIds: [...elementIds].sort(), relationshipIds: [...relationshipIds].sort(), evidence })
-  return { id: `finding:${sha256(identity).slice(0, 24)}`, ruleId, ruleVersion: RULE_PACK_VERSION, domain, severity, statement, elementIds: [...new Set(elementIds)].sort(), relationshipIds: [...new Set(relationshipIds)].sort(), evidence, remediation }
+  return { id: `finding:${sha256(identity).slice(0, 24)}`, ruleId, ruleVersion, domain, severity, statement, elementIds: [...new Set(elementIds)].sort(), relationshipIds: [...new Set(relationshipIds)].sort(), evidence, remediation }
 }
 
 function incomingSources(snapshot: SemanticSnapshot, targetId: string, kind: SemanticSnapshot['relationships'][number]['kind']): string[] { return snapshot.relationships.filter((item) => item.kind === kind && item.targetId === targetId).map((item) => item.sourceId).sort() }
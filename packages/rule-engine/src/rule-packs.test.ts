@@ -0,0 +1,145 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import type { SemanticSnapshot } from '../../semantic-model/src/index.js'
+import { evaluateAssurance, parseRulePack, RULE_PACK_ID } from './index.js'
+
+describe('workspace rule packs', () => {
+  it('evaluates kind, name, relationship count, and path predicates beside the built-in pack', () => {
+    const pack = parseRulePack(standards())
+    const result = evaluateAssurance(snapshot(), { rulePacks: [pack] })
+    const user = result.findings.filter((finding) => finding.ruleVersion === '2.0.0')
+    expect(user.map((finding) => [finding.ruleId, finding.elementIds, finding.evidence])).toEqual(expect.arrayContaining([
+      ['ACME-PART-NAMES', ['engine'], [{ key: 'nameMatches', value: false }]],
+      ['ACME-ALLOCATED', ['engine'], [{ key: 'relationships.allocation.inbound', value: 0 }]],
+      ['ACME-TRACED-LOGICAL', ['engine'], [{ key: 'paths.0', value: 0 }]],
+    ]))
+    expect(user).toHaveLength(3)
+    expect(user.find((finding) => finding.ruleId === 'ACME-PART-NAMES')).toMatchObject({
+      severity: 'minor',
+      domain: 'modeling',
+      statement: 'Part definition Pilot::engine must use an upper-case name.',
+      remediation: 'Rename the part definition.',
+    })
+    expect(result.findings.some((finding) => finding.ruleId === 'REQ-UNVERIFIED')).toBe(true)
+    expect(result.rulePack).toEqual({
+      id: RULE_PACK_ID,
+      version: expect.any(String),
+      userPacks: [{ id: 'acme/standards', version: '2.0.0', sha256: expect.stringMatching(/^[a-f0-9]{64}$/) }],
+    })
+    expect(evaluateAssurance(snapshot(), { rulePacks: [pack] }).resultSha256).toBe(result.resultSha256)
+    expect(evaluateAssurance(snapshot()).rulePack).not.toHaveProperty('userPacks')
+  })
+
+  it('matches name patterns as case-sensitive globs in linear time', () => {
+    const pack = standards()
+    pack.rules = [{
+      ...pack.rules[0]!,
+      match: { nameMatches: `${'*a'.repeat(12)}*b` },
+      require: { nameMatches: '[A-Z]*' },
+    }]
+    const names = snapshot()
+    names.elements.push({ ...names.elements[0]!, id: 'long', name: 'a'.repeat(40) }, { ...names.elements[0]!, id: 'ab', name: `${'a'.repeat(12)}b` })
+    const started = performance.now()
+    const findings = evaluateAssurance(names, { rulePacks: [parseRulePack(pack)] }).findings
+      .filter((finding) => finding.ruleId === 'ACME-PART-NAMES')
+    expect(performance.now() - started).toBeLessThan(1_000)
+    expect(findings.map((finding) => finding.elementIds)).toEqual([['ab']])
+  })
+
+  it('rejects malformed packs and rule ids that collide with loaded rules', () => {
+    expect(() => parseRulePack({ ...standards(), schemaVersion: 2 })).toThrow('schemaVersion must be 1')
+    expect(() => parseRulePack({ ...standards(), version: 'latest' })).toThrow('major.minor.patch')
+    const invalidKind = standards()
+    invalidKind.rules[0]!.match = { kinds: ['Widget'] }
+    expect(() => parseRulePack(invalidKind)).toThrow('unsupported element kind')
+    const invalidPattern = standards()
+    invalidPattern.rules[0]!.require = { nameMatches: '[A-' }
+    expect(() => parseRulePack(invalidPattern)).toThrow('not a valid name pattern: Glob has an unterminated [ at 0')
+    const unbounded = standards()
+    unbounded.rules[1]!.require = { relationships: [{ kind: 'allocation' }] }
+    expect(() => parseRulePack(unbounded)).toThrow('must declare min or max')
+    const empty = standards()
+    empty.rules[0]!.require = {}
+    expect(() => parseRulePack(empty)).toThrow('at least one name, relationship, or path predicate')
+
+    const shadowing = standards()
+    shadowing.rules[0]!.id = 'REQ-UNSATISFIED'
+    expect(() => evaluateAssurance(snapshot(), { rulePacks: [parseRulePack(shadowing)] })).toThrow('reuses an already loaded rule id')
+    expect(() => evaluateAssurance(snapshot(), { rulePacks: [parseRulePack(standards()), parseRulePack(standards())] })).toThrow('loaded more than once')
+  })
+})
+
+function standards() {
+  return {
+    schemaVersion: 1,
+    id: 'acme/standards',
+    version: '2.0.0',
+    rules: [
+      {
+        id: 'ACME-PART-NAMES',
+        severity: 'minor',
+        domain: 'modeling',
+        statement: 'Part definition {qualifiedName} must use an upper-case name.',
+        remediation: 'Rename the part definition.',
+        match: { kinds: ['PartDefinition'] } as Record<string, unknown>,
+        require: { nameMatches: '[A-Z]*' } as Record<string, unknown>,
+      },
+      {
+        id: 'ACME-ALLOCATED',
+        severity: 'major',
+        domain: 'modeling',
+        statement: 'Physical part {name} has no logical allocation.',
+        remediation: 'Allocate a logical element to the part.',
+        match: { kinds: ['PartDefinition'] } as Record<string, unknown>,
+        require: { relationships: [{ kind: 'allocation', direction: 'inbound', min: 1 }] } as Record<string, unknown>,
+      },
+      {
+        id: 'ACME-TRACED-LOGICAL',
+        severity: 'advisory',
+        domain: 'requirement',
+        statement: 'Physical part {name} does not reach a requirement through its logical allocation.',
+        remediation: 'Satisfy a requirement from the allocated logical element.',
+        match: { kinds: ['PartDefinition'], nameMatches: '[eV]*' } as Record<string, unknown>,
+        require: {
+          paths: [{
+            steps: [{ kind: 'allocation', direction: 'inbound' }, { kind: 'satisfaction' }],
+            targetKinds: ['RequirementDefinition'],
+            min: 1,
+          }],
+        } as Record<string, unknown>,
+      },
+    ],
+  }
+}
+
+function snapshot(): SemanticSnapshot {
+  const element = (id: string, kind: SemanticSnapshot['elements'][number]['kind'], ownerId?: string) => ({
+    id, kind, rawKind: kind, name: id, qualifiedName: `Pilot::${id}`, ownerId,
+    source: { uri: 'file:///pilot/model.sysml', workspacePath: 'model.sysml', range: { start: { line: 0, character: 0 }, end: { line: 0, character: 4 } }, documentSha256: 'doc' },
+    fingerprint: `fingerprint-${id}`,
+    provenance: { authority: 'qualified-language-engine' as const, extraction: 'pilot-emf-semantic-evidence' as const, classification: 'engine-metaclass' as const, engineId: `engine-${id}` },
+  })
+  const relationship = (id: string, kind: SemanticSnapshot['relationships'][number]['kind'], sourceId: string, targetId: string) => ({
+    id, kind, sourceId, targetId,
+    provenance: { authority: 'qualified-language-engine' as const, extraction: 'pilot-emf-explicit-reference' as const, engineMetaclass: kind, features: [] },
+  })
+  return {
+    schemaVersion: 1,
+    snapshotSha256: 'snapshot',
+    workspace: { id: 'pilot', rootUri: 'file:///pilot', configurationName: 'default' },
+    authority: { adapterId: 'qualified', adapterVersion: '1', engineName: 'engine', engineVersion: '1', referenceRelease: '2026-05', qualificationStatus: 'qualified' },
+    freshness: 'current',
+    documents: [{ uri: 'file:///pilot/model.sysml', languageId: 'sysml', sha256: 'doc', byteLength: 100 }],
+    elements: [
+      element('package', 'Package'),
+      element('Vehicle', 'PartDefinition', 'package'),
+      element('engine', 'PartDefinition', 'package'),
+      element('logical', 'PartUsage', 'package'),
+      element('requirement', 'RequirementDefinition', 'package'),
+    ],
+    relationships: [
+      relationship('rel-allocate', 'allocation', 'logical', 'Vehicle'),
+      relationship('rel-satisfy', 'satisfaction', 'logical', 'requirement'),
+    ],
+  }
+}
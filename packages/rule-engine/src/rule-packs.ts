@@ -0,0 +1,334 @@
+import type {
+  NormalizedElementKind,
+  SemanticElement,
+  SemanticRelationship,
+  SemanticRelationshipKind,
+  SemanticSnapshot,
+} from '../../semantic-model/src/index.js'
+import {
+  NORMALIZED_ELEMENT_KINDS,
+  SEMANTIC_RELATIONSHIP_KINDS,
+} from '../../semantic-model/src/index.js'
+import { compileGlob } from '../../query-engine/src/index.js'
+import type { AssuranceDomain, AssuranceSeverity } from './index.js'
+
+export const USER_RULE_PACK_SCHEMA_VERSION = 1
+const MAX_RULES = 500
+const MAX_PATH_STEPS = 8
+const MAX_PATTERN_LENGTH = 256
+const MAX_TEXT_LENGTH = 2_048
+const IDENTIFIER = /^[A-Za-z0-9][A-Za-z0-9._/-]{0,127}$/
+const VERSION = /^\d+\.\d+\.\d+$/
+const SEVERITIES = new Set<string>(['critical', 'major', 'minor', 'advisory'])
+const DOMAINS = new Set<string>(['requirement', 'verification', 'interface', 'dependency', 'modeling'])
+const ELEMENT_KINDS = new Set<string>(NORMALIZED_ELEMENT_KINDS)
+const RELATIONSHIP_KINDS = new Set<string>(SEMANTIC_RELATIONSHIP_KINDS)
+
+export type RuleDirection = 'outbound' | 'inbound' | 'both'
+
+export interface UserRelationshipCount {
+  kind: SemanticRelationshipKind
+  direction?: RuleDirection
+  min?: number
+  max?: number
+}
+
+export interface UserQueryPath {
+  steps: Array<{ kind: SemanticRelationshipKind; direction?: RuleDirection }>
+  targetKinds?: NormalizedElementKind[]
+  min?: number
+  max?: number
+}
+
+export interface UserRule {
+  id: string
+  severity: AssuranceSeverity
+  domain: AssuranceDomain
+  statement: string
+  remediation: string
+  match: {
+    kinds?: NormalizedElementKind[]
+    nameMatches?: string
+  }
+  require: {
+    nameMatches?: string
+    relationships?: UserRelationshipCount[]
+    paths?: UserQueryPath[]
+  }
+}
+
+export interface UserRulePack {
+  schemaVersion: 1
+  id: string
+  version: string
+  rules: UserRule[]
+}
+
+export interface UserRuleViolation {
+  rule: UserRule
+  element: SemanticElement
+  relationshipIds: string[]
+  evidence: Array<[string, string | number | boolean]>
+}
+
+export function parseRulePack(value: unknown): UserRulePack {
+  if (!isRecord(value)) throw new Error('Rule pack must be an object')
+  if (value.schemaVersion !== USER_RULE_PACK_SCHEMA_VERSION) {
+    throw new Error(`Rule pack schemaVersion must be ${USER_RULE_PACK_SCHEMA_VERSION}`)
+  }
+  if (typeof value.id !== 'string' || !IDENTIFIER.test(value.id)) {
+    throw new Error('Rule pack id must be a short identifier')
+  }
+  if (typeof value.version !== 'string' || !VERSION.test(value.version)) {
+    throw new Error(`Rule pack ${value.id} version must be major.minor.patch`)
+  }
+  if (!Array.isArray(value.rules) || value.rules.length === 0 || value.rules.length > MAX_RULES) {
+    throw new Error(`Rule pack ${value.id} must declare 1 to ${MAX_RULES} rules`)
+  }
+  const packId = value.id
+  const rules = value.rules.map((rule) => parseRule(packId, rule))
+  const ids = new Set<string>()
+  for (const rule of rules) {
+    if (ids.has(rule.id)) throw new Error(`Rule pack ${packId} declares rule ${rule.id} more than once`)
+    ids.add(rule.id)
+  }
+  return { schemaVersion: 1, id: packId, version: value.version, rules }
+}
+
+export function evaluateRulePack(snapshot: SemanticSnapshot, pack: UserRulePack): UserRuleViolation[] {
+  const violations: UserRuleViolation[] = []
+  const relationships = relationshipIndex(snapshot)
+  for (const rule of pack.rules) {
+    const kinds = rule.match.kinds ? new Set<string>(rule.match.kinds) : undefined
+    const selector = rule.match.nameMatches ? namePattern(rule.match.nameMatches) : undefined
+    const required = rule.require.nameMatches ? namePattern(rule.require.nameMatches) : undefined
+    for (const element of snapshot.elements) {
+      if (kinds && !kinds.has(element.kind)) continue
+      if (selector && !selector(element.name)) continue
+      const evidence: UserRuleViolation['evidence'] = []
+      const relationshipIds: string[] = []
+      if (required && !required(element.name)) evidence.push(['nameMatches', false])
+      for (const count of rule.require.relationships ?? []) {
+        const direction = count.direction ?? 'outbound'
+        const matches = adjacent(relationships, element.id, direction)
+          .filter((relationship) => relationship.kind === count.kind)
+        if (outside(matches.length, count.min, count.max)) {
+          evidence.push([`relationships.${count.kind}.${direction}`, matches.length])
+          relationshipIds.push(...matches.map((relationship) => relationship.id))
+        }
+      }
+      for (const [index, path] of (rule.require.paths ?? []).entries()) {
+        const reached = followPath(relationships, element.id, path)
+        if (outside(reached, path.min, path.max)) evidence.push([`paths.${index}`, reached])
+      }
+      if (evidence.length > 0) violations.push({ rule, element, relationshipIds, evidence })
+    }
+  }
+  return violations
+}
+
+export function ruleStatement(template: string, element: SemanticElement): string {
+  return template
+    .replaceAll('{name}', element.name)
+    .replaceAll('{qualifiedName}', element.qualifiedName)
+    .replaceAll('{kind}', element.kind)
+}
+
+function parseRule(packId: string, value: unknown): UserRule {
+  if (!isRecord(value)) throw new Error(`Rule pack ${packId} contains a rule that is not an object`)
+  if (typeof value.id !== 'string' || !IDENTIFIER.test(value.id)) {
+    throw new Error(`Rule pack ${packId} contains a rule without a short identifier`)
+  }
+  const label = `Rule ${packId}/${value.id}`
+  if (typeof value.severity !== 'string' || !SEVERITIES.has(value.severity)) {
+    throw new Error(`${label} severity must be critical, major, minor, or advisory`)
+  }
+  if (typeof value.domain !== 'string' || !DOMAINS.has(value.domain)) {
+    throw new Error(`${label} domain is unsupported`)
+  }
+  const statement = text(value.statement, `${label} statement`)
+  const remediation = text(value.remediation, `${label} remediation`)
+  const match = value.match ?? {}
+  const require = value.require
+  if (!isRecord(match)) throw new Error(`${label} match must be an object`)
+  if (!isRecord(require)) throw new Error(`${label} require must be an object`)
+  const kinds = optionalKinds(match.kinds, `${label} match.kinds`)
+  const selector = optionalPattern(match.nameMatches, `${label} match.nameMatches`)
+  const nameMatches = optionalPattern(require.nameMatches, `${label} require.nameMatches`)
+  const relationships = optionalList(require.relationships, `${label} require.relationships`)
+    ?.map((count, index) => parseCount(count, `${label} require.relationships[${index}]`))
+  const paths = optionalList(require.paths, `${label} require.paths`)
+    ?.map((path, index) => parsePath(path, `${label} require.paths[${index}]`))
+  if (!nameMatches && !relationships?.length && !paths?.length) {
+    throw new Error(`${label} requires at least one name, relationship, or path predicate`)
+  }
+  return {
+    id: value.id,
+    severity: value.severity as AssuranceSeverity,
+    domain: value.domain as AssuranceDomain,
+    statement,
+    remediation,
+    match: { ...(kinds ? { kinds } : {}), ...(selector ? { nameMatches: selector } : {}) },
+    require: {
+      ...(nameMatches ? { nameMatches } : {}),
+      ...(relationships ? { relationships } : {}),
+      ...(paths ? { paths } : {}),
+    },
+  }
+}
+
+function parseCount(value: unknown, label: string): UserRelationshipCount {
+  if (!isRecord(value)) throw new Error(`${label} must be an object`)
+  const bounds = parseBounds(value, label)
+  return {
+    kind: relationshipKind(value.kind, `${label}.kind`),
+    direction: direction(value.direction, `${label}.direction`),
+    ...bounds,
+  }
+}
+
+function parsePath(value: unknown, label: string): UserQueryPath {
+  if (!isRecord(value)) throw new Error(`${label} must be an object`)
+  if (!Array.isArray(value.steps) || value.steps.length === 0 || value.steps.length > MAX_PATH_STEPS) {
+    throw new Error(`${label}.steps must contain 1 to ${MAX_PATH_STEPS} steps`)
+  }
+  const steps = value.steps.map((step, index) => {
+    if (!isRecord(step)) throw new Error(`${label}.steps[${index}] must be an object`)
+    return {
+      kind: relationshipKind(step.kind, `${label}.steps[${index}].kind`),
+      direction: direction(step.direction, `${label}.steps[${index}].direction`),
+    }
+  })
+  const targetKinds = optionalKinds(value.targetKinds, `${label}.targetKinds`)
+  return { steps, ...(targetKinds ? { targetKinds } : {}), ...parseBounds(value, label) }
+}
+
+function parseBounds(value: Record<string, unknown>, label: string): { min?: number; max?: number } {
+  for (const key of ['min', 'max'] as const) {
+    const bound = value[key]
+    if (bound !== undefined && (!Number.isInteger(bound) || (bound as number) < 0)) {
+      throw new Error(`${label}.${key} must be a non-negative integer`)
+    }
+  }
+  const min = value.min as number | undefined
+  const max = value.max as number | undefined
+  if (min === undefined && max === undefined) throw new Error(`${label} must declare min or max`)
+  if (min !== undefined && max !== undefined && min > max) throw new Error(`${label}.min exceeds max`)
+  return { ...(min !== undefined ? { min } : {}), ...(max !== undefined ? { max } : {}) }
+}
+
+interface RelationshipIndex {
+  elements: Map<string, SemanticElement>
+  outgoing: Map<string, SemanticRelationship[]>
+  incoming: Map<string, SemanticRelationship[]>
+  // Snapshot order, so relationships in both directions keep a stable order.
+  positions: Map<SemanticRelationship, number>
+}
+
+function relationshipIndex(snapshot: SemanticSnapshot): RelationshipIndex {
+  const index: RelationshipIndex = {
+    elements: new Map(snapshot.elements.map((element) => [element.id, element])),
+    outgoing: new Map(),
+    incoming: new Map(),
+    positions: new Map(),
+  }
+  for (const [position, relationship] of snapshot.relationships.entries()) {
+    const outgoing = index.outgoing.get(relationship.sourceId) ?? []
+    if (outgoing.length === 0) index.outgoing.set(relationship.sourceId, outgoing)
+    outgoing.push(relationship)
+    const incoming = index.incoming.get(relationship.targetId) ?? []
+    if (incoming.length === 0) index.incoming.set(relationship.targetId, incoming)
+    incoming.push(relationship)
+    index.positions.set(relationship, position)
+  }
+  return index
+}
+
+function adjacent(index: RelationshipIndex, elementId: string, direction: RuleDirection): SemanticRelationship[] {
+  const outgoing = index.outgoing.get(elementId) ?? []
+  const incoming = index.incoming.get(elementId) ?? []
+  if (direction === 'outbound') return outgoing
+  if (direction === 'inbound') return incoming
+  return [...outgoing, ...incoming.filter((relationship) => relationship.sourceId !== elementId)]
+    .sort((left, right) => index.positions.get(left)! - index.positions.get(right)!)
+}
+
+function followPath(index: RelationshipIndex, elementId: string, path: UserQueryPath): number {
+  let frontier = new Set([elementId])
+  for (const step of path.steps) {
+    const next = new Set<string>()
+    for (const id of frontier) {
+      for (const relationship of adjacent(index, id, step.direction ?? 'outbound')) {
+        if (relationship.kind !== step.kind) continue
+        next.add(relationship.sourceId === id ? relationship.targetId : relationship.sourceId)
+      }
+    }
+    frontier = next
+  }
+  frontier.delete(elementId)
+  if (!path.targetKinds) return frontier.size
+  const targetKinds = new Set<string>(path.targetKinds)
+  return [...frontier].filter((id) => {
+    const element = index.elements.get(id)
+    return element !== undefined && targetKinds.has(element.kind)
+  }).length
+}
+
+function outside(count: number, min?: number, max?: number): boolean {
+  return (min !== undefined && count < min) || (max !== undefined && count > max)
+}
+
+function relationshipKind(value: unknown, label: string): SemanticRelationshipKind {
+  if (typeof value !== 'string' || !RELATIONSHIP_KINDS.has(value)) throw new Error(`${label} is not a relationship kind`)
+  return value as SemanticRelationshipKind
+}
+
+function direction(value: unknown, label: string): RuleDirection {
+  if (value === undefined) return 'outbound'
+  if (value !== 'outbound' && value !== 'inbound' && value !== 'both') throw new Error(`${label} must be outbound, inbound, or both`)
+  return value
+}
+
+function optionalKinds(value: unknown, label: string): NormalizedElementKind[] | undefined {
+  const kinds = optionalList(value, label)
+  if (kinds?.some((kind) => typeof kind !== 'string' || !ELEMENT_KINDS.has(kind))) {
+    throw new Error(`${label} contains an unsupported element kind`)
+  }
+  return kinds as NormalizedElementKind[] | undefined
+}
+
+function optionalPattern(value: unknown, label: string): string | undefined {
+  if (value === undefined) return undefined
+  if (typeof value !== 'string' || value.length === 0 || value.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`${label} must be a non-empty pattern of at most ${MAX_PATTERN_LENGTH} characters`)
+  }
+  try {
+    namePattern(value)
+  } catch (error) {
+    throw new Error(`${label} is not a valid name pattern: ${(error as Error).message}`, { cause: error })
+  }
+  return value
+}
+
+// Glob patterns rather than regular expressions: a pack comes from the
+// workspace, and a glob cannot backtrack catastrophically on any name.
+function namePattern(pattern: string) {
+  return compileGlob(pattern, { caseSensitive: true })
+}
+
+function optionalList(value: unknown, label: string): unknown[] | undefined {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value)) throw new Error(`${label} must be an array`)
+  return value
+}
+
+function text(value: unknown, label: string): string {
+  if (typeof value !== 'string' || value.trim().length === 0 || value.length > MAX_TEXT_LENGTH) {
+    throw new Error(`${label} must be non-empty text of at most ${MAX_TEXT_LENGTH} characters`)
+  }
+  return value.trim()
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
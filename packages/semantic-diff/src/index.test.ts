@@ -1,6 +1,11 @@
 // @vitest-environment node
 import { describe, expect, it } from 'vitest'
-import type { SemanticElement, SemanticSnapshot } from '../../semantic-model/src/index.js'
+import type {
+  SemanticElement,
+  SemanticRelationship,
+  SemanticRelationshipKind,
+  SemanticSnapshot,
+} from '../../semantic-model/src/index.js'
 import { compareSemanticSnapshots } from './index.js'
 
 describe('identity-aware semantic diff', () => {
@@ -16,6 +21,17 @@ describe('identity-aware semantic diff', () => {
       change.kind === 'element-created' || change.kind === 'element-deleted',
     )).toBe(false)
   })
+
+  it('reports allocation and inheritance relationship changes by kind', () => {
+    const before = snapshot(element('Vehicle', 'model/vehicle.sysml'))
+    before.relationships.push(relationship('rel:allocate', 'allocation'))
+    const after = snapshot(element('Vehicle', 'model/vehicle.sysml'), 'after')
+    after.relationships.push(relationship('rel:specialize', 'specialization'))
+    expect(compareSemanticSnapshots(before, after).changes).toMatchObject([
+      { kind: 'relationship-deleted', relationshipId: 'rel:allocate', relationshipKind: 'allocation' },
+      { kind: 'relationship-created', relationshipId: 'rel:specialize', relationshipKind: 'specialization' },
+    ])
+  })
 })
 
 function snapshot(value: SemanticElement, hash = 'before'): SemanticSnapshot {
@@ -60,3 +76,18 @@ function element(name: string, workspacePath: string): SemanticElement {
     },
   }
 }
+
+function relationship(id: string, kind: SemanticRelationshipKind): SemanticRelationship {
+  return {
+    id,
+    kind,
+    sourceId: 'wb:sample:durable',
+    targetId: 'wb:sample:other',
+    provenance: {
+      authority: 'qualified-language-engine',
+      extraction: 'pilot-emf-explicit-reference',
+      engineMetaclass: kind === 'allocation' ? 'AllocationUsage' : 'Subclassification',
+      features: [],
+    },
+  }
+}
@@ -1,6 +1,7 @@
 import type {
   SemanticElement,
   SemanticRelationship,
+  SemanticRelationshipKind,
   SemanticSnapshot,
 } from '../../semantic-model/src/index.js'
 
@@ -18,6 +19,7 @@ export interface SemanticChange {
   kind: SemanticChangeKind
   elementId?: string
   relationshipId?: string
+  relationshipKind?: SemanticRelationshipKind
   before?: SemanticElement | SemanticRelationship
   after?: SemanticElement | SemanticRelationship
 }
@@ -83,12 +85,14 @@ function compareRelationships(
       changes.push({
         kind: 'relationship-created',
         relationshipId: id,
+        relationshipKind: afterRelationship.kind,
         after: afterRelationship,
       })
     } else if (beforeRelationship && !afterRelationship) {
       changes.push({
         kind: 'relationship-deleted',
         relationshipId: id,
+        relationshipKind: beforeRelationship.kind,
         before: beforeRelationship,
       })
     }
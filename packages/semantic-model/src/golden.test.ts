@@ -10,8 +10,19 @@ import {
   buildSemanticSnapshot,
   IdentityRegistry,
   SEMANTIC_RELATIONSHIP_KINDS,
+  type SemanticRelationshipKind,
 } from './index.js'
 
+// The Phase 2 source declares no specializations, redefinitions of public
+// features, subsettings, allocations, or bindings; index.test covers those.
+const POST_PHASE2_KINDS = new Set<SemanticRelationshipKind>([
+  'specialization',
+  'redefinition',
+  'subsetting',
+  'allocation',
+  'binding',
+])
+
 const repositoryRoot = resolve(import.meta.dirname, '../../..')
 const fixtureRoot = resolve(repositoryRoot, 'fixtures/workspaces/phase2-semantic')
 const sourcePaths = [
@@ -89,7 +100,7 @@ describe('mandatory Phase 2 semantic golden', () => {
       identities: IdentityRegistry.empty('phase2-semantic'),
     })
     expect(new Set(snapshot.relationships.map((relationship) => relationship.kind))).toEqual(
-      new Set(SEMANTIC_RELATIONSHIP_KINDS),
+      new Set(SEMANTIC_RELATIONSHIP_KINDS.filter((kind) => !POST_PHASE2_KINDS.has(kind))),
     )
     expect(snapshot.relationships.filter((relationship) =>
       relationship.kind === 'verification',
@@ -11,11 +11,21 @@ export interface IdentityAlias {
   commandId: string
 }
 
+// An identifier another tool uses for the element, such as a ReqIF
+// SpecObject IDENTIFIER. It is recorded here, not in source, so it survives
+// renames and moves like the durable identity itself.
+export interface IdentityExternalAlias {
+  scheme: string
+  identifier: string
+  commandId: string
+}
+
 export interface IdentityRecord {
   id: string
   locator: IdentityLocator
   fingerprint: string
   aliases: IdentityAlias[]
+  externalAliases?: IdentityExternalAlias[]
   status: 'active' | 'tombstone'
   generation: number
 }
@@ -183,6 +193,22 @@ export class IdentityRegistry {
     return structuredClone(record)
   }
 
+  // Keeps an active identity whose locator and fingerprint are unchanged
+  // without reconciling it again; false means the caller must resolve it.
+  retain(id: string, locator: IdentityLocator, fingerprint: string): boolean {
+    const record = this.recordsById.get(id)
+    if (
+      !record ||
+      record.status !== 'active' ||
+      record.fingerprint !== fingerprint ||
+      locatorKey(record.locator) !== locatorKey(locator)
+    ) {
+      return false
+    }
+    this.markSeen(record)
+    return true
+  }
+
   migrate(
     id: string,
     nextLocator: IdentityLocator,
@@ -219,6 +245,46 @@ export class IdentityRegistry {
     return structuredClone(record)
   }
 
+  // Binds an external identifier to an active identity. A record holds one
+  // identifier per scheme; binding another replaces it.
+  bindExternalAlias(
+    id: string,
+    scheme: string,
+    identifier: string,
+    commandId: string,
+  ): IdentityRecord {
+    const record = this.recordsById.get(id)
+    if (!record || record.status !== 'active') {
+      throw new Error(`Unknown active durable model identity: ${id}`)
+    }
+    validateBoundedString(scheme, 'external alias scheme')
+    validateBoundedString(identifier, 'external alias identifier')
+    validateBoundedString(commandId, 'commandId')
+    const holder = this.resolveExternalAlias(scheme, identifier)
+    if (holder && holder !== id) {
+      throw new Error(`External alias ${scheme}:${identifier} is already assigned to ${holder}`)
+    }
+    if (holder === id) return structuredClone(record)
+    record.externalAliases = [
+      ...(record.externalAliases ?? []).filter((alias) => alias.scheme !== scheme),
+      { scheme, identifier, commandId },
+    ]
+    this.changed = true
+    return structuredClone(record)
+  }
+
+  resolveExternalAlias(scheme: string, identifier: string): string | undefined {
+    return this.data.records.find((record) =>
+      record.status === 'active' &&
+      record.externalAliases?.some((alias) =>
+        alias.scheme === scheme && alias.identifier === identifier))?.id
+  }
+
+  externalAlias(id: string, scheme: string): string | undefined {
+    return this.recordsById.get(id)?.externalAliases
+      ?.find((alias) => alias.scheme === scheme)?.identifier
+  }
+
   anchorState(id: string): 'resolved' | 'stale' | 'missing' {
     const record = this.recordsById.get(id)
     if (!record) return 'missing'
@@ -370,6 +436,19 @@ function validateRegistryData(data: IdentityRegistryData): void {
         throw new Error(`Invalid identity alias for ${record.id}`)
       }
     }
+    if (record.externalAliases === undefined) continue
+    if (!Array.isArray(record.externalAliases)) {
+      throw new Error(`Invalid identity external aliases for ${record.id}`)
+    }
+    for (const alias of record.externalAliases) {
+      if (
+        !isBoundedString(alias.scheme) ||
+        !isBoundedString(alias.identifier) ||
+        !isBoundedString(alias.commandId)
+      ) {
+        throw new Error(`Invalid identity external alias for ${record.id}`)
+      }
+    }
   }
   for (const receipt of data.receipts) {
     if (
@@ -8,6 +8,7 @@ import type { EngineSemanticEvidence } from '../../language-adapter/src/index.js
 import {
   buildSemanticSnapshot,
   IdentityRegistry,
+  snapshotChange,
   type IdentityLocator,
   type SnapshotInput,
 } from './index.js'
@@ -54,6 +55,107 @@ describe('normalized semantic snapshot', () => {
     )).toBe(true)
   })
 
+  it('normalizes inheritance, allocation, binding, and dependency relationships', () => {
+    const document = workspaceDocument(
+      'package Sample { part def Vehicle; part def Car :> Vehicle; allocate logical to physical; }',
+    )
+    const evidence: EngineSemanticEvidence = {
+      schemaVersion: 1,
+      uri: document.uri,
+      elements: [
+        engineElement('package', 'Package', 'Sample'),
+        engineElement('vehicle', 'PartDefinition', 'Sample::Vehicle'),
+        engineElement('car', 'PartDefinition', 'Sample::Car'),
+        engineElement('mass', 'AttributeUsage', 'Sample::Vehicle::mass'),
+        engineElement('car-mass', 'AttributeUsage', 'Sample::Car::mass'),
+        engineElement('logical', 'PartUsage', 'Sample::logical'),
+        engineElement('physical', 'PartUsage', 'Sample::physical'),
+        engineElement('subclassification', 'Subclassification'),
+        engineElement('redefinition', 'Redefinition'),
+        engineElement('subsetting', 'Subsetting'),
+        engineElement('dependency', 'Dependency'),
+        engineElement('allocation', 'AllocationUsage', 'Sample::logicalToPhysical'),
+        { ...engineElement('allocation-source', 'ReferenceUsage'), ownerEngineId: 'allocation' },
+        { ...engineElement('allocation-target', 'ReferenceUsage'), ownerEngineId: 'allocation' },
+        { ...engineElement('source-subsetting', 'ReferenceSubsetting'), ownerEngineId: 'allocation-source' },
+        { ...engineElement('target-subsetting', 'ReferenceSubsetting'), ownerEngineId: 'allocation-target' },
+        engineElement('binding', 'BindingConnectorAsUsage'),
+        { ...engineElement('binding-source', 'ReferenceUsage'), ownerEngineId: 'binding' },
+        { ...engineElement('binding-target', 'ReferenceUsage'), ownerEngineId: 'binding' },
+        { ...engineElement('binding-source-subsetting', 'ReferenceSubsetting'), ownerEngineId: 'binding-source' },
+        { ...engineElement('binding-target-subsetting', 'ReferenceSubsetting'), ownerEngineId: 'binding-target' },
+      ],
+      relationships: [
+        engineRelationship('subclassification', 'car', 'subclassifier'),
+        engineRelationship('subclassification', 'vehicle', 'superclassifier'),
+        engineRelationship('redefinition', 'car-mass', 'redefiningFeature'),
+        engineRelationship('redefinition', 'mass', 'redefinedFeature'),
+        engineRelationship('subsetting', 'physical', 'subsettingFeature'),
+        engineRelationship('subsetting', 'car-mass', 'subsettedFeature'),
+        engineRelationship('dependency', 'car', 'client'),
+        engineRelationship('dependency', 'vehicle', 'supplier'),
+        engineRelationship('source-subsetting', 'allocation-source', 'referencingFeature'),
+        engineRelationship('source-subsetting', 'logical', 'referencedFeature'),
+        engineRelationship('target-subsetting', 'allocation-target', 'referencingFeature'),
+        engineRelationship('target-subsetting', 'physical', 'referencedFeature'),
+        engineRelationship('binding-source-subsetting', 'binding-source', 'referencingFeature'),
+        engineRelationship('binding-source-subsetting', 'mass', 'referencedFeature'),
+        engineRelationship('binding-target-subsetting', 'binding-target', 'referencingFeature'),
+        engineRelationship('binding-target-subsetting', 'car-mass', 'referencedFeature'),
+      ],
+    }
+    const result = buildSemanticSnapshot({
+      ...snapshotInput(document, IdentityRegistry.empty('sample')),
+      evidence: new Map([[document.uri, evidence]]),
+    })
+    const nameOf = (id: string) => result.elements.find((element) => element.id === id)?.qualifiedName
+    expect(result.relationships
+      .map((relationship) => [relationship.kind, nameOf(relationship.sourceId), nameOf(relationship.targetId)])
+      .sort()).toEqual([
+      ['allocation', 'Sample::logical', 'Sample::physical'],
+      ['binding', 'Sample::Vehicle::mass', 'Sample::Car::mass'],
+      ['dependency', 'Sample::Car', 'Sample::Vehicle'],
+      ['redefinition', 'Sample::Car::mass', 'Sample::Vehicle::mass'],
+      ['specialization', 'Sample::Car', 'Sample::Vehicle'],
+      ['subsetting', 'Sample::physical', 'Sample::Car::mass'],
+    ])
+    expect(result.elements.find((element) => element.name === 'logicalToPhysical')?.kind).toBe('AllocationUsage')
+    const again = buildSemanticSnapshot({
+      ...snapshotInput(document, IdentityRegistry.empty('sample')),
+      evidence: new Map([[document.uri, evidence]]),
+    })
+    expect(again.relationships.map((relationship) => relationship.id))
+      .toEqual(result.relationships.map((relationship) => relationship.id))
+  })
+
+  it('classifies use case, enumeration, calculation, concern, view, and occurrence metaclasses', () => {
+    const document = workspaceDocument('package Sample { use case def Drive; concern def Safety; }')
+    const metaclasses = [
+      'UseCaseDefinition',
+      'EnumerationDefinition',
+      'CalculationDefinition',
+      'ConcernUsage',
+      'ViewDefinition',
+      'ViewpointUsage',
+      'AllocationDefinition',
+      'OccurrenceDefinition',
+    ]
+    const evidence: EngineSemanticEvidence = {
+      schemaVersion: 1,
+      uri: document.uri,
+      elements: metaclasses.map((metaclass) =>
+        engineElement(metaclass, metaclass, `Sample::${metaclass}`),
+      ),
+      relationships: [],
+    }
+    const result = buildSemanticSnapshot({
+      ...snapshotInput(document, IdentityRegistry.empty('sample')),
+      evidence: new Map([[document.uri, evidence]]),
+    })
+    expect(result.elements.map((element) => [element.rawKind, element.kind, element.provenance.classification]).sort())
+      .toEqual(metaclasses.map((metaclass) => [metaclass, metaclass, 'engine-metaclass']).sort())
+  })
+
   it('keeps identities stable through formatting and line movement', () => {
     const registry = IdentityRegistry.empty('sample')
     const first = snapshot(
@@ -119,6 +221,160 @@ describe('normalized semantic snapshot', () => {
     expect(first.snapshotSha256).toBe(second.snapshotSha256)
   })
 
+  it('carries typed feature direction, multiplicity, value, and unit evidence', () => {
+    const document = workspaceDocument(
+      'package Sample { port def Power { out attribute voltage[1..*] = 12.5 [V]; } }',
+    )
+    const evidence: EngineSemanticEvidence = {
+      schemaVersion: 1,
+      uri: document.uri,
+      elements: [
+        engineElement('package', 'Package', 'Sample'),
+        engineElement('port', 'PortDefinition', 'Sample::Power'),
+        {
+          ...engineElement('voltage', 'AttributeUsage', 'Sample::Power::voltage'),
+          direction: 'out',
+          multiplicity: { lower: 1, upper: '*' },
+          value: { kind: 'real', text: '12.5   [V]', literal: 12.5 },
+          unit: 'V',
+        },
+      ],
+      relationships: [],
+    }
+    const result = buildSemanticSnapshot({
+      ...snapshotInput(document, IdentityRegistry.empty('sample')),
+      evidence: new Map([[document.uri, evidence]]),
+    })
+    expect(result.elements.find((element) => element.name === 'voltage')?.feature).toEqual({
+      direction: 'out',
+      multiplicity: { lower: 1, upper: '*' },
+      value: { kind: 'real', text: '12.5 [V]', literal: 12.5 },
+      unit: 'V',
+    })
+    expect(result.elements.find((element) => element.name === 'Power')).not.toHaveProperty('feature')
+
+    const reversed = structuredClone(evidence)
+    reversed.elements[2]!.multiplicity = { lower: 3, upper: 2 }
+    expect(() => buildSemanticSnapshot({
+      ...snapshotInput(document, IdentityRegistry.empty('sample')),
+      evidence: new Map([[document.uri, reversed]]),
+    })).toThrow('invalid feature multiplicity')
+  })
+
+  it('types conjugated ports by their original port definition', () => {
+    const document = workspaceDocument(
+      'package Sample { port def Power; part def Vehicle { port supply : Power; port demand : ~Power; } }',
+    )
+    const evidence: EngineSemanticEvidence = {
+      schemaVersion: 1,
+      uri: document.uri,
+      elements: [
+        engineElement('package', 'Package', 'Sample'),
+        engineElement('power', 'PortDefinition', 'Sample::Power'),
+        { ...engineElement('conjugated', 'ConjugatedPortDefinition', "Sample::Power::'~Power'"), ownerEngineId: 'power' },
+        { ...engineElement('conjugation', 'PortConjugation'), ownerEngineId: 'conjugated' },
+        engineElement('vehicle', 'PartDefinition', 'Sample::Vehicle'),
+        engineElement('supply', 'PortUsage', 'Sample::Vehicle::supply'),
+        engineElement('demand', 'PortUsage', 'Sample::Vehicle::demand'),
+        engineElement('supply-typing', 'FeatureTyping'),
+        engineElement('demand-typing', 'FeatureTyping'),
+      ],
+      relationships: [
+        engineRelationship('conjugation', 'conjugated', 'conjugatedType'),
+        engineRelationship('conjugation', 'power', 'originalPortDefinition'),
+        engineRelationship('supply-typing', 'supply', 'typedFeature'),
+        engineRelationship('supply-typing', 'power', 'type'),
+        engineRelationship('demand-typing', 'demand', 'typedFeature'),
+        engineRelationship('demand-typing', 'conjugated', 'type'),
+      ],
+    }
+    const result = buildSemanticSnapshot({
+      ...snapshotInput(document, IdentityRegistry.empty('sample')),
+      evidence: new Map([[document.uri, evidence]]),
+    })
+    const byName = (name: string) => result.elements.find((element) => element.name === name)!
+    expect(result.elements.some((element) => element.rawKind === 'ConjugatedPortDefinition')).toBe(false)
+    expect(result.relationships
+      .filter((relationship) => relationship.kind === 'typing')
+      .map((relationship) => [relationship.sourceId, relationship.targetId])
+      .sort()).toEqual([[byName('demand').id, byName('Power').id], [byName('supply').id, byName('Power').id]].sort())
+    expect(byName('demand').feature).toEqual({ conjugated: true })
+    expect(byName('supply')).not.toHaveProperty('feature')
+  })
+
+  it('reuses unchanged documents and matches a full rebuild after a change', () => {
+    const vehicle = workspaceDocument('package Vehicles {\n    part def Vehicle;\n}\n')
+    const engine = {
+      ...workspaceDocument('package Engines {\n    part def Engine;\n}\n'),
+      uri: pathToFileURL(resolve(root, 'model/engine.sysml')).href,
+    }
+    const changed = {
+      ...engine,
+      text: 'package Engines {\n    part def Engine;\n    part def Pump;\n}\n',
+      sha256: 'sha-changed',
+    }
+    const vehicleEvidence = evidenceFromSymbol(
+      symbol(0, 0, 2, 1, [symbol(1, 4, 1, 21, [], 'Vehicles.Vehicle')], 'Vehicles'),
+      vehicle,
+    )
+    const build = (
+      documents: WorkspaceDocument[],
+      identities: IdentityRegistry,
+      previous?: SnapshotInput['previous'],
+    ) => {
+      const base = snapshotInput(documents[0]!, identities)
+      return buildSemanticSnapshot({
+        ...base,
+        status: {
+          ...base.status,
+          documentCount: documents.length,
+          documents: documents.map((document) => ({
+            uri: document.uri,
+            languageId: 'sysml',
+            sha256: document.sha256,
+            byteLength: Buffer.byteLength(document.text),
+          })),
+        },
+        documents,
+        evidence: new Map([
+          [vehicle.uri, vehicleEvidence],
+          [engine.uri, prefixedEvidence(evidenceFromSymbol(
+            documents[1] === changed
+              ? symbol(0, 0, 3, 1, [
+                  symbol(1, 4, 1, 20, [], 'Engines.Engine'),
+                  symbol(2, 4, 2, 18, [], 'Engines.Pump'),
+                ], 'Engines')
+              : symbol(0, 0, 2, 1, [symbol(1, 4, 1, 20, [], 'Engines.Engine')], 'Engines'),
+            documents[1]!,
+          ), 'engine')],
+        ]),
+        ...(previous ? { previous } : {}),
+      })
+    }
+    const registry = IdentityRegistry.empty('sample')
+    const first = build([vehicle, engine], registry)
+    const incrementalIdentities = new IdentityRegistry(registry.serialize())
+    const fullIdentities = new IdentityRegistry(registry.serialize())
+    const incremental = build([vehicle, changed], incrementalIdentities, {
+      snapshot: first,
+      changedUris: new Set([engine.uri]),
+    })
+    const full = build([vehicle, changed], fullIdentities)
+
+    expect(incremental.snapshotSha256).toBe(full.snapshotSha256)
+    expect(incremental).toEqual(full)
+    expect(incrementalIdentities.serialize()).toEqual(fullIdentities.serialize())
+    const reused = (name: string) =>
+      incremental.elements.find((element) => element.qualifiedName === name) ===
+      first.elements.find((element) => element.qualifiedName === name)
+    expect(reused('Vehicles::Vehicle')).toBe(true)
+    expect(reused('Engines::Engine')).toBe(false)
+    expect(snapshotChange(first, incremental)).toMatchObject({
+      qualifiedNames: new Set(['Engines', 'Engines::Engine', 'Engines::Pump']),
+      topLevel: true,
+    })
+  })
+
   it('fails closed on invalid engine ranges and ambiguous semantic locators', () => {
     expect(() =>
       snapshot(
@@ -235,6 +491,38 @@ describe('identity registry', () => {
     ])
   })
 
+  it('keeps one external alias per scheme through renames and persistence', () => {
+    const registry = IdentityRegistry.empty('sample')
+    const first = registry.resolve({
+      workspacePath: 'model/requirements.sysml',
+      qualifiedName: 'Sample::maxSpeed',
+      kind: 'RequirementUsage',
+    }, 'before')
+    const other = registry.resolve({
+      workspacePath: 'model/requirements.sysml',
+      qualifiedName: 'Sample::range',
+      kind: 'RequirementUsage',
+    }, 'other')
+    registry.bindExternalAlias(first.id, 'reqif', 'REQ-1', 'CMD-IMPORT-001')
+    registry.migrate(first.id, {
+      workspacePath: 'model/requirements.sysml',
+      qualifiedName: 'Sample::topSpeed',
+      kind: 'RequirementUsage',
+    }, 'after', 'CMD-RENAME-001')
+    expect(registry.resolveExternalAlias('reqif', 'REQ-1')).toBe(first.id)
+    expect(() => registry.bindExternalAlias(other.id, 'reqif', 'REQ-1', 'CMD-IMPORT-002'))
+      .toThrow(`External alias reqif:REQ-1 is already assigned to ${first.id}`)
+
+    registry.bindExternalAlias(first.id, 'reqif', 'REQ-7', 'CMD-IMPORT-003')
+    const restored = new IdentityRegistry(registry.serialize())
+    expect(restored.externalAlias(first.id, 'reqif')).toBe('REQ-7')
+    expect(restored.resolveExternalAlias('reqif', 'REQ-1')).toBeUndefined()
+    expect(() => new IdentityRegistry({
+      ...registry.serialize(),
+      records: [{ ...registry.serialize().records[0]!, externalAliases: [{ scheme: 'reqif' }] }],
+    } as never)).toThrow('Invalid identity external alias')
+  })
+
   it('rejects duplicate persisted identities and locators', () => {
     const locator: IdentityLocator = {
       workspacePath: 'model/vehicle.sysml',
@@ -383,6 +671,26 @@ function evidenceFromSymbol(
   }
 }
 
+function prefixedEvidence(
+  evidence: EngineSemanticEvidence,
+  prefix: string,
+): EngineSemanticEvidence {
+  const rename = (id: string | undefined) => id && `${prefix}-${id}`
+  return {
+    ...evidence,
+    elements: evidence.elements.map((element) => ({
+      ...element,
+      engineId: rename(element.engineId)!,
+      ownerEngineId: rename(element.ownerEngineId),
+    })),
+    relationships: evidence.relationships.map((relationship) => ({
+      ...relationship,
+      sourceEngineId: rename(relationship.sourceEngineId)!,
+      targetEngineId: rename(relationship.targetEngineId),
+    })),
+  }
+}
+
 function engineElement(
   engineId: string,
   metaclass: string,
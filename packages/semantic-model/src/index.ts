@@ -6,6 +6,9 @@ import type {
   WorkspaceStatusResult,
 } from '../../workbench-protocol/src/index.js'
 import type {
+  EngineFeatureDirection,
+  EngineFeatureValueEvidence,
+  EngineMultiplicityEvidence,
   EngineSemanticElementEvidence,
   EngineSemanticEvidence,
   EngineSemanticRelationshipEvidence,
@@ -52,6 +55,22 @@ export type NormalizedElementKind =
   | 'AnalysisUsage'
   | 'MetadataDefinition'
   | 'MetadataUsage'
+  | 'UseCaseDefinition'
+  | 'UseCaseUsage'
+  | 'EnumerationDefinition'
+  | 'EnumerationUsage'
+  | 'CalculationDefinition'
+  | 'CalculationUsage'
+  | 'ConcernDefinition'
+  | 'ConcernUsage'
+  | 'ViewDefinition'
+  | 'ViewUsage'
+  | 'ViewpointDefinition'
+  | 'ViewpointUsage'
+  | 'AllocationDefinition'
+  | 'AllocationUsage'
+  | 'OccurrenceDefinition'
+  | 'OccurrenceUsage'
   | 'OpaqueElement'
 
 export const NORMALIZED_ELEMENT_KINDS: readonly NormalizedElementKind[] = [
@@ -85,6 +104,22 @@ export const NORMALIZED_ELEMENT_KINDS: readonly NormalizedElementKind[] = [
   'AnalysisUsage',
   'MetadataDefinition',
   'MetadataUsage',
+  'UseCaseDefinition',
+  'UseCaseUsage',
+  'EnumerationDefinition',
+  'EnumerationUsage',
+  'CalculationDefinition',
+  'CalculationUsage',
+  'ConcernDefinition',
+  'ConcernUsage',
+  'ViewDefinition',
+  'ViewUsage',
+  'ViewpointDefinition',
+  'ViewpointUsage',
+  'AllocationDefinition',
+  'AllocationUsage',
+  'OccurrenceDefinition',
+  'OccurrenceUsage',
   'OpaqueElement',
 ]
 
@@ -97,6 +132,11 @@ export type SemanticRelationshipKind =
   | 'connection'
   | 'flow'
   | 'interface'
+  | 'specialization'
+  | 'redefinition'
+  | 'subsetting'
+  | 'allocation'
+  | 'binding'
 
 export const SEMANTIC_RELATIONSHIP_KINDS: readonly SemanticRelationshipKind[] = [
   'containment',
@@ -107,6 +147,11 @@ export const SEMANTIC_RELATIONSHIP_KINDS: readonly SemanticRelationshipKind[] =
   'connection',
   'flow',
   'interface',
+  'specialization',
+  'redefinition',
+  'subsetting',
+  'allocation',
+  'binding',
 ]
 
 export interface SemanticSource {
@@ -116,6 +161,14 @@ export interface SemanticSource {
   documentSha256: string
 }
 
+export interface SemanticFeature {
+  direction?: EngineFeatureDirection
+  multiplicity?: EngineMultiplicityEvidence
+  value?: EngineFeatureValueEvidence
+  unit?: string
+  conjugated?: true
+}
+
 export interface SemanticElement {
   id: string
   kind: NormalizedElementKind
@@ -125,6 +178,7 @@ export interface SemanticElement {
   ownerId?: string
   source: SemanticSource
   fingerprint: string
+  feature?: SemanticFeature
   provenance: {
     authority: 'qualified-language-engine'
     extraction: 'pilot-emf-semantic-evidence'
@@ -168,6 +222,10 @@ export interface SnapshotInput {
   evidence: Map<string, EngineSemanticEvidence>
   identities: IdentityRegistry
   freshness?: SemanticSnapshot['freshness']
+  previous?: {
+    snapshot: SemanticSnapshot
+    changedUris: ReadonlySet<string>
+  }
 }
 
 interface RawElement {
@@ -207,6 +265,28 @@ const METACLASS_KIND: Readonly<Record<string, NormalizedElementKind>> = {
   AnalysisCaseUsage: 'AnalysisUsage',
   MetadataDefinition: 'MetadataDefinition',
   MetadataUsage: 'MetadataUsage',
+  UseCaseDefinition: 'UseCaseDefinition',
+  UseCaseUsage: 'UseCaseUsage',
+  EnumerationDefinition: 'EnumerationDefinition',
+  EnumerationUsage: 'EnumerationUsage',
+  CalculationDefinition: 'CalculationDefinition',
+  CalculationUsage: 'CalculationUsage',
+  ConcernDefinition: 'ConcernDefinition',
+  ConcernUsage: 'ConcernUsage',
+  ViewDefinition: 'ViewDefinition',
+  ViewUsage: 'ViewUsage',
+  ViewpointDefinition: 'ViewpointDefinition',
+  ViewpointUsage: 'ViewpointUsage',
+  AllocationDefinition: 'AllocationDefinition',
+  AllocationUsage: 'AllocationUsage',
+  OccurrenceDefinition: 'OccurrenceDefinition',
+  OccurrenceUsage: 'OccurrenceUsage',
+}
+
+const CONNECTOR_RELATIONSHIP_KIND: Readonly<Record<string, SemanticRelationshipKind>> = {
+  AllocationUsage: 'allocation',
+  BindingConnectorAsUsage: 'binding',
+  BindingConnector: 'binding',
 }
 
 const INFRASTRUCTURE_METACLAS = new Set([
@@ -254,6 +334,26 @@ function buildSemanticSnapshotWithinReconciliation(input: SnapshotInput): Semant
     )
   }
 
+  // A port typed by `~Def` is typed by Def's implicit conjugated definition,
+  // which is not public; type it by Def and mark the port as conjugated.
+  const conjugatedOriginals = new Map<string, string>()
+  for (const [engineId, raw] of rawById) {
+    if (raw.evidence.metaclass !== 'PortConjugation') continue
+    const refs = relationshipsBySource.get(engineId) ?? []
+    const conjugated = targetForFeature(refs, 'conjugatedType') ?? raw.evidence.ownerEngineId
+    const original = targetForFeature(refs, 'originalPortDefinition') ?? targetForFeature(refs, 'originalType')
+    if (conjugated && original) conjugatedOriginals.set(conjugated, original)
+  }
+  const conjugatedPorts = new Set<string>()
+  for (const [engineId, raw] of rawById) {
+    if (raw.evidence.metaclass !== 'FeatureTyping') continue
+    const refs = relationshipsBySource.get(engineId) ?? []
+    const typeId = targetForFeature(refs, 'type') ?? targetForFeature(refs, 'general')
+    const typedId = targetForFeature(refs, 'typedFeature') ?? targetForFeature(refs, 'specific')
+    if (typeId && typedId && conjugatedOriginals.has(typeId)) conjugatedPorts.add(typedId)
+  }
+
+  const reusable = reusableElements(input)
   const semanticByEngineId = new Map<string, SemanticElement>()
   const seenLocators = new Set<string>()
   for (const raw of publicRaw) {
@@ -270,6 +370,21 @@ function buildSemanticSnapshotWithinReconciliation(input: SnapshotInput): Semant
     const owner = ownerEngineId
       ? semanticByEngineId.get(ownerEngineId)
       : undefined
+    const previous = reusable.get(evidence.engineId)
+    if (
+      previous &&
+      previous.element.source.uri === document.uri &&
+      previous.element.source.documentSha256 === document.sha256 &&
+      previous.element.ownerId === owner?.id &&
+      previous.ownerQualifiedName === owner?.qualifiedName &&
+      previous.element.feature?.conjugated === (conjugatedPorts.has(evidence.engineId) || undefined) &&
+      !seenLocators.has(stableJson(identityLocator(previous.element))) &&
+      input.identities.retain(previous.element.id, identityLocator(previous.element), previous.element.fingerprint)
+    ) {
+      seenLocators.add(stableJson(identityLocator(previous.element)))
+      semanticByEngineId.set(evidence.engineId, previous.element)
+      continue
+    }
     const declaration = sourceTextForRange(document.text, range)
     const qualifiedName = normalizedQualifiedName(
       evidence,
@@ -295,6 +410,7 @@ function buildSemanticSnapshotWithinReconciliation(input: SnapshotInput): Semant
       }),
     )
     const identity = input.identities.resolve(locator, fingerprint)
+    const feature = semanticFeature(evidence, conjugatedPorts.has(evidence.engineId))
     semanticByEngineId.set(evidence.engineId, {
       id: identity.id,
       kind,
@@ -309,6 +425,7 @@ function buildSemanticSnapshotWithinReconciliation(input: SnapshotInput): Semant
         documentSha256: document.sha256,
       },
       fingerprint,
+      ...(feature ? { feature } : {}),
       provenance: {
         authority: 'qualified-language-engine',
         extraction: 'pilot-emf-semantic-evidence',
@@ -364,13 +481,43 @@ function buildSemanticSnapshotWithinReconciliation(input: SnapshotInput): Semant
         ['source', 'memberElement'],
       )
     } else if (raw.evidence.metaclass === 'FeatureTyping') {
+      const typedId = targetForFeature(refs, 'typedFeature') ?? targetForFeature(refs, 'specific')
+      const typeId = targetForFeature(refs, 'type') ?? targetForFeature(refs, 'general')
+      const originalId = typeId ? conjugatedOriginals.get(typeId) : undefined
       addRelationship(
         'typing',
-        targetForFeature(refs, 'typedFeature') ?? targetForFeature(refs, 'specific'),
-        targetForFeature(refs, 'type') ?? targetForFeature(refs, 'general'),
+        typedId,
+        originalId ?? typeId,
         raw.evidence.metaclass,
         ['typedFeature', 'type'],
       )
+    } else if (
+      raw.evidence.metaclass === 'Subclassification' ||
+      raw.evidence.metaclass === 'Specialization'
+    ) {
+      addRelationship(
+        'specialization',
+        targetForFeature(refs, 'subclassifier') ?? targetForFeature(refs, 'specific'),
+        targetForFeature(refs, 'superclassifier') ?? targetForFeature(refs, 'general'),
+        raw.evidence.metaclass,
+        ['subclassifier', 'superclassifier'],
+      )
+    } else if (raw.evidence.metaclass === 'Redefinition') {
+      addRelationship(
+        'redefinition',
+        targetForFeature(refs, 'redefiningFeature') ?? targetForFeature(refs, 'specific'),
+        targetForFeature(refs, 'redefinedFeature') ?? targetForFeature(refs, 'general'),
+        raw.evidence.metaclass,
+        ['redefiningFeature', 'redefinedFeature'],
+      )
+    } else if (raw.evidence.metaclass === 'Subsetting') {
+      addRelationship(
+        'subsetting',
+        targetForFeature(refs, 'subsettingFeature') ?? targetForFeature(refs, 'specific'),
+        targetForFeature(refs, 'subsettedFeature') ?? targetForFeature(refs, 'general'),
+        raw.evidence.metaclass,
+        ['subsettingFeature', 'subsettedFeature'],
+      )
     } else if (raw.evidence.metaclass.endsWith('Import')) {
       addRelationship(
         'dependency',
@@ -379,6 +526,14 @@ function buildSemanticSnapshotWithinReconciliation(input: SnapshotInput): Semant
         raw.evidence.metaclass,
         ['source', 'importedNamespace'],
       )
+    } else if (raw.evidence.metaclass === 'Dependency') {
+      addRelationship(
+        'dependency',
+        targetForFeature(refs, 'client') ?? targetForFeature(refs, 'source'),
+        targetForFeature(refs, 'supplier') ?? targetForFeature(refs, 'target'),
+        raw.evidence.metaclass,
+        ['client', 'supplier'],
+      )
     }
   }
 
@@ -453,6 +608,21 @@ function buildSemanticSnapshotWithinReconciliation(input: SnapshotInput): Semant
     }
   }
 
+  for (const [engineId, raw] of rawById) {
+    const kind = CONNECTOR_RELATIONSHIP_KIND[raw.evidence.metaclass]
+    if (!kind) continue
+    const endpoints = terminalTargets(
+      engineId,
+      new Set(['ReferenceSubsetting']),
+      rawById,
+      relationshipsBySource,
+      memberChildren,
+      semanticByEngineId,
+      () => true,
+    )
+    addRelationship(kind, endpoints[0], endpoints[1], raw.evidence.metaclass, ['referencedFeature'])
+  }
+
   const elements = [...semanticByEngineId.values()].sort((left, right) =>
     left.id.localeCompare(right.id),
   )
@@ -513,6 +683,82 @@ function buildSemanticSnapshotWithinReconciliation(input: SnapshotInput): Semant
   }
 }
 
+// Elements of documents outside `changedUris` are reused when their document,
+// owner, and conjugation are unchanged, so only changed documents pay for
+// source slicing, fingerprinting, and identity reconciliation.
+function reusableElements(
+  input: SnapshotInput,
+): Map<string, { element: SemanticElement; ownerQualifiedName?: string }> {
+  const result = new Map<string, { element: SemanticElement; ownerQualifiedName?: string }>()
+  const previous = input.previous
+  if (
+    !previous ||
+    previous.snapshot.workspace.id !== input.status.workspaceId ||
+    previous.snapshot.workspace.configurationName !== input.status.configurationName ||
+    stableJson(previous.snapshot.authority) !== stableJson(input.authority)
+  ) {
+    return result
+  }
+  const byId = new Map(previous.snapshot.elements.map((element) => [element.id, element]))
+  for (const element of previous.snapshot.elements) {
+    if (previous.changedUris.has(element.source.uri)) continue
+    result.set(element.provenance.engineId, {
+      element,
+      ownerQualifiedName: element.ownerId ? byId.get(element.ownerId)?.qualifiedName : undefined,
+    })
+  }
+  return result
+}
+
+function identityLocator(element: SemanticElement): IdentityLocator {
+  return {
+    workspacePath: element.source.workspacePath,
+    qualifiedName: element.qualifiedName,
+    kind: element.kind,
+  }
+}
+
+export interface SnapshotChange {
+  elementIds: Set<string>
+  qualifiedNames: Set<string>
+  topLevel: boolean
+}
+
+// Added, removed, and changed elements, plus the endpoints of added and
+// removed relationships. Reused elements compare by reference.
+export function snapshotChange(
+  previous: SemanticSnapshot,
+  next: SemanticSnapshot,
+): SnapshotChange {
+  const change: SnapshotChange = { elementIds: new Set(), qualifiedNames: new Set(), topLevel: false }
+  const record = (element: SemanticElement) => {
+    change.elementIds.add(element.id)
+    change.qualifiedNames.add(element.qualifiedName)
+    if (!element.ownerId) change.topLevel = true
+  }
+  const before = new Map(previous.elements.map((element) => [element.id, element]))
+  const after = new Map(next.elements.map((element) => [element.id, element]))
+  for (const [id, element] of after) {
+    const prior = before.get(id)
+    if (prior === element) continue
+    if (!prior || stableJson(prior) !== stableJson(element)) {
+      record(element)
+      if (prior) record(prior)
+    }
+  }
+  for (const [id, element] of before) if (!after.has(id)) record(element)
+  const priorRelationships = new Set(previous.relationships.map((relationship) => relationship.id))
+  const nextRelationships = new Set(next.relationships.map((relationship) => relationship.id))
+  for (const relationship of [
+    ...next.relationships.filter((item) => !priorRelationships.has(item.id)),
+    ...previous.relationships.filter((item) => !nextRelationships.has(item.id)),
+  ]) {
+    change.elementIds.add(relationship.sourceId)
+    change.elementIds.add(relationship.targetId)
+  }
+  return change
+}
+
 function collectRawEvidence(
   evidenceByUri: Map<string, EngineSemanticEvidence>,
   documentsByUri: Map<string, WorkspaceDocument>,
@@ -726,6 +972,38 @@ function sourceTextForRange(text: string, range: WorkbenchRange): string {
   return selected.join('\n')
 }
 
+function semanticFeature(
+  evidence: EngineSemanticElementEvidence,
+  conjugated: boolean,
+): SemanticFeature | undefined {
+  const feature: SemanticFeature = {}
+  if (evidence.direction) feature.direction = evidence.direction
+  if (evidence.multiplicity) {
+    const { lower, upper } = evidence.multiplicity
+    if (
+      !Number.isSafeInteger(lower) ||
+      lower < 0 ||
+      (upper !== '*' && (!Number.isSafeInteger(upper) || upper < lower))
+    ) {
+      throw new Error('Language authority returned an invalid feature multiplicity')
+    }
+    feature.multiplicity = { lower, upper }
+  }
+  if (evidence.value) {
+    const text = normalizeDeclaration(evidence.value.text)
+    feature.value = {
+      kind: evidence.value.kind,
+      text,
+      ...(evidence.value.literal === undefined ? {} : { literal: evidence.value.literal }),
+      ...(evidence.value.truncated ? { truncated: true as const } : {}),
+    }
+  }
+  const unit = evidence.unit?.trim()
+  if (unit) feature.unit = unit
+  if (conjugated) feature.conjugated = true
+  return Object.keys(feature).length > 0 ? feature : undefined
+}
+
 function validateRange(text: string, range: WorkbenchRange): void {
   const lines = text.split(/\r?\n/)
   for (const position of [range.start, range.end]) {
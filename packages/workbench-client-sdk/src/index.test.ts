@@ -1,6 +1,10 @@
 // @vitest-environment node
 import { afterEach, describe, expect, it, vi } from 'vitest'
-import { pairLoopbackService } from './index.js'
+import {
+  HttpWorkbenchTransport,
+  pairLoopbackService,
+  WorkbenchClient,
+} from './index.js'
 
 afterEach(() => {
   vi.useRealTimers()
@@ -141,3 +145,52 @@ function abortablePendingFetch(): typeof fetch {
       )
     })) as typeof fetch
 }
+
+describe('service notifications', () => {
+  it('opens one notification socket for subscribers and forwards known methods', () => {
+    let onMessage: ((event: { data: unknown }) => void) | undefined
+    const socket = {
+      close: vi.fn(),
+      addEventListener: vi.fn((_type: 'message', listener: (event: { data: unknown }) => void) => {
+        onMessage = listener
+      }),
+    }
+    const createSocket = vi.fn(() => socket)
+    const client = new WorkbenchClient(new HttpWorkbenchTransport({
+      endpoint: 'http://127.0.0.1:43117/rpc',
+      token: 'token',
+      csrf: 'csrf',
+      createSocket,
+    }))
+    const first = vi.fn()
+    const second = vi.fn()
+    const unsubscribeFirst = client.subscribe(first)
+    const unsubscribeSecond = client.subscribe(second)
+    expect(createSocket).toHaveBeenCalledExactlyOnceWith(
+      'ws://127.0.0.1:43117/rpc',
+      ['sysml-workbench.v1', 'auth.token'],
+    )
+
+    const published = {
+      jsonrpc: '2.0',
+      method: 'review/didChange',
+      params: { workspaceId: 'sample', review: { id: 'RVW-001' } },
+    }
+    onMessage!({ data: JSON.stringify(published) })
+    onMessage!({ data: JSON.stringify({ jsonrpc: '2.0', method: 'vendor/unknown', params: {} }) })
+    onMessage!({ data: JSON.stringify({ jsonrpc: '2.0', id: 1, result: {} }) })
+    onMessage!({ data: 'not json' })
+    expect(first).toHaveBeenCalledExactlyOnceWith(published)
+    expect(second).toHaveBeenCalledOnce()
+
+    unsubscribeFirst()
+    expect(socket.close).not.toHaveBeenCalled()
+    unsubscribeSecond()
+    expect(socket.close).toHaveBeenCalledOnce()
+  })
+
+  it('delivers nothing through a transport without a notification channel', () => {
+    const client = new WorkbenchClient({ request: vi.fn() })
+    expect(() => client.subscribe(vi.fn())()).not.toThrow()
+  })
+})
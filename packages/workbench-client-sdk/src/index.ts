@@ -1,7 +1,10 @@
 import {
+  isJsonRpcNotification,
   WORKBENCH_METHODS,
+  WORKBENCH_NOTIFICATIONS,
   WORKBENCH_PROTOCOL_VERSION,
   type InitializeResult,
+  type JsonRpcNotification,
   type WorkbenchCompletionItem,
   type WorkbenchDocumentSymbol,
   type WorkbenchHover,
@@ -10,9 +13,12 @@ import {
   type WorkbenchSemanticTokens,
   type WorkbenchTextEdit,
   type WorkbenchWorkspaceEdit,
+  type WorkbenchWorkspaceSymbol,
   type WorkspaceStatusResult,
+  type WorkspaceSummary,
   type WorkspaceDocumentContent,
   type SavedWorkbenchView,
+  type ExportedWorkbenchView,
 } from '../../workbench-protocol/src/index.js'
 import type { LanguageDiagnostic } from '../../language-adapter/src/index.js'
 import type {
@@ -21,6 +27,7 @@ import type {
 } from '../../query-engine/src/index.js'
 import type { SemanticSnapshot } from '../../semantic-model/src/index.js'
 import type {
+  CodeAction,
   CommandEnvelope,
   CommandHistoryRequest,
   CommandProposal,
@@ -31,32 +38,49 @@ import type {
   BaselineComparison,
   BaselineManifest,
   GitWorkspaceStatus,
+  RemoteBaselineComparison,
+  SysmlApiCommit,
 } from '../../baseline-service/src/index.js'
 import type {
   ModelReview,
   ReviewStaleness,
 } from '../../review-service/src/index.js'
 import type { AssuranceEvaluation } from '../../rule-engine/src/index.js'
-import type { ReportBundleManifest } from '../../report-engine/src/index.js'
+import type {
+  DiagramExportFormat,
+  ReportBundleManifest,
+} from '../../report-engine/src/index.js'
 import type {
   AiApplyApproval,
   AiAssistantRequest,
   AiOperationRecord,
   AiOrchestratorStatus,
 } from '../../ai-orchestrator/src/index.js'
+import type {
+  ModelImportPlan,
+  RequirementTable,
+  RequirementTableMapping,
+  SysmlApiElement,
+} from '../../model-exchange/src/index.js'
 import type {
   AddReviewFindingInput,
   CreateBaselineInput,
   CreateReviewInput,
   DispositionReviewFindingInput,
   GenerateReportInput,
+  WorkbenchNotification,
 } from '../../workspace-service/src/workspace.js'
 
 export interface WorkbenchTransport {
   request<T>(method: string, params?: unknown): Promise<T>
+  subscribe?(listener: (notification: JsonRpcNotification) => void): () => void
   close?(): Promise<void>
 }
 
+const NOTIFICATION_METHODS: ReadonlySet<string> = new Set(
+  Object.values(WORKBENCH_NOTIFICATIONS),
+)
+
 export class WorkbenchClient {
   constructor(private readonly transport: WorkbenchTransport) {}
 
@@ -75,6 +99,10 @@ export class WorkbenchClient {
     })
   }
 
+  listWorkspaces(): Promise<WorkspaceSummary[]> {
+    return this.transport.request(WORKBENCH_METHODS.workspaceList)
+  }
+
   workspaceStatus(workspaceId: string): Promise<WorkspaceStatusResult> {
     return this.transport.request(WORKBENCH_METHODS.workspaceStatus, {
       workspaceId,
@@ -113,6 +141,21 @@ export class WorkbenchClient {
     })
   }
 
+  // Exports a saved view by id, or renders an unsaved view without saving it.
+  exportView(
+    workspaceId: string,
+    view: string | SavedWorkbenchView,
+    format: DiagramExportFormat,
+    generatedAt?: string,
+  ): Promise<ExportedWorkbenchView> {
+    return this.transport.request(WORKBENCH_METHODS.workspaceExportView, {
+      workspaceId,
+      ...(typeof view === 'string' ? { viewId: view } : { view }),
+      format,
+      ...(generatedAt ? { generatedAt } : {}),
+    })
+  }
+
   closeWorkspace(workspaceId: string): Promise<{ closed: boolean }> {
     return this.transport.request(WORKBENCH_METHODS.workspaceClose, {
       workspaceId,
@@ -133,6 +176,18 @@ export class WorkbenchClient {
     })
   }
 
+  workspaceSymbols(
+    workspaceId: string,
+    query: string,
+    maxResults?: number,
+  ): Promise<WorkbenchWorkspaceSymbol[]> {
+    return this.transport.request(WORKBENCH_METHODS.languageWorkspaceSymbols, {
+      workspaceId,
+      query,
+      ...(maxResults === undefined ? {} : { maxResults }),
+    })
+  }
+
   definition(
     workspaceId: string,
     documentUri: string,
@@ -253,6 +308,63 @@ export class WorkbenchClient {
     })
   }
 
+  exportSysmlApi(workspaceId: string): Promise<SysmlApiElement[]> {
+    return this.transport.request(WORKBENCH_METHODS.modelExportSysmlApi, {
+      workspaceId,
+    })
+  }
+
+  planSysmlApiImport(
+    workspaceId: string,
+    elements: unknown[],
+  ): Promise<ModelImportPlan> {
+    return this.transport.request(WORKBENCH_METHODS.modelImportSysmlApi, {
+      workspaceId,
+      elements,
+    })
+  }
+
+  exportReqif(workspaceId: string, createdAt?: string): Promise<string> {
+    return this.transport.request(WORKBENCH_METHODS.modelExportReqif, {
+      workspaceId,
+      ...(createdAt ? { createdAt } : {}),
+    })
+  }
+
+  planReqifImport(
+    workspaceId: string,
+    reqif: string,
+    ownerId: string,
+  ): Promise<ModelImportPlan> {
+    return this.transport.request(WORKBENCH_METHODS.modelImportReqif, {
+      workspaceId,
+      reqif,
+      ownerId,
+    })
+  }
+
+  // content is the file's bytes in base64.
+  readRequirementTable(fileName: string, content: string): Promise<RequirementTable> {
+    return this.transport.request(WORKBENCH_METHODS.modelReadRequirementTable, {
+      fileName,
+      content,
+    })
+  }
+
+  planRequirementTableImport(
+    workspaceId: string,
+    table: RequirementTable,
+    mapping: RequirementTableMapping,
+    ownerId: string,
+  ): Promise<ModelImportPlan> {
+    return this.transport.request(WORKBENCH_METHODS.modelImportRequirementTable, {
+      workspaceId,
+      table,
+      mapping,
+      ownerId,
+    })
+  }
+
   evaluateAssurance(workspaceId: string): Promise<AssuranceEvaluation> {
     return this.transport.request(WORKBENCH_METHODS.assuranceEvaluate, {
       workspaceId,
@@ -287,6 +399,32 @@ export class WorkbenchClient {
     })
   }
 
+  publishBaseline(
+    workspaceId: string,
+    baselineId: string,
+  ): Promise<SysmlApiCommit> {
+    return this.transport.request(WORKBENCH_METHODS.baselinePublish, {
+      workspaceId,
+      baselineId,
+    })
+  }
+
+  listRemoteBaselines(workspaceId: string): Promise<SysmlApiCommit[]> {
+    return this.transport.request(WORKBENCH_METHODS.baselineListRemote, {
+      workspaceId,
+    })
+  }
+
+  compareRemoteBaseline(
+    workspaceId: string,
+    commitId: string,
+  ): Promise<RemoteBaselineComparison> {
+    return this.transport.request(WORKBENCH_METHODS.baselineCompareRemote, {
+      workspaceId,
+      commitId,
+    })
+  }
+
   listReviews(workspaceId: string): Promise<ModelReview[]> {
     return this.transport.request(WORKBENCH_METHODS.reviewList, { workspaceId })
   }
@@ -383,6 +521,13 @@ export class WorkbenchClient {
     })
   }
 
+  codeActions(workspaceId: string, documentUri?: string): Promise<CodeAction[]> {
+    return this.transport.request(WORKBENCH_METHODS.commandCodeActions, {
+      workspaceId,
+      ...(documentUri === undefined ? {} : { documentUri }),
+    })
+  }
+
   proposeCommand(envelope: CommandEnvelope): Promise<CommandProposal> {
     return this.transport.request(WORKBENCH_METHODS.commandPropose, envelope)
   }
@@ -401,6 +546,19 @@ export class WorkbenchClient {
     return this.transport.request(WORKBENCH_METHODS.commandApply, approval)
   }
 
+  /**
+   * Delivers service notifications until the returned function is called. A
+   * transport without a notification channel delivers none, so callers keep
+   * refreshing after their own mutations.
+   */
+  subscribe(listener: (notification: WorkbenchNotification) => void): () => void {
+    return this.transport.subscribe?.((notification) => {
+      if (NOTIFICATION_METHODS.has(notification.method)) {
+        listener(notification as WorkbenchNotification)
+      }
+    }) ?? (() => undefined)
+  }
+
   async close(): Promise<void> {
     await this.transport.close?.()
   }
@@ -410,6 +568,19 @@ export interface HttpWorkbenchTransportOptions {
   endpoint: string
   token: string
   csrf: string
+  /**
+   * Opens the WebSocket that carries service notifications. Defaults to the
+   * global WebSocket; requests always use HTTP.
+   */
+  createSocket?(url: string, protocols: string[]): WorkbenchNotificationSocket
+}
+
+export interface WorkbenchNotificationSocket {
+  close(code?: number, reason?: string): void
+  addEventListener(
+    type: 'message',
+    listener: (event: { data: unknown }) => void,
+  ): void
 }
 
 export interface LoopbackPairingResult {
@@ -433,6 +604,7 @@ export interface LoopbackPairingOptions {
 }
 
 const DEFAULT_LOOPBACK_PAIRING_TIMEOUT_MS = 15_000
+const WEBSOCKET_PROTOCOL = 'sysml-workbench.v1'
 const LOCAL_NETWORK_ACCESS_ERROR =
   'Workbench pairing could not access the local companion. Allow this site to look for and connect to devices on your local network, then relaunch the companion.'
 
@@ -518,9 +690,29 @@ function isLocalNetworkAccessDenied(error: unknown): boolean {
 
 export class HttpWorkbenchTransport implements WorkbenchTransport {
   private nextId = 1
+  private readonly listeners = new Set<
+    (notification: JsonRpcNotification) => void
+  >()
+  private socket?: WorkbenchNotificationSocket
 
   constructor(private readonly options: HttpWorkbenchTransportOptions) {}
 
+  subscribe(
+    listener: (notification: JsonRpcNotification) => void,
+  ): () => void {
+    this.listeners.add(listener)
+    this.socket ??= this.openNotificationSocket()
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) this.closeNotificationSocket()
+    }
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear()
+    this.closeNotificationSocket()
+  }
+
   async request<T>(method: string, params?: unknown): Promise<T> {
     const response = await fetch(this.options.endpoint, {
       method: 'POST',
@@ -550,4 +742,30 @@ export class HttpWorkbenchTransport implements WorkbenchTransport {
     }
     return payload.result as T
   }
+
+  private openNotificationSocket(): WorkbenchNotificationSocket {
+    const url = new URL(this.options.endpoint)
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:'
+    const protocols = [WEBSOCKET_PROTOCOL, `auth.${this.options.token}`]
+    const socket: WorkbenchNotificationSocket = this.options.createSocket
+      ? this.options.createSocket(url.href, protocols)
+      : new WebSocket(url.href, protocols)
+    socket.addEventListener('message', (event) => {
+      if (typeof event.data !== 'string') return
+      let message: unknown
+      try {
+        message = JSON.parse(event.data)
+      } catch {
+        return
+      }
+      if (!isJsonRpcNotification(message)) return
+      for (const listener of this.listeners) listener(message)
+    })
+    return socket
+  }
+
+  private closeNotificationSocket(): void {
+    this.socket?.close(1000, 'Notifications unsubscribed')
+    this.socket = undefined
+  }
 }
@@ -2,8 +2,11 @@
 import { describe, expect, it } from 'vitest'
 import {
   failure,
+  isJsonRpcNotification,
   isJsonRpcRequest,
+  notification,
   success,
+  WORKBENCH_NOTIFICATIONS,
   WORKBENCH_PROTOCOL_VERSION,
 } from './index.js'
 
@@ -25,6 +28,23 @@ describe('Workbench Protocol', () => {
     expect(WORKBENCH_PROTOCOL_VERSION).toMatch(/^0\.\d+\.\d+$/)
   })
 
+  it('distinguishes id-less notifications from requests', () => {
+    const published = notification(
+      WORKBENCH_NOTIFICATIONS.workspaceDidChangeStatus,
+      { workspaceId: 'sample' },
+    )
+    expect(published).toEqual({
+      jsonrpc: '2.0',
+      method: 'workspace/didChangeStatus',
+      params: { workspaceId: 'sample' },
+    })
+    expect(isJsonRpcNotification(published)).toBe(true)
+    expect(isJsonRpcRequest(published)).toBe(false)
+    expect(
+      isJsonRpcNotification({ jsonrpc: '2.0', id: 1, method: 'health/status' }),
+    ).toBe(false)
+  })
+
   it('constructs deterministic response envelopes', () => {
     expect(success('request-1', { status: 'ok' })).toEqual({
       jsonrpc: '2.0',
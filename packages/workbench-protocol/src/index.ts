@@ -4,13 +4,16 @@ export const WORKBENCH_METHODS = {
   initialize: 'workbench/initialize',
   health: 'health/status',
   workspaceOpen: 'workspace/open',
+  workspaceList: 'workspace/list',
   workspaceStatus: 'workspace/status',
   workspaceReadDocument: 'workspace/readDocument',
   workspaceListViews: 'workspace/listViews',
   workspaceSaveView: 'workspace/saveView',
+  workspaceExportView: 'workspace/exportView',
   workspaceClose: 'workspace/close',
   languageDiagnostics: 'language/diagnostics',
   languageDocumentSymbols: 'language/documentSymbols',
+  languageWorkspaceSymbols: 'language/workspaceSymbols',
   languageDefinition: 'language/definition',
   languageReferences: 'language/references',
   languageHover: 'language/hover',
@@ -22,11 +25,20 @@ export const WORKBENCH_METHODS = {
   languageRestart: 'language/restart',
   semanticSnapshot: 'semantic/snapshot',
   modelQuery: 'model/query',
+  modelExportSysmlApi: 'model/exportSysmlApi',
+  modelImportSysmlApi: 'model/importSysmlApi',
+  modelExportReqif: 'model/exportReqif',
+  modelImportReqif: 'model/importReqif',
+  modelReadRequirementTable: 'model/readRequirementTable',
+  modelImportRequirementTable: 'model/importRequirementTable',
   assuranceEvaluate: 'assurance/evaluate',
   gitStatus: 'git/status',
   baselineList: 'baseline/list',
   baselineCreate: 'baseline/create',
   baselineCompare: 'baseline/compare',
+  baselinePublish: 'baseline/publish',
+  baselineListRemote: 'baseline/listRemote',
+  baselineCompareRemote: 'baseline/compareRemote',
   reviewList: 'review/list',
   reviewCreate: 'review/create',
   reviewAddFinding: 'review/addFinding',
@@ -38,6 +50,7 @@ export const WORKBENCH_METHODS = {
   aiRequest: 'ai/request',
   aiListAudit: 'ai/listAudit',
   aiApply: 'ai/apply',
+  commandCodeActions: 'command/codeActions',
   commandPropose: 'command/propose',
   commandProposeUndo: 'command/proposeUndo',
   commandProposeRedo: 'command/proposeRedo',
@@ -47,6 +60,18 @@ export const WORKBENCH_METHODS = {
 export type WorkbenchMethod =
   (typeof WORKBENCH_METHODS)[keyof typeof WORKBENCH_METHODS]
 
+export const WORKBENCH_NOTIFICATIONS = {
+  workspaceDidChangeStatus: 'workspace/didChangeStatus',
+  languagePublishDiagnostics: 'language/publishDiagnostics',
+  semanticDidChangeSnapshot: 'semantic/didChangeSnapshot',
+  commandDidApply: 'command/didApply',
+  commandDidInvalidate: 'command/didInvalidate',
+  reviewDidChange: 'review/didChange',
+} as const
+
+export type WorkbenchNotificationMethod =
+  (typeof WORKBENCH_NOTIFICATIONS)[keyof typeof WORKBENCH_NOTIFICATIONS]
+
 export interface JsonRpcRequest {
   jsonrpc: '2.0'
   id: string | number
@@ -72,6 +97,12 @@ export interface JsonRpcFailure {
 
 export type JsonRpcResponse = JsonRpcSuccess | JsonRpcFailure
 
+export interface JsonRpcNotification {
+  jsonrpc: '2.0'
+  method: string
+  params?: unknown
+}
+
 export interface LanguageCapabilities {
   workspaceLifecycle: boolean
   diagnostics: boolean
@@ -165,6 +196,16 @@ export interface WorkbenchDocumentSymbol {
   children: WorkbenchDocumentSymbol[]
 }
 
+export interface WorkbenchWorkspaceSymbol {
+  name: string
+  kind: string
+  containerName?: string
+  qualifiedName?: string
+  elementId?: string
+  location: WorkbenchLocation
+  score: number
+}
+
 export interface WorkbenchHover {
   format: 'plaintext' | 'markdown'
   value: string
@@ -201,6 +242,9 @@ export interface WorkspaceDocumentSummary {
   languageId: 'sysml' | 'kerml'
   sha256: string
   byteLength: number
+  // The file changed on disk while the document held unsaved edits; the
+  // edits are kept until they are saved or discarded.
+  diskConflict?: true
 }
 
 export interface WorkspaceDocumentContent extends WorkspaceDocumentSummary {
@@ -214,10 +258,11 @@ export interface SavedWorkbenchView {
   name: string
   query: {
     roots?: string[]
-    mode?: 'containment' | 'type-hierarchy' | 'dependency' | 'neighbourhood' | 'requirements' | 'verification' | 'interfaces'
-    relationships?: Array<'containment' | 'typing' | 'dependency' | 'satisfaction' | 'verification' | 'connection' | 'flow' | 'interface'>
+    mode?: 'containment' | 'type-hierarchy' | 'dependency' | 'neighbourhood' | 'requirements' | 'verification' | 'interfaces' | 'inheritance' | 'allocation'
+    relationships?: Array<'containment' | 'typing' | 'dependency' | 'satisfaction' | 'verification' | 'connection' | 'flow' | 'interface' | 'specialization' | 'redefinition' | 'subsetting' | 'allocation' | 'binding'>
     direction?: 'outbound' | 'inbound' | 'both'
     depth?: number
+    expression?: string
     maxResults?: number
   }
   notation: 'model-structure' | 'interconnection' | 'traceability' | 'action-flow' | 'state-transition' | 'verification-context' | 'table'
@@ -227,6 +272,19 @@ export interface SavedWorkbenchView {
   updatedAt: string
 }
 
+export interface ExportedWorkbenchView {
+  schemaVersion: 1
+  viewId: string
+  format: 'svg' | 'pdf'
+  mediaType: 'image/svg+xml' | 'application/pdf'
+  fileName: string
+  encoding: 'utf8' | 'base64'
+  content: string
+  sha256: string
+  snapshotSha256: string
+  generatedAt: string
+}
+
 export interface WorkspaceStatusResult {
   workspaceId: string
   rootUri: string
@@ -246,6 +304,16 @@ export interface WorkspaceStatusResult {
   capabilitiesFinal: boolean
 }
 
+export interface WorkspaceSummary {
+  workspaceId: string
+  displayName: string
+  rootUri: string
+  configurationName: string
+  indexState: WorkspaceStatusResult['indexState']
+  semanticAuthority: WorkspaceStatusResult['semanticAuthority']
+  documentCount: number
+}
+
 export const JSON_RPC_ERRORS = {
   parseError: -32700,
   invalidRequest: -32600,
@@ -266,6 +334,24 @@ export function isJsonRpcRequest(value: unknown): value is JsonRpcRequest {
   )
 }
 
+export function isJsonRpcNotification(
+  value: unknown,
+): value is JsonRpcNotification {
+  if (!isRecord(value)) return false
+  return (
+    value.jsonrpc === '2.0' &&
+    !('id' in value) &&
+    typeof value.method === 'string'
+  )
+}
+
+export function notification(
+  method: string,
+  params: unknown,
+): JsonRpcNotification {
+  return { jsonrpc: '2.0', method, params }
+}
+
 export function success(
   id: string | number,
   result: unknown,
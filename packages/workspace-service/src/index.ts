@@ -1,3 +1,4 @@
 export * from './path-security.js'
 export * from './service.js'
+export * from './symbol-search.js'
 export * from './workspace.js'
@@ -6,7 +6,7 @@ import { tmpdir } from 'node:os'
 import { join } from 'node:path'
 import { fileURLToPath, pathToFileURL } from 'node:url'
 import { promisify } from 'node:util'
-import { afterEach, describe, expect, it } from 'vitest'
+import { afterEach, describe, expect, it, vi } from 'vitest'
 import {
   PreservationControlAdapter,
   type LanguageAdapter,
@@ -121,6 +121,70 @@ describe('WorkbenchService', () => {
     expect(closed).toMatchObject({ result: { closed: true } })
   })
 
+  it('keeps several workspaces open with independent engines and limits', async () => {
+    const temporaryRoot = await mkdtemp(join(tmpdir(), 'sysml-workbench-limits-'))
+    temporaryDirectories.push(temporaryRoot)
+    await cp(sampleRoot, temporaryRoot, { recursive: true })
+    await writeFile(
+      resolve(temporaryRoot, 'sysml-workspace.yaml'),
+      'schemaVersion: 1\nid: limited\nsourceRoots: [model]\n',
+    )
+    const created: LanguageAdapter[] = []
+    const service = new WorkbenchService({
+      adapter: createFakeLspAdapter(),
+      createAdapter: async () => {
+        const adapter = createFakeLspAdapter()
+        created.push(adapter)
+        return adapter
+      },
+      maxWorkspaces: 2,
+      allowedRoots: [sampleRoot, phase5PilotRoot, temporaryRoot],
+      transport: { kind: 'stdio', secure: true },
+    })
+    services.push(service)
+    await initialize(service)
+    await service.workspaces.open(resolve(sampleRoot, 'sysml-workspace.yaml'))
+    await service.workspaces.open(resolve(phase5PilotRoot, 'sysml-workspace.yaml'))
+    expect(created).toHaveLength(1)
+
+    await expect(service.handle({
+      jsonrpc: '2.0',
+      id: 70,
+      method: WORKBENCH_METHODS.workspaceList,
+    })).resolves.toMatchObject({
+      result: [
+        { workspaceId: 'phase1-sample', displayName: 'Phase 1 multi-file qualification sample', documentCount: 3 },
+        { workspaceId: 'phase5-infrastructure-pilot', documentCount: 4 },
+      ],
+    })
+    expect(service.workspaces.readDocument('phase1-sample', sampleDocument).text)
+      .toContain('package')
+    await expect(
+      service.workspaces.open(resolve(temporaryRoot, 'sysml-workspace.yaml')),
+    ).rejects.toThrow('At most 2 workspaces may be open at once')
+
+    const dispose = vi.spyOn(created[0]!, 'dispose')
+    await service.workspaces.close('phase5-infrastructure-pilot')
+    expect(dispose).toHaveBeenCalledOnce()
+    await writeFile(
+      resolve(temporaryRoot, 'sysml-workspace.yaml'),
+      'schemaVersion: 1\nid: limited\nsourceRoots: [model]\nlimits:\n  maxFiles: 1\n',
+    )
+    await expect(
+      service.workspaces.open(resolve(temporaryRoot, 'sysml-workspace.yaml')),
+    ).rejects.toThrow('Workspace contains 2 model files; limit is 1')
+    await writeFile(
+      resolve(temporaryRoot, 'sysml-workspace.yaml'),
+      'schemaVersion: 1\nid: phase1-sample\nsourceRoots: [model]\n',
+    )
+    await expect(
+      service.workspaces.open(resolve(temporaryRoot, 'sysml-workspace.yaml')),
+    ).rejects.toThrow('Workspace id phase1-sample is already open from another workspace file')
+    expect(service.workspaces.list().map((item) => item.workspaceId)).toEqual([
+      'phase1-sample',
+    ])
+  })
+
   it('keeps the multi-file infrastructure pilot in mandatory workspace CI', async () => {
     const service = createService(createFakeLspAdapter(), [phase5PilotRoot])
     await initialize(service)
@@ -179,6 +243,10 @@ describe('WorkbenchService', () => {
       jsonrpc: '2.0', id: 33, method: WORKBENCH_METHODS.workspaceSaveView,
       params: { workspaceId: 'phase1-sample', view: { schemaVersion: 1, id: '../escape', name: 'bad', query: {}, notation: 'table', updatedAt: '2026-01-01T00:00:00.000Z' } },
     })).resolves.toMatchObject({ error: { code: -32010 } })
+    await expect(service.handle({
+      jsonrpc: '2.0', id: 34, method: WORKBENCH_METHODS.workspaceSaveView,
+      params: { workspaceId: 'phase1-sample', view: { schemaVersion: 1, id: 'unsatisfied', name: 'Unsatisfied', query: { expression: 'Widget where name ~ "*"' }, notation: 'table', updatedAt: '2026-01-01T00:00:00.000Z' } },
+    })).resolves.toMatchObject({ error: { code: -32010, message: expect.stringContaining('unsupported element kind Widget') } })
   })
 
   it('negotiates language capabilities after open and protects document scope', async () => {
@@ -428,7 +496,7 @@ describe('WorkbenchService', () => {
     if (!('result' in snapshot)) throw new Error('Snapshot request failed')
     const semantic = snapshot.result as {
       snapshotSha256: string
-      elements: Array<{ id: string }>
+      elements: Array<{ id: string; source: { workspacePath: string } }>
     }
     expect(semantic.elements).toHaveLength(3)
     const identityFile = JSON.parse(
@@ -464,6 +532,19 @@ describe('WorkbenchService', () => {
     expect(cached).toMatchObject({
       result: { snapshotSha256: semantic.snapshotSha256 },
     })
+    await expect(service.handle({
+      ...queryRequest,
+      id: 24,
+      params: {
+        workspaceId: 'phase1-sample',
+        query: { schemaVersion: 1, expression: `Package where path = "${semantic.elements[0]!.source.workspacePath}" group by kind` },
+      },
+    })).resolves.toMatchObject({
+      result: {
+        elements: [{ id: semantic.elements[0]!.id }],
+        aggregates: [{ key: 'Package', count: 1 }],
+      },
+    })
     const openedStatus = opened.result as { documents: Array<{ uri: string }> }
     const changedUri = openedStatus.documents[0]!.uri
     const changedText = await readFile(fileURLToPath(changedUri), 'utf8')
@@ -485,6 +566,466 @@ describe('WorkbenchService', () => {
       .not.toBe(semantic.snapshotSha256)
   })
 
+  it('searches workspace symbols through the engine or the semantic snapshot', async () => {
+    const temporaryRoot = await mkdtemp(
+      join(tmpdir(), 'sysml-workbench-symbols-'),
+    )
+    temporaryDirectories.push(temporaryRoot)
+    await cp(sampleRoot, temporaryRoot, { recursive: true })
+    const fallback = createService(
+      createFakeLspAdapter({ FAKE_LSP_FEATURE_EVIDENCE: 'valid' }, 'qualified'),
+      [temporaryRoot],
+    )
+    await initialize(fallback)
+    await fallback.handle({
+      jsonrpc: '2.0',
+      id: 2,
+      method: WORKBENCH_METHODS.workspaceOpen,
+      params: { workspaceFile: resolve(temporaryRoot, 'sysml-workspace.yaml') },
+    })
+    const search = (service: WorkbenchService, query: string, maxResults?: number) =>
+      service.handle({
+        jsonrpc: '2.0',
+        id: 3,
+        method: WORKBENCH_METHODS.languageWorkspaceSymbols,
+        params: {
+          workspaceId: 'phase1-sample',
+          query,
+          ...(maxResults === undefined ? {} : { maxResults }),
+        },
+      })
+    const ranked = await search(fallback, 'fake')
+    if (!('result' in ranked)) throw new Error('Workspace symbol search failed')
+    const symbols = ranked.result as Array<{ name: string; kind: string; elementId?: string; score: number }>
+    expect(symbols).toHaveLength(6)
+    expect(symbols.slice(0, 3).map((symbol) => [symbol.name, symbol.kind]))
+      .toEqual(Array.from({ length: 3 }, () => ['Fake', 'Package']))
+    expect(symbols.every((symbol) => typeof symbol.elementId === 'string')).toBe(true)
+    await expect(search(fallback, 'fk::ms', 2)).resolves.toMatchObject({
+      result: [
+        { name: 'mass', kind: 'AttributeUsage', containerName: 'Fake', qualifiedName: 'Fake::mass' },
+        { name: 'mass' },
+      ],
+    })
+    await expect(search(fallback, 'zzz')).resolves.toMatchObject({ result: [] })
+    await expect(search(fallback, 'mass', 5_000)).resolves.toMatchObject({
+      error: { code: -32602, message: 'maxResults must not exceed 1000' },
+    })
+
+    const engine = createService(
+      createFakeLspAdapter({ FAKE_LSP_WORKSPACE_SYMBOLS: '1' }),
+      [sampleRoot],
+    )
+    await initialize(engine)
+    await openSample(engine)
+    const engineSymbols = await search(engine, 'fa')
+    expect(engineSymbols).toMatchObject({
+      result: Array.from({ length: 3 }, () => ({ name: 'Fake', kind: 'package' })),
+    })
+    if (!('result' in engineSymbols)) throw new Error('Engine symbol search failed')
+    expect((engineSymbols.result as Array<{ elementId?: string }>)[0]?.elementId).toBeUndefined()
+  })
+
+  it('lists quick fixes for the workspace or one document', async () => {
+    const temporaryRoot = await mkdtemp(
+      join(tmpdir(), 'sysml-workbench-code-actions-'),
+    )
+    temporaryDirectories.push(temporaryRoot)
+    await cp(sampleRoot, temporaryRoot, { recursive: true })
+    const service = createService(createFakeLspAdapter({}, 'qualified'), [temporaryRoot])
+    await initialize(service)
+    const opened = await service.handle({
+      jsonrpc: '2.0',
+      id: 2,
+      method: WORKBENCH_METHODS.workspaceOpen,
+      params: { workspaceFile: resolve(temporaryRoot, 'sysml-workspace.yaml') },
+    })
+    if (!('result' in opened)) throw new Error('Workspace open failed')
+    const documentUri = (opened.result as { documents: Array<{ uri: string }> }).documents[0]!.uri
+    const codeActions = (params: Record<string, unknown>) => service.handle({
+      jsonrpc: '2.0',
+      id: 3,
+      method: WORKBENCH_METHODS.commandCodeActions,
+      params: { workspaceId: 'phase1-sample', ...params },
+    })
+
+    // Fake evidence has no requirements or interfaces and its diagnostics
+    // report no unresolved references, so nothing is offered.
+    await expect(codeActions({})).resolves.toMatchObject({ result: [] })
+    await expect(codeActions({ documentUri })).resolves.toMatchObject({ result: [] })
+    await expect(codeActions({ documentUri: 'file:///elsewhere/model.sysml' }))
+      .resolves.toMatchObject({ error: { code: -32010 } })
+    await expect(codeActions({ documentUri: 7 }))
+      .resolves.toMatchObject({ error: { code: -32602 } })
+  })
+
+  it('refetches only changed evidence and keeps unaffected cached queries', async () => {
+    const temporaryRoot = await mkdtemp(
+      join(tmpdir(), 'sysml-workbench-incremental-'),
+    )
+    temporaryDirectories.push(temporaryRoot)
+    await cp(sampleRoot, temporaryRoot, { recursive: true })
+    const adapter = createFakeLspAdapter({}, 'qualified')
+    const evidence = vi.spyOn(adapter, 'semanticEvidence')
+    const service = createService(adapter, [temporaryRoot])
+    await initialize(service)
+    await service.handle({
+      jsonrpc: '2.0',
+      id: 30,
+      method: WORKBENCH_METHODS.workspaceOpen,
+      params: {
+        workspaceFile: resolve(temporaryRoot, 'sysml-workspace.yaml'),
+      },
+    })
+    const snapshot = await service.handle({
+      jsonrpc: '2.0',
+      id: 31,
+      method: WORKBENCH_METHODS.semanticSnapshot,
+      params: { workspaceId: 'phase1-sample' },
+    })
+    if (!('result' in snapshot)) throw new Error('Snapshot request failed')
+    const semantic = snapshot.result as {
+      snapshotSha256: string
+      elements: Array<{ id: string; source: { uri: string } }>
+    }
+    expect(evidence).toHaveBeenCalledTimes(3)
+    const [unchanged, changed] = semantic.elements
+    const queryRequest = {
+      jsonrpc: '2.0' as const,
+      id: 32,
+      method: WORKBENCH_METHODS.modelQuery,
+      params: {
+        workspaceId: 'phase1-sample',
+        query: { schemaVersion: 1, roots: [unchanged!.id], depth: 0 },
+      },
+    }
+    const before = await service.handle(queryRequest)
+    if (!('result' in before)) throw new Error('Query request failed')
+    const changedText = await readFile(fileURLToPath(changed!.source.uri), 'utf8')
+    await service.handle({
+      jsonrpc: '2.0',
+      id: 33,
+      method: WORKBENCH_METHODS.languageDocumentChange,
+      params: {
+        workspaceId: 'phase1-sample',
+        documentUri: changed!.source.uri,
+        version: 2,
+        text: `${changedText}\n`,
+      },
+    })
+    evidence.mockClear()
+    const after = await service.handle({ ...queryRequest, id: 34 })
+    expect(evidence.mock.calls).toEqual([[changed!.source.uri]])
+    if (!('result' in after)) throw new Error('Refreshed query failed')
+    const refreshed = await service.handle({
+      jsonrpc: '2.0',
+      id: 35,
+      method: WORKBENCH_METHODS.semanticSnapshot,
+      params: { workspaceId: 'phase1-sample' },
+    })
+    if (!('result' in refreshed)) throw new Error('Snapshot request failed')
+    const refreshedSha256 = (refreshed.result as { snapshotSha256: string })
+      .snapshotSha256
+    expect(refreshedSha256).not.toBe(semantic.snapshotSha256)
+    expect(after.result).toEqual({
+      ...(before.result as object),
+      snapshotSha256: refreshedSha256,
+    })
+  })
+
+  it('publishes status, diagnostics, and snapshot notifications after an edit', async () => {
+    const temporaryRoot = await mkdtemp(
+      join(tmpdir(), 'sysml-workbench-notifications-'),
+    )
+    temporaryDirectories.push(temporaryRoot)
+    await cp(sampleRoot, temporaryRoot, { recursive: true })
+    const service = createService(
+      createFakeLspAdapter({}, 'qualified'),
+      [temporaryRoot],
+    )
+    const notifications: Array<{ method: string; params?: unknown }> = []
+    const unsubscribe = service.subscribe((message) => notifications.push(message))
+    service.subscribe(() => {
+      throw new Error('A broken subscriber')
+    })
+    await initialize(service)
+    const opened = await service.handle({
+      jsonrpc: '2.0',
+      id: 36,
+      method: WORKBENCH_METHODS.workspaceOpen,
+      params: {
+        workspaceFile: resolve(temporaryRoot, 'sysml-workspace.yaml'),
+      },
+    })
+    if (!('result' in opened)) throw new Error('Workspace open failed')
+    expect(notifications.map((message) => message.method)).toEqual([
+      'workspace/didChangeStatus',
+      'language/publishDiagnostics',
+      'semantic/didChangeSnapshot',
+    ])
+    notifications.length = 0
+    const documentUri = (opened.result as { documents: Array<{ uri: string }> })
+      .documents[0]!.uri
+    const changed = await service.handle({
+      jsonrpc: '2.0',
+      id: 37,
+      method: WORKBENCH_METHODS.languageDocumentChange,
+      params: {
+        workspaceId: 'phase1-sample',
+        documentUri,
+        version: 2,
+        text: `${await readFile(fileURLToPath(documentUri), 'utf8')}\n`,
+      },
+    })
+    expect(changed).toHaveProperty('result')
+    expect(notifications).toEqual([
+      {
+        jsonrpc: '2.0',
+        method: 'workspace/didChangeStatus',
+        params: expect.objectContaining({ workspaceId: 'phase1-sample' }),
+      },
+      {
+        jsonrpc: '2.0',
+        method: 'language/publishDiagnostics',
+        params: { workspaceId: 'phase1-sample', diagnostics: expect.any(Array) },
+      },
+      {
+        jsonrpc: '2.0',
+        method: 'semantic/didChangeSnapshot',
+        params: { workspaceId: 'phase1-sample', semanticRevision: 1 },
+      },
+    ])
+    unsubscribe()
+    await expect(service.handle({
+      jsonrpc: '2.0',
+      id: 38,
+      method: WORKBENCH_METHODS.languageRestart,
+      params: { workspaceId: 'phase1-sample' },
+    })).resolves.toHaveProperty('result')
+    expect(notifications).toHaveLength(3)
+  })
+
+  it('reconciles files changed outside the workbench and marks proposals stale', async () => {
+    const temporaryRoot = await mkdtemp(join(tmpdir(), 'sysml-workbench-watch-'))
+    temporaryDirectories.push(temporaryRoot)
+    await cp(sampleRoot, temporaryRoot, { recursive: true })
+    const adapter = createFakeLspAdapter(
+      { FAKE_LSP_DYNAMIC_SEMANTICS: '1' },
+      'qualified',
+    )
+    const service = createService(adapter, [temporaryRoot])
+    const notifications: Array<{ method: string; params?: unknown }> = []
+    service.subscribe((message) => notifications.push(message))
+    await initialize(service)
+    await service.handle({
+      jsonrpc: '2.0',
+      id: 38,
+      method: WORKBENCH_METHODS.workspaceOpen,
+      params: {
+        workspaceFile: resolve(temporaryRoot, 'sysml-workspace.yaml'),
+      },
+    })
+    const snapshot = await service.workspaces.semanticSnapshot('phase1-sample')
+    const proposal = await service.workspaces.proposeCommand({
+      schemaVersion: 1,
+      commandId: 'CMD-WATCH-001',
+      workspaceId: 'phase1-sample',
+      baseSnapshotSha256: snapshot.snapshotSha256,
+      baseDocuments: Object.fromEntries(
+        snapshot.documents.map((document) => [document.uri, document.sha256]),
+      ),
+      requestedBy: { kind: 'user', id: 'test-engineer' },
+      command: {
+        kind: 'rename-element',
+        targetId: snapshot.elements[0]!.id,
+        newName: 'RenamedPackage',
+      },
+    })
+    notifications.length = 0
+
+    const vehiclePath = resolve(temporaryRoot, 'model/vehicle.sysml')
+    await writeFile(vehiclePath, `${await readFile(vehiclePath, 'utf8')}\n`)
+    await writeFile(resolve(temporaryRoot, 'model/extra.sysml'), 'package Extra;\n')
+    await vi.waitFor(() => {
+      expect(notifications.map((message) => message.method)).toContain(
+        'command/didInvalidate',
+      )
+    }, { timeout: 10_000 })
+    const reason =
+      'Workspace sources changed outside the workbench (added model/extra.sysml, modified model/vehicle.sysml)'
+    expect(notifications.at(-1)).toEqual({
+      jsonrpc: '2.0',
+      method: 'command/didInvalidate',
+      params: {
+        workspaceId: 'phase1-sample',
+        proposalIds: [proposal.proposalId],
+        reason,
+      },
+    })
+    expect(service.workspaces.status('phase1-sample')).toMatchObject({
+      documentCount: 4,
+      indexState: 'ready',
+    })
+    const reconciled = await service.workspaces.semanticSnapshot('phase1-sample')
+    expect(reconciled.documents).toHaveLength(4)
+    expect(reconciled.snapshotSha256).not.toBe(snapshot.snapshotSha256)
+    await expect(service.workspaces.applyCommand({
+      workspaceId: 'phase1-sample',
+      proposalId: proposal.proposalId,
+      approvalId: 'APPROVAL-WATCH',
+      approvedBy: { kind: 'user', id: 'test-engineer' },
+    })).rejects.toThrow(`Command proposal is stale: ${reason}`)
+
+    notifications.length = 0
+    const restart = vi.spyOn(adapter, 'restartWorkspace')
+    await writeFile(vehiclePath, `${await readFile(vehiclePath, 'utf8')}\n`)
+    await vi.waitFor(() => {
+      expect(notifications.map((message) => message.method)).toContain(
+        'semantic/didChangeSnapshot',
+      )
+    }, { timeout: 10_000 })
+    expect(restart).not.toHaveBeenCalled()
+    const vehicle = service.workspaces.readDocument(
+      'phase1-sample',
+      pathToFileURL(vehiclePath).href,
+    )
+    expect(vehicle.text).toBe(await readFile(vehiclePath, 'utf8'))
+    expect(vehicle.version).toBe(3)
+  })
+
+  it('keeps unsaved edits when their file changes on disk and flags the conflict', async () => {
+    const temporaryRoot = await mkdtemp(join(tmpdir(), 'sysml-workbench-conflict-'))
+    temporaryDirectories.push(temporaryRoot)
+    await cp(sampleRoot, temporaryRoot, { recursive: true })
+    const service = createService(
+      createFakeLspAdapter({ FAKE_LSP_DYNAMIC_SEMANTICS: '1' }, 'qualified'),
+      [temporaryRoot],
+    )
+    const notifications: Array<{ method: string; params?: unknown }> = []
+    service.subscribe((message) => notifications.push(message))
+    await initialize(service)
+    await service.handle({
+      jsonrpc: '2.0',
+      id: 39,
+      method: WORKBENCH_METHODS.workspaceOpen,
+      params: {
+        workspaceFile: resolve(temporaryRoot, 'sysml-workspace.yaml'),
+      },
+    })
+    const vehiclePath = resolve(temporaryRoot, 'model/vehicle.sysml')
+    const vehicleUri = pathToFileURL(vehiclePath).href
+    const onDisk = await readFile(vehiclePath, 'utf8')
+    const edited = `${onDisk}\n// unsaved edit\n`
+    await service.workspaces.changeDocument('phase1-sample', vehicleUri, 2, edited)
+    const snapshot = await service.workspaces.semanticSnapshot('phase1-sample')
+    const proposal = await service.workspaces.proposeCommand({
+      schemaVersion: 1,
+      commandId: 'CMD-CONFLICT-001',
+      workspaceId: 'phase1-sample',
+      baseSnapshotSha256: snapshot.snapshotSha256,
+      baseDocuments: Object.fromEntries(
+        snapshot.documents.map((document) => [document.uri, document.sha256]),
+      ),
+      requestedBy: { kind: 'user', id: 'test-engineer' },
+      command: {
+        kind: 'rename-element',
+        targetId: snapshot.elements[0]!.id,
+        newName: 'RenamedPackage',
+      },
+    })
+    notifications.length = 0
+
+    await writeFile(vehiclePath, `${onDisk}\n// external write\n`)
+    await vi.waitFor(() => {
+      expect(notifications.map((message) => message.method)).toContain(
+        'command/didInvalidate',
+      )
+    }, { timeout: 10_000 })
+    expect(notifications.at(-1)).toMatchObject({
+      params: {
+        proposalIds: [proposal.proposalId],
+        reason:
+          'Workspace sources changed outside the workbench (modified model/vehicle.sysml under unsaved edits)',
+      },
+    })
+    expect(service.workspaces.readDocument('phase1-sample', vehicleUri)).toMatchObject({
+      text: edited,
+      version: 2,
+      diskConflict: true,
+    })
+    expect(
+      service.workspaces.status('phase1-sample').documents.find(
+        (document) => document.uri === vehicleUri,
+      ),
+    ).toMatchObject({ diskConflict: true })
+
+    await service.workspaces.changeDocument(
+      'phase1-sample',
+      vehicleUri,
+      3,
+      await readFile(vehiclePath, 'utf8'),
+    )
+    expect(service.workspaces.readDocument('phase1-sample', vehicleUri)).not.toHaveProperty('diskConflict')
+  })
+
+  it('evaluates workspace rule packs declared next to the workspace file', async () => {
+    const temporaryRoot = await mkdtemp(join(tmpdir(), 'sysml-workbench-rules-'))
+    temporaryDirectories.push(temporaryRoot)
+    await cp(sampleRoot, temporaryRoot, { recursive: true })
+    const configuration = await readFile(resolve(temporaryRoot, 'sysml-workspace.yaml'), 'utf8')
+    await writeFile(resolve(temporaryRoot, 'sysml-workspace.yaml'), `${configuration}rulePacks:\n  - program-standards.yaml\nassuranceCoverage: indirect\n`)
+    await writeFile(resolve(temporaryRoot, 'program-standards.yaml'), [
+      'schemaVersion: 1',
+      'id: program/standards',
+      'version: 1.0.0',
+      'rules:',
+      '  - id: PRG-PACKAGE-NAMES',
+      '    severity: minor',
+      '    domain: modeling',
+      '    statement: Package {qualifiedName} does not use the phase prefix.',
+      '    remediation: Rename the package.',
+      '    match: { kinds: [Package] }',
+      '    require:',
+      "      nameMatches: 'Phase[0-9]*'",
+      '',
+    ].join('\n'))
+    const service = createService(createFakeLspAdapter({}, 'qualified'), [temporaryRoot])
+    await initialize(service)
+    await service.handle({
+      jsonrpc: '2.0', id: 60, method: WORKBENCH_METHODS.workspaceOpen,
+      params: { workspaceFile: resolve(temporaryRoot, 'sysml-workspace.yaml') },
+    })
+    const response = await service.handle({
+      jsonrpc: '2.0', id: 61, method: WORKBENCH_METHODS.assuranceEvaluate,
+      params: { workspaceId: 'phase1-sample' },
+    })
+    expect(response).toMatchObject({
+      result: {
+        coverage: 'indirect',
+        rulePack: { userPacks: [{ id: 'program/standards', version: '1.0.0' }] },
+      },
+    })
+    if (!('result' in response)) throw new Error('Assurance failed')
+    const findings = (response.result as { findings: Array<{ ruleId: string; ruleVersion: string; statement: string }> }).findings
+    const packageFindings = findings.filter((finding) => finding.ruleId === 'PRG-PACKAGE-NAMES')
+    expect(packageFindings).toHaveLength(3)
+    expect(packageFindings[0]).toMatchObject({ ruleVersion: '1.0.0', statement: 'Package Fake does not use the phase prefix.' })
+
+    await writeFile(resolve(temporaryRoot, 'program-standards.yaml'), 'schemaVersion: 1\nid: program/standards\nversion: next\nrules: []\n')
+    await expect(service.handle({
+      jsonrpc: '2.0', id: 62, method: WORKBENCH_METHODS.assuranceEvaluate,
+      params: { workspaceId: 'phase1-sample' },
+    })).resolves.toMatchObject({ error: { message: expect.stringContaining('major.minor.patch') } })
+
+    await writeFile(resolve(temporaryRoot, 'program-standards.yaml'), ' '.repeat(1024 * 1024 + 1))
+    await expect(service.handle({
+      jsonrpc: '2.0', id: 63, method: WORKBENCH_METHODS.assuranceEvaluate,
+      params: { workspaceId: 'phase1-sample' },
+    })).resolves.toMatchObject({
+      error: { message: 'Rule pack exceeds 1048576 bytes: program-standards.yaml' },
+    })
+  })
+
   it('exposes assurance, Git baselines, anchored reviews, and reproducible reports', async () => {
     const temporaryRoot = await mkdtemp(join(tmpdir(), 'sysml-workbench-assurance-'))
     temporaryDirectories.push(temporaryRoot)
@@ -520,7 +1061,7 @@ describe('WorkbenchService', () => {
       method: WORKBENCH_METHODS.assuranceEvaluate,
       params: { workspaceId: 'phase1-sample' },
     })).resolves.toMatchObject({
-      result: { schemaVersion: 1, rulePack: { version: '1.0.0' } },
+      result: { schemaVersion: 1, coverage: 'direct', rulePack: { version: '1.3.0' } },
     })
     await expect(service.handle({
       jsonrpc: '2.0',
@@ -539,6 +1080,11 @@ describe('WorkbenchService', () => {
     })).resolves.toMatchObject({ result: { id: 'baseline-a' } })
     await git(temporaryRoot, ['add', 'baselines'])
     await git(temporaryRoot, ['-c', 'commit.gpgsign=false', 'commit', '-m', 'record baseline'])
+    const reviewStates: string[] = []
+    service.subscribe((message) => {
+      if (message.method !== 'review/didChange') return
+      reviewStates.push((message.params as { review: { status: string } }).review.status)
+    })
 
     await expect(service.handle({
       jsonrpc: '2.0',
@@ -601,6 +1147,7 @@ describe('WorkbenchService', () => {
         input: { actor: 'chair', at: '2026-07-25T12:04:00.000Z' },
       },
     })).resolves.toMatchObject({ result: { status: 'closed' } })
+    expect(reviewStates).toEqual(['open', 'in-review', 'in-review', 'closed'])
     await expect(service.handle({
       jsonrpc: '2.0',
       id: 49,
@@ -1047,6 +1594,227 @@ describe('WorkbenchService', () => {
     })
   })
 
+  it('keeps a ReqIF identifier as an identity alias when its command is applied', async () => {
+    const temporaryRoot = await mkdtemp(join(tmpdir(), 'sysml-workbench-reqif-alias-'))
+    temporaryDirectories.push(temporaryRoot)
+    await cp(sampleRoot, temporaryRoot, { recursive: true })
+    const service = createService(
+      createFakeLspAdapter({ FAKE_LSP_DYNAMIC_SEMANTICS: '1' }, 'qualified'),
+      [temporaryRoot],
+    )
+    await initialize(service)
+    await service.handle({
+      jsonrpc: '2.0',
+      id: 75,
+      method: WORKBENCH_METHODS.workspaceOpen,
+      params: { workspaceFile: resolve(temporaryRoot, 'sysml-workspace.yaml') },
+    })
+    const snapshot = await service.workspaces.semanticSnapshot('phase1-sample')
+    const target = snapshot.elements[0]!
+    const envelope = {
+      schemaVersion: 1 as const,
+      commandId: 'CMD-REQIF-ALIAS-001',
+      workspaceId: 'phase1-sample',
+      baseSnapshotSha256: snapshot.snapshotSha256,
+      baseDocuments: Object.fromEntries(
+        snapshot.documents.map((document) => [document.uri, document.sha256]),
+      ),
+      requestedBy: { kind: 'user' as const, id: 'test-engineer' },
+      command: { kind: 'rename-element' as const, targetId: target.id, newName: 'ImportedPackage' },
+    }
+    await expect(service.workspaces.proposeCommand({
+      ...envelope,
+      commandId: 'CMD-REQIF-ALIAS-BAD',
+      externalAlias: { scheme: 'ReqIF', identifier: 'DOORS-42' },
+    })).rejects.toThrow('Command externalAlias is invalid')
+    const proposal = await service.workspaces.proposeCommand({
+      ...envelope,
+      externalAlias: { scheme: 'reqif', identifier: 'DOORS-42' },
+    })
+    await service.workspaces.applyCommand({
+      workspaceId: 'phase1-sample',
+      proposalId: proposal.proposalId,
+      approvalId: 'APPROVAL-REQIF-ALIAS',
+      approvedBy: { kind: 'user', id: 'test-engineer' },
+    })
+    const registry = JSON.parse(await readFile(
+      resolve(temporaryRoot, 'identities/model-identities.json'),
+      'utf8',
+    )) as { records: Array<{ id: string; externalAliases?: unknown[] }> }
+    expect(registry.records.find((record) => record.id === target.id)?.externalAliases).toEqual([
+      { scheme: 'reqif', identifier: 'DOORS-42', commandId: 'CMD-REQIF-ALIAS-001' },
+    ])
+
+    const reqif = [
+      '<REQ-IF><CORE-CONTENT><REQ-IF-CONTENT>',
+      '<SPEC-TYPES><SPEC-OBJECT-TYPE IDENTIFIER="t" LONG-NAME="Package"><SPEC-ATTRIBUTES>',
+      '<ATTRIBUTE-DEFINITION-STRING IDENTIFIER="n" LONG-NAME="ReqIF.Name"/>',
+      '</SPEC-ATTRIBUTES></SPEC-OBJECT-TYPE></SPEC-TYPES>',
+      '<SPEC-OBJECTS><SPEC-OBJECT IDENTIFIER="DOORS-42"><TYPE><SPEC-OBJECT-TYPE-REF>t</SPEC-OBJECT-TYPE-REF></TYPE>',
+      '<VALUES><ATTRIBUTE-VALUE-STRING THE-VALUE="ImportedPackage"><DEFINITION><ATTRIBUTE-DEFINITION-STRING-REF>n</ATTRIBUTE-DEFINITION-STRING-REF></DEFINITION></ATTRIBUTE-VALUE-STRING></VALUES>',
+      '</SPEC-OBJECT></SPEC-OBJECTS>',
+      '</REQ-IF-CONTENT></CORE-CONTENT></REQ-IF>',
+    ].join('')
+    await expect(service.handle({
+      jsonrpc: '2.0',
+      id: 76,
+      method: WORKBENCH_METHODS.modelImportReqif,
+      params: { workspaceId: 'phase1-sample', reqif, ownerId: target.id },
+    })).resolves.toMatchObject({
+      result: {
+        format: 'reqif',
+        proposals: [],
+        matched: [{ sourceId: 'DOORS-42', elementId: target.id }],
+      },
+    })
+    await expect(service.handle({
+      jsonrpc: '2.0',
+      id: 77,
+      method: WORKBENCH_METHODS.modelImportReqif,
+      params: { workspaceId: 'phase1-sample', reqif: 42, ownerId: target.id },
+    })).resolves.toMatchObject({
+      error: { message: 'reqif must be a non-empty string' },
+    })
+  })
+
+  it('reads requirement tables and plans their import against the snapshot', async () => {
+    const temporaryRoot = await mkdtemp(join(tmpdir(), 'sysml-workbench-requirement-table-'))
+    temporaryDirectories.push(temporaryRoot)
+    await cp(sampleRoot, temporaryRoot, { recursive: true })
+    const service = createService(createFakeLspAdapter({}, 'qualified'), [temporaryRoot])
+    await initialize(service)
+    await service.handle({
+      jsonrpc: '2.0',
+      id: 78,
+      method: WORKBENCH_METHODS.workspaceOpen,
+      params: { workspaceFile: resolve(temporaryRoot, 'sysml-workspace.yaml') },
+    })
+    const snapshot = await service.workspaces.semanticSnapshot('phase1-sample')
+    const target = snapshot.elements[0]!
+    const csv = `Key,Title\n${target.id},Renamed\n`
+    const read = await service.handle({
+      jsonrpc: '2.0',
+      id: 79,
+      method: WORKBENCH_METHODS.modelReadRequirementTable,
+      params: { fileName: 'requirements.csv', content: Buffer.from(csv).toString('base64') },
+    })
+    expect(read).toMatchObject({
+      result: { columns: ['Key', 'Title'], rows: [[target.id, 'Renamed']] },
+    })
+    await expect(service.handle({
+      jsonrpc: '2.0',
+      id: 80,
+      method: WORKBENCH_METHODS.modelImportRequirementTable,
+      params: {
+        workspaceId: 'phase1-sample',
+        table: (read as { result: unknown }).result,
+        mapping: { id: 'Key', name: 'Title' },
+        ownerId: target.id,
+      },
+    })).resolves.toMatchObject({
+      result: {
+        format: 'requirement-table',
+        proposals: [],
+        matched: [{ sourceId: target.id, elementId: target.id }],
+      },
+    })
+    await expect(service.handle({
+      jsonrpc: '2.0',
+      id: 81,
+      method: WORKBENCH_METHODS.modelImportRequirementTable,
+      params: {
+        workspaceId: 'phase1-sample',
+        table: { columns: ['Title'], rows: [] },
+        mapping: { name: 'Title', parent: 3 },
+        ownerId: target.id,
+      },
+    })).resolves.toMatchObject({
+      error: { code: -32602, message: 'mapping.parent must be a string' },
+    })
+  })
+
+  it('exports a saved view as SVG and byte-deterministic PDF', async () => {
+    const temporaryRoot = await mkdtemp(join(tmpdir(), 'sysml-workbench-view-export-'))
+    temporaryDirectories.push(temporaryRoot)
+    await cp(sampleRoot, temporaryRoot, { recursive: true })
+    const service = createService(createFakeLspAdapter({}, 'qualified'), [temporaryRoot])
+    await initialize(service)
+    await service.handle({
+      jsonrpc: '2.0',
+      id: 82,
+      method: WORKBENCH_METHODS.workspaceOpen,
+      params: { workspaceFile: resolve(temporaryRoot, 'sysml-workspace.yaml') },
+    })
+    await service.workspaces.saveView('phase1-sample', {
+      schemaVersion: 1,
+      id: 'structure',
+      name: 'Structure',
+      query: { mode: 'containment', depth: 5 },
+      notation: 'model-structure',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    })
+    const snapshot = await service.workspaces.semanticSnapshot('phase1-sample')
+    const exportView = (id: number, format: unknown) => service.handle({
+      jsonrpc: '2.0',
+      id,
+      method: WORKBENCH_METHODS.workspaceExportView,
+      params: { workspaceId: 'phase1-sample', viewId: 'structure', format, generatedAt: '2026-01-02T00:00:00.000Z' },
+    })
+
+    const svg = await exportView(83, 'svg')
+    expect(svg).toMatchObject({
+      result: {
+        viewId: 'structure',
+        format: 'svg',
+        mediaType: 'image/svg+xml',
+        fileName: 'structure.svg',
+        encoding: 'utf8',
+        snapshotSha256: snapshot.snapshotSha256,
+      },
+    })
+    const svgContent = (svg as { result: { content: string } }).result.content
+    expect(svgContent).toContain(`data-snapshot-sha256="${snapshot.snapshotSha256}"`)
+    expect(svgContent).toContain('view structure: Structure')
+
+    const pdf = await exportView(84, 'pdf')
+    expect(pdf).toMatchObject({ result: { mediaType: 'application/pdf', fileName: 'structure.pdf', encoding: 'base64' } })
+    const pdfResult = (pdf as { result: { content: string; sha256: string } }).result
+    expect(Buffer.from(pdfResult.content, 'base64').subarray(0, 5).toString('latin1')).toBe('%PDF-')
+    await expect(exportView(85, 'pdf')).resolves.toMatchObject({ result: { sha256: pdfResult.sha256 } })
+
+    await expect(exportView(86, 'png')).resolves.toMatchObject({
+      error: { code: -32602, message: 'format must be svg or pdf' },
+    })
+    await expect(service.handle({
+      jsonrpc: '2.0',
+      id: 87,
+      method: WORKBENCH_METHODS.workspaceExportView,
+      params: { workspaceId: 'phase1-sample', viewId: 'missing', format: 'svg' },
+    })).resolves.toMatchObject({ error: { code: -32010, message: 'Unknown view: missing' } })
+
+    const unsaved = await service.handle({
+      jsonrpc: '2.0',
+      id: 88,
+      method: WORKBENCH_METHODS.workspaceExportView,
+      params: {
+        workspaceId: 'phase1-sample',
+        view: {
+          schemaVersion: 1,
+          id: 'draft',
+          name: 'Draft',
+          query: { mode: 'containment', depth: 5 },
+          notation: 'model-structure',
+          updatedAt: '2026-01-01T00:00:00.000Z',
+        },
+        format: 'svg',
+        generatedAt: '2026-01-02T00:00:00.000Z',
+      },
+    })
+    expect(unsaved).toMatchObject({ result: { viewId: 'draft', fileName: 'draft.svg' } })
+    expect((await service.workspaces.listViews('phase1-sample')).map((view) => view.id))
+      .toEqual(['structure'])
+  })
+
   it('rejects an identity registry path that traverses a workspace symlink', async () => {
     const temporaryRoot = await mkdtemp(
       join(tmpdir(), 'sysml-workbench-identity-link-'),
@@ -1,6 +1,7 @@
 import {
   failure,
   JSON_RPC_ERRORS,
+  notification,
   requireRecord,
   requireString,
   success,
@@ -8,6 +9,7 @@ import {
   WORKBENCH_PROTOCOL_VERSION,
   type InitializeParams,
   type InitializeResult,
+  type JsonRpcNotification,
   type JsonRpcRequest,
   type JsonRpcResponse,
 } from '../../workbench-protocol/src/index.js'
@@ -23,6 +25,12 @@ import type {
   AiAssistantRequest,
   AiProvider,
 } from '../../ai-orchestrator/src/index.js'
+import type {
+  RequirementTable,
+  RequirementTableMapping,
+} from '../../model-exchange/src/index.js'
+import type { DiagramExportFormat } from '../../report-engine/src/index.js'
+import { MAX_WORKSPACE_SYMBOL_RESULTS } from './symbol-search.js'
 import { WorkspaceManager } from './workspace.js'
 import type {
   AddReviewFindingInput,
@@ -34,27 +42,55 @@ import type {
 
 export interface WorkbenchServiceOptions {
   adapter: LanguageAdapter
+  createAdapter?(): Promise<LanguageAdapter>
+  maxWorkspaces?: number
   allowedRoots: string[]
   transport: InitializeResult['transport']
   serviceVersion?: string
   aiProviders?: AiProvider[]
   allowNetworkAi?: boolean
+  modelRepositoryToken?: string
 }
 
+export type WorkbenchNotificationListener = (
+  notification: JsonRpcNotification,
+) => void
+
 export class WorkbenchService {
   readonly workspaces: WorkspaceManager
   private initialized = false
+  private readonly listeners = new Set<WorkbenchNotificationListener>()
 
   constructor(private readonly options: WorkbenchServiceOptions) {
     this.workspaces = new WorkspaceManager({
       allowedRoots: options.allowedRoots,
       adapter: options.adapter,
+      createAdapter: options.createAdapter,
+      maxWorkspaces: options.maxWorkspaces,
       workbenchVersion: options.serviceVersion,
       aiProviders: options.aiProviders,
       allowNetworkAi: options.allowNetworkAi,
+      modelRepositoryToken: options.modelRepositoryToken,
+      onNotification: ({ method, params }) => {
+        const message = notification(method, params)
+        for (const listener of this.listeners) {
+          try {
+            listener(message)
+          } catch {
+            // A failing subscriber must not fail the mutation that notified it.
+          }
+        }
+      },
     })
   }
 
+  subscribe(listener: WorkbenchNotificationListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
   async handle(request: JsonRpcRequest): Promise<JsonRpcResponse> {
     try {
       if (
@@ -87,6 +123,8 @@ export class WorkbenchService {
             ),
           )
         }
+        case WORKBENCH_METHODS.workspaceList:
+          return success(request.id, this.workspaces.list())
         case WORKBENCH_METHODS.workspaceStatus: {
           const params = requireRecord(request.params)
           return success(
@@ -122,6 +160,22 @@ export class WorkbenchService {
             ),
           )
         }
+        case WORKBENCH_METHODS.workspaceExportView: {
+          const params = requireRecord(request.params)
+          return success(
+            request.id,
+            await this.workspaces.exportView(
+              requireString(params.workspaceId, 'workspaceId'),
+              params.view === undefined
+                ? requireString(params.viewId, 'viewId')
+                : params.view,
+              diagramExportFormat(params.format),
+              params.generatedAt === undefined
+                ? new Date().toISOString()
+                : requireString(params.generatedAt, 'generatedAt'),
+            ),
+          )
+        }
         case WORKBENCH_METHODS.workspaceClose: {
           const params = requireRecord(request.params)
           return success(request.id, {
@@ -149,6 +203,25 @@ export class WorkbenchService {
             ),
           )
         }
+        case WORKBENCH_METHODS.languageWorkspaceSymbols: {
+          const params = requireRecord(request.params)
+          const maxResults = params.maxResults === undefined
+            ? undefined
+            : requirePositiveInteger(params.maxResults, 'maxResults')
+          if (maxResults !== undefined && maxResults > MAX_WORKSPACE_SYMBOL_RESULTS) {
+            throw new TypeError(
+              `maxResults must not exceed ${MAX_WORKSPACE_SYMBOL_RESULTS}`,
+            )
+          }
+          return success(
+            request.id,
+            await this.workspaces.workspaceSymbols(
+              requireString(params.workspaceId, 'workspaceId'),
+              requireStringValue(params.query, 'query'),
+              maxResults,
+            ),
+          )
+        }
         case WORKBENCH_METHODS.languageDefinition: {
           const params = languagePositionParams(request.params)
           return success(
@@ -267,6 +340,73 @@ export class WorkbenchService {
             ),
           )
         }
+        case WORKBENCH_METHODS.modelExportSysmlApi: {
+          const params = requireRecord(request.params)
+          return success(
+            request.id,
+            await this.workspaces.exportSysmlApi(
+              requireString(params.workspaceId, 'workspaceId'),
+            ),
+          )
+        }
+        case WORKBENCH_METHODS.modelImportSysmlApi: {
+          const params = requireRecord(request.params)
+          if (!Array.isArray(params.elements)) {
+            throw new TypeError('elements must be an array')
+          }
+          return success(
+            request.id,
+            await this.workspaces.planSysmlApiImport(
+              requireString(params.workspaceId, 'workspaceId'),
+              params.elements,
+            ),
+          )
+        }
+        case WORKBENCH_METHODS.modelExportReqif: {
+          const params = requireRecord(request.params)
+          return success(
+            request.id,
+            await this.workspaces.exportReqif(
+              requireString(params.workspaceId, 'workspaceId'),
+              params.createdAt === undefined
+                ? new Date().toISOString()
+                : requireString(params.createdAt, 'createdAt'),
+            ),
+          )
+        }
+        case WORKBENCH_METHODS.modelImportReqif: {
+          const params = requireRecord(request.params)
+          return success(
+            request.id,
+            await this.workspaces.planReqifImport(
+              requireString(params.workspaceId, 'workspaceId'),
+              requireString(params.reqif, 'reqif'),
+              requireString(params.ownerId, 'ownerId'),
+            ),
+          )
+        }
+        case WORKBENCH_METHODS.modelReadRequirementTable: {
+          const params = requireRecord(request.params)
+          return success(
+            request.id,
+            this.workspaces.readRequirementTable(
+              requireString(params.fileName, 'fileName'),
+              Buffer.from(requireString(params.content, 'content'), 'base64'),
+            ),
+          )
+        }
+        case WORKBENCH_METHODS.modelImportRequirementTable: {
+          const params = requireRecord(request.params)
+          return success(
+            request.id,
+            await this.workspaces.planRequirementTableImport(
+              requireString(params.workspaceId, 'workspaceId'),
+              requireRecord(params.table, 'table') as unknown as RequirementTable,
+              requirementTableMapping(params.mapping),
+              requireString(params.ownerId, 'ownerId'),
+            ),
+          )
+        }
         case WORKBENCH_METHODS.assuranceEvaluate: {
           const params = requireRecord(request.params)
           return success(
@@ -314,6 +454,35 @@ export class WorkbenchService {
             ),
           )
         }
+        case WORKBENCH_METHODS.baselinePublish: {
+          const params = requireRecord(request.params)
+          return success(
+            request.id,
+            await this.workspaces.publishBaseline(
+              requireString(params.workspaceId, 'workspaceId'),
+              requireString(params.baselineId, 'baselineId'),
+            ),
+          )
+        }
+        case WORKBENCH_METHODS.baselineListRemote: {
+          const params = requireRecord(request.params)
+          return success(
+            request.id,
+            await this.workspaces.listRemoteBaselines(
+              requireString(params.workspaceId, 'workspaceId'),
+            ),
+          )
+        }
+        case WORKBENCH_METHODS.baselineCompareRemote: {
+          const params = requireRecord(request.params)
+          return success(
+            request.id,
+            await this.workspaces.compareRemoteBaseline(
+              requireString(params.workspaceId, 'workspaceId'),
+              requireString(params.commitId, 'commitId'),
+            ),
+          )
+        }
         case WORKBENCH_METHODS.reviewList: {
           const params = requireRecord(request.params)
           return success(
@@ -419,6 +588,18 @@ export class WorkbenchService {
             ),
           )
         }
+        case WORKBENCH_METHODS.commandCodeActions: {
+          const params = requireRecord(request.params)
+          return success(
+            request.id,
+            await this.workspaces.codeActions(
+              requireString(params.workspaceId, 'workspaceId'),
+              params.documentUri === undefined
+                ? undefined
+                : requireString(params.documentUri, 'documentUri'),
+            ),
+          )
+        }
         case WORKBENCH_METHODS.commandPropose:
           return success(
             request.id,
@@ -471,6 +652,7 @@ export class WorkbenchService {
   }
 
   async dispose(): Promise<void> {
+    this.listeners.clear()
     await this.workspaces.dispose()
   }
 
@@ -539,6 +721,28 @@ function languagePositionParams(value: unknown): {
   }
 }
 
+function requirementTableMapping(value: unknown): RequirementTableMapping {
+  const mapping = requireRecord(value, 'mapping')
+  const optional = (field: Exclude<keyof RequirementTableMapping, 'name'>) =>
+    mapping[field] === undefined
+      ? {}
+      : { [field]: requireStringValue(mapping[field], `mapping.${field}`) }
+  return {
+    name: requireString(mapping.name, 'mapping.name'),
+    ...optional('id'),
+    ...optional('text'),
+    ...optional('parent'),
+    ...optional('satisfiedBy'),
+  }
+}
+
+function diagramExportFormat(value: unknown): DiagramExportFormat {
+  if (value !== 'svg' && value !== 'pdf') {
+    throw new TypeError('format must be svg or pdf')
+  }
+  return value
+}
+
 function requireNonNegativeInteger(value: unknown, fieldName: string): number {
   if (!Number.isInteger(value) || (value as number) < 0) {
     throw new TypeError(`${fieldName} must be a non-negative integer`)
@@ -0,0 +1,44 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import type { WorkbenchWorkspaceSymbol } from '../../workbench-protocol/src/index.js'
+import { fuzzySymbolScore, rankWorkspaceSymbols } from './symbol-search.js'
+
+describe('workspace symbol ranking', () => {
+  it('prefers exact, prefix and boundary matches over scattered ones', () => {
+    expect(fuzzySymbolScore('VehicleSpeed', 'vehiclespeed')).toBe(1_000)
+    expect(fuzzySymbolScore('vsp', 'VehicleSpeed')!).toBeGreaterThan(fuzzySymbolScore('vsp', 'vehiclesupplyport')!)
+    expect(fuzzySymbolScore('veh', 'Vehicle')!).toBeGreaterThan(fuzzySymbolScore('veh', 'Supervehicle')!)
+    expect(fuzzySymbolScore('xyz', 'Vehicle')).toBeUndefined()
+  })
+
+  it('matches qualified queries against qualified names and bounds results', () => {
+    const symbols = [
+      symbol('speed', 'Vehicle::Engine'),
+      symbol('speed', 'Vehicle::Wheel'),
+      symbol('Speedometer', 'Vehicle'),
+      symbol('mass', 'Vehicle::Engine'),
+    ]
+    expect(rankWorkspaceSymbols(symbols, 'speed').map((item) => item.qualifiedName)).toEqual([
+      'Vehicle::Engine::speed',
+      'Vehicle::Wheel::speed',
+      'Vehicle::Speedometer',
+    ])
+    expect(rankWorkspaceSymbols(symbols, 'wheel::sp').map((item) => item.qualifiedName))
+      .toEqual(['Vehicle::Wheel::speed'])
+    expect(rankWorkspaceSymbols(symbols, '', 2)).toHaveLength(2)
+  })
+})
+
+function symbol(name: string, containerName: string): WorkbenchWorkspaceSymbol {
+  return {
+    name,
+    kind: 'AttributeUsage',
+    containerName,
+    qualifiedName: `${containerName}::${name}`,
+    location: {
+      uri: 'file:///workspace/model.sysml',
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+    },
+    score: 0,
+  }
+}
@@ -0,0 +1,95 @@
+import type { SemanticSnapshot } from '../../semantic-model/src/index.js'
+import type { WorkbenchWorkspaceSymbol } from '../../workbench-protocol/src/index.js'
+
+export const DEFAULT_WORKSPACE_SYMBOL_RESULTS = 100
+export const MAX_WORKSPACE_SYMBOL_RESULTS = 1_000
+
+const BOUNDARY_CHARACTERS = new Set([':', '.', '_', '-', ' ', '/'])
+
+// Scores a case-insensitive subsequence match. Consecutive characters and
+// characters at word, segment or camel-case boundaries score higher, so
+// "vsp" ranks VehicleSpeed above vehiclesupplyport.
+export function fuzzySymbolScore(
+  query: string,
+  candidate: string,
+): number | undefined {
+  const needle = query.trim().toLocaleLowerCase()
+  if (!needle) return 0
+  const haystack = candidate.toLocaleLowerCase()
+  if (haystack === needle) return 1_000
+  let score = 0
+  let previous = -1
+  for (const character of needle) {
+    const index = haystack.indexOf(character, previous + 1)
+    if (index < 0) return undefined
+    score += 10
+    if (index === previous + 1) score += 15
+    if (isBoundary(candidate, index)) score += 20
+    score -= Math.min(index - previous - 1, 10)
+    previous = index
+  }
+  if (haystack.startsWith(needle)) score += 50
+  else if (haystack.includes(needle)) score += 25
+  return score - Math.min(haystack.length - needle.length, 50) / 10
+}
+
+// Ranks engine or snapshot symbols against the query. Queries containing a
+// namespace separator are matched against qualified names only; otherwise the
+// simple name is preferred and the qualified name is a weaker fallback.
+export function rankWorkspaceSymbols(
+  symbols: WorkbenchWorkspaceSymbol[],
+  query: string,
+  maxResults = DEFAULT_WORKSPACE_SYMBOL_RESULTS,
+): WorkbenchWorkspaceSymbol[] {
+  const qualifiedQuery = /::|\./.test(query)
+  return symbols
+    .flatMap((symbol) => {
+      const qualifiedName = symbol.qualifiedName
+        ?? (symbol.containerName ? `${symbol.containerName}::${symbol.name}` : symbol.name)
+      const nameScore = qualifiedQuery ? undefined : fuzzySymbolScore(query, symbol.name)
+      const qualifiedScore = fuzzySymbolScore(query, qualifiedName)
+      const score = Math.max(
+        nameScore ?? Number.NEGATIVE_INFINITY,
+        qualifiedScore === undefined
+          ? Number.NEGATIVE_INFINITY
+          : qualifiedQuery ? qualifiedScore : qualifiedScore - 5,
+      )
+      return Number.isFinite(score) ? [{ ...symbol, score }] : []
+    })
+    .sort((left, right) =>
+      right.score - left.score ||
+      left.name.length - right.name.length ||
+      (left.qualifiedName ?? left.name).localeCompare(right.qualifiedName ?? right.name) ||
+      left.location.uri.localeCompare(right.location.uri))
+    .slice(0, maxResults)
+}
+
+export function snapshotWorkspaceSymbols(
+  snapshot: SemanticSnapshot,
+): WorkbenchWorkspaceSymbol[] {
+  return snapshot.elements
+    .filter((element) => element.name)
+    .map((element) => {
+      const suffix = `::${element.name}`
+      const containerName = element.qualifiedName.endsWith(suffix)
+        ? element.qualifiedName.slice(0, -suffix.length)
+        : ''
+      return {
+        name: element.name,
+        kind: element.kind,
+        ...(containerName ? { containerName } : {}),
+        qualifiedName: element.qualifiedName,
+        elementId: element.id,
+        location: { uri: element.source.uri, range: element.source.range },
+        score: 0,
+      }
+    })
+}
+
+function isBoundary(candidate: string, index: number): boolean {
+  if (index === 0) return true
+  const before = candidate[index - 1]!
+  const current = candidate[index]!
+  return BOUNDARY_CHARACTERS.has(before) ||
+    (before === before.toLocaleLowerCase() && current !== current.toLocaleLowerCase())
+}
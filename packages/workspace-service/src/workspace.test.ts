@@ -1,6 +1,7 @@
 // @vitest-environment node
 import { createHash } from 'node:crypto'
 import {
+  cp,
   mkdtemp,
   mkdir,
   readFile,
@@ -11,7 +12,7 @@ import {
 import { tmpdir } from 'node:os'
 import { dirname, resolve } from 'node:path'
 import { fileURLToPath } from 'node:url'
-import { afterEach, describe, expect, it } from 'vitest'
+import { afterEach, describe, expect, it, vi } from 'vitest'
 import { PreservationControlAdapter } from '../../language-adapter/src/index.js'
 import { WorkspaceManager } from './workspace.js'
 
@@ -21,8 +22,23 @@ const sampleRoot = resolve(
 )
 const fixturesRoot = resolve(sampleRoot, '..', '..')
 const managers: WorkspaceManager[] = []
+const watchFailure = vi.hoisted(() => ({ code: undefined as string | undefined }))
+
+vi.mock('node:fs', async (importOriginal) => {
+  const fs = await importOriginal<typeof import('node:fs')>()
+  return {
+    ...fs,
+    watch: ((...parameters: Parameters<typeof fs.watch>) => {
+      if (!watchFailure.code) return fs.watch(...parameters)
+      throw Object.assign(new Error(`${watchFailure.code}: watch failed`), {
+        code: watchFailure.code,
+      })
+    }) as typeof fs.watch,
+  }
+})
 
 afterEach(async () => {
+  watchFailure.code = undefined
   await Promise.all(managers.splice(0).map((manager) => manager.dispose()))
 })
 
@@ -76,6 +92,26 @@ describe('WorkspaceManager', () => {
     ).rejects.toThrow(/Symbolic link escapes/)
   })
 
+  it('rescans on a timer when the platform refuses to watch the sources', async () => {
+    const root = await mkdtemp(resolve(tmpdir(), 'sysml-workbench-'))
+    await cp(sampleRoot, root, { recursive: true })
+    watchFailure.code = 'ENOSPC'
+    const manager = new WorkspaceManager({
+      allowedRoots: [root],
+      adapter: new PreservationControlAdapter(),
+      watchDebounceMs: 10,
+      watchPollMs: 50,
+    })
+    managers.push(manager)
+
+    const opened = await manager.open(resolve(root, 'sysml-workspace.yaml'))
+    expect(opened.documentCount).toBe(3)
+    await writeFile(resolve(root, 'model/extra.sysml'), 'package Extra;\n')
+    await vi.waitFor(() => {
+      expect(manager.status(opened.workspaceId).documentCount).toBe(4)
+    }, { timeout: 5_000 })
+  })
+
   it('inventories unknown syntax without changing source bytes', async () => {
     const root = resolve(fixturesRoot, 'workspaces/phase1-preservation')
     const source = resolve(root, 'model/preservation.sysml')
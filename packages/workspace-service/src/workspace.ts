@@ -1,4 +1,5 @@
 import { createHash } from 'node:crypto'
+import { watch, type FSWatcher } from 'node:fs'
 import {
   lstat,
   mkdir,
@@ -6,6 +7,7 @@ import {
   readdir,
   realpath,
   rename,
+  stat,
   writeFile,
 } from 'node:fs/promises'
 import { dirname, extname, relative, resolve } from 'node:path'
@@ -21,23 +23,37 @@ import type {
   WorkbenchSemanticTokens,
   WorkbenchTextEdit,
   WorkbenchWorkspaceEdit,
+  WorkbenchWorkspaceSymbol,
   WorkspaceDocumentContent,
   SavedWorkbenchView,
+  ExportedWorkbenchView,
   WorkspaceDocumentSummary,
   WorkspaceStatusResult,
+  WorkspaceSummary,
+} from '../../workbench-protocol/src/index.js'
+import {
+  WORKBENCH_NOTIFICATIONS,
+  type WorkbenchNotificationMethod,
 } from '../../workbench-protocol/src/index.js'
 import {
   buildSemanticSnapshot,
   IdentityRegistry,
+  snapshotChange,
   type IdentityRegistryData,
   type SemanticSnapshot,
 } from '../../semantic-model/src/index.js'
 import {
-  executeModelQuery,
+  executeModelQueryWithReach,
+  isModelQueryAffected,
+  parseModelQueryExpression,
   type ModelQuery,
+  type ModelQueryReach,
   type ModelQueryResult,
 } from '../../query-engine/src/index.js'
 import {
+  CodeActionModel,
+  codeActionsForDiagnostic,
+  codeActionsForFinding,
   completeCommandValidation,
   commitWorkspaceTransaction,
   planCommand,
@@ -47,9 +63,12 @@ import {
   toPublicCommandProposal,
   type ApplyCommandApproval,
   type AppliedCommandReceipt,
+  type CodeAction,
   type CommandEnvelope,
+  type CommandExternalAlias,
   type CommandHistoryRequest,
   type CommandTransactionAudit,
+  type CommandWorkspaceDocument,
   type InternalCommandProposal,
   type CommandProposal,
   type WorkbenchCommand,
@@ -69,12 +88,20 @@ import {
   resolveWithinAnyRoot,
   WorkspacePathError,
 } from './path-security.js'
+import {
+  DEFAULT_WORKSPACE_SYMBOL_RESULTS,
+  rankWorkspaceSymbols,
+  snapshotWorkspaceSymbols,
+} from './symbol-search.js'
 import {
   BaselineRepository,
+  ModelRepositoryClient,
   readGitStatus,
   type BaselineComparison,
   type BaselineManifest,
   type GitWorkspaceStatus,
+  type RemoteBaselineComparison,
+  type SysmlApiCommit,
 } from '../../baseline-service/src/index.js'
 import {
   ReviewRepository,
@@ -84,33 +111,63 @@ import {
 } from '../../review-service/src/index.js'
 import {
   evaluateAssurance,
+  parseRulePack,
   RULE_PACK_VERSION,
   type AssuranceEvaluation,
+  type AssuranceOptions,
+  type CoverageMode,
+  type UserRulePack,
 } from '../../rule-engine/src/index.js'
 import {
+  renderDiagramPdf,
+  renderDiagramSvg,
   writeReportBundle,
+  type DiagramExportFormat,
   type ReportBundleManifest,
   type ReportKind,
 } from '../../report-engine/src/index.js'
+import { layoutDiagram } from '../../projection-engine/src/index.js'
 import {
   AiAuditRepository,
   AiOrchestrator,
+  AiToolSession,
   LocalDeterministicAiProvider,
+  type AiAgentSubmission,
   type AiApplyApproval,
   type AiAssistantRequest,
   type AiOperationRecord,
   type AiOrchestratorStatus,
   type AiProvider,
   type AiToolName,
+  type AiToolSessionOptions,
   type AiWorkspaceToolHost,
   type ApplyApprovedCommandsInput,
   type ApplyApprovedCommandsResult,
   type ValidateCommandsResult,
 } from '../../ai-orchestrator/src/index.js'
+import {
+  exportReqif,
+  exportSysmlApiElements,
+  planReqifImport,
+  planRequirementTableImport,
+  planSysmlApiImport,
+  readRequirementTable,
+  REQIF_ALIAS_SCHEME,
+  REQUIREMENT_TABLE_ALIAS_SCHEME,
+  type ModelImportPlan,
+  type RequirementTable,
+  type RequirementTableMapping,
+  type SysmlApiElement,
+} from '../../model-exchange/src/index.js'
 
 const MODEL_EXTENSIONS = new Set(['.sysml', '.kerml'])
 const DEFAULT_MAX_FILES = 2_000
 const DEFAULT_MAX_BYTES = 128 * 1024 * 1024
+const DEFAULT_WATCH_DEBOUNCE_MS = 250
+const DEFAULT_WATCH_POLL_MS = 2_000
+const DEFAULT_MAX_WORKSPACES = 8
+const MAX_RULE_PACKS = 32
+const MAX_RULE_PACK_BYTES = 1024 * 1024
 
 interface WorkspaceConfiguration {
   schemaVersion: number
@@ -120,35 +177,119 @@ interface WorkspaceConfiguration {
   libraries?: string[]
   activeConfiguration?: string
   modelConfigurations?: Record<string, { sourceRoots?: string[]; libraries?: string[] }>
+  rulePacks?: string[]
+  assuranceCoverage?: CoverageMode
+  modelRepository?: ModelRepositoryConfiguration
+  limits?: { maxFiles?: number; maxBytes?: number }
+}
+
+interface ModelRepositoryConfiguration {
+  url: string
+  projectId: string
+  branchId?: string
+}
+
+interface WorkspaceLimits {
+  maxFiles: number
+  maxBytes: number
 }
 
 interface OpenWorkspace {
+  adapter: LanguageAdapter
   adapterWorkspace: AdapterWorkspace
+  workspaceFile: string
   displayName: string
+  limits: WorkspaceLimits
   status: WorkspaceStatusResult
   diagnostics: LanguageDiagnostic[]
   identityRegistry: IdentityRegistry
   identityRegistryPath: string
   rootPath: string
+  sourceRoots: string[]
+  // Content last read from or committed to disk, keyed by absolute path, so
+  // unsaved in-memory edits are not mistaken for external ones.
+  diskSha256: Map<string, string>
+  // Uris of documents whose file changed on disk under unsaved edits.
+  diskConflicts: Set<string>
+  rulePackPaths: string[]
+  assuranceCoverage: CoverageMode
+  modelRepository?: ModelRepositoryConfiguration
   semanticRevision: number
   semanticSnapshot?: SemanticSnapshot
   semanticSnapshotPromise?: Promise<SemanticSnapshot>
-  queryCache: Map<string, ModelQueryResult>
+  // Evidence behind the committed snapshot, documents changed since it was
+  // built, and the last committed snapshot the next build may reuse.
+  semanticEvidence: Map<string, EngineSemanticEvidence>
+  staleUris: Set<string>
+  reusableSnapshot?: SemanticSnapshot
+  queryCache: Map<
+    string,
+    { snapshotSha256: string; result: ModelQueryResult; reach: ModelQueryReach }
+  >
   commandProposals: Map<string, InternalCommandProposal>
+  staleProposals: Map<string, string>
   commandLease: boolean
+  watchers: FSWatcher[]
+  watchTimer?: ReturnType<typeof setTimeout>
+  // Set instead of watchers when the platform refused to watch the sources.
+  watchPoll?: ReturnType<typeof setInterval>
+  reconciliation: Promise<void>
   appliedCommands: Map<string, AppliedCommandReceipt>
 }
 
 export interface WorkspaceManagerOptions {
   allowedRoots: string[]
   adapter: LanguageAdapter
+  // Creates an independent engine for each further open workspace. Without
+  // it, opening a workspace closes the others, since one engine hosts one.
+  createAdapter?(): Promise<LanguageAdapter>
+  maxWorkspaces?: number
   workbenchVersion?: string
   maxFiles?: number
   maxBytes?: number
   aiProviders?: AiProvider[]
   allowNetworkAi?: boolean
+  // Bearer token for the workspace's configured model repository.
+  modelRepositoryToken?: string
+  watchSources?: boolean
+  watchDebounceMs?: number
+  watchPollMs?: number
+  onNotification?(notification: WorkbenchNotification): void
+}
+
+export interface WorkbenchNotificationParams {
+  'workspace/didChangeStatus': WorkspaceStatusResult
+  'language/publishDiagnostics': {
+    workspaceId: string
+    diagnostics: LanguageDiagnostic[]
+  }
+  // Carries no snapshot: clients refetch it, which builds it at most once.
+  'semantic/didChangeSnapshot': {
+    workspaceId: string
+    semanticRevision: number
+  }
+  'command/didApply': {
+    workspaceId: string
+    receipt: AppliedCommandReceipt
+  }
+  'command/didInvalidate': {
+    workspaceId: string
+    proposalIds: string[]
+    reason: string
+  }
+  'review/didChange': {
+    workspaceId: string
+    review: ModelReview
+  }
 }
 
+export type WorkbenchNotification = {
+  [Method in WorkbenchNotificationMethod]: {
+    method: Method
+    params: WorkbenchNotificationParams[Method]
+  }
+}[WorkbenchNotificationMethod]
+
 export interface CreateBaselineInput {
   id: string
   actor: string
@@ -225,43 +366,24 @@ export class WorkspaceManager {
     const rawConfig = await readFile(authorized.path, 'utf8')
     const configuration = validateConfiguration(parse(rawConfig))
     const selection = selectConfiguration(configuration)
-    const roots = [...selection.sourceRoots, ...selection.libraries]
-
-    const documentPaths = new Set<string>()
-    for (const configuredRoot of roots) {
-      const sourceRoot = await resolveExistingWithin(rootPath, configuredRoot)
-      await collectModelFiles(rootPath, sourceRoot, documentPaths)
-    }
-
-    const maxFiles = this.options.maxFiles ?? DEFAULT_MAX_FILES
-    if (documentPaths.size > maxFiles) {
-      throw new WorkspacePathError(
-        `Workspace contains ${documentPaths.size} model files; limit is ${maxFiles}`,
-      )
-    }
-
-    let totalBytes = 0
-    const documents: WorkspaceDocument[] = []
-    for (const absolutePath of [...documentPaths].sort()) {
-      const bytes = await readFile(absolutePath)
-      totalBytes += bytes.byteLength
-      if (totalBytes > (this.options.maxBytes ?? DEFAULT_MAX_BYTES)) {
-        throw new WorkspacePathError(
-          `Workspace model content exceeds the configured byte limit`,
-        )
-      }
-
-      const text = bytes.toString('utf8')
-      const extension = extname(absolutePath).toLowerCase()
-      documents.push({
-        uri: pathToFileURL(absolutePath).href,
-        absolutePath,
-        languageId: extension === '.kerml' ? 'kerml' : 'sysml',
-        version: 1,
-        text,
-        sha256: sha256(bytes),
-      })
-    }
+    const sourceRoots: string[] = []
+    for (const configuredRoot of [...selection.sourceRoots, ...selection.libraries]) {
+      sourceRoots.push(await resolveExistingWithin(rootPath, configuredRoot))
+    }
+    const limits: WorkspaceLimits = {
+      maxFiles: Math.min(
+        this.options.maxFiles ?? DEFAULT_MAX_FILES,
+        configuration.limits?.maxFiles ?? Number.POSITIVE_INFINITY,
+      ),
+      maxBytes: Math.min(
+        this.options.maxBytes ?? DEFAULT_MAX_BYTES,
+        configuration.limits?.maxBytes ?? Number.POSITIVE_INFINITY,
+      ),
+    }
+    const files = await this.readModelFiles(rootPath, sourceRoots, limits)
+    const documents = [...files].map(([absolutePath, bytes]) =>
+      modelDocument(absolutePath, bytes, 1),
+    )
 
     const configuredId = configuration.id?.trim()
     const workspaceId =
@@ -283,33 +405,65 @@ export class WorkspaceManager {
       workspaceId,
       rootPath,
     )
-    for (const openWorkspaceId of [...this.workspaces.keys()]) {
-      await this.options.adapter.closeWorkspace(openWorkspaceId)
-      this.workspaces.delete(openWorkspaceId)
+    const adapter = await this.adapterFor(workspaceId, authorized.path)
+    let diagnostics: LanguageDiagnostic[]
+    try {
+      diagnostics = await adapter.openWorkspace(adapterWorkspace)
+    } catch (error) {
+      await this.releaseAdapter(adapter)
+      throw error
     }
-    const diagnostics = await this.options.adapter.openWorkspace(adapterWorkspace)
-    const status = buildStatus(
-      adapterWorkspace,
-      this.options.adapter,
-      diagnostics,
-    )
+    const status = buildStatus(adapterWorkspace, adapter, diagnostics)
     this.workspaces.set(workspaceId, {
+      adapter,
       adapterWorkspace,
+      workspaceFile: authorized.path,
       displayName: configuration.name?.trim() || selection.name,
+      limits,
       status,
       diagnostics,
       identityRegistry,
       identityRegistryPath,
       rootPath,
+      sourceRoots,
+      diskSha256: new Map(
+        documents.map((document) => [document.absolutePath, document.sha256]),
+      ),
+      diskConflicts: new Set(),
+      rulePackPaths: configuration.rulePacks ?? [],
+      assuranceCoverage: configuration.assuranceCoverage ?? 'direct',
+      ...(configuration.modelRepository ? { modelRepository: configuration.modelRepository } : {}),
       semanticRevision: 0,
+      semanticEvidence: new Map(),
+      staleUris: new Set(),
       queryCache: new Map(),
       commandProposals: new Map(),
+      staleProposals: new Map(),
       commandLease: false,
+      watchers: [],
+      reconciliation: Promise.resolve(),
       appliedCommands: new Map(),
     })
+    this.watchSources(workspaceId)
+    this.publishWorkspaceChange(workspaceId)
     return status
   }
 
+  list(): WorkspaceSummary[] {
+    return [...this.workspaces].map(([workspaceId, workspace]) => {
+      const status = this.status(workspaceId)
+      return {
+        workspaceId,
+        displayName: workspace.displayName,
+        rootUri: status.rootUri,
+        configurationName: status.configurationName,
+        indexState: status.indexState,
+        semanticAuthority: status.semanticAuthority,
+        documentCount: status.documentCount,
+      }
+    })
+  }
+
   status(workspaceId: string): WorkspaceStatusResult {
     const workspace = this.workspaces.get(workspaceId)
     if (!workspace) {
@@ -318,10 +472,13 @@ export class WorkspaceManager {
     const status = structuredClone(workspace.status)
     if (
       status.indexState === 'ready' &&
-      this.options.adapter.health().state === 'failed'
+      workspace.adapter.health().state === 'failed'
     ) {
       status.indexState = 'stale'
     }
+    for (const document of status.documents) {
+      if (workspace.diskConflicts.has(document.uri)) document.diskConflict = true
+    }
     return status
   }
 
@@ -348,6 +505,7 @@ export class WorkspaceManager {
       byteLength: Buffer.byteLength(document.text, 'utf8'),
       version: document.version,
       text: document.text,
+      ...(workspace.diskConflicts.has(uri) ? { diskConflict: true as const } : {}),
     }
   }
 
@@ -399,15 +557,72 @@ export class WorkspaceManager {
     return persisted
   }
 
+  // Renders a saved view, or an unsaved view definition, from the current
+  // snapshot with the same layout the diagram surface shows; nothing is
+  // written to the workspace.
+  async exportView(
+    workspaceId: string,
+    viewOrId: unknown,
+    format: DiagramExportFormat,
+    generatedAt: string,
+  ): Promise<ExportedWorkbenchView> {
+    const workspace = this.requireWorkspace(workspaceId)
+    const view = typeof viewOrId === 'string'
+      ? (await this.listViews(workspaceId)).find((candidate) => candidate.id === viewOrId)
+      : validateSavedView(viewOrId)
+    if (!view) throw new WorkspacePathError(`Unknown view: ${String(viewOrId)}`)
+    const result = await this.modelQuery(workspaceId, { schemaVersion: 1, ...view.query })
+    const layout = layoutDiagram(result, {
+      notation: view.notation,
+      ...(view.layout ? { positions: view.layout.positions } : {}),
+    })
+    const provenance = {
+      workspace: { id: workspaceId, name: workspace.displayName },
+      viewId: view.id,
+      viewName: view.name,
+      generatedAt,
+      workbenchVersion: this.options.workbenchVersion ?? '0.0.0',
+    }
+    const content = format === 'svg'
+      ? Buffer.from(renderDiagramSvg(layout, provenance), 'utf8')
+      : Buffer.from(await renderDiagramPdf(layout, provenance))
+    return {
+      schemaVersion: 1,
+      viewId: view.id,
+      format,
+      mediaType: format === 'svg' ? 'image/svg+xml' : 'application/pdf',
+      fileName: `${view.id}.${format}`,
+      encoding: format === 'svg' ? 'utf8' : 'base64',
+      content: content.toString(format === 'svg' ? 'utf8' : 'base64'),
+      sha256: sha256(content),
+      snapshotSha256: layout.snapshotSha256,
+      generatedAt,
+    }
+  }
+
   async documentSymbols(
     workspaceId: string,
     uri: string,
   ): Promise<WorkbenchDocumentSymbol[]> {
-    this.requireDocument(workspaceId, uri)
-    if (!this.options.adapter.capabilities.documentSymbols) {
+    const { adapter } = this.requireDocument(workspaceId, uri)
+    if (!adapter.capabilities.documentSymbols) {
       throw new WorkspacePathError('Document symbols are not supported')
     }
-    return this.options.adapter.documentSymbols!(uri)
+    return adapter.documentSymbols!(uri)
+  }
+
+  // Engines without workspace/symbol fall back to the semantic snapshot, so
+  // search then needs a qualified authority with semantic evidence.
+  async workspaceSymbols(
+    workspaceId: string,
+    query: string,
+    maxResults = DEFAULT_WORKSPACE_SYMBOL_RESULTS,
+  ): Promise<WorkbenchWorkspaceSymbol[]> {
+    const { adapter } = this.requireWorkspace(workspaceId)
+    const symbols = adapter.capabilities.workspaceSymbols
+      ? await adapter.workspaceSymbols!(query)
+      : snapshotWorkspaceSymbols(await this.semanticSnapshot(workspaceId))
+    return rankWorkspaceSymbols(symbols, query, maxResults)
   }
 
   async definition(
@@ -415,11 +630,11 @@ export class WorkspaceManager {
     uri: string,
     position: WorkbenchPosition,
   ): Promise<WorkbenchLocation[]> {
-    this.requireDocument(workspaceId, uri)
-    if (!this.options.adapter.capabilities.definitions) {
+    const { adapter } = this.requireDocument(workspaceId, uri)
+    if (!adapter.capabilities.definitions) {
       throw new WorkspacePathError('Definition navigation is not supported')
     }
-    return this.options.adapter.definition!(uri, position)
+    return adapter.definition!(uri, position)
   }
 
   async references(
@@ -427,11 +642,11 @@ export class WorkspaceManager {
     uri: string,
     position: WorkbenchPosition,
   ): Promise<WorkbenchLocation[]> {
-    this.requireDocument(workspaceId, uri)
-    if (!this.options.adapter.capabilities.references) {
+    const { adapter } = this.requireDocument(workspaceId, uri)
+    if (!adapter.capabilities.references) {
       throw new WorkspacePathError('Reference navigation is not supported')
     }
-    return this.options.adapter.references!(uri, position)
+    return adapter.references!(uri, position)
   }
 
   async hover(
@@ -439,11 +654,11 @@ export class WorkspaceManager {
     uri: string,
     position: WorkbenchPosition,
   ): Promise<WorkbenchHover | null> {
-    this.requireDocument(workspaceId, uri)
-    if (!this.options.adapter.capabilities.hover) {
+    const { adapter } = this.requireDocument(workspaceId, uri)
+    if (!adapter.capabilities.hover) {
       throw new WorkspacePathError('Hover is not supported')
     }
-    return this.options.adapter.hover!(uri, position)
+    return adapter.hover!(uri, position)
   }
 
   async completion(
@@ -451,22 +666,22 @@ export class WorkspaceManager {
     uri: string,
     position: WorkbenchPosition,
   ): Promise<WorkbenchCompletionItem[]> {
-    this.requireDocument(workspaceId, uri)
-    if (!this.options.adapter.capabilities.completion) {
+    const { adapter } = this.requireDocument(workspaceId, uri)
+    if (!adapter.capabilities.completion) {
       throw new WorkspacePathError('Completion is not supported')
     }
-    return this.options.adapter.completion!(uri, position)
+    return adapter.completion!(uri, position)
   }
 
   async semanticTokens(
     workspaceId: string,
     uri: string,
   ): Promise<WorkbenchSemanticTokens> {
-    this.requireDocument(workspaceId, uri)
-    if (!this.options.adapter.capabilities.semanticTokens) {
+    const { adapter } = this.requireDocument(workspaceId, uri)
+    if (!adapter.capabilities.semanticTokens) {
       throw new WorkspacePathError('Semantic tokens are not supported')
     }
-    return this.options.adapter.semanticTokens!(uri)
+    return adapter.semanticTokens!(uri)
   }
 
   async rename(
@@ -476,10 +691,10 @@ export class WorkspaceManager {
     newName: string,
   ): Promise<WorkbenchWorkspaceEdit> {
     const workspace = this.requireDocument(workspaceId, uri)
-    if (!this.options.adapter.capabilities.rename) {
+    if (!workspace.adapter.capabilities.rename) {
       throw new WorkspacePathError('Rename is not supported')
     }
-    const edit = await this.options.adapter.rename!(uri, position, newName)
+    const edit = await workspace.adapter.rename!(uri, position, newName)
     const authorizedUris = new Set(
       workspace.adapterWorkspace.documents.map((document) => document.uri),
     )
@@ -497,11 +712,11 @@ export class WorkspaceManager {
     workspaceId: string,
     uri: string,
   ): Promise<WorkbenchTextEdit[]> {
-    this.requireDocument(workspaceId, uri)
-    if (!this.options.adapter.capabilities.formatting) {
+    const { adapter } = this.requireDocument(workspaceId, uri)
+    if (!adapter.capabilities.formatting) {
       throw new WorkspacePathError('Formatting is not supported')
     }
-    return this.options.adapter.formatting!(uri)
+    return adapter.formatting!(uri)
   }
 
   async changeDocument(
@@ -516,9 +731,38 @@ export class WorkspaceManager {
         'Workspace document changes are blocked during command validation',
       )
     }
-    if (!this.options.adapter.changeDocument) {
+    if (!workspace.adapter.changeDocument) {
       throw new WorkspacePathError('Incremental document changes are not supported')
     }
+    // Queued behind any rescan of the sources, and a rescan behind it, so
+    // the two never interleave their updates of the engine's documents.
+    const change = workspace.reconciliation.then(() =>
+      this.applyDocumentChange(workspace, uri, version, text),
+    )
+    workspace.reconciliation = change.then(
+      () => undefined,
+      () => undefined,
+    )
+    return change
+  }
+
+  private async applyDocumentChange(
+    workspace: OpenWorkspace,
+    uri: string,
+    version: number,
+    text: string,
+  ): Promise<WorkspaceStatusResult> {
+    const workspaceId = workspace.adapterWorkspace.workspaceId
+    // The rescan may have closed the workspace or dropped the document.
+    const current = this.requireDocument(workspaceId, uri)
+    if (current !== workspace) {
+      throw new WorkspacePathError(`Unknown workspace: ${workspaceId}`)
+    }
+    if (workspace.commandLease) {
+      throw new WorkspacePathError(
+        'Workspace document changes are blocked during command validation',
+      )
+    }
     const document = workspace.adapterWorkspace.documents.find(
       (item) => item.uri === uri,
     )!
@@ -528,12 +772,12 @@ export class WorkspaceManager {
         Buffer.byteLength(item.uri === uri ? text : item.text, 'utf8'),
       0,
     )
-    if (nextTotalBytes > (this.options.maxBytes ?? DEFAULT_MAX_BYTES)) {
+    if (nextTotalBytes > workspace.limits.maxBytes) {
       throw new WorkspacePathError(
         'Workspace model content exceeds the configured byte limit',
       )
     }
-    const diagnostics = await this.options.adapter.changeDocument(
+    const diagnostics = await workspace.adapter.changeDocument!(
       uri,
       version,
       text,
@@ -541,18 +785,24 @@ export class WorkspaceManager {
     document.version = version
     document.text = text
     document.sha256 = sha256(Buffer.from(text, 'utf8'))
+    if (document.sha256 === workspace.diskSha256.get(document.absolutePath)) {
+      workspace.diskConflicts.delete(uri)
+    }
     workspace.diagnostics = diagnostics
     workspace.status = buildStatus(
       workspace.adapterWorkspace,
-      this.options.adapter,
+      workspace.adapter,
       diagnostics,
     )
     workspace.semanticRevision += 1
+    workspace.reusableSnapshot =
+      workspace.semanticSnapshot ?? workspace.reusableSnapshot
     workspace.semanticSnapshot = undefined
     workspace.semanticSnapshotPromise = undefined
-    workspace.queryCache.clear()
+    workspace.staleUris.add(uri)
     workspace.commandProposals.clear()
-    return structuredClone(workspace.status)
+    this.publishWorkspaceChange(workspaceId)
+    return this.status(workspaceId)
   }
 
   async restart(workspaceId: string): Promise<WorkspaceStatusResult> {
@@ -562,24 +812,25 @@ export class WorkspaceManager {
         'Language restart is blocked during command validation',
       )
     }
-    if (!this.options.adapter.restartWorkspace) {
+    if (!workspace.adapter.restartWorkspace) {
       throw new WorkspacePathError('Language engine restart is not supported')
     }
     workspace.status.indexState = 'indexing'
-    const diagnostics = await this.options.adapter.restartWorkspace(
+    const diagnostics = await workspace.adapter.restartWorkspace(
       workspace.adapterWorkspace,
     )
     workspace.diagnostics = diagnostics
     workspace.status = buildStatus(
       workspace.adapterWorkspace,
-      this.options.adapter,
+      workspace.adapter,
       diagnostics,
     )
     workspace.semanticRevision += 1
     workspace.semanticSnapshot = undefined
     workspace.semanticSnapshotPromise = undefined
-    workspace.queryCache.clear()
+    invalidateSemanticCaches(workspace)
     workspace.commandProposals.clear()
+    this.publishWorkspaceChange(workspaceId)
     return structuredClone(workspace.status)
   }
 
@@ -628,6 +879,8 @@ export class WorkspaceManager {
             newName,
           )
         },
+        overlaySnapshotProvider: (overlay) =>
+          this.overlaySnapshot(workspace, overlay),
       })
       const proposal = await this.validateCommandOverlay(
         workspace,
@@ -756,8 +1009,11 @@ export class WorkspaceManager {
       (candidate) => candidate.proposalId === approval.proposalId,
     )
     if (!proposal) {
+      const staleReason = workspace.staleProposals.get(approval.proposalId)
       throw new WorkspacePathError(
-        `Unknown or expired command proposal: ${approval.proposalId}`,
+        staleReason
+          ? `Command proposal is stale: ${staleReason}`
+          : `Unknown or expired command proposal: ${approval.proposalId}`,
       )
     }
     if (proposal.validation.state !== 'validated' || proposal.conflicts.length > 0) {
@@ -821,6 +1077,17 @@ export class WorkspaceManager {
         identities.abortSnapshot()
         throw error
       }
+      for (const { elementId, externalAlias } of externalAliasBindings(proposal)) {
+        if (!elementId) {
+          throw new WorkspacePathError('Command proposal has no element for its externalAlias')
+        }
+        identities.bindExternalAlias(
+          elementId,
+          externalAlias.scheme,
+          externalAlias.identifier,
+          proposal.commandId,
+        )
+      }
       const files = proposal.overlayDocuments
         .map((overlay) => {
           const current = workspace.adapterWorkspace.documents.find(
@@ -875,24 +1142,26 @@ export class WorkspaceManager {
           (document) => document.uri === overlay.uri,
         )
         if (!current || current.text === overlay.text) continue
-        diagnostics = await this.options.adapter.changeDocument!(
+        diagnostics = await workspace.adapter.changeDocument!(
           overlay.uri,
           current.version + 1,
           overlay.text,
         )
         current.text = overlay.text
         current.sha256 = overlay.sha256
+        workspace.diskSha256.set(current.absolutePath, overlay.sha256)
+        workspace.diskConflicts.delete(current.uri)
       }
       workspace.diagnostics = diagnostics
       workspace.status = buildStatus(
         workspace.adapterWorkspace,
-        this.options.adapter,
+        workspace.adapter,
         diagnostics,
       )
       workspace.semanticRevision += 1
       workspace.semanticSnapshot = undefined
       workspace.semanticSnapshotPromise = undefined
-      workspace.queryCache.clear()
+      invalidateSemanticCaches(workspace)
       const appliedSnapshot = await this.semanticSnapshot(approval.workspaceId)
       if (
         proposal.semanticDiff?.afterSnapshotSha256 !==
@@ -926,6 +1195,14 @@ export class WorkspaceManager {
         },
       }
       workspace.appliedCommands.set(proposal.proposalId, receipt)
+      this.publishWorkspaceChange(approval.workspaceId)
+      this.notify({
+        method: WORKBENCH_NOTIFICATIONS.commandDidApply,
+        params: {
+          workspaceId: approval.workspaceId,
+          receipt: structuredClone(receipt),
+        },
+      })
       return structuredClone(receipt)
     } finally {
       workspace.commandLease = false
@@ -934,7 +1211,7 @@ export class WorkspaceManager {
 
   async semanticSnapshot(workspaceId: string): Promise<SemanticSnapshot> {
     const workspace = this.requireWorkspace(workspaceId)
-    const health = this.options.adapter.health()
+    const health = workspace.adapter.health()
     if (workspace.semanticSnapshot) {
       return {
         ...structuredClone(workspace.semanticSnapshot),
@@ -946,7 +1223,7 @@ export class WorkspaceManager {
         'No complete semantic snapshot exists and the language authority is not ready',
       )
     }
-    if (!this.options.adapter.capabilities.semanticEvidence) {
+    if (!workspace.adapter.capabilities.semanticEvidence) {
       throw new WorkspacePathError(
         'The qualified language authority does not provide semantic evidence',
       )
@@ -969,20 +1246,127 @@ export class WorkspaceManager {
   ): Promise<ModelQueryResult> {
     const workspace = this.requireWorkspace(workspaceId)
     const snapshot = await this.semanticSnapshot(workspaceId)
-    const key = `${snapshot.snapshotSha256}\u0000${JSON.stringify(query)}`
+    const key = JSON.stringify(query)
     const cached = workspace.queryCache.get(key)
-    if (cached) return structuredClone(cached)
-    const result = executeModelQuery(snapshot, query)
+    if (cached?.snapshotSha256 === snapshot.snapshotSha256) {
+      return structuredClone(cached.result)
+    }
+    const { result, reach } = executeModelQueryWithReach(snapshot, query)
+    workspace.queryCache.delete(key)
     if (workspace.queryCache.size >= 128) {
       const oldest = workspace.queryCache.keys().next().value
       if (oldest) workspace.queryCache.delete(oldest)
     }
-    workspace.queryCache.set(key, structuredClone(result))
+    workspace.queryCache.set(key, {
+      snapshotSha256: snapshot.snapshotSha256,
+      result: structuredClone(result),
+      reach,
+    })
     return result
   }
 
+  async exportSysmlApi(workspaceId: string): Promise<SysmlApiElement[]> {
+    return exportSysmlApiElements(await this.semanticSnapshot(workspaceId))
+  }
+
+  async planSysmlApiImport(
+    workspaceId: string,
+    document: unknown,
+  ): Promise<ModelImportPlan> {
+    return planSysmlApiImport(document, await this.semanticSnapshot(workspaceId))
+  }
+
+  // Requirements and their satisfy and verify links, as ReqIF 1.2 XML.
+  async exportReqif(workspaceId: string, createdAt: string): Promise<string> {
+    const workspace = this.requireWorkspace(workspaceId)
+    const snapshot = await this.semanticSnapshot(workspaceId)
+    const evaluation = evaluateAssurance(
+      snapshot,
+      await this.assuranceOptions(workspaceId),
+    )
+    const aliases = new Map<string, string>()
+    for (const element of snapshot.elements) {
+      const alias = workspace.identityRegistry.externalAlias(element.id, REQIF_ALIAS_SCHEME)
+      if (alias !== undefined) aliases.set(element.id, alias)
+    }
+    return exportReqif(snapshot, evaluation.requirementCoverage, {
+      createdAt,
+      documents: workspace.adapterWorkspace.documents,
+      aliases,
+    })
+  }
+
+  async planReqifImport(
+    workspaceId: string,
+    document: string,
+    ownerId: string,
+  ): Promise<ModelImportPlan> {
+    const workspace = this.requireWorkspace(workspaceId)
+    const snapshot = await this.semanticSnapshot(workspaceId)
+    return planReqifImport(document, snapshot, {
+      ownerId,
+      documents: workspace.adapterWorkspace.documents,
+      resolveAlias: (identifier) =>
+        workspace.identityRegistry.resolveExternalAlias(REQIF_ALIAS_SCHEME, identifier),
+    })
+  }
+
+  readRequirementTable(fileName: string, content: Uint8Array): RequirementTable {
+    return readRequirementTable(fileName, content)
+  }
+
+  // The plan's batch creates rows under their parent rows, so the client
+  // proposes and applies it as one command.
+  async planRequirementTableImport(
+    workspaceId: string,
+    table: RequirementTable,
+    mapping: RequirementTableMapping,
+    ownerId: string,
+  ): Promise<ModelImportPlan> {
+    const workspace = this.requireWorkspace(workspaceId)
+    const snapshot = await this.semanticSnapshot(workspaceId)
+    return planRequirementTableImport(table, mapping, snapshot, {
+      ownerId,
+      documents: workspace.adapterWorkspace.documents,
+      resolveAlias: (identifier) =>
+        workspace.identityRegistry.resolveExternalAlias(
+          REQUIREMENT_TABLE_ALIAS_SCHEME,
+          identifier,
+        ),
+    })
+  }
+
   async evaluateAssurance(workspaceId: string): Promise<AssuranceEvaluation> {
-    return evaluateAssurance(await this.semanticSnapshot(workspaceId))
+    const snapshot = await this.semanticSnapshot(workspaceId)
+    return evaluateAssurance(snapshot, await this.assuranceOptions(workspaceId))
+  }
+
+  // Quick fixes are candidates only; the client proposes the chosen command
+  // through proposeCommand so it gets the usual validation and approval.
+  async codeActions(
+    workspaceId: string,
+    documentUri?: string,
+  ): Promise<CodeAction[]> {
+    if (documentUri !== undefined) this.requireDocument(workspaceId, documentUri)
+    const snapshot = await this.semanticSnapshot(workspaceId)
+    const evaluation = evaluateAssurance(
+      snapshot,
+      await this.assuranceOptions(workspaceId),
+    )
+    const sources = new Map(
+      snapshot.elements.map((element) => [element.id, element.source.uri]),
+    )
+    const inScope = (uri: string | undefined) =>
+      documentUri === undefined || uri === documentUri
+    const model = new CodeActionModel(snapshot)
+    return [
+      ...evaluation.findings
+        .filter((finding) => inScope(sources.get(finding.elementIds[0] ?? '')))
+        .flatMap((finding) => codeActionsForFinding(finding, model)),
+      ...this.diagnostics(workspaceId)
+        .filter((diagnostic) => inScope(diagnostic.uri))
+        .flatMap((diagnostic) => codeActionsForDiagnostic(diagnostic, model)),
+    ]
   }
 
   async gitStatus(workspaceId: string): Promise<GitWorkspaceStatus> {
@@ -1021,6 +1405,27 @@ export class WorkspaceManager {
     )
   }
 
+  async publishBaseline(
+    workspaceId: string,
+    baselineId: string,
+  ): Promise<SysmlApiCommit> {
+    const workspace = this.requireWorkspace(workspaceId)
+    const client = this.modelRepository(workspaceId)
+    return client.publishBaseline(await new BaselineRepository(workspace.rootPath).get(baselineId))
+  }
+
+  async listRemoteBaselines(workspaceId: string): Promise<SysmlApiCommit[]> {
+    return this.modelRepository(workspaceId).listCommits()
+  }
+
+  async compareRemoteBaseline(
+    workspaceId: string,
+    commitId: string,
+  ): Promise<RemoteBaselineComparison> {
+    const client = this.modelRepository(workspaceId)
+    return client.compareCommit(commitId, await this.semanticSnapshot(workspaceId))
+  }
+
   async listReviews(workspaceId: string): Promise<ModelReview[]> {
     return new ReviewRepository(this.requireWorkspace(workspaceId).rootPath).list()
   }
@@ -1031,12 +1436,15 @@ export class WorkspaceManager {
   ): Promise<ModelReview> {
     const workspace = this.requireWorkspace(workspaceId)
     const status = await readGitStatus(workspace.rootPath)
-    return new ReviewRepository(workspace.rootPath).create(
-      {
-        ...input,
-        baseline: `git:${status.head}`,
-      },
-      await this.semanticSnapshot(workspaceId),
+    return this.publishReview(
+      workspaceId,
+      await new ReviewRepository(workspace.rootPath).create(
+        {
+          ...input,
+          baseline: `git:${status.head}`,
+        },
+        await this.semanticSnapshot(workspaceId),
+      ),
     )
   }
 
@@ -1045,10 +1453,13 @@ export class WorkspaceManager {
     input: AddReviewFindingInput,
   ): Promise<ModelReview> {
     const workspace = this.requireWorkspace(workspaceId)
-    return new ReviewRepository(workspace.rootPath).addFinding(
-      input.reviewId,
-      input.finding,
-      await this.semanticSnapshot(workspaceId),
+    return this.publishReview(
+      workspaceId,
+      await new ReviewRepository(workspace.rootPath).addFinding(
+        input.reviewId,
+        input.finding,
+        await this.semanticSnapshot(workspaceId),
+      ),
     )
   }
 
@@ -1057,15 +1468,18 @@ export class WorkspaceManager {
     input: DispositionReviewFindingInput,
   ): Promise<ModelReview> {
     const workspace = this.requireWorkspace(workspaceId)
-    return new ReviewRepository(workspace.rootPath).dispositionFinding(
-      input.reviewId,
-      input.findingId,
-      {
-        disposition: input.disposition,
-        response: input.response,
-        actor: input.actor,
-        at: input.at,
-      },
+    return this.publishReview(
+      workspaceId,
+      await new ReviewRepository(workspace.rootPath).dispositionFinding(
+        input.reviewId,
+        input.findingId,
+        {
+          disposition: input.disposition,
+          response: input.response,
+          actor: input.actor,
+          at: input.at,
+        },
+      ),
     )
   }
 
@@ -1074,8 +1488,11 @@ export class WorkspaceManager {
     reviewId: string,
     input: { actor: string; at: string; note?: string },
   ): Promise<ModelReview> {
-    return new ReviewRepository(this.requireWorkspace(workspaceId).rootPath)
-      .close(reviewId, input)
+    return this.publishReview(
+      workspaceId,
+      await new ReviewRepository(this.requireWorkspace(workspaceId).rootPath)
+        .close(reviewId, input),
+    )
   }
 
   async reviewStaleness(
@@ -1108,11 +1525,12 @@ export class WorkspaceManager {
       )
       : undefined
     const assurance = [
+      'workspace-health',
       'requirement-coverage',
       'verification-readiness',
       'interface-register',
       'interface-quality',
-    ].includes(input.kind) ? evaluateAssurance(snapshot) : undefined
+    ].includes(input.kind) ? evaluateAssurance(snapshot, await this.assuranceOptions(workspaceId)) : undefined
     const reviews = input.kind === 'review-findings' || input.kind === 'review-closure'
       ? await new ReviewRepository(workspace.rootPath).list()
       : undefined
@@ -1139,6 +1557,7 @@ export class WorkspaceManager {
       baseline,
       comparison,
       reviews,
+      snapshot,
     })
   }
 
@@ -1161,6 +1580,31 @@ export class WorkspaceManager {
     )
   }
 
+  async submitAi(
+    workspaceId: string,
+    input: AiAssistantRequest,
+    submission: AiAgentSubmission,
+  ): Promise<AiOperationRecord> {
+    const workspace = this.requireWorkspace(workspaceId)
+    if (input.workspaceId !== workspaceId) {
+      throw new WorkspacePathError('AI request workspace identity mismatch')
+    }
+    return this.aiOrchestrator.submit(
+      input,
+      submission,
+      this.aiToolHost(workspaceId),
+      new AiAuditRepository(workspace.rootPath, workspaceId),
+    )
+  }
+
+  aiToolSession(
+    workspaceId: string,
+    options: AiToolSessionOptions = {},
+  ): AiToolSession {
+    this.requireWorkspace(workspaceId)
+    return new AiToolSession(this.aiToolHost(workspaceId), options)
+  }
+
   async applyAi(
     workspaceId: string,
     approval: AiApplyApproval,
@@ -1182,20 +1626,321 @@ export class WorkspaceManager {
   }
 
   async close(workspaceId: string): Promise<boolean> {
-    if (!this.workspaces.has(workspaceId)) return false
-    await this.options.adapter.closeWorkspace(workspaceId)
-    this.workspaces.delete(workspaceId)
+    const workspace = this.workspaces.get(workspaceId)
+    if (!workspace) return false
+    await this.closeOpenWorkspace(workspaceId, workspace)
+    await this.releaseAdapter(workspace.adapter)
     return true
   }
 
   async dispose(): Promise<void> {
-    for (const workspaceId of this.workspaces.keys()) {
-      await this.options.adapter.closeWorkspace(workspaceId)
+    for (const [workspaceId, workspace] of [...this.workspaces]) {
+      await this.closeOpenWorkspace(workspaceId, workspace)
+      await this.releaseAdapter(workspace.adapter)
     }
-    this.workspaces.clear()
     await this.options.adapter.dispose()
   }
 
+  // Picks the engine an opening workspace runs in. Reopening a workspace keeps
+  // its engine; otherwise the configured engine is used while it is free.
+  private async adapterFor(
+    workspaceId: string,
+    workspaceFile: string,
+  ): Promise<LanguageAdapter> {
+    const reopened = this.workspaces.get(workspaceId)
+    if (reopened) {
+      if (reopened.workspaceFile !== workspaceFile) {
+        throw new WorkspacePathError(
+          `Workspace id ${workspaceId} is already open from another workspace file`,
+        )
+      }
+      await this.closeOpenWorkspace(workspaceId, reopened)
+      return reopened.adapter
+    }
+    if (!this.options.createAdapter) {
+      for (const [openWorkspaceId, openWorkspace] of [...this.workspaces]) {
+        await this.closeOpenWorkspace(openWorkspaceId, openWorkspace)
+      }
+      return this.options.adapter
+    }
+    const maxWorkspaces = this.options.maxWorkspaces ?? DEFAULT_MAX_WORKSPACES
+    if (this.workspaces.size >= maxWorkspaces) {
+      throw new WorkspacePathError(
+        `At most ${maxWorkspaces} workspaces may be open at once`,
+      )
+    }
+    if (
+      ![...this.workspaces.values()].some(
+        (workspace) => workspace.adapter === this.options.adapter,
+      )
+    ) {
+      return this.options.adapter
+    }
+    const adapter = await this.options.createAdapter()
+    try {
+      await adapter.initialize()
+    } catch (error) {
+      await adapter.dispose()
+      throw error
+    }
+    return adapter
+  }
+
+  private async closeOpenWorkspace(
+    workspaceId: string,
+    workspace: OpenWorkspace,
+  ): Promise<void> {
+    stopWatching(workspace)
+    this.workspaces.delete(workspaceId)
+    await workspace.adapter.closeWorkspace(workspaceId)
+  }
+
+  private async releaseAdapter(adapter: LanguageAdapter): Promise<void> {
+    if (adapter !== this.options.adapter) await adapter.dispose()
+  }
+
+  // Reads every model file under the resolved roots within the configured
+  // file and byte limits, keyed by canonical path in sorted order.
+  private async readModelFiles(
+    rootPath: string,
+    sourceRoots: string[],
+    limits: WorkspaceLimits,
+  ): Promise<Map<string, Buffer>> {
+    const documentPaths = new Set<string>()
+    for (const sourceRoot of sourceRoots) {
+      await collectModelFiles(rootPath, sourceRoot, documentPaths)
+    }
+
+    if (documentPaths.size > limits.maxFiles) {
+      throw new WorkspacePathError(
+        `Workspace contains ${documentPaths.size} model files; limit is ${limits.maxFiles}`,
+      )
+    }
+
+    let totalBytes = 0
+    const files = new Map<string, Buffer>()
+    for (const absolutePath of [...documentPaths].sort()) {
+      const bytes = await readFile(absolutePath)
+      totalBytes += bytes.byteLength
+      if (totalBytes > limits.maxBytes) {
+        throw new WorkspacePathError(
+          `Workspace model content exceeds the configured byte limit`,
+        )
+      }
+      files.set(absolutePath, bytes)
+    }
+    return files
+  }
+
+  private watchSources(workspaceId: string): void {
+    if (this.options.watchSources === false) return
+    const workspace = this.requireWorkspace(workspaceId)
+    const schedule = () => {
+      clearTimeout(workspace.watchTimer)
+      workspace.watchTimer = setTimeout(() => {
+        workspace.watchTimer = undefined
+        workspace.reconciliation = workspace.reconciliation
+          .then(() => this.reconcileSources(workspace, schedule))
+          .catch(() => {
+            // A failed rescan leaves the last consistent documents in place;
+            // the index is reported stale until a later change or restart.
+            if (this.workspaces.get(workspaceId) !== workspace) return
+            workspace.status.indexState = 'stale'
+            this.publishWorkspaceChange(workspaceId)
+          })
+      }, this.options.watchDebounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS)
+      workspace.watchTimer.unref?.()
+    }
+    try {
+      for (const sourceRoot of workspace.sourceRoots) {
+        const watcher = watch(sourceRoot, { recursive: true }, schedule)
+        watcher.on('error', schedule)
+        watcher.unref()
+        workspace.watchers.push(watcher)
+      }
+    } catch {
+      // Out of inotify watches or file descriptors (ENOSPC, EMFILE): the
+      // workspace is already open, so rescan on a timer rather than fail it.
+      for (const watcher of workspace.watchers) watcher.close()
+      workspace.watchers = []
+      workspace.watchPoll = setInterval(
+        schedule,
+        this.options.watchPollMs ?? DEFAULT_WATCH_POLL_MS,
+      )
+      workspace.watchPoll.unref?.()
+    }
+  }
+
+  // Feeds files added, removed, or modified outside the workbench back to the
+  // language engine and invalidates anything derived from the old content.
+  private async reconcileSources(
+    workspace: OpenWorkspace,
+    reschedule: () => void,
+  ): Promise<void> {
+    const workspaceId = workspace.adapterWorkspace.workspaceId
+    if (this.workspaces.get(workspaceId) !== workspace) return
+    if (workspace.commandLease) {
+      reschedule()
+      return
+    }
+    const files = await this.readModelFiles(
+      workspace.rootPath,
+      workspace.sourceRoots,
+      workspace.limits,
+    )
+    if (this.workspaces.get(workspaceId) !== workspace) return
+    if (workspace.commandLease) {
+      reschedule()
+      return
+    }
+    const current = new Map(
+      workspace.adapterWorkspace.documents.map((document) => [
+        document.absolutePath,
+        document,
+      ]),
+    )
+    const added = [...files.keys()].filter((path) => !current.has(path))
+    const removed = [...current.keys()].filter((path) => !files.has(path))
+    const changed = [...files].filter(
+      ([path, bytes]) =>
+        current.has(path) && workspace.diskSha256.get(path) !== sha256(bytes),
+    )
+    if (added.length === 0 && removed.length === 0 && changed.length === 0) {
+      return
+    }
+    // A document whose text no longer matches what was last on disk holds
+    // unsaved edits. Those edits win; the external write is a conflict the
+    // user resolves by saving or discarding them.
+    const unsaved = (path: string) =>
+      current.get(path)!.sha256 !== workspace.diskSha256.get(path)
+    const conflicted = changed.filter(([path, bytes]) =>
+      unsaved(path) && current.get(path)!.sha256 !== sha256(bytes))
+    const modified = changed.filter(([path]) => !unsaved(path))
+    for (const [path, bytes] of changed) {
+      const { uri, sha256: bufferSha256 } = current.get(path)!
+      if (bufferSha256 === sha256(bytes)) workspace.diskConflicts.delete(uri)
+    }
+    for (const [path] of conflicted) {
+      workspace.diskConflicts.add(current.get(path)!.uri)
+    }
+    for (const path of removed) workspace.diskConflicts.delete(current.get(path)!.uri)
+    if (added.length === 0 && removed.length === 0 && modified.length === 0 && conflicted.length === 0) {
+      // The unsaved edits were written to disk as they are.
+      for (const [path, bytes] of changed) workspace.diskSha256.set(path, sha256(bytes))
+      this.publishWorkspaceChange(workspaceId)
+      return
+    }
+
+    let diagnostics: LanguageDiagnostic[]
+    if (
+      added.length === 0 &&
+      removed.length === 0 &&
+      workspace.adapter.changeDocument
+    ) {
+      diagnostics = workspace.diagnostics
+      for (const [path, bytes] of modified) {
+        const document = current.get(path)!
+        const next = modelDocument(path, bytes, document.version + 1)
+        diagnostics = await workspace.adapter.changeDocument(
+          next.uri,
+          next.version,
+          next.text,
+        )
+        Object.assign(document, next)
+        workspace.staleUris.add(next.uri)
+      }
+      workspace.reusableSnapshot =
+        workspace.semanticSnapshot ?? workspace.reusableSnapshot
+    } else {
+      workspace.adapterWorkspace.documents = [...files].map(([path, bytes]) => {
+        const document = current.get(path)
+        return document && (document.sha256 === sha256(bytes) || unsaved(path))
+          ? document
+          : modelDocument(path, bytes, (document?.version ?? 0) + 1)
+      })
+      workspace.status.indexState = 'indexing'
+      if (workspace.adapter.restartWorkspace) {
+        diagnostics = await workspace.adapter.restartWorkspace(
+          workspace.adapterWorkspace,
+        )
+      } else {
+        await workspace.adapter.closeWorkspace(workspaceId)
+        diagnostics = await workspace.adapter.openWorkspace(
+          workspace.adapterWorkspace,
+        )
+      }
+      invalidateSemanticCaches(workspace)
+    }
+    workspace.diskSha256 = new Map(
+      [...files].map(([path, bytes]) => [path, sha256(bytes)]),
+    )
+    // A checkout may also have replaced the persisted identities.
+    workspace.identityRegistry = await loadIdentityRegistry(
+      workspace.identityRegistryPath,
+      workspaceId,
+      workspace.rootPath,
+    )
+    workspace.diagnostics = diagnostics
+    workspace.status = buildStatus(
+      workspace.adapterWorkspace,
+      workspace.adapter,
+      diagnostics,
+    )
+    workspace.semanticRevision += 1
+    workspace.semanticSnapshot = undefined
+    workspace.semanticSnapshotPromise = undefined
+
+    const changes = [
+      ...added.map((path) => `added ${relative(workspace.rootPath, path)}`),
+      ...removed.map((path) => `removed ${relative(workspace.rootPath, path)}`),
+      ...modified.map(([path]) => `modified ${relative(workspace.rootPath, path)}`),
+      ...conflicted.map(([path]) => `modified ${relative(workspace.rootPath, path)} under unsaved edits`),
+    ].map((change) => change.replaceAll('\\', '/'))
+    const reason = `Workspace sources changed outside the workbench (${changes.join(', ')})`
+    const proposalIds = [...workspace.commandProposals.values()].map(
+      (proposal) => proposal.proposalId,
+    )
+    for (const proposalId of proposalIds) {
+      workspace.staleProposals.set(proposalId, reason)
+    }
+    workspace.commandProposals.clear()
+    this.publishWorkspaceChange(workspaceId)
+    if (proposalIds.length > 0) {
+      this.notify({
+        method: WORKBENCH_NOTIFICATIONS.commandDidInvalidate,
+        params: { workspaceId, proposalIds, reason },
+      })
+    }
+  }
+
+  private publishWorkspaceChange(workspaceId: string): void {
+    const workspace = this.requireWorkspace(workspaceId)
+    this.notify({
+      method: WORKBENCH_NOTIFICATIONS.workspaceDidChangeStatus,
+      params: this.status(workspaceId),
+    })
+    this.notify({
+      method: WORKBENCH_NOTIFICATIONS.languagePublishDiagnostics,
+      params: { workspaceId, diagnostics: this.diagnostics(workspaceId) },
+    })
+    this.notify({
+      method: WORKBENCH_NOTIFICATIONS.semanticDidChangeSnapshot,
+      params: { workspaceId, semanticRevision: workspace.semanticRevision },
+    })
+  }
+
+  private publishReview(workspaceId: string, review: ModelReview): ModelReview {
+    this.notify({
+      method: WORKBENCH_NOTIFICATIONS.reviewDidChange,
+      params: { workspaceId, review: structuredClone(review) },
+    })
+    return review
+  }
+
+  private notify(notification: WorkbenchNotification): void {
+    this.options.onNotification?.(notification)
+  }
+
   private requireDocument(workspaceId: string, uri: string): OpenWorkspace {
     const workspace = this.requireWorkspace(workspaceId)
     if (
@@ -1210,6 +1955,34 @@ export class WorkspaceManager {
     return workspace
   }
 
+  // Indirect coverage is claimed only when the workspace opts in to it.
+  private async assuranceOptions(workspaceId: string): Promise<AssuranceOptions> {
+    return {
+      rulePacks: await this.loadRulePacks(workspaceId),
+      coverage: this.requireWorkspace(workspaceId).assuranceCoverage,
+    }
+  }
+
+  private async loadRulePacks(workspaceId: string): Promise<UserRulePack[]> {
+    const workspace = this.requireWorkspace(workspaceId)
+    const packs: UserRulePack[] = []
+    for (const configuredPath of workspace.rulePackPaths) {
+      const path = await resolveExistingWithin(workspace.rootPath, configuredPath)
+      const extension = extname(path).toLowerCase()
+      if (!['.yaml', '.yml', '.json'].includes(extension)) {
+        throw new WorkspacePathError(`Rule pack must be a YAML or JSON file: ${configuredPath}`)
+      }
+      // Checked before reading and again after, in case the file grew.
+      const oversized = () =>
+        new WorkspacePathError(`Rule pack exceeds ${MAX_RULE_PACK_BYTES} bytes: ${configuredPath}`)
+      if ((await stat(path)).size > MAX_RULE_PACK_BYTES) throw oversized()
+      const raw = await readFile(path, 'utf8')
+      if (Buffer.byteLength(raw, 'utf8') > MAX_RULE_PACK_BYTES) throw oversized()
+      packs.push(parseRulePack(extension === '.json' ? JSON.parse(raw) : parse(raw)))
+    }
+    return packs
+  }
+
   private requireWorkspace(workspaceId: string): OpenWorkspace {
     const workspace = this.workspaces.get(workspaceId)
     if (!workspace) {
@@ -1218,6 +1991,17 @@ export class WorkspaceManager {
     return workspace
   }
 
+  private modelRepository(workspaceId: string): ModelRepositoryClient {
+    const configuration = this.requireWorkspace(workspaceId).modelRepository
+    if (!configuration) {
+      throw new WorkspacePathError('Workspace has no modelRepository configured')
+    }
+    return new ModelRepositoryClient({
+      ...configuration,
+      ...(this.options.modelRepositoryToken ? { token: this.options.modelRepositoryToken } : {}),
+    })
+  }
+
   private aiToolHost(workspaceId: string): AiWorkspaceToolHost {
     return {
       snapshot: () => this.semanticSnapshot(workspaceId),
@@ -1427,13 +2211,23 @@ export class WorkspaceManager {
     workspace: OpenWorkspace,
     semanticRevision: number,
   ): Promise<SemanticSnapshot> {
+    const refetch = evidenceToRefetch(workspace)
     const evidence = new Map<string, EngineSemanticEvidence>()
     for (const document of workspace.adapterWorkspace.documents) {
+      const cached = workspace.semanticEvidence.get(document.uri)
       evidence.set(
         document.uri,
-        await this.options.adapter.semanticEvidence!(document.uri),
+        cached && !refetch.has(document.uri)
+          ? cached
+          : await workspace.adapter.semanticEvidence!(document.uri),
       )
     }
+    // Engines may regenerate element ids when they reindex; reused evidence a
+    // fresh reference no longer resolves into is fetched again.
+    for (const uri of regeneratedEvidence(evidence, refetch)) {
+      evidence.set(uri, await workspace.adapter.semanticEvidence!(uri))
+      refetch.add(uri)
+    }
     if (workspace.semanticRevision !== semanticRevision) {
       throw new WorkspacePathError(
         'Workspace changed while the semantic snapshot was being built',
@@ -1444,10 +2238,18 @@ export class WorkspaceManager {
     )
     const snapshot = buildSemanticSnapshot({
       status: workspace.status,
-      authority: this.options.adapter.metadata,
+      authority: workspace.adapter.metadata,
       documents: workspace.adapterWorkspace.documents,
       evidence,
       identities: candidateIdentities,
+      ...(workspace.reusableSnapshot
+        ? {
+            previous: {
+              snapshot: workspace.reusableSnapshot,
+              changedUris: refetch,
+            },
+          }
+        : {}),
     })
     if (workspace.semanticRevision !== semanticRevision) {
       throw new WorkspacePathError(
@@ -1467,16 +2269,109 @@ export class WorkspaceManager {
       )
     }
     workspace.identityRegistry = candidateIdentities
+    pruneQueryCache(workspace, snapshot)
+    workspace.semanticEvidence = evidence
+    workspace.staleUris.clear()
+    workspace.reusableSnapshot = undefined
     workspace.semanticSnapshot = snapshot
     return snapshot
   }
 
+  // Snapshot of the workspace with the given document texts, for planning a
+  // command batch step by step. The language engine gets the original texts
+  // back before this returns.
+  private async overlaySnapshot(
+    workspace: OpenWorkspace,
+    documents: CommandWorkspaceDocument[],
+  ): Promise<SemanticSnapshot> {
+    if (!workspace.adapter.changeDocument) {
+      throw new WorkspacePathError(
+        'Authoritative overlay validation requires incremental document updates',
+      )
+    }
+    const originals = new Map(
+      workspace.adapterWorkspace.documents.map((document) => [
+        document.uri,
+        { text: document.text, sha256: document.sha256 },
+      ]),
+    )
+    const changed = documents.filter((overlay) => {
+      const original = originals.get(overlay.uri)
+      return original && original.text !== overlay.text
+    })
+    let diagnostics = structuredClone(workspace.diagnostics)
+    try {
+      for (const overlay of changed) {
+        const current = workspace.adapterWorkspace.documents.find(
+          (document) => document.uri === overlay.uri,
+        )!
+        diagnostics = await workspace.adapter.changeDocument(
+          overlay.uri,
+          current.version + 1,
+          overlay.text,
+        )
+        current.text = overlay.text
+        current.sha256 = overlay.sha256
+      }
+      const overlayWorkspace: AdapterWorkspace = {
+        ...workspace.adapterWorkspace,
+        documents: workspace.adapterWorkspace.documents.map((document) => ({
+          ...document,
+          sha256: sha256(Buffer.from(document.text, 'utf8')),
+        })),
+      }
+      // Only the overlaid documents and those referring to them are read
+      // again; the rest reuse the evidence and elements already built.
+      const refetch = evidenceToRefetch(
+        workspace,
+        new Set(changed.map((overlay) => overlay.uri)),
+      )
+      const evidence = new Map<string, EngineSemanticEvidence>()
+      for (const document of overlayWorkspace.documents) {
+        const cached = workspace.semanticEvidence.get(document.uri)
+        evidence.set(
+          document.uri,
+          cached && !refetch.has(document.uri)
+            ? cached
+            : await workspace.adapter.semanticEvidence!(document.uri),
+        )
+      }
+      for (const uri of regeneratedEvidence(evidence, refetch)) {
+        evidence.set(uri, await workspace.adapter.semanticEvidence!(uri))
+        refetch.add(uri)
+      }
+      const previous = workspace.semanticSnapshot ?? workspace.reusableSnapshot
+      return buildSemanticSnapshot({
+        status: buildStatus(overlayWorkspace, workspace.adapter, diagnostics),
+        authority: workspace.adapter.metadata,
+        documents: overlayWorkspace.documents,
+        evidence,
+        identities: new IdentityRegistry(workspace.identityRegistry.serialize()),
+        ...(previous ? { previous: { snapshot: previous, changedUris: refetch } } : {}),
+      })
+    } finally {
+      for (const overlay of [...changed].reverse()) {
+        const original = originals.get(overlay.uri)!
+        const current = workspace.adapterWorkspace.documents.find(
+          (document) => document.uri === overlay.uri,
+        )!
+        await workspace.adapter.changeDocument(
+          overlay.uri,
+          current.version + 1,
+          original.text,
+        )
+        current.text = original.text
+        current.sha256 = original.sha256
+      }
+    }
+  }
+
   private async validateCommandOverlay(
     workspace: OpenWorkspace,
     beforeSnapshot: SemanticSnapshot,
     proposal: InternalCommandProposal,
   ): Promise<InternalCommandProposal> {
-    if (!this.options.adapter.changeDocument) {
+    if (!workspace.adapter.changeDocument) {
       throw new WorkspacePathError(
         'Authoritative overlay validation requires incremental document updates',
       )
@@ -1501,7 +2396,7 @@ export class WorkspaceManager {
         const current = workspace.adapterWorkspace.documents.find(
           (document) => document.uri === overlay.uri,
         )!
-        diagnosticsAfter = await this.options.adapter.changeDocument(
+        diagnosticsAfter = await workspace.adapter.changeDocument(
           overlay.uri,
           current.version + 1,
           overlay.text,
@@ -1518,19 +2413,19 @@ export class WorkspaceManager {
       }
       const overlayStatus = buildStatus(
         overlayWorkspace,
-        this.options.adapter,
+        workspace.adapter,
         diagnosticsAfter,
       )
       const evidence = new Map<string, EngineSemanticEvidence>()
       for (const document of overlayWorkspace.documents) {
         evidence.set(
           document.uri,
-          await this.options.adapter.semanticEvidence!(document.uri),
+          await workspace.adapter.semanticEvidence!(document.uri),
         )
       }
       const provisional = buildSemanticSnapshot({
         status: overlayStatus,
-        authority: this.options.adapter.metadata,
+        authority: workspace.adapter.metadata,
         documents: overlayWorkspace.documents,
         evidence,
         identities: IdentityRegistry.empty(overlayStatus.workspaceId),
@@ -1580,7 +2475,7 @@ export class WorkspaceManager {
       }
       const afterSnapshot = buildSemanticSnapshot({
         status: overlayStatus,
-        authority: this.options.adapter.metadata,
+        authority: workspace.adapter.metadata,
         documents: overlayWorkspace.documents,
         evidence,
         identities,
@@ -1597,7 +2492,7 @@ export class WorkspaceManager {
         const current = workspace.adapterWorkspace.documents.find(
           (document) => document.uri === overlay.uri,
         )!
-        await this.options.adapter.changeDocument(
+        await workspace.adapter.changeDocument(
           overlay.uri,
           current.version + 1,
           original.text,
@@ -1609,6 +2504,49 @@ export class WorkspaceManager {
   }
 }
 
+// The elements an applied proposal's external aliases belong to: the
+// element its create-element command created, or the command's target.
+function externalAliasBindings(
+  proposal: InternalCommandProposal,
+): Array<{ elementId: string | undefined; externalAlias: CommandExternalAlias }> {
+  const created = (ownerId: string, name: string) =>
+    proposal.semanticDiff?.changes.find((change) =>
+      change.kind === 'element-created' &&
+      change.after &&
+      'ownerId' in change.after &&
+      change.after.ownerId === ownerId &&
+      change.after.name === name)?.elementId
+  const { command, externalAlias } = proposal.envelope
+  if (command.kind !== 'command-batch') {
+    if (!externalAlias) return []
+    return [{
+      elementId: command.kind === 'create-element'
+        ? created(command.ownerId, command.name)
+        : 'targetId' in command ? command.targetId : undefined,
+      externalAlias,
+    }]
+  }
+  const stepIds = proposal.batchElementIds ?? []
+  const validated = new Set(
+    proposal.validatedAfterSnapshot?.elements.map((element) => element.id),
+  )
+  return command.steps.flatMap((step, index) => {
+    if (!step.externalAlias) return []
+    const reference = 'targetId' in step.command
+      ? /^step:(\d+)$/u.exec(step.command.targetId)
+      : null
+    const id = step.command.kind === 'create-element'
+      ? stepIds[index]
+      : reference
+        ? stepIds[Number(reference[1])]
+        : 'targetId' in step.command ? step.command.targetId : undefined
+    return [{
+      elementId: id && validated.has(id) ? id : undefined,
+      externalAlias: step.externalAlias,
+    }]
+  })
+}
+
 function requireBaselineId(value: string | undefined): string {
   if (!value) throw new WorkspacePathError('Report requires a baseline id')
   return value
@@ -1628,6 +2566,50 @@ function validateConfiguration(value: unknown): WorkspaceConfiguration {
     throw new WorkspacePathError('Workspace libraries must be an array of paths')
   }
 
+  if (
+    value.rulePacks !== undefined &&
+    (!isStringArray(value.rulePacks) || value.rulePacks.length > MAX_RULE_PACKS)
+  ) {
+    throw new WorkspacePathError(
+      `Workspace rulePacks must be an array of at most ${MAX_RULE_PACKS} paths`,
+    )
+  }
+  if (
+    value.assuranceCoverage !== undefined &&
+    value.assuranceCoverage !== 'direct' &&
+    value.assuranceCoverage !== 'indirect'
+  ) {
+    throw new WorkspacePathError(
+      'Workspace assuranceCoverage must be direct or indirect',
+    )
+  }
+
+  if (value.modelRepository !== undefined) {
+    const repository = value.modelRepository
+    if (
+      !isRecord(repository) ||
+      typeof repository.url !== 'string' ||
+      typeof repository.projectId !== 'string' ||
+      (repository.branchId !== undefined && typeof repository.branchId !== 'string')
+    ) {
+      throw new WorkspacePathError(
+        'Workspace modelRepository must have a url, a projectId, and an optional branchId',
+      )
+    }
+  }
+
+  if (value.limits !== undefined) {
+    if (!isRecord(value.limits)) {
+      throw new WorkspacePathError('Workspace limits must be an object')
+    }
+    for (const key of ['maxFiles', 'maxBytes']) {
+      const limit = value.limits[key]
+      if (limit !== undefined && (!Number.isSafeInteger(limit) || (limit as number) < 1)) {
+        throw new WorkspacePathError(`Workspace limits.${key} must be a positive integer`)
+      }
+    }
+  }
+
   const modelConfigurations = value.modelConfigurations
   if (modelConfigurations !== undefined && !isRecord(modelConfigurations)) {
     throw new WorkspacePathError('modelConfigurations must be an object')
@@ -1723,6 +2705,31 @@ async function collectModelFiles(
   }
 }
 
+function modelDocument(
+  absolutePath: string,
+  bytes: Buffer,
+  version: number,
+): WorkspaceDocument {
+  const extension = extname(absolutePath).toLowerCase()
+  return {
+    uri: pathToFileURL(absolutePath).href,
+    absolutePath,
+    languageId: extension === '.kerml' ? 'kerml' : 'sysml',
+    version,
+    text: bytes.toString('utf8'),
+    sha256: sha256(bytes),
+  }
+}
+
+function stopWatching(workspace: OpenWorkspace): void {
+  clearTimeout(workspace.watchTimer)
+  workspace.watchTimer = undefined
+  clearInterval(workspace.watchPoll)
+  workspace.watchPoll = undefined
+  for (const watcher of workspace.watchers) watcher.close()
+  workspace.watchers = []
+}
+
 function buildStatus(
   workspace: AdapterWorkspace,
   adapter: LanguageAdapter,
@@ -1878,6 +2885,100 @@ async function assertNoSymlinkSegments(
   }
 }
 
+// Changed documents, plus documents whose cached evidence references them or
+// has unresolved references that a change may now resolve. `overlaid` names
+// documents whose engine text differs from the cached evidence only for now.
+function evidenceToRefetch(
+  workspace: OpenWorkspace,
+  overlaid: ReadonlySet<string> = new Set(),
+): Set<string> {
+  const refetch = new Set<string>()
+  const staleEngineIds = new Set<string>()
+  for (const document of workspace.adapterWorkspace.documents) {
+    const cached = workspace.semanticEvidence.get(document.uri)
+    if (
+      !cached ||
+      workspace.staleUris.has(document.uri) ||
+      overlaid.has(document.uri)
+    ) {
+      refetch.add(document.uri)
+      for (const element of cached?.elements ?? []) {
+        staleEngineIds.add(element.engineId)
+      }
+    }
+  }
+  for (const [uri, cached] of workspace.semanticEvidence) {
+    if (
+      cached.relationships.some(
+        (relationship) =>
+          !relationship.resolved ||
+          (relationship.targetUri !== undefined &&
+            refetch.has(relationship.targetUri)) ||
+          (relationship.targetEngineId !== undefined &&
+            staleEngineIds.has(relationship.targetEngineId)),
+      )
+    ) {
+      refetch.add(uri)
+    }
+  }
+  return refetch
+}
+
+function regeneratedEvidence(
+  evidence: Map<string, EngineSemanticEvidence>,
+  refetched: Set<string>,
+): Set<string> {
+  const regenerated = new Set<string>()
+  for (const uri of refetched) {
+    for (const relationship of evidence.get(uri)?.relationships ?? []) {
+      const targetUri = relationship.targetUri
+      const target = targetUri ? evidence.get(targetUri) : undefined
+      if (
+        !target ||
+        !targetUri ||
+        refetched.has(targetUri) ||
+        target.elements.some(
+          (element) => element.engineId === relationship.targetEngineId,
+        )
+      ) {
+        continue
+      }
+      regenerated.add(targetUri)
+    }
+  }
+  return regenerated
+}
+
+function invalidateSemanticCaches(workspace: OpenWorkspace): void {
+  workspace.semanticEvidence.clear()
+  workspace.staleUris.clear()
+  workspace.reusableSnapshot = undefined
+  workspace.queryCache.clear()
+}
+
+// Cached query results survive an incremental rebuild when nothing they
+// reached changed; every other entry is dropped.
+function pruneQueryCache(
+  workspace: OpenWorkspace,
+  snapshot: SemanticSnapshot,
+): void {
+  const previous = workspace.reusableSnapshot
+  const change = previous ? snapshotChange(previous, snapshot) : undefined
+  for (const [key, entry] of workspace.queryCache) {
+    if (
+      !previous ||
+      !change ||
+      entry.snapshotSha256 !== previous.snapshotSha256 ||
+      isModelQueryAffected(entry.reach, change)
+    ) {
+      workspace.queryCache.delete(key)
+      continue
+    }
+    entry.snapshotSha256 = snapshot.snapshotSha256
+    entry.result.snapshotSha256 = snapshot.snapshotSha256
+  }
+}
+
 function sha256(value: Buffer): string {
   return createHash('sha256').update(value).digest('hex')
 }
@@ -1958,6 +3059,15 @@ function validateSavedView(value: unknown): SavedWorkbenchView {
   if (!isRecord(value.query)) {
     throw new WorkspacePathError('Saved view query must be an object')
   }
+  if (value.query.expression !== undefined) {
+    try {
+      parseModelQueryExpression(value.query.expression as string)
+    } catch (error) {
+      throw new WorkspacePathError(
+        `Saved view query expression is invalid: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
   const notations = new Set([
     'model-structure',
     'interconnection',
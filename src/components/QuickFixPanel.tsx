@@ -0,0 +1,102 @@
+import { useState } from 'react'
+import {
+  codeActionDefault,
+  resolveCodeActionCommand,
+  type CodeAction,
+  type CodeActionField,
+} from '../../packages/command-engine/src/code-actions.js'
+import type { CommandEnvelope } from '../../packages/command-engine/src/index.js'
+import type { SemanticSnapshot } from '../../packages/semantic-model/src/index.js'
+import {
+  CommandReviewPanel,
+  type CommandReviewGateway,
+} from './CommandReviewPanel.js'
+
+export interface QuickFixPanelProps {
+  gateway: CommandReviewGateway
+  snapshot: SemanticSnapshot
+  actions: CodeAction[]
+  userId: string
+  onApplied?: () => void
+}
+
+export function QuickFixPanel({
+  gateway,
+  snapshot,
+  actions,
+  userId,
+  onApplied,
+}: QuickFixPanelProps) {
+  const [actionId, setActionId] = useState(actions[0]?.id ?? '')
+  const [selections, setSelections] = useState<Partial<Record<CodeActionField, string>>>({})
+  const [envelope, setEnvelope] = useState<CommandEnvelope | null>(null)
+  const [error, setError] = useState('')
+  const action = actions.find((item) => item.id === actionId) ?? actions[0]
+  if (!action) return null
+
+  const chooseAction = (id: string) => {
+    setActionId(id)
+    setSelections({})
+    setEnvelope(null)
+  }
+
+  const review = () => {
+    setError('')
+    try {
+      setEnvelope({
+        schemaVersion: 1,
+        commandId: `quickfix:${crypto.randomUUID()}`,
+        workspaceId: snapshot.workspace.id,
+        baseSnapshotSha256: snapshot.snapshotSha256,
+        baseDocuments: Object.fromEntries(
+          snapshot.documents.map((document) => [document.uri, document.sha256]),
+        ),
+        requestedBy: { kind: 'user', id: userId },
+        command: resolveCodeActionCommand(action, selections),
+      })
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : 'Quick fix could not be prepared')
+    }
+  }
+
+  return (
+    <section aria-label="Quick fixes">
+      <h2>Quick fixes</h2>
+      <label>
+        Fix
+        <select value={action.id} onChange={(event) => chooseAction(event.target.value)}>
+          {actions.map((item) => (
+            <option key={item.id} value={item.id}>{item.title}</option>
+          ))}
+        </select>
+      </label>
+      {action.parameters.map((parameter) => (
+        <label key={parameter.field}>
+          {parameter.label}
+          <select
+            value={selections[parameter.field] ?? codeActionDefault(action, parameter.field)}
+            onChange={(event) => {
+              setSelections((current) => ({ ...current, [parameter.field]: event.target.value }))
+              setEnvelope(null)
+            }}
+          >
+            {parameter.choices.map((choice) => (
+              <option key={choice.value} value={choice.value}>{choice.label}</option>
+            ))}
+          </select>
+        </label>
+      ))}
+      {error && <p role="alert">{error}</p>}
+      <button type="button" onClick={review}>Review quick fix</button>
+      {envelope && (
+        <CommandReviewPanel
+          key={envelope.commandId}
+          gateway={gateway}
+          envelope={envelope}
+          approvalUserId={userId}
+          onApplied={onApplied}
+        />
+      )}
+    </section>
+  )
+}
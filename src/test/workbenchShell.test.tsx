@@ -1,8 +1,10 @@
-import { cleanup, fireEvent, render, screen, waitFor, within } from '@testing-library/react'
+import { act, cleanup, fireEvent, render, screen, waitFor, within } from '@testing-library/react'
 import { afterEach, describe, expect, it, vi } from 'vitest'
 import axe from 'axe-core'
 import type { SemanticSnapshot } from '../../packages/semantic-model/src/index.js'
+import type { SavedWorkbenchView } from '../../packages/workbench-protocol/src/index.js'
 import type { WorkbenchGateway } from '../workbench/gateway.js'
+import type { WorkbenchNotification } from '../../packages/workspace-service/src/workspace.js'
 import type { AiOperationRecord } from '../../packages/ai-orchestrator/src/index.js'
 import { WorkbenchShell } from '../workbench/WorkbenchShell.js'
 
@@ -31,7 +33,7 @@ const snapshot: SemanticSnapshot = {
   elements: [
     element('package', 'Package', 'System', 'System'),
     { ...element('controller', 'PartDefinition', 'Controller', 'System::Controller'), ownerId: 'package' },
-    { ...element('port', 'PortUsage', 'commandPort', 'System::commandPort'), ownerId: 'package' },
+    { ...element('port', 'PortUsage', 'commandPort', 'System::commandPort'), ownerId: 'package', feature: { direction: 'in', multiplicity: { lower: 1, upper: 4 } } },
   ],
   relationships: [
     {
@@ -65,10 +67,80 @@ describe('service-backed workbench shell', () => {
 
     fireEvent.click(screen.getByRole('treeitem', { name: /commandPort/ }))
     expect(screen.getAllByText('PortUsage').length).toBeGreaterThan(0)
+    const inspector = within(screen.getByLabelText('Model inspector'))
+    expect(inspector.getByText('Direction').nextElementSibling).toHaveTextContent('in')
+    expect(inspector.getByText('[1..4]')).toBeInTheDocument()
     fireEvent.click(screen.getByRole('button', { name: /model\/system.sysml:1/ }))
     expect(screen.getByRole('tab', { name: /source/i })).toHaveAttribute('aria-selected', 'true')
   })
 
+  it('follows status, diagnostics, and snapshot notifications from other clients', async () => {
+    const gateway = createGateway()
+    let publish: (notification: WorkbenchNotification) => void = () => undefined
+    const unsubscribe = vi.fn()
+    gateway.subscribe = vi.fn((listener: typeof publish) => {
+      publish = listener
+      return unsubscribe
+    })
+    vi.mocked(gateway.semanticSnapshot).mockResolvedValue({ ...snapshot, snapshotSha256: 'snapshot-2' })
+    const { unmount } = render(<WorkbenchShell gateway={gateway} initialWorkspace={loadedWorkspace()} userId="engineer" />)
+    await waitFor(() => expect(gateway.modelQuery).toHaveBeenCalledOnce())
+    expect(screen.getByText('UNRESOLVED_REFERENCE')).toBeInTheDocument()
+
+    act(() => {
+      publish({ method: 'workspace/didChangeStatus', params: { ...loadedWorkspace().status, indexState: 'stale' } })
+      publish({ method: 'language/publishDiagnostics', params: { workspaceId: 'other', diagnostics: [] } })
+    })
+    expect(screen.getByText(/stale · qualified-engine/)).toBeInTheDocument()
+    expect(screen.getByText('UNRESOLVED_REFERENCE')).toBeInTheDocument()
+    act(() => {
+      publish({ method: 'language/publishDiagnostics', params: { workspaceId: 'pilot', diagnostics: [] } })
+      publish({ method: 'semantic/didChangeSnapshot', params: { workspaceId: 'pilot', semanticRevision: 1 } })
+    })
+    expect(screen.queryByText('UNRESOLVED_REFERENCE')).not.toBeInTheDocument()
+    await waitFor(() => expect(gateway.modelQuery).toHaveBeenCalledTimes(2))
+    expect(gateway.semanticSnapshot).toHaveBeenCalledWith('pilot')
+
+    unmount()
+    expect(unsubscribe).toHaveBeenCalledOnce()
+  })
+
+  it('opens another workspace and switches between the open workspaces', async () => {
+    const gateway = createGateway()
+    const subsystemStatus = { ...loadedWorkspace().status, workspaceId: 'subsystem', rootUri: 'file:///subsystem' }
+    const subsystemSnapshot = {
+      ...snapshot,
+      snapshotSha256: 'subsystem-1',
+      workspace: { ...snapshot.workspace, id: 'subsystem' },
+      elements: [element('sensor', 'PartDefinition', 'Sensor', 'Subsystem::Sensor')],
+      relationships: [],
+    }
+    vi.mocked(gateway.openWorkspace).mockResolvedValue(subsystemStatus)
+    vi.mocked(gateway.workspaceStatus).mockImplementation(async (workspaceId: string) =>
+      workspaceId === 'subsystem' ? subsystemStatus : loadedWorkspace().status)
+    vi.mocked(gateway.semanticSnapshot).mockImplementation(async (workspaceId: string) =>
+      workspaceId === 'subsystem' ? subsystemSnapshot : snapshot)
+    render(<WorkbenchShell gateway={gateway} initialWorkspace={loadedWorkspace()} userId="engineer" />)
+    await waitFor(() => expect(gateway.listWorkspaces).toHaveBeenCalledOnce())
+
+    vi.mocked(gateway.listWorkspaces).mockResolvedValue([
+      summary(loadedWorkspace().status, 'Pilot workspace'),
+      summary(subsystemStatus, 'Subsystem'),
+    ])
+    const workspaceFile = screen.getByRole('textbox', { name: 'Open another workspace file' })
+    fireEvent.change(workspaceFile, { target: { value: '/subsystem/sysml-workspace.yaml' } })
+    fireEvent.submit(workspaceFile)
+    await waitFor(() => expect(screen.getByRole('combobox', { name: 'Switch workspace' })).toHaveValue('subsystem'))
+    expect(gateway.openWorkspace).toHaveBeenCalledWith('/subsystem/sysml-workspace.yaml')
+    await waitFor(() => expect(gateway.modelQuery).toHaveBeenLastCalledWith('subsystem', expect.anything()))
+    expect(gateway.semanticSnapshot).toHaveBeenCalledWith('subsystem')
+    expect(screen.getByRole('option', { name: 'Pilot workspace' })).toBeInTheDocument()
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Switch workspace' }), { target: { value: 'pilot' } })
+    await waitFor(() => expect(gateway.modelQuery).toHaveBeenLastCalledWith('pilot', expect.anything()))
+    expect(gateway.workspaceStatus).toHaveBeenLastCalledWith('pilot')
+  })
+
   it('keeps source text as a draft until a patch review is explicitly generated', async () => {
     const gateway = createGateway()
     render(<WorkbenchShell gateway={gateway} initialWorkspace={loadedWorkspace()} userId="engineer" />)
@@ -89,14 +161,224 @@ describe('service-backed workbench shell', () => {
     expect(gateway.applyCommand).not.toHaveBeenCalled()
   })
 
+  it('routes a quick fix through the command review flow', async () => {
+    const gateway = createGateway()
+    vi.mocked(gateway.codeActions).mockResolvedValue([{
+      id: 'quickfix:finding:1',
+      title: 'Type System::commandPort as…',
+      source: { kind: 'assurance-finding', findingId: 'finding:1', ruleId: 'IF-UNTYPED-ENDPOINT' },
+      elementIds: ['interface', 'port'],
+      command: { kind: 'change-type', targetId: 'port', typeQualifiedName: 'Library::CommandPort' },
+      parameters: [{
+        field: 'typeQualifiedName',
+        label: 'Type',
+        choices: [
+          { value: 'Library::CommandPort', label: 'Library::CommandPort' },
+          { value: 'System::CommandPort', label: 'System::CommandPort' },
+        ],
+      }],
+    }])
+    render(<WorkbenchShell gateway={gateway} initialWorkspace={loadedWorkspace()} userId="engineer" />)
+    await waitFor(() => expect(gateway.codeActions).toHaveBeenCalledWith('pilot'))
+    expect(screen.queryByRole('region', { name: 'Quick fixes' })).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('treeitem', { name: /commandPort/ }))
+    const quickFixes = within(await screen.findByRole('region', { name: 'Quick fixes' }))
+    fireEvent.change(quickFixes.getByRole('combobox', { name: 'Type' }), { target: { value: 'System::CommandPort' } })
+    fireEvent.click(quickFixes.getByRole('button', { name: 'Review quick fix' }))
+    expect(gateway.proposeCommand).not.toHaveBeenCalled()
+    fireEvent.click(quickFixes.getByRole('button', { name: 'Generate validated patch' }))
+
+    await waitFor(() => expect(gateway.proposeCommand).toHaveBeenCalledWith(expect.objectContaining({
+      workspaceId: 'pilot',
+      requestedBy: { kind: 'user', id: 'engineer' },
+      command: { kind: 'change-type', targetId: 'port', typeQualifiedName: 'System::CommandPort' },
+    })))
+    expect(gateway.applyCommand).not.toHaveBeenCalled()
+  })
+
+  it('maps requirement table columns and reviews the import as one command batch', async () => {
+    const gateway = createGateway()
+    const batch = {
+      kind: 'command-batch' as const,
+      steps: [
+        {
+          command: { kind: 'create-element' as const, ownerId: 'package', elementKind: 'RequirementUsage' as const, name: 'Top_speed' },
+          externalAlias: { scheme: 'requirement-table', identifier: 'REQ-1' },
+        },
+        { command: { kind: 'update-documentation' as const, targetId: 'step:0', documentation: 'Limit speed.' } },
+      ],
+    }
+    vi.mocked(gateway.readRequirementTable).mockResolvedValue({
+      columns: ['ID', 'Title', 'Description'],
+      rows: [['REQ-1', 'Top speed', 'Limit speed.']],
+    })
+    vi.mocked(gateway.planRequirementTableImport).mockResolvedValue({
+      schemaVersion: 1,
+      format: 'requirement-table',
+      baseSnapshotSha256: snapshot.snapshotSha256,
+      proposals: [
+        { sourceId: 'REQ-1', title: 'Create RequirementUsage System::Top_speed', ...batch.steps[0]! },
+        { sourceId: 'REQ-1', title: 'Document System::Top_speed', ...batch.steps[1]! },
+      ],
+      matched: [],
+      skipped: [{ sourceId: 'row 3', reason: 'Row has no name' }],
+      batch,
+    })
+    render(<WorkbenchShell gateway={gateway} initialWorkspace={loadedWorkspace()} userId="engineer" />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Traceability' }))
+    fireEvent.click(screen.getByRole('button', { name: /import table/i }))
+    const wizard = within(screen.getByLabelText('Requirement import'))
+    fireEvent.change(wizard.getByLabelText('Table file'), {
+      target: { files: [new File(['ID,Title,Description\nREQ-1,Top speed,Limit speed.\n'], 'requirements.csv')] },
+    })
+    await waitFor(() => expect(gateway.readRequirementTable).toHaveBeenCalledWith(
+      'requirements.csv',
+      btoa('ID,Title,Description\nREQ-1,Top speed,Limit speed.\n'),
+    ))
+    expect(await wizard.findByRole('combobox', { name: 'Name' })).toHaveValue('Title')
+    expect(wizard.getByRole('combobox', { name: 'Id' })).toHaveValue('ID')
+    expect(wizard.getByRole('combobox', { name: 'Text' })).toHaveValue('Description')
+    fireEvent.change(wizard.getByRole('combobox', { name: 'Text' }), { target: { value: '' } })
+    fireEvent.change(wizard.getByRole('combobox', { name: 'Text' }), { target: { value: 'Description' } })
+    fireEvent.click(wizard.getByRole('button', { name: 'Preview commands' }))
+
+    await waitFor(() => expect(gateway.planRequirementTableImport).toHaveBeenCalledWith(
+      'pilot',
+      { columns: ['ID', 'Title', 'Description'], rows: [['REQ-1', 'Top speed', 'Limit speed.']] },
+      { id: 'ID', name: 'Title', text: 'Description' },
+      'package',
+    ))
+    const planned = within(await wizard.findByRole('region', { name: 'Planned commands' }))
+    expect(planned.getByText('Document System::Top_speed')).toBeInTheDocument()
+    expect(planned.getByText('Row has no name')).toBeInTheDocument()
+    fireEvent.click(wizard.getByRole('button', { name: 'Generate validated patch' }))
+    await waitFor(() => expect(gateway.proposeCommand).toHaveBeenCalledWith(expect.objectContaining({
+      workspaceId: 'pilot',
+      baseSnapshotSha256: snapshot.snapshotSha256,
+      requestedBy: { kind: 'user', id: 'engineer' },
+      command: batch,
+    })))
+    expect(gateway.applyCommand).not.toHaveBeenCalled()
+
+    fireEvent.click(wizard.getByRole('button', { name: 'Close requirement import' }))
+    expect(screen.queryByLabelText('Requirement import')).not.toBeInTheDocument()
+  })
+
   it('persists a saved projection through the workspace service', async () => {
     const gateway = createGateway()
     render(<WorkbenchShell gateway={gateway} initialWorkspace={loadedWorkspace()} userId="engineer" />)
     fireEvent.click(screen.getByRole('button', { name: 'Save current view' }))
     await waitFor(() => expect(gateway.saveView).toHaveBeenCalledWith(
       'pilot',
-      expect.objectContaining({ id: 'view-containment', query: { mode: 'containment', depth: 5, maxResults: 2000 } }),
+      expect.objectContaining({
+        id: 'view-containment',
+        query: { mode: 'containment', depth: 5, maxResults: 2000 },
+        layout: {
+          positions: expect.objectContaining({
+            package: expect.objectContaining({ x: expect.any(Number), y: expect.any(Number), width: 184, height: 76 }),
+          }),
+        },
+      }),
     ))
+
+    const expression = screen.getByLabelText('Query expression')
+    fireEvent.change(expression, { target: { value: ' PartDefinition where not exists <-satisfaction- ' } })
+    fireEvent.submit(expression)
+    await waitFor(() => expect(gateway.modelQuery).toHaveBeenLastCalledWith('pilot', expect.objectContaining({
+      expression: 'PartDefinition where not exists <-satisfaction-',
+    })))
+    fireEvent.click(screen.getByRole('button', { name: 'Save current view' }))
+    await waitFor(() => expect(gateway.saveView).toHaveBeenLastCalledWith('pilot', expect.objectContaining({
+      query: { mode: 'containment', depth: 5, maxResults: 2000, expression: 'PartDefinition where not exists <-satisfaction-' },
+    })))
+  })
+
+  it('lays out typed relationship edges and restores saved positions', async () => {
+    const gateway = createGateway()
+    const view: SavedWorkbenchView = {
+      schemaVersion: 1,
+      id: 'view-pinned',
+      name: 'Pinned structure',
+      query: { mode: 'containment' },
+      notation: 'model-structure',
+      layout: { positions: { controller: { x: 640, y: 320, width: 200, height: 90 } } },
+      updatedAt: '2026-07-25T12:00:00.000Z',
+    }
+    const workspace = { ...loadedWorkspace(), views: [view] }
+    const { container } = render(<WorkbenchShell gateway={gateway} initialWorkspace={workspace} userId="engineer" />)
+    await waitFor(() => expect(gateway.modelQuery).toHaveBeenCalled())
+    expect(container.querySelectorAll('.diagram-edge.containment')).toHaveLength(1)
+
+    fireEvent.click(screen.getByRole('button', { name: /Pinned structure/ }))
+    const node = within(screen.getByLabelText('Semantic diagram')).getByRole('button', { name: /Controller/ })
+    expect(node).toHaveClass('pinned')
+    expect(node).toHaveStyle({ left: '640px', top: '320px' })
+  })
+
+  it('renders the declared notation and saves it with the view', async () => {
+    const gateway = createGateway()
+    render(<WorkbenchShell gateway={gateway} initialWorkspace={loadedWorkspace()} userId="engineer" />)
+    await waitFor(() => expect(gateway.modelQuery).toHaveBeenCalled())
+    const diagram = screen.getByLabelText('Semantic diagram')
+    fireEvent.change(within(diagram).getByLabelText('Notation'), { target: { value: 'traceability' } })
+    expect(within(diagram).getByText('Satisfied by')).toBeInTheDocument()
+    expect(within(diagram).getByText('Verified by')).toBeInTheDocument()
+
+    fireEvent.change(within(diagram).getByLabelText('Notation'), { target: { value: 'interconnection' } })
+    expect(within(diagram).getByRole('button', { name: /Controller/ })).toHaveClass('block')
+    expect(within(diagram).queryByRole('button', { name: /^Package/ })).not.toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Save current view' }))
+    await waitFor(() => expect(gateway.saveView).toHaveBeenCalledWith(
+      'pilot',
+      expect.objectContaining({ notation: 'interconnection' }),
+    ))
+  })
+
+  it('downloads the service export of the unsaved diagram view', async () => {
+    const gateway = createGateway()
+    vi.mocked(gateway.exportView).mockImplementation(async (_workspaceId: string, view: string | SavedWorkbenchView, format: 'svg' | 'pdf') => {
+      const viewId = typeof view === 'string' ? view : view.id
+      return {
+        schemaVersion: 1 as const,
+        viewId,
+        format,
+        mediaType: format === 'svg' ? 'image/svg+xml' as const : 'application/pdf' as const,
+        fileName: `${viewId}.${format}`,
+        encoding: format === 'svg' ? 'utf8' as const : 'base64' as const,
+        content: format === 'svg' ? '<svg xmlns="http://www.w3.org/2000/svg"/>' : 'JVBERi0xLjc=',
+        sha256: 'e'.repeat(64),
+        snapshotSha256: snapshot.snapshotSha256,
+        generatedAt: '2026-07-25T12:00:00.000Z',
+      }
+    })
+    const createObjectURL = vi.fn<(blob: Blob) => string>(() => 'blob:diagram')
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() })
+    const download = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => undefined)
+    try {
+      render(<WorkbenchShell gateway={gateway} initialWorkspace={loadedWorkspace()} userId="engineer" />)
+      await waitFor(() => expect(gateway.modelQuery).toHaveBeenCalled())
+      const diagram = screen.getByLabelText('Semantic diagram')
+      fireEvent.click(within(diagram).getByRole('button', { name: 'Export diagram as PDF' }))
+      await waitFor(() => expect(gateway.exportView).toHaveBeenCalledWith(
+        'pilot',
+        expect.objectContaining({ id: 'view-containment', notation: 'model-structure', layout: { positions: {} } }),
+        'pdf',
+      ))
+      expect(gateway.saveView).not.toHaveBeenCalled()
+      await waitFor(() => expect(download).toHaveBeenCalledTimes(1))
+      const pdf = createObjectURL.mock.calls[0]![0]
+      expect(pdf.type).toBe('application/pdf')
+      expect(pdf.size).toBe(8)
+
+      vi.mocked(gateway.exportView).mockRejectedValueOnce(new Error('Unknown view: view-containment'))
+      fireEvent.click(within(diagram).getByRole('button', { name: 'Export diagram as SVG' }))
+      expect(await within(diagram).findByRole('alert')).toHaveTextContent('Unknown view: view-containment')
+      expect(download).toHaveBeenCalledTimes(1)
+    } finally {
+      download.mockRestore()
+    }
   })
 
   it('runs assurance activities through the local workbench service', async () => {
@@ -210,6 +492,30 @@ describe('service-backed workbench shell', () => {
     fireEvent.keyDown(dialog, { key: 'Escape' })
     expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
   })
+
+  it('goes to a workspace symbol from the command palette', async () => {
+    const gateway = createGateway()
+    vi.mocked(gateway.workspaceSymbols).mockResolvedValue([{
+      name: 'Controller',
+      kind: 'PartDefinition',
+      containerName: 'System',
+      qualifiedName: 'System::Controller',
+      elementId: 'controller',
+      location: { uri, range: { start: { line: 1, character: 2 }, end: { line: 1, character: 21 } } },
+      score: 120,
+    }])
+    render(<WorkbenchShell gateway={gateway} initialWorkspace={loadedWorkspace()} userId="engineer" />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Open command palette' }))
+    const dialog = screen.getByRole('dialog', { name: 'Go to activity' })
+    fireEvent.change(within(dialog).getByRole('textbox', { name: 'Go to symbol in workspace' }), { target: { value: 'ctrl' } })
+    await waitFor(() => expect(gateway.workspaceSymbols).toHaveBeenLastCalledWith('pilot', 'ctrl', 50))
+    fireEvent.click(await within(dialog).findByRole('button', { name: /Controller.*PartDefinition · System/ }))
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+    expect(screen.getByRole('tab', { name: /source/i })).toHaveAttribute('aria-selected', 'true')
+    expect(within(screen.getByLabelText('Model inspector')).getByRole('heading', { name: 'Controller' })).toBeInTheDocument()
+  })
 })
 
 function element(id: string, kind: SemanticSnapshot['elements'][number]['kind'], name: string, qualifiedName: string): SemanticSnapshot['elements'][number] {
@@ -246,25 +552,39 @@ function loadedWorkspace() {
   }
 }
 
+function summary(status: ReturnType<typeof loadedWorkspace>['status'], displayName: string) {
+  const { workspaceId, rootUri, configurationName, indexState, semanticAuthority, documentCount } = status
+  return { workspaceId, displayName, rootUri, configurationName, indexState, semanticAuthority, documentCount }
+}
+
 function createGateway(): WorkbenchGateway & Record<string, ReturnType<typeof vi.fn>> {
   const diagnostics = loadedWorkspace().diagnostics
   const gateway = {
+    openWorkspace: vi.fn(async () => { throw new Error('qualification stub') }),
+    listWorkspaces: vi.fn(async () => [summary(loadedWorkspace().status, 'Pilot workspace')]),
+    workspaceStatus: vi.fn(async () => loadedWorkspace().status),
     readDocument: vi.fn(async () => ({ uri, languageId: 'sysml' as const, sha256: 'doc-1', byteLength: source.length, version: 1, text: source })),
     diagnostics: vi.fn(async () => diagnostics),
     semanticSnapshot: vi.fn(async () => snapshot),
     modelQuery: vi.fn(async () => ({ schemaVersion: 1 as const, snapshotSha256: snapshot.snapshotSha256, resolvedRoots: ['package'], elements: snapshot.elements, relationships: snapshot.relationships, truncated: false, warnings: [] })),
     listViews: vi.fn(async () => []),
     saveView: vi.fn(async (_workspaceId: string, view: Parameters<WorkbenchGateway['saveView']>[1]) => view),
+    exportView: vi.fn(async () => { throw new Error('qualification stub') }),
     completion: vi.fn(async () => []),
     hover: vi.fn(async () => null),
     definition: vi.fn(async () => []),
     references: vi.fn(async () => []),
     formatting: vi.fn(async () => []),
+    workspaceSymbols: vi.fn(async () => []),
+    codeActions: vi.fn(async () => []),
+    readRequirementTable: vi.fn(async () => { throw new Error('qualification stub') }),
+    planRequirementTableImport: vi.fn(async () => { throw new Error('qualification stub') }),
     evaluateAssurance: vi.fn(async () => ({
       schemaVersion: 1 as const,
       rulePack: { id: 'sysml-workbench/engineering-assurance', version: '1.0.0' },
       snapshotSha256: snapshot.snapshotSha256,
       resultSha256: 'assurance-1',
+      coverage: 'indirect' as const,
       findings: [],
       requirementCoverage: [],
       interfaceRegister: [],
@@ -75,6 +75,14 @@ export function AssuranceSurface({
     return () => { active = false }
   }, [gateway, workspaceId])
 
+  useEffect(() => gateway.subscribe?.((notification) => {
+    if (notification.method !== 'review/didChange' || notification.params.workspaceId !== workspaceId) return
+    const { review } = notification.params
+    setReviews((current) => current.some((item) => item.id === review.id)
+      ? current.map((item) => item.id === review.id ? review : item)
+      : [...current, review])
+  }), [gateway, workspaceId])
+
   const execute = async (operation: () => Promise<void>) => {
     setBusy(true)
     setError('')
@@ -102,6 +110,7 @@ export function AssuranceSurface({
           <span>{gitStatus.branch}</span>
           <span className={gitStatus.dirty ? 'warning' : 'ready'}>{gitStatus.dirty ? 'working tree changed' : 'clean baseline'}</span>
           <span>{assurance.findings.length} rule findings</span>
+          {assurance.rulePack.userPacks?.map((pack) => <span key={pack.id}>{pack.id} {pack.version}</span>)}
         </div>
       </header>
       {error && <p role="alert" className="error-banner">{error}</p>}
@@ -116,7 +125,7 @@ export function AssuranceSurface({
           ]} />
           <AssuranceTable
             caption="Interface register"
-            columns={['Interface', 'Kind', 'Owner', 'Endpoints', 'Types', 'Requirements', 'Verification', 'Findings']}
+            columns={['Interface', 'Kind', 'Owner', 'Endpoints', 'Types', 'Direction', 'Units', 'Requirements', 'Verification', 'Findings']}
             rows={assurance.interfaceRegister.map((row) => ({
               id: row.interfaceId,
               values: [
@@ -125,6 +134,8 @@ export function AssuranceSurface({
                 row.ownerQualifiedName ?? 'Unassigned',
                 row.sourceEndpointIds.length + row.targetEndpointIds.length,
                 row.endpointTypeIds.length,
+                row.endpointDirections.map((item) => item.direction).join(' → ') || 'Unavailable',
+                row.units.join(', ') || 'Unavailable',
                 row.requirementIds.length,
                 row.verificationIds.length,
                 row.openFindingIds.length,
@@ -140,8 +151,8 @@ export function AssuranceSurface({
         <>
           <SummaryCards values={[
             ['Requirements', assurance.summary.requirements],
-            ['Satisfied', assurance.requirementCoverage.filter((row) => row.satisfaction === 'direct').length],
-            ['Verified', assurance.requirementCoverage.filter((row) => row.verification === 'direct').length],
+            ['Satisfied', assurance.requirementCoverage.filter((row) => row.satisfaction !== 'none').length],
+            ['Verified', assurance.requirementCoverage.filter((row) => row.verification !== 'none').length],
             ['Not ready', assurance.requirementCoverage.filter((row) => row.satisfaction === 'none' || row.verification === 'none').length],
           ]} />
           <AssuranceTable
@@ -155,11 +166,12 @@ export function AssuranceSurface({
                 row.satisfyingElementIds.length,
                 row.verification,
                 row.verificationElementIds.length,
-                row.satisfaction === 'direct' && row.verification === 'direct' ? 'yes' : 'no',
+                row.satisfaction !== 'none' && row.verification !== 'none' ? 'yes' : 'no',
               ],
             }))}
             onSelectId={onSelectId}
           />
+          <FindingTable findings={assurance.findings.filter((item) => item.domain !== 'interface')} onSelectId={onSelectId} />
         </>
       )}
 
@@ -188,10 +200,10 @@ export function AssuranceSurface({
           {comparison && (
             <AssuranceTable
               caption={`Semantic changes from ${comparison.baseline.id}`}
-              columns={['Kind', 'Element', 'Relationship']}
+              columns={['Kind', 'Element', 'Relationship', 'Relationship kind']}
               rows={comparison.semanticDiff.changes.map((change) => ({
                 id: change.elementId,
-                values: [change.kind, change.elementId ?? '', change.relationshipId ?? ''],
+                values: [change.kind, change.elementId ?? '', change.relationshipId ?? '', change.relationshipKind ?? ''],
               }))}
               onSelectId={onSelectId}
             />
@@ -0,0 +1,242 @@
+import { useState } from 'react'
+import { FileSpreadsheet, X } from 'lucide-react'
+import type { CommandEnvelope } from '../../packages/command-engine/src/index.js'
+import type {
+  ModelImportPlan,
+  RequirementTable,
+  RequirementTableMapping,
+} from '../../packages/model-exchange/src/index.js'
+import type { SemanticSnapshot } from '../../packages/semantic-model/src/index.js'
+import { CommandReviewPanel } from '../components/CommandReviewPanel.js'
+import type { WorkbenchGateway } from './gateway.js'
+
+type MappingField = keyof RequirementTableMapping
+
+const MAPPING_FIELDS: Array<{ field: MappingField; label: string; guess: RegExp }> = [
+  { field: 'name', label: 'Name', guess: /^(name|title|short name)$/iu },
+  { field: 'id', label: 'Id', guess: /^(id|key|identifier|req(uirement)? ?id)$/iu },
+  { field: 'text', label: 'Text', guess: /^(text|description|statement|requirement)$/iu },
+  { field: 'parent', label: 'Parent', guess: /parent/iu },
+  { field: 'satisfiedBy', label: 'Satisfied by', guess: /satisf/iu },
+]
+const OWNER_KINDS = new Set(['Package', 'RequirementDefinition', 'RequirementUsage'])
+const PREVIEW_ROWS = 5
+
+export interface RequirementImportWizardProps {
+  gateway: WorkbenchGateway
+  snapshot: SemanticSnapshot
+  userId: string
+  selectedId?: string
+  onApplied(): Promise<void>
+  onClose(): void
+}
+
+// Reads a CSV or XLSX sheet, maps its columns to requirement fields, and
+// reviews the planned commands as one batch, applied in one transaction.
+export function RequirementImportWizard({
+  gateway,
+  snapshot,
+  userId,
+  selectedId,
+  onApplied,
+  onClose,
+}: RequirementImportWizardProps) {
+  const owners = snapshot.elements.filter((element) => OWNER_KINDS.has(element.kind))
+  const [fileName, setFileName] = useState('')
+  const [table, setTable] = useState<RequirementTable | null>(null)
+  const [mapping, setMapping] = useState<Partial<RequirementTableMapping>>({})
+  const [ownerId, setOwnerId] = useState(
+    owners.find((element) => element.id === selectedId)?.id ?? owners[0]?.id ?? '',
+  )
+  const [plan, setPlan] = useState<ModelImportPlan | null>(null)
+  const [envelope, setEnvelope] = useState<CommandEnvelope | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  const reset = () => {
+    setPlan(null)
+    setEnvelope(null)
+  }
+
+  const readFile = async (file: File) => {
+    setBusy(true)
+    setError('')
+    reset()
+    try {
+      const read = await gateway.readRequirementTable(
+        file.name,
+        base64(new Uint8Array(await file.arrayBuffer())),
+      )
+      setFileName(file.name)
+      setTable(read)
+      setMapping(Object.fromEntries(MAPPING_FIELDS.flatMap(({ field, guess }) => {
+        const column = read.columns.find((candidate) => guess.test(candidate.trim()))
+        return column ? [[field, column]] : []
+      })))
+    } catch (cause) {
+      setTable(null)
+      setError(message(cause))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const preview = async () => {
+    if (!table || !mapping.name) return
+    setBusy(true)
+    setError('')
+    reset()
+    try {
+      const next = await gateway.planRequirementTableImport(
+        snapshot.workspace.id,
+        table,
+        { ...mapping, name: mapping.name },
+        ownerId,
+      )
+      setPlan(next)
+      if (next.batch) {
+        setEnvelope({
+          schemaVersion: 1,
+          commandId: `requirement-import:${crypto.randomUUID()}`,
+          workspaceId: snapshot.workspace.id,
+          baseSnapshotSha256: snapshot.snapshotSha256,
+          baseDocuments: Object.fromEntries(
+            snapshot.documents.map((document) => [document.uri, document.sha256]),
+          ),
+          requestedBy: { kind: 'user', id: userId },
+          command: next.batch,
+        })
+      }
+    } catch (cause) {
+      setError(message(cause))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="assurance-surface requirement-import" aria-label="Requirement import">
+      <header className="assurance-header">
+        <div>
+          <p className="eyebrow">TRACEABILITY</p>
+          <h2><FileSpreadsheet size={20} /> Import requirements from a table</h2>
+        </div>
+        <button type="button" aria-label="Close requirement import" onClick={onClose}>
+          <X size={16} />
+        </button>
+      </header>
+
+      <section className="assurance-controls">
+        <label>
+          Table file
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt,.xlsx"
+            disabled={busy}
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              if (file) void readFile(file)
+            }}
+          />
+        </label>
+        <label>
+          Owner
+          <select value={ownerId} onChange={(event) => { setOwnerId(event.target.value); reset() }}>
+            {owners.map((element) => (
+              <option key={element.id} value={element.id}>{element.qualifiedName}</option>
+            ))}
+          </select>
+        </label>
+      </section>
+
+      {table && (
+        <>
+          <section className="assurance-controls" aria-label="Column mapping">
+            {MAPPING_FIELDS.map(({ field, label }) => (
+              <label key={field}>
+                {label}
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(event) => {
+                    const column = event.target.value
+                    setMapping((current) => {
+                      const next = { ...current }
+                      if (column) next[field] = column
+                      else delete next[field]
+                      return next
+                    })
+                    reset()
+                  }}
+                >
+                  <option value="">{field === 'name' ? 'Choose a column' : 'Not imported'}</option>
+                  {table.columns.map((column) => <option key={column} value={column}>{column}</option>)}
+                </select>
+              </label>
+            ))}
+            <button type="button" disabled={busy || !mapping.name || !ownerId} onClick={() => void preview()}>
+              Preview commands
+            </button>
+          </section>
+
+          <section className="assurance-table">
+            <h3>{fileName} <span>{table.rows.length} rows</span></h3>
+            <div>
+              <table>
+                <thead><tr>{table.columns.map((column) => <th key={column}>{column}</th>)}</tr></thead>
+                <tbody>
+                  {table.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <tr key={index}>{row.map((cell, column) => <td key={column}>{cell}</td>)}</tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </>
+      )}
+
+      {error && <p role="alert" className="error-banner">{error}</p>}
+
+      {plan && (
+        <section className="assurance-table" aria-label="Planned commands">
+          <h3>Planned commands <span>{plan.proposals.length} commands · {plan.matched.length} matched · {plan.skipped.length} skipped</span></h3>
+          <div>
+            <table>
+              <thead><tr><th>Row</th><th>Command</th><th>Change</th></tr></thead>
+              <tbody>
+                {plan.proposals.map((proposal, index) => (
+                  <tr key={index}><td>{proposal.sourceId}</td><td>{proposal.command.kind}</td><td>{proposal.title}</td></tr>
+                ))}
+                {plan.skipped.map((skip, index) => (
+                  <tr key={`skip:${index}`}><td>{skip.sourceId}</td><td>skipped</td><td>{skip.reason}</td></tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {plan.proposals.length === 0 && <p className="empty-register">The workspace already matches the table.</p>}
+        </section>
+      )}
+
+      {envelope && (
+        <CommandReviewPanel
+          key={envelope.commandId}
+          gateway={gateway}
+          envelope={envelope}
+          approvalUserId={userId}
+          onApplied={() => void onApplied()}
+        />
+      )}
+    </div>
+  )
+}
+
+function base64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function message(cause: unknown): string {
+  return cause instanceof Error ? cause.message : 'Requirement import failed'
+}
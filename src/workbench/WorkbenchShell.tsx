@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState, type ComponentType, type KeyboardEvent as ReactKeyboardEvent } from 'react'
+import { useEffect, useMemo, useRef, useState, type ComponentType, type KeyboardEvent as ReactKeyboardEvent } from 'react'
 import Editor, { type Monaco } from '@monaco-editor/react'
 import type { editor as MonacoEditor, Position as MonacoPosition } from 'monaco-editor'
 import {
@@ -9,6 +9,7 @@ import {
   ChevronRight,
   ClipboardCheck,
   FileCode2,
+  FileSpreadsheet,
   GitCompareArrows,
   LayoutDashboard,
   ListChecks,
@@ -22,18 +23,29 @@ import {
 } from 'lucide-react'
 import type { LanguageDiagnostic } from '../../packages/language-adapter/src/index.js'
 import type { ModelQueryMode, ModelQueryResult } from '../../packages/query-engine/src/index.js'
-import type { SemanticElement, SemanticSnapshot } from '../../packages/semantic-model/src/index.js'
-import type { CommandEnvelope } from '../../packages/command-engine/src/index.js'
-import type { SavedWorkbenchView, WorkspaceDocumentContent } from '../../packages/workbench-protocol/src/index.js'
+import type { SemanticElement, SemanticFeature, SemanticSnapshot } from '../../packages/semantic-model/src/index.js'
+import type { CodeAction, CommandEnvelope } from '../../packages/command-engine/src/index.js'
+import type { SavedWorkbenchView, WorkbenchWorkspaceSymbol, WorkspaceDocumentContent, WorkspaceSummary } from '../../packages/workbench-protocol/src/index.js'
+import {
+  layoutDiagram,
+  layoutPositions,
+  moveDiagramNode,
+  type DiagramLayout,
+  type DiagramLayoutPositions,
+  type DiagramNotation,
+} from '../../packages/projection-engine/src/diagram-layout.js'
 import { CommandReviewPanel } from '../components/CommandReviewPanel.js'
 import { NativeCommandEditor } from '../components/NativeCommandEditor.js'
+import { QuickFixPanel } from '../components/QuickFixPanel.js'
 import type { LoadedWorkspace, WorkbenchGateway } from './gateway.js'
 import { AssuranceSurface, type AssuranceActivity } from './AssuranceSurface.js'
 import { ControlledAiSurface } from './ControlledAiSurface.js'
+import { RequirementImportWizard } from './RequirementImportWizard.js'
 
 type ActivityId = 'explorer' | 'model' | 'diagrams' | 'traceability' | 'interfaces' | 'verification' | 'reviews' | 'changes' | 'reports' | 'assistant' | 'settings'
 type SurfaceId = 'source' | 'diagram' | 'matrix'
 type BottomPanelId = 'problems' | 'output' | 'query' | 'changes'
+type DiagramExportChoice = 'svg' | 'png' | 'pdf'
 
 const ACTIVITIES: Array<{ id: ActivityId; label: string; icon: ComponentType<{ size?: number }> }> = [
   { id: 'explorer', label: 'Explorer', icon: Boxes },
@@ -49,6 +61,17 @@ const ACTIVITIES: Array<{ id: ActivityId; label: string; icon: ComponentType<{ s
   { id: 'settings', label: 'Settings', icon: Settings },
 ]
 
+const DIAGRAM_NOTATIONS: Array<{ id: Exclude<DiagramNotation, 'table'>; label: string }> = [
+  { id: 'model-structure', label: 'Model structure' },
+  { id: 'interconnection', label: 'Interconnection' },
+  { id: 'traceability', label: 'Traceability' },
+  { id: 'action-flow', label: 'Action flow' },
+  { id: 'state-transition', label: 'State transition' },
+  { id: 'verification-context', label: 'Verification context' },
+]
+
+const DIAGRAM_EXPORTS: DiagramExportChoice[] = ['svg', 'png', 'pdf']
+
 const EXPLORER_MODES: Array<{ id: ModelQueryMode; label: string }> = [
   { id: 'containment', label: 'Containment' },
   { id: 'type-hierarchy', label: 'Types' },
@@ -57,6 +80,8 @@ const EXPLORER_MODES: Array<{ id: ModelQueryMode; label: string }> = [
   { id: 'requirements', label: 'Requirements' },
   { id: 'verification', label: 'Verification' },
   { id: 'interfaces', label: 'Interfaces' },
+  { id: 'inheritance', label: 'Inheritance' },
+  { id: 'allocation', label: 'Allocation' },
 ]
 
 export interface WorkbenchShellProps {
@@ -74,22 +99,40 @@ export function WorkbenchShell({ gateway, initialWorkspace, userId }: WorkbenchS
   const [mode, setMode] = useState<ModelQueryMode>('containment')
   const [queryResult, setQueryResult] = useState<ModelQueryResult | null>(null)
   const [queryError, setQueryError] = useState('')
+  const [expression, setExpression] = useState('')
+  const [expressionDraft, setExpressionDraft] = useState('')
   const [selectedId, setSelectedId] = useState(initialWorkspace.snapshot.elements[0]?.id ?? '')
   const [selectedUri, setSelectedUri] = useState(initialWorkspace.status.documents[0]?.uri ?? '')
   const [document, setDocument] = useState<WorkspaceDocumentContent | null>(null)
   const [search, setSearch] = useState('')
   const [paletteOpen, setPaletteOpen] = useState(false)
+  const [symbolQuery, setSymbolQuery] = useState('')
+  const [symbolResults, setSymbolResults] = useState<WorkbenchWorkspaceSymbol[]>([])
+  const [symbolError, setSymbolError] = useState('')
   const [savingView, setSavingView] = useState(false)
+  const [notation, setNotation] = useState<DiagramNotation>('model-structure')
+  const [positions, setPositions] = useState<DiagramLayoutPositions>({})
+  const [openWorkspaces, setOpenWorkspaces] = useState<WorkspaceSummary[]>([])
+  const [codeActions, setCodeActions] = useState<CodeAction[]>([])
+  const [workspaceFileDraft, setWorkspaceFileDraft] = useState('')
+  const [workspaceError, setWorkspaceError] = useState('')
+  const [requirementImportOpen, setRequirementImportOpen] = useState(false)
   const paletteDialog = useRef<HTMLElement>(null)
   const paletteReturnFocus = useRef<HTMLElement | null>(null)
 
   const workspaceId = workspace.status.workspaceId
   const selected = workspace.snapshot.elements.find((element) => element.id === selectedId)
+  const importingRequirements = activity === 'traceability' && requirementImportOpen
+  const showModelSurface = activity !== 'assistant' && !isAssuranceActivity(activity) && !importingRequirements
   const visibleElements = queryResult?.elements ?? workspace.snapshot.elements
   const filteredElements = visibleElements.filter((element) =>
     `${element.name} ${element.qualifiedName} ${element.kind}`.toLocaleLowerCase()
       .includes(search.toLocaleLowerCase()),
   )
+  const diagramLayout = useMemo(
+    () => layoutDiagram(queryResult ?? workspace.snapshot, { notation, positions }),
+    [notation, positions, queryResult, workspace.snapshot],
+  )
 
   useEffect(() => {
     let active = true
@@ -98,6 +141,7 @@ export function WorkbenchShell({ gateway, initialWorkspace, userId }: WorkbenchS
       mode,
       depth: 5,
       maxResults: 2_000,
+      ...(expression ? { expression } : {}),
     }).then((result) => {
       if (!active) return
       setQueryResult(result)
@@ -107,7 +151,60 @@ export function WorkbenchShell({ gateway, initialWorkspace, userId }: WorkbenchS
       setQueryError(cause instanceof Error ? cause.message : 'Model query failed')
     })
     return () => { active = false }
-  }, [gateway, mode, workspaceId, workspace.snapshot.snapshotSha256])
+  }, [expression, gateway, mode, workspaceId, workspace.snapshot.snapshotSha256])
+
+  useEffect(() => {
+    let active = true
+    void gateway.listWorkspaces().then((workspaces) => {
+      if (active) setOpenWorkspaces(workspaces)
+    }).catch(() => {
+      // The switcher falls back to the workspace already loaded.
+    })
+    return () => { active = false }
+  }, [gateway, workspaceId])
+
+  useEffect(() => {
+    let active = true
+    void gateway.codeActions(workspaceId).then((actions) => {
+      if (active) setCodeActions(actions)
+    }).catch(() => {
+      // Quick fixes need a qualified snapshot; without one none are offered.
+      if (active) setCodeActions([])
+    })
+    return () => { active = false }
+  }, [gateway, workspaceId, workspace.snapshot.snapshotSha256, workspace.diagnostics])
+
+  useEffect(() => {
+    if (!gateway.subscribe) return
+    let active = true
+    const unsubscribe = gateway.subscribe((notification) => {
+      if (notification.params.workspaceId !== workspaceId) {
+        if (notification.method === 'workspace/didChangeStatus') {
+          void gateway.listWorkspaces().then((workspaces) => {
+            if (active) setOpenWorkspaces(workspaces)
+          }).catch(() => undefined)
+        }
+        return
+      }
+      if (notification.method === 'workspace/didChangeStatus') {
+        const status = notification.params
+        setWorkspace((current) => ({ ...current, status }))
+      } else if (notification.method === 'language/publishDiagnostics') {
+        const { diagnostics } = notification.params
+        setWorkspace((current) => ({ ...current, diagnostics }))
+      } else if (notification.method === 'semantic/didChangeSnapshot') {
+        void gateway.semanticSnapshot(workspaceId).then((snapshot) => {
+          if (active) setWorkspace((current) => ({ ...current, snapshot }))
+        }).catch(() => {
+          // The status notification already reports why no snapshot is available.
+        })
+      }
+    })
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [gateway, workspaceId])
 
   useEffect(() => {
     if (!selectedUri) return
@@ -137,6 +234,26 @@ export function WorkbenchShell({ gateway, initialWorkspace, userId }: WorkbenchS
     return () => window.removeEventListener('keydown', handleKey)
   }, [paletteOpen])
 
+  useEffect(() => {
+    const query = symbolQuery.trim()
+    if (!paletteOpen || !query) {
+      setSymbolResults([])
+      setSymbolError('')
+      return
+    }
+    let active = true
+    void gateway.workspaceSymbols(workspaceId, query, 50).then((symbols) => {
+      if (!active) return
+      setSymbolResults(symbols)
+      setSymbolError('')
+    }).catch((cause: unknown) => {
+      if (!active) return
+      setSymbolResults([])
+      setSymbolError(cause instanceof Error ? cause.message : 'Symbol search failed')
+    })
+    return () => { active = false }
+  }, [gateway, paletteOpen, symbolQuery, workspaceId, workspace.snapshot.snapshotSha256])
+
   useEffect(() => {
     if (paletteOpen) {
       paletteDialog.current?.querySelector<HTMLButtonElement>('button')?.focus()
@@ -146,11 +263,57 @@ export function WorkbenchShell({ gateway, initialWorkspace, userId }: WorkbenchS
     }
   }, [paletteOpen])
 
+  const showWorkspace = async (nextWorkspaceId: string) => {
+    setWorkspaceError('')
+    try {
+      const [status, snapshot, diagnostics, views] = await Promise.all([
+        gateway.workspaceStatus(nextWorkspaceId),
+        gateway.semanticSnapshot(nextWorkspaceId),
+        gateway.diagnostics(nextWorkspaceId),
+        gateway.listViews(nextWorkspaceId),
+      ])
+      setWorkspace({ status, snapshot, diagnostics, views })
+      setSelectedId(snapshot.elements[0]?.id ?? '')
+      setSelectedUri(status.documents[0]?.uri ?? '')
+      setDocument(null)
+      setQueryResult(null)
+      setExpression('')
+      setExpressionDraft('')
+      setPositions({})
+    } catch (cause) {
+      setWorkspaceError(cause instanceof Error ? cause.message : 'Workspace could not be loaded')
+    }
+  }
+
+  const openAnotherWorkspace = async () => {
+    const workspaceFile = workspaceFileDraft.trim()
+    if (!workspaceFile) return
+    setWorkspaceError('')
+    try {
+      const status = await gateway.openWorkspace(workspaceFile)
+      setWorkspaceFileDraft('')
+      await showWorkspace(status.workspaceId)
+    } catch (cause) {
+      setWorkspaceError(cause instanceof Error ? cause.message : 'Workspace could not be opened')
+    }
+  }
+
   const selectElement = (element: SemanticElement) => {
     setSelectedId(element.id)
     setSelectedUri(element.source.uri)
   }
 
+  const goToSymbol = (symbol: WorkbenchWorkspaceSymbol) => {
+    const element = workspace.snapshot.elements.find((item) => symbol.elementId
+      ? item.id === symbol.elementId
+      : item.source.uri === symbol.location.uri && item.source.range.start.line === symbol.location.range.start.line)
+    if (element) setSelectedId(element.id)
+    setSelectedUri(symbol.location.uri)
+    setSurface('source')
+    setSymbolQuery('')
+    setPaletteOpen(false)
+  }
+
   const refreshWorkspace = async () => {
     const [snapshot, diagnostics, views] = await Promise.all([
       gateway.semanticSnapshot(workspaceId),
@@ -170,33 +333,58 @@ export function WorkbenchShell({ gateway, initialWorkspace, userId }: WorkbenchS
     }))
   }
 
+  const currentView = (viewPositions: DiagramLayoutPositions): SavedWorkbenchView => ({
+    schemaVersion: 1,
+    id: `view-${mode}`,
+    name: `${EXPLORER_MODES.find((item) => item.id === mode)?.label ?? mode} review`,
+    query: { mode, depth: 5, maxResults: 2_000, ...(expression ? { expression } : {}) },
+    notation: surface === 'matrix' ? 'table' : surface === 'diagram' ? notation : 'model-structure',
+    layout: { positions: viewPositions },
+    updatedAt: new Date().toISOString(),
+  })
+
   const saveCurrentView = async () => {
     setSavingView(true)
     try {
-      const view = await gateway.saveView(workspaceId, {
-        schemaVersion: 1,
-        id: `view-${mode}`,
-        name: `${EXPLORER_MODES.find((item) => item.id === mode)?.label ?? mode} review`,
-        query: { mode, depth: 5, maxResults: 2_000 },
-        notation: surface === 'matrix' ? 'table' : surface === 'diagram' ? notationForMode(mode) : 'model-structure',
-        layout: { positions: defaultPositions(filteredElements) },
-        updatedAt: new Date().toISOString(),
-      })
+      const view = await gateway.saveView(workspaceId, currentView(layoutPositions(diagramLayout)))
       setWorkspace((current) => ({
         ...current,
         views: [...current.views.filter((item) => item.id !== view.id), view],
       }))
+      return view
     } finally {
       setSavingView(false)
     }
   }
 
+  // Exports go through the service so the file carries its provenance; the
+  // view on screen is rendered there without being saved, and only the nodes
+  // the user moved keep their place. PNG is rasterized here from the SVG.
+  const exportDiagram = async (format: DiagramExportChoice) => {
+    const view = currentView(positions)
+    const exported = await gateway.exportView(workspaceId, view, format === 'pdf' ? 'pdf' : 'svg')
+    if (format === 'png') {
+      downloadBlob(await rasterizeSvg(exported.content), `${view.id}.png`)
+      return
+    }
+    const content = exported.encoding === 'base64'
+      ? Uint8Array.from(atob(exported.content), (character) => character.charCodeAt(0))
+      : exported.content
+    downloadBlob(new Blob([content], { type: exported.mediaType }), exported.fileName)
+  }
+
+  const changeMode = (next: ModelQueryMode) => {
+    setMode(next)
+    setNotation(notationForMode(next))
+    setPositions({})
+  }
+
   const selectActivity = (next: ActivityId) => {
     setActivity(next)
-    if (next === 'interfaces') setMode('interfaces')
-    if (next === 'traceability') setMode('requirements')
-    if (next === 'verification') setMode('verification')
-    if (next === 'model') setMode('containment')
+    if (next === 'interfaces') changeMode('interfaces')
+    if (next === 'traceability') changeMode('requirements')
+    if (next === 'verification') changeMode('verification')
+    if (next === 'model') changeMode('containment')
   }
 
   const openPalette = () => {
@@ -229,7 +417,29 @@ export function WorkbenchShell({ gateway, initialWorkspace, userId }: WorkbenchS
         <div>
           <span className="product-mark">SW</span>
           <strong>SysML Engineering Workbench</strong>
-          <span className="workspace-name">{workspace.status.configurationName}</span>
+          <select
+            className="workspace-name"
+            aria-label="Switch workspace"
+            value={workspaceId}
+            onChange={(event) => void showWorkspace(event.target.value)}
+          >
+            {(openWorkspaces.some((item) => item.workspaceId === workspaceId)
+              ? openWorkspaces
+              : [{ workspaceId, displayName: workspace.status.configurationName }]
+            ).map((item) => (
+              <option key={item.workspaceId} value={item.workspaceId}>{item.displayName}</option>
+            ))}
+          </select>
+          <form className="workspace-open" onSubmit={(event) => { event.preventDefault(); void openAnotherWorkspace() }}>
+            <input
+              aria-label="Open another workspace file"
+              value={workspaceFileDraft}
+              onChange={(event) => setWorkspaceFileDraft(event.target.value)}
+              placeholder="Open workspace file…"
+              spellCheck={false}
+            />
+          </form>
+          {workspaceError && <span role="alert" className="workspace-error">{workspaceError}</span>}
         </div>
         <div className="titlebar-status">
           <span className={`status-dot ${workspace.status.indexState}`} />
@@ -274,10 +484,20 @@ export function WorkbenchShell({ gateway, initialWorkspace, userId }: WorkbenchS
           </div>
           <label className="mode-selector">
             Explorer mode
-            <select value={mode} onChange={(event) => setMode(event.target.value as ModelQueryMode)}>
+            <select value={mode} onChange={(event) => changeMode(event.target.value as ModelQueryMode)}>
               {EXPLORER_MODES.map((item) => <option key={item.id} value={item.id}>{item.label}</option>)}
             </select>
           </label>
+          <form className="mode-selector" onSubmit={(event) => { event.preventDefault(); setExpression(expressionDraft.trim()) }}>
+            <label htmlFor="model-query-expression">Query expression</label>
+            <input
+              id="model-query-expression"
+              value={expressionDraft}
+              onChange={(event) => setExpressionDraft(event.target.value)}
+              placeholder='RequirementUsage where not exists <-satisfaction-'
+              spellCheck={false}
+            />
+          </form>
           {queryError && <p role="alert" className="error-banner">{queryError}</p>}
           <div role="tree" aria-label={`${mode} model explorer`} className="element-tree">
             {filteredElements.map((element) => (
@@ -299,7 +519,7 @@ export function WorkbenchShell({ gateway, initialWorkspace, userId }: WorkbenchS
           <section className="saved-views" aria-label="Saved views">
             <h3>Saved views <span>{workspace.views.length}</span></h3>
             {workspace.views.map((view) => (
-              <button type="button" key={view.id} onClick={() => applySavedView(view, setMode, setSurface)}>
+              <button type="button" key={view.id} onClick={() => applySavedView(view, { setMode, setExpression: (value) => { setExpression(value); setExpressionDraft(value) }, setNotation, setSurface, setPositions })}>
                 {view.name}
               </button>
             ))}
@@ -314,6 +534,12 @@ export function WorkbenchShell({ gateway, initialWorkspace, userId }: WorkbenchS
                 {item}
               </button>
             ))}
+            {activity === 'traceability' && (
+              <button type="button" aria-pressed={requirementImportOpen} onClick={() => setRequirementImportOpen((open) => !open)}>
+                <FileSpreadsheet size={15} />
+                import table
+              </button>
+            )}
             <span className="surface-context">{EXPLORER_MODES.find((item) => item.id === mode)?.label}</span>
           </div>
           <div className="surface-content">
@@ -343,14 +569,36 @@ export function WorkbenchShell({ gateway, initialWorkspace, userId }: WorkbenchS
                 }}
               />
             )}
-            {activity !== 'assistant' && !isAssuranceActivity(activity) && surface === 'source' && document && (
+            {importingRequirements && (
+              <RequirementImportWizard
+                gateway={gateway}
+                snapshot={workspace.snapshot}
+                userId={userId}
+                selectedId={selectedId}
+                onApplied={refreshWorkspace}
+                onClose={() => setRequirementImportOpen(false)}
+              />
+            )}
+            {showModelSurface && surface === 'source' && document && (
               <SourceSurface gateway={gateway} workspace={workspace} document={document} userId={userId} onApplied={refreshWorkspace} />
             )}
-            {activity !== 'assistant' && !isAssuranceActivity(activity) && surface === 'source' && !document && <EmptySurface title="No source document" detail="Select a source-backed model element." />}
-            {activity !== 'assistant' && !isAssuranceActivity(activity) && surface === 'diagram' && (
-              <DiagramSurface snapshot={workspace.snapshot} result={queryResult} selectedId={selectedId} onSelect={selectElement} />
+            {showModelSurface && surface === 'source' && !document && <EmptySurface title="No source document" detail="Select a source-backed model element." />}
+            {showModelSurface && surface === 'diagram' && (
+              <DiagramSurface
+                snapshot={workspace.snapshot}
+                layout={diagramLayout}
+                selectedId={selectedId}
+                onSelect={selectElement}
+                onNotationChange={(next) => {
+                  setNotation(next)
+                  setPositions({})
+                }}
+                onMove={(identity, position) => setPositions((current) => moveDiagramNode(diagramLayout, current, identity, position))}
+                onAutoLayout={() => setPositions({})}
+                onExport={exportDiagram}
+              />
             )}
-            {activity !== 'assistant' && !isAssuranceActivity(activity) && surface === 'matrix' && (
+            {showModelSurface && surface === 'matrix' && (
               <MatrixSurface snapshot={workspace.snapshot} result={queryResult} onSelect={selectElement} />
             )}
           </div>
@@ -376,6 +624,10 @@ export function WorkbenchShell({ gateway, initialWorkspace, userId }: WorkbenchS
                 <dt>Qualified name</dt><dd>{selected.qualifiedName}</dd>
                 <dt>Kind</dt><dd><span className="kind-pill">{selected.kind}</span></dd>
                 <dt>Owner</dt><dd>{ownerName(selected, workspace.snapshot)}</dd>
+                {selected.feature?.direction && <><dt>Direction</dt><dd>{selected.feature.direction}</dd></>}
+                {selected.feature?.multiplicity && <><dt>Multiplicity</dt><dd>{formatMultiplicity(selected.feature.multiplicity)}</dd></>}
+                {selected.feature?.value && <><dt>Value</dt><dd title={selected.feature.value.truncated ? `${selected.feature.value.kind}, truncated` : selected.feature.value.kind}>{selected.feature.value.text}{selected.feature.value.truncated ? '…' : ''}</dd></>}
+                {selected.feature?.unit && <><dt>Unit</dt><dd>{selected.feature.unit}</dd></>}
                 <dt>Source</dt><dd><button type="button" onClick={() => { setSelectedUri(selected.source.uri); setSurface('source') }}>{selected.source.workspacePath}:{selected.source.range.start.line + 1}</button></dd>
                 <dt>Diagnostics</dt><dd>{workspace.diagnostics.filter((item) => item.uri === selected.source.uri).length}</dd>
                 <dt>Relationships</dt><dd>{relationshipsFor(selected.id, workspace.snapshot).length}</dd>
@@ -393,6 +645,16 @@ export function WorkbenchShell({ gateway, initialWorkspace, userId }: WorkbenchS
                   </button>
                 ))}
               </section>
+              {codeActions.some((action) => action.elementIds.includes(selected.id)) && (
+                <QuickFixPanel
+                  key={`${selected.id}:${workspace.snapshot.snapshotSha256}`}
+                  gateway={gateway}
+                  snapshot={workspace.snapshot}
+                  actions={codeActions.filter((action) => action.elementIds.includes(selected.id))}
+                  userId={userId}
+                  onApplied={() => void refreshWorkspace()}
+                />
+              )}
               <NativeCommandEditor gateway={gateway} snapshot={workspace.snapshot} userId={userId} onApplied={() => void refreshWorkspace()} />
             </>
           ) : <EmptySurface title="Nothing selected" detail="Choose an element in a semantic projection." />}
@@ -406,6 +668,25 @@ export function WorkbenchShell({ gateway, initialWorkspace, userId }: WorkbenchS
             {ACTIVITIES.map((item) => (
               <button type="button" key={item.id} onClick={() => { selectActivity(item.id); setPaletteOpen(false) }}>{item.label}</button>
             ))}
+            <h2 id="command-palette-symbols">Go to symbol in workspace</h2>
+            <input
+              aria-labelledby="command-palette-symbols"
+              value={symbolQuery}
+              onChange={(event) => setSymbolQuery(event.target.value)}
+              placeholder="Name or qualified name…"
+              spellCheck={false}
+            />
+            {symbolError && <p role="alert" className="command-palette-error">{symbolError}</p>}
+            {symbolResults.map((symbol) => (
+              <button
+                type="button"
+                key={`${symbol.location.uri}:${symbol.location.range.start.line}:${symbol.location.range.start.character}:${symbol.qualifiedName ?? symbol.name}`}
+                onClick={() => goToSymbol(symbol)}
+              >
+                {symbol.name}
+                <small>{symbol.kind} · {symbol.containerName ?? symbol.location.uri.split('/').at(-1)}</small>
+              </button>
+            ))}
           </section>
         </div>
       )}
@@ -473,31 +754,122 @@ function SourceSurface({ gateway, workspace, document, userId, onApplied }: {
   )
 }
 
-function DiagramSurface({ snapshot, result, selectedId, onSelect }: {
+function DiagramSurface({ snapshot, layout, selectedId, onSelect, onNotationChange, onMove, onAutoLayout, onExport }: {
   snapshot: SemanticSnapshot
-  result: ModelQueryResult | null
+  layout: DiagramLayout
   selectedId: string
   onSelect(element: SemanticElement): void
+  onNotationChange(notation: DiagramNotation): void
+  onMove(identity: string, position: { x: number; y: number }): void
+  onAutoLayout(): void
+  onExport(format: DiagramExportChoice): Promise<void>
 }) {
-  const elements = (result?.elements ?? snapshot.elements).slice(0, 120)
-  const relationships = result?.relationships ?? snapshot.relationships
+  const [exporting, setExporting] = useState(false)
+  const [exportError, setExportError] = useState('')
+  const exportAs = async (format: DiagramExportChoice) => {
+    setExporting(true)
+    setExportError('')
+    try {
+      await onExport(format)
+    } catch (cause) {
+      setExportError(cause instanceof Error ? cause.message : 'Diagram export failed')
+    } finally {
+      setExporting(false)
+    }
+  }
+  const [drag, setDrag] = useState<{ id: string; pointerX: number; pointerY: number; x: number; y: number; moved: boolean } | null>(null)
+  const byId = new Map(snapshot.elements.map((element) => [element.id, element]))
+  const nodes = layout.nodes.map((node) => drag?.id === node.id ? { ...node, x: drag.x, y: drag.y } : node)
+  const containers = new Set(layout.nodes.flatMap((node) => node.parentId && node.shape !== 'port' ? [node.parentId] : []))
+  const finishDrag = () => {
+    if (!drag) return
+    const node = layout.nodes.find((item) => item.id === drag.id)
+    if (drag.moved && node) onMove(node.id, { x: drag.x, y: drag.y })
+    setDrag(null)
+  }
   return (
     <div className="semantic-diagram" aria-label="Semantic diagram">
-      <div className="diagram-grid" />
-      {elements.map((element, index) => (
-        <button
-          type="button"
-          key={element.id}
-          className={`diagram-node ${selectedId === element.id ? 'selected' : ''}`}
-          style={{ left: `${28 + (index % 4) * 220}px`, top: `${28 + Math.floor(index / 4) * 112}px` }}
-          onClick={() => onSelect(element)}
-        >
-          <span>{element.kind}</span>
-          <strong>{element.name}</strong>
-          <small>{relationships.filter((item) => item.sourceId === element.id || item.targetId === element.id).length} relationships</small>
-        </button>
-      ))}
-      {elements.length === 0 && <EmptySurface title="Empty projection" detail="Adjust the roots or filters for this view." />}
+      <div className="diagram-toolbar">
+        <label>Notation
+          <select value={layout.notation} onChange={(event) => onNotationChange(event.target.value as DiagramNotation)}>
+            {DIAGRAM_NOTATIONS.map((item) => <option key={item.id} value={item.id}>{item.label}</option>)}
+          </select>
+        </label>
+        <span>{layout.nodes.length} elements · {layout.edges.length} relationships{layout.omittedElementIds.length ? ` · ${layout.omittedElementIds.length} not drawn` : ''}</span>
+        <button type="button" onClick={onAutoLayout}>Auto layout</button>
+        <div className="diagram-export" role="group" aria-label="Export diagram">
+          {DIAGRAM_EXPORTS.map((format) => (
+            <button key={format} type="button" aria-label={`Export diagram as ${format.toUpperCase()}`} disabled={exporting || layout.nodes.length === 0} onClick={() => void exportAs(format)}>
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+      {exportError && <p role="alert" className="error-banner">{exportError}</p>}
+      {layout.warnings.map((warning) => <p key={warning} className="diagram-warning" role="note">{warning}</p>)}
+      <div className="diagram-canvas" style={{ width: `${layout.width}px`, height: `${layout.height}px` }} onPointerMove={(event) => {
+        if (!drag) return
+        const x = Math.round(drag.x + event.clientX - drag.pointerX)
+        const y = Math.round(drag.y + event.clientY - drag.pointerY)
+        setDrag({ ...drag, pointerX: event.clientX, pointerY: event.clientY, x, y, moved: drag.moved || x !== drag.x || y !== drag.y })
+      }} onPointerUp={finishDrag} onPointerLeave={finishDrag}>
+        <div className="diagram-grid" />
+        {layout.lanes.map((lane) => (
+          <div key={lane.id} className={`diagram-lane ${layout.notation}`} style={{ left: `${lane.x}px`, top: `${lane.y}px`, width: `${lane.width}px`, height: `${lane.height}px` }}>
+            <span>{lane.label}</span>
+          </div>
+        ))}
+        <svg className="diagram-edges" width={layout.width} height={layout.height} aria-hidden="true">
+          <defs>
+            <marker id="diagram-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" /></marker>
+            <marker id="diagram-open-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10" fill="none" /></marker>
+            <marker id="diagram-triangle" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="10" markerHeight="10" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" className="hollow" /></marker>
+            <marker id="diagram-diamond" viewBox="0 0 12 8" refX="0" refY="4" markerWidth="12" markerHeight="8" orient="auto-start-reverse"><path d="M0,4 L6,0 L12,4 L6,8 z" /></marker>
+          </defs>
+          {layout.edges.map((edge) => {
+            const points = edge.points
+            const label = edge.style.label && points.length > 1 ? midpoint(points) : null
+            return (
+              <g key={edge.id} className={`diagram-edge ${edge.kind} ${edge.style.line}`}>
+                <title>{`${edge.kind}: ${byId.get(edge.sourceId)?.name ?? edge.sourceId} → ${byId.get(edge.targetId)?.name ?? edge.targetId}`}</title>
+                <path
+                  d={points.map((point, index) => `${index === 0 ? 'M' : 'L'}${point.x},${point.y}`).join(' ')}
+                  markerStart={edge.style.sourceMarker === 'none' ? undefined : `url(#diagram-${edge.style.sourceMarker})`}
+                  markerEnd={edge.style.targetMarker === 'none' ? undefined : `url(#diagram-${edge.style.targetMarker})`}
+                />
+                {label && <text x={label.x} y={label.y - 4}>{edge.style.label}</text>}
+              </g>
+            )
+          })}
+        </svg>
+        {nodes.map((node) => (
+          <button
+            type="button"
+            key={node.id}
+            className={`diagram-node ${node.shape} ${containers.has(node.id) ? 'container' : ''} ${selectedId === node.id ? 'selected' : ''} ${node.pinned ? 'pinned' : ''}`}
+            style={{ left: `${node.x}px`, top: `${node.y}px`, width: `${node.width}px`, ...(containers.has(node.id) || node.shape === 'port' ? { height: `${node.height}px` } : { minHeight: `${node.height}px` }) }}
+            title={node.shape === 'port' ? `${node.label} (${node.kind})` : undefined}
+            onPointerDown={(event) => {
+              if (event.button !== 0) return
+              event.currentTarget.setPointerCapture?.(event.pointerId)
+              setDrag({ id: node.id, pointerX: event.clientX, pointerY: event.clientY, x: node.x, y: node.y, moved: false })
+            }}
+            onClick={() => {
+              const element = byId.get(node.id)
+              if (element) onSelect(element)
+            }}
+          >
+            {node.shape === 'port' ? <span className="port-label">{node.label}</span> : node.shape === 'transition' ? <strong>{node.label}</strong> : (
+              <>
+                <span>{node.kind}</span>
+                <strong>{node.label}</strong>
+                {!containers.has(node.id) && <small>{layout.edges.filter((item) => item.sourceId === node.id || item.targetId === node.id).length} relationships</small>}
+              </>
+            )}
+          </button>
+        ))}
+      </div>
+      {layout.nodes.length === 0 && <EmptySurface title="Empty projection" detail="Adjust the roots or filters for this view." />}
     </div>
   )
 }
@@ -691,6 +1063,14 @@ function hierarchyDepth(element: SemanticElement, snapshot: SemanticSnapshot): n
 
 function kindGlyph(kind: string): string {
   if (kind.includes('Requirement')) return 'R'
+  if (kind.includes('Concern')) return 'Cn'
+  if (kind.includes('UseCase')) return 'UC'
+  if (kind.includes('Enumeration')) return 'E'
+  if (kind.includes('Calculation')) return 'Fx'
+  if (kind.includes('Viewpoint')) return 'VP'
+  if (kind.includes('View')) return 'Vw'
+  if (kind.includes('Allocation')) return 'A'
+  if (kind.includes('Occurrence')) return 'O'
   if (kind.includes('Port') || kind.includes('Interface')) return 'I'
   if (kind.includes('Verification')) return 'V'
   if (kind.includes('Package')) return 'P'
@@ -714,19 +1094,36 @@ function ownerName(element: SemanticElement, snapshot: SemanticSnapshot): string
 function relationshipsFor(id: string, snapshot: SemanticSnapshot) { return snapshot.relationships.filter((item) => item.sourceId === id || item.targetId === id) }
 function elementName(id: string, snapshot: SemanticSnapshot): string { return snapshot.elements.find((item) => item.id === id)?.name ?? 'Unresolved element' }
 
-function notationForMode(mode: ModelQueryMode): SavedWorkbenchView['notation'] {
+function formatMultiplicity(multiplicity: NonNullable<SemanticFeature['multiplicity']>): string {
+  return multiplicity.lower === multiplicity.upper ? `[${multiplicity.lower}]` : `[${multiplicity.lower}..${multiplicity.upper}]`
+}
+
+function notationForMode(mode: ModelQueryMode): DiagramNotation {
   if (mode === 'interfaces') return 'interconnection'
   if (mode === 'requirements') return 'traceability'
   if (mode === 'verification') return 'verification-context'
   return 'model-structure'
 }
 
-function defaultPositions(elements: SemanticElement[]): Record<string, { x: number; y: number }> {
-  return Object.fromEntries(elements.slice(0, 500).map((element, index) => [element.id, { x: (index % 4) * 220, y: Math.floor(index / 4) * 112 }]))
+function midpoint(points: Array<{ x: number; y: number }>): { x: number; y: number } {
+  const middle = Math.floor((points.length - 1) / 2)
+  const from = points[middle]!
+  const to = points[middle + 1] ?? from
+  return { x: Math.round((from.x + to.x) / 2), y: Math.round((from.y + to.y) / 2) }
 }
 
-function applySavedView(view: SavedWorkbenchView, setMode: (mode: ModelQueryMode) => void, setSurface: (surface: SurfaceId) => void) {
+function applySavedView(view: SavedWorkbenchView, state: {
+  setMode(mode: ModelQueryMode): void
+  setExpression(expression: string): void
+  setNotation(notation: DiagramNotation): void
+  setSurface(surface: SurfaceId): void
+  setPositions(positions: DiagramLayoutPositions): void
+}) {
+  const { setMode, setExpression, setNotation, setSurface, setPositions } = state
   if (view.query.mode) setMode(view.query.mode)
+  setExpression(view.query.expression ?? '')
+  if (view.notation !== 'table') setNotation(view.notation)
+  setPositions(view.layout?.positions ?? {})
   setSurface(view.notation === 'table' ? 'matrix' : 'diagram')
 }
 
@@ -734,11 +1131,38 @@ function exportMatrixCsv(elements: SemanticElement[], relationships: SemanticSna
   const byId = new Map(snapshot.elements.map((element) => [element.id, element]))
   const quote = (value: unknown) => `"${String(value ?? '').replaceAll('"', '""')}"`
   const rows = [['qualifiedName', 'kind', 'owner', 'outbound', 'inbound', 'source'], ...elements.map((element) => [element.qualifiedName, element.kind, element.ownerId ? byId.get(element.ownerId)?.qualifiedName ?? '' : '', relationships.filter((item) => item.sourceId === element.id).length, relationships.filter((item) => item.targetId === element.id).length, element.source.workspacePath])]
-  const blob = new Blob([rows.map((row) => row.map(quote).join(',')).join('\n')], { type: 'text/csv;charset=utf-8' })
+  downloadBlob(new Blob([rows.map((row) => row.map(quote).join(',')).join('\n')], { type: 'text/csv;charset=utf-8' }), 'sysml-workbench-matrix.csv')
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
   const url = URL.createObjectURL(blob)
   const anchor = window.document.createElement('a')
   anchor.href = url
-  anchor.download = 'sysml-workbench-matrix.csv'
+  anchor.download = fileName
   anchor.click()
   URL.revokeObjectURL(url)
 }
+
+// Twice the diagram size keeps labels legible when the PNG is scaled in a
+// document.
+async function rasterizeSvg(svg: string): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }))
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+    const canvas = window.document.createElement('canvas')
+    canvas.width = image.naturalWidth * 2
+    canvas.height = image.naturalHeight * 2
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('PNG export needs a canvas')
+    context.scale(2, 2)
+    context.drawImage(image, 0, 0)
+    return await new Promise((resolve, reject) => canvas.toBlob(
+      (blob) => blob ? resolve(blob) : reject(new Error('PNG export failed')),
+      'image/png',
+    ))
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
@@ -1,12 +1,15 @@
 import type {
+  ExportedWorkbenchView,
   SavedWorkbenchView,
   WorkbenchCompletionItem,
   WorkbenchHover,
   WorkbenchLocation,
   WorkbenchPosition,
   WorkbenchTextEdit,
+  WorkbenchWorkspaceSymbol,
   WorkspaceDocumentContent,
   WorkspaceStatusResult,
+  WorkspaceSummary,
 } from '../../packages/workbench-protocol/src/index.js'
 import type { LanguageDiagnostic } from '../../packages/language-adapter/src/index.js'
 import type { SemanticSnapshot } from '../../packages/semantic-model/src/index.js'
@@ -14,6 +17,7 @@ import type { ModelQuery, ModelQueryResult } from '../../packages/query-engine/s
 import type {
   ApplyCommandApproval,
   AppliedCommandReceipt,
+  CodeAction,
   CommandEnvelope,
   CommandProposal,
 } from '../../packages/command-engine/src/index.js'
@@ -27,27 +31,49 @@ import type {
   ReviewStaleness,
 } from '../../packages/review-service/src/index.js'
 import type { AssuranceEvaluation } from '../../packages/rule-engine/src/index.js'
-import type { ReportBundleManifest, ReportKind } from '../../packages/report-engine/src/index.js'
+import type {
+  DiagramExportFormat,
+  ReportBundleManifest,
+  ReportKind,
+} from '../../packages/report-engine/src/index.js'
+import type {
+  ModelImportPlan,
+  RequirementTable,
+  RequirementTableMapping,
+} from '../../packages/model-exchange/src/index.js'
 import type {
   AiApplyApproval,
   AiAssistantRequest,
   AiOperationRecord,
   AiOrchestratorStatus,
 } from '../../packages/ai-orchestrator/src/index.js'
+import type { WorkbenchNotification } from '../../packages/workspace-service/src/workspace.js'
 
 export interface WorkbenchGateway {
+  openWorkspace(workspaceFile: string): Promise<WorkspaceStatusResult>
+  listWorkspaces(): Promise<WorkspaceSummary[]>
+  workspaceStatus(workspaceId: string): Promise<WorkspaceStatusResult>
   readDocument(workspaceId: string, documentUri: string): Promise<WorkspaceDocumentContent>
   diagnostics(workspaceId: string): Promise<LanguageDiagnostic[]>
   semanticSnapshot(workspaceId: string): Promise<SemanticSnapshot>
   modelQuery(workspaceId: string, query: ModelQuery): Promise<ModelQueryResult>
   listViews(workspaceId: string): Promise<SavedWorkbenchView[]>
   saveView(workspaceId: string, view: SavedWorkbenchView): Promise<SavedWorkbenchView>
+  exportView(workspaceId: string, view: string | SavedWorkbenchView, format: DiagramExportFormat): Promise<ExportedWorkbenchView>
+  workspaceSymbols(workspaceId: string, query: string, maxResults?: number): Promise<WorkbenchWorkspaceSymbol[]>
   completion(workspaceId: string, documentUri: string, position: WorkbenchPosition): Promise<WorkbenchCompletionItem[]>
   hover(workspaceId: string, documentUri: string, position: WorkbenchPosition): Promise<WorkbenchHover | null>
   definition(workspaceId: string, documentUri: string, position: WorkbenchPosition): Promise<WorkbenchLocation[]>
   references(workspaceId: string, documentUri: string, position: WorkbenchPosition): Promise<WorkbenchLocation[]>
   formatting(workspaceId: string, documentUri: string): Promise<WorkbenchTextEdit[]>
   evaluateAssurance(workspaceId: string): Promise<AssuranceEvaluation>
+  readRequirementTable(fileName: string, content: string): Promise<RequirementTable>
+  planRequirementTableImport(
+    workspaceId: string,
+    table: RequirementTable,
+    mapping: RequirementTableMapping,
+    ownerId: string,
+  ): Promise<ModelImportPlan>
   gitStatus(workspaceId: string): Promise<GitWorkspaceStatus>
   listBaselines(workspaceId: string): Promise<BaselineManifest[]>
   createBaseline(workspaceId: string, input: { id: string; actor: string; at: string }): Promise<BaselineManifest>
@@ -99,8 +125,10 @@ export interface WorkbenchGateway {
   requestAi(workspaceId: string, input: AiAssistantRequest): Promise<AiOperationRecord>
   listAiAudit(workspaceId: string): Promise<AiOperationRecord[]>
   applyAi(workspaceId: string, approval: AiApplyApproval): Promise<AiOperationRecord>
+  codeActions(workspaceId: string, documentUri?: string): Promise<CodeAction[]>
   proposeCommand(envelope: CommandEnvelope): Promise<CommandProposal>
   applyCommand(approval: ApplyCommandApproval): Promise<AppliedCommandReceipt>
+  subscribe?(listener: (notification: WorkbenchNotification) => void): () => void
 }
 
 export interface LoadedWorkspace {